@@ -7,9 +7,11 @@ import { SentientProvider, useSentient } from "./store/SentientContext";
 // StrategyDeck removed - Strategy is now in Performance Tab
 import { OnboardingFlow } from "./features/onboarding/OnboardingFlow";
 import { useSentientLoop } from "./hooks/useSentientLoop";
+import { isTeamMode } from "./services/team/teamService";
 
 const AppContent = () => {
-  const [view, setView] = useState("landing");
+  // Coaches switch athletes by reloading; skip the intro screen in team mode
+  const [view, setView] = useState(() => isTeamMode() ? "dashboard" : "landing");
   const { isFirstLaunch } = useSentient();
   const [showOnboarding, setShowOnboarding] = useState(true);
 
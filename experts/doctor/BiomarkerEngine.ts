@@ -18,6 +18,11 @@ import {
     BIOMARKER_PANELS,
     BiomarkerDashboardOutput
 } from '../../types/biomarkers';
+import { persistence } from '../../services/persistence/repository';
+import { clock } from '../../services/clock';
+import { engineRegistry } from '../../services/engineRegistry';
+import { assessProvenance } from '../../services/provenance';
+import { DataProvenance } from '../../types/provenance';
 
 // ============================================================================
 // STATUS CLASSIFICATION
@@ -122,6 +127,7 @@ interface StoredReading extends BiomarkerReading {
 
 export class BiomarkerEngine {
     private readings: Map<string, StoredReading[]> = new Map();
+    private recorded = false;
 
     /**
      * Add a new biomarker reading
@@ -139,6 +145,79 @@ export class BiomarkerEngine {
         this.readings.set(reading.biomarker_id, existing);
     }
 
+    /**
+     * Load persisted (imported) readings. Returns false when there are none.
+     */
+    loadStoredReadings(): boolean {
+        const stored = persistence.getAll('biomarker_readings');
+        if (stored.length === 0) return false;
+        this.readings.clear();
+        stored.forEach(r => this.addReading(r));
+        this.recorded = true;
+        return true;
+    }
+
+    /**
+     * Re-read readings from the biomarker store, or sample data until
+     * there are any
+     */
+    reload(): void {
+        if (this.loadStoredReadings()) return;
+        this.readings.clear();
+        this.recorded = false;
+        this.loadSampleData();
+    }
+
+    /**
+     * Record real lab results. One reading per marker per date: a re-import
+     * replaces the earlier value. The first import replaces sample data.
+     */
+    importReadings(readings: BiomarkerReading[]): void {
+        if (readings.length === 0) return;
+        if (!this.recorded) {
+            this.readings.clear();
+            this.recorded = true;
+        }
+        readings.forEach(reading => {
+            const existing = this.readings.get(reading.biomarker_id) || [];
+            this.readings.set(reading.biomarker_id, existing.filter(r => r.date !== reading.date));
+            this.addReading(reading);
+        });
+        persistence.putMany('biomarker_readings', readings);
+    }
+
+    /**
+     * Whether readings come from imported lab results rather than sample data
+     */
+    hasRecordedReadings(): boolean {
+        return this.recorded;
+    }
+
+    /**
+     * Lab dates count as days; two give a trend. Sample readings are synthetic.
+     */
+    getProvenance(): DataProvenance {
+        return assessProvenance({
+            real_days: new Set(this.getReadings().map(r => r.date)).size,
+            expected_days: 2,
+            synthetic: !this.recorded
+        });
+    }
+
+    /**
+     * All stored readings, oldest first, with their status at the time
+     */
+    getReadings(): (BiomarkerReading & { status?: BiomarkerStatus })[] {
+        const readings: (BiomarkerReading & { status?: BiomarkerStatus })[] = [];
+        this.readings.forEach(history => {
+            history.forEach(({ id, ...reading }) => {
+                const biomarker = this.getBiomarker(reading.biomarker_id);
+                readings.push({ ...reading, status: biomarker ? classifyStatus(reading.value, biomarker) : undefined });
+            });
+        });
+        return readings.sort((a, b) => a.date.localeCompare(b.date) || a.biomarker_id.localeCompare(b.biomarker_id));
+    }
+
     /**
      * Get the biomarker definition
      */
@@ -350,7 +429,7 @@ export class BiomarkerEngine {
             : 0;
 
         // Last test date
-        const lastTestDate = this.getLastTestDate() || new Date().toISOString().split('T')[0];
+        const lastTestDate = this.getLastTestDate() || clock.now().toISOString().split('T')[0];
 
         // Next recommended test (3 months from last)
         const lastDate = new Date(lastTestDate);
@@ -358,6 +437,7 @@ export class BiomarkerEngine {
         const nextRecommendedTest = lastDate.toISOString().split('T')[0];
 
         return {
+            provenance: this.getProvenance(),
             last_test_date: lastTestDate,
             next_recommended_test: nextRecommendedTest,
             panels,
@@ -371,8 +451,8 @@ export class BiomarkerEngine {
      * Load sample data for demo
      */
     loadSampleData(): void {
-        const today = new Date().toISOString().split('T')[0];
-        const threeMonthsAgo = new Date();
+        const today = clock.now().toISOString().split('T')[0];
+        const threeMonthsAgo = clock.now();
         threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
         const previousDate = threeMonthsAgo.toISOString().split('T')[0];
 
@@ -408,11 +488,24 @@ export class BiomarkerEngine {
     }
 }
 
-// Singleton with sample data
-export const biomarkerEngine = new BiomarkerEngine();
-biomarkerEngine.loadSampleData();
+// Singleton with imported readings, or sample data until there are any
+export const biomarkerEngine = engineRegistry.register({
+    id: 'biomarkers',
+    label: 'Biomarkers',
+    domain: 'medical',
+    instance: new BiomarkerEngine(),
+    hydrate: engine => engine.reload(),
+    dataSource: engine => engine.hasRecordedReadings() ? 'recorded' : 'mock',
+    // Sample readings do not count as coverage
+    coverage: engine => ({
+        covered: engine.hasRecordedReadings() ? new Set(engine.getReadings().map(r => r.biomarker_id)).size : 0,
+        expected: BIOMARKER_DEFINITIONS.length,
+        unit: 'markers'
+    })
+});
+biomarkerEngine.reload();
 
 // Convenience export
 export function analyzeBiomarkers(): BiomarkerDashboardOutput {
-    return biomarkerEngine.analyze();
+    return engineRegistry.run('biomarkers', () => biomarkerEngine.analyze());
 }
@@ -17,6 +17,8 @@ import {
     CompromiseOption
 } from "../types";
 import { StatusClassificationEngine } from "../shared/StatusClassificationEngine";
+import { clock } from "../../services/clock";
+import { forState, snapshotProvenance } from "../../services/provenance";
 
 // =====================================================
 // DOCTOR EXPERT
@@ -84,7 +86,8 @@ export class DoctorExpert implements Expert {
             status: statusResult.status,
             statusResult,
             concerns,
-            opportunities
+            opportunities,
+            provenance: forState(snapshotProvenance(), state)
         };
     }
 
@@ -211,7 +214,7 @@ export class DoctorExpert implements Expert {
 
         // General bloodwork reminder
         const lastCheck = biomarkers?.last_check ?
-            Math.floor((Date.now() - new Date(biomarkers.last_check).getTime()) / (1000 * 60 * 60 * 24)) : 180;
+            Math.floor((clock.nowMs() - new Date(biomarkers.last_check).getTime()) / (1000 * 60 * 60 * 24)) : 180;
         if (lastCheck > 90) {
             recommendations.push({
                 id: 'doctor_bloodwork',
@@ -1,7 +1,82 @@
 
-import { GlobalState, SimulationReport, ScheduleArchetype, LifestyleArchetype, DayResult, Session } from '../../types';
+import {
+    GlobalState, SimulationReport, ScheduleArchetype, LifestyleArchetype, DayResult, Session,
+    LifestyleDistributions, MonteCarloReport, PercentileBand, SentientOutput, TrainingPlan,
+    PlanVariant, VariantComparison, VariantOutcome
+} from '../../types';
+import { HistoricalDataPoint } from '../../services/history/types';
+import { isSnapshot } from '../../services/history/historyStore';
 import { SentientLocalOrchestrator } from '../orchestrator/sentientLocalOrchestrator';
 import { ScheduleGenerator } from '../../services/scheduleGenerator';
+import { sessionToDailyLoad } from '../../services/import/activityImporter';
+import { loadManagementEngine } from '../performance/LoadManagementEngine';
+import { toDateKey } from '../performance/loadHistoryStore';
+import { clock } from '../../services/clock';
+import { assessProvenance } from '../../services/provenance';
+
+const DEFAULT_RUNS = 200;
+const HISTORY_WINDOW_DAYS = 90;
+const MIN_HISTORY_DAYS = 7;             // Fewer days than this and the default spread is used
+
+// Population spread around today's values when there is too little history
+const DEFAULT_SLEEP_OFFSETS = [-1, -0.5, 0, 0, 0.5];
+const DEFAULT_STRESS_OFFSETS = [-2, -1, 0, 0, 1, 2];
+const DEFAULT_COMPLIANCE = [1, 1, 1, 1, 0.5];
+const FAILURE_TOLERANCE = 0.05;         // Variants this close to the safest count as equally safe
+const ACWR_WINDOW_DAYS = 28;            // Chronic load window
+const SLICE_MS = 30;                    // Longest the runs hold the main thread before yielding to the UI
+
+// Fraction of runs done, 0-1
+export type SimulationProgress = (fraction: number) => void;
+
+const nextTask = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+// Deterministic PRNG so every plan can be replayed against the same draws (mulberry32)
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const pick = (values: number[], random: () => number): number => values[Math.floor(random() * values.length)];
+
+const hashString = (text: string): number => {
+    let h = 5381;
+    for (let i = 0; i < text.length; i++) h = (Math.imul(h, 33) ^ text.charCodeAt(i)) | 0;
+    return h;
+};
+
+// Whether a session is done in a given run depends only on its id, so edited plans keep their draws
+const sessionDraw = (seed: number, run: number, sessionId: string): number =>
+    createRandom(hashString(`${seed}:${run}:${sessionId}`))();
+
+const percentile = (sorted: number[], p: number): number => {
+    const rank = (sorted.length - 1) * p;
+    const lo = Math.floor(rank);
+    const hi = Math.ceil(rank);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+};
+
+const band = (values: number[], digits: number): PercentileBand => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const round = (x: number) => Math.round(x * 10 ** digits) / 10 ** digits;
+    return { p10: round(percentile(sorted, 0.1)), p50: round(percentile(sorted, 0.5)), p90: round(percentile(sorted, 0.9)) };
+};
+
+// Latest value per date, oldest first
+const dailyValues = (points: HistoricalDataPoint[], read: (dp: HistoricalDataPoint) => number | undefined): number[] => {
+    const byDate = new Map<string, number>();
+    for (const dp of points) {
+        const value = read(dp);
+        if (typeof value === 'number' && Number.isFinite(value) && dp.date) byDate.set(dp.date, value);
+    }
+    return [...byDate.values()];
+};
+
+// Planned sessions carry no heart rate, so the simulation measures load in sRPE throughout
+const planLoad = (sessions: Session[]): number =>
+    sessions.reduce((acc, s) => acc + sessionToDailyLoad(s, 'session_rpe').load_au, 0);
 
 export class PredictiveEngine {
 
@@ -46,7 +121,7 @@ export class PredictiveEngine {
             });
 
             // 4. Check Failure
-            if (output.readinessScore < 20 || output.commanderDecision.mode === "Systemic Overload") {
+            if (this.hasFailed(output)) {
                 failureDay = day + 1;
             }
 
@@ -65,6 +140,278 @@ export class PredictiveEngine {
         };
     }
 
+    /**
+     * Sleep, stress and compliance to resample, from the last 90 days of the
+     * athlete's own history points and timeline. Compliance is the share of a
+     * day's planned (not imported) sessions that were completed.
+     */
+    public static lifestyleDistributions(
+        state: Pick<GlobalState, 'timeline' | 'sleep' | 'mindspace'>,
+        points: HistoricalDataPoint[],
+        now: Date = clock.now()
+    ): LifestyleDistributions {
+        const since = now.getTime() - HISTORY_WINDOW_DAYS * 86400000;
+        const recent = points.filter(dp => dp.timestamp >= since);
+        // A measured night beats the snapshot's sleep field
+        const sleep = dailyValues(recent, dp => dp.sleep_night ? dp.sleep_night.total_sleep_time / 60
+            : dp.sleep_duration > 0 ? dp.sleep_duration : undefined);
+        const stress = dailyValues(recent.filter(isSnapshot), dp => dp.stress);
+
+        const today = toDateKey(now);
+        const planned = new Map<string, { done: number; total: number }>();
+        for (const s of state.timeline.sessions) {
+            if (!s.date || s.import_source || s.is_interstitial) continue;
+            const date = toDateKey(new Date(s.date));
+            if (date >= today || new Date(s.date).getTime() < since) continue;
+            const day = planned.get(date) || { done: 0, total: 0 };
+            day.total++;
+            if (s.completed) day.done++;
+            planned.set(date, day);
+        }
+        const compliance = [...planned.values()].map(d => d.done / d.total);
+
+        const enough = (values: number[]) => values.length >= MIN_HISTORY_DAYS;
+        return {
+            sleep_hours: enough(sleep) ? sleep : DEFAULT_SLEEP_OFFSETS.map(d => Math.max(3, state.sleep.duration + d)),
+            stress: enough(stress) ? stress : DEFAULT_STRESS_OFFSETS.map(d => Math.min(10, Math.max(1, state.mindspace.stress + d))),
+            compliance: enough(compliance) ? compliance : DEFAULT_COMPLIANCE,
+            history_days: {
+                sleep: enough(sleep) ? sleep.length : 0,
+                stress: enough(stress) ? stress.length : 0,
+                compliance: enough(compliance) ? compliance.length : 0
+            }
+        };
+    }
+
+    /**
+     * Run a planned block many times with each day's sleep, stress and
+     * compliance drawn from `distributions`. ACWR rolls on from the load
+     * history; a run keeps going after it fails so every day has a full
+     * set of outcomes. Same seed, same draws: each day's lifestyle comes from
+     * the run's own stream and each session's completion from its id, so
+     * plans compared under one seed face identical days. Yields between runs
+     * so the page stays responsive.
+     */
+    public static async runMonteCarlo(
+        startState: GlobalState,
+        plan: TrainingPlan,
+        distributions: LifestyleDistributions,
+        runs: number = DEFAULT_RUNS,
+        seed: number = 1,
+        onProgress?: SimulationProgress
+    ): Promise<MonteCarloReport> {
+        // Days before the plan starts (plan day 1 is usually today, already in the history),
+        // in sRPE like the planned days (planLoad), whatever method the recorded history uses.
+        // Without recorded loads the engine's history is random mock data: start from nothing.
+        const history = loadManagementEngine.hasRecordedHistory()
+            ? loadManagementEngine.getHistory()
+                .filter(d => d.date < plan.days[0].date)
+                .slice(-28)
+                .map(d => d.session_rpe * d.duration_minutes)
+            : [];
+        const loadProvenance = assessProvenance({ real_days: history.length, expected_days: ACWR_WINDOW_DAYS, min_days: 7 });
+        const days = plan.days.length;
+        const readiness: number[][] = plan.days.map(() => []);
+        const acwr: number[][] = plan.days.map(() => []);
+        const risk: number[][] = plan.days.map(() => []);
+        const failedOn: number[] = [];
+        let sliceStart = performance.now();
+
+        // Each simulated day runs at this time of day on its own date. A pinned clock also keeps
+        // the runs out of the engine registry's diagnostics.
+        const now = clock.now();
+        const dayTimes = plan.days.map(planned => {
+            const at = new Date(`${planned.date}T00:00:00`);
+            at.setHours(now.getHours(), now.getMinutes(), 0, 0);
+            return at;
+        });
+
+        for (let run = 0; run < runs; run++) {
+            const random = createRandom(hashString(`${seed}:${run}`));
+            let state: GlobalState = JSON.parse(JSON.stringify(startState));
+            const loads = [...history];
+            let failureDay: number | null = null;
+
+            plan.days.forEach((planned, d) => {
+                const compliance = pick(distributions.compliance, random);
+                const sessions = planned.sessions.filter(s => sessionDraw(seed, run, s.id) < compliance);
+                const sleepHours = pick(distributions.sleep_hours, random);
+                state.sleep.duration = sleepHours;
+                state.sleep.sleep_debt = Math.max(0, state.sleep.sleep_debt + state.user_profile.baselines.sleep_need - sleepHours);
+                state.mindspace.stress = pick(distributions.stress, random);
+                state.timeline.sessions = sessions;
+
+                loads.push(planLoad(sessions));
+                // A part-filled chronic window reads as a spike, so ACWR stays neutral until it is full
+                const acute = loads.slice(-7).reduce((a, b) => a + b, 0);
+                const chronic = loads.slice(-ACWR_WINDOW_DAYS).reduce((a, b) => a + b, 0) / 4;
+                const dayAcwr = loads.length >= ACWR_WINDOW_DAYS && chronic > 0 ? acute / chronic : 1.0;
+                state.physical_load = { ...state.physical_load, acute_load: acute, chronic_load: chronic, acwr: dayAcwr };
+
+                const output = clock.runAt(dayTimes[d], () => new SentientLocalOrchestrator(state).runAll());
+                readiness[d].push(output.readinessScore);
+                acwr[d].push(dayAcwr);
+                risk[d].push(this.injuryRisk(output, dayAcwr));
+                if (failureDay === null && this.hasFailed(output)) failureDay = d + 1;
+
+                state = this.degradeStateForNextDay(state, output, sessions);
+            });
+            if (failureDay !== null) failedOn.push(failureDay);
+
+            if (run + 1 < runs && performance.now() - sliceStart > SLICE_MS) {
+                onProgress?.((run + 1) / runs);
+                await nextTask();
+                sliceStart = performance.now();
+            }
+        }
+        onProgress?.(1);
+
+        const trajectory = plan.days.map((planned, d) => ({
+            day: d + 1,
+            date: planned.date,
+            planned_load: planLoad(planned.sessions),
+            readiness: band(readiness[d], 0),
+            acwr: band(acwr[d], 2),
+            injury_risk: band(risk[d], 0),
+            failure_probability: Math.round(failedOn.filter(f => f <= d + 1).length / runs * 1000) / 1000
+        }));
+        const sortedFailures = [...failedOn].sort((a, b) => a - b);
+        const failureProbability = Math.round(failedOn.length / runs * 1000) / 1000;
+        const medianFailureDay = sortedFailures.length > 0 ? Math.round(percentile(sortedFailures, 0.5)) : null;
+
+        return {
+            plan_name: plan.name,
+            runs,
+            seed,
+            trajectory,
+            failure_probability: failureProbability,
+            median_failure_day: medianFailureDay,
+            history_days: distributions.history_days,
+            load_provenance: loadProvenance,
+            recommendation: this.monteCarloRecommendation(failureProbability, medianFailureDay, trajectory, days)
+        };
+    }
+
+    /**
+     * The sleep distribution moved so its median is `hours`; the night-to-night
+     * spread stays the athlete's own
+     */
+    public static withSleepTarget(distributions: LifestyleDistributions, hours: number): LifestyleDistributions {
+        const sorted = [...distributions.sleep_hours].sort((a, b) => a - b);
+        const shift = hours - percentile(sorted, 0.5);
+        return {
+            ...distributions,
+            sleep_hours: distributions.sleep_hours.map(h => Math.min(11, Math.max(3, h + shift)))
+        };
+    }
+
+    /**
+     * Run each variant of `basePlan` from the same start state under the same
+     * seed, so differences come from the edits rather than the draws. The
+     * best variant has the highest median readiness on the target date among
+     * those within 5 points of the lowest failure chance. Progress covers all
+     * variants.
+     */
+    public static async compareVariants(
+        startState: GlobalState,
+        basePlan: TrainingPlan,
+        variants: PlanVariant[],
+        distributions: LifestyleDistributions,
+        target: { date: string; label: string },
+        runs: number = DEFAULT_RUNS,
+        seed: number = 1,
+        onProgress?: SimulationProgress
+    ): Promise<VariantComparison> {
+        const inBlock = basePlan.days.some(d => d.date === target.date);
+        const targetDate = inBlock ? target.date : basePlan.days[basePlan.days.length - 1].date;
+        const targetLabel = inBlock ? target.label : 'the end of the block';
+
+        const outcomes: VariantOutcome[] = [];
+        for (const [i, variant] of variants.entries()) {
+            const plan = { ...ScheduleGenerator.applyEdits(basePlan, variant.edits), name: variant.name };
+            const lifestyle = variant.sleep_target_hours !== undefined
+                ? this.withSleepTarget(distributions, variant.sleep_target_hours)
+                : distributions;
+            const report = await this.runMonteCarlo(
+                startState, plan, lifestyle, runs, seed,
+                onProgress && (fraction => onProgress((i + fraction) / variants.length))
+            );
+            const onTarget = report.trajectory.find(t => t.date === targetDate)!;
+            outcomes.push({
+                variant,
+                report,
+                target_readiness: onTarget.readiness,
+                mean_injury_risk: Math.round(report.trajectory.reduce((acc, t) => acc + t.injury_risk.p50, 0) / report.trajectory.length),
+                peak_acwr: Math.max(...report.trajectory.map(t => t.acwr.p90))
+            });
+        }
+
+        const safest = Math.min(...outcomes.map(o => o.report.failure_probability));
+        const best = outcomes
+            .filter(o => o.report.failure_probability <= safest + FAILURE_TOLERANCE)
+            .reduce((a, b) => (
+                b.target_readiness.p50 > a.target_readiness.p50 ||
+                (b.target_readiness.p50 === a.target_readiness.p50 && b.mean_injury_risk < a.mean_injury_risk) ? b : a
+            ));
+
+        return {
+            target_date: targetDate,
+            target_label: targetLabel,
+            outcomes,
+            best_variant_id: best.variant.id,
+            summary: this.comparisonSummary(outcomes, best, targetLabel)
+        };
+    }
+
+    private static comparisonSummary(outcomes: VariantOutcome[], best: VariantOutcome, targetLabel: string): string {
+        const { p10, p50, p90 } = best.target_readiness;
+        const lines = [
+            `${best.variant.name} reaches ${targetLabel} with median readiness ${p50} (${p10}–${p90}) ` +
+            `and a ${Math.round(best.report.failure_probability * 100)}% failure chance.`
+        ];
+        const readiest = outcomes.reduce((a, b) => (b.target_readiness.p50 > a.target_readiness.p50 ? b : a));
+        if (readiest !== best) {
+            lines.push(`${readiest.variant.name} peaks higher (${readiest.target_readiness.p50}) but fails in ` +
+                `${Math.round(readiest.report.failure_probability * 100)}% of runs.`);
+        }
+        const calmest = outcomes.reduce((a, b) => (b.mean_injury_risk < a.mean_injury_risk ? b : a));
+        if (calmest !== best) {
+            lines.push(`${calmest.variant.name} carries the lowest injury risk (${calmest.mean_injury_risk} vs ${best.mean_injury_risk}).`);
+        }
+        return lines.join(' ');
+    }
+
+    // Readiness-based risk (as in runCampaign), scaled by the ACWR zone's injury multiplier
+    private static injuryRisk(output: SentientOutput, acwr: number): number {
+        const base = output.injuryRisks.length > 0 ? 80 : Math.max(0, 100 - output.readinessScore);
+        return Math.min(100, Math.round(base * loadManagementEngine.classifyZone(acwr).info.injury_risk_multiplier));
+    }
+
+    private static hasFailed(output: SentientOutput): boolean {
+        return output.readinessScore < 20 || output.commanderDecision.mode === "Systemic Overload";
+    }
+
+    private static monteCarloRecommendation(
+        failureProbability: number,
+        medianFailureDay: number | null,
+        trajectory: MonteCarloReport['trajectory'],
+        days: number
+    ): string {
+        const peakAcwr = Math.max(...trajectory.map(t => t.acwr.p90));
+        if (failureProbability >= 0.5) {
+            return `Fails in ${Math.round(failureProbability * 100)}% of runs, typically by day ${medianFailureDay}. Cut volume or add rest before then.`;
+        }
+        if (failureProbability >= 0.2) {
+            return `${Math.round(failureProbability * 100)}% chance of breaking down (median day ${medianFailureDay}). Protect sleep and keep a rest day in reserve.`;
+        }
+        if (peakAcwr > 1.5) {
+            return `Survives ${days} days in most runs, but ACWR reaches ${peakAcwr.toFixed(2)} at the 90th percentile. Smooth the load spike.`;
+        }
+        return failureProbability > 0
+            ? `Resilient in ${Math.round((1 - failureProbability) * 100)}% of runs over ${days} days.`
+            : `No failures across the simulated runs over ${days} days.`;
+    }
+
     private static applyLifestyle(state: GlobalState, type: LifestyleArchetype): GlobalState {
         // Reset daily inputs based on lifestyle
         if (type === 'optimal') {
@@ -92,7 +439,7 @@ export class PredictiveEngine {
         state: GlobalState,
         output: any,
         todaysSessions: Session[],
-        lifestyle: LifestyleArchetype
+        lifestyle?: LifestyleArchetype
     ): GlobalState {
         const next = JSON.parse(JSON.stringify(state));
 
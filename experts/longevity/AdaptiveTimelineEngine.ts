@@ -11,6 +11,8 @@
  * Core principle: The timeline adapts to the USER, not the other way around.
  */
 
+import { clock } from '../../services/clock';
+
 // =====================================================
 // TYPES
 // =====================================================
@@ -376,7 +378,7 @@ export class AdaptiveTimelineEngine {
             case 'training':
                 baseTime = anchors.training_time
                     ? this.parseTimeToday(anchors.training_time)
-                    : new Date();
+                    : clock.now();
                 break;
             case 'first_meal':
                 baseTime = this.parseTimeToday(anchors.first_meal_time);
@@ -385,7 +387,7 @@ export class AdaptiveTimelineEngine {
                 baseTime = this.parseTimeToday(anchors.last_meal_time);
                 break;
             default:
-                baseTime = new Date();
+                baseTime = clock.now();
         }
 
         return new Date(baseTime.getTime() + offsetMinutes * 60 * 1000);
@@ -396,7 +398,7 @@ export class AdaptiveTimelineEngine {
      */
     static parseTimeToday(timeStr: string): Date {
         const [hours, minutes] = timeStr.split(':').map(Number);
-        const today = new Date();
+        const today = clock.now();
         today.setHours(hours, minutes, 0, 0);
         return today;
     }
@@ -468,7 +470,7 @@ export class AdaptiveTimelineEngine {
         userSessions: any[] = [],
         customProtocols: AdaptiveProtocol[] = []
     ): AdaptiveTimeline {
-        const now = new Date();
+        const now = clock.now();
 
         // Collect all protocols
         const allProtocols = [
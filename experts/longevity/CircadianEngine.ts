@@ -23,6 +23,10 @@ import {
     HUBERMAN_LIGHT_PROTOCOL,
     BLUEPRINT_CIRCADIAN_PROTOCOL
 } from '../../types/circadian';
+import { clock } from '../../services/clock';
+import { engineRegistry, stateSource } from '../../services/engineRegistry';
+import { assessProvenance } from '../../services/provenance';
+import { DataProvenance } from '../../types/provenance';
 
 // ============================================================================
 // TIME UTILITIES
@@ -40,7 +44,7 @@ const formatTime = (minutes: number): string => {
 };
 
 const getCurrentMinutes = (): number => {
-    const now = new Date();
+    const now = clock.now();
     return now.getHours() * 60 + now.getMinutes();
 };
 
@@ -154,7 +158,7 @@ const calculateBodyTemperatureCurve = (wakeTime: string): BodyTemperatureCurve =
     const minEntry = hourlyTemps.reduce((a, b) => a.temp_celsius < b.temp_celsius ? a : b);
     const maxEntry = hourlyTemps.reduce((a, b) => a.temp_celsius > b.temp_celsius ? a : b);
 
-    const currentHour = new Date().getHours();
+    const currentHour = clock.now().getHours();
     const currentTemp = hourlyTemps.find(t => t.hour === currentHour)!;
 
     return {
@@ -173,7 +177,7 @@ const calculateBodyTemperatureCurve = (wakeTime: string): BodyTemperatureCurve =
 // ============================================================================
 
 const detectCircadianPhase = (wakeTime: string): CircadianPhase => {
-    const now = new Date();
+    const now = clock.now();
     const currentMinutes = now.getHours() * 60 + now.getMinutes();
     const wakeMinutes = parseTime(wakeTime);
 
@@ -375,6 +379,13 @@ export class CircadianEngine {
         return this.hasUserConfiguredTimes;
     }
 
+    /**
+     * Configured from today's sleep times; the defaults are synthetic
+     */
+    getProvenance(): DataProvenance {
+        return assessProvenance({ real_days: 1, expected_days: 1, synthetic: !this.hasUserConfiguredTimes });
+    }
+
 
 
     /**
@@ -453,6 +464,7 @@ export class CircadianEngine {
         const schedule = this.getRecommendedSchedule();
 
         return {
+            provenance: this.getProvenance(),
             chronotype,
             current_phase: currentPhase,
             body_temp_curve: bodyTempCurve,
@@ -468,8 +480,15 @@ export class CircadianEngine {
     }
 }
 
-// Singleton
-export const circadianEngine = new CircadianEngine();
+// Singleton, owned by the engine registry. Configured from state, no history
+export const circadianEngine = engineRegistry.register({
+    id: 'circadian',
+    label: 'Circadian Rhythm',
+    domain: 'longevity',
+    instance: new CircadianEngine(),
+    dataSource: (engine, state) => engine.hasData() ? stateSource(state) : 'mock',
+    coverage: () => null
+});
 
 // State-driven analysis function
 import type { GlobalState } from '../../types';
@@ -499,5 +518,5 @@ export function analyzeCircadian(state?: GlobalState): CircadianAnalysisOutput |
         }
     }
 
-    return circadianEngine.analyze();
+    return engineRegistry.run('circadian', () => circadianEngine.analyze());
 }
@@ -18,6 +18,8 @@ import {
 } from "../types";
 import { AdaptiveTimelineEngine } from "./AdaptiveTimelineEngine";
 import { StatusClassificationEngine } from "../shared/StatusClassificationEngine";
+import { clock } from "../../services/clock";
+import { forState, snapshotProvenance } from "../../services/provenance";
 
 // =====================================================
 // BIOLOGICAL AGE TYPES
@@ -106,7 +108,7 @@ export class LongevityExpert implements Expert {
         const concerns: string[] = [];
         const opportunities: string[] = [];
 
-        const hour = new Date().getHours();
+        const hour = clock.now().getHours();
         const sleep = state.sleep;
 
         // Detect chronotype
@@ -166,7 +168,8 @@ export class LongevityExpert implements Expert {
             status: statusResult.status,
             statusResult,
             concerns,
-            opportunities
+            opportunities,
+            provenance: forState(snapshotProvenance(), state)
         };
     }
 
@@ -364,7 +367,7 @@ export class LongevityExpert implements Expert {
      * Calculate circadian alignment score (0-100)
      */
     private calculateCircadianScore(state: GlobalState, profile: UserProfile): number {
-        const hour = new Date().getHours();
+        const hour = clock.now().getHours();
         let score = 70; // Base score
 
         const profileExt = profile as any;
@@ -645,7 +648,7 @@ export class LongevityExpert implements Expert {
         }
 
         // Evening = longevity protocols more important (sleep prep)
-        const hour = new Date().getHours();
+        const hour = clock.now().getHours();
         const bedHour = parseInt((profile as any)?.typical_bed_time?.split(':')[0] || '23');
         if (hour >= bedHour - 3) {
             weight += 0.10;
@@ -665,7 +668,7 @@ export class LongevityExpert implements Expert {
     // =====================================================
 
     private timeToDate(hour: number): Date {
-        const now = new Date();
+        const now = clock.now();
         const date = new Date(now);
         date.setHours(Math.floor(hour), (hour % 1) * 60, 0, 0);
         return date;
@@ -17,6 +17,7 @@ import { generateSupplementProtocol, DaySupplementProtocol, SupplementWindow } f
 import { generateLongevityProtocol, DayLongevityProtocol, LongevityAction, LongevityProtocolEngine } from './longevityProtocolEngine';
 import { generateRecoveryProtocol, DayRecoveryProtocol, RecoveryWindow } from '../recovery/RecoveryProtocolEngine';
 import { generateMindProtocol, DayMindProtocol, MindWindow } from '../mental/MindProtocolEngine';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -140,7 +141,7 @@ export class UnifiedTimelineProtocolEngine {
     /**
      * Generate unified day protocol
      */
-    generateDayProtocol(sessions: Session[], now: Date = new Date()): UnifiedDayProtocol {
+    generateDayProtocol(sessions: Session[], now: Date = clock.now()): UnifiedDayProtocol {
         // Get protocols from each engine
         const fuelProtocol = generateFuelWindows(sessions, this.userGoal, this.userWeight);
         const supplementProtocol = generateSupplementProtocol(this.supplementIds, sessions, this.userGoal);
@@ -232,7 +233,7 @@ export class UnifiedTimelineProtocolEngine {
     /**
      * Get the single most important action right now
      */
-    getCurrentPriorityAction(sessions: Session[], now: Date = new Date()): UnifiedAction | null {
+    getCurrentPriorityAction(sessions: Session[], now: Date = clock.now()): UnifiedAction | null {
         const protocol = this.generateDayProtocol(sessions, now);
         return protocol.current_action || protocol.next_action;
     }
@@ -13,6 +13,7 @@
 import { GoalType } from '../../types/goals';
 import { GlobalState, UserProfile } from '../../types';
 import { Session, generateFuelWindows, DayFuelProtocol, FuelWindow } from '../nutritionist/SessionFuelProtocolEngine';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -222,7 +223,7 @@ export class LongevityProtocolEngine {
         return Math.floor(diff / (1000 * 60 * 60 * 24));
     }
 
-    generateDayProtocol(sessions: Session[], now: Date = new Date()): DayLongevityProtocol {
+    generateDayProtocol(sessions: Session[], now: Date = clock.now()): DayLongevityProtocol {
         const hasSessions = this.hasSessions(sessions, now);
         const deficit = this.getTrainingDeficit(now);
         const actions: LongevityAction[] = [];
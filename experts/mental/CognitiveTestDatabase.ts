@@ -11,6 +11,8 @@
  * - Dual N-Back research (Jaeggi et al.)
  */
 
+import { clock } from '../../services/clock';
+
 // =====================================================
 // TYPES
 // =====================================================
@@ -58,6 +60,9 @@ export interface TestResult {
     accuracy: number;
     reaction_time_ms?: number;
     level_reached?: number;
+    lapses?: number;
+    false_starts?: number;
+    z_score?: number;       // Against this test's own history, signed so positive is better
     personal_best: boolean;
     comparison_to_baseline: 'below' | 'at' | 'above' | 'elite';
 }
@@ -101,6 +106,27 @@ export const COGNITIVE_TESTS: CognitiveTestConfig[] = [
         scoring_type: 'time_lower_better',
         baseline_range: { poor: 300, average: 250, good: 200, elite: 170 }
     },
+    {
+        id: 'pvt',
+        name: 'Vigilance (PVT)',
+        emoji: '⏱️',
+        category: 'reaction',
+        duration_seconds: 180,
+        trials_per_session: 120,
+        description: 'Three minutes of waiting for a counter to start, then stopping it. Standard PVT-B.',
+        sport_relevance: 'Daily fatigue check before training, travel and competition days',
+        science: 'Psychomotor Vigilance Task (Dinges). Lapses and slowing of 1/RT track sleep loss more reliably than self-report.',
+        measures: ['Sustained vigilance', 'Sleep-related fatigue', 'Lapses'],
+        base_difficulty: 1,
+        has_adaptive: false,
+        levels: 1,
+        training_benefit: 'Not trainable by design. A daily marker, not a drill.',
+        recommended_frequency: 'Daily, same time of day (ideally within an hour of waking)',
+        best_for_sports: ['All sports'],
+        scoring_type: 'composite',
+        // Mean reciprocal RT (1/s)
+        baseline_range: { poor: 2.8, average: 3.3, good: 3.7, elite: 4.1 }
+    },
     {
         id: 'choice_reaction',
         name: 'Choice Reaction',
@@ -295,6 +321,14 @@ export const COGNITIVE_TESTS: CognitiveTestConfig[] = [
     }
 ];
 
+// Tests whose latest score is mirrored into mindspace.cognitive_scores
+export const MINDSPACE_SCORE_FIELDS = {
+    simple_reaction: 'reaction_time',
+    spatial_span: 'memory_span',
+    focus_tracking: 'focus_density',
+    go_nogo: 'impulse_control'
+} as const;
+
 // =====================================================
 // HELPER FUNCTIONS
 // =====================================================
@@ -319,7 +353,7 @@ export const getRecommendedTests = (
 ): CognitiveTestConfig[] => {
     // Prioritize weaknesses and tests not done recently
     const recentTestIds = profile.test_history
-        .filter(t => Date.now() - t.timestamp.getTime() < 24 * 60 * 60 * 1000)
+        .filter(t => clock.nowMs() - t.timestamp.getTime() < 24 * 60 * 60 * 1000)
         .map(t => t.test_id);
 
     return COGNITIVE_TESTS
@@ -334,13 +368,17 @@ export const getRecommendedTests = (
         .slice(0, 3);
 };
 
+// Composite scores can be in ms (lower is better) or percent; the baseline order tells which
+export const isLowerBetter = (test: CognitiveTestConfig): boolean =>
+    test.scoring_type === 'time_lower_better' || test.baseline_range.elite < test.baseline_range.poor;
+
 export const calculatePerformanceRating = (
     test: CognitiveTestConfig,
     score: number
 ): 'poor' | 'average' | 'good' | 'elite' => {
-    const { baseline_range, scoring_type } = test;
+    const { baseline_range } = test;
 
-    if (scoring_type === 'time_lower_better') {
+    if (isLowerBetter(test)) {
         if (score <= baseline_range.elite) return 'elite';
         if (score <= baseline_range.good) return 'good';
         if (score <= baseline_range.average) return 'average';
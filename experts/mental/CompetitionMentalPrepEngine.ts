@@ -9,6 +9,7 @@
 
 import { BreathworkProtocol, getProtocolById } from './BreathworkDatabase';
 import { EmotionRegulationTool, getToolById } from './EmotionRegulationToolkit';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -444,7 +445,7 @@ export class CompetitionMentalPrepEngine {
         event_date: Date,
         completion_status: Record<string, boolean> = {}
     ): CompetitionMentalPlan {
-        const now = new Date();
+        const now = clock.now();
         const daysUntil = Math.floor((event_date.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
         const hoursUntil = Math.floor((event_date.getTime() - now.getTime()) / (1000 * 60 * 60));
         const minutesUntil = Math.floor((event_date.getTime() - now.getTime()) / (1000 * 60));
@@ -557,7 +558,7 @@ export class CompetitionMentalPrepEngine {
         urgency: 'calm' | 'focused' | 'intense';
         phase_name: string;
     } {
-        const now = new Date();
+        const now = clock.now();
         const diff = event_date.getTime() - now.getTime();
 
         const days = Math.floor(diff / (1000 * 60 * 60 * 24));
@@ -16,6 +16,8 @@ import {
     CompromiseOption
 } from "../types";
 import { StatusClassificationEngine } from "../shared/StatusClassificationEngine";
+import { clock } from "../../services/clock";
+import { forState, snapshotProvenance } from "../../services/provenance";
 
 // =====================================================
 // MENTAL EXPERT
@@ -62,7 +64,7 @@ export class MentalExpert implements Expert {
         }
 
         // Opportunities
-        const hour = new Date().getHours();
+        const hour = clock.now().getHours();
         if (hour >= 6 && hour <= 9) {
             opportunities.push("Morning - optimal for intention setting");
         }
@@ -91,7 +93,8 @@ export class MentalExpert implements Expert {
             status: statusResult.status,
             statusResult,
             concerns,
-            opportunities
+            opportunities,
+            provenance: forState(snapshotProvenance(), state)
         };
     }
 
@@ -12,6 +12,7 @@
 
 import { GoalType } from '../../types/goals';
 import { Session, generateFuelWindows, DayFuelProtocol, FuelWindow } from '../nutritionist/SessionFuelProtocolEngine';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -212,11 +213,11 @@ export class MindProtocolEngine {
         if (session.start_time) return new Date(session.start_time);
         if (session.time) {
             const [h, m] = session.time.split(':').map(Number);
-            const d = new Date();
+            const d = clock.now();
             d.setHours(h, m, 0, 0);
             return d;
         }
-        return new Date();
+        return clock.now();
     }
 
     /**
@@ -231,7 +232,7 @@ export class MindProtocolEngine {
     /**
      * Generate day mind protocol
      */
-    generateDayProtocol(sessions: Session[], now: Date = new Date()): DayMindProtocol {
+    generateDayProtocol(sessions: Session[], now: Date = clock.now()): DayMindProtocol {
         const todaysSessions = sessions.filter(s => {
             const d = this.getSessionTime(s);
             return d.toDateString() === now.toDateString();
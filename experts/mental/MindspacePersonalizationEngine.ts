@@ -14,6 +14,7 @@
 import { BreathworkProtocol, getProtocolById, BREATHWORK_PROTOCOLS } from './BreathworkDatabase';
 import { CognitiveTestConfig, COGNITIVE_TESTS } from './CognitiveTestDatabase';
 import { EmotionRegulationTool, EMOTION_REGULATION_TOOLKIT } from './EmotionRegulationToolkit';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -151,14 +152,14 @@ export class MindspacePersonalizationEngine {
             this.profile.total_minutes += usage.duration_minutes;
 
             // Update streak
-            const today = new Date().toDateString();
+            const today = clock.now().toDateString();
             const lastSession = this.profile.protocol_history
                 .filter(p => p.completed)
                 .slice(-2)[0];
 
             if (lastSession) {
                 const lastDate = new Date(lastSession.timestamp).toDateString();
-                const yesterday = new Date(Date.now() - 86400000).toDateString();
+                const yesterday = new Date(clock.nowMs() - 86400000).toDateString();
 
                 if (lastDate === yesterday || lastDate === today) {
                     this.profile.current_streak_days++;
@@ -308,7 +309,7 @@ export class MindspacePersonalizationEngine {
                 .filter(p => p.protocol_id === protocol.id)
                 .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
             if (recentUsage) {
-                const hoursSince = (Date.now() - recentUsage.timestamp.getTime()) / (1000 * 60 * 60);
+                const hoursSince = (clock.nowMs() - recentUsage.timestamp.getTime()) / (1000 * 60 * 60);
                 if (hoursSince < 4) score -= 15;
             }
 
@@ -416,7 +417,7 @@ export class MindspacePersonalizationEngine {
         const recentTests = new Set(
             this.profile.protocol_history
                 .filter(p => p.protocol_type === 'cognitive' &&
-                    Date.now() - p.timestamp.getTime() < 24 * 60 * 60 * 1000)
+                    clock.nowMs() - p.timestamp.getTime() < 24 * 60 * 60 * 1000)
                 .map(p => p.protocol_id)
         );
 
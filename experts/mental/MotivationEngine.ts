@@ -9,6 +9,8 @@
  * - Daily rotation and favorites
  */
 
+import { clock } from '../../services/clock';
+
 // =====================================================
 // TYPES
 // =====================================================
@@ -634,7 +636,7 @@ export class MotivationEngine {
      */
     static isGoalReviewDue(lastReview: Date | null): boolean {
         if (!lastReview) return true;
-        const daysSince = (Date.now() - lastReview.getTime()) / (1000 * 60 * 60 * 24);
+        const daysSince = (clock.nowMs() - lastReview.getTime()) / (1000 * 60 * 60 * 24);
         return daysSince >= 7;
     }
 
@@ -0,0 +1,188 @@
+/**
+ * Cognitive Profile Store
+ * Persistence layer for cognitive test results and the baselines derived from them
+ */
+
+import {
+    COGNITIVE_TESTS,
+    CognitiveTestCategory,
+    CognitiveTestConfig,
+    TestResult,
+    UserCognitiveProfile,
+    calculatePerformanceRating,
+    getAdaptiveDifficulty,
+    getTestById,
+    isLowerBetter
+} from './CognitiveTestDatabase';
+import { TrialSummary } from '../../types/cognitive-battery';
+import { StatisticsEngine } from '../performance/statisticsEngine';
+import { persistence } from '../../services/persistence/repository';
+import { toDateKey } from '../performance/loadHistoryStore';
+import { clock } from '../../services/clock';
+
+const MAX_HISTORY = 500;
+const BASELINE_WINDOW = 5;          // Results averaged into a baseline
+const ADAPTIVE_WINDOW = 5;          // Recent accuracies fed to getAdaptiveDifficulty
+const Z_SCORE_WINDOW = 20;          // Earlier results a z-score is measured against
+const Z_SCORE_MIN_RESULTS = 5;
+
+const RATING_RANK = { poor: 0, average: 1, good: 2, elite: 3 } as const;
+
+const COMPARISON: Record<keyof typeof RATING_RANK, TestResult['comparison_to_baseline']> = {
+    poor: 'below',
+    average: 'at',
+    good: 'above',
+    elite: 'elite'
+};
+
+// Tests that feed the profile's baselines
+const BASELINE_TESTS = {
+    reaction_baseline_ms: 'simple_reaction',
+    memory_span_baseline: 'spatial_span',
+    focus_score_baseline: 'focus_tracking'
+} as const;
+
+const defaultBaseline = (testId: string): number => getTestById(testId)?.baseline_range.average ?? 0;
+
+const defaultProfile = (): UserCognitiveProfile => ({
+    reaction_baseline_ms: defaultBaseline(BASELINE_TESTS.reaction_baseline_ms),
+    memory_span_baseline: defaultBaseline(BASELINE_TESTS.memory_span_baseline),
+    focus_score_baseline: defaultBaseline(BASELINE_TESTS.focus_score_baseline),
+    test_history: [],
+    strengths: [],
+    weaknesses: [],
+    streak_days: 0,
+    total_training_minutes: 0
+});
+
+// Load the profile; timestamps come back as Dates whatever the storage round-trip did
+export const loadCognitiveProfile = (): UserCognitiveProfile => {
+    const stored = persistence.getValue('cognitive_profile');
+    if (!stored) return defaultProfile();
+    return {
+        ...defaultProfile(),
+        ...stored,
+        test_history: (stored.test_history || []).map(r => ({ ...r, timestamp: new Date(r.timestamp) }))
+    };
+};
+
+export const saveCognitiveProfile = (profile: UserCognitiveProfile): void => {
+    persistence.setValue('cognitive_profile', profile);
+};
+
+// Oldest first
+export const getTestHistory = (testId: string, profile: UserCognitiveProfile = loadCognitiveProfile()): TestResult[] =>
+    profile.test_history.filter(r => r.test_id === testId);
+
+export const getPersonalBest = (
+    test: CognitiveTestConfig,
+    profile: UserCognitiveProfile = loadCognitiveProfile()
+): TestResult | undefined => {
+    const lower = isLowerBetter(test);
+    return getTestHistory(test.id, profile).reduce<TestResult | undefined>(
+        (best, r) => !best || (lower ? r.score < best.score : r.score > best.score) ? r : best,
+        undefined
+    );
+};
+
+/**
+ * Level to start a test at: getAdaptiveDifficulty's 1-5 over recent accuracy,
+ * spread across the test's levels and never more than one above the best
+ * level reached so far
+ */
+export const getStartingLevel = (
+    test: CognitiveTestConfig,
+    profile: UserCognitiveProfile = loadCognitiveProfile()
+): number => {
+    if (!test.has_adaptive || test.levels <= 1) return 1;
+    const history = getTestHistory(test.id, profile);
+    const difficulty = getAdaptiveDifficulty(test.id, history.slice(-ADAPTIVE_WINDOW).map(r => r.accuracy));
+    const level = 1 + Math.round((difficulty - 1) / 4 * (test.levels - 1));
+    const reached = Math.max(0, ...history.map(r => r.level_reached ?? 0));
+    return Math.max(1, Math.min(level, reached + 1, test.levels));
+};
+
+// Standard score against earlier results of the same test; positive is better either way round
+const personalZScore = (test: CognitiveTestConfig, score: number, earlier: TestResult[]): number | undefined => {
+    const scores = earlier.slice(-Z_SCORE_WINDOW).map(r => r.score);
+    if (scores.length < Z_SCORE_MIN_RESULTS) return undefined;
+    const mean = StatisticsEngine.calculateMean(scores);
+    const z = StatisticsEngine.getZScore(score, mean, StatisticsEngine.calculateSD(scores, mean));
+    return Math.round((isLowerBetter(test) ? -z : z) * 100) / 100;
+};
+
+// Consecutive days with at least one test, ending today (or yesterday, while today is still open)
+const streakDays = (history: TestResult[]): number => {
+    const days = new Set(history.map(r => toDateKey(r.timestamp)));
+    const cursor = clock.now();
+    if (!days.has(toDateKey(cursor))) cursor.setDate(cursor.getDate() - 1);
+    let streak = 0;
+    while (days.has(toDateKey(cursor))) {
+        streak++;
+        cursor.setDate(cursor.getDate() - 1);
+    }
+    return streak;
+};
+
+// Categories by the mean rating of each test's latest result
+const rankCategories = (history: TestResult[]): Pick<UserCognitiveProfile, 'strengths' | 'weaknesses'> => {
+    const ranks = new Map<CognitiveTestCategory, number[]>();
+    for (const test of COGNITIVE_TESTS) {
+        const latest = history.filter(r => r.test_id === test.id).pop();
+        if (!latest) continue;
+        const rank = RATING_RANK[calculatePerformanceRating(test, latest.score)];
+        ranks.set(test.category, [...(ranks.get(test.category) || []), rank]);
+    }
+    const strengths: CognitiveTestCategory[] = [];
+    const weaknesses: CognitiveTestCategory[] = [];
+    ranks.forEach((values, category) => {
+        const mean = values.reduce((a, b) => a + b, 0) / values.length;
+        if (mean >= RATING_RANK.good) strengths.push(category);
+        else if (mean < RATING_RANK.average) weaknesses.push(category);
+    });
+    return { strengths, weaknesses };
+};
+
+// Record a finished run and refresh the baselines, categories and streak
+export const recordTestResult = (
+    test: CognitiveTestConfig,
+    summary: TrialSummary,
+    score: number
+): { result: TestResult; profile: UserCognitiveProfile } => {
+    const profile = loadCognitiveProfile();
+    const best = getPersonalBest(test, profile);
+    const lower = isLowerBetter(test);
+
+    const result: TestResult = {
+        test_id: test.id,
+        timestamp: clock.now(),
+        score,
+        accuracy: summary.accuracy,
+        reaction_time_ms: summary.median_rt_ms ?? undefined,
+        level_reached: test.has_adaptive ? summary.level_reached : undefined,
+        lapses: summary.lapses,
+        false_starts: summary.anticipations,
+        z_score: personalZScore(test, score, getTestHistory(test.id, profile)),
+        personal_best: !best || (lower ? score < best.score : score > best.score),
+        comparison_to_baseline: COMPARISON[calculatePerformanceRating(test, score)]
+    };
+
+    const history = [...profile.test_history, result].slice(-MAX_HISTORY);
+    const baselines = { ...profile };
+    (Object.keys(BASELINE_TESTS) as (keyof typeof BASELINE_TESTS)[]).forEach(field => {
+        const recent = history.filter(r => r.test_id === BASELINE_TESTS[field]).slice(-BASELINE_WINDOW);
+        if (recent.length > 0) {
+            baselines[field] = Math.round(recent.reduce((a, r) => a + r.score, 0) / recent.length * 10) / 10;
+        }
+    });
+
+    const updated: UserCognitiveProfile = {
+        ...baselines,
+        test_history: history,
+        ...rankCategories(history),
+        streak_days: streakDays(history),
+        total_training_minutes: Math.round((profile.total_training_minutes + summary.duration_ms / 60000) * 10) / 10
+    };
+    saveCognitiveProfile(updated);
+    return { result, profile: updated };
+};
@@ -1,5 +1,6 @@
 
 import { MentalStateVector, Session } from "../../../types";
+import { clock } from "../../../services/clock";
 
 export class ContextAwareGating {
   
@@ -14,7 +15,7 @@ export class ContextAwareGating {
   ): string[] {
     
     let available = ['box_breathing', 'super_ventilation', 'nsdr_lite', 'visualization', 'reaction', 'memory', 'focus'];
-    const now = Date.now();
+    const now = clock.nowMs();
 
     // 1. Pre-Game Gating
     if (context.time_until_event !== undefined) {
@@ -1,6 +1,10 @@
 
 import { MindspaceState, MentalStateVector, JournalAnalysisV2 } from "../../../types";
 import { UserProfile } from "../../../types";
+import { PVTReading } from "../../../types/cognitive-battery";
+import { clock } from "../../../services/clock";
+import { PVTEngine } from "./pvtEngine";
+import { engineRegistry, snapshotCoverage, stateSource } from "../../../services/engineRegistry";
 
 export class MindEngine {
 
@@ -13,12 +17,13 @@ export class MindEngine {
             last_test?: { type: string, score: number, timestamp: number };
             hrv?: number;
             sleep_hours?: number;
+            pvt?: PVTReading;
         },
         baseline: UserProfile['baselines']
     ): MentalStateVector {
 
         const newVector = { ...currentVector };
-        const now = Date.now();
+        const now = clock.nowMs();
 
         // 1. Core Updates
         if (inputs.stress_slider !== undefined) newVector.stress = inputs.stress_slider;
@@ -79,14 +84,19 @@ export class MindEngine {
             newVector.last_test_grade = this.gradeTest(inputs.last_test.score, inputs.last_test.type);
         }
 
-        // 5. Resilience State (Simplified)
+        // 5. Vigilance (PVT) - a reading from an earlier day is cleared
+        const pvt = PVTEngine.todaysReading(inputs.pvt);
+        newVector.pvt_z_score = pvt ? pvt.z_score : null;
+        newVector.pvt_lapses = pvt ? pvt.lapses : null;
+
+        // 6. Resilience State (Simplified)
         // If recovery time from failure is low -> Rising. 
         // We'll update this via Trajectory Engine usually, but here is immediate update:
         if (newVector.mood > 7 && newVector.stress < 4) newVector.resilience_state = "rising";
         else if (newVector.stress > 8) newVector.resilience_state = "declining";
         else newVector.resilience_state = "stable";
 
-        // 6. Meta
+        // 7. Meta
         newVector.state_age_minutes = 0; // Just updated
 
         return newVector;
@@ -114,6 +124,23 @@ export class MindEngine {
         // 4. Cognitive Load Penalty
         if (vector.cognitive_load > 8) score -= 10;
 
+        // 5. Vigilance Penalty (today's PVT)
+        if (vector.pvt_lapses !== undefined && vector.pvt_lapses !== null) {
+            const level = PVTEngine.classify({ z_score: vector.pvt_z_score ?? null, lapses: vector.pvt_lapses });
+            if (level === "severe") score -= 20;
+            else if (level === "impaired") score -= 12;
+            else if (level === "reduced") score -= 5;
+        }
+
         return Math.max(10, Math.min(100, Math.round(score)));
     }
 }
+
+engineRegistry.register({
+    id: 'mind',
+    label: 'Mind Engine',
+    domain: 'mindspace',
+    instance: MindEngine,
+    dataSource: (_, state) => stateSource(state),
+    coverage: () => snapshotCoverage()
+});
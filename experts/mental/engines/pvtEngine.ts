@@ -0,0 +1,55 @@
+
+import { TestResult } from "../CognitiveTestDatabase";
+import { PVTReading, TrialRecord } from "../../../types/cognitive-battery";
+import { clock } from "../../../services/clock";
+import { toDateKey } from "../../performance/loadHistoryStore";
+
+export type VigilanceLevel = "normal" | "reduced" | "impaired" | "severe";
+
+/**
+ * Psychomotor Vigilance Task scoring (Basner & Dinges conventions for the 3-min PVT-B)
+ * and the day's reading that readiness and the red-day check consume.
+ */
+export class PVTEngine {
+
+    static readonly FALSE_START_MS = 100;   // Faster than this is a guess
+    static readonly LAPSE_MS = 500;
+    static readonly TIMEOUT_MS = 10000;     // No response by now ends the trial as a lapse
+
+    // Mean of 1/RT (per second) over valid responses; more sensitive to sleep loss than mean RT
+    public static meanReciprocalRT(records: TrialRecord[]): number {
+        const valid = records.filter(r => !r.anticipation && r.rt_ms !== null && r.rt_ms > 0);
+        if (valid.length === 0) return 0;
+        const mean = valid.reduce((sum, r) => sum + 1000 / (r.rt_ms as number), 0) / valid.length;
+        return Math.round(mean * 100) / 100;
+    }
+
+    public static toReading(result: TestResult): PVTReading {
+        return {
+            date: toDateKey(result.timestamp),
+            taken_at: result.timestamp.getTime(),
+            mean_reciprocal_rt: result.score,
+            median_rt_ms: result.reaction_time_ms ?? null,
+            lapses: result.lapses ?? 0,
+            false_starts: result.false_starts ?? 0,
+            z_score: result.z_score ?? null
+        };
+    }
+
+    // A PVT only speaks for the day it was taken
+    public static todaysReading(reading: PVTReading | undefined): PVTReading | null {
+        return reading && reading.date === clock.today() ? reading : null;
+    }
+
+    /**
+     * Personal z-score first; until there is enough history for one, lapse
+     * counts alone (a rested 3-min PVT-B has 0-2)
+     */
+    public static classify(reading: Pick<PVTReading, "z_score" | "lapses">): VigilanceLevel {
+        const z = reading.z_score;
+        if ((z !== null && z <= -3) || reading.lapses >= 8) return "severe";
+        if ((z !== null && z <= -2) || reading.lapses >= 5) return "impaired";
+        if ((z !== null && z <= -1) || reading.lapses >= 3) return "reduced";
+        return "normal";
+    }
+}
@@ -1,5 +1,6 @@
 
 import { CognitiveTrajectory, UserProfile } from "../../../types";
+import { clock } from "../../../services/clock";
 
 export class CognitiveTrajectoryEngine {
 
@@ -61,7 +62,7 @@ export class CognitiveTrajectoryEngine {
     
     return {
       breakdown_risk: parseFloat(risk.toFixed(2)),
-      breakdown_date_prediction: risk > 0.7 ? new Date(Date.now() + 4 * 86400000).toISOString() : null,
+      breakdown_date_prediction: risk > 0.7 ? new Date(clock.nowMs() + 4 * 86400000).toISOString() : null,
       confidence: 0.6
     };
   }
@@ -11,8 +11,9 @@ export * from "./MindspacePersonalizationEngine";
 export * from "./MotivationEngine";
 export * from "./EmotionRegulationToolkit";
 export * from "./CompetitionMentalPrepEngine";
-export * from "./mindEngine";
+export * from "./engines/mindEngine";
 
 // Data
 export * from "./BreathworkDatabase";
 export * from "./CognitiveTestDatabase";
+export * from "./cognitiveProfileStore";
@@ -26,6 +26,7 @@ import {
 import { GlobalState, UserProfile, Session } from '../../types';
 import { calculateFuelTargets, FuelTargets } from './FuelCalculationEngine';
 import { BodyComposition } from '../../types/body';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // INTERFACES
@@ -177,7 +178,7 @@ export class FuelActionEngine {
 
     constructor(
         private state: GlobalState,
-        private currentTime: Date = new Date()
+        private currentTime: Date = clock.now()
     ) {
         // Filter foods by user's diet and allergies
         const profile = state.user_profile;
@@ -257,7 +258,7 @@ export class FuelActionEngine {
             age: 28,
             gender: 'male',
             data_source: 'manual',
-            last_updated: new Date().toISOString()
+            last_updated: clock.now().toISOString()
         };
 
         return calculateFuelTargets({
@@ -269,7 +270,7 @@ export class FuelActionEngine {
 
     private getCurrentIntake(): { protein: number; carbs: number; fat: number; calories: number } {
         const entries = this.state.fuel?.entries || [];
-        const today = new Date().toDateString();
+        const today = clock.now().toDateString();
 
         const todayEntries = entries.filter((e: any) => {
             const entryDate = new Date(e.logged_at || e.time).toDateString();
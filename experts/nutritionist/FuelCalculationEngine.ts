@@ -11,6 +11,7 @@ import {
     ACTIVITY_MULTIPLIERS
 } from '../../types/body';
 import { PhysicalLoadState } from '../../types';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // BMR CALCULATIONS
@@ -167,7 +168,7 @@ export const calculateFuelTargets = (input: FuelCalculationInput): FuelCalculati
             fat: { min: goalMultipliers.fat.min, max: goalMultipliers.fat.max }
         },
         confidence,
-        last_calculated: new Date().toISOString()
+        last_calculated: clock.now().toISOString()
     };
 };
 
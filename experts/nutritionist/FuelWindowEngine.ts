@@ -22,6 +22,7 @@ import {
     DailyFuelPlan,
     FuelAnalysisOutput
 } from '../../types/fuel';
+import { clock } from '../../services/clock';
 
 // ============================================================================
 // TIME UTILITIES
@@ -39,7 +40,7 @@ const formatTime = (minutes: number): string => {
 };
 
 const getCurrentMinutes = (): number => {
-    const now = new Date();
+    const now = clock.now();
     return now.getHours() * 60 + now.getMinutes();
 };
 
@@ -425,7 +426,7 @@ export class FuelWindowEngine {
         const fatTarget = Math.round((calorieTarget * 0.25) / 9); // 25% from fat
 
         return {
-            date: new Date().toISOString().split('T')[0],
+            date: clock.now().toISOString().split('T')[0],
             training_day: isTrainingDay,
             session_times: this.sessionsToday.map(s => s.time_of_day || '10:00'),
             calorie_target: calorieTarget,
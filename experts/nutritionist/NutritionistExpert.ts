@@ -21,6 +21,8 @@ import {
 import { FuelEngine } from "../../features/fuel/logic/fuelEngine";
 import { FuelWindowEngine } from "./FuelWindowEngine";
 import { StatusClassificationEngine } from "../shared/StatusClassificationEngine";
+import { clock } from "../../services/clock";
+import { forState, snapshotProvenance } from "../../services/provenance";
 // Note: Other imports will be added as we integrate more files
 
 // =====================================================
@@ -57,7 +59,7 @@ export class NutritionistExpert implements Expert {
         }
 
         // Caffeine analysis
-        const hour = new Date().getHours();
+        const hour = clock.now().getHours();
         const caffeine = fuel?.caffeine_mg ?? 0;
         if (hour > 14 && caffeine > 0) {
             concerns.push("Caffeine after 2pm may affect sleep");
@@ -110,7 +112,8 @@ export class NutritionistExpert implements Expert {
             status: statusResult.status,
             statusResult,
             concerns,
-            opportunities
+            opportunities,
+            provenance: forState(snapshotProvenance(), state)
         };
     }
 
@@ -383,7 +386,7 @@ export class NutritionistExpert implements Expert {
     // =====================================================
 
     private timeToDate(hour: number): Date {
-        const now = new Date();
+        const now = clock.now();
         const date = new Date(now);
         date.setHours(Math.floor(hour), (hour % 1) * 60, 0, 0);
         return date;
@@ -414,7 +417,7 @@ export class NutritionistExpert implements Expert {
                 impact: 40,
                 duration_minutes: 1,
                 rationale: 'Baseline maintenance',
-                time_window: { start: new Date(), end: new Date() }
+                time_window: { start: clock.now(), end: clock.now() }
             };
         }
 
@@ -20,6 +20,7 @@ import {
     DietType,
     Allergen
 } from './foodDatabase';
+import { clock } from '../../services/clock';
 
 // Local Session interface - flexible to work with different session formats
 export interface Session {
@@ -286,12 +287,12 @@ export class SessionFuelProtocolEngine {
         if (session.time) {
             // Parse "HH:mm" format - assume today
             const [hours, minutes] = session.time.split(':').map(Number);
-            const date = new Date();
+            const date = clock.now();
             date.setHours(hours, minutes, 0, 0);
             return date;
         }
         // Default to now
-        return new Date();
+        return clock.now();
     }
 
     /**
@@ -335,7 +336,7 @@ export class SessionFuelProtocolEngine {
     /**
      * Generate complete day fuel protocol from all sessions
      */
-    generateDayProtocol(sessions: Session[], now: Date = new Date()): DayFuelProtocol {
+    generateDayProtocol(sessions: Session[], now: Date = clock.now()): DayFuelProtocol {
         const todaysSessions = sessions.filter(s => {
             const sessionDate = this.getSessionTime(s);
             return sessionDate.toDateString() === now.toDateString();
@@ -374,7 +375,7 @@ export class SessionFuelProtocolEngine {
     /**
      * Get the most urgent fuel action for Command tab
      */
-    getUrgentFuelAction(sessions: Session[], now: Date = new Date()): FuelWindow | null {
+    getUrgentFuelAction(sessions: Session[], now: Date = clock.now()): FuelWindow | null {
         const protocol = this.generateDayProtocol(sessions, now);
 
         // Priority: active critical > active high > upcoming critical
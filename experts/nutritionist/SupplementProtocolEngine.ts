@@ -12,6 +12,7 @@
 
 import { GoalType } from '../../types/goals';
 import { Session } from './SessionFuelProtocolEngine';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -283,7 +284,7 @@ export class SupplementProtocolEngine {
     /**
      * Generate supplement windows for a day
      */
-    generateDayProtocol(sessions: Session[], now: Date = new Date()): DaySupplementProtocol {
+    generateDayProtocol(sessions: Session[], now: Date = clock.now()): DaySupplementProtocol {
         const allWindows: SupplementWindow[] = [];
 
         for (const supplement of this.userSupplements) {
@@ -317,7 +318,7 @@ export class SupplementProtocolEngine {
     /**
      * Get the most urgent supplement action
      */
-    getUrgentSupplementAction(sessions: Session[], now: Date = new Date()): SupplementWindow | null {
+    getUrgentSupplementAction(sessions: Session[], now: Date = clock.now()): SupplementWindow | null {
         const protocol = this.generateDayProtocol(sessions, now);
         return protocol.active_window || protocol.next_window;
     }
@@ -404,11 +405,11 @@ export class SupplementProtocolEngine {
         }
         if (session.time) {
             const [hours, minutes] = session.time.split(':').map(Number);
-            const date = new Date();
+            const date = clock.now();
             date.setHours(hours, minutes, 0, 0);
             return date;
         }
-        return new Date();
+        return clock.now();
     }
 
     private getTimeToday(hour: number, reference: Date): Date {
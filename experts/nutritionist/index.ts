@@ -15,7 +15,7 @@ export { FuelWindowEngine } from "./FuelWindowEngine";
 export { SupplementProtocolEngine } from "./SupplementProtocolEngine";
 export * from "./goalFuelScience";
 export * from "./goalFuelProtocols";
-export { FuelEngine } from "./fuelEngine";
+export { FuelEngine } from "../../features/fuel/logic/fuelEngine";
 
 // Data
 export * from "./foodDatabase";
@@ -24,6 +24,7 @@ import {
     SAFETY_THRESHOLDS,
     TIME_WINDOWS
 } from '../../types/adaptive-intelligence';
+import { DecisionCandidate, DecisionRule, DecisionTrace } from '../../types/decision-audit';
 
 // Import all engines
 import { analyzeHRV } from '../recovery/HRVAnalysisEngine';
@@ -35,6 +36,7 @@ import { analyzeSleep } from '../recovery/SleepArchitectureEngine';
 import { analyzePeriodization } from '../performance/PeriodizationEngine';
 import { discoverPatterns } from './PatternDiscoveryEngine';
 import { evaluateFuelAction } from '../nutritionist/FuelActionEngine';
+import { clock } from '../../services/clock';
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -526,7 +528,7 @@ export class AdaptiveIntelligenceEngine {
         };
 
         // Mock last session (yesterday)
-        this.lastSessionTime = new Date();
+        this.lastSessionTime = clock.now();
         this.lastSessionTime.setDate(this.lastSessionTime.getDate() - 1);
         this.lastSessionTime.setHours(7, 0, 0, 0);
     }
@@ -593,7 +595,7 @@ export class AdaptiveIntelligenceEngine {
     /**
      * Main analysis - generates full adaptive intelligence output
      */
-    analyze(sessions: any[] = [], now: Date = new Date()): AdaptiveIntelligenceOutput {
+    analyze(sessions: any[] = [], now: Date = clock.now()): AdaptiveIntelligenceOutput {
         // Build context
         const ctx: DecisionContext = {
             temporal: buildTemporalContext(now, this.preferences),
@@ -610,14 +612,17 @@ export class AdaptiveIntelligenceEngine {
         const recoveryResult = evaluateRecoveryRules(ctx);
         const fuelResult = evaluateFuelRules(ctx);
 
-        // Collect all actions
-        const allActions: AdaptiveAction[] = [
-            safetyResult.action,
-            circadianResult.action,
-            trainingResult.action,
-            recoveryResult.action,
-            fuelResult.action
-        ].filter((a): a is AdaptiveAction => a !== null);
+        // Collect all actions, remembering which rule group proposed each
+        const proposals: [DecisionRule, AdaptiveAction | null][] = [
+            ['safety', safetyResult.action],
+            ['circadian', circadianResult.action],
+            ['training', trainingResult.action],
+            ['recovery', recoveryResult.action],
+            ['fuel', fuelResult.action]
+        ];
+        const ruleOf = new Map<AdaptiveAction, DecisionRule>();
+        proposals.forEach(([rule, action]) => action && ruleOf.set(action, rule));
+        const allActions: AdaptiveAction[] = [...ruleOf.keys()];
 
         // Collect all alerts
         const alerts: Alert[] = [
@@ -667,7 +672,52 @@ export class AdaptiveIntelligenceEngine {
             alerts,
             timeline,
             patterns_detected: patterns.patterns.slice(0, 3).map(p => p.title),
-            personalization_notes: []
+            personalization_notes: [],
+            decision_trace: this.buildTrace(ctx, readinessScore, allActions.length > 0 ? allActions : [commanderAction], ruleOf)
+        };
+    }
+
+    private buildTrace(
+        ctx: DecisionContext,
+        readiness: number,
+        ranked: AdaptiveAction[],
+        ruleOf: Map<AdaptiveAction, DecisionRule>
+    ): DecisionTrace {
+        const { physiological: state, temporal, session } = ctx;
+
+        const candidates: DecisionCandidate[] = ranked.map((action, i) => ({
+            id: action.id,
+            rule: ruleOf.get(action) ?? 'default',
+            title: action.title,
+            category: action.category,
+            priority: action.priority,
+            time_sensitivity: action.time_sensitivity,
+            source_engine: action.source_engine,
+            confidence: action.confidence,
+            reason: action.rationale.primary_reason,
+            supporting_signals: action.rationale.supporting_signals,
+            rank: i + 1
+        }));
+
+        return {
+            candidates,
+            time_of_day: temporal.time_of_day,
+            hour: temporal.current_time.getHours(),
+            inputs: {
+                readiness,
+                hrv: state.hrv.current,
+                hrv_zone: state.hrv.zone,
+                recovery_score: state.recovery.overall_score,
+                recovery_status: state.recovery.status,
+                sleep_quality: state.sleep.last_night_quality,
+                sleep_debt: state.sleep.debt_hours,
+                acwr: Math.round(state.load.acwr * 100) / 100,
+                load_zone: state.load.zone,
+                circadian_phase: state.circadian.phase,
+                glycogen: state.fuel.glycogen_status,
+                hydration: state.fuel.hydration_status,
+                next_session_hours: session.next_session ? Math.round(session.next_session.hours_until * 10) / 10 : null
+            }
         };
     }
 
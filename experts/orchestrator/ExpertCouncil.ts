@@ -26,6 +26,7 @@ import { longevityExpert } from "../longevity/LongevityExpert";
 import { mentalExpert } from "../mental/MentalExpert";
 import { performanceExpert } from "../performance/PerformanceExpert";
 import { doctorExpert } from "../doctor/DoctorExpert";
+import { clock } from "../../services/clock";
 
 // =====================================================
 // EXPERT COUNCIL
@@ -112,7 +113,7 @@ export class ExpertCouncil {
         const todayFocus = this.determineFocus(analyses, weights);
 
         return {
-            date: new Date(),
+            date: clock.now(),
             user_state: analyses,
             recommendations: allRecommendations,
             today_focus: todayFocus,
@@ -206,7 +207,7 @@ export class ExpertCouncil {
         // Time relevance bonus - if recommendation has a time window and we're in it
         let timeBonus = 0;
         if (rec.time_window) {
-            const now = new Date();
+            const now = clock.now();
             if (now >= rec.time_window.start && now <= rec.time_window.end) {
                 timeBonus = 20;  // +20 if currently in window
             }
@@ -8,6 +8,15 @@
  * - Personalized learning over time
  */
 
+import { clock } from '../../services/clock';
+import { engineRegistry, coverageOfDates } from '../../services/engineRegistry';
+import { assessProvenance } from '../../services/provenance';
+import { DataProvenance } from '../../types/provenance';
+import { HistoricalDataPoint } from '../../services/history/types';
+import { isSnapshot, loadHistory } from '../../services/history/historyStore';
+import { DailyLoad } from '../../types/load-management';
+import { aggregateByDate, inLoadMethod, loadRecordedLoads } from '../performance/loadHistoryStore';
+
 // ============================================================================
 // PATTERN TYPES
 // ============================================================================
@@ -212,6 +221,9 @@ export interface PatternDiscoveryOutput {
         effort_score: number;
         priority: number;
     }[];
+
+    // Synthetic until MIN_RECORDED_DAYS of recorded history exist
+    provenance: DataProvenance;
 }
 
 // ============================================================================
@@ -262,7 +274,7 @@ const generateMockHistoricalData = (days: number): DataPoint[] => {
     const data: DataPoint[] = [];
 
     for (let i = 0; i < days; i++) {
-        const date = new Date();
+        const date = clock.now();
         date.setDate(date.getDate() - i);
         const dateStr = date.toISOString().split('T')[0];
 
@@ -295,6 +307,49 @@ const generateMockHistoricalData = (days: number): DataPoint[] => {
     return data;
 };
 
+// ============================================================================
+// RECORDED DATA
+// ============================================================================
+
+// Days of recorded data needed before the mock series is replaced
+const MIN_RECORDED_DAYS = 14;
+
+/**
+ * Daily series from the shared stores: app snapshots, imported nights and
+ * recorded session loads. Days with several points are averaged.
+ */
+const fromRecordedHistory = (points: HistoricalDataPoint[], loads: DailyLoad[]): DataPoint[] => {
+    const sums = new Map<string, { domain: PatternDomain; metric: string; date: string; total: number; count: number }>();
+    const add = (date: string, domain: PatternDomain, metric: string, value: number | undefined) => {
+        if (value === undefined || !Number.isFinite(value)) return;
+        const key = `${date}|${domain}|${metric}`;
+        const entry = sums.get(key) ?? { domain, metric, date, total: 0, count: 0 };
+        entry.total += value;
+        entry.count++;
+        sums.set(key, entry);
+    };
+
+    for (const dp of points) {
+        if (dp.sleep_night) {
+            add(dp.date, 'sleep', 'quality_score', dp.sleep_night.overall_quality_score);
+            add(dp.date, 'sleep', 'deep_percentage', dp.sleep_night.stages?.deep?.percentage);
+        }
+        add(dp.date, 'hrv', 'rmssd', dp.hrv_rmssd);
+        if (isSnapshot(dp)) {
+            add(dp.date, 'mood', 'mood_score', dp.mood);
+            add(dp.date, 'recovery', 'recovery_score', dp.recovery_score);
+            add(dp.date, 'training', 'acwr', dp.acwr);
+        }
+    }
+    for (const load of aggregateByDate(inLoadMethod(loads))) {
+        add(load.date, 'training', 'load_au', load.load_au);
+    }
+
+    return [...sums.values()].map(({ date, domain, metric, total, count }) => ({
+        date, domain, metric, value: total / count
+    }));
+};
+
 // ============================================================================
 // MAIN ENGINE
 // ============================================================================
@@ -302,11 +357,41 @@ const generateMockHistoricalData = (days: number): DataPoint[] => {
 export class PatternDiscoveryEngine {
     private historicalData: DataPoint[] = [];
     private discoveredPatterns: DiscoveredPattern[] = [];
+    private recorded = false;
 
     constructor() {
         this.historicalData = generateMockHistoricalData(60);
     }
 
+    /**
+     * Replace the series with recorded history. Until there are
+     * MIN_RECORDED_DAYS days of it the mock series stays in place.
+     * Returns whether recorded data is in use.
+     */
+    loadRecordedHistory(points: HistoricalDataPoint[], loads: DailyLoad[]): boolean {
+        const data = fromRecordedHistory(points, loads);
+        if (new Set(data.map(d => d.date)).size < MIN_RECORDED_DAYS) return this.recorded;
+        this.historicalData = data;
+        this.recorded = true;
+        return true;
+    }
+
+    /**
+     * Whether patterns come from recorded history rather than mock data
+     */
+    hasRecordedData(): boolean {
+        return this.recorded;
+    }
+
+    getProvenance(): DataProvenance {
+        return assessProvenance({
+            real_days: this.recorded ? new Set(this.historicalData.map(d => d.date)).size : 0,
+            expected_days: 60,
+            min_days: MIN_RECORDED_DAYS,
+            synthetic: !this.recorded
+        });
+    }
+
     /**
      * Add new data point
      */
@@ -390,7 +475,7 @@ export class PatternDiscoveryEngine {
                 if (matchesExpected) {
                     const pattern: DiscoveredPattern = {
                         id: `${template.id}_${Date.now()}`,
-                        discovered_date: new Date().toISOString(),
+                        discovered_date: clock.now().toISOString(),
                         title: template.title,
                         description: template.description_template
                             .replace('{direction}', correlation.direction)
@@ -511,29 +596,36 @@ export class PatternDiscoveryEngine {
             new_discoveries: newDiscoveries,
             top_correlations: topCorrelations,
             data_coverage: dataCoverage,
-            ranked_insights: rankedInsights
+            ranked_insights: rankedInsights,
+            provenance: this.getProvenance()
         };
     }
 }
 
-// Singleton
-export const patternDiscoveryEngine = new PatternDiscoveryEngine();
+// Singleton, owned by the engine registry and fed from the history stores
+export const patternDiscoveryEngine = engineRegistry.register({
+    id: 'pattern_discovery',
+    label: 'Pattern Discovery',
+    domain: 'insights',
+    instance: new PatternDiscoveryEngine(),
+    hydrate: engine => { engine.loadRecordedHistory(loadHistory().dataPoints, loadRecordedLoads()); },
+    dataSource: engine => engine.hasRecordedData() ? 'recorded' : 'mock',
+    coverage: () => coverageOfDates([
+        ...loadHistory().dataPoints.map(dp => dp.date),
+        ...loadRecordedLoads().map(l => l.date)
+    ], 60)
+});
+engineRegistry.hydrate('pattern_discovery');
 
 // State-driven analysis function
 import type { GlobalState } from '../../types';
 
 /**
- * Discover patterns from GlobalState
- * Note: Currently uses engine's internal historical data
- * TODO: Populate engine history from actual GlobalState history when available
+ * Discover patterns from recorded history (mock data until there are
+ * enough days). With state, the engine is re-fed first so snapshots saved
+ * since the last call count.
  */
 export function discoverPatterns(state?: GlobalState): PatternDiscoveryOutput {
-    // When state is provided, we could populate the engine with real data
-    // For now, the engine uses its own simulation, but this is the integration point
-    if (state) {
-        // Future: Convert state history to DataPoints and inject
-        // For demo mode, the engine will still show sample correlations
-    }
-
-    return patternDiscoveryEngine.analyze();
+    if (state) engineRegistry.hydrate('pattern_discovery');
+    return engineRegistry.run('pattern_discovery', () => patternDiscoveryEngine.analyze());
 }
@@ -22,6 +22,8 @@ import { Session } from '../../types';
 import { BodyZone, SorenessLevel, Meal } from '../../types';
 import { SentientLocalOrchestrator } from "./sentientLocalOrchestrator";
 import { PerformanceLabsEngine } from "../performance/performanceLabsEngine";
+import { clock } from "../../services/clock";
+import { MINDSPACE_SCORE_FIELDS } from "../mental/CognitiveTestDatabase";
 
 /* ============================================================
    1. EVENT MODEL
@@ -304,9 +306,8 @@ export function processEvent(
 
     case "COGNITIVE_TEST_COMPLETED": {
       const { testId, result } = event.payload;
-      if (testId === 'reaction') state.mindspace.cognitive_scores.reaction_time = result;
-      if (testId === 'focus') state.mindspace.cognitive_scores.focus_density = result;
-      if (testId === 'memory') state.mindspace.cognitive_scores.memory_span = result;
+      const field = MINDSPACE_SCORE_FIELDS[testId as keyof typeof MINDSPACE_SCORE_FIELDS];
+      if (field) state.mindspace.cognitive_scores[field] = result;
       explanations.push(`Cognitive test (${testId}) recorded.`);
       break;
     }
@@ -412,7 +413,7 @@ export function processEvent(
         output.commanderDecision.action,
         ...(output.timeline.adjustments.map(a => typeof a === 'string' ? a : 'Schedule adjusted') || [])
       ].filter(Boolean),
-      last_sync: Date.now(),
+      last_sync: clock.nowMs(),
       is_thinking: false,
     },
     last_sentient_output: output
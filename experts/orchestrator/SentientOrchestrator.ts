@@ -28,13 +28,14 @@ import * as SuggestionEngine from "./suggestionEngine";
 import { SessionAwareScheduler, DEFAULT_PATTERNS } from "../performance/SessionAwareScheduler";
 import { generateUnifiedProtocol, UnifiedAction } from "../longevity/UnifiedTimelineProtocolEngine";
 import { AdaptiveTimelineEngine, ScheduledAction } from "../longevity/AdaptiveTimelineEngine";
+import { clock } from "../../services/clock";
 
 // Mock DEFAULT_USER_GOAL if not found
 const DEFAULT_USER_GOAL = {
     primary: 'longevity',
     secondary: [],
     priority: {},
-    setAt: Date.now()
+    setAt: clock.nowMs()
 } as any;
 
 /**
@@ -177,7 +178,7 @@ export class SentientOrchestrator {
         if (candidates.length === 0) return null;
 
         // Apply time-based urgency modifiers
-        const now = new Date();
+        const now = clock.now();
         const hour = now.getHours();
         const timeContext = this.getTimeContext(hour);
         const userGoal = state.user_profile?.user_goal || DEFAULT_USER_GOAL;
@@ -290,7 +291,7 @@ export class SentientOrchestrator {
     private static gatherCandidates(state: GlobalState, profile: UserProfile): V7Candidate[] {
         let candidates: V7Candidate[] = [];
 
-        const now = new Date();
+        const now = clock.now();
         const hour = now.getHours();
         const timeOfDay = hour < 12 ? 'morning' : hour < 17 ? 'afternoon' : 'evening';
         const sessions = state.timeline?.sessions || [];
@@ -1,418 +1,261 @@
-
-import { GoogleGenAI, Type } from "@google/genai";
-import { Meal, SentientOutput, UserProfile, JournalAnalysisV2, GlobalState } from "../../types";
-import { UserHistory, HistoricalDataPoint, Insight } from "../../services/history/types";
+import { SentientOutput, UserProfile, JournalAnalysisV2, GlobalState } from "../../types";
+import { UserHistory } from "../../services/history/types";
+import { LLMSchema } from "../../types/llm";
+import { generateStructured, testLLMConnection } from "../../services/llm";
+import {
+  CoachAnswer,
+  CoachGuidance,
+  CoachProvider,
+  JournalQuickAnalysis,
+  MealAnalysis,
+  MoodTrajectory,
+  PerformanceTrend,
+  WeeklyInsights
+} from "./types";
+import { localCoach } from "./localCoach";
+import { clock } from "../../services/clock";
 
 // NOTE: This file is now only used for "High-Value" tasks (Image, Journal, Critical State Analysis).
 // The main orchestrator loop runs in `services/sentientLocalOrchestrator.ts`.
+// Requests go to the active LLM provider (`services/llm`); text tasks fall back
+// to the on-device coach (`./localCoach.ts`) when it is unavailable.
 
-const getAI = () => {
-  // 1. Try Local Storage (User's Personal Key) - Highest Priority
-  let localKey = typeof window !== 'undefined' ? localStorage.getItem("SENTIENT_API_KEY") : null;
-
-  // 2. Fallback to Env Var (Shared/Build Key)
-  const envKey = process.env.API_KEY;
+// --- RESPONSE SCHEMAS ---
 
-  let finalKey = localKey || envKey;
-
-  if (!finalKey) {
-    console.warn("SentientAI: No API Key found.");
-    return null;
+const MACROS_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    carbs: { type: 'number' },
+    protein: { type: 'number' },
+    fat: { type: 'number' }
   }
-
-  // SANITIZATION: Remove whitespace which causes 404/400 errors
-  finalKey = finalKey.trim();
-
-  return new GoogleGenAI({ apiKey: finalKey });
 };
 
-// PRIMARY MODEL: Force the working 2.0 Flash Lite Preview
-const FAST_MODEL = "gemini-2.0-flash-lite-preview-02-05";
-
-// --- SYSTEM 2: THE SENIOR COACH ---
-// This is called when the Local Orchestrator flags a complex or critical state.
-export const generateCoachGuidance = async (
-  localOutput: SentientOutput,
-  profile: UserProfile
-) => {
-  const ai = getAI();
-  if (!ai) return null;
-
-  const context = {
-    user: { name: profile.name, sport: profile.sport_type, goals: profile.goals },
-    local_analysis: {
-      readiness: localOutput.readinessScore,
-      risks: localOutput.commanderDecision.risk_signals,
-      mode: localOutput.commanderDecision.mode,
-      constraints: localOutput.injuryRisks,
-      plan: localOutput.timeline.adjustments
-    }
-  };
-
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `
-                You are SentientOS (The Senior Coach).
-                A local algorithm has analyzed the user's biometrics and output the following JSON state.
-                
-                CONTEXT: ${JSON.stringify(context)}
-                
-                YOUR JOB:
-                1. If the user is in a "High Risk" or "Critical" state, explain WHY in human terms.
-                2. Validate or refine the local algorithm's decision.
-                3. Be concise, elite, and supportive. "Ghost Coach" persona.
-                
-                OUTPUT JSON:
-                {
-                    "coach_override": string (A short, punchy directive, or null if local plan is good),
-                    "human_explanation": string (1-2 sentences explaining the 'Why'),
-                    "motivation": string (A subtle psychological nudge)
-                }
-            `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            coach_override: { type: Type.STRING, nullable: true },
-            human_explanation: { type: Type.STRING },
-            motivation: { type: Type.STRING }
-          }
+const MEAL_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          estimated_cal: { type: 'number' },
+          macros: MACROS_SCHEMA
         }
       }
-    });
-    return JSON.parse(response.text);
-  } catch (error) {
-    console.warn("AI Coach synthesis failed", error);
-    return null;
-  }
+    },
+    meal_type: { type: 'string' }
+  },
+  required: ['items']
 };
 
-// --- UTILITIES ---
+const GUIDANCE_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    coach_override: { type: 'string', nullable: true },
+    human_explanation: { type: 'string' },
+    motivation: { type: 'string' }
+  },
+  required: ['human_explanation']
+};
 
-export const testGenAIConnection = async () => {
-  const ai = getAI();
-  if (!ai) return { success: false, message: "No API Key found." };
+const CHAT_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    response: { type: 'string' },
+    suggestions: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['response']
+};
 
-  const modelsToTry = [
-    "gemini-2.0-flash-lite-preview-02-05",
-    "gemini-1.5-flash"
-  ];
+const JOURNAL_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    sentiment: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    advice: { type: 'string' }
+  },
+  required: ['sentiment']
+};
 
-  for (const model of modelsToTry) {
-    try {
-      console.log(`SentientAI: Testing connection with model: ${model}...`);
-      const response = await ai.models.generateContent({
-        model: model,
-        contents: "Ping. Respond with 'Pong' only.",
-      });
-
-      const text = response.text;
-      if (text && text.toLowerCase().includes("pong")) {
-        console.log(`SentientAI: ✅ Success with ${model}`);
-        return { success: true, message: `Connected (${model})` };
+const JOURNAL_V2_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    sentiment: { type: 'string' },
+    psychological_flexibility: {
+      type: 'object',
+      properties: {
+        acceptance_level: { type: 'number' },
+        cognitive_defusion: { type: 'number' },
+        values_alignment: { type: 'number' },
+        present_moment: { type: 'number' },
+        committed_action: { type: 'number' }
       }
-    } catch (error: any) {
-      console.warn(`SentientAI: Failed with ${model}:`, error.message);
-      if (error.status === 429) {
-        return { success: false, message: "Quota Exceeded (429)." };
+    },
+    risk_signals: {
+      type: 'object',
+      properties: {
+        catastrophizing: { type: 'number' },
+        avoidance: { type: 'number' },
+        rumination: { type: 'number' }
       }
     }
-  }
+  },
+  required: ['sentiment']
+};
 
-  return { success: false, message: "Connection Failed." };
+const WEEKLY_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    patterns: { type: 'array', items: { type: 'string' } },
+    recommendations: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['summary']
 };
 
-export const analyzeJournalEntry = async (text: string) => {
-  const ai = getAI();
-  if (!ai) return { sentiment: "Neutral", tags: ["OFFLINE"], advice: "Journal logged. (AI Offline)" };
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `Analyze this user journal entry for nervous system state and psychological friction. Entry: "${text}"`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            sentiment: { type: Type.STRING },
-            tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-            advice: { type: Type.STRING }
-          }
-        }
-      }
-    });
-    return JSON.parse(response.text);
-  } catch (error) {
-    return null;
-  }
+const TREND_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    prediction: { type: 'string' },
+    confidence: { type: 'string' },
+    factors: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['prediction']
 };
 
-export const analyzeJournalEntryV2 = async (text: string): Promise<JournalAnalysisV2 | null> => {
-  const ai = getAI();
-  if (!ai) return null;
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `Analyze this journal entry using ACT (Acceptance and Commitment Therapy) principles.
-      Entry: "${text}"
-      
-      Return a JSON with:
-      1. Sentiment (Positive/Negative/Neutral)
-      2. Psychological Flexibility (0-10 scores for acceptance, defusion, values, present_moment, committed_action)
-      3. Risk Signals count (catastrophizing, avoidance, rumination)
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            sentiment: { type: Type.STRING },
-            psychological_flexibility: {
-              type: Type.OBJECT,
-              properties: {
-                acceptance_level: { type: Type.NUMBER },
-                cognitive_defusion: { type: Type.NUMBER },
-                values_alignment: { type: Type.NUMBER },
-                present_moment: { type: Type.NUMBER },
-                committed_action: { type: Type.NUMBER }
-              }
-            },
-            risk_signals: {
-              type: Type.OBJECT,
-              properties: {
-                catastrophizing: { type: Type.NUMBER },
-                avoidance: { type: Type.NUMBER },
-                rumination: { type: Type.NUMBER }
-              }
-            }
-          }
-        }
-      }
-    });
-    return JSON.parse(response.text);
-  } catch (error) {
-    console.error("AI Journal V2 failed", error);
-    return null;
-  }
+const MOOD_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    trend: { type: 'string' },
+    insight: { type: 'string' },
+    concernLevel: { type: 'number' }
+  },
+  required: ['trend']
 };
 
-export const analyzeFoodImage = async (base64Data: string, mimeType: string) => {
-  const ai = getAI();
-  if (!ai) return null;
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Data } },
-          { text: "Analyze food image. Return JSON with items (name, est_cal, macros), meal_type." }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            items: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  estimated_cal: { type: Type.NUMBER },
-                  macros: {
-                    type: Type.OBJECT,
-                    properties: {
-                      carbs: { type: Type.NUMBER },
-                      protein: { type: Type.NUMBER },
-                      fat: { type: Type.NUMBER }
-                    }
-                  }
-                }
-              }
-            },
-            meal_type: { type: Type.STRING }
-          }
-        }
-      }
-    });
-    return JSON.parse(response.text);
-  } catch (error) {
-    return null;
+const SCHEDULE_GROUPS_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    hasMultipleGroups: { type: 'boolean' },
+    groups: { type: 'array', items: { type: 'string' } }
   }
 };
 
-export const analyzeTextMeal = async (text: string) => {
-  const ai = getAI();
-  if (!ai) return null;
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `Parse this meal description into JSON items/macros: "${text}"`,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            items: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING },
-                  estimated_cal: { type: Type.NUMBER },
-                  macros: {
-                    type: Type.OBJECT,
-                    properties: {
-                      carbs: { type: Type.NUMBER },
-                      protein: { type: Type.NUMBER },
-                      fat: { type: Type.NUMBER }
-                    }
-                  }
-                }
-              }
-            },
-            meal_type: { type: Type.STRING }
-          }
-        }
-      }
-    });
-    return JSON.parse(response.text);
-  } catch (error) {
-    return null;
+const SESSIONS_SCHEMA: LLMSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      type: { type: 'string' },
+      title: { type: 'string' },
+      description: { type: 'string' },
+      time_of_day: { type: 'string' },
+      duration_minutes: { type: 'number' },
+      intensity: { type: 'string' },
+      sequence_block: { type: 'string' },
+      coach_planned: { type: 'boolean' },
+      notes: { type: 'string' }
+    }
   }
 };
 
-export const detectScheduleGroups = async (base64Data: string, mimeType: string) => {
-  const ai = getAI();
-  if (!ai) return { hasMultipleGroups: false, groups: ["Default"] };
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Data } },
-          { text: "Scan schedule. List distinct training groups." }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            hasMultipleGroups: { type: Type.BOOLEAN },
-            groups: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
-        }
-      }
-    });
-    return JSON.parse(response.text);
-  } catch (error) {
-    return { hasMultipleGroups: false, groups: ["Default"] };
+const SCALE_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    weight_kg: { type: 'number', nullable: true },
+    body_fat_percent: { type: 'number', nullable: true },
+    muscle_mass_kg: { type: 'number', nullable: true },
+    bone_mass_kg: { type: 'number', nullable: true },
+    body_water_percent: { type: 'number', nullable: true },
+    visceral_fat_level: { type: 'number', nullable: true },
+    bmr: { type: 'number', nullable: true },
+    metabolic_age: { type: 'number', nullable: true },
+    confidence: { type: 'string' },
+    detected_scale_brand: { type: 'string', nullable: true }
   }
 };
 
-export const extractSessionsForContext = async (base64Data: string, mimeType: string, group: string, day: string) => {
-  const ai = getAI();
-  if (!ai) return [];
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Data } },
-          {
-            text: `You are a training schedule analyzer. Extract all training sessions for group '${group}' on '${day}' from this image/PDF.
-
-For each session, extract:
-- type: "sport" for training, "recovery" for rest/mobility, "fuel" for meals/nutrition
-- title: Short name of the session (e.g. "Morning Strength", "Track Session")
-- description: Brief details of what the session involves
-- time_of_day: In 24h format like "09:00" or "14:30"
-- duration_minutes: Estimated duration in minutes (e.g. 60, 90, 120)
-- intensity: "low", "medium", "high", or "max"
-- sequence_block: "morning", "noon", "afternoon", or "evening"
-- coach_planned: true if this appears to be coach-prescribed
-- notes: Any special instructions or notes
+// --- REMOTE COACH ---
+// Methods return null when no provider is configured and throw on provider
+// or validation errors; the exported functions below turn both into a
+// local answer.
+const remoteCoach: CoachProvider = {
+  id: 'remote',
+
+  // SYSTEM 2: THE SENIOR COACH
+  // Called when the Local Orchestrator flags a complex or critical state.
+  coachGuidance(localOutput: SentientOutput, profile: UserProfile) {
+    const context = {
+      user: { name: profile.name, sport: profile.sport_type, goals: profile.goals },
+      local_analysis: {
+        readiness: localOutput.readinessScore,
+        risks: localOutput.commanderDecision.risk_signals,
+        mode: localOutput.commanderDecision.mode,
+        constraints: localOutput.injuryRisks,
+        plan: localOutput.timeline.adjustments
+      }
+    };
 
-Return an array of session objects. If no sessions found, return empty array [].` }
-        ]
+    return generateStructured<CoachGuidance>({
+      task: 'coach_guidance',
+      schema: GUIDANCE_SCHEMA,
+      prompt: `
+                You are SentientOS (The Senior Coach).
+                A local algorithm has analyzed the user's biometrics and output the following JSON state.
+                
+                CONTEXT: ${JSON.stringify(context)}
+                
+                YOUR JOB:
+                1. If the user is in a "High Risk" or "Critical" state, explain WHY in human terms.
+                2. Validate or refine the local algorithm's decision.
+                3. Be concise, elite, and supportive. "Ghost Coach" persona.
+                
+                OUTPUT JSON:
+                {
+                    "coach_override": string (A short, punchy directive, or null if local plan is good),
+                    "human_explanation": string (1-2 sentences explaining the 'Why'),
+                    "motivation": string (A subtle psychological nudge)
+                }
+            `
+    });
+  },
+
+  // Conversational Q&A with full context awareness
+  async askCoach(question: string, state: GlobalState, history?: UserHistory) {
+    // Build context summary
+    const recentData = history?.dataPoints.slice(-7) || [];
+    const avgReadiness = recentData.length > 0
+      ? Math.round(recentData.reduce((s, d) => s + d.readiness, 0) / recentData.length)
+      : state.mindspace.readiness_score;
+
+    const context = {
+      current_state: {
+        readiness: state.mindspace.readiness_score,
+        stress: state.mindspace.stress,
+        mood: state.mindspace.mood,
+        fuel_score: state.fuel.fuel_score,
+        hrv: state.sleep.hrv,
+        sleep_debt: state.sleep.sleep_debt,
+        recovery_score: state.recovery.recovery_score,
+        acwr: state.physical_load.acwr
       },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              type: { type: Type.STRING },
-              title: { type: Type.STRING },
-              description: { type: Type.STRING },
-              time_of_day: { type: Type.STRING },
-              duration_minutes: { type: Type.NUMBER },
-              intensity: { type: Type.STRING },
-              sequence_block: { type: Type.STRING },
-              coach_planned: { type: Type.BOOLEAN },
-              notes: { type: Type.STRING }
-            }
-          }
-        }
+      profile: {
+        sport: state.user_profile.sport_type,
+        goals: state.user_profile.goals,
+        training_level: state.user_profile.training_level
+      },
+      trends: {
+        avg_readiness_7d: avgReadiness,
+        data_points_count: recentData.length
       }
-    });
-    return JSON.parse(response.text);
-  } catch (error) {
-    return [];
-  }
-};
-
-// --- NEW V2 AI FEATURES ---
-
-/**
- * ASK SENTIENT COACH
- * Conversational Q&A with full context awareness
- */
-export const askSentientCoach = async (
-  question: string,
-  state: GlobalState,
-  history?: UserHistory
-): Promise<{ response: string; suggestions: string[] } | null> => {
-  const ai = getAI();
-  if (!ai) return { response: "AI is offline. Please check your API key.", suggestions: [] };
-
-  // Build context summary
-  const recentData = history?.dataPoints.slice(-7) || [];
-  const avgReadiness = recentData.length > 0
-    ? Math.round(recentData.reduce((s, d) => s + d.readiness, 0) / recentData.length)
-    : state.mindspace.readiness_score;
-
-  const context = {
-    current_state: {
-      readiness: state.mindspace.readiness_score,
-      stress: state.mindspace.stress,
-      mood: state.mindspace.mood,
-      fuel_score: state.fuel.fuel_score,
-      hrv: state.sleep.hrv,
-      sleep_debt: state.sleep.sleep_debt,
-      recovery_score: state.recovery.recovery_score,
-      acwr: state.physical_load.acwr
-    },
-    profile: {
-      sport: state.user_profile.sport_type,
-      goals: state.user_profile.goals,
-      training_level: state.user_profile.training_level
-    },
-    trends: {
-      avg_readiness_7d: avgReadiness,
-      data_points_count: recentData.length
-    }
-  };
+    };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `
+    const answer = await generateStructured<CoachAnswer>({
+      task: 'coach_chat',
+      schema: CHAT_SCHEMA,
+      prompt: `
         You are SentientOS, an elite performance coach AI. The user is asking you a question.
         
         USER CONTEXT: ${JSON.stringify(context)}
@@ -428,64 +271,72 @@ export const askSentientCoach = async (
         OUTPUT JSON with:
         - response: Your answer to their question
         - suggestions: Array of 1-2 follow-up questions they might ask
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            response: { type: Type.STRING },
-            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
-        }
-      }
+      `
     });
-    return JSON.parse(response.text);
-  } catch (error) {
-    console.error("AI Coach failed:", error);
-    return { response: "I'm having trouble connecting right now. Try again in a moment.", suggestions: [] };
-  }
-};
+    return answer && { ...answer, suggestions: answer.suggestions ?? [], source: 'remote' };
+  },
+
+  analyzeJournal(text: string) {
+    return generateStructured<JournalQuickAnalysis>({
+      task: 'journal_analysis',
+      schema: JOURNAL_SCHEMA,
+      prompt: `Analyze this user journal entry for nervous system state and psychological friction. Entry: "${text}"`
+    });
+  },
 
-/**
- * GENERATE WEEKLY INSIGHTS
- * AI-powered pattern analysis for weekly summary
- */
-export const generateWeeklyInsights = async (
-  history: UserHistory,
-  profile: UserProfile
-): Promise<{ summary: string; patterns: string[]; recommendations: string[] } | null> => {
-  const ai = getAI();
-  if (!ai) return null;
-
-  const lastWeek = history.dataPoints.filter(
-    dp => dp.timestamp > Date.now() - 7 * 24 * 60 * 60 * 1000
-  );
-
-  if (lastWeek.length < 3) {
-    return {
-      summary: "Not enough data for weekly analysis. Keep logging!",
-      patterns: [],
-      recommendations: ["Log daily for personalized insights"]
-    };
-  }
+  analyzeJournalV2(text: string) {
+    return generateStructured<JournalAnalysisV2>({
+      task: 'journal_analysis_v2',
+      schema: JOURNAL_V2_SCHEMA,
+      prompt: `Analyze this journal entry using ACT (Acceptance and Commitment Therapy) principles.
+      Entry: "${text}"
+      
+      Return a JSON with:
+      1. Sentiment (Positive/Negative/Neutral)
+      2. Psychological Flexibility (0-10 scores for acceptance, defusion, values, present_moment, committed_action)
+      3. Risk Signals count (catastrophizing, avoidance, rumination)
+      `
+    });
+  },
+
+  analyzeTextMeal(text: string) {
+    return generateStructured<MealAnalysis>({
+      task: 'meal_text',
+      schema: MEAL_SCHEMA,
+      prompt: `Parse this meal description into JSON items/macros: "${text}"`
+    });
+  },
+
+  // Pattern analysis for weekly summary
+  async weeklyInsights(history: UserHistory, profile: UserProfile) {
+    const lastWeek = history.dataPoints.filter(
+      dp => dp.timestamp > clock.nowMs() - 7 * 24 * 60 * 60 * 1000
+    );
+
+    if (lastWeek.length < 3) {
+      return {
+        summary: "Not enough data for weekly analysis. Keep logging!",
+        patterns: [],
+        recommendations: ["Log daily for personalized insights"]
+      };
+    }
 
-  // Calculate aggregates
-  const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
-  const stats = {
-    avg_readiness: Math.round(avg(lastWeek.map(d => d.readiness))),
-    avg_fuel: Math.round(avg(lastWeek.map(d => d.fuel_score))),
-    avg_sleep: Math.round(avg(lastWeek.map(d => d.sleep_duration)) * 10) / 10,
-    avg_stress: Math.round(avg(lastWeek.map(d => d.stress)) * 10) / 10,
-    min_readiness: Math.min(...lastWeek.map(d => d.readiness)),
-    max_readiness: Math.max(...lastWeek.map(d => d.readiness)),
-    data_points: lastWeek.length
-  };
+    // Calculate aggregates
+    const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / arr.length;
+    const stats = {
+      avg_readiness: Math.round(avg(lastWeek.map(d => d.readiness))),
+      avg_fuel: Math.round(avg(lastWeek.map(d => d.fuel_score))),
+      avg_sleep: Math.round(avg(lastWeek.map(d => d.sleep_duration)) * 10) / 10,
+      avg_stress: Math.round(avg(lastWeek.map(d => d.stress)) * 10) / 10,
+      min_readiness: Math.min(...lastWeek.map(d => d.readiness)),
+      max_readiness: Math.max(...lastWeek.map(d => d.readiness)),
+      data_points: lastWeek.length
+    };
 
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `
+    return generateStructured<WeeklyInsights>({
+      task: 'weekly_insights',
+      schema: WEEKLY_SCHEMA,
+      prompt: `
         Analyze this athlete's weekly performance data.
         
         PROFILE: ${profile.sport_type}, ${profile.training_level}, Goals: ${profile.goals.join(', ')}
@@ -498,51 +349,26 @@ export const generateWeeklyInsights = async (
         3. 2-3 actionable recommendations for next week
         
         Be specific to their data, not generic. Be encouraging but data-driven.
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            summary: { type: Type.STRING },
-            patterns: { type: Type.ARRAY, items: { type: Type.STRING } },
-            recommendations: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
-        }
-      }
+      `
     });
-    return JSON.parse(response.text);
-  } catch (error) {
-    console.error("Weekly insights failed:", error);
-    return null;
-  }
-};
-
-/**
- * PREDICT PERFORMANCE TREND
- * AI-enhanced trajectory forecasting
- */
-export const predictPerformanceTrend = async (
-  history: UserHistory,
-  profile: UserProfile
-): Promise<{ prediction: string; confidence: string; factors: string[] } | null> => {
-  const ai = getAI();
-  if (!ai) return null;
-
-  const last14 = history.dataPoints.slice(-14);
-  if (last14.length < 7) return null;
-
-  const trajectory = last14.map(d => ({
-    date: d.date,
-    readiness: d.readiness,
-    fuel: d.fuel_score,
-    recovery: d.recovery_score
-  }));
-
-  try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `
+  },
+
+  // Trajectory forecasting
+  async predictPerformanceTrend(history: UserHistory, profile: UserProfile) {
+    const last14 = history.dataPoints.slice(-14);
+    if (last14.length < 7) return null;
+
+    const trajectory = last14.map(d => ({
+      date: d.date,
+      readiness: d.readiness,
+      fuel: d.fuel_score,
+      recovery: d.recovery_score
+    }));
+
+    return generateStructured<PerformanceTrend>({
+      task: 'performance_trend',
+      schema: TREND_SCHEMA,
+      prompt: `
         Based on this 2-week trajectory, predict next week's performance trend.
         
         DATA: ${JSON.stringify(trajectory)}
@@ -552,77 +378,164 @@ export const predictPerformanceTrend = async (
         - prediction: One sentence about expected trajectory
         - confidence: "high", "medium", or "low"
         - factors: Key factors influencing prediction (2-3)
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            prediction: { type: Type.STRING },
-            confidence: { type: Type.STRING },
-            factors: { type: Type.ARRAY, items: { type: Type.STRING } }
-          }
-        }
-      }
+      `
+    });
+  },
+
+  // Sentiment analysis over time
+  async analyzeMoodTrajectory(history: UserHistory) {
+    const last14 = history.dataPoints.slice(-14);
+    if (last14.length < 5) return null;
+
+    const moodData = last14.map(d => ({
+      date: d.date,
+      mood: d.mood,
+      stress: d.stress
+    }));
+
+    return generateStructured<MoodTrajectory>({
+      task: 'mood_trajectory',
+      schema: MOOD_SCHEMA,
+      prompt: `
+        Analyze this 2-week mood and stress trajectory.
+        
+        DATA: ${JSON.stringify(moodData)}
+        
+        Provide:
+        - trend: "improving", "declining", or "stable"
+        - insight: One sentence about mental state pattern
+        - concernLevel: 0 (fine) to 10 (concerning)
+      `
     });
-    return JSON.parse(response.text);
-  } catch (error) {
-    console.error("Performance prediction failed:", error);
-    return null;
   }
 };
 
+// --- OFFLINE FALLBACK ---
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+/**
+ * Ask the LLM provider first when online; no provider, a failed call or an
+ * empty answer goes to the local coach instead.
+ */
+const withLocalFallback = async <T>(
+  task: string,
+  ask: (provider: CoachProvider) => Promise<T | null>
+): Promise<T | null> => {
+  if (isOnline()) {
+    try {
+      const result = await ask(remoteCoach);
+      if (result) return result;
+    } catch (error) {
+      console.warn(`SentientAI: ${task} failed, answering locally`, error);
+    }
+  }
+  return ask(localCoach);
+};
+
+export const generateCoachGuidance = (localOutput: SentientOutput, profile: UserProfile) =>
+  withLocalFallback('Coach guidance', p => p.coachGuidance(localOutput, profile));
+
+export const analyzeJournalEntry = (text: string) =>
+  withLocalFallback('Journal analysis', p => p.analyzeJournal(text));
+
+export const analyzeJournalEntryV2 = (text: string): Promise<JournalAnalysisV2 | null> =>
+  withLocalFallback('Journal V2', p => p.analyzeJournalV2(text));
+
+export const analyzeTextMeal = (text: string) =>
+  withLocalFallback('Meal parsing', p => p.analyzeTextMeal(text));
+
+/**
+ * ASK SENTIENT COACH
+ * Conversational Q&A with full context awareness
+ */
+export const askSentientCoach = (
+  question: string,
+  state: GlobalState,
+  history?: UserHistory
+): Promise<CoachAnswer | null> =>
+  withLocalFallback('Coach chat', p => p.askCoach(question, state, history));
+
+/**
+ * GENERATE WEEKLY INSIGHTS
+ * Pattern analysis for weekly summary
+ */
+export const generateWeeklyInsights = (history: UserHistory, profile: UserProfile): Promise<WeeklyInsights | null> =>
+  withLocalFallback('Weekly insights', p => p.weeklyInsights(history, profile));
+
+/**
+ * PREDICT PERFORMANCE TREND
+ * Trajectory forecasting
+ */
+export const predictPerformanceTrend = (history: UserHistory, profile: UserProfile): Promise<PerformanceTrend | null> =>
+  withLocalFallback('Performance prediction', p => p.predictPerformanceTrend(history, profile));
+
 /**
  * ANALYZE MOOD TRAJECTORY
  * Sentiment analysis over time
  */
-export const analyzeMoodTrajectory = async (
-  history: UserHistory
-): Promise<{ trend: string; insight: string; concernLevel: number } | null> => {
-  const ai = getAI();
-  if (!ai) return null;
+export const analyzeMoodTrajectory = (history: UserHistory): Promise<MoodTrajectory | null> =>
+  withLocalFallback('Mood trajectory', p => p.analyzeMoodTrajectory(history));
+
+// --- UTILITIES ---
 
-  const last14 = history.dataPoints.slice(-14);
-  if (last14.length < 5) return null;
+export const testGenAIConnection = () => testLLMConnection();
 
-  const moodData = last14.map(d => ({
-    date: d.date,
-    mood: d.mood,
-    stress: d.stress
-  }));
+// --- IMAGE TASKS (no local fallback) ---
 
+export const analyzeFoodImage = async (base64Data: string, mimeType: string) => {
   try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: `
-        Analyze this 2-week mood and stress trajectory.
-        
-        DATA: ${JSON.stringify(moodData)}
-        
-        Provide:
-        - trend: "improving", "declining", or "stable"
-        - insight: One sentence about mental state pattern
-        - concernLevel: 0 (fine) to 10 (concerning)
-      `,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            trend: { type: Type.STRING },
-            insight: { type: Type.STRING },
-            concernLevel: { type: Type.NUMBER }
-          }
-        }
-      }
+    return await generateStructured<MealAnalysis>({
+      task: 'meal_image',
+      schema: MEAL_SCHEMA,
+      images: [{ mime_type: mimeType, data: base64Data }],
+      prompt: "Analyze food image. Return JSON with items (name, est_cal, macros), meal_type."
     });
-    return JSON.parse(response.text);
   } catch (error) {
-    console.error("Mood trajectory failed:", error);
     return null;
   }
 };
 
+export const detectScheduleGroups = async (base64Data: string, mimeType: string) => {
+  const fallback = { hasMultipleGroups: false, groups: ["Default"] };
+  try {
+    return await generateStructured<{ hasMultipleGroups: boolean; groups: string[] }>({
+      task: 'schedule_groups',
+      schema: SCHEDULE_GROUPS_SCHEMA,
+      images: [{ mime_type: mimeType, data: base64Data }],
+      prompt: "Scan schedule. List distinct training groups."
+    }) ?? fallback;
+  } catch (error) {
+    return fallback;
+  }
+};
+
+export const extractSessionsForContext = async (base64Data: string, mimeType: string, group: string, day: string) => {
+  try {
+    return await generateStructured<any[]>({
+      task: 'schedule_sessions',
+      schema: SESSIONS_SCHEMA,
+      images: [{ mime_type: mimeType, data: base64Data }],
+      prompt: `You are a training schedule analyzer. Extract all training sessions for group '${group}' on '${day}' from this image/PDF.
+
+For each session, extract:
+- type: "sport" for training, "recovery" for rest/mobility, "fuel" for meals/nutrition
+- title: Short name of the session (e.g. "Morning Strength", "Track Session")
+- description: Brief details of what the session involves
+- time_of_day: In 24h format like "09:00" or "14:30"
+- duration_minutes: Estimated duration in minutes (e.g. 60, 90, 120)
+- intensity: "low", "medium", "high", or "max"
+- sequence_block: "morning", "noon", "afternoon", or "evening"
+- coach_planned: true if this appears to be coach-prescribed
+- notes: Any special instructions or notes
+
+Return an array of session objects. If no sessions found, return empty array [].`
+    }) ?? [];
+  } catch (error) {
+    return [];
+  }
+};
+
 // ========================================================================
 // SMART SCALE REPORT ANALYZER
 // Extracts body composition data from smart scale report images/screenshots
@@ -643,17 +556,12 @@ export const analyzeScaleReport = async (
   confidence: 'high' | 'medium' | 'low';
   detected_scale_brand?: string;
 } | null> => {
-  const ai = getAI();
-  if (!ai) return null;
-
   try {
-    const response = await ai.models.generateContent({
-      model: FAST_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Image } },
-          {
-            text: `You are analyzing a smart scale report or body composition analysis screenshot.
+    return await generateStructured({
+      task: 'scale_report',
+      schema: SCALE_SCHEMA,
+      images: [{ mime_type: mimeType, data: base64Image }],
+      prompt: `You are analyzing a smart scale report or body composition analysis screenshot.
 
 Extract ALL available body metrics from this image. Common smart scale brands include:
 Withings, Renpho, Eufy, Xiaomi Mi Scale, Garmin Index, Tanita, Omron, etc.
@@ -676,29 +584,8 @@ OUTPUT JSON with these fields (use null if not found):
 - confidence: "high", "medium", or "low" based on image clarity
 - detected_scale_brand: string or null (if you can identify the app/scale)
 
-Be precise with numbers. If you see "23.5%", return 23.5, not 24.` }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            weight_kg: { type: Type.NUMBER, nullable: true },
-            body_fat_percent: { type: Type.NUMBER, nullable: true },
-            muscle_mass_kg: { type: Type.NUMBER, nullable: true },
-            bone_mass_kg: { type: Type.NUMBER, nullable: true },
-            body_water_percent: { type: Type.NUMBER, nullable: true },
-            visceral_fat_level: { type: Type.NUMBER, nullable: true },
-            bmr: { type: Type.NUMBER, nullable: true },
-            metabolic_age: { type: Type.NUMBER, nullable: true },
-            confidence: { type: Type.STRING },
-            detected_scale_brand: { type: Type.STRING, nullable: true }
-          }
-        }
-      }
+Be precise with numbers. If you see "23.5%", return 23.5, not 24.`
     });
-    return JSON.parse(response.text);
   } catch (error) {
     console.error("Scale report analysis failed:", error);
     return null;
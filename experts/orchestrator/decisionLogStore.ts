@@ -0,0 +1,65 @@
+/**
+ * Decision Log Store
+ * Audit trail of commander decisions: which action each rule group
+ * proposed, how they ranked and what the inputs were
+ */
+
+import { DecisionRecord, DecisionTrace } from '../../types/decision-audit';
+import { persistence } from '../../services/persistence/repository';
+import { clock } from '../../services/clock';
+
+// Roughly a few weeks of normal use
+const MAX_DECISIONS = 500;
+
+// Action ids are regenerated on every analysis, so the winner is identified by rule and title
+const fingerprintOf = (trace: DecisionTrace): string => {
+    const winner = trace.candidates[0];
+    return JSON.stringify([winner?.rule, winner?.title, trace.inputs]);
+};
+
+// Newest first
+export const loadDecisionLog = (): DecisionRecord[] =>
+    persistence.getAll('decision_log').sort((a, b) => b.timestamp - a.timestamp);
+
+/**
+ * Store the trace of the action the commander is showing
+ * (AdaptiveIntelligenceEngine.analyze). Skipped when neither the winning
+ * action nor the inputs changed since the last record, and during replays
+ * (clock pinned).
+ */
+export function recordDecision(trace: DecisionTrace): DecisionRecord | null {
+    if (clock.mode === 'fixed') return null;
+
+    try {
+        const [latest] = loadDecisionLog();
+        if (latest && fingerprintOf(latest) === fingerprintOf(trace)) return null;
+
+        // Timestamp is the key: two runs in the same millisecond must not collide
+        let timestamp = Date.now();
+        while (persistence.get('decision_log', String(timestamp))) timestamp++;
+
+        const record: DecisionRecord = {
+            timestamp,
+            recorded_at: new Date(timestamp).toISOString(),
+            ...trace
+        };
+        persistence.put('decision_log', record);
+
+        const stored = persistence.getAll('decision_log');
+        if (stored.length > MAX_DECISIONS) {
+            stored
+                .sort((a, b) => a.timestamp - b.timestamp)
+                .slice(0, stored.length - MAX_DECISIONS)
+                .forEach(old => persistence.delete('decision_log', String(old.timestamp)));
+        }
+
+        return record;
+    } catch (e) {
+        console.warn('[DecisionLog] Failed to record decision:', e);
+        return null;
+    }
+}
+
+export const clearDecisionLog = (): void => {
+    persistence.clear('decision_log');
+};
@@ -15,6 +15,7 @@ import {
     getPreWorkoutProtocol,
     getPostWorkoutProtocol
 } from '../nutritionist/goalFuelProtocols';
+import { clock } from '../../services/clock';
 
 // --- RECOVERY INTEGRATION ---
 
@@ -299,7 +300,7 @@ export function getGoalAwareActionPriorities(
     // Training-based actions based on goal
     const trainingGuidance = getGoalAwareTrainingGuidance(userGoal);
     if (context.lastWorkout) {
-        const hoursSinceWorkout = (Date.now() - context.lastWorkout.getTime()) / (1000 * 60 * 60);
+        const hoursSinceWorkout = (clock.nowMs() - context.lastWorkout.getTime()) / (1000 * 60 * 60);
         if (hoursSinceWorkout > 48 && goal !== 'longevity') {
             actions.push({
                 action: 'Schedule training session',
@@ -10,6 +10,7 @@
  */
 
 import { HistoricalDataPoint, ActionOutcome, UserHistory, Pattern, Insight } from './history/types';
+import { clock } from '../../services/clock';
 
 // EMA smoothing factor (0.15 = responsive to recent changes)
 const EMA_ALPHA = 0.15;
@@ -252,7 +253,7 @@ export class LearningEngine {
      */
     static generatePersonalInsights(history: UserHistory): Insight[] {
         const insights: Insight[] = [];
-        const now = Date.now();
+        const now = clock.nowMs();
 
         if (history.dataPoints.length < MIN_DATA_POINTS) {
             insights.push({
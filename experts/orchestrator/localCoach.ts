@@ -0,0 +1,402 @@
+/**
+ * LOCAL COACH - Deterministic, on-device CoachProvider
+ *
+ * Answers the text coaching tasks of ai.ts without a network:
+ * - Coach chat and guidance from SentientLocalOrchestrator output
+ * - Journal scoring from the JournalAnalysisEngine lexicons
+ * - Meal parsing against the FOOD_DATABASE
+ * - Weekly, trend and mood summaries from history statistics
+ *
+ * The same inputs always produce the same answer.
+ */
+
+import { GlobalState, JournalAnalysisV2, SentientOutput, UserProfile } from '../../types';
+import { HistoricalDataPoint, UserHistory } from '../../services/history/types';
+import {
+    CoachAnswer,
+    CoachGuidance,
+    CoachProvider,
+    JournalQuickAnalysis,
+    MealAnalysis,
+    MealItemEstimate,
+    MoodTrajectory,
+    PerformanceTrend,
+    WeeklyInsights
+} from './types';
+import { SentientLocalOrchestrator } from './sentientLocalOrchestrator';
+import { JournalAnalysisEngine } from '../mental/engines/journalAnalysisEngine';
+import { FOOD_DATABASE, FoodItem, MealTiming, filterByDiet, getFoodsByTiming } from '../nutritionist/foodDatabase';
+import { clock } from '../../services/clock';
+
+type CoachIntent = 'training' | 'sleep' | 'fuel' | 'recovery' | 'mind' | 'status';
+
+// Keyword stems per intent; ties go to the earlier intent
+const INTENT_KEYWORDS: { intent: CoachIntent; keywords: string[] }[] = [
+    { intent: 'sleep', keywords: ['sleep', 'tired', 'bed', 'nap', 'insomnia', 'fatigue', 'exhausted'] },
+    { intent: 'fuel', keywords: ['eat', 'food', 'meal', 'fuel', 'protein', 'carb', 'snack', 'hungry', 'breakfast', 'lunch', 'dinner', 'hydrat', 'drink'] },
+    { intent: 'recovery', keywords: ['recover', 'sore', 'hrv', 'rest day', 'pain', 'injur', 'ache', 'stiff'] },
+    { intent: 'mind', keywords: ['stress', 'anxious', 'anxiety', 'nervous', 'mood', 'focus', 'motivat', 'overwhelm', 'pressure'] },
+    { intent: 'training', keywords: ['train', 'workout', 'session', 'push', 'hard', 'intensity', 'run', 'lift', 'race', 'compet', 'load', 'today'] }
+];
+
+const FOLLOW_UPS: Record<CoachIntent, string> = {
+    training: 'How hard should I train today?',
+    sleep: 'When should I go to bed tonight?',
+    fuel: 'What should I eat next?',
+    recovery: 'How recovered am I?',
+    mind: 'How do I bring my stress down?',
+    status: 'What is my status today?'
+};
+
+const MEAL_KEYWORDS: { meal: string; keywords: string[] }[] = [
+    { meal: 'breakfast', keywords: ['breakfast', 'morning'] },
+    { meal: 'post_workout', keywords: ['post workout', 'post-workout', 'after training', 'shake'] },
+    { meal: 'pre_workout', keywords: ['pre workout', 'pre-workout', 'before training'] },
+    { meal: 'lunch', keywords: ['lunch'] },
+    { meal: 'dinner', keywords: ['dinner', 'supper'] },
+    { meal: 'snack', keywords: ['snack'] }
+];
+
+// Alternative spellings for FOOD_DATABASE names, by food id
+const FOOD_ALIASES: Record<string, string[]> = {
+    chicken_breast: ['chicken'],
+    egg_whole: ['egg', 'eggs'],
+    egg_whites: ['egg white', 'egg whites'],
+    tuna_canned: ['tuna'],
+    beef_lean: ['beef', 'steak', 'mince'],
+    turkey_breast: ['turkey'],
+    greek_yogurt: ['yogurt', 'yoghurt', 'greek yoghurt'],
+    rice_white: ['rice'],
+    oats: ['oats', 'porridge'],
+    bread_whole: ['bread', 'toast'],
+    sweet_potato: ['sweet potatoes'],
+    berries_mixed: ['berries', 'blueberries', 'strawberries'],
+    whey_protein: ['whey', 'protein shake'],
+    peanut_butter: ['peanut butter', 'pb']
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const avg = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Least-squares slope per data point
+const slope = (values: number[]): number => {
+    const n = values.length;
+    if (n < 2) return 0;
+    const meanX = (n - 1) / 2;
+    const meanY = avg(values);
+    let num = 0;
+    let den = 0;
+    values.forEach((y, x) => {
+        num += (x - meanX) * (y - meanY);
+        den += (x - meanX) ** 2;
+    });
+    return den === 0 ? 0 : num / den;
+};
+
+// App snapshots only: imported points carry no mood, stress or readiness
+const snapshots = (history: UserHistory): HistoricalDataPoint[] =>
+    history.dataPoints.filter(dp => !dp.source || dp.source === 'snapshot');
+
+const detectIntent = (question: string): CoachIntent => {
+    const text = question.toLowerCase();
+    let best: CoachIntent = 'status';
+    let bestHits = 0;
+    INTENT_KEYWORDS.forEach(({ intent, keywords }) => {
+        const hits = keywords.filter(k => text.includes(k)).length;
+        if (hits > bestHits) {
+            best = intent;
+            bestHits = hits;
+        }
+    });
+    return best;
+};
+
+const runLocalAnalysis = (state: GlobalState): SentientOutput | undefined => {
+    try {
+        return new SentientLocalOrchestrator(state).runAll();
+    } catch (e) {
+        console.warn('[LocalCoach] Local orchestrator failed, using last output', e);
+        return state.last_sentient_output;
+    }
+};
+
+const mealTimingFor = (hour: number): MealTiming =>
+    hour < 10 ? 'breakfast' : hour < 14 ? 'lunch' : hour < 17 ? 'snack' : hour < 21 ? 'dinner' : 'evening';
+
+const foodSuggestions = (state: GlobalState, timing: MealTiming): FoodItem[] => {
+    const profile = state.user_profile;
+    const foods = filterByDiet(FOOD_DATABASE, profile.diet_type ?? 'omnivore', profile.allergies ?? []);
+    return getFoodsByTiming(foods, timing)
+        .sort((a, b) => b.protein_g - a.protein_g || a.id.localeCompare(b.id))
+        .slice(0, 3);
+};
+
+// ============================================================================
+// ANSWERS
+// ============================================================================
+
+function answerQuestion(intent: CoachIntent, state: GlobalState, output: SentientOutput | undefined): string {
+    const readiness = output?.readinessScore ?? state.mindspace.readiness_score;
+    const acwr = state.physical_load.acwr;
+    const decision = output?.commanderDecision;
+
+    switch (intent) {
+        case 'training': {
+            const lines = [`Readiness is ${readiness}/100${decision?.mode ? ` (${decision.mode})` : ''}.`];
+            if (acwr > 1.5) lines.push(`Your acute:chronic load ratio is ${round1(acwr)}; above 1.5 injury risk climbs, so keep today moderate and cut volume.`);
+            else if (readiness >= 75) lines.push('You are cleared for quality work. Hit the key session and keep the rest easy.');
+            else if (readiness >= 55) lines.push('Train, but cap intensity at moderate and stop a set short of failure.');
+            else lines.push('Make today a recovery day: mobility, easy aerobic work and an early night.');
+            if (decision?.action) lines.push(`Priority: ${decision.action}.`);
+            return lines.join(' ');
+        }
+        case 'sleep': {
+            const lines = [`Sleep debt is ${round1(state.sleep.sleep_debt)}h and HRV ${state.sleep.hrv}ms.`];
+            if (output?.sleepPlan.recommended_bedtime) lines.push(`Aim to be in bed by ${output.sleepPlan.recommended_bedtime}.`);
+            if (output?.sleepPlan.hygiene_action) lines.push(output.sleepPlan.hygiene_action);
+            else if (state.sleep.sleep_debt > 2) lines.push('Pay the debt back in 30-60 minute chunks with earlier nights rather than one long lie-in.');
+            return lines.join(' ');
+        }
+        case 'fuel': {
+            const foods = foodSuggestions(state, mealTimingFor(clock.now().getHours()));
+            const lines = [`Fuel score is ${state.fuel.fuel_score}/100.`];
+            if (output?.fuelState.action_required) lines.push(output.fuelState.action_required);
+            if (foods.length > 0) lines.push(`Good options now: ${foods.map(f => `${f.name} (${f.serving_size}, ${f.protein_g}g protein)`).join(', ')}.`);
+            return lines.join(' ');
+        }
+        case 'recovery': {
+            const score = output?.recoveryScore ?? state.recovery.recovery_score;
+            const lines = [`Recovery is ${score}/100 with HRV at ${state.sleep.hrv}ms.`];
+            lines.push(score >= 70
+                ? 'You have absorbed recent training; normal loading is fine.'
+                : score >= 50
+                    ? 'Recovery is partial. Favour technique and aerobic work over heavy loading.'
+                    : 'You are under-recovered. Prioritise sleep, protein and low-intensity movement today.');
+            return lines.join(' ');
+        }
+        case 'mind': {
+            const { stress, mood } = state.mindspace;
+            const lines = [`Stress is ${stress}/10 and mood ${mood}/10.`];
+            lines.push(stress >= 6
+                ? 'Take five minutes of physiological sighs (double inhale, long exhale) before your next task, and drop one non-essential commitment today.'
+                : 'You are in a workable range. A short walk or a few minutes of slow breathing keeps it there.');
+            return lines.join(' ');
+        }
+        default: {
+            const lines = [`Readiness is ${readiness}/100.`];
+            if (decision?.summary) lines.push(decision.summary);
+            if (output?.activeCommand) lines.push(`Next: ${output.activeCommand.action.name} - ${output.activeCommand.rationale.reason}`);
+            return lines.join(' ');
+        }
+    }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseMealItems = (text: string): MealItemEstimate[] => {
+    const lower = text.toLowerCase();
+    // Longer names claim their text first ("brown rice" before "rice")
+    const candidates = FOOD_DATABASE
+        .flatMap(food => [food.name.toLowerCase().replace(/\s*\(.*\)$/, ''), ...(FOOD_ALIASES[food.id] ?? [])]
+            .map(name => ({ food, name })))
+        .sort((a, b) => b.name.length - a.name.length);
+
+    const claimed: { start: number; end: number }[] = [];
+    const found: { start: number; item: MealItemEstimate }[] = [];
+    candidates.forEach(({ food, name }) => {
+        if (found.some(f => f.item.name === food.name)) return;
+        const match = new RegExp(`\\b${escapeRegExp(name)}\\b`).exec(lower);
+        if (!match) return;
+        const start = match.index;
+        const end = start + name.length;
+        if (claimed.some(c => start < c.end && end > c.start)) return;
+        claimed.push({ start, end });
+
+        // "200g chicken" scales by weight, "3 eggs" / "2 slices of toast" by servings
+        const before = lower.slice(0, start);
+        const grams = before.match(/(\d+(?:\.\d+)?)\s*g\s*(?:of\s*)?$/);
+        const count = before.match(/(\d+(?:\.\d+)?)\s*(?:x\s*)?(?:[a-z]+\s+)?(?:of\s+)?$/);
+        const servings = grams
+            ? Number(grams[1]) / food.serving_grams
+            : count ? Number(count[1]) : 1;
+
+        found.push({
+            start,
+            item: {
+                name: food.name,
+                estimated_cal: Math.round(food.calories * servings),
+                macros: {
+                    carbs: round1(food.carbs_g * servings),
+                    protein: round1(food.protein_g * servings),
+                    fat: round1(food.fat_g * servings)
+                }
+            }
+        });
+    });
+    return found.sort((a, b) => a.start - b.start).map(f => f.item);
+};
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export class LocalCoachProvider implements CoachProvider {
+    readonly id = 'local' as const;
+
+    async coachGuidance(localOutput: SentientOutput, profile: UserProfile): Promise<CoachGuidance> {
+        const { commanderDecision, readinessScore } = localOutput;
+        const risks = commanderDecision.risk_signals ?? [];
+        const critical = commanderDecision.urgent || readinessScore < 40;
+
+        return {
+            coach_override: critical
+                ? commanderDecision.action ?? 'Pull back today: recovery work only.'
+                : null,
+            human_explanation: risks.length > 0
+                ? `Flagged by the local analysis: ${risks.slice(0, 3).join(', ')}. Readiness is ${readinessScore}/100.`
+                : commanderDecision.reason ?? `Readiness is ${readinessScore}/100 and no risk signals are active.`,
+            motivation: critical
+                ? `Recovery is part of the plan${profile.name ? `, ${profile.name}` : ''}. Bank it today and train harder tomorrow.`
+                : readinessScore >= 75
+                    ? 'The work is done; today is about executing it.'
+                    : 'Consistency beats intensity. Show up and do the session well.'
+        };
+    }
+
+    async askCoach(question: string, state: GlobalState): Promise<CoachAnswer> {
+        const intent = detectIntent(question);
+        const output = runLocalAnalysis(state);
+        return {
+            response: answerQuestion(intent, state, output),
+            suggestions: (Object.keys(FOLLOW_UPS) as CoachIntent[])
+                .filter(i => i !== intent && i !== 'status')
+                .slice(0, 2)
+                .map(i => FOLLOW_UPS[i]),
+            source: 'local'
+        };
+    }
+
+    async analyzeJournal(text: string): Promise<JournalQuickAnalysis> {
+        const analysis = JournalAnalysisEngine.analyze(text);
+        const tags = Object.entries({ ...analysis.risk_signals })
+            .filter(([, count]) => count > 0)
+            .sort((a, b) => b[1] - a[1])
+            .map(([signal]) => signal.toUpperCase());
+        const advice = tags[0] === 'CATASTROPHIZING'
+            ? 'Notice the absolutes ("never", "always"). Write one thing that went to plan today.'
+            : tags[0] === 'AVOIDANCE'
+                ? 'Separate what was outside your control from the one thing you can change next session.'
+                : tags[0] === 'ISOLATION'
+                    ? 'Reach out to one teammate or friend today, even briefly.'
+                    : analysis.sentiment === 'Positive'
+                        ? 'Good entry. Note what made today work so you can repeat it.'
+                        : 'Journal logged. Name one small action for tomorrow.';
+        return { sentiment: analysis.sentiment, tags: tags.length > 0 ? tags : ['BALANCED'], advice };
+    }
+
+    async analyzeJournalV2(text: string): Promise<JournalAnalysisV2> {
+        return JournalAnalysisEngine.analyze(text);
+    }
+
+    async analyzeTextMeal(text: string): Promise<MealAnalysis | null> {
+        const items = parseMealItems(text);
+        if (items.length === 0) return null;
+        const lower = text.toLowerCase();
+        const meal = MEAL_KEYWORDS.find(m => m.keywords.some(k => lower.includes(k)))?.meal
+            ?? mealTimingFor(clock.now().getHours());
+        return { items, meal_type: meal };
+    }
+
+    async weeklyInsights(history: UserHistory): Promise<WeeklyInsights> {
+        const weekAgo = clock.nowMs() - 7 * 24 * 60 * 60 * 1000;
+        const lastWeek = snapshots(history).filter(dp => dp.timestamp > weekAgo);
+        if (lastWeek.length < 3) {
+            return {
+                summary: 'Not enough data for weekly analysis. Keep logging!',
+                patterns: [],
+                recommendations: ['Log daily for personalized insights']
+            };
+        }
+
+        const readiness = Math.round(avg(lastWeek.map(d => d.readiness)));
+        const sleep = round1(avg(lastWeek.map(d => d.sleep_duration)));
+        const stress = round1(avg(lastWeek.map(d => d.stress)));
+        const fuel = Math.round(avg(lastWeek.map(d => d.fuel_score)));
+        const trend = slope(lastWeek.map(d => d.readiness));
+
+        const patterns: string[] = [];
+        const recommendations: string[] = [];
+        patterns.push(trend > 1 ? 'Readiness climbed through the week.' : trend < -1 ? 'Readiness slid through the week.' : 'Readiness held steady.');
+        if (sleep < 7) {
+            patterns.push(`Sleep averaged ${sleep}h, below the 7h floor.`);
+            recommendations.push('Move bedtime 30 minutes earlier on training days.');
+        }
+        if (stress >= 6) {
+            patterns.push(`Stress averaged ${stress}/10.`);
+            recommendations.push('Schedule two 10-minute downregulation blocks on your busiest days.');
+        }
+        if (fuel < 60) {
+            patterns.push(`Fuel score averaged ${fuel}/100.`);
+            recommendations.push('Plan protein at every meal and a carb source before hard sessions.');
+        }
+        if (recommendations.length === 0) recommendations.push('Keep the current routine; it is working.');
+
+        return {
+            summary: `Average readiness was ${readiness}/100 over ${lastWeek.length} check-ins, with ${sleep}h of sleep a night. ${trend < -1 ? 'Protect recovery next week.' : 'Build on it next week.'}`,
+            patterns,
+            recommendations
+        };
+    }
+
+    async predictPerformanceTrend(history: UserHistory): Promise<PerformanceTrend | null> {
+        const last14 = snapshots(history).slice(-14);
+        if (last14.length < 7) return null;
+
+        const readinessSlope = slope(last14.map(d => d.readiness));
+        const recoverySlope = slope(last14.map(d => d.recovery_score));
+        const spread = Math.max(...last14.map(d => d.readiness)) - Math.min(...last14.map(d => d.readiness));
+
+        const factors: string[] = [];
+        if (Math.abs(recoverySlope) > 0.5) factors.push(`Recovery ${recoverySlope > 0 ? 'rising' : 'falling'} ${round1(Math.abs(recoverySlope))} pts/day`);
+        if (avg(last14.map(d => d.sleep_duration)) < 7) factors.push('Sleep below 7h on average');
+        if (last14[last14.length - 1].acwr > 1.3) factors.push(`Load ratio ${round1(last14[last14.length - 1].acwr)}`);
+        if (factors.length === 0) factors.push('Stable recovery and load');
+
+        return {
+            prediction: readinessSlope > 0.5
+                ? 'Readiness is trending up; expect a stronger week if load stays controlled.'
+                : readinessSlope < -0.5
+                    ? 'Readiness is trending down; expect fatigue to build without a lighter day.'
+                    : 'Readiness is flat; expect a similar week.',
+            confidence: last14.length >= 12 && spread < 25 ? 'high' : last14.length >= 10 ? 'medium' : 'low',
+            factors
+        };
+    }
+
+    async analyzeMoodTrajectory(history: UserHistory): Promise<MoodTrajectory | null> {
+        const last14 = snapshots(history).slice(-14);
+        if (last14.length < 5) return null;
+
+        const moodSlope = slope(last14.map(d => d.mood));
+        const stressSlope = slope(last14.map(d => d.stress));
+        const avgStress = avg(last14.map(d => d.stress));
+        const direction = moodSlope - stressSlope;
+
+        const trend = direction > 0.15 ? 'improving' : direction < -0.15 ? 'declining' : 'stable';
+        return {
+            trend,
+            insight: trend === 'declining'
+                ? `Mood is drifting down as stress rises (avg ${round1(avgStress)}/10).`
+                : trend === 'improving'
+                    ? 'Mood is lifting and stress is easing.'
+                    : `Mood is steady with stress around ${round1(avgStress)}/10.`,
+            concernLevel: Math.max(0, Math.min(10, Math.round(avgStress - 3 + (trend === 'declining' ? 2 : 0))))
+        };
+    }
+}
+
+export const localCoach = new LocalCoachProvider();
@@ -1,6 +1,7 @@
 
 import { SentientLocalOrchestrator } from '../performance/slo';
 import { GlobalState } from '../../types';
+import { clock } from '../../services/clock';
 
 // Backward compatibility wrapper if any component still imports runReflexAnalysis directly
 // though we prefer using the new Class.
@@ -14,7 +15,7 @@ export const runReflexAnalysis = (state: GlobalState): Partial<GlobalState> => {
             explanation: sloOutput.commanderDecision.reason || "Analysis complete",
             risk_signals: sloOutput.commanderDecision.risk_signals || [],
             recommended_actions: [sloOutput.commanderDecision.action, ...sloOutput.timeline.adjustments],
-            last_sync: Date.now(),
+            last_sync: clock.nowMs(),
             is_thinking: false,
             active_command: sloOutput.activeCommand || null
         },
@@ -6,6 +6,7 @@ import { RecoveryEngine } from '../recovery/engines/recoveryEngine';
 import { MindEngine } from '../mental/engines/mindEngine';
 import { OrchestratorV7, ActionCandidate } from './orchestratorV7';
 import { evaluateFuelAction, FuelAction } from '../nutritionist/FuelActionEngine';
+import { engineRegistry } from '../../services/engineRegistry';
 
 // Extended ActionCandidate with food suggestions
 interface ExtendedActionCandidate extends ActionCandidate {
@@ -30,20 +31,20 @@ export class SentientLocalOrchestrator {
     this.normalizeTimeline();
 
     // 1. DOMAIN PENALTY EXTRACTION (System 1 Experts)
-    const recoveryRec = RecoveryEngine.evaluate(this.state);
+    const recoveryRec = engineRegistry.run('recovery', () => RecoveryEngine.evaluate(this.state));
 
     // Recovery Penalty Calculation
     const recoveryPenalty = 100 - recoveryRec.recovery_score;
 
     // OLD Fuel Engine (for compatibility)
-    const fuelEval = FuelEngine.evaluate(
+    const fuelEval = engineRegistry.run('fuel', () => FuelEngine.evaluate(
       this.state.fuel,
       this.state.user_profile,
       this.state.medical,
       this.state.timeline.sessions,
       this.state.physical_load.acwr,
       this.state.mindspace
-    );
+    ));
 
     // NEW: FuelActionEngine for specific recommendations
     const fuelAction = evaluateFuelAction(this.state);
@@ -5,19 +5,12 @@
 
 import { GlobalState } from '../../types';
 import { MissionSuggestion, AgentLearningState } from '../../features/performance/types/prTypes';
+import { persistence } from '../../services/persistence/repository';
 
-const STORAGE_KEY = 'sentient_suggestion_learning';
-
-// Load learning state from localStorage
+// Load learning state from the persistence repository
 export const loadLearningState = (): AgentLearningState => {
-    try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-            return JSON.parse(stored);
-        }
-    } catch (e) {
-        console.warn('Failed to load suggestion learning state:', e);
-    }
+    const stored = persistence.getValue('suggestion_learning');
+    if (stored) return stored;
     return {
         suggestionHistory: [],
         preferenceScores: {
@@ -30,13 +23,9 @@ export const loadLearningState = (): AgentLearningState => {
     };
 };
 
-// Save learning state to localStorage
+// Save learning state to the persistence repository
 export const saveLearningState = (state: AgentLearningState): void => {
-    try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-    } catch (e) {
-        console.warn('Failed to save suggestion learning state:', e);
-    }
+    persistence.setValue('suggestion_learning', state);
 };
 
 // Record user's choice and update learning
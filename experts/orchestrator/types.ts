@@ -1,5 +1,6 @@
 
-import { GlobalState, UserProfile } from "../../types";
+import { GlobalState, UserProfile, SentientOutput, JournalAnalysisV2 } from "../../types";
+import type { UserHistory } from "../../services/history/types";
 import { ActionCandidate, ExpertOpinion } from "../types";
 
 export interface OrchestratorState {
@@ -35,3 +36,73 @@ export interface PriorityScore {
     score: number;
     factors: string[];
 }
+
+// =====================================================
+// COACH PROVIDERS (text coaching tasks behind ai.ts)
+// =====================================================
+
+export type CoachSource = 'remote' | 'local';
+
+export interface CoachAnswer {
+    response: string;
+    suggestions: string[];
+    source?: CoachSource;
+}
+
+export interface CoachGuidance {
+    coach_override: string | null;
+    human_explanation: string;
+    motivation: string;
+}
+
+export interface JournalQuickAnalysis {
+    sentiment: string;
+    tags: string[];
+    advice: string;
+}
+
+export interface MealItemEstimate {
+    name: string;
+    estimated_cal: number;
+    macros: { carbs: number; protein: number; fat: number };
+}
+
+export interface MealAnalysis {
+    items: MealItemEstimate[];
+    meal_type: string;
+}
+
+export interface WeeklyInsights {
+    summary: string;
+    patterns: string[];
+    recommendations: string[];
+}
+
+export interface PerformanceTrend {
+    prediction: string;
+    confidence: string;
+    factors: string[];
+}
+
+export interface MoodTrajectory {
+    trend: string;
+    insight: string;
+    concernLevel: number;
+}
+
+/**
+ * Text-only coaching tasks. The remote provider answers when an LLM and a
+ * network are available; the local provider answers from on-device engines
+ * otherwise. A null result means "no answer", and the caller falls back.
+ */
+export interface CoachProvider {
+    id: CoachSource;
+    coachGuidance(localOutput: SentientOutput, profile: UserProfile): Promise<CoachGuidance | null>;
+    askCoach(question: string, state: GlobalState, history?: UserHistory): Promise<CoachAnswer | null>;
+    analyzeJournal(text: string): Promise<JournalQuickAnalysis | null>;
+    analyzeJournalV2(text: string): Promise<JournalAnalysisV2 | null>;
+    analyzeTextMeal(text: string): Promise<MealAnalysis | null>;
+    weeklyInsights(history: UserHistory, profile: UserProfile): Promise<WeeklyInsights | null>;
+    predictPerformanceTrend(history: UserHistory, profile: UserProfile): Promise<PerformanceTrend | null>;
+    analyzeMoodTrajectory(history: UserHistory): Promise<MoodTrajectory | null>;
+}
@@ -9,6 +9,7 @@
  */
 
 import {
+    AthleteLoadMethod,
     DailyLoad,
     WeeklyLoad,
     ACWRMetrics,
@@ -21,6 +22,18 @@ import {
     LoadManagementOutput,
     MonotonyStrain
 } from '../../types/load-management';
+import {
+    loadRecordedLoads,
+    upsertRecordedLoads,
+    aggregateByDate,
+    toContiguousHistory,
+    inLoadMethod,
+    resolveLoadMethod
+} from './loadHistoryStore';
+import { engineRegistry, coverageOfDates } from '../../services/engineRegistry';
+import { assessProvenance, daysSpanned } from '../../services/provenance';
+import { DataProvenance } from '../../types/provenance';
+import { clock } from '../../services/clock';
 
 // ============================================================================
 // MOCK DATA GENERATION
@@ -30,7 +43,7 @@ const generateMockLoadHistory = (days: number): DailyLoad[] => {
     const history: DailyLoad[] = [];
 
     for (let i = days - 1; i >= 0; i--) {
-        const date = new Date();
+        const date = clock.now();
         date.setDate(date.getDate() - i);
 
         // Simulate training pattern: 5 days training, 2 rest
@@ -81,10 +94,63 @@ const standardDeviation = (values: number[]): number => {
 
 export class LoadManagementEngine {
     private history: DailyLoad[] = [];
+    private recorded: DailyLoad[] = [];
 
     constructor() {
-        // Initialize with mock data
-        this.history = generateMockLoadHistory(90);
+        this.reload();
+    }
+
+    /**
+     * Re-read recorded loads from the load history store. Prefers recorded
+     * (imported) loads; falls back to mock data until any exist.
+     */
+    reload(): void {
+        this.recorded = loadRecordedLoads();
+        this.history = this.recorded.length > 0
+            ? this.buildRecordedHistory()
+            : generateMockLoadHistory(90);
+    }
+
+    private buildRecordedHistory(): DailyLoad[] {
+        return toContiguousHistory(aggregateByDate(inLoadMethod(this.recorded))).slice(-90);
+    }
+
+    /**
+     * Method the recorded history is computed with (see resolveLoadMethod)
+     */
+    getLoadMethod(): AthleteLoadMethod {
+        return resolveLoadMethod(this.recorded);
+    }
+
+    /**
+     * Record per-session loads (e.g. from imported activity files).
+     * Entries with a known source_id replace their previous version.
+     * The first recorded load replaces the mock history entirely.
+     */
+    importSessionLoads(loads: DailyLoad[]): void {
+        if (loads.length === 0) return;
+        this.recorded = upsertRecordedLoads(loads, this.recorded);
+        this.history = this.buildRecordedHistory();
+    }
+
+    /**
+     * Whether ACWR is computed from recorded sessions rather than mock data
+     */
+    hasRecordedHistory(): boolean {
+        return this.recorded.length > 0;
+    }
+
+    /**
+     * The 28-day window is real from the first recorded load on; before
+     * any exist the mock history makes it synthetic
+     */
+    getProvenance(): DataProvenance {
+        return assessProvenance({
+            real_days: daysSpanned(this.recorded.map(l => l.date), 28),
+            expected_days: 28,
+            min_days: 7,
+            synthetic: !this.hasRecordedHistory()
+        });
     }
 
     /**
@@ -393,6 +459,7 @@ export class LoadManagementEngine {
         if (monotonyStrain.strain_status === 'high') contributingFactors.push('Elevated training strain');
 
         return {
+            provenance: this.getProvenance(),
             acwr: {
                 acute_load_7d: acute,
                 chronic_load_28d: chronic,
@@ -431,10 +498,18 @@ export class LoadManagementEngine {
     }
 }
 
-// Singleton instance
-export const loadManagementEngine = new LoadManagementEngine();
+// Singleton instance, owned by the engine registry
+export const loadManagementEngine = engineRegistry.register({
+    id: 'load_management',
+    label: 'Load Management (ACWR)',
+    domain: 'performance',
+    instance: new LoadManagementEngine(),
+    hydrate: engine => engine.reload(),
+    dataSource: engine => engine.hasRecordedHistory() ? 'recorded' : 'mock',
+    coverage: () => coverageOfDates(loadRecordedLoads().map(l => l.date))
+});
 
 // Export convenience function
 export function analyzeLoad(): LoadManagementOutput {
-    return loadManagementEngine.analyze();
+    return engineRegistry.run('load_management', () => loadManagementEngine.analyze());
 }
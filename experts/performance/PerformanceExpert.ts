@@ -16,6 +16,8 @@ import {
     CompromiseOption
 } from "../types";
 import { StatusClassificationEngine } from "../shared/StatusClassificationEngine";
+import { clock } from "../../services/clock";
+import { forState, snapshotProvenance } from "../../services/provenance";
 
 // =====================================================
 // PERFORMANCE EXPERT
@@ -65,7 +67,7 @@ export class PerformanceExpert implements Expert {
         }
 
         // Optimal windows
-        const hour = new Date().getHours();
+        const hour = clock.now().getHours();
         if (hour >= 9 && hour <= 11) {
             opportunities.push("Morning window - good for strength work");
         } else if (hour >= 15 && hour <= 18) {
@@ -90,7 +92,8 @@ export class PerformanceExpert implements Expert {
             status: statusResult.status,
             statusResult,
             concerns,
-            opportunities
+            opportunities,
+            provenance: forState(snapshotProvenance(), state)
         };
     }
 
@@ -315,7 +318,7 @@ export class PerformanceExpert implements Expert {
     }
 
     private timeToDate(hour: number): Date {
-        const now = new Date();
+        const now = clock.now();
         const date = new Date(now);
         date.setHours(Math.floor(hour), (hour % 1) * 60, 0, 0);
         return date;
@@ -30,6 +30,7 @@ import {
     INTENSITY_MODELS,
     ENDURANCE_KEY_WORKOUTS
 } from '../../types/periodization';
+import { clock } from '../../services/clock';
 
 // ============================================================================
 // PERIODIZATION ENGINE
@@ -51,7 +52,7 @@ export class PeriodizationEngine {
         weeksAvailable: number,
         sport: string = 'running'
     ): Macrocycle {
-        const startDate = new Date();
+        const startDate = clock.now();
         const eventDate = new Date(targetEvent.date);
 
         // Calculate phase durations based on available weeks
@@ -358,15 +359,19 @@ export class PeriodizationEngine {
     // --------------------------------------------------------------------------
 
     /**
-     * Calculate fitness-fatigue state using Banister model
+     * Calculate fitness-fatigue state using Banister model.
+     * Time constants default to the population values; pass a personal fit's τ1/τ2 instead.
      */
-    calculateFitnessFatigue(trainingLog: { date: string; load: number }[]): FitnessFatigueState {
-        const { fitness_time_constant, fatigue_time_constant } = FITNESS_FATIGUE_CONSTANTS;
+    calculateFitnessFatigue(
+        trainingLog: { date: string; load: number }[],
+        timeConstants: { fitness_time_constant: number; fatigue_time_constant: number } = FITNESS_FATIGUE_CONSTANTS
+    ): FitnessFatigueState {
+        const { fitness_time_constant, fatigue_time_constant } = timeConstants;
 
         let fitness = 0;
         let fatigue = 0;
 
-        const now = new Date();
+        const now = clock.now();
 
         trainingLog.forEach(entry => {
             const entryDate = new Date(entry.date);
@@ -391,8 +396,8 @@ export class PeriodizationEngine {
             fitness,
             fatigue,
             form,
-            fitness_tau_days: fitness_time_constant,
-            fatigue_tau_days: fatigue_time_constant,
+            fitness_tau_days: Math.round(fitness_time_constant * 10) / 10,
+            fatigue_tau_days: Math.round(fatigue_time_constant * 10) / 10,
             predicted_performance
         };
     }
@@ -446,7 +451,7 @@ export class PeriodizationEngine {
     /**
      * Analyze current periodization state
      */
-    analyze(now: Date = new Date()): PeriodizationAnalysis {
+    analyze(now: Date = clock.now()): PeriodizationAnalysis {
         const macrocycle = this.macrocycle || this.loadSampleMacrocycle();
 
         // Find current mesocycle and microcycle
@@ -733,7 +738,7 @@ export class PeriodizationEngine {
         const targetEvent: TargetEvent = {
             id: 'event_1',
             name: 'City Marathon',
-            date: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(), // 90 days
+            date: new Date(clock.nowMs() + 90 * 24 * 60 * 60 * 1000).toISOString(), // 90 days
             priority: 'A',
             event_type: 'race',
             performance_goal: {
@@ -745,7 +750,7 @@ export class PeriodizationEngine {
         // Generate sample training log
         this.trainingLog = [];
         for (let i = 60; i >= 0; i--) {
-            const date = new Date();
+            const date = clock.now();
             date.setDate(date.getDate() - i);
             // Vary load: base 50-80 with some rest days
             const isRest = date.getDay() === 0; // Sunday rest
@@ -0,0 +1,278 @@
+/**
+ * Banister Fitter
+ * Personal fitness-fatigue parameters from the athlete's load history and a
+ * performance proxy.
+ *
+ * For fixed τ1/τ2 the model is linear in p0, k1 and k2, so those come from
+ * least squares; τ1/τ2 are found by a grid search over that fit. Intervals:
+ * t-based for p0/k1/k2 (at the fitted τs), profile likelihood for τ1/τ2.
+ */
+
+import {
+    BanisterFit,
+    FITNESS_FATIGUE_CONSTANTS,
+    FormPrediction,
+    ParameterEstimate,
+    PerformanceObservation,
+    PerformanceProxy
+} from '../../types/periodization';
+import { DailyLoad } from '../../types/load-management';
+import { Session } from '../../types';
+import { PersonalRecord } from '../../features/performance/types/prTypes';
+import { isTimeBasedUnit } from './prStore';
+import { toDateKey } from './loadHistoryStore';
+import { StatisticsEngine } from './statisticsEngine';
+
+const MIN_OBSERVATIONS = 8;
+const MIN_HISTORY_DAYS = 42;
+const MIN_RUN_MINUTES = 20;         // Shorter runs are too noisy for HR-at-pace
+const CHI2_1_95 = 3.841;            // Profile likelihood cut-off for one parameter
+const N_PARAMS = 5;
+
+const range = (from: number, to: number, step: number): number[] =>
+    Array.from({ length: Math.floor((to - from) / step) + 1 }, (_, i) => from + i * step);
+
+const TAU1_GRID = range(10, 70, 1);
+const TAU2_GRID = range(1, 25, 0.5);
+
+const round = (x: number, digits: number): number => Math.round(x * 10 ** digits) / 10 ** digits;
+
+const exact = (value: number): ParameterEstimate => ({ value, low: value, high: value });
+
+interface GridPoint {
+    tau1: number;
+    tau2: number;
+    sse: number;
+    beta: [number, number, number];
+    inverse: number[][];            // (XᵀX)⁻¹
+}
+
+// Inverse of a symmetric 3x3 matrix; null when singular
+const invert3 = (m: number[][]): number[][] | null => {
+    const [[a, b, c], [, d, e], [, , f]] = m;
+    const A = d * f - e * e;
+    const B = c * e - b * f;
+    const C = b * e - c * d;
+    const det = a * A + b * B + c * C;
+    if (Math.abs(det) < 1e-12) return null;
+    const D = a * f - c * c;
+    const E = b * c - a * e;
+    const F = a * d - b * b;
+    return [[A, B, C], [B, D, E], [C, E, F]].map(row => row.map(v => v / det));
+};
+
+/**
+ * Impulse-response of the load series for one time constant: value[t] sums
+ * loads before day t, each decayed by e^(-(t-s)/τ). One slot past the end
+ * is the day after the last load.
+ */
+const decayed = (loads: number[], tau: number): Float64Array => {
+    const out = new Float64Array(loads.length + 1);
+    const decay = Math.exp(-1 / tau);
+    for (let t = 1; t <= loads.length; t++) out[t] = decay * (out[t - 1] + loads[t - 1]);
+    return out;
+};
+
+const median = (xs: number[]): number => {
+    const sorted = [...xs].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export class BanisterFitter {
+
+    /**
+     * HR-at-pace: metres covered per heartbeat on steady runs, as a percent of
+     * the athlete's median. Same pace at a lower heart rate reads higher.
+     */
+    static observationsFromRuns(sessions: Session[]): PerformanceObservation[] {
+        const byDate = new Map<string, number[]>();
+        for (const s of sessions) {
+            const isRun = s.import_source?.sport === 'running';
+            if (!s.completed || !isRun || !s.date || !s.distance_meters || !s.avg_hr) continue;
+            if (s.duration_minutes < MIN_RUN_MINUTES) continue;
+            const efficiency = (s.distance_meters / s.duration_minutes) / s.avg_hr;
+            const date = toDateKey(new Date(s.date));
+            byDate.set(date, [...(byDate.get(date) || []), efficiency]);
+        }
+        const daily = [...byDate.entries()].map(([date, xs]) => ({ date, efficiency: StatisticsEngine.calculateMean(xs) }));
+        if (daily.length === 0) return [];
+        const reference = median(daily.map(d => d.efficiency));
+        return daily
+            .map(d => ({ date: d.date, value: round(100 * d.efficiency / reference, 2), source: 'hr_at_pace' as const }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * PRs as a percent of the best they replaced. The PR store keeps one
+     * record per event, so each contributes a single point.
+     */
+    static observationsFromRecords(records: PersonalRecord[]): PerformanceObservation[] {
+        return records
+            .filter(r => r.previousBest !== undefined && r.previousBest > 0 && r.value > 0)
+            .map(r => ({
+                date: r.date.slice(0, 10),
+                value: round(100 * (isTimeBasedUnit(r.unit) ? r.previousBest! / r.value : r.value / r.previousBest!), 2),
+                source: 'personal_records' as const
+            }))
+            .sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    // Population constants, for when there is not enough data to fit
+    static defaultFit(reason: string, nObservations: number = 0, historyDays: number = 0): BanisterFit {
+        return {
+            source: 'default',
+            proxy: null,
+            p0: exact(100),
+            k1: exact(FITNESS_FATIGUE_CONSTANTS.fitness_weight),
+            k2: exact(FITNESS_FATIGUE_CONSTANTS.fatigue_weight),
+            tau1: exact(FITNESS_FATIGUE_CONSTANTS.fitness_time_constant),
+            tau2: exact(FITNESS_FATIGUE_CONSTANTS.fatigue_time_constant),
+            r_squared: null,
+            adjusted_r_squared: null,
+            rmse: null,
+            n_observations: nObservations,
+            history_days: historyDays,
+            residual_df: 0,
+            residual_variance: null,
+            covariance: null,
+            reason
+        };
+    }
+
+    /**
+     * Fit the model. `loads` is a contiguous day-by-day series (rest days at 0,
+     * see toContiguousHistory); observations outside it are ignored.
+     */
+    static fit(loads: DailyLoad[], observations: PerformanceObservation[], proxy: PerformanceProxy): BanisterFit {
+        const dayIndex = new Map(loads.map((l, i) => [l.date, i]));
+        // An observation needs training before it
+        const obs = observations
+            .map(o => ({ t: dayIndex.get(o.date), y: o.value }))
+            .filter((o): o is { t: number; y: number } => o.t !== undefined && o.t > 0);
+
+        if (loads.length < MIN_HISTORY_DAYS) {
+            return this.defaultFit(`Needs ${MIN_HISTORY_DAYS} days of load history; ${loads.length} recorded.`, obs.length, loads.length);
+        }
+        if (obs.length < MIN_OBSERVATIONS) {
+            return this.defaultFit(`Needs ${MIN_OBSERVATIONS} performance data points inside the load history; ${obs.length} found.`, obs.length, loads.length);
+        }
+
+        const w = loads.map(l => l.load_au);
+        const n = obs.length;
+        const ys = obs.map(o => o.y);
+        const fatigueSeries = new Map(TAU2_GRID.map(tau => [tau, decayed(w, tau)]));
+
+        const plausible: GridPoint[] = [];
+        for (const tau1 of TAU1_GRID) {
+            const g = decayed(w, tau1);
+            for (const tau2 of TAU2_GRID) {
+                if (tau2 >= tau1) break;
+                const h = fatigueSeries.get(tau2)!;
+                const point = this.solve(obs.map(o => [1, g[o.t], -h[o.t]]), ys, tau1, tau2);
+                // Training has to build both fitness and fatigue
+                if (point && point.beta[1] > 0 && point.beta[2] > 0) plausible.push(point);
+            }
+        }
+        if (plausible.length === 0) {
+            return this.defaultFit('No physiologically plausible fit (positive fitness and fatigue gains) for this data.', n, loads.length);
+        }
+
+        const best = plausible.reduce((a, b) => (b.sse < a.sse ? b : a));
+        const df = n - N_PARAMS;
+        const variance = best.sse / Math.max(1, df);
+        const covariance = best.inverse.map(row => row.map(v => v * variance));
+        const t = StatisticsEngine.tCritical95(df);
+        const linear = (i: number, digits: number): ParameterEstimate => {
+            const half = t * Math.sqrt(covariance[i][i]);
+            return { value: round(best.beta[i], digits), low: round(best.beta[i] - half, digits), high: round(best.beta[i] + half, digits) };
+        };
+
+        // τ intervals: every grid point within the likelihood-ratio cut-off of the best
+        const cutoff = best.sse * Math.exp(CHI2_1_95 / n);
+        const inside = plausible.filter(p => p.sse <= cutoff);
+        const profile = (key: 'tau1' | 'tau2'): ParameterEstimate => ({
+            value: best[key],
+            low: Math.min(...inside.map(p => p[key])),
+            high: Math.max(...inside.map(p => p[key]))
+        });
+
+        const mean = StatisticsEngine.calculateMean(ys);
+        const sst = ys.reduce((acc, y) => acc + (y - mean) ** 2, 0);
+        const rSquared = sst > 0 ? 1 - best.sse / sst : 0;
+
+        return {
+            source: 'personal',
+            proxy,
+            p0: linear(0, 1),
+            k1: linear(1, 5),
+            k2: linear(2, 5),
+            tau1: profile('tau1'),
+            tau2: profile('tau2'),
+            r_squared: round(rSquared, 3),
+            adjusted_r_squared: df > 0 ? round(1 - (1 - rSquared) * (n - 1) / df, 3) : null,
+            rmse: round(Math.sqrt(best.sse / n), 2),
+            n_observations: n,
+            history_days: loads.length,
+            residual_df: df,
+            residual_variance: variance,
+            covariance
+        };
+    }
+
+    /**
+     * Performance and form on `date`, carrying the load history forward at
+     * `futureDailyLoad` per day from the day after it ends.
+     */
+    static predict(fit: BanisterFit, loads: DailyLoad[], date: string, futureDailyLoad: number): FormPrediction {
+        const w = loads.map(l => l.load_au);
+        const last = loads.length > 0 ? new Date(`${loads[loads.length - 1].date}T00:00:00`) : new Date(`${date}T00:00:00`);
+        const target = new Date(`${date}T00:00:00`);
+        const daysAhead = Math.round((target.getTime() - last.getTime()) / 86400000);
+        for (let i = 1; i < daysAhead; i++) w.push(futureDailyLoad);
+        // Target inside the history: only loads before it count
+        const end = daysAhead > 0 ? w.length : Math.max(0, loads.length - 1 + daysAhead);
+
+        const g = decayed(w.slice(0, end), fit.tau1.value)[end];
+        const h = decayed(w.slice(0, end), fit.tau2.value)[end];
+        const fitness = fit.k1.value * g;
+        const fatigue = fit.k2.value * h;
+        const performance = fit.p0.value + fitness - fatigue;
+
+        let low: number | null = null;
+        let high: number | null = null;
+        if (fit.covariance && fit.residual_variance !== null) {
+            const x = [1, g, -h];
+            const spread = x.reduce((acc, xi, i) => acc + xi * x.reduce((row, xj, j) => row + fit.covariance![i][j] * xj, 0), 0);
+            const half = StatisticsEngine.tCritical95(fit.residual_df) * Math.sqrt(spread + fit.residual_variance);
+            low = round(performance - half, 1);
+            high = round(performance + half, 1);
+        }
+
+        return {
+            date,
+            fitness: round(fitness, 1),
+            fatigue: round(fatigue, 1),
+            form: round(fitness - fatigue, 1),
+            performance: round(performance, 1),
+            low,
+            high
+        };
+    }
+
+    private static solve(rows: number[][], ys: number[], tau1: number, tau2: number): GridPoint | null {
+        const xtx = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+        const xty = [0, 0, 0];
+        rows.forEach((x, r) => {
+            for (let i = 0; i < 3; i++) {
+                xty[i] += x[i] * ys[r];
+                for (let j = 0; j < 3; j++) xtx[i][j] += x[i] * x[j];
+            }
+        });
+        const inverse = invert3(xtx);
+        if (!inverse) return null;
+        const beta = inverse.map(row => row.reduce((acc, v, j) => acc + v * xty[j], 0)) as [number, number, number];
+        const sse = rows.reduce((acc, x, r) => acc + (ys[r] - (beta[0] * x[0] + beta[1] * x[1] + beta[2] * x[2])) ** 2, 0);
+        return { tau1, tau2, sse, beta, inverse };
+    }
+}
@@ -13,6 +13,8 @@ export * from "./performanceLabsEngine";
 export * from "./redDayEngine";
 export * from "./slo";
 export * from "./statisticsEngine";
+export * from "./banisterFitter";
 
 // Data
 export * from "./prStore";
+export * from "./loadHistoryStore";
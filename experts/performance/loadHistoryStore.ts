@@ -0,0 +1,128 @@
+/**
+ * Load History Store
+ * Persistence layer for recorded per-session loads (imported activities).
+ * Entries are keyed by source_id so re-importing a file replaces its load.
+ */
+
+import { AthleteLoadMethod, DailyLoad } from '../../types/load-management';
+import { persistence } from '../../services/persistence/repository';
+import { clock } from '../../services/clock';
+
+// Load recorded session loads from the persistence repository
+export const loadRecordedLoads = (): DailyLoad[] => {
+    return persistence.getAll('load_history').sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Save recorded session loads to the persistence repository
+export const saveRecordedLoads = (loads: DailyLoad[]): void => {
+    persistence.replaceAll('load_history', loads);
+};
+
+// The athlete's chosen load method (sRPE unless they opt in to TRIMP)
+export const getLoadMethod = (): AthleteLoadMethod => persistence.getValue('load_method') ?? 'session_rpe';
+
+export const setLoadMethod = (method: AthleteLoadMethod): void => {
+    persistence.setValue('load_method', method);
+};
+
+// Entries recorded before TRIMP was kept separately carry it in load_au
+const trimpOf = (load: DailyLoad): number | undefined =>
+    load.trimp ?? (load.load_method === 'trimp' ? load.load_au : undefined);
+
+/**
+ * ACWR over a mix of TRIMP and sRPE days is meaningless, so a series uses
+ * one method: TRIMP when chosen and every entry has heart rate, sRPE otherwise
+ */
+export const resolveLoadMethod = (loads: DailyLoad[], method: AthleteLoadMethod = getLoadMethod()): AthleteLoadMethod =>
+    method === 'trimp' && loads.every(l => trimpOf(l) !== undefined) ? 'trimp' : 'session_rpe';
+
+// Recompute load_au of every entry with one method
+export const inLoadMethod = (loads: DailyLoad[], method: AthleteLoadMethod = resolveLoadMethod(loads)): DailyLoad[] =>
+    loads.map(l => ({
+        ...l,
+        load_au: method === 'trimp' ? Math.round(trimpOf(l)!) : Math.round(l.session_rpe * l.duration_minutes),
+        load_method: method
+    }));
+
+// Add or replace entries by source_id
+export const upsertRecordedLoads = (incoming: DailyLoad[], existing: DailyLoad[]): DailyLoad[] => {
+    const incomingIds = new Set(incoming.map(l => l.source_id).filter(Boolean));
+    const kept = existing.filter(l => !l.source_id || !incomingIds.has(l.source_id));
+    const updated = [...kept, ...incoming].sort((a, b) => a.date.localeCompare(b.date));
+    persistence.putMany('load_history', incoming);
+    return updated;
+};
+
+const INTENSITY_RANK: Record<DailyLoad['intensity_zone'], number> = {
+    low: 0,
+    moderate: 1,
+    high: 2,
+    very_high: 3
+};
+
+/**
+ * Combine two entries for the same date (e.g. a double day).
+ * Loads and durations add up; RPE is the duration-weighted mean.
+ */
+export const combineDailyLoads = (a: DailyLoad, b: DailyLoad): DailyLoad => {
+    const duration = a.duration_minutes + b.duration_minutes;
+    return {
+        date: a.date,
+        session_rpe: duration > 0
+            ? Math.round(((a.session_rpe * a.duration_minutes + b.session_rpe * b.duration_minutes) / duration) * 10) / 10
+            : Math.max(a.session_rpe, b.session_rpe),
+        duration_minutes: duration,
+        load_au: a.load_au + b.load_au,
+        session_type: a.session_type === 'competition' || b.session_type === 'competition' ? 'competition'
+            : a.session_type === 'training' || b.session_type === 'training' ? 'training'
+                : a.session_type === 'recovery' || b.session_type === 'recovery' ? 'recovery' : 'rest',
+        intensity_zone: INTENSITY_RANK[a.intensity_zone] >= INTENSITY_RANK[b.intensity_zone] ? a.intensity_zone : b.intensity_zone,
+        load_method: (a.load_method ?? 'session_rpe') === (b.load_method ?? 'session_rpe')
+            ? (a.load_method ?? 'session_rpe')
+            : 'mixed'
+    };
+};
+
+// Collapse per-session entries into one entry per date
+export const aggregateByDate = (loads: DailyLoad[]): DailyLoad[] => {
+    const byDate = new Map<string, DailyLoad>();
+    for (const load of loads) {
+        const existing = byDate.get(load.date);
+        const { source_id, ...entry } = load;
+        byDate.set(load.date, existing ? combineDailyLoads(existing, entry) : entry);
+    }
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Expand sparse entries into a contiguous day-by-day series ending today,
+ * filling days without a recorded session as rest days.
+ */
+export const toContiguousHistory = (loads: DailyLoad[], endDate: Date = clock.now()): DailyLoad[] => {
+    if (loads.length === 0) return [];
+
+    const byDate = new Map(loads.map(l => [l.date, l]));
+    const sorted = [...byDate.keys()].sort();
+    const start = new Date(`${sorted[0]}T00:00:00`);
+    const end = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+
+    const series: DailyLoad[] = [];
+    for (const d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
+        const key = toDateKey(d);
+        series.push(byDate.get(key) || {
+            date: key,
+            session_rpe: 0,
+            duration_minutes: 0,
+            load_au: 0,
+            session_type: 'rest',
+            intensity_zone: 'low'
+        });
+    }
+    return series;
+};
+
+export const toDateKey = (d: Date): string => {
+    const month = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+    return `${d.getFullYear()}-${month}-${day}`;
+};
@@ -17,6 +17,8 @@ import {
     LabsCommunication,
     MindspaceState
 } from "../../types";
+import { engineRegistry, coverageOfDates, stateSource } from "../../services/engineRegistry";
+import { assessProvenance } from "../../services/provenance";
 
 interface Config {
     min_history_days: number;
@@ -86,6 +88,11 @@ export class PerformanceLabsEngine {
             convergence_patterns: convergence,
             ripple_outputs: ripples,
             communication,
+            provenance: assessProvenance({
+                real_days: coverageOfDates(history.map(e => e.date), this.config.min_history_days).covered,
+                expected_days: this.config.min_history_days,
+                min_days: 14
+            }),
 
             // Legacy Mappings
             state_classification: {
@@ -339,7 +346,7 @@ export class PerformanceLabsEngine {
             });
         }
 
-        return { patterns_detected: patterns, overall_risk_score: 0 };
+        return { patterns_detected: patterns, overall_risk_score: patterns.length * 20 };
     }
 
     private static buildRippleOutputs(
@@ -432,3 +439,13 @@ export class PerformanceLabsEngine {
         return Math.sqrt(avgSquareDiff);
     }
 }
+
+// Reads the longitudinal entries kept on GlobalState.performance
+engineRegistry.register({
+    id: 'performance_labs',
+    label: 'Performance Labs',
+    domain: 'performance',
+    instance: PerformanceLabsEngine,
+    dataSource: (_, state) => (state.performance?.history?.length ?? 0) > 0 ? stateSource(state) : 'none',
+    coverage: (_, state) => coverageOfDates((state.performance?.history ?? []).map(e => e.date), 56)
+});
@@ -4,31 +4,23 @@
  */
 
 import { PersonalRecord, PRCategory } from '../../features/performance/types/prTypes';
+import { Session } from '../../types';
+import { persistence } from '../../services/persistence/repository';
 
-const STORAGE_KEY = 'sentient_personal_records';
-
-// Load PRs from localStorage
+// Load PRs from the persistence repository
 export const loadPersonalRecords = (): PersonalRecord[] => {
-    try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-            return JSON.parse(stored);
-        }
-    } catch (e) {
-        console.warn('Failed to load personal records:', e);
-    }
-    return [];
+    return persistence.getAll('personal_records');
 };
 
-// Save PRs to localStorage
+// Save PRs to the persistence repository
 export const savePersonalRecords = (records: PersonalRecord[]): void => {
-    try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
-    } catch (e) {
-        console.warn('Failed to save personal records:', e);
-    }
+    persistence.replaceAll('personal_records', records);
 };
 
+// Time-based PRs improve downwards
+export const isTimeBasedUnit = (unit: string): boolean =>
+    ['min:sec', 'sec', 'seconds'].includes(unit.toLowerCase());
+
 // Add a new PR (checks if it beats previous best)
 export const addPersonalRecord = (
     newPR: Omit<PersonalRecord, 'id' | 'trend' | 'previousBest'>,
@@ -44,8 +36,7 @@ export const addPersonalRecord = (
         previousBest = existing.value;
         // Determine if this is an improvement
         // For time-based PRs (lower is better), improvement means lower value
-        const isTimeBased = ['min:sec', 'sec', 'seconds'].includes(newPR.unit.toLowerCase());
-        if (isTimeBased) {
+        if (isTimeBasedUnit(newPR.unit)) {
             trend = newPR.value < existing.value ? 'improving' : newPR.value > existing.value ? 'declining' : 'stable';
         } else {
             trend = newPR.value > existing.value ? 'improving' : newPR.value < existing.value ? 'declining' : 'stable';
@@ -86,9 +77,63 @@ export const getRecentPRs = (records: PersonalRecord[], days: number = 30): Pers
     return records.filter(r => new Date(r.date).getTime() > cutoff);
 };
 
-// Mock: Auto-detect PRs from wearable data
-export const detectPRsFromWearables = (): PersonalRecord[] => {
-    // In a real app, this would query connected wearables (Garmin, Strava, Whoop, etc.)
-    // For now, return empty - would be populated by API integrations
-    return [];
+type DetectedPR = Omit<PersonalRecord, 'id' | 'trend' | 'previousBest'>;
+
+// Best mean power over a rolling window of the session's power stream
+const bestRollingPower = (session: Session, windowSeconds: number): number | undefined => {
+    const streams = session.streams;
+    if (!streams?.power_w) return undefined;
+    const size = Math.round(windowSeconds / streams.resolution_s);
+    const power = streams.power_w;
+    if (power.length < size) return undefined;
+
+    let sum = power.slice(0, size).reduce((a, b) => a + b, 0);
+    let best = sum;
+    for (let i = size; i < power.length; i++) {
+        sum += power[i] - power[i - size];
+        best = Math.max(best, sum);
+    }
+    return Math.round(best / size);
+};
+
+// Auto-detect PRs from imported / synced wearable sessions.
+// Returns only candidates that beat the stored best (higher is better).
+export const detectPRsFromWearables = (
+    sessions: Session[],
+    existingRecords: PersonalRecord[] = loadPersonalRecords()
+): DetectedPR[] => {
+    const best = new Map<string, DetectedPR>();
+
+    const consider = (category: PRCategory, name: string, unit: string, value: number | undefined, session: Session) => {
+        if (value === undefined || !(value > 0)) return;
+        const key = `${category}:${name}`;
+        const stored = existingRecords.find(r => r.category === category && r.name === name);
+        const current = best.get(key);
+        if ((stored && stored.value >= value) || (current && current.value >= value)) return;
+        best.set(key, {
+            category,
+            name,
+            value,
+            unit,
+            date: (session.date || new Date().toISOString()).split('T')[0],
+            source: 'wearable',
+            conditions: { fresh: false, notes: session.title }
+        });
+    };
+
+    for (const session of sessions) {
+        const sport = session.import_source?.sport;
+        if (!session.completed || !sport) continue;
+        const km = session.distance_meters ? Math.round(session.distance_meters / 100) / 10 : undefined;
+
+        if (sport === 'running') {
+            consider('running', 'Longest Run', 'km', km, session);
+        } else if (sport === 'cycling') {
+            consider('cycling', 'Longest Ride', 'km', km, session);
+            consider('cycling', 'Most Elevation', 'm', session.elevation_gain_m, session);
+            consider('cycling', 'Best 20-min Power', 'watts', bestRollingPower(session, 20 * 60), session);
+        }
+    }
+
+    return [...best.values()];
 };
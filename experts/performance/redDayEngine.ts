@@ -1,5 +1,6 @@
 
 import { GlobalState, UserProfile } from '../../types';
+import { PVTEngine } from '../mental/engines/pvtEngine';
 
 export interface RedDaySignal {
   id: string;   // e.g. 'HRV_DEPRESSION'
@@ -54,6 +55,10 @@ export class RedDayEngine {
     const envSignal = this.detectEnvironmentalStress(state);
     if (envSignal) signals.push(envSignal);
 
+    // 8. Vigilance Decline (today's PVT: personal z-score, lapses)
+    const pvtSignal = this.detectVigilanceDecline(state);
+    if (pvtSignal) signals.push(pvtSignal);
+
     // DETERMINATION LOGIC
     // Red Day = 3+ Signals OR 1 Critical Signal
     // Elite athletes might tolerate 3 mild signals better, but Critical is always Critical.
@@ -153,6 +158,18 @@ export class RedDayEngine {
     return null;
   }
 
+  private static detectVigilanceDecline(state: GlobalState): RedDaySignal | null {
+    const pvt = PVTEngine.todaysReading(state.mindspace?.pvt);
+    if (!pvt) return null;
+
+    const level = PVTEngine.classify(pvt);
+    const detail = `${pvt.lapses} lapse${pvt.lapses === 1 ? '' : 's'}${pvt.z_score !== null ? `, z ${pvt.z_score.toFixed(1)}` : ''}`;
+    if (level === 'severe') return { id: 'PVT_CRITICAL', label: 'Vigilance Failure', severity: 'critical', rationale: `PVT ${detail}. Sleep-loss level impairment.` };
+    if (level === 'impaired') return { id: 'PVT_DECLINE', label: 'Vigilance Decline', severity: 'high', rationale: `PVT ${detail}. Reaction and decision errors likely.` };
+    if (level === 'reduced') return { id: 'PVT_SLOWING', label: 'Slower Vigilance', severity: 'moderate', rationale: `PVT ${detail}. Mild fatigue.` };
+    return null;
+  }
+
   // --- OUTPUT BUILDERS ---
 
   private static computeLoadMultiplier(signals: RedDaySignal[], isRedDay: boolean): number {
@@ -185,6 +202,7 @@ export class RedDayEngine {
     if (signals.some(s => s.id.includes('PAIN'))) actions.push("Anti-Inflammatory Nutrition Protocol.");
     if (signals.some(s => s.id.includes('TRAVEL'))) actions.push("Hydration + Grounding immediately.");
     if (signals.some(s => s.id.includes('AQI'))) actions.push("Indoor training mandatory (HEPA).");
+    if (signals.some(s => s.id.includes('PVT'))) actions.push("No high-skill or contact work; 20min nap before training.");
 
     return actions;
   }
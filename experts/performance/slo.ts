@@ -1,4 +1,5 @@
 import { GlobalState, SentientOutput, Session, BodyZone } from '../../types';
+import { clock } from '../../services/clock';
 
 /**
  * Sentient Local Orchestrator (SLO) v3.0 - Sovereign Mind
@@ -169,7 +170,7 @@ export class SentientLocalOrchestrator {
             // This would require real timestamps parsing, skipping for deterministic simplicity in this mock
             // Instead check if empty today
         } else {
-            const currentHour = new Date().getHours();
+            const currentHour = clock.now().getHours();
             if (currentHour > 11) { // It's almost noon and no food
                 penalty = Math.max(penalty, 20);
                 action = action || "Catabolic Risk. Intake Fuel.";
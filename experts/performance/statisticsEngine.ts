@@ -29,6 +29,24 @@ export class StatisticsEngine {
         return (current - mean) / sd;
     }
 
+    /**
+     * Two-sided 95% critical value of Student's t for `df` degrees of freedom.
+     */
+    static tCritical95(df: number): number {
+        const TABLE = [12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+            2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+            2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042];
+        // Beyond 30, interpolate in 1/df between these points (1/df → 0 is the normal 1.960)
+        const TAIL: [number, number][] = [[30, 2.042], [40, 2.021], [60, 2.000], [120, 1.980], [Infinity, 1.960]];
+        if (df < 1) return Infinity;
+        if (df <= TABLE.length) return TABLE[Math.floor(df) - 1];
+        const i = TAIL.findIndex(([d]) => df <= d);
+        const [d0, t0] = TAIL[i - 1];
+        const [d1, t1] = TAIL[i];
+        const share = (1 / d0 - 1 / df) / (1 / d0 - 1 / d1);
+        return Math.round((t0 + (t1 - t0) * share) * 1000) / 1000;
+    }
+
     /**
      * Helper to map a Z-Score to a 0-100 health scale.
      * @param zScore 
@@ -22,6 +22,7 @@ import {
     ModalityTier
 } from './RecoveryModalityDatabase';
 import { Session } from '../../types';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -181,7 +182,7 @@ export function getWeeklyUsage(modalityId: string): number {
 }
 
 function getStartOfWeek(): Date {
-    const now = new Date();
+    const now = clock.now();
     const dayOfWeek = now.getDay();
     const diff = now.getDate() - dayOfWeek + (dayOfWeek === 0 ? -6 : 1);
     const monday = new Date(now.setDate(diff));
@@ -256,7 +257,7 @@ function calculateSleepRecommendation(metrics: WearableMetrics): {
     }
 
     // Calculate recommended bedtime (assuming 10 PM default)
-    const defaultBedtime = new Date();
+    const defaultBedtime = clock.now();
     defaultBedtime.setHours(22, 0, 0, 0);
     const recommendedBedtime = new Date(defaultBedtime.getTime() - minutesEarlier * 60000);
 
@@ -336,7 +337,7 @@ function buildRecommendation(
         if (modality.blocked_after.includes(condition.last_training_type)) {
             isBlocked = true;
             blockedReason = getBlockedReason(modality.id, condition.last_training_type) || undefined;
-            const unblockTime = new Date();
+            const unblockTime = clock.now();
             unblockTime.setHours(unblockTime.getHours() + (modality.blocked_hours - condition.hours_since_last_session));
             availableAfter = unblockTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
         }
@@ -375,7 +376,7 @@ export function generateAdaptiveRecoveryProtocol(
     condition: UserCondition = DEFAULT_USER_CONDITION,
     accessContext?: AccessContext
 ): AdaptiveRecoveryProtocol {
-    const now = new Date();
+    const now = clock.now();
     const mode = determineRecoveryMode(metrics);
     const metricsSummary = getMetricsSummary(metrics);
 
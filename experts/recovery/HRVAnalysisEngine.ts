@@ -2,6 +2,9 @@
  * HRV Analysis Engine - State-Driven Heart Rate Variability Analysis
  * 
  * REFACTORED: Now reads from GlobalState instead of internal mock data.
+ * Baselines, CV and trend come from imported nightly RMSSD in the history
+ * store when at least MIN_HISTORY_NIGHTS are available. Spectral values
+ * (LF/HF) are only reported when an RR-interval recording measured them.
  * 
  * Implements:
  * - Personal baseline tracking
@@ -20,6 +23,18 @@ import {
     HRV_ZONE_THRESHOLDS,
     ELITE_REFERENCE_RANGES
 } from '../../types/hrv';
+import { HistoricalDataPoint } from '../../services/history/types';
+import { loadHistory } from '../../services/history/historyStore';
+import { getDailyRRRecording } from '../../services/import/rrIntervalImporter';
+import { clock } from '../../services/clock';
+import { engineRegistry, coverageOfDates, stateSource } from '../../services/engineRegistry';
+import { assessProvenance, forState } from '../../services/provenance';
+import { DataProvenance } from '../../types/provenance';
+
+const MIN_HISTORY_NIGHTS = 3;
+
+// Relative 7-day slope (% of mean per day) that counts as a trend
+const TREND_SLOPE_PERCENT = 1;
 
 // ============================================================================
 // STATISTICAL HELPERS
@@ -73,6 +88,67 @@ const linearRegression = (values: number[]): { slope: number; r2: number } => {
     return { slope, r2: Math.max(0, r2) };
 };
 
+interface NightlyHRV {
+    date: string;
+    timestamp: number;
+    rmssd: number;
+    sdnn?: number;
+    resting_hr?: number;
+}
+
+// One measured RMSSD per date, oldest first
+const nightlySeries = (history: HistoricalDataPoint[]): NightlyHRV[] => {
+    const byDate = new Map<string, NightlyHRV>();
+    for (const dp of history) {
+        if (!dp.hrv_rmssd) continue;
+        byDate.set(dp.date, {
+            date: dp.date,
+            timestamp: dp.timestamp,
+            rmssd: dp.hrv_rmssd,
+            sdnn: dp.hrv_sdnn,
+            resting_hr: dp.resting_hr
+        });
+    }
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)).slice(-90);
+};
+
+const toReading = (night: NightlyHRV): HRVReading => {
+    const recording = getDailyRRRecording(night.date);
+    if (recording) {
+        const m = recording.metrics;
+        return {
+            timestamp: recording.recorded_at,
+            rmssd: night.rmssd,
+            sdnn: night.sdnn ?? m.sdnn,
+            lf: m.lf_power ?? 800,
+            hf: m.hf_power ?? 600,
+            lf_hf_ratio: m.lf_hf_ratio ?? 1.3,
+            hr_mean: m.hr_mean,
+            measurement_duration: Math.round(m.duration_s),
+            measurement_context: recording.context
+        };
+    }
+    return {
+        timestamp: new Date(night.timestamp).toISOString(),
+        rmssd: night.rmssd,
+        sdnn: night.sdnn ?? night.rmssd * 1.2,
+        lf: 800,
+        hf: 600,
+        lf_hf_ratio: 1.3,
+        hr_mean: night.resting_hr || 60,
+        measurement_duration: 300,
+        measurement_context: 'night'
+    };
+};
+
+// LF/HF outside the optimal 1-2 range tips the balance one way
+function classifyBalance(lfHfRatio: number | undefined): HRVAnalysisOutput['autonomic_balance'] {
+    if (lfHfRatio === undefined) return 'balanced';
+    if (lfHfRatio < ELITE_REFERENCE_RANGES.lf_hf_ratio.optimal_low) return 'parasympathetic_dominant';
+    if (lfHfRatio > ELITE_REFERENCE_RANGES.lf_hf_ratio.optimal_high) return 'sympathetic_dominant';
+    return 'balanced';
+}
+
 // ============================================================================
 // ZONE CLASSIFICATION
 // ============================================================================
@@ -111,20 +187,53 @@ export interface HRVAnalysisOutput {
     autonomic_balance: 'parasympathetic_dominant' | 'balanced' | 'sympathetic_dominant';
     history_7d: HRVReading[];
     patterns: HRVPattern[];
+    provenance: DataProvenance;
 }
 
 /**
- * Analyze HRV from GlobalState
+ * Analyze HRV from GlobalState and imported nightly history
  * Returns hasData: false if insufficient data
  */
-export function analyzeHRV(state?: GlobalState): HRVAnalysisOutput {
+export function analyzeHRV(
+    state?: GlobalState,
+    history: HistoricalDataPoint[] = loadHistory().dataPoints
+): HRVAnalysisOutput {
+    return engineRegistry.run('hrv_analysis', () => computeHRV(state, history));
+}
+
+// Measured nights in the 30-night baseline window
+const provenanceOf = (nights: NightlyHRV[], state?: GlobalState): DataProvenance => {
+    const provenance = assessProvenance({
+        real_days: coverageOfDates(nights.map(n => n.date), 30).covered,
+        expected_days: 30,
+        min_days: MIN_HISTORY_NIGHTS
+    });
+    return state ? forState(provenance, state) : provenance;
+};
+
+export const getHRVProvenance = (state?: GlobalState): DataProvenance =>
+    provenanceOf(nightlySeries(loadHistory().dataPoints), state);
+
+// Stateless: reads nightly RMSSD from the history store on every call
+engineRegistry.register({
+    id: 'hrv_analysis',
+    label: 'HRV Analysis',
+    domain: 'recovery',
+    instance: analyzeHRV,
+    dataSource: (_, state) => nightlySeries(loadHistory().dataPoints).length > 0 ? 'recorded' : stateSource(state),
+    coverage: () => coverageOfDates(nightlySeries(loadHistory().dataPoints).map(n => n.date))
+});
+
+function computeHRV(state: GlobalState | undefined, history: HistoricalDataPoint[]): HRVAnalysisOutput {
     // Extract HRV data from state
     const recovery = state?.recovery;
     const sleep = state?.sleep;
     const profile = state?.user_profile;
+    const nights = nightlySeries(history);
+    const latestNight = nights[nights.length - 1];
 
-    // Get current RMSSD from recovery.autonomic
-    const currentRMSSD = recovery?.autonomic?.rmssd || 0;
+    // Get current RMSSD from recovery.autonomic, else the last imported night
+    const currentRMSSD = recovery?.autonomic?.rmssd || latestNight?.rmssd || 0;
     const baselineRMSSD = profile?.baselines?.hrv_baseline || 0;
 
     // Check if we have meaningful data
@@ -146,7 +255,7 @@ export function analyzeHRV(state?: GlobalState): HRVAnalysisOutput {
             hasData: false,
             zone: 'moderate',
             current: {
-                timestamp: new Date().toISOString(),
+                timestamp: clock.now().toISOString(),
                 rmssd: 0,
                 sdnn: 0,
                 lf: 0,
@@ -166,26 +275,36 @@ export function analyzeHRV(state?: GlobalState): HRVAnalysisOutput {
             zone_info: null,
             autonomic_balance: 'balanced',
             history_7d: [],
-            patterns: []
+            patterns: [],
+            provenance: provenanceOf(nights, state)
         };
     }
 
-    // Build current reading from state
+    // Build current reading from state; an RR recording supplies measured values
+    const measured = recovery?.autonomic?.measured_at && recovery.autonomic.rmssd === currentRMSSD
+        ? recovery.autonomic : undefined;
+    const measuredSDNN = measured?.sdnn ??
+        (latestNight && latestNight.rmssd === currentRMSSD ? latestNight.sdnn : undefined);
     const current: HRVReading = {
-        timestamp: new Date().toISOString(),
+        timestamp: measured?.measured_at ?? clock.now().toISOString(),
         rmssd: currentRMSSD,
-        sdnn: currentRMSSD * 1.2, // Estimated
-        lf: 800,
-        hf: 600,
-        lf_hf_ratio: 1.3,
-        hr_mean: sleep?.resting_hr || 60,
+        sdnn: measuredSDNN ?? currentRMSSD * 1.2, // Estimated without a measurement
+        lf: measured?.lf_power ?? 800,
+        hf: measured?.hf_power ?? 600,
+        lf_hf_ratio: measured?.lf_hf_ratio ?? 1.3,
+        hr_mean: measured?.hr_mean || sleep?.resting_hr || 60,
         measurement_duration: 300,
         measurement_context: 'morning'
     };
 
-    // Use baseline from profile or estimate from current
-    const baseline = baselineRMSSD > 0 ? baselineRMSSD : currentRMSSD;
-    const cv = 0.1; // Default coefficient of variation
+    const hasHistory = nights.length >= MIN_HISTORY_NIGHTS;
+    const rmssd = nights.map(n => n.rmssd);
+    const last7 = rmssd.slice(-7);
+    const last30 = rmssd.slice(-30);
+
+    // Use baseline from profile, the 30-day mean, or estimate from current
+    const baseline = baselineRMSSD > 0 ? baselineRMSSD : hasHistory ? mean(last30) : currentRMSSD;
+    const cv = hasHistory ? coefficientOfVariation(last7) || 0.1 : 0.1; // Default coefficient of variation
 
     // Classify zone
     const { zone, info } = classifyZone(currentRMSSD, baseline, cv);
@@ -195,9 +314,13 @@ export function analyzeHRV(state?: GlobalState): HRVAnalysisOutput {
         ? ((currentRMSSD - baseline) / baseline) * 100
         : 0;
 
-    // Determine trend (would need history for real trend)
-    const trend_7d: 'improving' | 'stable' | 'declining' =
-        deviation_percent > 5 ? 'improving' :
+    // Determine trend: 7-night regression with history, else deviation
+    const regression = linearRegression(last7);
+    const slopePercent = hasHistory && mean(last7) > 0 ? (regression.slope / mean(last7)) * 100 : 0;
+    const trend_7d: 'improving' | 'stable' | 'declining' = hasHistory
+        ? slopePercent > TREND_SLOPE_PERCENT ? 'improving' :
+            slopePercent < -TREND_SLOPE_PERCENT ? 'declining' : 'stable'
+        : deviation_percent > 5 ? 'improving' :
             deviation_percent < -5 ? 'declining' : 'stable';
 
     // Recovery status
@@ -211,8 +334,19 @@ export function analyzeHRV(state?: GlobalState): HRVAnalysisOutput {
             zone === 'moderate' ? 'Moderate intensity recommended' :
                 zone === 'compromised' ? 'Light activity only' : 'Rest day recommended';
 
-    // Build baseline object for backward compatibility
-    const baselineObj: HRVBaseline = {
+    // Build baseline object from history, else from the single baseline
+    const sdnn = nights.map(n => n.sdnn).filter((v): v is number => v !== undefined);
+    const baselineObj: HRVBaseline = hasHistory ? {
+        rmssd_7d_avg: mean(last7),
+        rmssd_30d_avg: mean(last30),
+        rmssd_90d_avg: mean(rmssd),
+        sdnn_7d_avg: sdnn.length ? mean(sdnn.slice(-7)) : mean(last7) * 1.2,
+        sdnn_30d_avg: sdnn.length ? mean(sdnn.slice(-30)) : mean(last30) * 1.2,
+        coefficient_of_variation_7d: coefficientOfVariation(last7),
+        coefficient_of_variation_30d: coefficientOfVariation(last30),
+        personal_floor: Math.min(...last30),
+        personal_ceiling: Math.max(...last30)
+    } : {
         rmssd_7d_avg: baseline,
         rmssd_30d_avg: baseline,
         rmssd_90d_avg: baseline,
@@ -224,6 +358,23 @@ export function analyzeHRV(state?: GlobalState): HRVAnalysisOutput {
         personal_ceiling: baseline * 1.3
     };
 
+    const patterns: HRVPattern[] = [];
+    if (hasHistory && trend_7d !== 'stable') {
+        patterns.push({
+            type: trend_7d === 'improving' ? 'improving_trend' : 'declining_trend',
+            confidence: regression.r2,
+            description: `RMSSD ${trend_7d === 'improving' ? 'rising' : 'falling'} ${Math.abs(slopePercent).toFixed(1)}%/day over the last ${last7.length} nights`
+        });
+    }
+    if (hasHistory && baselineObj.coefficient_of_variation_7d > 0.15) {
+        patterns.push({
+            type: 'high_variability',
+            confidence: Math.min(1, baselineObj.coefficient_of_variation_7d / 0.3),
+            description: `7-night CV of ${(baselineObj.coefficient_of_variation_7d * 100).toFixed(0)}% - day-to-day HRV is unstable`,
+            recommendation: 'Keep sleep timing and training load consistent'
+        });
+    }
+
     // Recovery readiness score (0-100)
     const recovery_readiness = Math.max(0, Math.min(100, 70 + deviation_percent));
 
@@ -239,9 +390,10 @@ export function analyzeHRV(state?: GlobalState): HRVAnalysisOutput {
         training_recommendation,
         recovery_readiness,
         zone_info: info,
-        autonomic_balance: 'balanced',
-        history_7d: [current], // Single reading for now
-        patterns: []
+        autonomic_balance: classifyBalance(measured?.lf_hf_ratio),
+        history_7d: hasHistory ? nights.slice(-7).map(toReading) : [current],
+        patterns,
+        provenance: provenanceOf(nights, state)
     };
 }
 
@@ -0,0 +1,301 @@
+/**
+ * RR-Interval Analysis - HRV metrics from a beat-to-beat series
+ *
+ * Based on:
+ * - Task Force of ESC/NASPE (1996) - Standards of HRV measurement
+ * - Lipponen & Tarvainen (2019) - Artifact correction against a local median
+ * - Brennan et al. (2001) - Poincaré plot SD1/SD2
+ * - Peng et al. (1995), Gronwald et al. (2020) - DFA-α1 over 4-16 beats
+ *
+ * Implements:
+ * - Artifact detection and interpolation
+ * - Time domain: RMSSD, SDNN, pNN50
+ * - Frequency domain: LF/HF power from a Welch periodogram
+ * - Nonlinear: SD1/SD2, DFA-α1
+ */
+
+import { RRArtifactReport, RRHRVMetrics } from '../../types/rr-import';
+
+// Physiological bounds for a single interval (200-30 bpm)
+const MIN_RR_MS = 300;
+const MAX_RR_MS = 2000;
+
+// A beat this far from the local median is an artifact (ectopic, missed or extra beat)
+const ARTIFACT_THRESHOLD = 0.2;
+const LOCAL_MEDIAN_WINDOW = 5;    // Beats each side
+
+// Spectral analysis
+const RESAMPLE_HZ = 4;
+const LF_BAND: [number, number] = [0.04, 0.15];
+const HF_BAND: [number, number] = [0.15, 0.4];
+export const MIN_SPECTRAL_DURATION_S = 120;
+
+// DFA-α1 box sizes (beats)
+const DFA_MIN_BOX = 4;
+const DFA_MAX_BOX = 16;
+export const MIN_DFA_BEATS = 4 * DFA_MAX_BOX;
+
+// ============================================================================
+// STATISTICAL HELPERS
+// ============================================================================
+
+const mean = (values: number[]): number =>
+    values.length === 0 ? 0 : values.reduce((a, b) => a + b, 0) / values.length;
+
+// Sample standard deviation (n - 1), as used by the HRV standards
+const sampleSD = (values: number[]): number => {
+    if (values.length < 2) return 0;
+    const avg = mean(values);
+    return Math.sqrt(values.reduce((s, v) => s + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const linearFit = (x: number[], y: number[]): { slope: number; intercept: number } => {
+    const xMean = mean(x);
+    const yMean = mean(y);
+    let num = 0;
+    let den = 0;
+    x.forEach((xi, i) => {
+        num += (xi - xMean) * (y[i] - yMean);
+        den += (xi - xMean) ** 2;
+    });
+    const slope = den !== 0 ? num / den : 0;
+    return { slope, intercept: yMean - slope * xMean };
+};
+
+// ============================================================================
+// ARTIFACT CORRECTION
+// ============================================================================
+
+/**
+ * Flag beats outside physiological bounds or more than 20% away from the
+ * median of their neighbours, then replace them by linear interpolation
+ * between the nearest clean beats. Beat count is preserved.
+ */
+export function correctArtifacts(intervals: number[]): { corrected: number[]; report: RRArtifactReport } {
+    const flagged = intervals.map((rr, i) => {
+        if (rr < MIN_RR_MS || rr > MAX_RR_MS) return true;
+        const start = Math.max(0, i - LOCAL_MEDIAN_WINDOW);
+        const neighbours = [
+            ...intervals.slice(start, i),
+            ...intervals.slice(i + 1, i + 1 + LOCAL_MEDIAN_WINDOW)
+        ].filter(v => v >= MIN_RR_MS && v <= MAX_RR_MS);
+        if (neighbours.length === 0) return false;
+        const local = median(neighbours);
+        return Math.abs(rr - local) / local > ARTIFACT_THRESHOLD;
+    });
+
+    const corrected = [...intervals];
+    const correctedIndices: number[] = [];
+    const nearestClean = (i: number, direction: 1 | -1): number | undefined => {
+        for (let j = i + direction; j >= 0 && j < intervals.length; j += direction) {
+            if (!flagged[j]) return j;
+        }
+        return undefined;
+    };
+
+    flagged.forEach((isArtifact, i) => {
+        if (!isArtifact) return;
+        correctedIndices.push(i);
+        const before = nearestClean(i, -1);
+        const after = nearestClean(i, 1);
+        if (before !== undefined && after !== undefined) {
+            const t = (i - before) / (after - before);
+            corrected[i] = intervals[before] + t * (intervals[after] - intervals[before]);
+        } else if (before !== undefined || after !== undefined) {
+            corrected[i] = intervals[(before ?? after)!];
+        }
+    });
+
+    return {
+        corrected,
+        report: {
+            total_beats: intervals.length,
+            corrected_beats: correctedIndices.length,
+            corrected_percent: intervals.length > 0 ? (correctedIndices.length / intervals.length) * 100 : 0,
+            corrected_indices: correctedIndices
+        }
+    };
+}
+
+// ============================================================================
+// FREQUENCY DOMAIN
+// ============================================================================
+
+// Evenly resampled series (ms) at RESAMPLE_HZ by natural cubic spline over
+// beat times; linear interpolation would damp the HF band noticeably
+function resample(intervals: number[]): number[] {
+    const times: number[] = [];
+    let t = 0;
+    for (const rr of intervals) {
+        t += rr / 1000;
+        times.push(t);
+    }
+
+    // Second derivatives of the spline (tridiagonal solve, zero at the ends)
+    const n = times.length;
+    const m = new Array(n).fill(0);
+    const c = new Array(n).fill(0);
+    const d = new Array(n).fill(0);
+    for (let i = 1; i < n - 1; i++) {
+        const h0 = times[i] - times[i - 1];
+        const h1 = times[i + 1] - times[i];
+        const rhs = 6 * ((intervals[i + 1] - intervals[i]) / h1 - (intervals[i] - intervals[i - 1]) / h0);
+        const diag = 2 * (h0 + h1) - h0 * c[i - 1];
+        c[i] = h1 / diag;
+        d[i] = (rhs - h0 * d[i - 1]) / diag;
+    }
+    for (let i = n - 2; i > 0; i--) m[i] = d[i] - c[i] * m[i + 1];
+
+    const samples: number[] = [];
+    let j = 0;
+    for (let s = times[0]; s <= times[n - 1]; s += 1 / RESAMPLE_HZ) {
+        while (j < n - 2 && times[j + 1] < s) j++;
+        const h = times[j + 1] - times[j];
+        const a = (times[j + 1] - s) / h;
+        const b = (s - times[j]) / h;
+        samples.push(
+            a * intervals[j] + b * intervals[j + 1] +
+            ((a ** 3 - a) * m[j] + (b ** 3 - b) * m[j + 1]) * (h * h) / 6
+        );
+    }
+    return samples;
+}
+
+// One-sided PSD (ms²/Hz) of one Hann-windowed, detrended segment
+function segmentPSD(segment: number[]): number[] {
+    const n = segment.length;
+    const x = segment.map((_, i) => i);
+    const { slope, intercept } = linearFit(x, segment);
+    const window = x.map(i => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+    const windowPower = window.reduce((s, w) => s + w * w, 0);
+    const data = segment.map((v, i) => (v - (intercept + slope * i)) * window[i]);
+
+    const psd: number[] = [];
+    for (let k = 0; k <= n / 2; k++) {
+        let re = 0;
+        let im = 0;
+        for (let i = 0; i < n; i++) {
+            const angle = (2 * Math.PI * k * i) / n;
+            re += data[i] * Math.cos(angle);
+            im -= data[i] * Math.sin(angle);
+        }
+        const scale = k === 0 || k === n / 2 ? 1 : 2;
+        psd.push((scale * (re * re + im * im)) / (RESAMPLE_HZ * windowPower));
+    }
+    return psd;
+}
+
+/**
+ * LF and HF band power (ms²) from a Welch periodogram: 4 Hz resampling,
+ * segments of up to 512 samples (128 s) with 50% overlap.
+ */
+export function spectralPower(intervals: number[]): { lf: number; hf: number } {
+    const samples = resample(intervals);
+    let segmentLength = 16;
+    while (segmentLength * 2 <= Math.min(samples.length, 512)) segmentLength *= 2;
+    const step = segmentLength / 2;
+
+    const segments: number[][] = [];
+    for (let start = 0; start + segmentLength <= samples.length; start += step) {
+        segments.push(segmentPSD(samples.slice(start, start + segmentLength)));
+    }
+    const psd = segments[0].map((_, k) => mean(segments.map(s => s[k])));
+    const df = RESAMPLE_HZ / segmentLength;
+
+    const bandPower = ([low, high]: [number, number]) =>
+        psd.reduce((sum, p, k) => {
+            const f = k * df;
+            return f >= low && f < high ? sum + p * df : sum;
+        }, 0);
+
+    return { lf: bandPower(LF_BAND), hf: bandPower(HF_BAND) };
+}
+
+// ============================================================================
+// NONLINEAR
+// ============================================================================
+
+/**
+ * Short-term detrended fluctuation analysis exponent over 4-16 beat boxes.
+ * ~1.0 at rest, ~0.75 around the aerobic threshold, <0.5 at high intensity.
+ */
+export function dfaAlpha1(intervals: number[]): number {
+    const avg = mean(intervals);
+    const profile: number[] = [];
+    intervals.reduce((sum, rr) => {
+        profile.push(sum + rr - avg);
+        return sum + rr - avg;
+    }, 0);
+
+    const logN: number[] = [];
+    const logF: number[] = [];
+    for (let n = DFA_MIN_BOX; n <= DFA_MAX_BOX; n++) {
+        const boxes = Math.floor(profile.length / n);
+        let squared = 0;
+        for (let b = 0; b < boxes; b++) {
+            const y = profile.slice(b * n, (b + 1) * n);
+            const x = y.map((_, i) => i);
+            const { slope, intercept } = linearFit(x, y);
+            squared += y.reduce((s, v, i) => s + (v - (intercept + slope * i)) ** 2, 0);
+        }
+        const fluctuation = Math.sqrt(squared / (boxes * n));
+        if (fluctuation > 0) {
+            logN.push(Math.log10(n));
+            logF.push(Math.log10(fluctuation));
+        }
+    }
+    return linearFit(logN, logF).slope;
+}
+
+// ============================================================================
+// MAIN ANALYSIS FUNCTION
+// ============================================================================
+
+/**
+ * All metrics for an artifact-corrected series. Frequency-domain power is
+ * left out under 2 minutes and DFA-α1 under 64 beats, where neither is
+ * meaningful.
+ */
+export function computeHRVMetrics(intervals: number[]): RRHRVMetrics {
+    if (intervals.length < 3) {
+        throw new Error('At least 3 RR intervals are needed for HRV analysis');
+    }
+
+    const diffs = intervals.slice(1).map((rr, i) => rr - intervals[i]);
+    const meanRR = mean(intervals);
+    const sdnn = sampleSD(intervals);
+    const sdsd = sampleSD(diffs);
+    const sd1 = Math.sqrt(0.5) * sdsd;
+    const sd2 = Math.sqrt(Math.max(0, 2 * sdnn ** 2 - 0.5 * sdsd ** 2));
+    const duration_s = intervals.reduce((a, b) => a + b, 0) / 1000;
+
+    const metrics: RRHRVMetrics = {
+        beats: intervals.length,
+        duration_s,
+        mean_rr: meanRR,
+        hr_mean: 60000 / meanRR,
+        rmssd: Math.sqrt(mean(diffs.map(d => d * d))),
+        sdnn,
+        pnn50: (diffs.filter(d => Math.abs(d) > 50).length / diffs.length) * 100,
+        sd1,
+        sd2
+    };
+
+    if (duration_s >= MIN_SPECTRAL_DURATION_S) {
+        const { lf, hf } = spectralPower(intervals);
+        metrics.lf_power = lf;
+        metrics.hf_power = hf;
+        metrics.lf_hf_ratio = hf > 0 ? lf / hf : undefined;
+    }
+    if (intervals.length >= MIN_DFA_BEATS) {
+        metrics.dfa_alpha1 = dfaAlpha1(intervals);
+    }
+
+    return metrics;
+}
@@ -17,6 +17,8 @@ import {
     CompromiseOption
 } from "../types";
 import { StatusClassificationEngine } from "../shared/StatusClassificationEngine";
+import { clock } from "../../services/clock";
+import { forState, snapshotProvenance } from "../../services/provenance";
 
 // =====================================================
 // RECOVERY EXPERT
@@ -74,7 +76,7 @@ export class RecoveryExpert implements Expert {
         }
 
         // Opportunities
-        const hour = new Date().getHours();
+        const hour = clock.now().getHours();
         if (recoveryScore >= 80) {
             opportunities.push("High recovery - optimal for intense training");
         }
@@ -107,7 +109,8 @@ export class RecoveryExpert implements Expert {
             status: statusResult.status,
             statusResult,
             concerns,
-            opportunities
+            opportunities,
+            provenance: forState(snapshotProvenance(), state)
         };
     }
 
@@ -335,7 +338,7 @@ export class RecoveryExpert implements Expert {
     // =====================================================
 
     private timeToDate(hour: number): Date {
-        const now = new Date();
+        const now = clock.now();
         const date = new Date(now);
         date.setHours(Math.floor(hour), (hour % 1) * 60, 0, 0);
         return date;
@@ -366,7 +369,7 @@ export class RecoveryExpert implements Expert {
                 impact: 20,
                 duration_minutes: 0,
                 rationale: 'Monitoring baseline',
-                time_window: { start: new Date(), end: new Date() }
+                time_window: { start: clock.now(), end: clock.now() }
             };
         }
 
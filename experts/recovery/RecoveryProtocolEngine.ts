@@ -11,6 +11,7 @@
 
 import { UserGoal, GoalType } from '../../types/goals';
 import { SessionFuelProtocolEngine, Session } from '../nutritionist/SessionFuelProtocolEngine';
+import { clock } from '../../services/clock';
 
 // =====================================================
 // TYPES
@@ -262,7 +263,7 @@ export class RecoveryProtocolEngine {
      * Get session end time
      */
     private getSessionEndTime(session: Session): Date {
-        const startTime = session.start_time ? new Date(session.start_time) : new Date();
+        const startTime = session.start_time ? new Date(session.start_time) : clock.now();
         const duration = session.duration_minutes || session.duration_min || 60;
         return new Date(startTime.getTime() + duration * 60 * 1000);
     }
@@ -270,7 +271,7 @@ export class RecoveryProtocolEngine {
     /**
      * Generate recovery protocol for the day
      */
-    generateDayProtocol(sessions: Session[], now: Date = new Date()): DayRecoveryProtocol {
+    generateDayProtocol(sessions: Session[], now: Date = clock.now()): DayRecoveryProtocol {
         const todaysSessions = sessions.filter(s => {
             const sessionDate = s.start_time ? new Date(s.start_time) : null;
             return sessionDate && sessionDate.toDateString() === now.toDateString();
@@ -399,7 +400,7 @@ export class RecoveryProtocolEngine {
     /**
      * Check if cold exposure is safe now
      */
-    isColdSafe(sessions: Session[], now: Date = new Date()): { safe: boolean; reason: string; safe_after?: Date } {
+    isColdSafe(sessions: Session[], now: Date = clock.now()): { safe: boolean; reason: string; safe_after?: Date } {
         const protocol = this.generateDayProtocol(sessions, now);
         const coldWindow = protocol.available_modalities.find(w => w.modality === 'cold_exposure') ||
             protocol.blocked_modalities.find(w => w.modality === 'cold_exposure');
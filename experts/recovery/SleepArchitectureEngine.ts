@@ -20,6 +20,11 @@ import {
     SleepStage,
     SleepCycle
 } from '../../types/sleep-architecture';
+import { getSleepNights } from '../../services/history/historyStore';
+import { clock } from '../../services/clock';
+import { engineRegistry, coverageOfDates } from '../../services/engineRegistry';
+import { assessProvenance } from '../../services/provenance';
+import { DataProvenance } from '../../types/provenance';
 
 // ============================================================================
 // MOCK DATA GENERATION
@@ -29,7 +34,7 @@ const generateMockSleepHistory = (days: number): SleepArchitecture[] => {
     const history: SleepArchitecture[] = [];
 
     for (let i = days - 1; i >= 0; i--) {
-        const date = new Date();
+        const date = clock.now();
         date.setDate(date.getDate() - i);
 
         // Simulate typical sleep architecture
@@ -121,8 +126,16 @@ export class SleepArchitectureEngine {
     private hasSyncedData: boolean = false; // Track if we have real wearable data
 
     constructor() {
-        // Start with empty history - only real data from wearables
-        this.history = [];
+        this.reload();
+    }
+
+    /**
+     * Re-read nights imported from wearables from the history store - never
+     * mock data
+     */
+    reload(): void {
+        this.history = getSleepNights().slice(-90);
+        this.hasSyncedData = this.history.length > 0;
     }
 
     /**
@@ -140,6 +153,14 @@ export class SleepArchitectureEngine {
         return this.history.length > 0 && this.hasSyncedData;
     }
 
+    /**
+     * Imported nights in the last two weeks (the trend window)
+     */
+    getProvenance(): DataProvenance {
+        const { covered, expected } = coverageOfDates(this.history.map(n => n.date), 14);
+        return assessProvenance({ real_days: covered, expected_days: expected, min_days: 3 });
+    }
+
     /**
      * Add a new sleep record
      */
@@ -346,6 +367,7 @@ export class SleepArchitectureEngine {
         const recommendations = this.generateRecommendations(currentNight, debt);
 
         return {
+            provenance: this.getProvenance(),
             current_night: currentNight,
             debt,
             weekly_average: weeklyAverage,
@@ -408,10 +430,18 @@ export class SleepArchitectureEngine {
     }
 }
 
-// Singleton instance
-export const sleepArchitectureEngine = new SleepArchitectureEngine();
+// Singleton instance, owned by the engine registry
+export const sleepArchitectureEngine = engineRegistry.register({
+    id: 'sleep_architecture',
+    label: 'Sleep Architecture',
+    domain: 'recovery',
+    instance: new SleepArchitectureEngine(),
+    hydrate: engine => engine.reload(),
+    dataSource: engine => engine.hasData() ? 'recorded' : 'none',
+    coverage: engine => coverageOfDates(engine.getHistory(90).map(n => n.date))
+});
 
 // Export convenience function
 export function analyzeSleep(): SleepAnalysisOutput | null {
-    return sleepArchitectureEngine.analyze();
+    return engineRegistry.run('sleep_architecture', () => sleepArchitectureEngine.analyze());
 }
@@ -1,8 +1,9 @@
 
 import { EliteRecoveryState, UserProfile } from "../../../types";
+import { clock } from "../../../services/clock";
 
 export const generateCoachReport = (profile: UserProfile, recovery: EliteRecoveryState) => {
-    const date = new Date().toISOString().split('T')[0];
+    const date = clock.now().toISOString().split('T')[0];
     
     return {
         meta: {
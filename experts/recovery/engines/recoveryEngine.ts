@@ -8,6 +8,7 @@ import {
 } from "./recoveryEngines";
 import { BoneEngine } from "./recoveryEngines/boneEngine";
 import { MicrobiomeEngine } from "./recoveryEngines/microbiomeEngine";
+import { engineRegistry, snapshotCoverage, stateSource } from "../../../services/engineRegistry";
 
 export class RecoveryEngine {
 
@@ -170,3 +171,12 @@ export class RecoveryEngine {
         };
     }
 }
+
+engineRegistry.register({
+    id: 'recovery',
+    label: 'Recovery Engine',
+    domain: 'recovery',
+    instance: RecoveryEngine,
+    dataSource: (_, state) => stateSource(state),
+    coverage: () => snapshotCoverage()
+});
@@ -12,11 +12,13 @@ import {
 // =================================================================
 export class AutonomicEngine {
     static evaluate(state: GlobalState): AutonomicProfile {
-        const hrv = state.sleep.hrv;
+        // Measured values from an imported RR recording are kept as-is
+        const measured = state.recovery?.autonomic?.measured_at ? state.recovery.autonomic : undefined;
+        const hrv = measured?.rmssd || state.sleep.hrv;
         const baseline = state.user_profile.baselines.hrv_baseline;
         const rmssd = hrv;
 
-        const lf_hf_ratio = 1.5;
+        const lf_hf_ratio = measured?.lf_hf_ratio ?? 1.5;
 
         const cortisol_0 = state.medical.cortisol_waking || 10;
         const cortisol_30 = state.medical.cortisol_30min || 15;
@@ -33,6 +35,7 @@ export class AutonomicEngine {
         if (car_blunted) paraScore -= 30;
 
         return {
+            ...measured,
             rmssd,
             lf_hf_ratio,
             tonic_vagal_tone: Math.max(0, Math.min(100, paraScore + 50)),
@@ -6,6 +6,8 @@
  */
 
 import { GlobalState, UserProfile, Session } from "../types";
+import { clock } from "../services/clock";
+import { DataProvenance } from "../types/provenance";
 
 // =====================================================
 // SCIENTIFIC STATUS CLASSIFICATION
@@ -41,6 +43,7 @@ export interface ExpertAnalysis {
     statusResult?: StatusResult;     // Detailed breakdown with threshold info
     concerns: string[];              // ["Dehydrated", "Missed breakfast"]
     opportunities: string[];         // ["Great time for training", "Recovery window"]
+    provenance?: DataProvenance;     // Whether the analysis rests on the athlete's own data
 }
 
 export interface ActionCandidate {
@@ -169,7 +172,7 @@ export function createExpertContext(
     state: GlobalState,
     profile: UserProfile
 ): ExpertContext {
-    const now = new Date();
+    const now = clock.now();
     const sessions = state.timeline?.sessions || [];
     const todaySession = sessions.find(s => s.time_of_day);
 
@@ -19,6 +19,10 @@ import {
 import { GlassCard, cn } from '../../components/ui';
 import { analyzeBiomarkers } from '../../services/BiomarkerEngine';
 import { BiomarkerAnalysis, BiomarkerStatus, BiomarkerPanel } from '../../types/biomarkers';
+import { shouldSuppress } from '../../services/provenance';
+import { useSentient } from '../../store/SentientContext';
+import { ConnectWearableCard } from '../../ui/shared/ConnectWearableCard';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 
 // ============================================================================
 // PANEL ICONS
@@ -236,15 +240,29 @@ export const BiomarkerDashboardCard: React.FC<BiomarkerDashboardCardProps> = ({
     className,
     compact = false
 }) => {
+    const { state } = useSentient();
     const analysis = useMemo(() => analyzeBiomarkers(), []);
 
+    // The sample panel is only shown in Demo Mode
+    if (shouldSuppress(analysis.provenance, state.ui_config?.demo_mode)) {
+        return (
+            <ConnectWearableCard
+                domain="longevity"
+                className={className}
+                compact={compact}
+                customMessage="Import lab results to see your biomarker dashboard."
+            />
+        );
+    }
+
     const {
         last_test_date,
         next_recommended_test,
         panels,
         critical_alerts,
         improvement_priorities,
-        overall_score
+        overall_score,
+        provenance
     } = analysis;
 
     const getOverallColor = () => {
@@ -266,6 +284,7 @@ export const BiomarkerDashboardCard: React.FC<BiomarkerDashboardCardProps> = ({
                             <div className={cn('text-lg font-bold', getOverallColor())}>
                                 {overall_score}%
                             </div>
+                            <ProvenanceBadge provenance={provenance} />
                         </div>
                     </div>
                     {critical_alerts.length > 0 && (
@@ -290,6 +309,7 @@ export const BiomarkerDashboardCard: React.FC<BiomarkerDashboardCardProps> = ({
                     <div>
                         <h3 className="font-semibold text-white">Biomarker Dashboard</h3>
                         <p className="text-xs text-muted-foreground">Blood work analysis</p>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
 
@@ -8,13 +8,18 @@
  * - Blueprint targets
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { TestTube, TrendingUp, Target, Calendar } from 'lucide-react';
 import { GlassCard } from '../../components/ui';
 import { BiomarkerDashboardCard } from '../biomarkers/BiomarkerDashboardCard';
+import { LabImportSheet } from './LabImportSheet';
 
 export const BiomarkersTab: React.FC = () => {
+    const [showImport, setShowImport] = useState(false);
+    // Bumped after an import so the dashboard re-runs its analysis
+    const [dataVersion, setDataVersion] = useState(0);
+
     return (
         <motion.div
             initial={{ opacity: 0, y: 10 }}
@@ -39,7 +44,7 @@ export const BiomarkersTab: React.FC = () => {
                         <Calendar className="w-4 h-4" />
                         Schedule Test
                     </button>
-                    <button className="px-4 py-2 text-sm font-medium bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-400 rounded-lg border border-cyan-500/30 transition-colors flex items-center gap-2">
+                    <button onClick={() => setShowImport(true)} className="px-4 py-2 text-sm font-medium bg-cyan-500/20 hover:bg-cyan-500/30 text-cyan-400 rounded-lg border border-cyan-500/30 transition-colors flex items-center gap-2">
                         <TrendingUp className="w-4 h-4" />
                         Import Results
                     </button>
@@ -47,7 +52,7 @@ export const BiomarkersTab: React.FC = () => {
             </div>
 
             {/* Main Dashboard Card */}
-            <BiomarkerDashboardCard />
+            <BiomarkerDashboardCard key={dataVersion} />
 
             {/* Quick Stats */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -89,6 +94,10 @@ export const BiomarkersTab: React.FC = () => {
                     where Bryan Johnson has shared his specific goals.
                 </p>
             </GlassCard>
+
+            {showImport && (
+                <LabImportSheet onClose={() => setShowImport(false)} onImported={() => setDataVersion(v => v + 1)} />
+            )}
         </motion.div>
     );
 };
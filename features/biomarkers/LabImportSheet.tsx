@@ -0,0 +1,226 @@
+/**
+ * Lab Import Sheet
+ *
+ * Paste report text or pick a CSV/text export, preview how each row maps
+ * onto a biomarker (with unit conversions), then record it. Rows that need
+ * a decision stay in the review queue below until resolved or dismissed.
+ */
+
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FlaskConical, X, Upload, Check, AlertTriangle, Trash2, ArrowRight } from 'lucide-react';
+import { Button } from '../../components/ui';
+import { BIOMARKER_DEFINITIONS } from '../../types/biomarkers';
+import { LabImportResult, LabReviewItem, LabReviewReason } from '../../types/lab-import';
+import {
+    parseLabReport,
+    commitLabImport,
+    getLabReviewQueue,
+    resolveLabReviewItem,
+    dismissLabReviewItem
+} from '../../services/import/labReportImporter';
+import { getAcceptedUnits, getBiomarkerDefinition } from '../../services/import/labMarkers';
+
+interface LabImportSheetProps {
+    onClose: () => void;
+    onImported: () => void;
+}
+
+const REASON_LABELS: Record<LabReviewReason, string> = {
+    unknown_marker: 'Unrecognised test',
+    unknown_unit: 'Unit missing or unsupported',
+    no_value: 'No numeric result',
+    implausible_value: 'Value out of range'
+};
+
+const ReviewRow: React.FC<{ item: LabReviewItem; onDone: () => void }> = ({ item, onDone }) => {
+    const [biomarkerId, setBiomarkerId] = useState(item.biomarker_id ?? '');
+    const [unit, setUnit] = useState(item.row.unit ?? (item.biomarker_id ? getBiomarkerDefinition(item.biomarker_id)?.unit : '') ?? '');
+    const [value, setValue] = useState(item.row.value?.toString() ?? '');
+    const [error, setError] = useState('');
+    const units = biomarkerId ? getAcceptedUnits(biomarkerId) : [];
+
+    const selectMarker = (id: string) => {
+        setBiomarkerId(id);
+        const accepted = getAcceptedUnits(id);
+        if (!accepted.includes(unit)) setUnit(accepted[0] ?? '');
+    };
+
+    const resolve = () => {
+        try {
+            resolveLabReviewItem(item.id, biomarkerId, unit, value ? Number(value.replace(',', '.')) : undefined);
+            onDone();
+        } catch (e: any) {
+            setError(e?.message || 'Could not record this row');
+        }
+    };
+
+    return (
+        <div className="p-3 bg-white/5 rounded-xl border border-white/10 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                    <div className="text-xs text-white font-mono truncate" title={item.row.raw}>{item.row.raw}</div>
+                    <div className="text-[10px] text-amber-400 uppercase tracking-wider">{REASON_LABELS[item.reason]} · {item.date}</div>
+                </div>
+                <button onClick={() => { dismissLabReviewItem(item.id); onDone(); }} className="text-white/30 hover:text-white/70" title="Dismiss">
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+                <select value={biomarkerId} onChange={e => selectMarker(e.target.value)}
+                    className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white">
+                    <option value="">Marker…</option>
+                    {BIOMARKER_DEFINITIONS.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                </select>
+                <input value={value} onChange={e => setValue(e.target.value)} inputMode="decimal"
+                    className="w-20 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white" />
+                <select value={unit} onChange={e => setUnit(e.target.value)} disabled={!biomarkerId}
+                    className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white">
+                    {units.map(u => <option key={u} value={u}>{u}</option>)}
+                </select>
+                <Button size="sm" variant="outline" disabled={!biomarkerId || !unit} onClick={resolve}>
+                    <Check className="w-3 h-3" /> Record
+                </Button>
+            </div>
+            {error && <div className="text-[10px] text-red-300">{error}</div>}
+        </div>
+    );
+};
+
+export const LabImportSheet: React.FC<LabImportSheetProps> = ({ onClose, onImported }) => {
+    const [text, setText] = useState('');
+    const [fileName, setFileName] = useState<string | undefined>();
+    const [date, setDate] = useState('');
+    const [labName, setLabName] = useState('');
+    const [preview, setPreview] = useState<LabImportResult | null>(null);
+    const [queue, setQueue] = useState(() => getLabReviewQueue());
+    const [message, setMessage] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const analyse = (input: string, sourceFile = fileName) => {
+        setMessage('');
+        setPreview(input.trim()
+            ? parseLabReport(input, { date: date || undefined, lab_name: labName || undefined, source_file: sourceFile })
+            : null);
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const content = await file.text();
+        setFileName(file.name);
+        setText(content);
+        analyse(content, file.name);
+    };
+
+    const handleImport = () => {
+        if (!preview) return;
+        commitLabImport(preview);
+        setMessage(`Recorded ${preview.matches.length} results${preview.review.length ? `, ${preview.review.length} queued for review` : ''}`);
+        setPreview(null);
+        setText('');
+        setFileName(undefined);
+        setQueue(getLabReviewQueue());
+        onImported();
+    };
+
+    const refreshQueue = () => {
+        setQueue(getLabReviewQueue());
+        onImported();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+            <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.tsv,.txt" onChange={handleFile} />
+
+            <motion.div initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
+                className="w-full max-w-2xl bg-background border border-white/10 rounded-2xl overflow-hidden">
+                <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-cyan-500/20"><FlaskConical className="w-5 h-5 text-cyan-400" /></div>
+                        <div>
+                            <h3 className="font-bold text-lg text-white">Import Lab Results</h3>
+                            <p className="text-[10px] text-white/40 uppercase tracking-widest">CSV · Report text</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-white/40 hover:text-white"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <textarea value={text} rows={6}
+                        onChange={e => { setText(e.target.value); setFileName(undefined); setPreview(null); }}
+                        placeholder={'Paste report text or CSV, e.g.\nFerritin  85  ng/mL  30 - 400\n25-OH Vitamin D  75  nmol/L'}
+                        className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-white font-mono" />
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="text-[10px] uppercase tracking-wider text-white/40">
+                            Collection date
+                            <input type="date" value={date} onChange={e => { setDate(e.target.value); setPreview(null); }}
+                                className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                        </label>
+                        <label className="text-[10px] uppercase tracking-wider text-white/40">
+                            Lab
+                            <input value={labName} onChange={e => { setLabName(e.target.value); setPreview(null); }}
+                                className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                        </label>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                            <Upload className="w-3 h-3" /> Choose File
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={!text.trim()} onClick={() => analyse(text)}>
+                            <ArrowRight className="w-3 h-3" /> Preview
+                        </Button>
+                        {fileName && <span className="text-[10px] text-white/40 self-center truncate">{fileName}</span>}
+                    </div>
+
+                    {preview && (
+                        <div className="space-y-2">
+                            <div className="text-[10px] uppercase tracking-wider text-white/40">
+                                {preview.matches.length} matched · {preview.review.length} to review · collected {preview.date}
+                            </div>
+                            {preview.matches.map((match, i) => {
+                                const definition = getBiomarkerDefinition(match.reading.biomarker_id);
+                                return (
+                                    <div key={i} className="flex items-center justify-between text-xs p-2 bg-white/5 rounded-lg">
+                                        <span className="text-white/60 truncate">{match.row.name}</span>
+                                        <span className="text-white font-medium">
+                                            {definition?.name} {match.reading.value} {definition?.unit}
+                                            {match.converted_from && <span className="text-white/40"> (from {match.row.value} {match.converted_from})</span>}
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                            {preview.review.map(item => (
+                                <div key={item.id} className="flex items-center justify-between text-xs p-2 bg-amber-500/10 rounded-lg">
+                                    <span className="text-white/60 font-mono truncate">{item.row.raw}</span>
+                                    <span className="text-amber-400">{REASON_LABELS[item.reason]}</span>
+                                </div>
+                            ))}
+                            <Button size="sm" disabled={preview.matches.length + preview.review.length === 0} onClick={handleImport}>
+                                <Check className="w-3 h-3" /> Import
+                            </Button>
+                        </div>
+                    )}
+
+                    {message && (
+                        <div className="text-xs text-teal-300 flex items-center gap-2"><Check className="w-3 h-3" /> {message}</div>
+                    )}
+
+                    {queue.length > 0 && (
+                        <div className="space-y-2">
+                            <div className="text-[10px] uppercase tracking-wider text-amber-400 flex items-center gap-2">
+                                <AlertTriangle className="w-3 h-3" /> Needs review ({queue.length})
+                            </div>
+                            {queue.map(item => <ReviewRow key={item.id} item={item} onDone={refreshQueue} />)}
+                        </div>
+                    )}
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default LabImportSheet;
@@ -19,6 +19,7 @@ import { GlassCard, cn } from '../../components/ui';
 import { analyzeCircadian } from '../../services/CircadianEngine';
 import { scoreToStatus, getStatusTextColor } from '../../ui/shared/statusUtils';
 import { ConnectWearableCard } from '../../ui/shared/ConnectWearableCard';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 
 // ============================================================================
 // 24-HOUR CLOCK VISUALIZATION
@@ -288,7 +289,8 @@ export const CircadianClockCard: React.FC<CircadianClockCardProps> = ({
         light_tracking,
         recommended_sleep_time,
         recommended_wake_time,
-        circadian_alignment_score
+        circadian_alignment_score,
+        provenance
     } = analysis;
 
     const now = new Date();
@@ -341,6 +343,7 @@ export const CircadianClockCard: React.FC<CircadianClockCardProps> = ({
                     <div>
                         <h3 className="font-semibold text-white">Circadian Rhythm</h3>
                         <p className="text-xs text-muted-foreground capitalize">{chronotype.type.replace(/_/g, ' ')}</p>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
                 <div className="text-right">
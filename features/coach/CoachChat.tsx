@@ -1,18 +1,18 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, X, Cpu, MessageSquare, Sparkles, Activity, Brain } from 'lucide-react';
+import { Send, X, Cpu, MessageSquare, Sparkles, Activity, Brain, WifiOff } from 'lucide-react';
 import { Button, GlassCard, cn } from '../../components/ui';
 import { askSentientCoach } from '../../experts/orchestrator/ai';
 import { useSentient } from '../../store/SentientContext';
 import { SentientOrbButton } from '../../components/SentientOrbButton';
 
 export const NeuralInterface: React.FC = () => {
-    const { state } = useSentient();
+    const { state, history } = useSentient();
     const [isOpen, setIsOpen] = useState(false);
     const [activeTab, setActiveTab] = useState<'chat' | 'cortex'>('chat');
 
     // --- CHAT STATE ---
-    const [messages, setMessages] = useState<Array<{ role: 'user' | 'assistant', text: string }>>([
+    const [messages, setMessages] = useState<Array<{ role: 'user' | 'assistant', text: string, offline?: boolean }>>([
         { role: 'assistant', text: "Systems online. Monitoring your bio-telemetry. How can I assist?" }
     ]);
     const [input, setInput] = useState('');
@@ -42,9 +42,9 @@ export const NeuralInterface: React.FC = () => {
 
         // AI Response
         setTimeout(async () => {
-            const result = await askSentientCoach(userMsg, state);
+            const result = await askSentientCoach(userMsg, state, history);
             const responseText = result?.response || "I couldn't process that request.";
-            setMessages(prev => [...prev, { role: 'assistant', text: responseText }]);
+            setMessages(prev => [...prev, { role: 'assistant', text: responseText, offline: result?.source === 'local' }]);
             setIsTyping(false);
         }, 1000);
     };
@@ -105,6 +105,11 @@ export const NeuralInterface: React.FC = () => {
                                                         : "bg-white/10 text-white/90 rounded-tl-sm border border-white/5"
                                                 )}>
                                                     {msg.text}
+                                                    {msg.offline && (
+                                                        <div className="mt-1.5 flex items-center gap-1 text-[9px] uppercase tracking-wider text-white/30">
+                                                            <WifiOff className="w-2.5 h-2.5" /> Offline coach
+                                                        </div>
+                                                    )}
                                                 </div>
                                             </div>
                                         ))}
@@ -5,7 +5,7 @@
  * Shows the ONE thing to do next, with context and upcoming actions.
  */
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useSentient } from '../../store/SentientContext';
 import {
@@ -19,7 +19,9 @@ import { evaluateFuelAction, FuelAction } from '../../experts/nutritionist/FuelA
 import { generateUnifiedProtocol, UnifiedAction, UnifiedDayProtocol } from '../../experts/longevity/UnifiedTimelineProtocolEngine';
 import { DEFAULT_USER_GOAL } from '../../types/goals';
 import type { AdaptiveAction, Alert, ActionCategory, ActionPriority } from '../../types/adaptive-intelligence';
-import { Pill, Snowflake, Wind } from 'lucide-react';
+import { Pill, Snowflake, Wind, ScrollText } from 'lucide-react';
+import { DecisionLogSheet } from './DecisionLogSheet';
+import { recordDecision } from '../../experts/orchestrator/decisionLogStore';
 
 // ============================================================================
 // HELPER COMPONENTS
@@ -482,9 +484,15 @@ interface ActiveCommanderProps {
 
 export const ActiveCommander: React.FC<ActiveCommanderProps> = ({ className }) => {
     const { state } = useSentient();
+    const [showDecisionLog, setShowDecisionLog] = useState(false);
     const intelligence = useMemo(() => getAdaptiveRecommendations(state.timeline.sessions), [state.timeline.sessions]);
     const { state_summary, commander_action, upcoming_actions, alerts, patterns_detected } = intelligence;
 
+    // Audit trail: log the ranking behind the action shown below
+    useEffect(() => {
+        recordDecision(intelligence.decision_trace);
+    }, [intelligence]);
+
     // Evaluate FuelActionEngine for specific food suggestions
     const fuelAction = useMemo(() => evaluateFuelAction(state), [state]);
 
@@ -534,9 +542,16 @@ export const ActiveCommander: React.FC<ActiveCommanderProps> = ({ className }) =
                             </div>
                         )}
                     </div>
+
+                    <button onClick={() => setShowDecisionLog(true)} title="Decision log"
+                        className="self-start p-2 rounded-lg bg-white/5 text-white/40 hover:text-white hover:bg-white/10 transition-colors">
+                        <ScrollText className="w-4 h-4" />
+                    </button>
                 </div>
             </GlassCard>
 
+            {showDecisionLog && <DecisionLogSheet onClose={() => setShowDecisionLog(false)} />}
+
             {/* Active Alerts */}
             {alerts.length > 0 && (
                 <div className="space-y-2">
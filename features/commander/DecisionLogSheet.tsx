@@ -0,0 +1,180 @@
+/**
+ * Decision Log Sheet
+ *
+ * Browse past commander decisions: the action that won, the actions the
+ * other rule groups proposed with their priority and timing, and the
+ * metrics that drove the decision.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ScrollText, X, ChevronLeft, ChevronRight, Trophy } from 'lucide-react';
+import { cn } from '../../components/ui';
+import { DecisionCandidate, DecisionInputs, DecisionRecord } from '../../types/decision-audit';
+import { loadDecisionLog } from '../../experts/orchestrator/decisionLogStore';
+
+interface DecisionLogSheetProps {
+    onClose: () => void;
+}
+
+const RUNNERS_UP_SHOWN = 5;
+
+const INPUT_LABELS: { key: keyof DecisionInputs; label: string; unit?: string }[] = [
+    { key: 'readiness', label: 'Readiness', unit: '%' },
+    { key: 'hrv', label: 'HRV', unit: 'ms' },
+    { key: 'hrv_zone', label: 'HRV zone' },
+    { key: 'recovery_score', label: 'Recovery', unit: '%' },
+    { key: 'recovery_status', label: 'Recovery status' },
+    { key: 'sleep_quality', label: 'Sleep quality', unit: '%' },
+    { key: 'sleep_debt', label: 'Sleep debt', unit: 'h' },
+    { key: 'acwr', label: 'ACWR' },
+    { key: 'load_zone', label: 'Load zone' },
+    { key: 'circadian_phase', label: 'Circadian' },
+    { key: 'glycogen', label: 'Glycogen' },
+    { key: 'hydration', label: 'Hydration' }
+];
+
+const PRIORITY_COLORS: Record<DecisionCandidate['priority'], string> = {
+    critical: 'text-red-400',
+    high: 'text-orange-400',
+    medium: 'text-yellow-400',
+    low: 'text-white/60',
+    optional: 'text-white/40'
+};
+
+const formatInput = (value: DecisionInputs[keyof DecisionInputs]) =>
+    typeof value === 'number' ? (Number.isInteger(value) ? String(value) : value.toFixed(1)) : String(value ?? '—').replace(/_/g, ' ');
+
+const formatTime = (record: DecisionRecord) =>
+    new Date(record.timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const DecisionDetail: React.FC<{ record: DecisionRecord }> = ({ record }) => {
+    const [winner, ...runnersUp] = record.candidates;
+
+    return (
+        <div className="space-y-4 text-xs">
+            <div className="text-[10px] uppercase tracking-wider text-white/40">
+                {formatTime(record)} · {record.time_of_day.replace(/_/g, ' ')} ({record.hour}:00)
+            </div>
+
+            {winner ? (
+                <div className="p-3 bg-cyan-500/10 border border-cyan-500/20 rounded-lg space-y-2">
+                    <div className="flex items-center gap-2">
+                        <Trophy className="w-4 h-4 text-cyan-400" />
+                        <span className="text-white font-semibold">{winner.title}</span>
+                        <span className={cn('ml-auto uppercase text-[10px] font-bold', PRIORITY_COLORS[winner.priority])}>{winner.priority}</span>
+                    </div>
+                    <div className="text-white/60">{winner.reason}</div>
+                    {winner.supporting_signals.length > 0 && (
+                        <ul className="space-y-0.5 text-white/50">
+                            {winner.supporting_signals.map((signal, i) => <li key={i}>• {signal}</li>)}
+                        </ul>
+                    )}
+                </div>
+            ) : (
+                <div className="p-3 bg-white/5 rounded-lg text-white/60">No action proposed</div>
+            )}
+
+            {record.candidates.length > 0 && (
+                <div>
+                    <div className="text-[10px] uppercase tracking-wider text-white/40 mb-2">
+                        {runnersUp.length > 0 ? `Runners-up (${runnersUp.length})` : 'Ranking'}
+                    </div>
+                    <table className="w-full">
+                        <thead>
+                            <tr className="text-[10px] uppercase tracking-wider text-white/30 text-right">
+                                <th className="text-left font-normal pb-1">Candidate</th>
+                                <th className="font-normal pb-1">Priority</th>
+                                <th className="font-normal pb-1">Timing</th>
+                                <th className="font-normal pb-1">Conf.</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {record.candidates.slice(0, RUNNERS_UP_SHOWN + 1).map(c => (
+                                <tr key={`${c.rank}_${c.id}`} className={cn('text-right font-mono', c.rank === 1 ? 'text-cyan-300' : 'text-white/70')}>
+                                    <td className="text-left font-sans py-1 pr-2">
+                                        <div className="truncate max-w-[180px]" title={c.reason}>{c.rank}. {c.title}</div>
+                                        <div className="text-[10px] text-white/30 uppercase">{c.rule} rules · {c.source_engine}</div>
+                                    </td>
+                                    <td className={cn('font-sans uppercase text-[10px]', PRIORITY_COLORS[c.priority])}>{c.priority}</td>
+                                    <td className="font-sans text-[10px]">{c.time_sensitivity.replace(/_/g, ' ')}</td>
+                                    <td>{Math.round(c.confidence * 100)}%</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {record.candidates.length > RUNNERS_UP_SHOWN + 1 && (
+                        <div className="text-[10px] text-white/30 mt-1">
+                            +{record.candidates.length - RUNNERS_UP_SHOWN - 1} lower-ranked actions
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div>
+                <div className="text-[10px] uppercase tracking-wider text-white/40 mb-2">Inputs</div>
+                <div className="grid grid-cols-3 gap-2">
+                    {INPUT_LABELS.map(({ key, label, unit }) => (
+                        <div key={key} className="p-2 bg-white/5 rounded-lg">
+                            <div className="text-[10px] uppercase tracking-wider text-white/40">{label}</div>
+                            <div className="text-sm font-semibold text-white">{formatInput(record.inputs[key])}{unit && <span className="text-white/40 text-[10px] ml-0.5">{unit}</span>}</div>
+                        </div>
+                    ))}
+                </div>
+                <div className="text-[10px] text-white/30 mt-2">
+                    {record.inputs.next_session_hours !== null
+                        ? `Next session in ${record.inputs.next_session_hours}h`
+                        : 'No session scheduled'}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export const DecisionLogSheet: React.FC<DecisionLogSheetProps> = ({ onClose }) => {
+    const log = useMemo(() => loadDecisionLog(), []);
+    const [index, setIndex] = useState(0);
+    const record = log[index];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+            <motion.div initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
+                className="w-full max-w-xl bg-background border border-white/10 rounded-2xl overflow-hidden">
+                <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-cyan-500/20"><ScrollText className="w-5 h-5 text-cyan-400" /></div>
+                        <div>
+                            <h3 className="font-bold text-lg text-white">Decision Log</h3>
+                            <p className="text-[10px] text-white/40 uppercase tracking-widest">Why each command was chosen</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-white/40 hover:text-white"><X className="w-5 h-5" /></button>
+                </div>
+
+                {log.length === 0 ? (
+                    <div className="p-6 text-sm text-white/50">No decisions recorded yet. One is added whenever the commander's action or its inputs change.</div>
+                ) : (
+                    <>
+                        <div className="px-6 py-3 border-b border-white/10 flex items-center gap-3">
+                            <button disabled={index >= log.length - 1} onClick={() => setIndex(i => i + 1)}
+                                className="text-white/60 hover:text-white disabled:opacity-30"><ChevronLeft className="w-4 h-4" /></button>
+                            <select value={index} onChange={e => setIndex(Number(e.target.value))}
+                                className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-white">
+                                {log.map((r, i) => (
+                                    <option key={r.timestamp} value={i}>
+                                        {formatTime(r)} · {r.candidates[0]?.title ?? 'No action'}
+                                    </option>
+                                ))}
+                            </select>
+                            <button disabled={index === 0} onClick={() => setIndex(i => i - 1)}
+                                className="text-white/60 hover:text-white disabled:opacity-30"><ChevronRight className="w-4 h-4" /></button>
+                        </div>
+                        <div className="p-6 max-h-[65vh] overflow-y-auto">
+                            <DecisionDetail record={record} />
+                        </div>
+                    </>
+                )}
+            </motion.div>
+        </div>
+    );
+};
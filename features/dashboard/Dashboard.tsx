@@ -14,9 +14,11 @@ import { SentientInsightsCard } from "../../components/SentientInsightsCard";
 import { LearningInsightsCard } from "../../components/LearningInsightsCard";
 import { getTrendData } from "../../services/weeklyReportService";
 import { InsightsPanel } from "./InsightsPanel";
+import { SquadDashboard } from "../team/SquadDashboard";
+import { isTeamMode, getActiveAthlete } from "../../services/team/teamService";
 import {
   LayoutDashboard, Zap, Heart, Brain, BarChart2, Calendar,
-  Activity, Moon, Flame, TrendingUp, Sparkles, ArrowRight, AlertTriangle, Check, FlaskConical, User, TestTube, Dna, Ghost, Target, Trophy
+  Activity, Moon, Flame, TrendingUp, Sparkles, ArrowRight, AlertTriangle, Check, FlaskConical, User, TestTube, Dna, Ghost, Target, Trophy, Users
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { GlassCard, Button, cn } from "../../components/ui";
@@ -166,7 +168,9 @@ export const Dashboard = () => {
   const { state, dispatch, sync } = useSentient();
   const { active_tab, mindspace, fuel, sleep, physical_load, orchestrator, notifications } = state;
 
+  const teamMode = isTeamMode();
   const tabs = [
+    ...(teamMode ? [{ id: "squad", label: "Squad", icon: Users }] : []),
     { id: "home", label: "Home", icon: LayoutDashboard },
     { id: "commander", label: "Commander", icon: Zap },
     { id: "performance", label: "Perf Labs", icon: BarChart2 },
@@ -249,6 +253,17 @@ export const Dashboard = () => {
               <h1 className="text-xl font-bold tracking-widest font-mono">SENTIENT<span className="text-primary">OS</span></h1>
             </button>
 
+            {/* Team mode: whose data is open */}
+            {teamMode && (
+              <button
+                onClick={() => dispatch({ type: 'SET_TAB', payload: 'squad' })}
+                className="ml-auto mr-2 flex items-center gap-2 px-3 py-2 rounded-xl bg-indigo-500/10 border border-indigo-500/20 hover:bg-indigo-500/20 transition-all"
+              >
+                <Users className="w-4 h-4 text-indigo-400" />
+                <span className="text-sm font-medium text-white/80">{getActiveAthlete().name}</span>
+              </button>
+            )}
+
             {/* Profile Button */}
             <button
               onClick={() => setIsProfileOpen(true)}
@@ -421,6 +436,7 @@ export const Dashboard = () => {
             </motion.div>
           )}
 
+          {active_tab === "squad" && teamMode && <SquadDashboard />}
           {active_tab === "commander" && <TimelineTab />}
           {active_tab === "fuel" && <FuelTab />}
           {active_tab === "body" && <BodyTab />}
@@ -26,6 +26,9 @@ import { analyzeCircadian } from '../../experts/longevity/CircadianEngine';
 import { analyzeFuel } from '../../experts/nutritionist/FuelWindowEngine';
 import { discoverPatterns } from '../../experts/orchestrator/PatternDiscoveryEngine';
 import { analyzeLoad, getTrainingReadiness } from '../../services/engines-index';
+import { shouldSuppress } from '../../services/provenance';
+import { DataProvenance } from '../../types/provenance';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 
 // ============================================================================
 // COMPACT METRIC CARD
@@ -38,6 +41,7 @@ interface MetricCardProps {
     subValue?: string;
     status: 'good' | 'warning' | 'danger' | 'neutral';
     trend?: 'up' | 'down' | 'stable';
+    provenance?: DataProvenance;
     onClick?: () => void;
 }
 
@@ -48,6 +52,7 @@ const CompactMetricCard: React.FC<MetricCardProps> = ({
     subValue,
     status,
     trend,
+    provenance,
     onClick
 }) => {
     const statusColors = {
@@ -83,6 +88,7 @@ const CompactMetricCard: React.FC<MetricCardProps> = ({
                 {subValue && (
                     <div className="text-[10px] text-white/50 mt-0.5">{subValue}</div>
                 )}
+                <ProvenanceBadge provenance={provenance} className="mt-1" />
             </div>
 
             <div className="opacity-0 group-hover:opacity-100 transition-opacity mt-2 flex items-center gap-1 text-[10px] text-primary">
@@ -202,6 +208,10 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({ onNavigate, compac
 
     const { hrv, load, recovery, circadian, fuel, patterns, readiness } = analysis;
 
+    // Mock load history and mock correlations are only shown in Demo Mode
+    const hideLoad = shouldSuppress(load.provenance, state.ui_config?.demo_mode);
+    const hidePatterns = shouldSuppress(patterns?.provenance, state.ui_config?.demo_mode);
+
     // Derive status from each system
     const getHRVStatus = () => {
         if (hrv.zone === 'optimal') return 'good';
@@ -234,14 +244,16 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({ onNavigate, compac
                     subValue={hrv.zone}
                     status={getHRVStatus()}
                     trend={hrv.trend_7d === 'improving' ? 'up' : hrv.trend_7d === 'declining' ? 'down' : 'stable'}
+                    provenance={hrv.provenance}
                     onClick={() => onNavigate?.('recovery')}
                 />
                 <CompactMetricCard
                     icon={Activity}
                     label="ACWR"
-                    value={load.acwr.acwr_rolling.toFixed(2)}
-                    subValue={load.acwr.zone}
-                    status={getLoadStatus()}
+                    value={hideLoad ? '—' : load.acwr.acwr_rolling.toFixed(2)}
+                    subValue={hideLoad ? 'Log sessions to unlock' : load.acwr.zone}
+                    status={hideLoad ? 'neutral' : getLoadStatus()}
+                    provenance={hideLoad ? undefined : load.provenance}
                     onClick={() => onNavigate?.('performance')}
                 />
                 <CompactMetricCard
@@ -270,15 +282,17 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({ onNavigate, compac
                     subValue={`${hrv.zone} • ${hrv.trend_7d}`}
                     status={getHRVStatus()}
                     trend={hrv.trend_7d === 'improving' ? 'up' : hrv.trend_7d === 'declining' ? 'down' : 'stable'}
+                    provenance={hrv.provenance}
                     onClick={() => onNavigate?.('recovery')}
                 />
 
                 <CompactMetricCard
                     icon={Activity}
                     label="Load"
-                    value={load.acwr.acwr_rolling.toFixed(2)}
-                    subValue={`${load.acwr.zone} zone`}
-                    status={getLoadStatus()}
+                    value={hideLoad ? '—' : load.acwr.acwr_rolling.toFixed(2)}
+                    subValue={hideLoad ? 'Log sessions to unlock' : `${load.acwr.zone} zone`}
+                    status={hideLoad ? 'neutral' : getLoadStatus()}
+                    provenance={hideLoad ? undefined : load.provenance}
                     onClick={() => onNavigate?.('performance')}
                 />
 
@@ -297,6 +311,7 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({ onNavigate, compac
                     value={`${circadian?.current_phase?.physical_performance ?? 0}%`}
                     subValue={(circadian?.current_phase?.phase ?? 'unknown').replace(/_/g, ' ')}
                     status={(circadian?.current_phase?.physical_performance ?? 0) >= 70 ? 'good' : 'neutral'}
+                    provenance={circadian?.provenance}
                     onClick={() => onNavigate?.('timeline')}
                 />
 
@@ -313,9 +328,10 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({ onNavigate, compac
                 <CompactMetricCard
                     icon={Sparkles}
                     label="Patterns"
-                    value={patterns?.patterns?.length ?? 0}
-                    subValue={`${patterns?.new_discoveries?.length ?? 0} new insights`}
-                    status={(patterns?.new_discoveries?.length ?? 0) > 0 ? 'good' : 'neutral'}
+                    value={hidePatterns ? '—' : patterns?.patterns?.length ?? 0}
+                    subValue={hidePatterns ? 'Needs 2 weeks of history' : `${patterns?.new_discoveries?.length ?? 0} new insights`}
+                    status={!hidePatterns && (patterns?.new_discoveries?.length ?? 0) > 0 ? 'good' : 'neutral'}
+                    provenance={hidePatterns ? undefined : patterns?.provenance}
                     onClick={() => onNavigate?.('performance')}
                 />
             </div>
@@ -336,7 +352,7 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({ onNavigate, compac
             )}
 
             {/* Pattern Highlights */}
-            {(patterns?.new_discoveries?.length ?? 0) > 0 && (
+            {!hidePatterns && (patterns?.new_discoveries?.length ?? 0) > 0 && (
                 <GlassCard className="p-4 bg-purple-500/10 border-l-4 border-purple-500">
                     <div className="flex items-center gap-3">
                         <Sparkles className="w-5 h-5 text-purple-400" />
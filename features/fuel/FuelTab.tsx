@@ -17,6 +17,7 @@ import { getGoalFuelScience } from "../../experts/nutritionist/goalFuelScience";
 import { generateFuelWindows, DayFuelProtocol } from "../../experts/nutritionist/SessionFuelProtocolEngine";
 import { generateSupplementProtocol, getRecommendedSupplements, SUPPLEMENT_DATABASE, DaySupplementProtocol, Supplement } from "../../experts/nutritionist/SupplementProtocolEngine";
 import { Pill, Clock } from "lucide-react";
+import { notificationScheduler } from "../../services/notifications/notificationScheduler";
 
 // ============================================================================
 // COMPONENT: REACTOR CORE (COMPACT VERSION)
@@ -128,8 +129,12 @@ export const FuelTab = () => {
         return generateFuelWindows(sessions, userGoal.primary, bodyComp.weight_kg);
     }, [state.timeline?.sessions, userGoal.primary, bodyComp.weight_kg]);
 
-    // Supplement stack - user's selected supplements with session-aware timing
-    const [userSupplementIds, setUserSupplementIds] = useState<string[]>(['vitamin_d', 'omega_3', 'magnesium']);
+    // Supplement stack - user's selected supplements with session-aware timing, saved for reminders
+    const [userSupplementIds, setSupplementIds] = useState<string[]>(() => notificationScheduler.getSupplementStack());
+    const setUserSupplementIds = (ids: string[]) => {
+        setSupplementIds(ids);
+        notificationScheduler.setSupplementStack(ids);
+    };
     const supplementProtocol: DaySupplementProtocol = useMemo(() => {
         const sessions = state.timeline?.sessions || [];
         return generateSupplementProtocol(userSupplementIds, sessions, userGoal.primary);
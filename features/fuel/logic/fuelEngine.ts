@@ -6,6 +6,8 @@ import { PCOSEngine, T1DEngine } from "./clinicalEngines";
 import { PeriodizationEngine } from "./periodizationEngine";
 import { BioavailabilityEngine } from "./bioavailabilityEngine";
 import { GeneticEngine } from "./geneticEngine";
+import { clock } from "../../../services/clock";
+import { engineRegistry, snapshotCoverage, stateSource } from "../../../services/engineRegistry";
 
 export class FuelEngine {
 
@@ -169,7 +171,7 @@ export class FuelEngine {
         }
 
         if (fuel.entries.length === 0) {
-            const currentHour = new Date().getHours();
+            const currentHour = clock.now().getHours();
             if (currentHour > 11) {
                 penalty = Math.max(penalty, 20);
                 score -= 10;
@@ -199,7 +201,7 @@ export class FuelEngine {
     }
 
     private static determineTemporalContext(sessions: Session[]): { contextType: FuelContextType, nextSession: Session | null, timeToNext: number } {
-        const now = new Date();
+        const now = clock.now();
         const currentMinutes = now.getHours() * 60 + now.getMinutes();
         
         const active = sessions.filter(s => !s.completed && !s.is_interstitial);
@@ -348,7 +350,7 @@ export class FuelEngine {
         const maxCapacity = weight * 6; 
         let current = maxCapacity * 0.8; 
 
-        const now = new Date();
+        const now = clock.now();
         const awakeHours = Math.max(0, now.getHours() - 7);
         current -= (awakeHours * 5);
 
@@ -463,3 +465,12 @@ export class FuelEngine {
         };
     }
 }
+
+engineRegistry.register({
+    id: 'fuel',
+    label: 'Fuel Engine',
+    domain: 'fuel',
+    instance: FuelEngine,
+    dataSource: (_, state) => stateSource(state),
+    coverage: () => snapshotCoverage()
+});
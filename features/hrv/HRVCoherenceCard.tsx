@@ -7,17 +7,21 @@
  * - Personal baseline comparison
  * - Plain English interpretation
  * - Training recommendation
+ * - RR-interval import for measured spectral and nonlinear metrics
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
     Heart, TrendingUp, TrendingDown, Minus,
-    Activity, Zap, Moon, AlertTriangle, Info
+    Activity, Zap, Moon, AlertTriangle, Info, Upload
 } from 'lucide-react';
-import { GlassCard, cn } from '../../components/ui';
+import { GlassCard, Button, cn } from '../../components/ui';
 import { analyzeHRV } from '../../experts/recovery/HRVAnalysisEngine';
 import { HRVAnalysis, ELITE_REFERENCE_RANGES } from '../../types/hrv';
+import { useSentient } from '../../store/SentientContext';
+import { RRImportSheet } from './RRImportSheet';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 
 // ============================================================================
 // SUB-COMPONENTS
@@ -131,7 +135,23 @@ export const HRVCoherenceCard: React.FC<HRVCoherenceCardProps> = ({
     className,
     compact = false
 }) => {
-    const analysis = useMemo(() => analyzeHRV(), []);
+    const { state, sync } = useSentient();
+    const [showImport, setShowImport] = useState(false);
+    const [dataVersion, setDataVersion] = useState(0);
+    // dataVersion re-reads the history store after an RR import
+    const analysis = useMemo(() => analyzeHRV(state), [state, dataVersion]);
+    const autonomic = state.recovery.autonomic;
+    const measured = autonomic?.measured_at && autonomic.rmssd === analysis.current.rmssd ? autonomic : undefined;
+
+    const importSheet = showImport && (
+        <RRImportSheet
+            onClose={() => setShowImport(false)}
+            onImported={recording => {
+                setDataVersion(v => v + 1);
+                sync('hrv_recording_imported', recording);
+            }}
+        />
+    );
 
     const {
         current,
@@ -144,7 +164,8 @@ export const HRVCoherenceCard: React.FC<HRVCoherenceCardProps> = ({
         autonomic_balance,
         deviation_percentage,
         history_7d,
-        patterns
+        patterns,
+        provenance
     } = analysis;
 
     // Prepare sparkline data
@@ -175,6 +196,26 @@ export const HRVCoherenceCard: React.FC<HRVCoherenceCardProps> = ({
         }
     };
 
+    if (!analysis.hasData || !zone_info) {
+        return (
+            <GlassCard className={cn(compact ? 'p-4' : 'p-6', className)}>
+                <div className="flex items-center gap-3 mb-4">
+                    <div className="p-3 rounded-xl bg-red-500/20">
+                        <Heart className="w-6 h-6 text-red-400" />
+                    </div>
+                    <div>
+                        <h3 className="font-semibold text-white">HRV Coherence</h3>
+                        <p className="text-xs text-muted-foreground">{training_recommendation}</p>
+                    </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setShowImport(true)}>
+                    <Upload className="w-3 h-3 mr-2" /> Import RR Intervals
+                </Button>
+                {importSheet}
+            </GlassCard>
+        );
+    }
+
     if (compact) {
         return (
             <GlassCard className={cn('p-4', className)}>
@@ -188,6 +229,7 @@ export const HRVCoherenceCard: React.FC<HRVCoherenceCardProps> = ({
                             <div className="text-xl font-bold" style={{ color: zone_info.color }}>
                                 {current.rmssd.toFixed(0)}ms
                             </div>
+                            <ProvenanceBadge provenance={provenance} />
                         </div>
                     </div>
                     <ZoneIndicator zone={zone} color={zone_info.color} label={zone_info.label} />
@@ -208,9 +250,16 @@ export const HRVCoherenceCard: React.FC<HRVCoherenceCardProps> = ({
                     <div>
                         <h3 className="font-semibold text-white">HRV Coherence</h3>
                         <p className="text-xs text-muted-foreground">Heart Rate Variability Analysis</p>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
-                <TrendBadge trend={trend_7d} />
+                <div className="flex items-center gap-3">
+                    <TrendBadge trend={trend_7d} />
+                    <button onClick={() => setShowImport(true)} title="Import RR intervals"
+                        className="text-white/40 hover:text-white transition-colors">
+                        <Upload className="w-4 h-4" />
+                    </button>
+                </div>
             </div>
 
             {/* Main HRV Display */}
@@ -361,12 +410,28 @@ export const HRVCoherenceCard: React.FC<HRVCoherenceCardProps> = ({
                         baseline={baseline.sdnn_7d_avg}
                         status="neutral"
                     />
-                    <MetricRow
-                        label="LF/HF Ratio"
-                        value={current.lf_hf_ratio}
-                        unit=""
-                        status={current.lf_hf_ratio > 2.5 ? 'warning' : 'neutral'}
-                    />
+                    {measured?.lf_hf_ratio !== undefined && (
+                        <MetricRow
+                            label="LF/HF Ratio"
+                            value={current.lf_hf_ratio}
+                            unit=""
+                            status={current.lf_hf_ratio > 2.5 ? 'warning' : 'neutral'}
+                        />
+                    )}
+                    {measured?.pnn50 !== undefined && (
+                        <MetricRow label="pNN50" value={measured.pnn50} unit="%" status="neutral" />
+                    )}
+                    {measured?.sd1 !== undefined && measured.sd2 !== undefined && (
+                        <MetricRow label="SD1 / SD2" value={measured.sd1 / measured.sd2} unit="" status="neutral" />
+                    )}
+                    {measured?.dfa_alpha1 !== undefined && (
+                        <MetricRow
+                            label="DFA-α1"
+                            value={measured.dfa_alpha1}
+                            unit=""
+                            status={measured.dfa_alpha1 >= 0.75 ? 'good' : 'warning'}
+                        />
+                    )}
                     <MetricRow
                         label="Mean HR"
                         value={current.hr_mean}
@@ -379,8 +444,14 @@ export const HRVCoherenceCard: React.FC<HRVCoherenceCardProps> = ({
                         unit="%"
                         status={recovery_readiness >= 70 ? 'good' : recovery_readiness >= 50 ? 'neutral' : 'warning'}
                     />
+                    {measured && (
+                        <div className="pt-2 text-[10px] text-muted-foreground">
+                            Measured from RR intervals · {new Date(measured.measured_at!).toLocaleString()}
+                        </div>
+                    )}
                 </div>
             </details>
+            {importSheet}
         </GlassCard>
     );
 };
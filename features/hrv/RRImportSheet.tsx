@@ -0,0 +1,181 @@
+/**
+ * RR Import Sheet
+ *
+ * Pick or paste a beat-to-beat export (Polar, Kubios, Elite HRV), preview
+ * the artifact correction and computed HRV, then record it. Morning and
+ * overnight recordings become the day's HRV measurement.
+ */
+
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { HeartPulse, X, Upload, Check, AlertTriangle, ArrowRight } from 'lucide-react';
+import { Button, cn } from '../../components/ui';
+import { RRRecording } from '../../types/rr-import';
+import { HRVReading } from '../../types/hrv';
+import { parseRRRecording, commitRRRecording, isDailyMeasurement } from '../../services/import/rrIntervalImporter';
+import { toDateKey } from '../../experts/performance/loadHistoryStore';
+
+interface RRImportSheetProps {
+    onClose: () => void;
+    onImported: (recording: RRRecording) => void;
+}
+
+const CONTEXT_LABELS: Record<HRVReading['measurement_context'], string> = {
+    morning: 'Morning',
+    night: 'Overnight',
+    pre_training: 'Pre-training',
+    post_training: 'Post-training',
+    evening: 'Evening'
+};
+
+const QUALITY_COLORS: Record<RRRecording['quality'], string> = {
+    good: 'text-green-400',
+    acceptable: 'text-yellow-400',
+    poor: 'text-red-400'
+};
+
+const Metric = ({ label, value, unit }: { label: string; value?: number; unit?: string }) => (
+    <div className="p-2 bg-white/5 rounded-lg">
+        <div className="text-[10px] uppercase tracking-wider text-white/40">{label}</div>
+        <div className="text-sm font-semibold text-white">
+            {value === undefined ? '—' : value.toFixed(value < 10 ? 2 : 0)}{value !== undefined && unit}
+        </div>
+    </div>
+);
+
+export const RRImportSheet: React.FC<RRImportSheetProps> = ({ onClose, onImported }) => {
+    const [text, setText] = useState('');
+    const [fileName, setFileName] = useState<string | undefined>();
+    const [date, setDate] = useState(() => toDateKey(new Date()));
+    const [time, setTime] = useState(() => new Date().toTimeString().slice(0, 5));
+    const [context, setContext] = useState<HRVReading['measurement_context']>('morning');
+    const [preview, setPreview] = useState<RRRecording | null>(null);
+    const [error, setError] = useState('');
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const analyse = (input: string, sourceFile = fileName) => {
+        setError('');
+        setPreview(null);
+        try {
+            setPreview(parseRRRecording(input, { date, time, context, source_file: sourceFile }));
+        } catch (e: any) {
+            setError(e?.message || 'Could not read RR intervals');
+        }
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const content = await file.text();
+        setFileName(file.name);
+        setText(content);
+        analyse(content, file.name);
+    };
+
+    const handleImport = () => {
+        if (!preview) return;
+        commitRRRecording(preview);
+        onImported(preview);
+        onClose();
+    };
+
+    const m = preview?.metrics;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+            <input type="file" ref={fileInputRef} className="hidden" accept=".txt,.csv,.rr,.hrm" onChange={handleFile} />
+
+            <motion.div initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
+                className="w-full max-w-xl bg-background border border-white/10 rounded-2xl overflow-hidden">
+                <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-red-500/20"><HeartPulse className="w-5 h-5 text-red-400" /></div>
+                        <div>
+                            <h3 className="font-bold text-lg text-white">Import RR Intervals</h3>
+                            <p className="text-[10px] text-white/40 uppercase tracking-widest">Polar · Kubios · Elite HRV</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-white/40 hover:text-white"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+                    <textarea value={text} rows={5}
+                        onChange={e => { setText(e.target.value); setFileName(undefined); setPreview(null); }}
+                        placeholder={'One interval per line, ms or seconds\n812\n798\n845'}
+                        className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-white font-mono" />
+
+                    <div className="grid grid-cols-3 gap-3">
+                        <label className="text-[10px] uppercase tracking-wider text-white/40">
+                            Date
+                            <input type="date" value={date} onChange={e => { setDate(e.target.value); setPreview(null); }}
+                                className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                        </label>
+                        <label className="text-[10px] uppercase tracking-wider text-white/40">
+                            Time
+                            <input type="time" value={time} onChange={e => { setTime(e.target.value); setPreview(null); }}
+                                className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                        </label>
+                        <label className="text-[10px] uppercase tracking-wider text-white/40">
+                            Context
+                            <select value={context} onChange={e => { setContext(e.target.value as HRVReading['measurement_context']); setPreview(null); }}
+                                className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white">
+                                {Object.entries(CONTEXT_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </label>
+                    </div>
+
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                            <Upload className="w-3 h-3" /> Choose File
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={!text.trim()} onClick={() => analyse(text)}>
+                            <ArrowRight className="w-3 h-3" /> Analyse
+                        </Button>
+                        {fileName && <span className="text-[10px] text-white/40 self-center truncate">{fileName}</span>}
+                    </div>
+
+                    {error && (
+                        <div className="text-xs text-red-300 flex items-center gap-2"><AlertTriangle className="w-3 h-3" /> {error}</div>
+                    )}
+
+                    {preview && m && (
+                        <div className="space-y-3">
+                            <div className="text-[10px] uppercase tracking-wider text-white/40">
+                                {m.beats} beats · {Math.round(m.duration_s / 60 * 10) / 10} min · {preview.artifacts.corrected_beats} corrected
+                                ({preview.artifacts.corrected_percent.toFixed(1)}%) · <span className={cn(QUALITY_COLORS[preview.quality])}>{preview.quality}</span>
+                            </div>
+                            <div className="grid grid-cols-4 gap-2">
+                                <Metric label="RMSSD" value={m.rmssd} unit="ms" />
+                                <Metric label="SDNN" value={m.sdnn} unit="ms" />
+                                <Metric label="pNN50" value={m.pnn50} unit="%" />
+                                <Metric label="Mean HR" value={m.hr_mean} unit="bpm" />
+                                <Metric label="LF" value={m.lf_power} unit="ms²" />
+                                <Metric label="HF" value={m.hf_power} unit="ms²" />
+                                <Metric label="LF/HF" value={m.lf_hf_ratio} />
+                                <Metric label="DFA-α1" value={m.dfa_alpha1} />
+                                <Metric label="SD1" value={m.sd1} unit="ms" />
+                                <Metric label="SD2" value={m.sd2} unit="ms" />
+                            </div>
+                            {preview.warnings.map((warning, i) => (
+                                <div key={i} className="text-[10px] text-amber-400 flex items-center gap-2">
+                                    <AlertTriangle className="w-3 h-3" /> {warning}
+                                </div>
+                            ))}
+                            <p className="text-[10px] text-white/40">
+                                {isDailyMeasurement(preview)
+                                    ? 'Recorded as the HRV measurement for this day.'
+                                    : 'Kept with your recordings; the daily HRV stays as it is.'}
+                            </p>
+                            <Button size="sm" onClick={handleImport}>
+                                <Check className="w-3 h-3" /> Record
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default RRImportSheet;
@@ -17,6 +17,10 @@ import {
 } from 'lucide-react';
 import { GlassCard, cn } from '../../components/ui';
 import { analyzeLoad } from '../../services/LoadManagementEngine';
+import { shouldSuppress } from '../../services/provenance';
+import { useSentient } from '../../store/SentientContext';
+import { ConnectWearableCard } from '../../ui/shared/ConnectWearableCard';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 import { ACWR_ZONES } from '../../types/load-management';
 
 // ============================================================================
@@ -265,8 +269,21 @@ export const LoadCockpit: React.FC<LoadCockpitProps> = ({
     className,
     compact = false
 }) => {
+    const { state } = useSentient();
     const analysis = useMemo(() => analyzeLoad(), []);
 
+    // Mock load history only stands in for the athlete's in Demo Mode
+    if (shouldSuppress(analysis.provenance, state.ui_config?.demo_mode)) {
+        return (
+            <ConnectWearableCard
+                domain="performance"
+                className={className}
+                compact={compact}
+                customMessage="Log or import sessions to see your ACWR."
+            />
+        );
+    }
+
     const {
         acwr,
         chronic_profile,
@@ -274,7 +291,8 @@ export const LoadCockpit: React.FC<LoadCockpitProps> = ({
         suggested_session_type,
         recommendations,
         injury_risk_level,
-        contributing_factors
+        contributing_factors,
+        provenance
     } = analysis;
 
     // Build trajectory data (last 14 days of ACWR estimates)
@@ -319,6 +337,7 @@ export const LoadCockpit: React.FC<LoadCockpitProps> = ({
                         )}>
                             {acwr.zone_info.injury_risk_multiplier}x risk
                         </div>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
                 <ZoneBar acwr={acwr.acwr_rolling} />
@@ -337,6 +356,7 @@ export const LoadCockpit: React.FC<LoadCockpitProps> = ({
                     <div>
                         <h3 className="font-semibold text-white">Load Cockpit</h3>
                         <p className="text-xs text-muted-foreground">Acute:Chronic Workload Ratio</p>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
                 <div className={cn(
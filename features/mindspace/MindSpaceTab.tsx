@@ -58,9 +58,16 @@ import {
     ImprovementGoal,
     MotivationalCard as MotivationalCardType
 } from "../../experts/mental/MotivationEngine";
+import {
+    COGNITIVE_TESTS,
+    MINDSPACE_SCORE_FIELDS,
+    TestResult
+} from "../../experts/mental/CognitiveTestDatabase";
+import { getPersonalBest, getTestHistory, loadCognitiveProfile } from "../../experts/mental/cognitiveProfileStore";
+import { PVTEngine } from "../../experts/mental/engines/pvtEngine";
 
 // Legacy Components (still used)
-import { CognitiveSuite } from "./CognitiveSuite";
+import { CognitiveSuite, scoreUnit } from "./CognitiveSuite";
 import { WebGLNebula } from "./Nebula";
 
 // Import shared design system components
@@ -314,6 +321,7 @@ export const MindSpaceTab = () => {
     // Session states
     const [activeBreathwork, setActiveBreathwork] = useState<string | null>(null);
     const [activeTest, setActiveTest] = useState<string | null>(null);
+    const [cognitiveProfile, setCognitiveProfile] = useState(loadCognitiveProfile);
     const [journalContext, setJournalContext] = useState<JournalContext | null>(null);
     const [showEmotionPicker, setShowEmotionPicker] = useState(false);
     const [activeEmotionTool, setActiveEmotionTool] = useState<EmotionRegulationTool | null>(null);
@@ -424,20 +432,23 @@ export const MindSpaceTab = () => {
         setJournalContext(null);
     }, [mentalState, dispatch]);
 
-    const handleTestComplete = useCallback((result: any) => {
-        const updatedScores = {
-            ...mindspace.cognitive_scores,
-            [activeTest === 'reaction' ? 'reaction_time' : activeTest === 'memory' ? 'memory_span' : 'focus_density']: result.score
-        };
-
-        dispatch({
-            type: 'UPDATE_MINDSPACE_STATE_VECTOR',
-            payload: { cognitive_scores: updatedScores }
-        });
+    const handleTestComplete = useCallback((result: TestResult) => {
+        const field = MINDSPACE_SCORE_FIELDS[result.test_id as keyof typeof MINDSPACE_SCORE_FIELDS];
+        if (field) {
+            dispatch({
+                type: 'UPDATE_MINDSPACE_STATE_VECTOR',
+                payload: { cognitive_scores: { ...mindspace.cognitive_scores, [field]: result.score } }
+            });
+        }
+        // The PVT feeds the state vector, readiness and the red-day check through the sentient loop
+        if (result.test_id === 'pvt') {
+            dispatch({ type: 'UPDATE_MINDSPACE_STATE', payload: { pvt: PVTEngine.toReading(result) } });
+        }
 
         setActiveTest(null);
-        sync('cognitive_test_completed', { testId: activeTest, result: result.score });
-    }, [activeTest, mindspace.cognitive_scores, dispatch, sync]);
+        setCognitiveProfile(loadCognitiveProfile());
+        sync('cognitive_test_completed', { testId: result.test_id, result: result.score });
+    }, [mindspace.cognitive_scores, dispatch, sync]);
 
     // =====================================================
     // RENDER
@@ -661,25 +672,27 @@ export const MindSpaceTab = () => {
                     </h3>
 
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                        {['reaction', 'memory', 'focus'].map(testId => {
-                            const testInfo: any = {
-                                reaction: { emoji: '⚡', name: 'Reaction Test', desc: 'CNS Speed' },
-                                memory: { emoji: '🧠', name: 'Memory Test', desc: 'Working Memory' },
-                                focus: { emoji: '👁️', name: 'Focus Test', desc: 'Sustained Attention' }
-                            };
-                            const info = testInfo[testId];
+                        {COGNITIVE_TESTS.map(test => {
+                            const last = getTestHistory(test.id, cognitiveProfile).pop();
+                            const best = getPersonalBest(test, cognitiveProfile);
+                            const unit = scoreUnit(test);
 
                             return (
                                 <GlassCard
-                                    key={testId}
+                                    key={test.id}
                                     className="p-4 cursor-pointer hover:bg-white/10 transition-all"
-                                    onClick={() => setActiveTest(testId)}
+                                    onClick={() => setActiveTest(test.id)}
                                 >
                                     <div className="flex items-center gap-3">
-                                        <span className="text-2xl">{info.emoji}</span>
+                                        <span className="text-2xl">{test.emoji}</span>
                                         <div className="flex-1">
-                                            <div className="font-medium text-white">{info.name}</div>
-                                            <div className="text-xs text-white/50">{info.desc}</div>
+                                            <div className="font-medium text-white">{test.name}</div>
+                                            <div className="text-xs text-white/50">{test.measures[0]}</div>
+                                            {last && (
+                                                <div className="text-[10px] font-mono text-white/40 mt-1">
+                                                    Last {last.score}{unit} · Best {best?.score}{unit}
+                                                </div>
+                                            )}
                                         </div>
                                         <Play className="w-4 h-4 text-white/30" />
                                     </div>
@@ -793,7 +806,7 @@ export const MindSpaceTab = () => {
 
                 {activeTest && (
                     <CognitiveSuite
-                        type={activeTest as any}
+                        testId={activeTest}
                         onExit={() => setActiveTest(null)}
                         onComplete={handleTestComplete}
                     />
@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useLayoutEffect, useReducer, useRef, useState } from "react";
+import { Play } from "lucide-react";
+import { Button, cn } from "../../../components/ui";
+import { CognitiveTestConfig } from "../../../experts/mental/CognitiveTestDatabase";
+import { TrialRecord } from "../../../types/cognitive-battery";
+import { TrialSession } from "./trialSession";
+import { ResponseEvent, TrialTestDefinition } from "./types";
+
+// =========================================================
+// TRIAL RUNNER - Drives any TrialTestDefinition
+// =========================================================
+
+type Stage = "intro" | "foreperiod" | "stimulus" | "feedback" | "ready" | "done";
+
+const FEEDBACK_MS = 700;
+const INTER_TRIAL_MS = 250;
+
+// Event times are on the performance.now() clock in current browsers; older ones used epoch time
+const eventTime = (event?: ResponseEvent): number => {
+    const now = performance.now();
+    return event && event.timeStamp > 0 && event.timeStamp <= now ? event.timeStamp : now;
+};
+
+const feedbackFor = (record: TrialRecord): { text: string; tone: "good" | "bad" | "neutral" } => {
+    if (record.anticipation) return { text: "Too early", tone: "bad" };
+    if (record.correct) return { text: record.rt_ms !== null ? `Correct · ${Math.round(record.rt_ms)} ms` : "Correct", tone: "good" };
+    if (record.response === null && record.expected !== null) return { text: "Missed", tone: "bad" };
+    return { text: "Not quite", tone: "neutral" };
+};
+
+interface TrialRunnerProps {
+    config: CognitiveTestConfig;
+    definition: TrialTestDefinition;
+    startLevel: number;
+    onFinish: (session: TrialSession) => void;
+}
+
+export const TrialRunner = ({ config, definition, startLevel, onFinish }: TrialRunnerProps) => {
+    const sessionRef = useRef<TrialSession | null>(null);
+    const [stage, setStageState] = useState<Stage>("intro");
+    const stageRef = useRef<Stage>("intro");
+    const [visible, setVisible] = useState(true);
+    const [feedback, setFeedback] = useState<ReturnType<typeof feedbackFor> | null>(null);
+    const [, rerender] = useReducer((n: number) => n + 1, 0);
+    const timers = useRef<number[]>([]);
+    const onFinishRef = useRef(onFinish);
+    onFinishRef.current = onFinish;
+
+    const setStage = (next: Stage) => {
+        stageRef.current = next;
+        setStageState(next);
+    };
+
+    const later = (ms: number, fn: () => void) => {
+        timers.current.push(window.setTimeout(fn, ms));
+    };
+
+    const clearTimers = () => {
+        timers.current.forEach(timer => clearTimeout(timer));
+        timers.current = [];
+    };
+
+    useEffect(() => clearTimers, []);
+
+    const runTrial = () => {
+        const session = sessionRef.current!;
+        if (session.phase === "done") {
+            setStage("done");
+            onFinishRef.current(session);
+            return;
+        }
+        setVisible(true);
+        setStage("foreperiod");
+        later(session.current!.spec.foreperiod_ms, () => setStage("stimulus"));
+    };
+
+    const finishTrial = (record: TrialRecord) => {
+        clearTimers();
+        const session = sessionRef.current!;
+        const shown = record.practice || record.anticipation || definition.feedback_every_trial ? feedbackFor(record) : null;
+        setFeedback(shown);
+        setStage("feedback");
+        later(shown ? FEEDBACK_MS : INTER_TRIAL_MS, () => {
+            setFeedback(null);
+            const wasPractice = session.phase === "practice";
+            session.advance();
+            if (wasPractice && session.phase === "test") setStage("ready");
+            else runTrial();
+        });
+    };
+
+    // Onset is the first frame that paints the stimulus; display and response windows run from there
+    useLayoutEffect(() => {
+        if (stage !== "stimulus") return;
+        const session = sessionRef.current!;
+        const spec = session.current!.spec;
+        const frame = requestAnimationFrame(at => {
+            session.markOnset(at);
+            if (spec.display_ms !== null) later(spec.display_ms, () => setVisible(false));
+            if (spec.window_ms !== null) {
+                later(spec.window_ms, () => {
+                    const record = session.expire(performance.now());
+                    if (record) finishTrial(record);
+                });
+            }
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [stage]);
+
+    const respond = useCallback((response: unknown, event?: ResponseEvent) => {
+        const session = sessionRef.current;
+        if (!session || stageRef.current !== "stimulus") return;
+        const record = session.respond(response, eventTime(event));
+        if (record) finishTrial(record);
+        else rerender();
+    }, []);
+
+    const anticipate = (event?: ResponseEvent) => {
+        const session = sessionRef.current;
+        if (!session || stageRef.current !== "foreperiod" || definition.timing.anticipation_ms === null) return;
+        const record = session.anticipate(eventTime(event));
+        if (record) finishTrial(record);
+    };
+
+    // Keyboard responses
+    useEffect(() => {
+        if (!definition.keys) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.repeat || !(e.key in definition.keys!)) return;
+            e.preventDefault();
+            if (stageRef.current === "foreperiod") anticipate(e);
+            else respond(definition.keys![e.key], e);
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [definition, respond]);
+
+    const start = () => {
+        sessionRef.current = new TrialSession(definition, config, startLevel);
+        runTrial();
+    };
+
+    const session = sessionRef.current;
+    const trial = session?.current;
+    const Stimulus = definition.Stimulus;
+    // Between trials there is no current one; count the block's finished trials instead
+    const trialNumber = trial ? trial.index + 1
+        : session?.records.filter(r => r.practice === (session.phase === "practice")).length ?? 0;
+
+    if (stage === "intro") {
+        return (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-center px-6">
+                <div className="text-5xl mb-4">{config.emoji}</div>
+                <h2 className="text-2xl font-bold mb-2">{config.name}</h2>
+                <p className="text-white/60 mb-6 max-w-md">{config.description}</p>
+                <ul className="text-sm text-white/70 space-y-1 mb-6 max-w-md">
+                    {definition.instructions.map(line => <li key={line}>{line}</li>)}
+                </ul>
+                <div className="text-[10px] uppercase tracking-widest text-white/40 mb-6">
+                    {definition.practice_trials > 0 && `${definition.practice_trials} practice · `}
+                    {definition.block_ms !== undefined ? `${Math.round(definition.block_ms / 60000)} min` : `${config.trials_per_session} trials`}
+                    {" · "}Level {Math.min(startLevel, config.levels)}/{config.levels}
+                </div>
+                <Button onClick={start}><Play className="w-4 h-4 mr-2" /> Start</Button>
+            </div>
+        );
+    }
+
+    if (stage === "ready") {
+        return (
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-center px-6">
+                <h2 className="text-2xl font-bold mb-2">Practice complete</h2>
+                <p className="text-white/60 mb-8">The test counts from here. Be fast and accurate.</p>
+                <Button onClick={runTrial}><Play className="w-4 h-4 mr-2" /> Begin test</Button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="absolute inset-0 select-none touch-none" onPointerDown={e => anticipate(e)}>
+            {session && session.phase !== "done" && (
+                <div className="absolute top-5 right-5 text-[10px] font-mono uppercase tracking-widest text-white/40 text-right z-10">
+                    <div>
+                        {session.phase === "practice" ? "Practice" : "Test"} {trialNumber}
+                        {session.phase === "test" && session.remainingMs !== null ? ` · ${Math.ceil(session.remainingMs / 1000)}s left` : `/${session.blockLength}`}
+                    </div>
+                    {config.has_adaptive && <div>Level {session.level}</div>}
+                </div>
+            )}
+
+            {stage === "foreperiod" && (
+                <div className="absolute inset-0 flex items-center justify-center text-4xl text-white/30">+</div>
+            )}
+
+            {stage === "stimulus" && trial && (
+                <Stimulus
+                    spec={trial.spec}
+                    level={session!.level}
+                    visible={visible}
+                    practice={trial.practice}
+                    pending={trial.pending}
+                    respond={respond}
+                />
+            )}
+
+            {stage === "feedback" && feedback && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                    <div className={cn(
+                        "text-2xl font-bold",
+                        feedback.tone === "good" ? "text-green-400" : feedback.tone === "bad" ? "text-red-400" : "text-white/70"
+                    )}>
+                        {feedback.text}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,248 @@
+import React, { useEffect, useRef, useState } from "react";
+import { cn } from "../../../components/ui";
+import { getTestById } from "../../../experts/mental/CognitiveTestDatabase";
+import { TrialTestDefinition, StimulusProps } from "./types";
+import { byLevel, chance, foreperiod, pick, randomInt, speedAdjustedAccuracy } from "./trialHelpers";
+
+// =========================================================
+// FOCUS TRACKING (smooth pursuit)
+// =========================================================
+
+const TRACKING_MS = (getTestById("focus_tracking")?.duration_seconds ?? 120) * 1000;
+const TRACKING_PRACTICE_MS = 10000;
+const TRACKING_REPORT_MS = 250;
+// Pointer within this many target radii counts as on target
+const TRACKING_TOLERANCE = 1.5;
+
+interface TrackingStimulus { speed: number; radius: number }
+interface TrackingSample { on_ms: number; total_ms: number }
+
+const TrackingStimulusView = ({ spec, respond }: StimulusProps<TrackingStimulus, TrackingSample>) => {
+    const { speed, radius } = spec.stimulus;
+    const areaRef = useRef<HTMLDivElement>(null);
+    const targetRef = useRef<HTMLDivElement>(null);
+    const pointer = useRef<{ x: number; y: number } | null>(null);
+    const [onTarget, setOnTarget] = useState(false);
+
+    useEffect(() => {
+        let frame = 0;
+        let start: number | null = null;
+        let last: number | null = null;
+        let lastReport = 0;
+        let onMs = 0;
+        let totalMs = 0;
+        let hitBefore = false;
+
+        const tick = (at: number) => {
+            const area = areaRef.current;
+            if (start === null) start = at;
+            if (area && last !== null) {
+                const { width, height } = area.getBoundingClientRect();
+                // Lissajous path; two frequencies so it never settles into a loop the eye can predict
+                const t = (at - start) / 1000 * speed;
+                const x = width * (0.5 + 0.4 * Math.sin(1.3 * t + 0.5));
+                const y = height * (0.5 + 0.38 * Math.sin(t));
+                if (targetRef.current) targetRef.current.style.transform = `translate(${x - radius}px, ${y - radius}px)`;
+
+                const p = pointer.current;
+                const hit = !!p && Math.hypot(p.x - x, p.y - y) <= radius * TRACKING_TOLERANCE;
+                const dt = at - last;
+                totalMs += dt;
+                if (hit) onMs += dt;
+                if (hit !== hitBefore) {
+                    hitBefore = hit;
+                    setOnTarget(hit);
+                }
+                if (at - lastReport >= TRACKING_REPORT_MS) {
+                    lastReport = at;
+                    respond({ on_ms: onMs, total_ms: totalMs });
+                }
+            }
+            last = at;
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [speed, radius, respond]);
+
+    const track = (e: React.PointerEvent) => {
+        const rect = areaRef.current!.getBoundingClientRect();
+        pointer.current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    return (
+        <div
+            ref={areaRef}
+            className="absolute inset-0 cursor-crosshair"
+            onPointerMove={track}
+            onPointerDown={track}
+            onPointerLeave={() => { pointer.current = null; }}
+        >
+            <div
+                ref={targetRef}
+                className={cn(
+                    "absolute top-0 left-0 rounded-full border-2",
+                    onTarget ? "bg-cyan-400/60 border-cyan-200 shadow-[0_0_30px_rgba(34,211,238,0.6)]" : "bg-white/10 border-white/40"
+                )}
+                style={{ width: radius * 2, height: radius * 2 }}
+            />
+        </div>
+    );
+};
+
+export const focusTracking: TrialTestDefinition<TrackingStimulus, TrackingSample> = {
+    id: "focus_tracking",
+    instructions: [
+        "Keep your finger or cursor on the moving target until time runs out.",
+        "It lights up while you are on it. Higher levels are faster and smaller."
+    ],
+    practice_trials: 1,
+    timing: { anticipation_ms: null, lapse_ms: null },
+    // Samples replace each other; the last one covers the whole run
+    collect: (_pending, sample) => sample,
+    createTrial: ({ level, max_level, practice }) => {
+        const windowMs = practice ? TRACKING_PRACTICE_MS : TRACKING_MS;
+        return {
+            stimulus: {
+                speed: byLevel(level, max_level, 60, 160) / 100,
+                radius: byLevel(level, max_level, 40, 20)
+            },
+            expected: { on_ms: windowMs, total_ms: windowMs },
+            foreperiod_ms: 1000,
+            display_ms: null,
+            window_ms: windowMs
+        };
+    },
+    isCorrect: (spec, sample) => focusTracking.grade!(spec, sample) >= 0.5,
+    grade: (_spec, sample) => sample && sample.total_ms > 0 ? sample.on_ms / sample.total_ms : 0,
+    score: summary => Math.round(summary.accuracy),
+    Stimulus: TrackingStimulusView
+};
+
+// =========================================================
+// STROOP (interference control)
+// =========================================================
+
+const STROOP_COLORS = [
+    { id: "red", label: "RED", text: "text-red-500", key: "r" },
+    { id: "blue", label: "BLUE", text: "text-blue-500", key: "b" },
+    { id: "green", label: "GREEN", text: "text-green-500", key: "g" },
+    { id: "yellow", label: "YELLOW", text: "text-yellow-400", key: "y" }
+] as const;
+
+type StroopColor = typeof STROOP_COLORS[number]["id"];
+interface StroopStimulus { word: StroopColor; ink: StroopColor }
+
+// Median time a good responder needs on a mixed Stroop block
+const STROOP_TARGET_MS = 750;
+
+const StroopStimulusView = ({ spec, respond }: StimulusProps<StroopStimulus, StroopColor>) => {
+    const ink = STROOP_COLORS.find(c => c.id === spec.stimulus.ink)!;
+    const word = STROOP_COLORS.find(c => c.id === spec.stimulus.word)!;
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <div className={cn("text-6xl font-black tracking-wider mb-12", ink.text)}>{word.label}</div>
+            <div className="grid grid-cols-2 gap-3">
+                {STROOP_COLORS.map(color => (
+                    <button
+                        key={color.id}
+                        onPointerDown={e => respond(color.id, e)}
+                        className="px-8 py-3 rounded-xl bg-white/5 border border-white/20 text-sm font-bold tracking-wider text-white"
+                    >
+                        {color.label} <span className="text-white/30 font-mono ml-1">{color.key.toUpperCase()}</span>
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const stroopTest: TrialTestDefinition<StroopStimulus, StroopColor> = {
+    id: "stroop_test",
+    instructions: [
+        "Answer with the INK colour of the word, not what the word says.",
+        "Tap the colour or press its first letter (R, B, G, Y). Higher levels show more conflicting words."
+    ],
+    practice_trials: 4,
+    timing: { anticipation_ms: 150, lapse_ms: 1500 },
+    keys: Object.fromEntries(STROOP_COLORS.map(c => [c.key, c.id])) as Record<string, StroopColor>,
+    createTrial: ({ level, max_level }) => {
+        const ink = pick(STROOP_COLORS).id;
+        const incongruent = chance(byLevel(level, max_level, 30, 80) / 100);
+        const word = incongruent ? pick(STROOP_COLORS.filter(c => c.id !== ink)).id : ink;
+        return {
+            stimulus: { word, ink },
+            expected: ink,
+            foreperiod_ms: foreperiod(400, 900),
+            display_ms: null,
+            window_ms: byLevel(level, max_level, 2500, 1200)
+        };
+    },
+    isCorrect: (spec, response) => response === spec.expected,
+    score: summary => speedAdjustedAccuracy(summary, STROOP_TARGET_MS),
+    Stimulus: StroopStimulusView
+};
+
+// =========================================================
+// PERIPHERAL VISION (useful field of view)
+// =========================================================
+
+const DIRECTIONS = 8;
+const PERIPHERAL_TARGET_MS = 1500;
+
+interface PeripheralStimulus { direction: number; eccentricity: number }
+
+// Position on the ring, in percent of the area from its centre
+const ringPosition = (direction: number, eccentricity: number) => {
+    const angle = (direction / DIRECTIONS) * 2 * Math.PI - Math.PI / 2;
+    return { left: `${50 + eccentricity * Math.cos(angle)}%`, top: `${50 + eccentricity * Math.sin(angle)}%` };
+};
+
+const PeripheralStimulusView = ({ spec, visible, respond }: StimulusProps<PeripheralStimulus, number>) => {
+    const { direction, eccentricity } = spec.stimulus;
+    return (
+        <div className="absolute inset-0">
+            <div className="absolute inset-0 flex items-center justify-center text-4xl text-white/60">+</div>
+            {visible ? (
+                <div
+                    className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-yellow-300 shadow-[0_0_20px_rgba(253,224,71,0.8)]"
+                    style={ringPosition(direction, eccentricity)}
+                />
+            ) : (
+                // Masked: answer on the ring where the target was
+                Array.from({ length: DIRECTIONS }).map((_, i) => (
+                    <button
+                        key={i}
+                        onPointerDown={e => respond(i, e)}
+                        className="absolute w-10 h-10 -ml-5 -mt-5 rounded-full bg-white/10 border border-white/30 hover:bg-white/20"
+                        style={ringPosition(i, eccentricity)}
+                    />
+                ))
+            )}
+        </div>
+    );
+};
+
+export const peripheralVision: TrialTestDefinition<PeripheralStimulus, number> = {
+    id: "peripheral_vision",
+    instructions: [
+        "Keep your eyes on the centre cross. A dot flashes somewhere around it.",
+        "When it disappears, tap the spot where it was. Higher levels flash shorter and further out."
+    ],
+    practice_trials: 3,
+    // Answers come after the mask, so speed is scored but not thresholded
+    timing: { anticipation_ms: null, lapse_ms: null },
+    createTrial: ({ level, max_level }) => {
+        const direction = randomInt(0, DIRECTIONS - 1);
+        return {
+            stimulus: { direction, eccentricity: byLevel(level, max_level, 25, 44) },
+            expected: direction,
+            foreperiod_ms: foreperiod(800, 1500),
+            display_ms: byLevel(level, max_level, 500, 100),
+            window_ms: 3000
+        };
+    },
+    isCorrect: (spec, response) => response === spec.expected,
+    score: summary => speedAdjustedAccuracy(summary, PERIPHERAL_TARGET_MS),
+    Stimulus: PeripheralStimulusView
+};
@@ -0,0 +1,167 @@
+import React from "react";
+import { cn } from "../../../components/ui";
+import { TrialRecord } from "../../../types/cognitive-battery";
+import { TrialTestDefinition, StimulusProps } from "./types";
+import { byLevel, chance, foreperiod, pick, randomInt, speedAdjustedAccuracy } from "./trialHelpers";
+
+type Side = "left" | "right";
+
+// =========================================================
+// TASK SWITCHING (magnitude / parity)
+// =========================================================
+
+type SwitchTask = "magnitude" | "parity";
+interface SwitchStimulus { digit: number; task: SwitchTask; switched: boolean }
+
+const SWITCH_DIGITS = [1, 2, 3, 4, 6, 7, 8, 9];
+// Median time a good responder needs on a mixed block, switch cost included
+const SWITCH_TARGET_MS = 900;
+
+const TASK_CUES: Record<SwitchTask, { label: string; left: string; right: string; frame: string }> = {
+    magnitude: { label: "HIGHER OR LOWER THAN 5?", left: "Lower", right: "Higher", frame: "border-sky-400/70" },
+    parity: { label: "ODD OR EVEN?", left: "Odd", right: "Even", frame: "border-amber-400/70" }
+};
+
+const SwitchStimulusView = ({ spec, respond }: StimulusProps<SwitchStimulus, Side>) => {
+    const cue = TASK_CUES[spec.stimulus.task];
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <div className="text-xs font-bold tracking-widest text-white/60 mb-4">{cue.label}</div>
+            <div className={cn("w-40 h-40 rounded-2xl border-4 flex items-center justify-center mb-10", cue.frame)}>
+                <span className="text-7xl font-black">{spec.stimulus.digit}</span>
+            </div>
+            <div className="flex gap-4">
+                {(["left", "right"] as const).map(side => (
+                    <button
+                        key={side}
+                        onPointerDown={e => respond(side, e)}
+                        className="w-36 py-3 rounded-xl bg-white/5 border border-white/20 text-sm font-bold tracking-wider"
+                    >
+                        {side === "left" ? `← ${cue.left}` : `${cue.right} →`}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const switchAnswer = ({ digit, task }: SwitchStimulus): Side =>
+    task === "magnitude" ? (digit > 5 ? "right" : "left") : (digit % 2 === 0 ? "right" : "left");
+
+export const taskSwitching: TrialTestDefinition<SwitchStimulus, Side> = {
+    id: "task_switching",
+    instructions: [
+        "Blue frame: is the number higher or lower than 5? Amber frame: is it odd or even?",
+        "Answer with the buttons or the arrow keys. Higher levels switch rules more often."
+    ],
+    practice_trials: 6,
+    timing: { anticipation_ms: 150, lapse_ms: 2000 },
+    keys: { ArrowLeft: "left", ArrowRight: "right" },
+    createTrial: ({ level, max_level, previous }) => {
+        const last = previous[previous.length - 1] as TrialRecord<SwitchStimulus, Side> | undefined;
+        const switched = !!last && chance(byLevel(level, max_level, 20, 60) / 100);
+        const task: SwitchTask = !last ? pick(["magnitude", "parity"] as const)
+            : switched ? (last.stimulus.task === "magnitude" ? "parity" : "magnitude")
+            : last.stimulus.task;
+        const stimulus = { digit: pick(SWITCH_DIGITS), task, switched };
+        return {
+            stimulus,
+            expected: switchAnswer(stimulus),
+            foreperiod_ms: foreperiod(400, 800),
+            display_ms: null,
+            window_ms: byLevel(level, max_level, 3000, 1500)
+        };
+    },
+    isCorrect: (spec, response) => response === spec.expected,
+    score: summary => speedAdjustedAccuracy(summary, SWITCH_TARGET_MS),
+    Stimulus: SwitchStimulusView
+};
+
+// =========================================================
+// DECISION SPEED (game-read scenarios)
+// =========================================================
+
+type Decision = Side | "drive";
+interface DecisionStimulus {
+    lane_open: boolean;
+    marked: Side[];                   // Teammates with a defender on them
+    clutter: { x: number; y: number }[];  // Defenders that do not change the answer
+}
+
+// Median time a good responder needs to read a scene
+const DECISION_TARGET_MS = 800;
+
+const TEAMMATES: Record<Side, { x: number; y: number }> = { left: { x: 18, y: 48 }, right: { x: 82, y: 48 } };
+
+const DecisionStimulusView = ({ spec, visible, respond }: StimulusProps<DecisionStimulus, Decision>) => {
+    const { lane_open, marked, clutter } = spec.stimulus;
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center px-6">
+            <svg viewBox="0 0 100 100" className="w-full max-w-sm aspect-square rounded-xl bg-emerald-900/40 border border-white/10 mb-6">
+                <rect x="35" y="2" width="30" height="6" fill="none" stroke="white" strokeOpacity="0.5" />
+                <line x1="0" y1="50" x2="100" y2="50" stroke="white" strokeOpacity="0.1" />
+                {visible && (
+                    <>
+                        {(["left", "right"] as const).map(side => (
+                            <circle key={side} cx={TEAMMATES[side].x} cy={TEAMMATES[side].y} r="4" fill="#38bdf8" />
+                        ))}
+                        {marked.map(side => (
+                            <circle key={side} cx={TEAMMATES[side].x + 4} cy={TEAMMATES[side].y - 6} r="4" fill="#ef4444" />
+                        ))}
+                        {!lane_open && <circle cx="50" cy="58" r="4" fill="#ef4444" />}
+                        {clutter.map((d, i) => <circle key={i} cx={d.x} cy={d.y} r="4" fill="#ef4444" />)}
+                    </>
+                )}
+                {/* You */}
+                <circle cx="50" cy="85" r="5" fill="#38bdf8" stroke="white" strokeWidth="1.5" />
+            </svg>
+            <div className="flex gap-3">
+                {([["left", "← Pass"], ["drive", "↑ Drive"], ["right", "Pass →"]] as const).map(([decision, label]) => (
+                    <button
+                        key={decision}
+                        onPointerDown={e => respond(decision, e)}
+                        className="w-28 py-3 rounded-xl bg-white/5 border border-white/20 text-sm font-bold tracking-wider"
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const decisionSpeed: TrialTestDefinition<DecisionStimulus, Decision> = {
+    id: "decision_speed",
+    instructions: [
+        "You have the ball (white ring). Red are defenders, blue are teammates.",
+        "Drive if the lane to goal is open; otherwise pass to the unmarked teammate.",
+        "Arrow keys work too. Higher levels add defenders and flash the scene."
+    ],
+    practice_trials: 4,
+    timing: { anticipation_ms: 150, lapse_ms: null },
+    keys: { ArrowLeft: "left", ArrowUp: "drive", ArrowRight: "right" },
+    createTrial: ({ level, max_level }) => {
+        const lane_open = chance(0.4);
+        const free = pick(["left", "right"] as const);
+        // A blocked lane always leaves exactly one teammate free; an open one can leave any
+        const marked: Side[] = lane_open
+            ? (["left", "right"] as const).filter(() => chance(0.5))
+            : [free === "left" ? "right" : "left"];
+        // Extra defenders up the pitch, clear of the lane and the teammates
+        const clutter = Array.from({ length: Math.max(0, level - 2) }, () => ({
+            x: pick([randomInt(8, 30), randomInt(70, 92)]),
+            y: randomInt(12, 30)
+        }));
+        return {
+            stimulus: { lane_open, marked, clutter },
+            expected: lane_open ? "drive" : free,
+            foreperiod_ms: foreperiod(500, 1000),
+            // Level 1 keeps the scene up; above that it has to be read in a glance
+            display_ms: level === 1 ? null : byLevel(level, max_level, 1200, 400),
+            window_ms: byLevel(level, max_level, 3000, 1200)
+        };
+    },
+    isCorrect: (spec, response) => response === spec.expected,
+    score: summary => speedAdjustedAccuracy(summary, DECISION_TARGET_MS),
+    Stimulus: DecisionStimulusView
+};
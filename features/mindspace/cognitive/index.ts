@@ -0,0 +1,20 @@
+import { TrialTestDefinition } from "./types";
+import { simpleReaction, choiceReaction, goNoGo } from "./reactionTests";
+import { spatialSpan, dualNBack } from "./memoryTests";
+import { focusTracking, stroopTest, peripheralVision } from "./attentionTests";
+import { taskSwitching, decisionSpeed } from "./executiveTests";
+import { pvt } from "./pvtTest";
+
+export { TrialRunner } from "./TrialRunner";
+export { TrialSession, summarizeTrials } from "./trialSession";
+export type { TrialTestDefinition, StimulusProps, ResponseEvent } from "./types";
+
+// Playable implementation of every COGNITIVE_TESTS entry, by test id
+export const BATTERY: Record<string, TrialTestDefinition> = Object.fromEntries(
+    [
+        simpleReaction, pvt, choiceReaction, goNoGo,
+        spatialSpan, dualNBack,
+        focusTracking, stroopTest, peripheralVision,
+        taskSwitching, decisionSpeed
+    ].map(definition => [definition.id, definition as TrialTestDefinition])
+);
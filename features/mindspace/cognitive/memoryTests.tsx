@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { cn } from "../../../components/ui";
+import { TrialRecord } from "../../../types/cognitive-battery";
+import { TrialTestDefinition, StimulusProps } from "./types";
+import { chance, pick, randomInt } from "./trialHelpers";
+
+// =========================================================
+// SPATIAL SPAN (Corsi blocks)
+// =========================================================
+
+const FLASH_ON_MS = 450;
+const FLASH_GAP_MS = 250;
+
+// Span shown at a level; the staircase moves one block per trial
+const spanAt = (level: number) => level + 2;
+
+interface SpanStimulus { cells: number; sequence: number[] }
+
+const SpanStimulusView = ({ spec, respond }: StimulusProps<SpanStimulus, number[]>) => {
+    const { cells, sequence } = spec.stimulus;
+    const [flash, setFlash] = useState<number | null>(null);
+    const [watching, setWatching] = useState(true);
+    const [taps, setTaps] = useState<number[]>([]);
+
+    useEffect(() => {
+        const timers: number[] = [];
+        sequence.forEach((cell, i) => {
+            const at = i * (FLASH_ON_MS + FLASH_GAP_MS);
+            timers.push(window.setTimeout(() => setFlash(cell), at));
+            timers.push(window.setTimeout(() => setFlash(null), at + FLASH_ON_MS));
+        });
+        timers.push(window.setTimeout(() => setWatching(false), sequence.length * (FLASH_ON_MS + FLASH_GAP_MS)));
+        return () => timers.forEach(timer => clearTimeout(timer));
+    }, [sequence]);
+
+    const tap = (cell: number, e: React.PointerEvent) => {
+        if (watching) return;
+        const next = [...taps, cell];
+        setTaps(next);
+        // A wrong block ends the trial; so does the last one
+        if (next[next.length - 1] !== sequence[next.length - 1] || next.length === sequence.length) respond(next, e);
+    };
+
+    const columns = Math.sqrt(cells);
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <div className="mb-6 text-sm font-mono text-purple-300">Span {sequence.length}</div>
+            <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+                {Array.from({ length: cells }).map((_, i) => (
+                    <motion.button
+                        key={i}
+                        onPointerDown={e => tap(i, e)}
+                        whileTap={watching ? {} : { scale: 0.9 }}
+                        className={cn(
+                            "rounded-xl border border-white/10",
+                            columns > 3 ? "w-16 h-16" : "w-20 h-20",
+                            flash === i ? "bg-purple-500 shadow-[0_0_30px_rgba(168,85,247,0.6)] border-purple-300"
+                                : taps.includes(i) ? "bg-purple-500/30" : "bg-white/5"
+                        )}
+                    />
+                ))}
+            </div>
+            <div className="mt-6 h-6 text-sm text-white/50">{watching ? "Watch the sequence..." : "Your turn"}</div>
+        </div>
+    );
+};
+
+export const spatialSpan: TrialTestDefinition<SpanStimulus, number[]> = {
+    id: "spatial_span",
+    instructions: [
+        "Blocks light up one after another. Tap them back in the same order.",
+        "Get it right and the sequence grows by one; miss and it shrinks."
+    ],
+    practice_trials: 2,
+    timing: { anticipation_ms: null, lapse_ms: null },
+    createTrial: ({ level }) => {
+        const span = spanAt(level);
+        const cells = span > 8 ? 16 : 9;
+        // Corsi sequences never repeat a block
+        const pool = Array.from({ length: cells }, (_, i) => i);
+        const sequence = Array.from({ length: span }, () => pool.splice(randomInt(0, pool.length - 1), 1)[0]);
+        return { stimulus: { cells, sequence }, expected: sequence, foreperiod_ms: 600, display_ms: null, window_ms: null };
+    },
+    isCorrect: (spec, response) =>
+        !!response && response.length === spec.expected!.length && response.every((cell, i) => cell === spec.expected![i]),
+    adapt: (level, record, maxLevel) => Math.min(maxLevel, Math.max(1, level + (record.correct ? 1 : -1))),
+    // Longest span recalled; one under the shortest tried when none was
+    score: (_summary, records) => {
+        const recalled = records.filter(r => r.correct).map(r => r.stimulus.sequence.length);
+        if (recalled.length > 0) return Math.max(...recalled);
+        return Math.max(0, Math.min(...records.map(r => r.stimulus.sequence.length)) - 1);
+    },
+    Stimulus: SpanStimulusView
+};
+
+// =========================================================
+// DUAL N-BACK (position + sound)
+// =========================================================
+
+const NBACK_LETTERS = ["C", "H", "K", "L", "Q", "R", "S", "T"] as const;
+const MATCH_RATE = 0.3;
+
+interface NBackStimulus { n: number; position: number; letter: string }
+interface NBackResponse { position: boolean; sound: boolean }
+
+const NO_MATCH: NBackResponse = { position: false, sound: false };
+const canSpeak = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+const NBackStimulusView = ({ spec, visible, pending, respond }: StimulusProps<NBackStimulus, NBackResponse>) => {
+    const { n, position, letter } = spec.stimulus;
+    const speaks = canSpeak();
+
+    useEffect(() => {
+        if (!speaks) return;
+        window.speechSynthesis.cancel();
+        window.speechSynthesis.speak(new SpeechSynthesisUtterance(letter));
+    }, [spec, speaks, letter]);
+
+    const chosen = pending ?? NO_MATCH;
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+            <div className="mb-6 text-sm font-mono text-purple-300">{n}-back</div>
+            <div className="grid grid-cols-3 gap-2 mb-8">
+                {Array.from({ length: 9 }).map((_, i) => (
+                    <div key={i} className={cn(
+                        "w-16 h-16 rounded-lg border border-white/10 flex items-center justify-center text-xl font-bold",
+                        visible && i === position ? "bg-sky-500 shadow-[0_0_24px_rgba(14,165,233,0.6)]" : "bg-white/5"
+                    )}>
+                        {/* Without speech the letter is shown instead of spoken */}
+                        {!speaks && visible && i === position ? letter : null}
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-4">
+                {(["position", "sound"] as const).map(channel => (
+                    <button
+                        key={channel}
+                        onPointerDown={e => respond({ ...NO_MATCH, [channel]: true }, e)}
+                        className={cn(
+                            "px-6 py-3 rounded-xl border text-sm font-bold uppercase tracking-wider",
+                            chosen[channel] ? "bg-purple-500/40 border-purple-300 text-white" : "bg-white/5 border-white/20 text-white/60"
+                        )}
+                    >
+                        {channel === "position" ? "Position (A)" : "Sound (L)"}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const matchesOf = (spec: { expected: NBackResponse | null }) => spec.expected ?? NO_MATCH;
+
+export const dualNBack: TrialTestDefinition<NBackStimulus, NBackResponse> = {
+    id: "dual_nback",
+    instructions: [
+        "Each step lights a square and says a letter.",
+        "Press Position (A) when the square matches the one N steps back, Sound (L) when the letter does.",
+        "Press neither when nothing matches."
+    ],
+    practice_trials: 6,
+    timing: { anticipation_ms: null, lapse_ms: null },
+    keys: { a: { position: true, sound: false }, l: { position: false, sound: true } },
+    collect: (pending, response) => ({
+        position: (pending?.position ?? false) || response.position,
+        sound: (pending?.sound ?? false) || response.sound
+    }),
+    createTrial: ({ index, level, previous }) => {
+        const n = level;
+        const back = index >= n ? previous[index - n] as TrialRecord<NBackStimulus, NBackResponse> : undefined;
+        const positionMatch = !!back && chance(MATCH_RATE);
+        const soundMatch = !!back && chance(MATCH_RATE);
+        const position = positionMatch ? back!.stimulus.position
+            : pick(Array.from({ length: 9 }, (_, i) => i).filter(p => p !== back?.stimulus.position));
+        const letter = soundMatch ? back!.stimulus.letter
+            : pick(NBACK_LETTERS.filter(l => l !== back?.stimulus.letter));
+        return {
+            stimulus: { n, position, letter },
+            // Nothing to press when neither matches
+            expected: positionMatch || soundMatch ? { position: positionMatch, sound: soundMatch } : null,
+            foreperiod_ms: 300,
+            display_ms: 500,
+            window_ms: 2500
+        };
+    },
+    isCorrect: (spec, response) => {
+        const expected = matchesOf(spec);
+        const given = response ?? NO_MATCH;
+        return given.position === expected.position && given.sound === expected.sound;
+    },
+    // Half credit per channel
+    grade: (spec, response) => {
+        const expected = matchesOf(spec);
+        const given = response ?? NO_MATCH;
+        return ((given.position === expected.position ? 1 : 0) + (given.sound === expected.sound ? 1 : 0)) / 2;
+    },
+    // N only changes between sessions; a mid-sequence change would break the matches
+    adapt: level => level,
+    score: summary => Math.round(summary.accuracy),
+    Stimulus: NBackStimulusView
+};
@@ -0,0 +1,57 @@
+import React, { useEffect, useRef } from "react";
+import { PVTEngine } from "../../../experts/mental/engines/pvtEngine";
+import { TrialTestDefinition, StimulusProps } from "./types";
+import { foreperiod } from "./trialHelpers";
+
+// =========================================================
+// PSYCHOMOTOR VIGILANCE TASK (PVT-B, 3 min)
+// =========================================================
+
+// PVT-B waits 1-4 s from the response; the runner's feedback screen is part of that wait
+const FEEDBACK_SHARE_MS = 700;
+
+// The millisecond counter that starts at onset, as on the standard PVT
+const CounterStimulus = ({ respond }: StimulusProps<null, true>) => {
+    const counterRef = useRef<HTMLSpanElement>(null);
+
+    useEffect(() => {
+        let frame = 0;
+        let start: number | null = null;
+        const tick = (at: number) => {
+            if (start === null) start = at;
+            if (counterRef.current) counterRef.current.textContent = String(Math.round(at - start)).padStart(3, "0");
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center cursor-pointer" onPointerDown={e => respond(true, e)}>
+            <span ref={counterRef} className="text-7xl font-mono font-bold text-red-500 tabular-nums">000</span>
+        </div>
+    );
+};
+
+export const pvt: TrialTestDefinition<null, true> = {
+    id: "pvt",
+    instructions: [
+        "Watch the centre of the screen. When the red counter starts, tap (or press Space) to stop it.",
+        "Don't tap before it starts. Runs for 3 minutes; take it at the same time each day."
+    ],
+    practice_trials: 0,
+    block_ms: 3 * 60 * 1000,
+    feedback_every_trial: true,
+    timing: { anticipation_ms: PVTEngine.FALSE_START_MS, lapse_ms: PVTEngine.LAPSE_MS },
+    keys: { " ": true },
+    createTrial: () => ({
+        stimulus: null,
+        expected: true,
+        foreperiod_ms: foreperiod(1000 - FEEDBACK_SHARE_MS, 4000 - FEEDBACK_SHARE_MS),
+        display_ms: null,
+        window_ms: PVTEngine.TIMEOUT_MS
+    }),
+    isCorrect: (_spec, response) => response === true,
+    score: (_summary, records) => PVTEngine.meanReciprocalRT(records),
+    Stimulus: CounterStimulus
+};
@@ -0,0 +1,135 @@
+import React from "react";
+import { cn } from "../../../components/ui";
+import { TrialTestDefinition, StimulusProps } from "./types";
+import { byLevel, chance, foreperiod, randomInt } from "./trialHelpers";
+
+// =========================================================
+// SIMPLE REACTION (CNS latency)
+// =========================================================
+
+const SimpleStimulus = ({ respond }: StimulusProps<null, true>) => (
+    <div
+        className="absolute inset-0 flex items-center justify-center bg-green-500 cursor-pointer"
+        onPointerDown={e => respond(true, e)}
+    >
+        <h2 className="text-6xl font-bold text-white">TAP!</h2>
+    </div>
+);
+
+export const simpleReaction: TrialTestDefinition<null, true> = {
+    id: "simple_reaction",
+    instructions: [
+        "Wait for the screen to turn green, then tap (or press Space) as fast as you can.",
+        "Tapping before it turns green is a false start."
+    ],
+    practice_trials: 3,
+    timing: { anticipation_ms: 100, lapse_ms: 500 },
+    keys: { " ": true },
+    createTrial: () => ({
+        stimulus: null,
+        expected: true,
+        foreperiod_ms: foreperiod(2000, 5000),
+        display_ms: null,
+        window_ms: 1500
+    }),
+    isCorrect: (_spec, response) => response === true,
+    score: summary => summary.median_rt_ms ?? 1500,
+    Stimulus: SimpleStimulus
+};
+
+// =========================================================
+// CHOICE REACTION (Hick's law)
+// =========================================================
+
+interface ChoiceStimulus { options: number; target: number }
+
+const ChoiceStimulusView = ({ spec, respond }: StimulusProps<ChoiceStimulus, number>) => (
+    <div className="absolute inset-0 flex items-center justify-center">
+        <div className="flex flex-wrap justify-center gap-4 max-w-lg">
+            {Array.from({ length: spec.stimulus.options }).map((_, i) => (
+                <button
+                    key={i}
+                    onPointerDown={e => respond(i, e)}
+                    className={cn(
+                        "w-20 h-20 rounded-full border-2 transition-none",
+                        i === spec.stimulus.target
+                            ? "bg-cyan-400 border-cyan-200 shadow-[0_0_30px_rgba(34,211,238,0.6)]"
+                            : "bg-white/5 border-white/20"
+                    )}
+                >
+                    <span className="text-xs font-mono text-white/40">{i + 1}</span>
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+export const choiceReaction: TrialTestDefinition<ChoiceStimulus, number> = {
+    id: "choice_reaction",
+    instructions: [
+        "One of the circles lights up. Tap it (or press its number) as fast as you can.",
+        "Higher levels add more circles."
+    ],
+    practice_trials: 4,
+    timing: { anticipation_ms: 150, lapse_ms: 800 },
+    keys: { "1": 0, "2": 1, "3": 2, "4": 3, "5": 4, "6": 5 },
+    createTrial: ({ level }) => {
+        const options = Math.min(6, level + 1);
+        const target = randomInt(0, options - 1);
+        return {
+            stimulus: { options, target },
+            expected: target,
+            foreperiod_ms: foreperiod(800, 1800),
+            display_ms: null,
+            window_ms: 1500
+        };
+    },
+    isCorrect: (spec, response) => response === spec.expected,
+    // Time per correct response: errors make it slower, in the ms scale of the baseline
+    score: summary => summary.median_rt_ms === null || summary.accuracy === 0
+        ? 1500
+        : Math.round(summary.median_rt_ms / (summary.accuracy / 100)),
+    Stimulus: ChoiceStimulusView
+};
+
+// =========================================================
+// GO / NO-GO (response inhibition)
+// =========================================================
+
+interface GoStimulus { go: boolean }
+
+const GoNoGoStimulus = ({ spec, visible, respond }: StimulusProps<GoStimulus, true>) => (
+    <div className="absolute inset-0 flex items-center justify-center cursor-pointer" onPointerDown={e => respond(true, e)}>
+        {visible && (
+            <div className={cn(
+                "w-40 h-40 rounded-full",
+                spec.stimulus.go ? "bg-green-500 shadow-[0_0_40px_rgba(34,197,94,0.6)]" : "bg-red-500 shadow-[0_0_40px_rgba(239,68,68,0.6)]"
+            )} />
+        )}
+    </div>
+);
+
+export const goNoGo: TrialTestDefinition<GoStimulus, true> = {
+    id: "go_nogo",
+    instructions: [
+        "Tap (or press Space) when the circle is GREEN.",
+        "Do nothing when it is RED. Higher levels show more red and less time."
+    ],
+    practice_trials: 5,
+    timing: { anticipation_ms: 100, lapse_ms: 600 },
+    keys: { " ": true },
+    createTrial: ({ level, max_level, index, practice }) => {
+        // Practice shows one red circle early so the rule is seen
+        const go = practice ? index !== 1 : !chance(byLevel(level, max_level, 20, 40) / 100);
+        return {
+            stimulus: { go },
+            expected: go ? true : null,
+            foreperiod_ms: foreperiod(600, 1600),
+            display_ms: byLevel(level, max_level, 800, 400),
+            window_ms: byLevel(level, max_level, 1000, 650)
+        };
+    },
+    isCorrect: (spec, response) => spec.expected === null ? response === null : response === true,
+    score: summary => Math.round(summary.accuracy),
+    Stimulus: GoNoGoStimulus
+};
@@ -0,0 +1,29 @@
+import { TrialSummary } from "../../../types/cognitive-battery";
+
+// =====================================================
+// SHARED HELPERS FOR TEST DEFINITIONS
+// =====================================================
+
+export const randomInt = (min: number, max: number): number =>
+    min + Math.floor(Math.random() * (max - min + 1));
+
+export const pick = <T>(items: readonly T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export const chance = (p: number): boolean => Math.random() < p;
+
+// Linear step from `easy` at level 1 to `hard` at the top level
+export const byLevel = (level: number, maxLevel: number, easy: number, hard: number): number =>
+    maxLevel <= 1 ? easy : Math.round(easy + (hard - easy) * (level - 1) / (maxLevel - 1));
+
+// A random foreperiod, so the stimulus cannot be timed
+export const foreperiod = (min: number, max: number): number => randomInt(min, max);
+
+/**
+ * Accuracy scaled down when responses are slower than the target, so a
+ * composite score rewards both; never below half the accuracy
+ */
+export const speedAdjustedAccuracy = (summary: TrialSummary, targetMs: number): number => {
+    if (summary.median_rt_ms === null) return Math.round(summary.accuracy);
+    const factor = Math.min(1, Math.max(0.5, targetMs / summary.median_rt_ms));
+    return Math.round(summary.accuracy * factor);
+};
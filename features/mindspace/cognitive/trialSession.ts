@@ -0,0 +1,226 @@
+/**
+ * Trial Session - Practice and test blocks for one run of a cognitive test
+ *
+ * Framework-free so the timing rules are the same for every test:
+ * - onset is the first painted frame of the stimulus (the runner passes the
+ *   requestAnimationFrame time), responses carry the input event's time,
+ *   both on the performance.now() clock
+ * - a response before onset, or under the test's anticipation threshold,
+ *   is an anticipation and never counts as correct
+ * - a response over the lapse threshold, or none when one was due, is a lapse
+ * - practice trials are recorded but left out of the summary, and the level
+ *   only moves during the test block
+ * - a timed test block (block_ms) ends with the first trial finished after its time
+ */
+
+import { CognitiveTestConfig } from "../../../experts/mental/CognitiveTestDatabase";
+import { TrialRecord, TrialSpec, TrialSummary } from "../../../types/cognitive-battery";
+import { TrialTestDefinition } from "./types";
+
+export type SessionPhase = "practice" | "test" | "done";
+
+// Default staircase: up after this many correct in a row, down after this many errors
+const STEP_UP_STREAK = 3;
+const STEP_DOWN_STREAK = 2;
+
+interface ActiveTrial<S, R> {
+    spec: TrialSpec<S, R>;
+    index: number;
+    practice: boolean;
+    onset_at: number | null;
+    pending: R | null;
+}
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+const median = (xs: number[]) => {
+    const sorted = [...xs].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function summarizeTrials(records: TrialRecord[], durationMs: number = 0): TrialSummary {
+    const scored = records.filter(r => !r.practice);
+    const rts = scored
+        .filter(r => r.correct && r.response !== null && r.rt_ms !== null)
+        .map(r => r.rt_ms as number);
+    const rtMean = rts.length > 0 ? mean(rts) : null;
+    return {
+        trials: scored.length,
+        correct: scored.filter(r => r.correct).length,
+        accuracy: scored.length > 0 ? Math.round(mean(scored.map(r => r.grade)) * 1000) / 10 : 0,
+        mean_rt_ms: rtMean === null ? null : Math.round(rtMean),
+        median_rt_ms: rts.length > 0 ? Math.round(median(rts)) : null,
+        rt_sd_ms: rts.length > 1
+            ? Math.round(Math.sqrt(rts.reduce((acc, rt) => acc + (rt - rtMean!) ** 2, 0) / (rts.length - 1)))
+            : null,
+        anticipations: scored.filter(r => r.anticipation).length,
+        lapses: scored.filter(r => r.lapse).length,
+        level_reached: scored.reduce((max, r) => Math.max(max, r.level), 0),
+        duration_ms: Math.round(durationMs)
+    };
+}
+
+export class TrialSession<S = any, R = any> {
+    phase: SessionPhase;
+    level: number;
+    readonly records: TrialRecord<S, R>[] = [];
+    private active: ActiveTrial<S, R> | null = null;
+    private streak = 0;                 // Positive: correct in a row, negative: errors in a row
+    private startedAt: number | null = null;
+    private testStartedAt: number | null = null;
+    private endedAt: number | null = null;
+
+    constructor(
+        private readonly definition: TrialTestDefinition<S, R>,
+        private readonly config: CognitiveTestConfig,
+        startLevel: number
+    ) {
+        this.level = Math.min(Math.max(1, startLevel), config.levels);
+        this.phase = definition.practice_trials > 0 ? "practice" : "test";
+        this.active = this.createTrial(0);
+    }
+
+    get current(): ActiveTrial<S, R> | null {
+        return this.active;
+    }
+
+    // Trials in the current block
+    get blockLength(): number {
+        return this.phase === "practice" ? this.definition.practice_trials : this.config.trials_per_session;
+    }
+
+    markOnset(at: number): void {
+        if (!this.active || this.active.onset_at !== null) return;
+        this.active.onset_at = at;
+        if (this.startedAt === null) this.startedAt = at;
+        if (this.testStartedAt === null && !this.active.practice) this.testStartedAt = at;
+    }
+
+    /**
+     * A response to the current trial. Resolves the trial unless the test
+     * collects responses until its window ends.
+     */
+    respond(response: R, at: number): TrialRecord<S, R> | null {
+        const trial = this.active;
+        if (!trial) return null;
+        if (trial.onset_at === null) return this.resolve(response, at, true);
+        if (this.definition.collect) {
+            trial.pending = this.definition.collect(trial.pending, response);
+            return null;
+        }
+        return this.resolve(response, at, false);
+    }
+
+    // Input during the foreperiod, before there is anything to respond to
+    anticipate(at: number): TrialRecord<S, R> | null {
+        if (!this.active || this.active.onset_at !== null) return null;
+        return this.resolve(null, at, true);
+    }
+
+    // The response window ran out; collected responses count, a missing one is a miss
+    expire(at: number): TrialRecord<S, R> | null {
+        if (!this.active) return null;
+        return this.resolve(this.active.pending, at, false, true);
+    }
+
+    // Move on to the next trial, block or the end
+    advance(): void {
+        if (this.phase === "done") return;
+        const blockRecords = this.records.filter(r => r.practice === (this.phase === "practice"));
+        if (blockRecords.length < this.blockLength && !this.timeUp()) {
+            this.active = this.createTrial(blockRecords.length);
+            return;
+        }
+        if (this.phase === "practice") {
+            this.phase = "test";
+            this.streak = 0;
+            this.active = this.createTrial(0);
+            return;
+        }
+        this.phase = "done";
+        this.active = null;
+    }
+
+    // Time left in a timed test block, from the last finished trial
+    get remainingMs(): number | null {
+        const { block_ms } = this.definition;
+        if (block_ms === undefined) return null;
+        if (this.testStartedAt === null || this.endedAt === null) return block_ms;
+        return Math.max(0, block_ms - (this.endedAt - this.testStartedAt));
+    }
+
+    summary(): TrialSummary {
+        const duration = this.startedAt !== null && this.endedAt !== null ? this.endedAt - this.startedAt : 0;
+        return summarizeTrials(this.records as TrialRecord[], duration);
+    }
+
+    score(): number {
+        return this.definition.score(this.summary(), this.records.filter(r => !r.practice));
+    }
+
+    private timeUp(): boolean {
+        return this.phase === "test" && this.remainingMs === 0;
+    }
+
+    private createTrial(index: number): ActiveTrial<S, R> {
+        const practice = this.phase === "practice";
+        const spec = this.definition.createTrial({
+            index,
+            level: this.level,
+            max_level: this.config.levels,
+            practice,
+            previous: this.records.filter(r => r.practice === practice)
+        });
+        return { spec, index, practice, onset_at: null, pending: null };
+    }
+
+    private resolve(response: R | null, at: number, early: boolean, expired: boolean = false): TrialRecord<S, R> {
+        const trial = this.active!;
+        const { timing } = this.definition;
+        const rt = !early && trial.onset_at !== null && response !== null && !expired ? at - trial.onset_at : null;
+        const anticipation = early || (rt !== null && timing.anticipation_ms !== null && rt < timing.anticipation_ms);
+        const correct = !anticipation && this.definition.isCorrect(trial.spec, response);
+        const grade = anticipation ? 0 : this.definition.grade?.(trial.spec, response) ?? (correct ? 1 : 0);
+        const due = trial.spec.expected !== null;
+        const lapse = !anticipation && due && (
+            response === null || (rt !== null && timing.lapse_ms !== null && rt > timing.lapse_ms)
+        );
+
+        const record: TrialRecord<S, R> = {
+            index: trial.index,
+            practice: trial.practice,
+            level: this.level,
+            stimulus: trial.spec.stimulus,
+            expected: trial.spec.expected,
+            response,
+            onset_at: trial.onset_at,
+            rt_ms: rt === null ? null : Math.round(rt * 10) / 10,
+            correct,
+            grade,
+            anticipation,
+            lapse
+        };
+        this.records.push(record);
+        this.active = null;
+        this.endedAt = at;
+        if (!trial.practice) this.adapt(record);
+        return record;
+    }
+
+    private adapt(record: TrialRecord<S, R>): void {
+        if (!this.config.has_adaptive) return;
+        if (this.definition.adapt) {
+            this.level = Math.min(Math.max(1, this.definition.adapt(this.level, record, this.config.levels)), this.config.levels);
+            return;
+        }
+        this.streak = record.correct ? Math.max(0, this.streak) + 1 : Math.min(0, this.streak) - 1;
+        if (this.streak >= STEP_UP_STREAK && this.level < this.config.levels) {
+            this.level++;
+            this.streak = 0;
+        } else if (this.streak <= -STEP_DOWN_STREAK && this.level > 1) {
+            this.level--;
+            this.streak = 0;
+        }
+    }
+}
@@ -0,0 +1,46 @@
+import type { ComponentType } from "react";
+import type { TrialContext, TrialRecord, TrialSpec, TrialSummary, TrialTiming } from "../../../types/cognitive-battery";
+
+// =====================================================
+// TRIAL RUNNER CONTRACT
+// =====================================================
+
+// A response source; React pointer and keyboard events both carry a high-resolution timeStamp
+export interface ResponseEvent {
+    timeStamp: number;
+}
+
+export interface StimulusProps<S, R> {
+    spec: TrialSpec<S, R>;
+    level: number;
+    visible: boolean;                 // False once display_ms has passed (mask)
+    practice: boolean;
+    pending: R | null;                // Collected so far, for tests that collect
+    respond: (response: R, event?: ResponseEvent) => void;
+}
+
+/**
+ * One playable test on the shared trial runner. `id` matches its entry in
+ * COGNITIVE_TESTS; trial counts and levels come from there.
+ */
+export interface TrialTestDefinition<S = any, R = any> {
+    id: string;
+    instructions: string[];
+    practice_trials: number;
+    // Test block ends once this long has passed since its first onset; trials_per_session only caps it
+    block_ms?: number;
+    // Show the outcome after every test trial, not only in practice
+    feedback_every_trial?: boolean;
+    timing: TrialTiming;
+    keys?: Record<string, R>;         // Keyboard responses (KeyboardEvent.key)
+    // Keep taking responses until the window ends, merged by this; otherwise the first response ends the trial
+    collect?: (pending: R | null, response: R) => R;
+    createTrial: (context: TrialContext<S, R>) => TrialSpec<S, R>;
+    isCorrect: (spec: TrialSpec<S, R>, response: R | null) => boolean;
+    grade?: (spec: TrialSpec<S, R>, response: R | null) => number;
+    // Next level after a test trial; the runner's staircase when absent
+    adapt?: (level: number, record: TrialRecord<S, R>, maxLevel: number) => number;
+    // Result score in the units of the test's baseline_range
+    score: (summary: TrialSummary, records: TrialRecord<S, R>[]) => number;
+    Stimulus: ComponentType<StimulusProps<S, R>>;
+}
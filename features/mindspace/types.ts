@@ -1,5 +1,6 @@
 
 import { MentalStateVector, CognitiveTrajectory, PsychologicalFlexibility, StateDiagnosis } from "../../types";
+import { PVTReading } from "../../types/cognitive-battery";
 
 // =====================================================
 // MINDSPACE DOMAIN TYPES
@@ -21,6 +22,7 @@ export interface MindspaceState {
     focus_density?: number; // %
     impulse_control?: number; // %
   };
+  pvt?: PVTReading; // Latest vigilance test; only counts on the day it was taken
   readiness_score: number; 
   suggested_protocol?: {
     id: 'reaction' | 'focus' | 'memory' | 'gonogo' | 'box_breathing' | 'nsdr_lite' | 'visualization';
@@ -17,6 +17,10 @@ import {
 } from 'lucide-react';
 import { GlassCard, cn } from '../../components/ui';
 import { discoverPatterns, DiscoveredPattern, CorrelationResult, PatternDomain } from '../../services/PatternDiscoveryEngine';
+import { shouldSuppress } from '../../services/provenance';
+import { useSentient } from '../../store/SentientContext';
+import { ConnectWearableCard } from '../../ui/shared/ConnectWearableCard';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 
 // ============================================================================
 // DOMAIN ICONS
@@ -260,14 +264,28 @@ export const PatternDiscoveryCard: React.FC<PatternDiscoveryCardProps> = ({
     className,
     compact = false
 }) => {
+    const { state } = useSentient();
     const analysis = useMemo(() => discoverPatterns(), []);
 
+    // Mock correlations are only shown in Demo Mode
+    if (shouldSuppress(analysis.provenance, state.ui_config?.demo_mode)) {
+        return (
+            <ConnectWearableCard
+                domain="insights"
+                className={className}
+                compact={compact}
+                customMessage="Patterns appear after two weeks of recorded sleep, HRV and training."
+            />
+        );
+    }
+
     const {
         patterns,
         new_discoveries,
         top_correlations,
         data_coverage,
-        ranked_insights
+        ranked_insights,
+        provenance
     } = analysis;
 
     const handleConfirm = (id: string) => {
@@ -293,6 +311,7 @@ export const PatternDiscoveryCard: React.FC<PatternDiscoveryCardProps> = ({
                             <div className="text-lg font-bold text-white">
                                 {patterns.length} discovered
                             </div>
+                            <ProvenanceBadge provenance={provenance} />
                         </div>
                     </div>
                     {new_discoveries.length > 0 && (
@@ -316,6 +335,7 @@ export const PatternDiscoveryCard: React.FC<PatternDiscoveryCardProps> = ({
                     <div>
                         <h3 className="font-semibold text-white">Pattern Discovery</h3>
                         <p className="text-xs text-muted-foreground">AI-detected correlations</p>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
 
@@ -4,19 +4,54 @@
  * Features:
  * - Form (TSB) gauge
  * - Fitness vs Fatigue chart
- * - Performance prediction
+ * - Personal parameters fitted to the athlete's history, with intervals
+ * - Performance prediction on a target date
  * - Training recommendations
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
     TrendingUp, TrendingDown, Activity, Battery, Zap,
     AlertTriangle, Target, ChevronRight
 } from 'lucide-react';
 import { GlassCard, cn } from '../../../components/ui';
-import { analyzePeriodization } from '../../../services/PeriodizationEngine';
-import { FITNESS_FATIGUE_CONSTANTS } from '../../../types/periodization';
+import { analyzePeriodization, periodizationEngine } from '../../../services/PeriodizationEngine';
+import { FITNESS_FATIGUE_CONSTANTS, ParameterEstimate, PerformanceProxy } from '../../../types/periodization';
+import { useSentient } from '../../../store/SentientContext';
+import { BanisterFitter } from '../../../experts/performance/banisterFitter';
+import { loadPersonalRecords } from '../../../experts/performance/prStore';
+import {
+    aggregateByDate,
+    inLoadMethod,
+    loadRecordedLoads,
+    toContiguousHistory,
+    toDateKey
+} from '../../../experts/performance/loadHistoryStore';
+
+const PROXY_LABELS: Record<PerformanceProxy, string> = {
+    hr_at_pace: 'HR-at-pace',
+    personal_records: 'PRs'
+};
+
+// Load carried forward to the target date, as a share of the last 28 days' average
+const FUTURE_LOAD = [
+    { id: 'rest', label: 'Rest', share: 0 },
+    { id: 'taper', label: 'Taper', share: 0.5 },
+    { id: 'maintain', label: 'Maintain', share: 1 }
+] as const;
+
+const Estimate: React.FC<{ label: string; estimate: ParameterEstimate; digits?: number; unit?: string }> = ({
+    label, estimate, digits = 1, unit = ''
+}) => (
+    <div className="p-2 bg-white/5 rounded-lg text-center">
+        <div className="text-sm font-mono text-white">{estimate.value.toFixed(digits)}{unit}</div>
+        <div className="text-[9px] text-muted-foreground font-mono">
+            {estimate.low.toFixed(digits)}–{estimate.high.toFixed(digits)}
+        </div>
+        <div className="text-[9px] text-muted-foreground uppercase tracking-wider mt-0.5">{label}</div>
+    </div>
+);
 
 // ============================================================================
 // MAIN COMPONENT
@@ -31,8 +66,41 @@ export const FitnessFatigueCard: React.FC<FitnessFatigueCardProps> = ({
     className,
     compact = false
 }) => {
+    const { state } = useSentient();
     const analysis = useMemo(() => analyzePeriodization(), []);
-    const { fitness_fatigue: ff, recommendations, days_to_target: daysToEvent } = analysis;
+    const { recommendations, days_to_target: daysToEvent } = analysis;
+
+    // Personal model
+    const loads = useMemo(() => toContiguousHistory(aggregateByDate(inLoadMethod(loadRecordedLoads()))), []);
+    const sessions = state.timeline?.sessions;
+    const observations = useMemo(() => ({
+        hr_at_pace: BanisterFitter.observationsFromRuns(sessions || []),
+        personal_records: BanisterFitter.observationsFromRecords(loadPersonalRecords())
+    }), [sessions]);
+    const [chosenProxy, setChosenProxy] = useState<PerformanceProxy | null>(null);
+    const proxy: PerformanceProxy = chosenProxy
+        ?? (observations.personal_records.length > observations.hr_at_pace.length ? 'personal_records' : 'hr_at_pace');
+    const fit = useMemo(() => BanisterFitter.fit(loads, observations[proxy], proxy), [loads, observations, proxy]);
+    const personal = fit.source === 'personal';
+
+    const [targetDate, setTargetDate] = useState(() => toDateKey(new Date(analysis.current_macrocycle.target_event.date)));
+    const [futureLoad, setFutureLoad] = useState<typeof FUTURE_LOAD[number]['id']>('taper');
+    const prediction = useMemo(() => {
+        if (!personal || !targetDate) return null;
+        const recent = loads.slice(-28);
+        const average = recent.reduce((sum, l) => sum + l.load_au, 0) / Math.max(1, recent.length);
+        const share = FUTURE_LOAD.find(f => f.id === futureLoad)!.share;
+        return BanisterFitter.predict(fit, loads, targetDate, average * share);
+    }, [personal, fit, loads, targetDate, futureLoad]);
+
+    // Personal time constants on the recorded loads; population constants on the plan's log otherwise
+    const ff = useMemo(() => personal
+        ? periodizationEngine.calculateFitnessFatigue(
+            loads.map(l => ({ date: `${l.date}T00:00:00`, load: l.load_au })),
+            { fitness_time_constant: fit.tau1.value, fatigue_time_constant: fit.tau2.value }
+        )
+        : analysis.fitness_fatigue,
+    [personal, fit, loads, analysis]);
 
     const { optimal_form_range: optimalForm } = FITNESS_FATIGUE_CONSTANTS;
     const formIsOptimal = ff.form >= optimalForm.min && ff.form <= optimalForm.max;
@@ -161,7 +229,94 @@ export const FitnessFatigueCard: React.FC<FitnessFatigueCardProps> = ({
                 </div>
             </div>
 
+            {/* Personal Parameters */}
+            <div className="mb-6 p-4 bg-black/30 rounded-xl">
+                <div className="flex items-center justify-between mb-3">
+                    <div className="text-xs text-muted-foreground uppercase tracking-wider">
+                        {personal ? 'Your Parameters (95% CI)' : 'Population Parameters'}
+                    </div>
+                    <div className="flex gap-1">
+                        {(Object.keys(PROXY_LABELS) as PerformanceProxy[]).map(p => (
+                            <button
+                                key={p}
+                                onClick={() => setChosenProxy(p)}
+                                className={cn(
+                                    'px-2 py-0.5 rounded text-[10px] border',
+                                    p === proxy ? 'bg-cyan-500/20 border-cyan-500/40 text-cyan-300' : 'border-white/10 text-muted-foreground'
+                                )}
+                            >
+                                {PROXY_LABELS[p]} ({observations[p].length})
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {personal ? (
+                    <>
+                        <div className="grid grid-cols-4 gap-2 mb-3">
+                            <Estimate label="k1 fitness" estimate={{
+                                value: fit.k1.value * 1000, low: fit.k1.low * 1000, high: fit.k1.high * 1000
+                            }} digits={2} />
+                            <Estimate label="k2 fatigue" estimate={{
+                                value: fit.k2.value * 1000, low: fit.k2.low * 1000, high: fit.k2.high * 1000
+                            }} digits={2} />
+                            <Estimate label="τ1 fitness" estimate={fit.tau1} digits={0} unit="d" />
+                            <Estimate label="τ2 fatigue" estimate={fit.tau2} digits={1} unit="d" />
+                        </div>
+                        <div className="text-[10px] text-muted-foreground">
+                            k per 1000 load units · R² {fit.r_squared?.toFixed(2)} (adj. {fit.adjusted_r_squared?.toFixed(2) ?? '—'})
+                            · RMSE {fit.rmse} pts · {fit.n_observations} points over {fit.history_days} days
+                        </div>
+                    </>
+                ) : (
+                    <div className="text-xs text-muted-foreground">
+                        τ1 {fit.tau1.value}d, τ2 {fit.tau2.value}d for everyone. {fit.reason}
+                    </div>
+                )}
+            </div>
+
             {/* Performance Prediction */}
+            {prediction ? (
+                <div className="mb-6 p-4 bg-gradient-to-r from-purple-500/10 to-pink-500/10 rounded-xl border border-purple-500/30">
+                    <div className="flex items-start justify-between gap-4">
+                        <div>
+                            <div className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+                                Predicted on {prediction.date}
+                            </div>
+                            <div className="text-3xl font-bold text-white">{prediction.performance}</div>
+                            <div className="text-xs text-muted-foreground mt-1">
+                                {PROXY_LABELS[proxy]} index · 95% {prediction.low}–{prediction.high}
+                            </div>
+                            <div className={cn('text-xs mt-1', prediction.form >= 0 ? 'text-green-400' : 'text-orange-400')}>
+                                Form {prediction.form > 0 ? '+' : ''}{prediction.form} (fitness {prediction.fitness} − fatigue {prediction.fatigue})
+                            </div>
+                        </div>
+
+                        <div className="text-right space-y-2">
+                            <input
+                                type="date"
+                                value={targetDate}
+                                onChange={e => setTargetDate(e.target.value)}
+                                className="bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white"
+                            />
+                            <div className="flex gap-1 justify-end">
+                                {FUTURE_LOAD.map(f => (
+                                    <button
+                                        key={f.id}
+                                        onClick={() => setFutureLoad(f.id)}
+                                        className={cn(
+                                            'px-2 py-0.5 rounded text-[10px] border',
+                                            f.id === futureLoad ? 'bg-purple-500/20 border-purple-500/40 text-purple-300' : 'border-white/10 text-muted-foreground'
+                                        )}
+                                    >
+                                        {f.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+            ) : (
             <div className="mb-6 p-4 bg-gradient-to-r from-purple-500/10 to-pink-500/10 rounded-xl border border-purple-500/30">
                 <div className="flex items-center justify-between">
                     <div>
@@ -182,6 +337,7 @@ export const FitnessFatigueCard: React.FC<FitnessFatigueCardProps> = ({
                     </div>
                 </div>
             </div>
+            )}
 
             {/* Recommendations */}
             {recommendations.length > 0 && (
@@ -218,8 +374,8 @@ export const FitnessFatigueCard: React.FC<FitnessFatigueCardProps> = ({
             <div className="mt-4 p-3 bg-white/5 rounded-lg">
                 <div className="text-[10px] text-muted-foreground">
                     <span className="text-white font-medium">Banister Model: </span>
-                    Performance = Fitness - Fatigue. Fitness builds slowly (τ≈42d) while fatigue
-                    dissipates quickly (τ≈7d). Optimal form for competition: +{optimalForm.min} to +{optimalForm.max}.
+                    Performance = Fitness - Fatigue. Fitness builds slowly (τ≈{ff.fitness_tau_days}d) while fatigue
+                    dissipates quickly (τ≈{ff.fatigue_tau_days}d). Optimal form for competition: +{optimalForm.min} to +{optimalForm.max}.
                 </div>
             </div>
         </GlassCard>
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Cpu, Save, Wifi, AlertTriangle, Check } from 'lucide-react';
+import { GlassCard, Button, cn } from '../../components/ui';
+import {
+    llmRegistry,
+    loadLLMSettings,
+    saveProviderConfig,
+    setActiveProvider,
+    testLLMConnection
+} from '../../services/llm';
+import { LLMProviderConfig } from '../../types/llm';
+
+// --- AI PROVIDER: Which model backend answers coach requests ---
+export const AIProviderCard = () => {
+    const providers = llmRegistry.list();
+    const [activeId, setActiveId] = useState(() => loadLLMSettings().active_provider);
+    const [config, setConfig] = useState<LLMProviderConfig>(() => loadLLMSettings().providers[activeId] ?? { model: '' });
+    const [testing, setTesting] = useState(false);
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    const active = llmRegistry.get(activeId);
+    const needsBaseUrl = activeId === 'openai_compatible';
+
+    const selectProvider = (id: string) => {
+        setActiveId(id);
+        setConfig(loadLLMSettings().providers[id] ?? { model: '' });
+        setMessage(null);
+    };
+
+    const update = (patch: Partial<LLMProviderConfig>) => {
+        setConfig(prev => ({ ...prev, ...patch }));
+        setMessage(null);
+    };
+
+    const handleSave = () => {
+        saveProviderConfig(activeId, {
+            ...config,
+            model: config.model.trim(),
+            api_key: config.api_key?.trim() || undefined,
+            base_url: config.base_url?.trim().replace(/\/+$/, '') || undefined
+        });
+        setActiveProvider(activeId);
+        setMessage({ ok: true, text: `${active?.name ?? activeId} is now answering coach requests` });
+    };
+
+    const handleTest = async () => {
+        handleSave();
+        setTesting(true);
+        try {
+            const result = await testLLMConnection(activeId);
+            setMessage({ ok: result.success, text: result.message });
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                    <Cpu className="w-4 h-4 text-indigo-400" />
+                    AI Provider
+                </h3>
+
+                <div className="flex flex-wrap gap-2">
+                    {providers.map(provider => (
+                        <button key={provider.id} onClick={() => selectProvider(provider.id)}
+                            className={cn(
+                                "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border",
+                                activeId === provider.id ? "bg-indigo-500/20 border-indigo-500/40 text-indigo-300" : "border-white/10 text-white/40"
+                            )}>
+                            {provider.name}
+                        </button>
+                    ))}
+                </div>
+                {active && <p className="text-xs text-white/50">{active.description}</p>}
+
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="text-[10px] uppercase tracking-wider text-white/40">
+                        Model
+                        <input value={config.model} onChange={e => update({ model: e.target.value })}
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                    </label>
+                    <label className="text-[10px] uppercase tracking-wider text-white/40">
+                        API Key{needsBaseUrl && ' (optional)'}
+                        <input type="password" value={config.api_key ?? ''} onChange={e => update({ api_key: e.target.value })}
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                    </label>
+                    {needsBaseUrl && (
+                        <label className="col-span-2 text-[10px] uppercase tracking-wider text-white/40">
+                            Base URL
+                            <input value={config.base_url ?? ''} onChange={e => update({ base_url: e.target.value })}
+                                placeholder="http://localhost:8080/v1"
+                                className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white font-mono" />
+                        </label>
+                    )}
+                </div>
+
+                <div className="flex items-center justify-between gap-3">
+                    <span className="text-[10px] text-white/40">
+                        {active?.supportsImages ? 'Text and photo analysis' : 'Text only · photo analysis disabled'}
+                    </span>
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="outline" disabled={!config.model.trim()} onClick={handleSave}>
+                            <Save className="w-3 h-3 mr-2" /> Save
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={!config.model.trim() || testing} onClick={handleTest}>
+                            <Wifi className="w-3 h-3 mr-2" /> {testing ? 'Testing…' : 'Test'}
+                        </Button>
+                    </div>
+                </div>
+
+                {message && (
+                    <div className={cn("text-xs flex items-center gap-2", message.ok ? "text-teal-300" : "text-red-300")}>
+                        {message.ok ? <Check className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                        {message.text}
+                    </div>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
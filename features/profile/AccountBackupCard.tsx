@@ -0,0 +1,201 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Archive, Download, Upload, Loader2, AlertTriangle, X, Check, Share2 } from 'lucide-react';
+import { GlassCard, Button, cn } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import {
+    applyAccountBundle,
+    diffAccountBundle,
+    downloadAccountBundle,
+    parseAccountBundle
+} from '../../services/export/accountBundle';
+import { getViewerRole } from '../../services/team/teamService';
+import { DataRole } from '../../types/redaction';
+import { AccountBundle, AccountBundleDiff, AccountImportMode } from '../../types/account-bundle';
+
+// --- ACCOUNT BACKUP: Full-account export / import ---
+export const AccountBackupCard = () => {
+    const { state } = useSentient();
+    const [busy, setBusy] = useState<'export' | 'share' | 'import' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [exportedFile, setExportedFile] = useState<string | null>(null);
+    const [pending, setPending] = useState<{ bundle: AccountBundle; diff: AccountBundleDiff } | null>(null);
+    const [mode, setMode] = useState<AccountImportMode>('merge');
+    const inputRef = useRef<HTMLInputElement>(null);
+    // A coach viewing an athlete only ever exports the redacted view
+    const viewerRole = getViewerRole();
+
+    const handleExport = async (role: DataRole) => {
+        setBusy(role === 'user' ? 'export' : 'share');
+        setError(null);
+        try {
+            setExportedFile(await downloadAccountBundle(state, role));
+        } catch (err: any) {
+            console.error('[AccountBackup] Export failed:', err);
+            setError(err?.message || 'Export failed');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setBusy('import');
+        setError(null);
+        try {
+            const bundle = await parseAccountBundle(await file.text());
+            setPending({ bundle, diff: diffAccountBundle(bundle, state) });
+            setMode('merge');
+        } catch (err: any) {
+            console.error('[AccountBackup] Import failed:', err);
+            setError(err?.message || 'Could not read backup');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const confirmImport = async () => {
+        if (!pending) return;
+        setBusy('import');
+        try {
+            await applyAccountBundle(pending.bundle, state, mode);
+            // Engines cache their stores at startup; reload so they re-read them
+            window.location.reload();
+        } catch (err: any) {
+            console.error('[AccountBackup] Restore failed:', err);
+            setError(err?.message || 'Restore failed');
+            setPending(null);
+            setBusy(null);
+        }
+    };
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <input type="file" ref={inputRef} className="hidden" accept=".json,application/json" onChange={handleFile} />
+            <div className="absolute inset-0 bg-gradient-to-br from-sky-500/10 via-transparent to-transparent" />
+            <div className="relative">
+                <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                        <Archive className="w-4 h-4 text-sky-400" />
+                        Backup & Transfer
+                    </h3>
+                    <div className="flex gap-2">
+                        {viewerRole === 'user' && (
+                            <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleExport('user')}>
+                                {busy === 'export'
+                                    ? <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+                                    : <Download className="w-3 h-3 mr-2" />} Export
+                            </Button>
+                        )}
+                        <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => handleExport('coach')}>
+                            {busy === 'share'
+                                ? <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+                                : <Share2 className="w-3 h-3 mr-2" />} Coach Share
+                        </Button>
+                        <Button size="sm" variant="outline" disabled={busy !== null} onClick={() => inputRef.current?.click()}>
+                            {busy === 'import'
+                                ? <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+                                : <Upload className="w-3 h-3 mr-2" />} Import
+                        </Button>
+                    </div>
+                </div>
+                <p className="text-[10px] text-white/50 leading-relaxed">
+                    One JSON file with your profile, history, personal records, training loads and agent log.
+                    Use it to back up your data or move it to another browser. A coach share leaves out the
+                    categories you have not shared under Data Sharing and cannot be restored.
+                </p>
+
+                {exportedFile && (
+                    <div className="mt-4 text-xs text-sky-300 flex items-center gap-2">
+                        <Check className="w-3 h-3" /> Saved {exportedFile}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="mt-4 p-3 rounded-lg bg-red-950/20 border border-red-500/30 flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                        <p className="text-xs text-red-300">{error}</p>
+                    </div>
+                )}
+            </div>
+
+            {/* IMPORT PREVIEW MODAL */}
+            <AnimatePresence>
+                {pending && (
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+                        <motion.div initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }} exit={{ scale: 0.9, opacity: 0 }}
+                            className="w-full max-w-lg bg-background border border-white/10 rounded-2xl overflow-hidden">
+                            <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                                <div>
+                                    <h3 className="font-bold text-lg text-white">Restore Backup</h3>
+                                    <p className="text-[10px] text-white/40 uppercase tracking-widest">
+                                        Exported {new Date(pending.diff.exported_at).toLocaleString()}
+                                    </p>
+                                </div>
+                                <button onClick={() => setPending(null)} className="text-white/40 hover:text-white"><X className="w-5 h-5" /></button>
+                            </div>
+
+                            <div className="p-6 space-y-4">
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-[10px] uppercase tracking-wider text-white/40">
+                                            <th className="text-left font-medium pb-2">Data</th>
+                                            <th className="text-right font-medium pb-2">New</th>
+                                            <th className="text-right font-medium pb-2">Changed</th>
+                                            <th className="text-right font-medium pb-2">Same</th>
+                                            <th className="text-right font-medium pb-2">{mode === 'replace' ? 'Removed' : 'Kept'}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {pending.diff.sections.map(section => (
+                                            <tr key={section.section} className="border-t border-white/5 text-white/70">
+                                                <td className="py-1.5">{section.label}</td>
+                                                <td className="text-right text-emerald-400">{section.added}</td>
+                                                <td className="text-right text-yellow-400">{section.changed}</td>
+                                                <td className="text-right">{section.unchanged}</td>
+                                                <td className={cn("text-right", mode === 'replace' && section.removed > 0 && "text-red-400")}>{section.removed}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+
+                                <div className="text-[10px] text-white/50 leading-relaxed">
+                                    {mode === 'replace'
+                                        ? pending.diff.state_keys_changed.length > 0
+                                            ? `Replaces: ${pending.diff.state_keys_changed.map(k => k.replace(/_/g, ' ')).join(', ')}.`
+                                            : 'App state is identical.'
+                                        : `Keeps your current profile and dashboard; adds ${pending.diff.sessions_added} timeline sessions.`}
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-2">
+                                    {(['merge', 'replace'] as const).map(option => (
+                                        <button key={option} onClick={() => setMode(option)}
+                                            className={cn(
+                                                "p-3 rounded-xl border text-left",
+                                                mode === option ? "bg-sky-500/10 border-sky-500/40" : "border-white/10 bg-white/5"
+                                            )}>
+                                            <div className="text-sm font-bold text-white capitalize">{option}</div>
+                                            <div className="text-[10px] text-white/50">
+                                                {option === 'merge' ? 'Add backup data to this device' : 'Make this device match the backup'}
+                                            </div>
+                                        </button>
+                                    ))}
+                                </div>
+
+                                <div className="flex gap-3">
+                                    <Button variant="ghost" className="flex-1" onClick={() => setPending(null)}>Cancel</Button>
+                                    <Button className="flex-1 bg-sky-600 hover:bg-sky-500 text-white" disabled={busy !== null} onClick={confirmImport}>
+                                        {busy === 'import' ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'merge' ? 'Merge' : 'Replace'}
+                                    </Button>
+                                </div>
+                            </div>
+                        </motion.div>
+                    </div>
+                )}
+            </AnimatePresence>
+        </GlassCard>
+    );
+};
@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import { FileSpreadsheet, Download, AlertTriangle, Check } from 'lucide-react';
+import { GlassCard, Button, cn } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import { countCsvRows, downloadCsv, getCsvColumns, isCsvDatasetAllowed } from '../../services/export/csvExport';
+import { getViewerRole } from '../../services/team/teamService';
+import { toDateKey } from '../../experts/performance/loadHistoryStore';
+import { CsvDataset } from '../../types/csv-export';
+
+const DATASET_LABELS: Record<CsvDataset, string> = {
+    history: 'Daily History',
+    daily_load: 'Training Load',
+    outcomes: 'Action Outcomes',
+    biomarkers: 'Biomarkers'
+};
+
+const defaultColumns = (dataset: CsvDataset) =>
+    getCsvColumns(dataset).filter(c => c.default_selected).map(c => c.id);
+
+// --- CSV EXPORT: Spreadsheet exports for coaches ---
+export const CsvExportCard = () => {
+    const { state, history } = useSentient();
+    const units = state.user_profile.preferences?.units || 'metric';
+    const sharing = { role: getViewerRole(), consent: state.user_profile.sharing_consent };
+
+    const [dataset, setDataset] = useState<CsvDataset>('history');
+    const [columns, setColumns] = useState<string[]>(() => defaultColumns('history'));
+    const [from, setFrom] = useState(() => {
+        const d = new Date();
+        d.setDate(d.getDate() - 90);
+        return toDateKey(d);
+    });
+    const [to, setTo] = useState(() => toDateKey(new Date()));
+    const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+    const available = useMemo(() => getCsvColumns(dataset), [dataset]);
+    // history is a dependency so the count refreshes as new data is saved
+    const rowCount = useMemo(() => countCsvRows({ dataset, from, to }), [dataset, from, to, history]);
+
+    const selectDataset = (next: CsvDataset) => {
+        setDataset(next);
+        setColumns(defaultColumns(next));
+        setMessage(null);
+    };
+
+    const toggleColumn = (id: string) => {
+        // Keep the dataset's column order regardless of click order
+        setColumns(prev => prev.includes(id)
+            ? prev.filter(c => c !== id)
+            : available.map(c => c.id).filter(c => c === id || prev.includes(c)));
+    };
+
+    const handleDownload = () => {
+        try {
+            const result = downloadCsv({ dataset, from, to, columns, units, ...sharing });
+            setMessage({ ok: true, text: `Saved ${result.file_name} (${result.rows} rows)` });
+        } catch (err: any) {
+            console.error('[CsvExport] Export failed:', err);
+            setMessage({ ok: false, text: err?.message || 'Export failed' });
+        }
+    };
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-teal-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                        <FileSpreadsheet className="w-4 h-4 text-teal-400" />
+                        Spreadsheet Export
+                    </h3>
+                    <span className="text-[10px] uppercase tracking-wider text-white/40">{units}</span>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                    {(Object.keys(DATASET_LABELS) as CsvDataset[]).filter(option => isCsvDatasetAllowed(option, sharing)).map(option => (
+                        <button key={option} onClick={() => selectDataset(option)}
+                            className={cn(
+                                "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border",
+                                dataset === option ? "bg-teal-500/20 border-teal-500/40 text-teal-300" : "border-white/10 text-white/40"
+                            )}>
+                            {DATASET_LABELS[option]}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="text-[10px] uppercase tracking-wider text-white/40">
+                        From
+                        <input type="date" value={from} max={to} onChange={e => setFrom(e.target.value)}
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                    </label>
+                    <label className="text-[10px] uppercase tracking-wider text-white/40">
+                        To
+                        <input type="date" value={to} min={from} onChange={e => setTo(e.target.value)}
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                    </label>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                    {available.map(column => (
+                        <button key={column.id} onClick={() => toggleColumn(column.id)}
+                            className={cn(
+                                "px-2 py-1 rounded-md text-[10px] border",
+                                columns.includes(column.id) ? "bg-white/10 border-white/20 text-white" : "border-white/5 text-white/30"
+                            )}>
+                            {column.label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-between gap-3">
+                    <span className="text-xs text-white/50">{rowCount} rows · {columns.length} columns</span>
+                    <Button size="sm" variant="outline" disabled={rowCount === 0 || columns.length === 0} onClick={handleDownload}>
+                        <Download className="w-3 h-3 mr-2" /> Download CSV
+                    </Button>
+                </div>
+
+                {message && (
+                    <div className={cn("text-xs flex items-center gap-2", message.ok ? "text-teal-300" : "text-red-300")}>
+                        {message.ok ? <Check className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                        {message.text}
+                    </div>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
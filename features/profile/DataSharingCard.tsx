@@ -0,0 +1,77 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ShieldCheck, Lock } from 'lucide-react';
+import { GlassCard, cn } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import { REDACTION_POLICIES, isCategoryVisible } from '../../services/privacy/redaction';
+import { getViewerRole } from '../../services/team/teamService';
+import { RedactionCategory } from '../../types/redaction';
+
+// --- DATA SHARING: What a coach may see of sensitive data ---
+export const DataSharingCard = () => {
+    const { state, dispatch } = useSentient();
+    const consent = state.user_profile.sharing_consent ?? {};
+    // Only the athlete can change their own consent
+    const readOnly = getViewerRole() !== 'user';
+
+    const toggle = (category: RedactionCategory) => {
+        dispatch({
+            type: 'UPDATE_USER_PROFILE',
+            payload: { sharing_consent: { ...consent, [category]: !consent[category] } }
+        });
+    };
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-teal-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                    <ShieldCheck className="w-4 h-4 text-teal-400" />
+                    Data Sharing
+                </h3>
+                <p className="text-[10px] text-white/50 leading-relaxed">
+                    Coaches see training load, readiness and recovery. These categories stay hidden from coach views,
+                    coach shares and exports unless you share them.
+                </p>
+
+                <div className="space-y-2">
+                    {REDACTION_POLICIES.filter(p => p.hidden_from.includes('coach')).map(policy => {
+                        const shared = isCategoryVisible(policy.category, 'coach', consent);
+                        const locked = readOnly || !policy.consentable;
+                        return (
+                            <div key={policy.category} className="flex items-center justify-between p-3 bg-white/5 rounded-xl border border-white/10">
+                                <div>
+                                    <div className="font-bold text-white text-sm">{policy.label}</div>
+                                    <div className="text-[10px] text-white/50">{policy.description}</div>
+                                </div>
+                                {locked ? (
+                                    <span className="text-[10px] uppercase tracking-wider text-white/40 flex items-center gap-1">
+                                        {!shared && <Lock className="w-3 h-3" />} {shared ? 'Shared' : 'Hidden'}
+                                    </span>
+                                ) : (
+                                    <button
+                                        onClick={() => toggle(policy.category)}
+                                        className={cn(
+                                            "relative w-12 h-6 rounded-full transition-colors duration-200",
+                                            shared ? "bg-teal-500" : "bg-white/20"
+                                        )}
+                                    >
+                                        <motion.div
+                                            className="absolute top-1 w-4 h-4 rounded-full bg-white shadow"
+                                            animate={{ left: shared ? 28 : 4 }}
+                                            transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                                        />
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {readOnly && (
+                    <p className="text-[10px] text-white/40">Sharing is set by the athlete.</p>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, Link2, Unlink, AlertTriangle, WifiOff } from 'lucide-react';
+import { GlassCard, Button, cn } from '../../components/ui';
+import { stateSync } from '../../services/sync/stateSync';
+import { SyncState, SyncStatus } from '../../types/state-sync';
+
+const STATE_STYLES: Record<SyncState, { label: string; dot: string }> = {
+    idle: { label: 'Up to date', dot: 'bg-green-400' },
+    syncing: { label: 'Syncing', dot: 'bg-sky-400' },
+    offline: { label: 'Offline', dot: 'bg-white/30' },
+    error: { label: 'Error', dot: 'bg-red-400' }
+};
+
+const formatTime = (ms: number | null) => ms === null ? 'never' : new Date(ms).toLocaleTimeString();
+
+// --- DEVICE SYNC: Share state with other tabs and devices ---
+export const DeviceSyncCard = () => {
+    const [status, setStatus] = useState<SyncStatus>(() => stateSync.getStatus());
+    const [url, setUrl] = useState(() => stateSync.getSettings().remote_url ?? 'http://localhost:8787');
+
+    useEffect(() => stateSync.onStatusChange(setStatus), []);
+
+    const connected = status.remote !== null;
+    const style = STATE_STYLES[status.state];
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-teal-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                        <RefreshCw className="w-4 h-4 text-teal-400" />
+                        Device Sync
+                    </h3>
+                    {connected && (
+                        <span className="flex items-center gap-1.5 text-[10px] text-white/60">
+                            <span className={cn('w-2 h-2 rounded-full', style.dot)} /> {style.label}
+                        </span>
+                    )}
+                </div>
+                <p className="text-[10px] text-white/50 leading-relaxed">
+                    Open tabs always stay in sync. Connect a sync server to share your profile, meals and sessions
+                    between devices; run <code className="text-white/70">npm run sync-server</code> for a local one.
+                </p>
+
+                <div className="flex items-end gap-3">
+                    <label className="flex-1 text-[10px] uppercase tracking-wider text-white/40">
+                        Server URL
+                        <input value={url} disabled={connected} onChange={e => setUrl(e.target.value)}
+                            placeholder="http://localhost:8787"
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50" />
+                    </label>
+                    {connected ? (
+                        <Button size="sm" variant="outline" onClick={() => stateSync.setRemoteUrl(null)}>
+                            <Unlink className="w-3 h-3 mr-2" /> Disconnect
+                        </Button>
+                    ) : (
+                        <Button size="sm" variant="outline" disabled={!url.trim()} onClick={() => stateSync.setRemoteUrl(url)}>
+                            <Link2 className="w-3 h-3 mr-2" /> Connect
+                        </Button>
+                    )}
+                </div>
+
+                {connected && (
+                    <div className="grid grid-cols-3 gap-2 text-[10px] text-white/50">
+                        <div>
+                            <div className="uppercase tracking-wider text-white/30">Pending</div>
+                            <span>{status.pending} changes</span>
+                        </div>
+                        <div>
+                            <div className="uppercase tracking-wider text-white/30">Last push</div>
+                            <span>{formatTime(status.last_push)}</span>
+                        </div>
+                        <div>
+                            <div className="uppercase tracking-wider text-white/30">Last pull</div>
+                            <span>{formatTime(status.last_pull)}</span>
+                        </div>
+                    </div>
+                )}
+
+                {connected && status.state === 'offline' && (
+                    <div className="text-xs text-white/50 flex items-center gap-2">
+                        <WifiOff className="w-3 h-3" /> Changes are queued and sent when you are back online.
+                    </div>
+                )}
+                {connected && status.last_error && (
+                    <div className="text-xs text-red-300 flex items-center gap-2">
+                        <AlertTriangle className="w-3 h-3" /> {status.last_error}
+                    </div>
+                )}
+
+                {connected && (
+                    <Button size="sm" variant="outline" disabled={status.state === 'syncing'} onClick={() => stateSync.flush()}>
+                        <RefreshCw className="w-3 h-3 mr-2" /> Sync now
+                    </Button>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
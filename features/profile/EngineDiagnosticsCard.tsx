@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import { Activity, RefreshCw, AlertTriangle } from 'lucide-react';
+import { GlassCard, Button, cn } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import { engineRegistry } from '../../services/engineRegistry';
+import { EngineDataSource, EngineHealth, EngineStatus } from '../../types/engine-registry';
+
+const STATUS_STYLES: Record<EngineStatus, { label: string; dot: string }> = {
+    ok: { label: 'OK', dot: 'bg-green-400' },
+    idle: { label: 'Idle', dot: 'bg-white/30' },
+    degraded: { label: 'Degraded', dot: 'bg-yellow-400' },
+    error: { label: 'Error', dot: 'bg-red-400' }
+};
+
+const SOURCE_STYLES: Record<EngineDataSource, { label: string; className: string }> = {
+    recorded: { label: 'Recorded', className: 'bg-green-500/20 text-green-300' },
+    live: { label: 'Live state', className: 'bg-sky-500/20 text-sky-300' },
+    mock: { label: 'Mock', className: 'bg-yellow-500/20 text-yellow-300' },
+    none: { label: 'No data', className: 'bg-white/10 text-white/50' }
+};
+
+const formatAgo = (ms: number | null) => {
+    if (ms === null) return 'never';
+    const seconds = Math.round((Date.now() - ms) / 1000);
+    if (seconds < 60) return `${seconds}s ago`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)}m ago`;
+    return `${Math.round(seconds / 3600)}h ago`;
+};
+
+const EngineRow: React.FC<{ health: EngineHealth }> = ({ health }) => {
+    const status = STATUS_STYLES[health.status];
+    const source = SOURCE_STYLES[health.data_source];
+    const coveragePct = health.coverage && health.coverage.expected > 0
+        ? Math.round((health.coverage.covered / health.coverage.expected) * 100)
+        : null;
+
+    return (
+        <div className="p-3 bg-white/5 rounded-xl border border-white/10 space-y-2">
+            <div className="flex items-center gap-2">
+                <span className={cn('w-2 h-2 rounded-full', status.dot)} title={status.label} />
+                <span className="text-sm font-semibold text-white flex-1 truncate">{health.label}</span>
+                <span className={cn('px-1.5 py-0.5 rounded text-[10px]', source.className)}>{source.label}</span>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-[10px] text-white/50">
+                <div>
+                    <div className="uppercase tracking-wider text-white/30">Coverage</div>
+                    {health.coverage
+                        ? <span>{health.coverage.covered}/{health.coverage.expected} {health.coverage.unit}</span>
+                        : <span>—</span>}
+                </div>
+                <div>
+                    <div className="uppercase tracking-wider text-white/30">Last run</div>
+                    <span>{formatAgo(health.last_run)}{health.last_duration_ms !== null && ` · ${health.last_duration_ms}ms`}</span>
+                </div>
+                <div>
+                    <div className="uppercase tracking-wider text-white/30">Runs / Errors</div>
+                    <span className={health.error_count > 0 ? 'text-red-300' : undefined}>{health.runs} / {health.error_count}</span>
+                </div>
+            </div>
+
+            {coveragePct !== null && (
+                <div className="h-1 rounded-full bg-white/10 overflow-hidden">
+                    <div className={cn('h-full', coveragePct >= 50 ? 'bg-green-400/70' : 'bg-yellow-400/70')} style={{ width: `${coveragePct}%` }} />
+                </div>
+            )}
+
+            {health.last_error && (
+                <div className="text-[10px] text-red-300 flex items-start gap-1">
+                    <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+                    <span className="truncate">{health.last_error.message} ({formatAgo(health.last_error.at)})</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- ENGINE DIAGNOSTICS: Health of every registered engine ---
+export const EngineDiagnosticsCard = () => {
+    const { state } = useSentient();
+    const [tick, setTick] = useState(0);
+
+    // state is a dependency so run counts refresh as the loop runs
+    const health = useMemo(() => engineRegistry.getHealth(state), [state, tick]);
+    const degraded = health.filter(h => h.status === 'degraded' || h.status === 'error').length;
+
+    const handleResync = () => {
+        engineRegistry.hydrate();
+        setTick(t => t + 1);
+    };
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-emerald-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                        <Activity className="w-4 h-4 text-emerald-400" />
+                        Engine Diagnostics
+                    </h3>
+                    <Button size="sm" variant="outline" onClick={handleResync}>
+                        <RefreshCw className="w-3 h-3 mr-2" /> Re-sync
+                    </Button>
+                </div>
+                <p className="text-[10px] text-white/50 leading-relaxed">
+                    {health.length} engines · {degraded > 0 ? `${degraded} running on mock or sparse data, or failing` : 'all on real data'}.
+                    Re-sync reloads every engine from the shared history.
+                </p>
+
+                <div className="space-y-2">
+                    {health.map(h => <EngineRow key={h.id} health={h} />)}
+                </div>
+            </div>
+        </GlassCard>
+    );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { GlassCard, cn } from '../../components/ui';
+import { engineRegistry } from '../../services/engineRegistry';
+import { loadManagementEngine } from '../../experts/performance/LoadManagementEngine';
+import { getLoadMethod, loadRecordedLoads, setLoadMethod } from '../../experts/performance/loadHistoryStore';
+import { AthleteLoadMethod } from '../../types/load-management';
+
+const METHODS: { id: AthleteLoadMethod; label: string; description: string }[] = [
+    { id: 'session_rpe', label: 'Session RPE', description: 'RPE × minutes; works for every session' },
+    { id: 'trimp', label: 'TRIMP', description: 'Heart-rate training impulse; needs HR on every session' }
+];
+
+// --- TRAINING LOAD: One method for the whole ACWR series ---
+export const LoadMethodCard = () => {
+    const [method, setMethod] = useState<AthleteLoadMethod>(getLoadMethod);
+    const [applied, setApplied] = useState<AthleteLoadMethod>(() => loadManagementEngine.getLoadMethod());
+
+    const choose = (next: AthleteLoadMethod) => {
+        setLoadMethod(next);
+        setMethod(next);
+        engineRegistry.hydrate(['load_management', 'pattern_discovery']);
+        setApplied(loadManagementEngine.getLoadMethod());
+    };
+
+    const withoutHr = method === 'trimp' && applied !== 'trimp'
+        ? loadRecordedLoads().filter(l => l.trimp === undefined && l.load_method !== 'trimp').length
+        : 0;
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-amber-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                    <Gauge className="w-4 h-4 text-amber-400" />
+                    Training Load
+                </h3>
+                <p className="text-[10px] text-white/50 leading-relaxed">
+                    ACWR compares this week with the last four, so every day must be measured the same way.
+                    Both values are kept for each session; switching recomputes your history.
+                </p>
+
+                <div className="grid grid-cols-2 gap-2">
+                    {METHODS.map(m => (
+                        <button
+                            key={m.id}
+                            onClick={() => choose(m.id)}
+                            className={cn(
+                                'p-3 rounded-xl border text-left transition-colors',
+                                method === m.id ? 'bg-amber-500/20 border-amber-500/40' : 'bg-white/5 border-white/10 hover:bg-white/10'
+                            )}
+                        >
+                            <div className="font-bold text-white text-sm">{m.label}</div>
+                            <div className="text-[10px] text-white/50">{m.description}</div>
+                        </button>
+                    ))}
+                </div>
+
+                {withoutHr > 0 && (
+                    <p className="text-[10px] text-amber-300">
+                        {withoutHr} recorded session{withoutHr === 1 ? ' has' : 's have'} no heart rate, so loads use session RPE.
+                    </p>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bell, BellOff, Moon, AlarmClock, AlertTriangle } from 'lucide-react';
+import { GlassCard, Button, cn } from '../../components/ui';
+import { notificationScheduler, DEFAULT_SNOOZE_MINUTES } from '../../services/notifications/notificationScheduler';
+import {
+    NotificationCategory,
+    NotificationPermissionState,
+    NotificationSettings,
+    ScheduledNotification
+} from '../../types/notifications';
+
+const CATEGORIES: { category: NotificationCategory; label: string; description: string }[] = [
+    { category: 'fuel', label: 'Fuel Windows', description: 'Pre- and post-session meals and snacks' },
+    { category: 'supplements', label: 'Supplements', description: 'Timing windows for your supplement stack' },
+    { category: 'bedtime', label: 'Bedtime', description: 'Wind-down before your optimal bedtime' },
+    { category: 'sessions', label: 'Sessions', description: 'Upcoming timeline sessions' }
+];
+
+const UPCOMING_SHOWN = 4;
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// --- NOTIFICATIONS: Reminders for fuel windows, supplements, bedtime and sessions ---
+export const NotificationsCard = () => {
+    const [settings, setSettings] = useState<NotificationSettings>(() => notificationScheduler.getSettings());
+    const [schedule, setSchedule] = useState<ScheduledNotification[]>(() => notificationScheduler.getSchedule());
+    const [permission, setPermission] = useState<NotificationPermissionState>(() => notificationScheduler.getPermission());
+
+    useEffect(() => notificationScheduler.onScheduleChange(next => {
+        setSchedule(next);
+        setSettings(notificationScheduler.getSettings());
+    }), []);
+
+    const enable = async () => setPermission(await notificationScheduler.enable());
+
+    const toggleCategory = (category: NotificationCategory) => {
+        notificationScheduler.updateSettings({
+            categories: { ...settings.categories, [category]: !settings.categories[category] }
+        });
+    };
+
+    const setQuietHours = (patch: Partial<NotificationSettings['quiet_hours']>) => {
+        notificationScheduler.updateSettings({ quiet_hours: { ...settings.quiet_hours, ...patch } });
+    };
+
+    const active = settings.enabled && permission === 'granted';
+    const upcoming = schedule.filter(item => !item.quiet).slice(0, UPCOMING_SHOWN);
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-amber-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                        <Bell className="w-4 h-4 text-amber-400" />
+                        Notifications
+                    </h3>
+                    {active ? (
+                        <Button size="sm" variant="outline" onClick={() => notificationScheduler.disable()}>
+                            <BellOff className="w-3 h-3 mr-2" /> Turn off
+                        </Button>
+                    ) : (
+                        <Button size="sm" variant="outline" disabled={permission === 'unsupported' || permission === 'denied'} onClick={enable}>
+                            <Bell className="w-3 h-3 mr-2" /> Turn on
+                        </Button>
+                    )}
+                </div>
+                <p className="text-[10px] text-white/50 leading-relaxed">
+                    Reminders follow today's plan and move when your sessions or sleep change.
+                </p>
+
+                {permission === 'denied' && (
+                    <div className="text-xs text-amber-300 flex items-center gap-2">
+                        <AlertTriangle className="w-3 h-3" /> Notifications are blocked in your browser settings.
+                    </div>
+                )}
+                {permission === 'unsupported' && (
+                    <div className="text-xs text-white/50 flex items-center gap-2">
+                        <AlertTriangle className="w-3 h-3" /> This browser cannot show notifications.
+                    </div>
+                )}
+
+                <div className="space-y-2">
+                    {CATEGORIES.map(({ category, label, description }) => {
+                        const on = settings.categories[category];
+                        return (
+                            <div key={category} className="flex items-center justify-between p-3 bg-white/5 rounded-xl border border-white/10">
+                                <div>
+                                    <div className="font-bold text-white text-sm">{label}</div>
+                                    <div className="text-[10px] text-white/50">{description}</div>
+                                </div>
+                                <button
+                                    onClick={() => toggleCategory(category)}
+                                    className={cn(
+                                        "relative w-12 h-6 rounded-full transition-colors duration-200",
+                                        on ? "bg-amber-500" : "bg-white/20"
+                                    )}
+                                >
+                                    <motion.div
+                                        className="absolute top-1 w-4 h-4 rounded-full bg-white shadow"
+                                        animate={{ left: on ? 28 : 4 }}
+                                        transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                                    />
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="flex items-end gap-3">
+                    <label className="flex items-center gap-2 text-[10px] uppercase tracking-wider text-white/40 pb-2">
+                        <input type="checkbox" checked={settings.quiet_hours.enabled}
+                            onChange={e => setQuietHours({ enabled: e.target.checked })} />
+                        <Moon className="w-3 h-3" /> Quiet hours
+                    </label>
+                    <label className="flex-1 text-[10px] uppercase tracking-wider text-white/40">
+                        From
+                        <input type="time" value={settings.quiet_hours.start} disabled={!settings.quiet_hours.enabled}
+                            onChange={e => setQuietHours({ start: e.target.value })}
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50" />
+                    </label>
+                    <label className="flex-1 text-[10px] uppercase tracking-wider text-white/40">
+                        Until
+                        <input type="time" value={settings.quiet_hours.end} disabled={!settings.quiet_hours.enabled}
+                            onChange={e => setQuietHours({ end: e.target.value })}
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white disabled:opacity-50" />
+                    </label>
+                </div>
+
+                {active && (
+                    <div className="space-y-2">
+                        <div className="text-[10px] uppercase tracking-wider text-white/30">Up next</div>
+                        {upcoming.length === 0 ? (
+                            <p className="text-xs text-white/40">Nothing scheduled for the next day.</p>
+                        ) : upcoming.map(item => (
+                            <div key={item.id} className="flex items-center justify-between gap-3 text-xs">
+                                <div className="min-w-0">
+                                    <span className="font-mono text-white/60 mr-2">{formatTime(item.fire_at)}</span>
+                                    <span className="text-white">{item.title}</span>
+                                    {item.snoozed && <span className="ml-2 text-[10px] text-amber-300">snoozed</span>}
+                                </div>
+                                <button onClick={() => notificationScheduler.snooze(item.id)}
+                                    className="shrink-0 text-[10px] text-white/50 hover:text-white flex items-center gap-1">
+                                    <AlarmClock className="w-3 h-3" /> {DEFAULT_SNOOZE_MINUTES} min
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
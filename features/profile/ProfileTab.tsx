@@ -13,6 +13,18 @@ import { GOAL_METADATA, UserGoal, DEFAULT_USER_GOAL } from '../../types/goals';
 import { analyzeScaleReport } from '../../experts/orchestrator/ai';
 import { BodyComposition } from '../../types/body';
 import { getDaysSinceWeighIn, getWeighInMessage } from '../../services/WeeklyReminderService';
+import { importAppleHealthExport } from '../../services/import/appleHealthImporter';
+import { AppleHealthImportSummary } from '../../types/health-import';
+import { AccountBackupCard } from './AccountBackupCard';
+import { CsvExportCard } from './CsvExportCard';
+import { AIProviderCard } from './AIProviderCard';
+import { ReplayCard } from './ReplayCard';
+import { TeamModeCard } from './TeamModeCard';
+import { DeviceSyncCard } from './DeviceSyncCard';
+import { NotificationsCard } from './NotificationsCard';
+import { DataSharingCard } from './DataSharingCard';
+import { EngineDiagnosticsCard } from './EngineDiagnosticsCard';
+import { LoadMethodCard } from './LoadMethodCard';
 
 // --- PROFILE TAB: User Goals & Body Metrics ---
 export const ProfileTab = () => {
@@ -27,6 +39,12 @@ export const ProfileTab = () => {
     const [scanResult, setScanResult] = useState<any>(null);
     const scaleInputRef = useRef<HTMLInputElement>(null);
 
+    // Health Data Import State
+    const [healthImportProgress, setHealthImportProgress] = useState<number | null>(null);
+    const [healthImportResult, setHealthImportResult] = useState<AppleHealthImportSummary | null>(null);
+    const [healthImportError, setHealthImportError] = useState<string | null>(null);
+    const healthInputRef = useRef<HTMLInputElement>(null);
+
     const userGoal = state.user_profile?.user_goal || DEFAULT_USER_GOAL;
     const primaryMeta = GOAL_METADATA[userGoal.primary];
 
@@ -115,10 +133,31 @@ export const ProfileTab = () => {
         }
     };
 
+    const handleHealthImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setHealthImportError(null);
+        setHealthImportResult(null);
+        setHealthImportProgress(0);
+        try {
+            const summary = await importAppleHealthExport(file, fraction => setHealthImportProgress(fraction));
+            sync('health_imported', summary.days);
+            setHealthImportResult(summary);
+        } catch (err: any) {
+            console.error('[ProfileTab] Apple Health import failed:', err);
+            setHealthImportError(err?.message || 'Import failed');
+        } finally {
+            setHealthImportProgress(null);
+        }
+    };
+
     return (
         <div className="space-y-6 pb-24 overflow-y-auto max-h-[calc(100vh-120px)]">
-            {/* Hidden File Input */}
+            {/* Hidden File Inputs */}
             <input type="file" ref={scaleInputRef} className="hidden" accept="image/*" onChange={handleScaleAnalysis} />
+            <input type="file" ref={healthInputRef} className="hidden" accept=".zip,.xml" onChange={handleHealthImport} />
 
             {/* SCALE SCAN MODAL */}
             <AnimatePresence>
@@ -271,6 +310,78 @@ export const ProfileTab = () => {
                 </div>
             </GlassCard>
 
+            {/* HEALTH DATA SECTION */}
+            <GlassCard className="relative overflow-hidden">
+                <div className="absolute inset-0 bg-gradient-to-br from-rose-500/10 via-transparent to-transparent" />
+                <div className="relative">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                            <Heart className="w-4 h-4 text-rose-400" />
+                            Health Data
+                        </h3>
+                        <Button size="sm" variant="outline" disabled={healthImportProgress !== null} onClick={() => healthInputRef.current?.click()}>
+                            {healthImportProgress !== null
+                                ? <><Loader2 className="w-3 h-3 mr-2 animate-spin" /> {Math.round(healthImportProgress * 100)}%</>
+                                : <><Upload className="w-3 h-3 mr-2" /> Import Apple Health</>}
+                        </Button>
+                    </div>
+                    <p className="text-[10px] text-white/50 leading-relaxed">
+                        Health app → profile → Export All Health Data. Select the export.zip (or export.xml) to backfill
+                        sleep stages, HRV, resting heart rate and body weight. Files are processed on this device.
+                    </p>
+
+                    {healthImportResult && (
+                        <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3 p-4 bg-rose-500/5 rounded-lg border border-rose-500/20">
+                            <div><div className="text-[10px] text-rose-400 uppercase">Nights</div><div className="text-xl font-bold text-white">{healthImportResult.days.filter(d => d.sleep).length}</div></div>
+                            <div><div className="text-[10px] text-rose-400 uppercase">HRV Days</div><div className="text-xl font-bold text-white">{healthImportResult.days.filter(d => d.hrv_sdnn !== undefined).length}</div></div>
+                            <div><div className="text-[10px] text-rose-400 uppercase">Resting HR</div><div className="text-xl font-bold text-white">{healthImportResult.days.filter(d => d.resting_hr !== undefined).length}</div></div>
+                            <div><div className="text-[10px] text-rose-400 uppercase">Weigh-ins</div><div className="text-xl font-bold text-white">{healthImportResult.days.filter(d => d.body_mass_kg !== undefined).length}</div></div>
+                            <div className="col-span-2 md:col-span-4 text-xs text-white/40">
+                                {healthImportResult.first_date} → {healthImportResult.last_date}
+                                {healthImportResult.skipped_records > 0 && ` · ${healthImportResult.skipped_records} records skipped`}
+                            </div>
+                        </div>
+                    )}
+
+                    {healthImportError && (
+                        <div className="mt-4 p-3 rounded-lg bg-red-950/20 border border-red-500/30 flex items-start gap-2">
+                            <AlertTriangle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                            <p className="text-xs text-red-300">{healthImportError}</p>
+                        </div>
+                    )}
+                </div>
+            </GlassCard>
+
+            {/* TRAINING LOAD */}
+            <LoadMethodCard />
+
+            {/* BACKUP & TRANSFER */}
+            <AccountBackupCard />
+
+            {/* SPREADSHEET EXPORT */}
+            <CsvExportCard />
+
+            {/* AI PROVIDER */}
+            <AIProviderCard />
+
+            {/* REPLAY */}
+            <ReplayCard />
+
+            {/* TEAM MODE */}
+            <TeamModeCard />
+
+            {/* DEVICE SYNC */}
+            <DeviceSyncCard />
+
+            {/* NOTIFICATIONS */}
+            <NotificationsCard />
+
+            {/* DATA SHARING */}
+            <DataSharingCard />
+
+            {/* ENGINE DIAGNOSTICS */}
+            <EngineDiagnosticsCard />
+
             {/* PRIMARY GOAL SECTION */}
             <GlassCard className="relative overflow-hidden">
                 <div className="absolute inset-0 bg-gradient-to-br from-violet-500/10 via-transparent to-transparent" />
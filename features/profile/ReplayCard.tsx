@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { History, Play, AlertTriangle, Info } from 'lucide-react';
+import { GlassCard, Button } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import { replayAt } from '../../services/replayService';
+import { ReplayResult } from '../../types/replay';
+
+// datetime-local value for a Date, local time
+const toInputValue = (d: Date) => {
+    const local = new Date(d.getTime() - d.getTimezoneOffset() * 60000);
+    return local.toISOString().slice(0, 16);
+};
+
+// --- REPLAY: Re-run the orchestration at a past moment ---
+export const ReplayCard = () => {
+    const { state } = useSentient();
+    const [at, setAt] = useState(() => toInputValue(new Date(Date.now() - 24 * 60 * 60 * 1000)));
+    const [result, setResult] = useState<ReplayResult | null>(null);
+    const [error, setError] = useState('');
+
+    const handleReplay = () => {
+        setError('');
+        setResult(null);
+        try {
+            setResult(replayAt(state, new Date(at)));
+        } catch (err: any) {
+            console.error('[Replay] Replay failed:', err);
+            setError(err?.message || 'Replay failed');
+        }
+    };
+
+    const decision = result?.local.commanderDecision;
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-sky-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                    <History className="w-4 h-4 text-sky-400" />
+                    Replay a Moment
+                </h3>
+
+                <div className="flex items-end gap-3">
+                    <label className="flex-1 text-[10px] uppercase tracking-wider text-white/40">
+                        Date & time
+                        <input type="datetime-local" value={at} max={toInputValue(new Date())} onChange={e => setAt(e.target.value)}
+                            className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                    </label>
+                    <Button size="sm" variant="outline" disabled={!at} onClick={handleReplay}>
+                        <Play className="w-3 h-3 mr-2" /> Replay
+                    </Button>
+                </div>
+
+                {error && (
+                    <div className="text-xs text-red-300 flex items-center gap-2"><AlertTriangle className="w-3 h-3" /> {error}</div>
+                )}
+
+                {result && (
+                    <div className="space-y-3 text-xs">
+                        <div className="text-[10px] uppercase tracking-wider text-white/40">
+                            Snapshot from {result.snapshot_age_minutes} min earlier · readiness {result.local.readinessScore} · recovery {result.local.recoveryScore}
+                        </div>
+                        <div className="p-3 bg-white/5 rounded-lg space-y-1">
+                            <div className="text-white font-semibold">{decision?.mode ?? 'No mode'}{decision?.action ? ` · ${decision.action}` : ''}</div>
+                            {decision?.reason && <div className="text-white/60">{decision.reason}</div>}
+                        </div>
+                        {result.active_command && (
+                            <div className="p-3 bg-white/5 rounded-lg space-y-1">
+                                <div className="text-[10px] uppercase tracking-wider text-sky-300">Active command</div>
+                                <div className="text-white font-semibold">{result.active_command.name}</div>
+                                <div className="text-white/60">{result.active_command.rationale}</div>
+                            </div>
+                        )}
+                        {result.council.recommendations.slice(0, 3).map(rec => (
+                            <div key={rec.id} className="flex items-start gap-2">
+                                <span>{rec.expert_emoji}</span>
+                                <span className="text-white/80">{rec.name}</span>
+                                <span className="ml-auto text-white/40">{Math.round(rec.priority_score)}</span>
+                            </div>
+                        ))}
+                        {result.notes.map((note, i) => (
+                            <div key={i} className="text-[10px] text-white/40 flex items-center gap-2"><Info className="w-3 h-3" /> {note}</div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Users, AlertTriangle } from 'lucide-react';
+import { GlassCard, Button } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import { getRoster, enableTeamMode, disableTeamMode, getActiveAthlete, teamDirectory, PRIMARY_ATHLETE_ID } from '../../services/team/teamService';
+
+// --- TEAM MODE: Coach a roster of athletes, each with their own data ---
+export const TeamModeCard = () => {
+    const { state, dispatch } = useSentient();
+    const [roster, setRoster] = useState(getRoster);
+    const [coachName, setCoachName] = useState(roster.coach_name);
+    const [ownName, setOwnName] = useState(
+        roster.athletes.find(a => a.id === PRIMARY_ATHLETE_ID)?.name ?? state.user_profile.name
+    );
+    const [error, setError] = useState('');
+
+    const handleEnable = () => {
+        setError('');
+        const next = enableTeamMode(coachName, ownName);
+        setRoster(next);
+        dispatch({ type: 'UPDATE_USER_PROFILE', payload: { id: getActiveAthlete().id } });
+        dispatch({ type: 'SET_TAB', payload: 'squad' });
+    };
+
+    const handleDisable = async () => {
+        setError('');
+        try {
+            await disableTeamMode();
+            setRoster(getRoster());
+        } catch (err: any) {
+            console.error('[Team] Failed to leave team mode:', err);
+            setError(err?.message || 'Could not leave team mode');
+        }
+    };
+
+    return (
+        <GlassCard className="relative overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-br from-indigo-500/10 via-transparent to-transparent" />
+            <div className="relative space-y-4">
+                <h3 className="text-sm font-bold uppercase tracking-widest text-white/80 flex items-center gap-2">
+                    <Users className="w-4 h-4 text-indigo-400" />
+                    Team Mode
+                </h3>
+
+                {roster.enabled ? (
+                    <div className="space-y-3">
+                        <p className="text-xs text-white/60">
+                            {roster.coach_name} · {roster.athletes.length} athlete{roster.athletes.length === 1 ? '' : 's'} on the roster.
+                            Viewing <span className="text-white">{getActiveAthlete().name}</span>.
+                        </p>
+                        <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => dispatch({ type: 'SET_TAB', payload: 'squad' })}>
+                                Open Squad
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={handleDisable}>
+                                Leave Team Mode
+                            </Button>
+                        </div>
+                        <p className="text-[10px] text-white/40">Leaving keeps every athlete's data; only your own account stays open.</p>
+                    </div>
+                ) : (
+                    <div className="space-y-3">
+                        <p className="text-xs text-white/60">
+                            Manage a roster of athletes. Each athlete gets separate state and history; your current data becomes your own roster entry.
+                        </p>
+                        <div className="grid grid-cols-2 gap-3">
+                            <label className="text-[10px] uppercase tracking-wider text-white/40">
+                                Coach name
+                                <input value={coachName} onChange={e => setCoachName(e.target.value)}
+                                    className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                            </label>
+                            <label className="text-[10px] uppercase tracking-wider text-white/40">
+                                Your athlete name
+                                <input value={ownName} onChange={e => setOwnName(e.target.value)}
+                                    className="mt-1 w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                            </label>
+                        </div>
+                        <Button size="sm" variant="outline" disabled={!teamDirectory.isPersistent} onClick={handleEnable}>
+                            <Users className="w-3 h-3 mr-2" /> Enable Team Mode
+                        </Button>
+                        {!teamDirectory.isPersistent && (
+                            <p className="text-[10px] text-yellow-300/80">This browser cannot store data between visits, so a roster would be lost.</p>
+                        )}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="text-xs text-red-300 flex items-center gap-2"><AlertTriangle className="w-3 h-3" /> {error}</div>
+                )}
+            </div>
+        </GlassCard>
+    );
+};
@@ -15,6 +15,15 @@ export interface AutonomicProfile {
     car_magnitude?: number; // Cortisol Awakening Response %
     car_blunted: boolean;
     parasympathetic_score: number; // 0-100
+    // Measured from an imported RR-interval recording
+    sdnn?: number;
+    pnn50?: number;
+    lf_power?: number;
+    sd1?: number;
+    sd2?: number;
+    dfa_alpha1?: number;
+    hr_mean?: number;
+    measured_at?: string; // ISO timestamp of the recording
 }
 
 export interface MyokineSignaling {
@@ -1,168 +1,137 @@
-
 import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import {
     Play, RotateCcw, TrendingUp, TrendingDown, AlertTriangle,
-    Calendar, Flame, Moon, Activity, Dumbbell
+    Calendar, Flame, Activity, HeartPulse, ListChecks, Loader2
 } from 'lucide-react';
-import { GlassCard, Button, Badge, cn } from '../../components/ui';
+import { GlassCard, Button, cn } from '../../components/ui';
 import { useSentient } from '../../store/SentientContext';
 import {
-    LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
-    ResponsiveContainer, ReferenceLine, Area, AreaChart
+    Line, XAxis, YAxis, CartesianGrid, Tooltip,
+    ResponsiveContainer, ReferenceLine, Area, ComposedChart
 } from 'recharts';
+import { MonteCarloReport, PlanSource, TrainingPlan } from '../../types';
+import { PredictiveEngine } from '../../experts/doctor/predictiveEngine';
+import { ScheduleGenerator } from '../../services/scheduleGenerator';
+import { analyzePeriodization } from '../../experts/performance/PeriodizationEngine';
+import { clock } from '../../services/clock';
+import { VariantComparison } from './VariantComparison';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 
-// Schedule archetypes
-const SCHEDULE_ARCHETYPES = [
-    {
-        id: 'maintenance',
-        name: 'Maintenance',
-        description: 'Steady load, balanced recovery',
-        icon: Activity,
-        loadMultiplier: 1.0,
-        recoveryFocus: 1.0
-    },
-    {
-        id: 'build',
-        name: 'Build Phase',
-        description: 'Progressive overload',
-        icon: TrendingUp,
-        loadMultiplier: 1.2,
-        recoveryFocus: 0.9
-    },
-    {
-        id: 'shock',
-        name: 'Shock Week',
-        description: 'High volume, high intensity',
-        icon: Flame,
-        loadMultiplier: 1.5,
-        recoveryFocus: 0.7
-    },
-    {
-        id: 'taper',
-        name: 'Taper',
-        description: 'Reduced load for competition',
-        icon: TrendingDown,
-        loadMultiplier: 0.6,
-        recoveryFocus: 1.3
-    },
-    {
-        id: 'deload',
-        name: 'Deload Week',
-        description: 'Active recovery focus',
-        icon: RotateCcw,
-        loadMultiplier: 0.4,
-        recoveryFocus: 1.5
-    }
-];
-
-// Lifestyle scenarios
-const LIFESTYLE_SCENARIOS = [
-    { id: 'optimal', name: 'Optimal', sleepMod: 1.1, stressMod: 0.8, fuelMod: 1.1 },
-    { id: 'normal', name: 'Normal', sleepMod: 1.0, stressMod: 1.0, fuelMod: 1.0 },
-    { id: 'busy', name: 'Busy Period', sleepMod: 0.85, stressMod: 1.3, fuelMod: 0.9 },
-    { id: 'travel', name: 'Travel Week', sleepMod: 0.8, stressMod: 1.2, fuelMod: 0.85 },
-    { id: 'sick', name: 'Fighting Illness', sleepMod: 0.7, stressMod: 1.4, fuelMod: 0.8 }
+// Where the simulated block comes from: the athlete's own plans, or a template
+const PLAN_SOURCES: { id: PlanSource; name: string; description: string; icon: React.ElementType }[] = [
+    { id: 'timeline', name: 'Timeline', description: 'Upcoming sessions on your timeline', icon: ListChecks },
+    { id: 'periodization', name: 'Periodization Plan', description: 'Planned sessions from the calendar', icon: Calendar },
+    { id: 'maintenance', name: 'Maintenance', description: 'Template: steady load, balanced recovery', icon: Activity },
+    { id: 'shock', name: 'Shock Block', description: 'Template: high intensity, fewer rest days', icon: Flame },
+    { id: 'taper', name: 'Taper', description: 'Template: reduced load for competition', icon: TrendingDown },
+    { id: 'rehab', name: 'Rehab', description: 'Template: return from injury', icon: HeartPulse }
 ];
 
-interface SimulationDay {
-    day: number;
-    readiness: number;
-    acwr: number;
-    fatigue: number;
-    isCritical: boolean;
-}
-
-export const SimulatorTab: React.FC = () => {
-    const { state } = useSentient();
-    const [selectedSchedule, setSelectedSchedule] = useState('maintenance');
-    const [selectedLifestyle, setSelectedLifestyle] = useState('normal');
-    const [simulationDays, setSimulationDays] = useState(14);
-    const [hasRun, setHasRun] = useState(false);
-
-    // Simulate trajectory
-    const simulation = useMemo(() => {
-        if (!hasRun) return null;
-
-        const schedule = SCHEDULE_ARCHETYPES.find(s => s.id === selectedSchedule)!;
-        const lifestyle = LIFESTYLE_SCENARIOS.find(l => l.id === selectedLifestyle)!;
+const RUN_COUNTS = [100, 200, 500];
 
-        const days: SimulationDay[] = [];
-        let readiness = state.mindspace.readiness_score;
-        let acwr = state.physical_load.acwr;
-        let fatigue = 0;
-        let failurePoint: number | null = null;
+const AXIS_TICK = { fill: 'rgba(255,255,255,0.3)', fontSize: 10 };
 
-        for (let i = 1; i <= simulationDays; i++) {
-            // Daily load effect
-            const dailyLoad = schedule.loadMultiplier * (1 + Math.random() * 0.2 - 0.1);
+const TOOLTIP_STYLE = {
+    background: 'rgba(0,0,0,0.9)',
+    border: '1px solid rgba(255,255,255,0.1)',
+    borderRadius: '8px'
+};
 
-            // Recovery effect (influenced by lifestyle)
-            const dailyRecovery = schedule.recoveryFocus * lifestyle.sleepMod * 0.15;
+interface BandChartProps {
+    data: Record<string, unknown>[];
+    band: string;
+    median: string;
+    color: string;
+    domain: [number, number | 'auto'];
+    references?: { y: number; color: string }[];
+    height?: number;
+}
 
-            // Stress impact
-            const stressImpact = (lifestyle.stressMod - 1) * 5;
+// p10-p90 as a shaded range with the median line through it
+const BandChart: React.FC<BandChartProps> = ({ data, band, median, color, domain, references = [], height = 160 }) => (
+    <div style={{ height }}>
+        <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                <XAxis dataKey="day" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                <YAxis domain={domain} tick={AXIS_TICK} axisLine={false} tickLine={false} width={32} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} />
+                {references.map(r => (
+                    <ReferenceLine key={r.y} y={r.y} stroke={r.color} strokeDasharray="5 5" />
+                ))}
+                <Area type="monotone" dataKey={band} name="p10–p90" stroke="none" fill={color} fillOpacity={0.2} />
+                <Line type="monotone" dataKey={median} name="median" stroke={color} strokeWidth={2} dot={false} />
+            </ComposedChart>
+        </ResponsiveContainer>
+    </div>
+);
 
-            // Update fatigue
-            fatigue = Math.max(0, fatigue + (dailyLoad * 10) - (dailyRecovery * 15));
+const percent = (p: number): string => `${Math.round(p * 100)}%`;
 
-            // Update ACWR (simplified)
-            acwr = acwr * 0.9 + dailyLoad * 0.15;
+export const SimulatorTab: React.FC = () => {
+    const { state, history } = useSentient();
+    const [selectedSource, setSelectedSource] = useState<PlanSource>('timeline');
+    const [simulationDays, setSimulationDays] = useState(14);
+    const [runs, setRuns] = useState(200);
+    const [report, setReport] = useState<MonteCarloReport | null>(null);
+    const [progress, setProgress] = useState<number | null>(null);
 
-            // Update readiness
-            const readinessChange = dailyRecovery * 20 - (fatigue * 0.3) - stressImpact;
-            readiness = Math.max(20, Math.min(100, readiness + readinessChange));
+    const plan: TrainingPlan = useMemo(() => {
+        const start = clock.now();
+        if (selectedSource === 'timeline') return ScheduleGenerator.timelinePlan(state.timeline.sessions, start, simulationDays);
+        if (selectedSource === 'periodization') {
+            return ScheduleGenerator.macrocyclePlan(analyzePeriodization().current_macrocycle, start, simulationDays);
+        }
+        return ScheduleGenerator.archetypePlan(selectedSource, start, simulationDays);
+    }, [selectedSource, simulationDays, state.timeline.sessions]);
 
-            // Check for critical state
-            const isCritical = readiness < 40 || acwr > 1.5;
+    const { timeline, sleep, mindspace } = state;
+    const distributions = useMemo(
+        () => PredictiveEngine.lifestyleDistributions({ timeline, sleep, mindspace }, history.dataPoints),
+        [timeline, sleep, mindspace, history.dataPoints]
+    );
 
-            if (isCritical && failurePoint === null) {
-                failurePoint = i;
-            }
+    const plannedSessions = plan.days.reduce((n, d) => n + d.sessions.length, 0);
+    const restDays = plan.days.filter(d => d.sessions.length === 0).length;
 
-            days.push({
-                day: i,
-                readiness: Math.round(readiness),
-                acwr: Math.round(acwr * 100) / 100,
-                fatigue: Math.round(fatigue),
-                isCritical
-            });
-        }
+    const chartData = useMemo(() => report?.trajectory.map(t => ({
+        day: t.day,
+        date: t.date,
+        readiness_band: [t.readiness.p10, t.readiness.p90],
+        readiness: t.readiness.p50,
+        acwr_band: [t.acwr.p10, t.acwr.p90],
+        acwr: t.acwr.p50,
+        risk_band: [t.injury_risk.p10, t.injury_risk.p90],
+        risk: t.injury_risk.p50
+    })) ?? [], [report]);
 
-        // Generate recommendation
-        let recommendation = '';
-        if (failurePoint) {
-            recommendation = `Warning: System stress reaches critical levels around day ${failurePoint}. Consider adding recovery days or reducing volume.`;
-        } else if (days[days.length - 1].readiness > state.mindspace.readiness_score) {
-            recommendation = `This approach should improve readiness by ${days[days.length - 1].readiness - state.mindspace.readiness_score} points over ${simulationDays} days.`;
-        } else {
-            recommendation = `Readiness may decline slightly. Ensure adequate recovery between sessions.`;
+    const handleRunSimulation = async () => {
+        setProgress(0);
+        try {
+            setReport(await PredictiveEngine.runMonteCarlo(state, plan, distributions, runs, undefined, setProgress));
+        } catch (e) {
+            console.warn('[Simulator] Monte Carlo run failed:', e);
+        } finally {
+            setProgress(null);
         }
-
-        return {
-            days,
-            failurePoint,
-            recommendation,
-            finalReadiness: days[days.length - 1].readiness,
-            avgReadiness: Math.round(days.reduce((s, d) => s + d.readiness, 0) / days.length)
-        };
-    }, [hasRun, selectedSchedule, selectedLifestyle, simulationDays, state]);
-
-    const handleRunSimulation = () => {
-        setHasRun(true);
     };
 
     const handleReset = () => {
-        setHasRun(false);
+        setReport(null);
     };
 
+    const final = report?.trajectory[report.trajectory.length - 1];
+    const failing = !!report && report.failure_probability >= 0.2;
+    const sampled = distributions.history_days;
+
     return (
         <div className="pb-24 animate-in fade-in duration-500">
             {/* Header */}
             <div className="mb-6">
                 <h2 className="text-2xl font-bold gradient-text">What-If Simulator</h2>
                 <p className="text-sm text-muted-foreground">
-                    Predict how different training approaches affect your readiness
+                    Run a planned block hundreds of times against your own sleep, stress and compliance
                 </p>
             </div>
 
@@ -174,77 +143,99 @@ export const SimulatorTab: React.FC = () => {
                         Configure Scenario
                     </h3>
 
-                    {/* Schedule Selector */}
+                    {/* Plan Selector */}
                     <div className="mb-6">
                         <label className="text-xs text-muted-foreground uppercase tracking-wider mb-2 block">
-                            Training Schedule
+                            Training Plan
                         </label>
-                        <div className="grid grid-cols-1 gap-2">
-                            {SCHEDULE_ARCHETYPES.map((sched) => (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {PLAN_SOURCES.map((source) => (
                                 <button
-                                    key={sched.id}
-                                    onClick={() => { setSelectedSchedule(sched.id); setHasRun(false); }}
+                                    key={source.id}
+                                    onClick={() => { setSelectedSource(source.id); setReport(null); }}
                                     className={cn(
                                         "flex items-center gap-3 p-3 rounded-lg border text-left transition-all",
-                                        selectedSchedule === sched.id
+                                        selectedSource === source.id
                                             ? "border-primary bg-primary/10 text-white"
                                             : "border-white/10 bg-white/5 text-muted-foreground hover:bg-white/10"
                                     )}
                                 >
-                                    <sched.icon className="w-5 h-5" />
+                                    <source.icon className="w-5 h-5 shrink-0" />
                                     <div>
-                                        <div className="font-medium">{sched.name}</div>
-                                        <div className="text-xs opacity-60">{sched.description}</div>
+                                        <div className="font-medium">{source.name}</div>
+                                        <div className="text-xs opacity-60">{source.description}</div>
                                     </div>
                                 </button>
                             ))}
                         </div>
+                        <div className="mt-2 text-xs text-muted-foreground">
+                            {plan.name}: {plannedSessions} sessions, {restDays} rest days over {plan.days.length} days
+                        </div>
                     </div>
 
-                    {/* Lifestyle Selector */}
+                    {/* Lifestyle Sources */}
                     <div className="mb-6">
                         <label className="text-xs text-muted-foreground uppercase tracking-wider mb-2 block">
-                            Lifestyle Context
+                            Daily Variation
                         </label>
-                        <div className="flex flex-wrap gap-2">
-                            {LIFESTYLE_SCENARIOS.map((life) => (
-                                <button
-                                    key={life.id}
-                                    onClick={() => { setSelectedLifestyle(life.id); setHasRun(false); }}
-                                    className={cn(
-                                        "px-3 py-2 rounded-lg border text-sm transition-all",
-                                        selectedLifestyle === life.id
-                                            ? "border-primary bg-primary/10 text-white"
-                                            : "border-white/10 bg-white/5 text-muted-foreground hover:bg-white/10"
-                                    )}
-                                >
-                                    {life.name}
-                                </button>
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                            {([['Sleep', sampled.sleep], ['Stress', sampled.stress], ['Compliance', sampled.compliance]] as const).map(([label, days]) => (
+                                <div key={label} className="p-2 rounded-lg bg-white/5 border border-white/10">
+                                    <div className="text-sm text-white">{label}</div>
+                                    <div className={cn("text-[10px]", days > 0 ? "text-green-400" : "text-muted-foreground")}>
+                                        {days > 0 ? `${days} days of history` : 'default spread'}
+                                    </div>
+                                </div>
                             ))}
                         </div>
                     </div>
 
                     {/* Days Slider */}
-                    <div className="mb-6">
+                    <div className="mb-4">
                         <label className="text-xs text-muted-foreground uppercase tracking-wider mb-2 block">
                             Simulation Duration: {simulationDays} days
                         </label>
                         <input
                             type="range"
                             min={7}
-                            max={28}
+                            max={42}
                             value={simulationDays}
-                            onChange={(e) => { setSimulationDays(Number(e.target.value)); setHasRun(false); }}
+                            onChange={(e) => { setSimulationDays(Number(e.target.value)); setReport(null); }}
                             className="w-full accent-primary"
                         />
                     </div>
 
+                    {/* Run Count */}
+                    <div className="mb-6 flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground uppercase tracking-wider">Runs</span>
+                        {RUN_COUNTS.map(n => (
+                            <button
+                                key={n}
+                                onClick={() => { setRuns(n); setReport(null); }}
+                                className={cn(
+                                    "px-3 py-1 rounded-lg border text-xs transition-all",
+                                    runs === n
+                                        ? "border-primary bg-primary/10 text-white"
+                                        : "border-white/10 bg-white/5 text-muted-foreground hover:bg-white/10"
+                                )}
+                            >
+                                {n}
+                            </button>
+                        ))}
+                    </div>
+
                     {/* Run Button */}
                     <Button
-                        onClick={hasRun ? handleReset : handleRunSimulation}
+                        onClick={report ? handleReset : handleRunSimulation}
+                        disabled={progress !== null}
                         className="w-full"
                     >
-                        {hasRun ? (
+                        {progress !== null ? (
+                            <>
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                Simulating {runs} runs… {Math.round(progress * 100)}%
+                            </>
+                        ) : report ? (
                             <>
                                 <RotateCcw className="w-4 h-4 mr-2" />
                                 Reset Simulation
@@ -265,102 +256,127 @@ export const SimulatorTab: React.FC = () => {
                         Predicted Trajectory
                     </h3>
 
-                    {!hasRun ? (
+                    {!report ? (
                         <div className="h-[300px] flex items-center justify-center text-muted-foreground">
                             <div className="text-center">
                                 <Activity className="w-12 h-12 mx-auto mb-3 opacity-30" />
                                 <p>Configure scenario and run simulation</p>
                             </div>
                         </div>
-                    ) : simulation && (
+                    ) : (
                         <motion.div
                             initial={{ opacity: 0 }}
                             animate={{ opacity: 1 }}
                         >
-                            {/* Chart */}
-                            <div className="h-[250px] mb-4">
-                                <ResponsiveContainer width="100%" height="100%">
-                                    <AreaChart data={simulation.days}>
-                                        <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
-                                        <XAxis
-                                            dataKey="day"
-                                            tick={{ fill: 'rgba(255,255,255,0.3)', fontSize: 10 }}
-                                            axisLine={false}
-                                            tickLine={false}
-                                        />
-                                        <YAxis
-                                            domain={[0, 100]}
-                                            tick={{ fill: 'rgba(255,255,255,0.3)', fontSize: 10 }}
-                                            axisLine={false}
-                                            tickLine={false}
-                                        />
-                                        <Tooltip
-                                            contentStyle={{
-                                                background: 'rgba(0,0,0,0.9)',
-                                                border: '1px solid rgba(255,255,255,0.1)',
-                                                borderRadius: '8px'
-                                            }}
-                                        />
-                                        <ReferenceLine y={40} stroke="rgba(239,68,68,0.5)" strokeDasharray="5 5" />
-                                        <ReferenceLine y={state.mindspace.readiness_score} stroke="rgba(255,255,255,0.2)" strokeDasharray="3 3" />
-                                        <Area
-                                            type="monotone"
-                                            dataKey="readiness"
-                                            stroke="hsl(var(--primary))"
-                                            fill="url(#readinessGradient)"
-                                            strokeWidth={2}
-                                        />
-                                        <defs>
-                                            <linearGradient id="readinessGradient" x1="0" y1="0" x2="0" y2="1">
-                                                <stop offset="0%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
-                                                <stop offset="100%" stopColor="hsl(var(--primary))" stopOpacity={0} />
-                                            </linearGradient>
-                                        </defs>
-                                    </AreaChart>
-                                </ResponsiveContainer>
+                            {/* Charts */}
+                            <div className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">
+                                Readiness (median, 10th–90th percentile)
                             </div>
+                            <BandChart
+                                data={chartData}
+                                band="readiness_band"
+                                median="readiness"
+                                color="hsl(var(--primary))"
+                                domain={[0, 100]}
+                                references={[
+                                    { y: 20, color: 'rgba(239,68,68,0.5)' },
+                                    { y: state.mindspace.readiness_score, color: 'rgba(255,255,255,0.2)' }
+                                ]}
+                            />
 
-                            {/* Stats */}
-                            <div className="grid grid-cols-3 gap-4 mb-4">
-                                <div className="text-center p-3 bg-white/5 rounded-lg">
-                                    <div className="text-2xl font-bold text-primary">{simulation.finalReadiness}</div>
-                                    <div className="text-[10px] text-muted-foreground uppercase">Final</div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-3">
+                                <div>
+                                    <div className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">ACWR</div>
+                                    <BandChart
+                                        data={chartData}
+                                        band="acwr_band"
+                                        median="acwr"
+                                        color="#f59e0b"
+                                        domain={[0, 'auto']}
+                                        references={[
+                                            { y: 0.8, color: 'rgba(255,255,255,0.2)' },
+                                            { y: 1.5, color: 'rgba(239,68,68,0.5)' }
+                                        ]}
+                                        height={120}
+                                    />
+                                </div>
+                                <div>
+                                    <div className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">Injury Risk</div>
+                                    <BandChart
+                                        data={chartData}
+                                        band="risk_band"
+                                        median="risk"
+                                        color="#ef4444"
+                                        domain={[0, 100]}
+                                        height={120}
+                                    />
                                 </div>
+                            </div>
+
+                            {/* Stats */}
+                            <div className="grid grid-cols-3 gap-4 my-4">
                                 <div className="text-center p-3 bg-white/5 rounded-lg">
-                                    <div className="text-2xl font-bold text-white">{simulation.avgReadiness}</div>
-                                    <div className="text-[10px] text-muted-foreground uppercase">Average</div>
+                                    <div className="text-2xl font-bold text-primary">{final?.readiness.p50}</div>
+                                    <div className="text-[10px] text-muted-foreground">{final?.readiness.p10}–{final?.readiness.p90}</div>
+                                    <div className="text-[10px] text-muted-foreground uppercase">Final Readiness</div>
                                 </div>
                                 <div className="text-center p-3 bg-white/5 rounded-lg">
                                     <div className={cn(
                                         "text-2xl font-bold",
-                                        simulation.failurePoint ? "text-red-400" : "text-green-400"
+                                        failing ? "text-red-400" : report.failure_probability > 0 ? "text-amber-400" : "text-green-400"
                                     )}>
-                                        {simulation.failurePoint ? `Day ${simulation.failurePoint}` : 'None'}
+                                        {percent(report.failure_probability)}
                                     </div>
-                                    <div className="text-[10px] text-muted-foreground uppercase">Risk Point</div>
+                                    <div className="text-[10px] text-muted-foreground uppercase">Failure Chance</div>
+                                </div>
+                                <div className="text-center p-3 bg-white/5 rounded-lg">
+                                    <div className="text-2xl font-bold text-white">
+                                        {report.median_failure_day !== null ? `Day ${report.median_failure_day}` : 'None'}
+                                    </div>
+                                    <div className="text-[10px] text-muted-foreground uppercase">Typical Failure</div>
                                 </div>
                             </div>
 
                             {/* Recommendation */}
                             <div className={cn(
                                 "p-4 rounded-lg border",
-                                simulation.failurePoint
+                                failing
                                     ? "bg-red-500/10 border-red-500/30"
                                     : "bg-green-500/10 border-green-500/30"
                             )}>
                                 <div className="flex items-start gap-3">
-                                    {simulation.failurePoint ? (
+                                    {failing ? (
                                         <AlertTriangle className="w-5 h-5 text-red-400 mt-0.5" />
                                     ) : (
                                         <TrendingUp className="w-5 h-5 text-green-400 mt-0.5" />
                                     )}
-                                    <p className="text-sm text-white/80">{simulation.recommendation}</p>
+                                    <p className="text-sm text-white/80">{report.recommendation}</p>
                                 </div>
                             </div>
+                            <div className="mt-2 text-[10px] text-muted-foreground">
+                                {report.runs} runs of {report.plan_name}. Failure means readiness below 20 or systemic overload.
+                            </div>
+                            {report.load_provenance.level !== 'real' && (
+                                <div className="mt-2 flex items-center gap-2 text-[10px] text-muted-foreground">
+                                    <ProvenanceBadge provenance={report.load_provenance} />
+                                    {report.load_provenance.real_days === 0
+                                        ? 'No recorded training load: ACWR stays neutral until the block fills 28 days.'
+                                        : `ACWR starts from ${report.load_provenance.real_days} of 28 days of recorded load and stays neutral until the window is full.`}
+                                </div>
+                            )}
                         </motion.div>
                     )}
                 </GlassCard>
             </div>
+
+            {/* Variants of the selected plan; edits name its sessions, so a new plan starts over */}
+            <VariantComparison
+                key={`${selectedSource}-${simulationDays}`}
+                state={state}
+                plan={plan}
+                distributions={distributions}
+                runs={runs}
+            />
         </div>
     );
 };
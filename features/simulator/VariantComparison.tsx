@@ -0,0 +1,350 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { GitCompare, Plus, Trash2, Trophy, Loader2, X } from 'lucide-react';
+import {
+    LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
+    ResponsiveContainer, ReferenceLine, Legend
+} from 'recharts';
+import { GlassCard, Button, cn } from '../../components/ui';
+import {
+    GlobalState, LifestyleDistributions, PlanEdit, PlanVariant, TrainingPlan, VariantComparison as Comparison
+} from '../../types';
+import { PredictiveEngine } from '../../experts/doctor/predictiveEngine';
+import { analyzePeriodization } from '../../experts/performance/PeriodizationEngine';
+import { toDateKey } from '../../experts/performance/loadHistoryStore';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
+
+const MAX_VARIANTS = 4;     // Including the plan as it stands
+const VARIANT_COLORS = ['#94a3b8', 'hsl(var(--primary))', '#f59e0b', '#a855f7'];
+
+const EDIT_KINDS: { id: PlanEdit['kind']; label: string }[] = [
+    { id: 'move_session', label: 'Move session' },
+    { id: 'add_session', label: 'Double up (copy session)' },
+    { id: 'remove_session', label: 'Drop session' },
+    { id: 'deload', label: 'Deload week' }
+];
+
+const DELOAD_FACTORS = [0.5, 0.6, 0.7];
+
+const SELECT_CLASS = 'bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-xs text-white';
+
+const AXIS_TICK = { fill: 'rgba(255,255,255,0.3)', fontSize: 10 };
+
+const dayLabel = (date: string): string =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+const baseVariant = (): PlanVariant => ({ id: 'base', name: 'As planned', edits: [] });
+
+interface VariantComparisonProps {
+    state: GlobalState;
+    plan: TrainingPlan;
+    distributions: LifestyleDistributions;
+    runs: number;
+}
+
+// ============================================================================
+// EDIT BUILDER
+// ============================================================================
+
+const EditBuilder: React.FC<{ plan: TrainingPlan; onAdd: (edit: PlanEdit) => void }> = ({ plan, onAdd }) => {
+    const sessions = useMemo(
+        () => plan.days.flatMap(d => d.sessions.map(s => ({ id: s.id, label: `${dayLabel(d.date)} · ${s.title}` }))),
+        [plan]
+    );
+    const [kind, setKind] = useState<PlanEdit['kind']>('move_session');
+    const [sessionId, setSessionId] = useState('');
+    const [date, setDate] = useState(plan.days[0]?.date ?? '');
+    const [factor, setFactor] = useState(0.6);
+
+    const chosenSession = sessionId || sessions[0]?.id;
+    const needsSession = kind !== 'deload';
+
+    const add = () => {
+        if (kind === 'deload') onAdd({ kind, start_date: date, days: 7, factor });
+        else if (!chosenSession) return;
+        else if (kind === 'remove_session') onAdd({ kind, session_id: chosenSession });
+        else onAdd({ kind, session_id: chosenSession, to_date: date });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select value={kind} onChange={e => setKind(e.target.value as PlanEdit['kind'])} className={SELECT_CLASS}>
+                {EDIT_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+            </select>
+            {needsSession && (
+                <select value={chosenSession} onChange={e => setSessionId(e.target.value)} className={cn(SELECT_CLASS, 'max-w-[200px]')}>
+                    {sessions.length === 0 && <option value="">No sessions in plan</option>}
+                    {sessions.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+            )}
+            {kind !== 'remove_session' && (
+                <>
+                    <span className="text-xs text-muted-foreground">{kind === 'deload' ? 'from' : 'to'}</span>
+                    <select value={date} onChange={e => setDate(e.target.value)} className={SELECT_CLASS}>
+                        {plan.days.map(d => <option key={d.date} value={d.date}>{dayLabel(d.date)}</option>)}
+                    </select>
+                </>
+            )}
+            {kind === 'deload' && (
+                <select value={factor} onChange={e => setFactor(Number(e.target.value))} className={SELECT_CLASS}>
+                    {DELOAD_FACTORS.map(f => <option key={f} value={f}>{Math.round(f * 100)}% volume</option>)}
+                </select>
+            )}
+            <button onClick={add} disabled={needsSession && !chosenSession}
+                className="p-1.5 rounded-lg border border-white/10 text-muted-foreground hover:text-white disabled:opacity-30">
+                <Plus className="w-3.5 h-3.5" />
+            </button>
+        </div>
+    );
+};
+
+const describeEdit = (edit: PlanEdit, plan: TrainingPlan): string => {
+    if (edit.kind === 'deload') return `Deload ${edit.days} days from ${dayLabel(edit.start_date)} at ${Math.round(edit.factor * 100)}%`;
+    const title = plan.days.flatMap(d => d.sessions).find(s => s.id === edit.session_id)?.title ?? 'Session';
+    if (edit.kind === 'remove_session') return `Drop ${title}`;
+    return `${edit.kind === 'move_session' ? 'Move' : 'Copy'} ${title} to ${dayLabel(edit.to_date)}`;
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const VariantComparison: React.FC<VariantComparisonProps> = ({ state, plan, distributions, runs }) => {
+    const [variants, setVariants] = useState<PlanVariant[]>(() => [
+        baseVariant(),
+        { id: 'variant-1', name: 'Variant A', edits: [] }
+    ]);
+    const [comparison, setComparison] = useState<Comparison | null>(null);
+    const [progress, setProgress] = useState<number | null>(null);
+    // Variants edited while a comparison runs make its result stale
+    const latestVariants = useRef(variants);
+    latestVariants.current = variants;
+
+    const target = useMemo(() => {
+        const event = analyzePeriodization().current_macrocycle.target_event;
+        return { date: toDateKey(new Date(event.date)), label: event.name };
+    }, []);
+
+    const update = (id: string, change: Partial<PlanVariant>) => {
+        setVariants(vs => vs.map(v => (v.id === id ? { ...v, ...change } : v)));
+        setComparison(null);
+    };
+
+    const addVariant = () => {
+        setVariants(vs => [
+            ...vs,
+            { id: `variant-${Date.now()}`, name: `Variant ${String.fromCharCode(64 + vs.length)}`, edits: [] }
+        ]);
+        setComparison(null);
+    };
+
+    const removeVariant = (id: string) => {
+        setVariants(vs => vs.filter(v => v.id !== id));
+        setComparison(null);
+    };
+
+    const handleCompare = async () => {
+        setProgress(0);
+        try {
+            const result = await PredictiveEngine.compareVariants(state, plan, variants, distributions, target, runs, undefined, setProgress);
+            if (latestVariants.current === variants) setComparison(result);
+        } catch (e) {
+            console.warn('[Simulator] Variant comparison failed:', e);
+        } finally {
+            setProgress(null);
+        }
+    };
+
+    // One row per day, one readiness and ACWR column per variant
+    const chartData = useMemo(() => comparison
+        ? plan.days.map((d, i) => {
+            const row: Record<string, number | string> = { day: i + 1, date: d.date };
+            comparison.outcomes.forEach(o => {
+                row[`${o.variant.id}_readiness`] = o.report.trajectory[i].readiness.p50;
+                row[`${o.variant.id}_acwr`] = o.report.trajectory[i].acwr.p50;
+            });
+            return row;
+        })
+        : [], [comparison, plan]);
+
+    const targetDay = comparison ? plan.days.findIndex(d => d.date === comparison.target_date) + 1 : null;
+    const colorOf = (id: string) => VARIANT_COLORS[Math.max(0, variants.findIndex(v => v.id === id)) % VARIANT_COLORS.length];
+
+    return (
+        <GlassCard className="p-6 mt-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-white flex items-center gap-2">
+                    <GitCompare className="w-4 h-4 text-primary" />
+                    Compare Variants
+                </h3>
+                <span className="text-xs text-muted-foreground">
+                    {runs} runs each, every variant facing the same days of sleep, stress and compliance
+                </span>
+            </div>
+
+            {/* Variant Editors */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                {variants.map(variant => (
+                    <div key={variant.id} className="p-4 rounded-lg border border-white/10 bg-white/5">
+                        <div className="flex items-center gap-2 mb-3">
+                            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ background: colorOf(variant.id) }} />
+                            {variant.id === 'base' ? (
+                                <span className="text-sm font-medium text-white flex-1">{variant.name}</span>
+                            ) : (
+                                <>
+                                    <input
+                                        value={variant.name}
+                                        onChange={e => update(variant.id, { name: e.target.value })}
+                                        className="flex-1 bg-transparent border-b border-white/10 text-sm font-medium text-white focus:outline-none"
+                                    />
+                                    <button onClick={() => removeVariant(variant.id)} className="text-muted-foreground hover:text-white">
+                                        <X className="w-4 h-4" />
+                                    </button>
+                                </>
+                            )}
+                        </div>
+
+                        {variant.id === 'base' ? (
+                            <p className="text-xs text-muted-foreground">{plan.name}, unchanged, with your usual sleep.</p>
+                        ) : (
+                            <>
+                                <div className="space-y-1 mb-3">
+                                    {variant.edits.map((edit, i) => (
+                                        <div key={i} className="flex items-center justify-between text-xs text-white/80">
+                                            <span>{describeEdit(edit, plan)}</span>
+                                            <button
+                                                onClick={() => update(variant.id, { edits: variant.edits.filter((_, j) => j !== i) })}
+                                                className="text-muted-foreground hover:text-white"
+                                            >
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                <EditBuilder plan={plan} onAdd={edit => update(variant.id, { edits: [...variant.edits, edit] })} />
+                                <div className="flex items-center gap-2 mt-3 text-xs text-muted-foreground">
+                                    <span>Sleep target</span>
+                                    <input
+                                        type="number"
+                                        min={5}
+                                        max={10}
+                                        step={0.5}
+                                        placeholder="usual"
+                                        value={variant.sleep_target_hours ?? ''}
+                                        onChange={e => update(variant.id, {
+                                            sleep_target_hours: e.target.value === '' ? undefined : Number(e.target.value)
+                                        })}
+                                        className="w-16 bg-white/5 border border-white/10 rounded px-2 py-1 text-white"
+                                    />
+                                    <span>h</span>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex gap-3 mb-6">
+                <Button variant="outline" onClick={addVariant} disabled={variants.length >= MAX_VARIANTS}>
+                    <Plus className="w-4 h-4 mr-2" /> Add Variant
+                </Button>
+                <Button onClick={handleCompare} disabled={progress !== null || variants.length < 2} className="flex-1">
+                    {progress !== null ? (
+                        <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Simulating {variants.length} variants… {Math.round(progress * 100)}%</>
+                    ) : (
+                        <><GitCompare className="w-4 h-4 mr-2" /> Compare</>
+                    )}
+                </Button>
+            </div>
+
+            {comparison && (
+                <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                    {/* Divergence Charts */}
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mb-4">
+                        {([['readiness', 'Median Readiness', [0, 100]], ['acwr', 'Median ACWR', [0, 'auto']]] as const).map(([metric, title, domain]) => (
+                            <div key={metric}>
+                                <div className="text-[10px] text-muted-foreground uppercase tracking-wider mb-1">{title}</div>
+                                <div className="h-[200px]">
+                                    <ResponsiveContainer width="100%" height="100%">
+                                        <LineChart data={chartData}>
+                                            <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                                            <XAxis dataKey="day" tick={AXIS_TICK} axisLine={false} tickLine={false} />
+                                            <YAxis domain={[...domain]} tick={AXIS_TICK} axisLine={false} tickLine={false} width={32} />
+                                            <Tooltip contentStyle={{
+                                                background: 'rgba(0,0,0,0.9)',
+                                                border: '1px solid rgba(255,255,255,0.1)',
+                                                borderRadius: '8px'
+                                            }} />
+                                            <Legend wrapperStyle={{ fontSize: 10 }} />
+                                            {targetDay && (
+                                                <ReferenceLine x={targetDay} stroke="rgba(255,255,255,0.4)" strokeDasharray="4 4" />
+                                            )}
+                                            {comparison.outcomes.map(o => (
+                                                <Line
+                                                    key={o.variant.id}
+                                                    type="monotone"
+                                                    dataKey={`${o.variant.id}_${metric}`}
+                                                    name={o.variant.name}
+                                                    stroke={colorOf(o.variant.id)}
+                                                    strokeWidth={o.variant.id === comparison.best_variant_id ? 2.5 : 1.5}
+                                                    dot={false}
+                                                />
+                                            ))}
+                                        </LineChart>
+                                    </ResponsiveContainer>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    {/* Outcome Table */}
+                    <div className="overflow-x-auto mb-4">
+                        <table className="w-full text-xs">
+                            <thead>
+                                <tr className="text-muted-foreground uppercase tracking-wider text-[10px]">
+                                    <th className="text-left py-2">Variant</th>
+                                    <th className="text-right py-2">Readiness @ {comparison.target_label}</th>
+                                    <th className="text-right py-2">Failure</th>
+                                    <th className="text-right py-2">Avg Risk</th>
+                                    <th className="text-right py-2">Peak ACWR</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {comparison.outcomes.map(o => {
+                                    const best = o.variant.id === comparison.best_variant_id;
+                                    return (
+                                        <tr key={o.variant.id} className={cn('border-t border-white/5', best ? 'text-white' : 'text-white/70')}>
+                                            <td className="py-2 flex items-center gap-2">
+                                                <span className="w-2 h-2 rounded-full" style={{ background: colorOf(o.variant.id) }} />
+                                                {o.variant.name}
+                                                {best && <Trophy className="w-3 h-3 text-yellow-400" />}
+                                            </td>
+                                            <td className="py-2 text-right font-mono">
+                                                {o.target_readiness.p50}
+                                                <span className="text-muted-foreground"> ({o.target_readiness.p10}–{o.target_readiness.p90})</span>
+                                            </td>
+                                            <td className={cn('py-2 text-right font-mono', o.report.failure_probability >= 0.2 && 'text-red-400')}>
+                                                {Math.round(o.report.failure_probability * 100)}%
+                                            </td>
+                                            <td className="py-2 text-right font-mono">{o.mean_injury_risk}</td>
+                                            <td className={cn('py-2 text-right font-mono', o.peak_acwr > 1.5 && 'text-amber-400')}>
+                                                {o.peak_acwr.toFixed(2)}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="p-4 rounded-lg border bg-primary/10 border-primary/30 flex items-start gap-3">
+                        <Trophy className="w-5 h-5 text-yellow-400 mt-0.5 shrink-0" />
+                        <p className="text-sm text-white/80">{comparison.summary}</p>
+                    </div>
+                    {/* Every variant starts from the same load history */}
+                    <ProvenanceBadge provenance={comparison.outcomes[0]?.report.load_provenance} className="mt-2" />
+                </motion.div>
+            )}
+        </GlassCard>
+    );
+};
@@ -20,6 +20,7 @@ import { analyzeSleep } from '../../services/SleepArchitectureEngine';
 import { SLEEP_STAGE_TARGETS } from '../../types/sleep-architecture';
 import { scoreToStatus, getStatusLabel, getStatusTextColor } from '../../ui/shared/statusUtils';
 import { ConnectWearableCard } from '../../ui/shared/ConnectWearableCard';
+import { ProvenanceBadge } from '../../ui/shared/ProvenanceBadge';
 
 // ============================================================================
 // SUB-COMPONENTS
@@ -251,7 +252,8 @@ export const SleepArchitectureCard: React.FC<SleepArchitectureCardProps> = ({
         weekly_average,
         trends,
         recommendations,
-        bedtime_recommendation
+        bedtime_recommendation,
+        provenance
     } = analysis;
 
     if (compact) {
@@ -278,6 +280,7 @@ export const SleepArchitectureCard: React.FC<SleepArchitectureCardProps> = ({
                         <div className="text-xs text-muted-foreground mt-1">
                             {current_night.sleep_efficiency.toFixed(0)}% efficient
                         </div>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
             </GlassCard>
@@ -295,6 +298,7 @@ export const SleepArchitectureCard: React.FC<SleepArchitectureCardProps> = ({
                     <div>
                         <h3 className="font-semibold text-white">Sleep Architecture</h3>
                         <p className="text-xs text-muted-foreground">Last night's breakdown</p>
+                        <ProvenanceBadge provenance={provenance} className="mt-1" />
                     </div>
                 </div>
                 <TrendBadge trend={trends.quality} label="Quality" />
@@ -0,0 +1,224 @@
+/**
+ * Squad Dashboard
+ *
+ * The coach's triage view: every athlete on the roster ranked by Red Day
+ * status, ACWR zone and readiness. Opening an athlete loads their data into
+ * the regular tabs.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Users, UserPlus, ChevronRight, AlertTriangle, Trash2, Loader2 } from 'lucide-react';
+import { GlassCard, Button, cn } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import { ACWRZone } from '../../types/load-management';
+import { SquadAthleteStatus, SquadSortKey } from '../../types/team';
+import { assessAthlete, loadSquadStatus, sortSquad } from '../../services/team/squadService';
+import { addAthlete, removeAthlete, switchAthlete, getActiveAthlete, getRoster, PRIMARY_ATHLETE_ID } from '../../services/team/teamService';
+
+const SORT_LABELS: Record<SquadSortKey, string> = {
+    attention: 'Needs attention',
+    readiness: 'Readiness',
+    acwr: 'ACWR'
+};
+
+const ZONE_STYLES: Record<ACWRZone, { label: string; className: string }> = {
+    undertrained: { label: 'Undertrained', className: 'bg-blue-500/20 text-blue-300' },
+    low_risk: { label: 'Low risk', className: 'bg-green-500/20 text-green-300' },
+    optimal: { label: 'Optimal', className: 'bg-green-500/20 text-green-300' },
+    moderate_risk: { label: 'Moderate', className: 'bg-yellow-500/20 text-yellow-300' },
+    high_risk: { label: 'High risk', className: 'bg-orange-500/20 text-orange-300' },
+    very_high_risk: { label: 'Very high', className: 'bg-red-500/20 text-red-300' }
+};
+
+const readinessColor = (readiness: number) =>
+    readiness >= 75 ? 'text-green-400' : readiness >= 50 ? 'text-yellow-400' : 'text-red-400';
+
+const AthleteRow: React.FC<{
+    status: SquadAthleteStatus;
+    isActive: boolean;
+    onOpen: () => void;
+    onRemove?: () => void;
+}> = ({ status, isActive, onOpen, onRemove }) => {
+    const { athlete } = status;
+    const zone = status.acwr_zone ? ZONE_STYLES[status.acwr_zone] : null;
+
+    return (
+        <div className={cn(
+            'flex items-center gap-4 p-4 rounded-xl border transition-colors',
+            status.red_day ? 'bg-red-500/10 border-red-500/30' : 'bg-white/5 border-white/10',
+            isActive && 'ring-1 ring-primary/40'
+        )}>
+            <div className="w-12 text-center">
+                <div className={cn('text-xl font-bold', status.readiness !== null ? readinessColor(status.readiness) : 'text-white/30')}>
+                    {status.readiness ?? '—'}
+                </div>
+                <div className="text-[9px] uppercase tracking-wider text-white/40">Ready</div>
+            </div>
+
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                    <span className="font-semibold text-white truncate">{athlete.name}</span>
+                    {isActive && <span className="text-[9px] uppercase tracking-wider text-primary">Open</span>}
+                    {status.red_day && (
+                        <span className="px-2 py-0.5 rounded text-[10px] font-bold bg-red-500/20 text-red-300">RED DAY</span>
+                    )}
+                </div>
+                <div className="text-xs text-white/50 flex items-center gap-2 mt-1">
+                    {athlete.sport && <span>{athlete.sport}</span>}
+                    {status.acwr !== null && <span>ACWR {status.acwr.toFixed(2)}</span>}
+                    {zone && <span className={cn('px-1.5 py-0.5 rounded text-[10px]', zone.className)}>{zone.label}</span>}
+                    {!status.has_data && <span>No data yet</span>}
+                </div>
+                {status.red_day_signals.length > 0 && (
+                    <div className="text-[10px] text-white/40 mt-1 truncate">{status.red_day_signals.join(' · ')}</div>
+                )}
+            </div>
+
+            {onRemove && (
+                <button onClick={onRemove} title="Remove athlete" className="p-2 text-white/30 hover:text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            )}
+            <button onClick={onOpen} title="Open athlete" className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10">
+                <ChevronRight className="w-5 h-5" />
+            </button>
+        </div>
+    );
+};
+
+export const SquadDashboard: React.FC = () => {
+    const { state, dispatch } = useSentient();
+    const [loaded, setLoaded] = useState<SquadAthleteStatus[] | null>(null);
+    const [sortKey, setSortKey] = useState<SquadSortKey>('attention');
+    const [newName, setNewName] = useState('');
+    const [newSport, setNewSport] = useState('');
+    const [error, setError] = useState('');
+    const [rosterVersion, setRosterVersion] = useState(0);
+    const activeId = getActiveAthlete().id;
+
+    // Other athletes' databases are read when the roster changes; the open
+    // athlete follows live state
+    useEffect(() => {
+        let cancelled = false;
+        loadSquadStatus(state).then(result => {
+            if (!cancelled) setLoaded(result);
+        });
+        return () => { cancelled = true; };
+    }, [rosterVersion]);
+
+    const squad = useMemo(
+        () => loaded?.map(s => s.athlete.id === activeId ? assessAthlete(s.athlete, state) : s) ?? null,
+        [loaded, state, activeId]
+    );
+
+    const ranked = useMemo(() => squad ? sortSquad(squad, sortKey) : [], [squad, sortKey]);
+    const redDays = squad?.filter(s => s.red_day).length ?? 0;
+
+    const handleAdd = () => {
+        setError('');
+        try {
+            addAthlete(newName, newSport);
+            setNewName('');
+            setNewSport('');
+            setRosterVersion(v => v + 1);
+        } catch (err: any) {
+            setError(err?.message || 'Could not add athlete');
+        }
+    };
+
+    const handleOpen = async (id: string) => {
+        if (id === activeId) {
+            dispatch({ type: 'SET_TAB', payload: 'home' });
+            return;
+        }
+        try {
+            await switchAthlete(id);
+        } catch (err: any) {
+            console.error('[Squad] Failed to open athlete:', err);
+            setError(err?.message || 'Could not open athlete');
+        }
+    };
+
+    const handleRemove = async (status: SquadAthleteStatus) => {
+        if (!window.confirm(`Remove ${status.athlete.name} and delete all of their data?`)) return;
+        setError('');
+        try {
+            await removeAthlete(status.athlete.id);
+            setRosterVersion(v => v + 1);
+        } catch (err: any) {
+            setError(err?.message || 'Could not remove athlete');
+        }
+    };
+
+    return (
+        <motion.div
+            key="squad"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -10 }}
+            className="space-y-6 pb-24"
+        >
+            <GlassCard className="p-6">
+                <div className="flex items-center gap-4">
+                    <div className="p-3 rounded-xl bg-indigo-500/20"><Users className="w-6 h-6 text-indigo-400" /></div>
+                    <div className="flex-1">
+                        <h2 className="text-2xl font-bold text-white">Squad</h2>
+                        <p className="text-sm text-white/60">
+                            {getRoster().coach_name} · {squad?.length ?? getRoster().athletes.length} athletes
+                            {redDays > 0 && <span className="text-red-400"> · {redDays} on a Red Day</span>}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="flex gap-2 mt-4">
+                    {(Object.keys(SORT_LABELS) as SquadSortKey[]).map(key => (
+                        <button key={key} onClick={() => setSortKey(key)}
+                            className={cn(
+                                'px-3 py-1.5 rounded-full text-xs transition-colors',
+                                sortKey === key ? 'bg-primary/20 text-white border border-primary/30' : 'bg-white/5 text-white/50 hover:text-white'
+                            )}>
+                            {SORT_LABELS[key]}
+                        </button>
+                    ))}
+                </div>
+            </GlassCard>
+
+            {squad === null ? (
+                <div className="flex items-center justify-center gap-2 text-sm text-white/50 py-8">
+                    <Loader2 className="w-4 h-4 animate-spin" /> Loading squad…
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {ranked.map(status => (
+                        <AthleteRow
+                            key={status.athlete.id}
+                            status={status}
+                            isActive={status.athlete.id === activeId}
+                            onOpen={() => handleOpen(status.athlete.id)}
+                            onRemove={status.athlete.id !== PRIMARY_ATHLETE_ID && status.athlete.id !== activeId
+                                ? () => handleRemove(status)
+                                : undefined}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <GlassCard className="p-4 space-y-3">
+                <div className="text-xs uppercase tracking-widest font-bold text-white/60 flex items-center gap-2">
+                    <UserPlus className="w-4 h-4" /> Add Athlete
+                </div>
+                <div className="flex gap-2">
+                    <input value={newName} onChange={e => setNewName(e.target.value)} placeholder="Name"
+                        className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                    <input value={newSport} onChange={e => setNewSport(e.target.value)} placeholder="Sport (optional)"
+                        className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white" />
+                    <Button size="sm" variant="outline" disabled={!newName.trim()} onClick={handleAdd}>Add</Button>
+                </div>
+                {error && (
+                    <div className="text-xs text-red-300 flex items-center gap-2"><AlertTriangle className="w-3 h-3" /> {error}</div>
+                )}
+            </GlassCard>
+        </motion.div>
+    );
+};
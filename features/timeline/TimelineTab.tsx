@@ -3,13 +3,14 @@ import React, { useMemo, useState, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
     Calendar, Loader2, Camera, Plus, Users, AlertTriangle, Zap, Sun, Moon, Coffee, Dumbbell,
-    Target, Brain
+    Target, Brain, Watch
 } from "lucide-react";
 import { GlassCard, Button, Badge, cn } from "../../components/ui";
 import { useSentient } from "../../store/SentientContext";
 import { Session, AnalysisPhase } from "../../types";
 import { SessionEditorModal } from "./components/SessionEditorModal";
 import { detectScheduleGroups, extractSessionsForContext } from "../../experts/orchestrator/ai";
+import { importActivityFiles } from "../../services/import/activityImporter";
 
 import { TimelineProtocolCard } from "./TimelineProtocolCard";
 import {
@@ -40,6 +41,10 @@ export const TimelineTab = () => {
     const [scannedImage, setScannedImage] = useState<{ data: string, type: string } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // Activity File Import State
+    const [isImportingActivities, setIsImportingActivities] = useState(false);
+    const activityInputRef = useRef<HTMLInputElement>(null);
+
     // --- 1. INTELLIGENCE ENGINE INTEGRATION ---
     const intelligence = useMemo(() => {
         try {
@@ -239,6 +244,22 @@ export const TimelineTab = () => {
         setScannedImage(null);
     };
 
+    const handleActivityImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+
+        setIsImportingActivities(true);
+        const batch = await importActivityFiles(files, state.user_profile);
+        if (batch.imported.length > 0) {
+            sync('activities_imported', batch.imported.map(r => r.session));
+        }
+        if (batch.failed.length > 0) {
+            alert(`Could not import ${batch.failed.map(f => `${f.file_name} (${f.error})`).join(', ')}`);
+        }
+        setIsImportingActivities(false);
+    };
+
     return (
         <div className="pb-24 animate-in fade-in duration-500 min-h-[600px] relative">
 
@@ -266,6 +287,7 @@ export const TimelineTab = () => {
             </div>
 
             <input type="file" ref={fileInputRef} className="hidden" accept="image/*,application/pdf" onChange={handleImageUpload} />
+            <input type="file" ref={activityInputRef} className="hidden" accept=".fit,.gpx,.tcx" multiple onChange={handleActivityImport} />
 
             <AnimatePresence>
                 {editingSession && (
@@ -468,6 +490,15 @@ export const TimelineTab = () => {
 
             {/* ACTION BUTTONS */}
             <div className="fixed bottom-12 right-6 flex flex-col gap-4 z-40">
+                <motion.button
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    onClick={() => activityInputRef.current?.click()}
+                    className="w-14 h-14 rounded-full bg-white/10 text-white shadow-glow-primary flex items-center justify-center border border-white/20"
+                    title="Import activity files"
+                >
+                    {isImportingActivities ? <Loader2 className="w-6 h-6 animate-spin" /> : <Watch className="w-6 h-6" />}
+                </motion.button>
                 <motion.button
                     whileHover={{ scale: 1.1 }}
                     whileTap={{ scale: 0.9 }}
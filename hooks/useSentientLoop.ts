@@ -6,6 +6,7 @@ import { MindEngine } from '../experts/mental/engines/mindEngine';
 import { RecoveryEngine } from '../experts/recovery/engines/recoveryEngine';
 import { EliteRecoveryState } from '../types';
 import { AgentOrchestrator } from '../services/agents/AgentOrchestrator';
+import { engineRegistry } from '../services/engineRegistry';
 
 /**
  * useSentientLoop
@@ -43,14 +44,14 @@ export const useSentientLoop = (intervalMs: number = 5000) => {
         try {
             // 1. EVALUATE FUEL
             // ----------------
-            const fuelResult = FuelEngine.evaluate(
+            const fuelResult = engineRegistry.run('fuel', () => FuelEngine.evaluate(
                 currentState.fuel,
                 currentState.user_profile,
                 currentState.medical,
                 currentState.timeline.sessions,
                 currentState.physical_load.acwr,
                 currentState.mindspace
-            );
+            ));
 
             // Simple check (comparing score and active protocol name)
             const currentProtocolName = currentState.fuel.active_protocol?.name;
@@ -75,21 +76,26 @@ export const useSentientLoop = (intervalMs: number = 5000) => {
             // 2. EVALUATE MINDSPACE
             // ---------------------
             // Update Vector
-            const newVector = MindEngine.evaluateStateVector(
-                currentState.mindspace.state_vector,
-                {
-                    stress_slider: currentState.mindspace.stress,
-                    mood_slider: currentState.mindspace.mood,
-                    hrv: currentState.sleep.hrv
-                },
-                currentState.user_profile.baselines
-            );
-
-            // Calculate Readiness
-            const readiness = MindEngine.calculateReadiness(newVector);
+            const { newVector, readiness } = engineRegistry.run('mind', () => {
+                const newVector = MindEngine.evaluateStateVector(
+                    currentState.mindspace.state_vector,
+                    {
+                        stress_slider: currentState.mindspace.stress,
+                        mood_slider: currentState.mindspace.mood,
+                        hrv: currentState.sleep.hrv,
+                        pvt: currentState.mindspace.pvt
+                    },
+                    currentState.user_profile.baselines
+                );
+
+                // Calculate Readiness
+                return { newVector, readiness: MindEngine.calculateReadiness(newVector) };
+            });
 
             if (readiness !== currentState.mindspace.readiness_score ||
-                newVector.autonomic_balance !== currentState.mindspace.state_vector.autonomic_balance) {
+                newVector.autonomic_balance !== currentState.mindspace.state_vector.autonomic_balance ||
+                newVector.pvt_z_score !== currentState.mindspace.state_vector.pvt_z_score ||
+                newVector.pvt_lapses !== currentState.mindspace.state_vector.pvt_lapses) {
 
                 dispatch({
                     type: 'UPDATE_MINDSPACE_STATE',
@@ -103,7 +109,7 @@ export const useSentientLoop = (intervalMs: number = 5000) => {
 
             // 3. EVALUATE RECOVERY
             // --------------------
-            const recoveryResult: EliteRecoveryState = RecoveryEngine.evaluate(currentState);
+            const recoveryResult: EliteRecoveryState = engineRegistry.run('recovery', () => RecoveryEngine.evaluate(currentState));
 
             if (recoveryResult.recovery_score !== currentState.recovery.recovery_score) {
                 dispatch({
@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import App from './App';
+import { persistence } from './services/persistence/repository';
+import { teamDirectory, getActiveAthlete } from './services/team/teamService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +9,22 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+
+// Stores and engines read persisted data when their modules load, so the
+// repository is hydrated before the app is imported. The team directory
+// decides which athlete's database that is.
+teamDirectory.init().then(() => {
+  persistence.selectDatabase(getActiveAthlete().database);
+  return persistence.init();
+}).then(async () => {
+  const [{ default: App }, { registerServiceWorker }] = await Promise.all([
+    import('./App'),
+    import('./services/pwa/serviceWorker')
+  ]);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+  registerServiceWorker();
+});
@@ -0,0 +1,146 @@
+/**
+ * Local sync server - Stand-in for a cloud sync service
+ *
+ * Keeps an append-only log of state changes pushed by app replicas and
+ * serves them back by cursor. It does not merge: every replica merges the
+ * changes it pulls (services/sync/mergePolicies.ts). There is one log per
+ * database, named in the path (/db/<database>/changes), so team-mode
+ * athletes never see each other's changes.
+ *
+ *   npm run sync-server              # http://localhost:8787
+ *   PORT=9000 SYNC_FILE=./sync-log.json npm run sync-server
+ *
+ * Then enter the URL under Profile > Device Sync on each device.
+ *
+ * The logs hold unredacted health data and there is no authentication, so
+ * by default the server only listens on 127.0.0.1 and only answers the dev
+ * app's origin. To sync other devices on the LAN, opt in explicitly:
+ *
+ *   HOST=0.0.0.0 ALLOWED_ORIGIN=http://192.168.1.20:3000 npm run sync-server
+ *
+ * ALLOWED_ORIGIN takes a comma-separated list.
+ */
+
+import http from 'node:http';
+import fs from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGIN || 'http://localhost:3000')
+    .split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+const SYNC_FILE = process.env.SYNC_FILE || null;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const ROUTE = /^\/db\/([\w.-]{1,128})\/changes$/;
+
+// Per database: { log: [{ seq, change }], seen: Set<change id> }; the cursor is the seq of the last entry returned
+const databases = new Map();
+
+const getDatabase = name => {
+    if (!databases.has(name)) databases.set(name, { log: [], seen: new Set() });
+    return databases.get(name);
+};
+
+if (SYNC_FILE && fs.existsSync(SYNC_FILE)) {
+    try {
+        const stored = JSON.parse(fs.readFileSync(SYNC_FILE, 'utf8'));
+        if (Array.isArray(stored)) throw new Error('file is a single log from an older version');
+        for (const [name, log] of Object.entries(stored)) {
+            const db = getDatabase(name);
+            db.log = log;
+            log.forEach(entry => db.seen.add(entry.change.id));
+        }
+        console.log(`[sync-server] Loaded ${databases.size} databases from ${SYNC_FILE}`);
+    } catch (e) {
+        console.warn(`[sync-server] Could not read ${SYNC_FILE}, starting empty:`, e.message);
+    }
+}
+
+const save = () => {
+    if (!SYNC_FILE) return;
+    try {
+        const stored = Object.fromEntries([...databases].map(([name, db]) => [name, db.log]));
+        fs.writeFileSync(SYNC_FILE, JSON.stringify(stored));
+    } catch (e) {
+        console.warn(`[sync-server] Could not write ${SYNC_FILE}:`, e.message);
+    }
+};
+
+const send = (res, status, body, origin) => {
+    res.writeHead(status, {
+        'Content-Type': 'application/json',
+        ...(origin && {
+            'Access-Control-Allow-Origin': origin,
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type',
+            'Vary': 'Origin'
+        })
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new Error('Request body too large'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+const lastSeq = log => (log.length > 0 ? log[log.length - 1].seq : 0);
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    // Browsers always send Origin cross-site; refusing here also blocks simple
+    // (unpreflighted) POSTs that CORS headers alone would let through
+    const origin = req.headers.origin;
+    if (origin && !ALLOWED_ORIGINS.includes(origin)) return send(res, 403, { error: 'Origin not allowed' });
+    const reply = (status, body) => send(res, status, body, origin);
+
+    if (req.method === 'OPTIONS') return reply(204);
+    const match = ROUTE.exec(url.pathname);
+    if (!match) return reply(404, { error: 'Not found' });
+    const name = decodeURIComponent(match[1]);
+    const db = getDatabase(name);
+
+    if (req.method === 'GET') {
+        const since = Number(url.searchParams.get('since') ?? 0) || 0;
+        const changes = db.log.filter(entry => entry.seq > since).map(entry => entry.change);
+        return reply(200, { changes, cursor: String(lastSeq(db.log)) });
+    }
+
+    if (req.method === 'POST') {
+        try {
+            const body = JSON.parse(await readBody(req));
+            if (!Array.isArray(body?.changes)) return reply(400, { error: 'Expected { changes: [] }' });
+
+            let added = 0;
+            for (const change of body.changes) {
+                if (!change?.id || db.seen.has(change.id)) continue;
+                db.seen.add(change.id);
+                db.log.push({ seq: lastSeq(db.log) + 1, change });
+                added++;
+            }
+            if (added > 0) save();
+            console.log(`[sync-server] ${name}: +${added} changes (${db.log.length} total)`);
+            return reply(200, { cursor: String(lastSeq(db.log)) });
+        } catch (e) {
+            return reply(400, { error: e.message });
+        }
+    }
+
+    reply(405, { error: 'Method not allowed' });
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`[sync-server] Listening on http://${HOST}:${PORT} for ${ALLOWED_ORIGINS.join(', ')}`);
+});
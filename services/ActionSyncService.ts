@@ -6,6 +6,8 @@
  */
 
 import { Session } from '../types';
+import { persistence } from './persistence/repository';
+import { stateSync } from './sync/stateSync';
 
 export interface ActionStatus {
     id: string;
@@ -16,35 +18,19 @@ export interface ActionStatus {
     source: 'commander' | 'timeline' | 'auto';
 }
 
-// Storage key
-const STORAGE_KEY = 'sentient_action_sync';
-
 // In-memory cache
 let actionCache: Map<string, ActionStatus> = new Map();
 let listeners: Set<() => void> = new Set();
 
-// Load from localStorage
+// Load from the persistence repository
 const loadActions = (): Map<string, ActionStatus> => {
-    try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-            const parsed = JSON.parse(stored);
-            return new Map(Object.entries(parsed));
-        }
-    } catch (e) {
-        console.warn('Failed to load action sync state:', e);
-    }
-    return new Map();
+    return new Map(persistence.getAll('action_status').map(a => [a.id, a]));
 };
 
-// Save to localStorage
-const saveActions = (actions: Map<string, ActionStatus>): void => {
-    try {
-        const obj = Object.fromEntries(actions);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(obj));
-    } catch (e) {
-        console.warn('Failed to save action sync state:', e);
-    }
+// Save a single action to the persistence repository and share it (services/sync)
+const saveAction = (action: ActionStatus): void => {
+    persistence.put('action_status', action);
+    stateSync.recordLocal({}, { action_statuses: [action] });
 };
 
 // Initialize on load
@@ -68,7 +54,7 @@ export const ActionSyncService = {
             source
         });
 
-        saveActions(actionCache);
+        saveAction(actionCache.get(actionId)!);
         this.notifyListeners();
     },
 
@@ -89,7 +75,7 @@ export const ActionSyncService = {
             source
         });
 
-        saveActions(actionCache);
+        saveAction(actionCache.get(actionId)!);
         this.notifyListeners();
     },
 
@@ -110,7 +96,7 @@ export const ActionSyncService = {
             source: 'commander'
         });
 
-        saveActions(actionCache);
+        saveAction(actionCache.get(actionId)!);
         this.notifyListeners();
     },
 
@@ -205,4 +191,11 @@ export const ActionSyncService = {
     }
 };
 
+// Completions and skips made in another tab or on another device
+stateSync.onRecordsApplied(({ action_statuses = [] }) => {
+    if (action_statuses.length === 0) return;
+    action_statuses.forEach(action => actionCache.set(action.id, action));
+    ActionSyncService.notifyListeners();
+});
+
 export default ActionSyncService;
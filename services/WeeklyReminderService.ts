@@ -8,6 +8,7 @@
  */
 
 import { GlobalState } from '../types';
+import { persistence } from './persistence/repository';
 
 // =====================================================
 // TYPES
@@ -61,11 +62,28 @@ export const DEFAULT_REMINDERS: WeeklyReminder[] = [
 // REMINDER SERVICE
 // =====================================================
 
+/**
+ * Defaults with any saved completion / snooze / settings applied
+ */
+export const loadReminders = (): WeeklyReminder[] => {
+    const saved = persistence.getValue('weekly_reminders') ?? [];
+    return DEFAULT_REMINDERS.map(reminder => ({
+        ...reminder,
+        ...saved.find(r => r.id === reminder.id)
+    }));
+};
+
 export class WeeklyReminderService {
     private reminders: WeeklyReminder[];
+    private persistChanges: boolean;
 
-    constructor(initialReminders: WeeklyReminder[] = DEFAULT_REMINDERS) {
+    constructor(initialReminders: WeeklyReminder[] = DEFAULT_REMINDERS, persistChanges: boolean = false) {
         this.reminders = initialReminders;
+        this.persistChanges = persistChanges;
+    }
+
+    private save(): void {
+        if (this.persistChanges) persistence.setValue('weekly_reminders', this.reminders.map(r => ({ ...r })));
     }
 
     /**
@@ -154,6 +172,7 @@ export class WeeklyReminderService {
         const reminder = this.reminders.find(r => r.id === reminderId);
         if (reminder) {
             reminder.lastCompleted = now.toISOString();
+            this.save();
         }
     }
 
@@ -166,6 +185,7 @@ export class WeeklyReminderService {
             const snoozeUntil = new Date();
             snoozeUntil.setHours(snoozeUntil.getHours() + hours);
             reminder.snoozeUntil = snoozeUntil.toISOString();
+            this.save();
         }
     }
 
@@ -176,6 +196,7 @@ export class WeeklyReminderService {
         const reminder = this.reminders.find(r => r.id === reminderId);
         if (reminder) {
             Object.assign(reminder, updates);
+            this.save();
         }
     }
 
@@ -191,7 +212,7 @@ export class WeeklyReminderService {
 // SINGLETON INSTANCE
 // =====================================================
 
-export const weeklyReminderService = new WeeklyReminderService();
+export const weeklyReminderService = new WeeklyReminderService(loadReminders(), true);
 
 // =====================================================
 // CONVENIENCE FUNCTIONS
@@ -0,0 +1,57 @@
+/**
+ * Clock - The single source of "now" for engines and orchestrators
+ *
+ * Everything that makes a time-dependent recommendation reads the time from
+ * here instead of calling `new Date()`, so a run can be pinned to a past
+ * moment (replay) and reproduced exactly. Record timestamps (ids, write
+ * times) stay on the wall clock.
+ */
+
+export type ClockMode = 'live' | 'fixed';
+
+export class SentientClock {
+    private fixedAt: number | null = null;
+
+    get mode(): ClockMode {
+        return this.fixedAt === null ? 'live' : 'fixed';
+    }
+
+    now(): Date {
+        return new Date(this.nowMs());
+    }
+
+    nowMs(): number {
+        return this.fixedAt ?? Date.now();
+    }
+
+    // Today's date key (YYYY-MM-DD, local time)
+    today(): string {
+        const d = this.now();
+        return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    }
+
+    /** Pin the clock until reset(); prefer runAt() for a bounded run */
+    fix(at: Date | number): void {
+        this.fixedAt = typeof at === 'number' ? at : at.getTime();
+    }
+
+    reset(): void {
+        this.fixedAt = null;
+    }
+
+    /**
+     * Run synchronous work with the clock pinned to `at`, restoring the
+     * previous time afterwards even if the work throws.
+     */
+    runAt<T>(at: Date | number, work: () => T): T {
+        const previous = this.fixedAt;
+        this.fix(at);
+        try {
+            return work();
+        } finally {
+            this.fixedAt = previous;
+        }
+    }
+}
+
+export const clock = new SentientClock();
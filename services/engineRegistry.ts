@@ -0,0 +1,187 @@
+/**
+ * Engine Registry - One instance per engine, with lifecycle and health
+ *
+ * Engines register themselves when their module loads and the registry
+ * owns that instance. Engines that keep their own history (load, sleep,
+ * biomarkers, patterns) are re-fed from the shared stores through
+ * hydrate(), e.g. after an import.
+ *
+ * Runs made through run() are tracked: count, last run, duration and
+ * errors. Health combines that with the engine's data source and coverage
+ * for the diagnostics panel. Replay runs (fixed clock) are not counted.
+ */
+
+import { GlobalState } from '../types';
+import {
+    EngineCoverage,
+    EngineDataSource,
+    EngineDefinition,
+    EngineError,
+    EngineHealth,
+    EngineId,
+    EngineStatus
+} from '../types/engine-registry';
+import { clock } from './clock';
+import { isSnapshot, loadHistory } from './history/historyStore';
+
+const COVERAGE_WINDOW_DAYS = 28;
+
+interface EngineRuntime {
+    runs: number;
+    last_run: number | null;
+    last_duration_ms: number | null;
+    error_count: number;
+    last_error: EngineError | null;
+    last_hydrated: number | null;
+}
+
+interface RegisteredEngine {
+    definition: EngineDefinition<any>;
+    runtime: EngineRuntime;
+}
+
+const dateKey = (d: Date): string =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+/**
+ * Distinct days with data in the last `windowDays`, for engines fed from a
+ * dated series. Dates are YYYY-MM-DD (longer ISO strings are truncated).
+ */
+export function coverageOfDates(dates: string[], windowDays: number = COVERAGE_WINDOW_DAYS): EngineCoverage {
+    const since = clock.now();
+    since.setDate(since.getDate() - windowDays + 1);
+    const sinceKey = dateKey(since);
+    const days = new Set(dates.map(d => d.slice(0, 10)).filter(d => d >= sinceKey));
+    return { covered: Math.min(days.size, windowDays), expected: windowDays, unit: 'days' };
+}
+
+// Days with app snapshots: the inputs of engines that read GlobalState
+export const snapshotCoverage = (): EngineCoverage =>
+    coverageOfDates(loadHistory().dataPoints.filter(isSnapshot).map(dp => dp.date));
+
+// Source for engines that only read the current GlobalState
+export const stateSource = (state: GlobalState): EngineDataSource =>
+    state.ui_config?.demo_mode ? 'mock' : 'live';
+
+const errorMessage = (err: unknown): string =>
+    err instanceof Error ? err.message : String(err);
+
+export class EngineRegistry {
+    private engines = new Map<EngineId, RegisteredEngine>();
+
+    /**
+     * Register an engine and return its instance. Registering an id again
+     * (module hot reload) replaces the instance and keeps the run history.
+     */
+    register<T>(definition: EngineDefinition<T>): T {
+        const existing = this.engines.get(definition.id);
+        if (existing && existing.definition.instance !== definition.instance) {
+            console.warn(`[EngineRegistry] ${definition.id} registered again; replacing the instance`);
+        }
+        this.engines.set(definition.id, {
+            definition,
+            runtime: existing?.runtime ?? {
+                runs: 0,
+                last_run: null,
+                last_duration_ms: null,
+                error_count: 0,
+                last_error: null,
+                last_hydrated: null
+            }
+        });
+        return definition.instance;
+    }
+
+    has(id: EngineId): boolean {
+        return this.engines.has(id);
+    }
+
+    get<T>(id: EngineId): T {
+        const entry = this.engines.get(id);
+        if (!entry) throw new Error(`Engine ${id} is not registered`);
+        return entry.definition.instance as T;
+    }
+
+    list(): EngineId[] {
+        return [...this.engines.keys()];
+    }
+
+    /**
+     * Re-feed engines from the shared stores. Without ids every engine with
+     * its own history is hydrated. Failures are recorded, not thrown.
+     */
+    hydrate(ids?: EngineId | EngineId[]): void {
+        const targets = ids === undefined ? this.list() : Array.isArray(ids) ? ids : [ids];
+        for (const id of targets) {
+            const entry = this.engines.get(id);
+            if (!entry?.definition.hydrate) continue;
+            try {
+                entry.definition.hydrate(entry.definition.instance);
+                entry.runtime.last_hydrated = Date.now();
+            } catch (err) {
+                console.warn(`[EngineRegistry] Hydrating ${id} failed:`, err);
+                this.recordError(entry.runtime, err);
+            }
+        }
+    }
+
+    /**
+     * Run engine work and track it. Errors are recorded and rethrown so
+     * callers keep their own handling.
+     */
+    run<R>(id: EngineId, fn: () => R): R {
+        const entry = this.engines.get(id);
+        if (!entry || clock.mode === 'fixed') return fn();
+
+        const started = Date.now();
+        try {
+            const result = fn();
+            entry.runtime.runs++;
+            entry.runtime.last_run = started;
+            entry.runtime.last_duration_ms = Date.now() - started;
+            return result;
+        } catch (err) {
+            this.recordError(entry.runtime, err);
+            throw err;
+        }
+    }
+
+    getHealth(state: GlobalState): EngineHealth[] {
+        return [...this.engines.values()].map(({ definition, runtime }) => {
+            let dataSource: EngineDataSource = 'none';
+            let coverage: EngineCoverage | null = null;
+            try {
+                dataSource = definition.dataSource(definition.instance, state);
+                coverage = definition.coverage(definition.instance, state);
+            } catch (err) {
+                console.warn(`[EngineRegistry] Health check for ${definition.id} failed:`, err);
+            }
+
+            return {
+                id: definition.id,
+                label: definition.label,
+                domain: definition.domain,
+                status: this.statusOf(runtime, dataSource, coverage),
+                data_source: dataSource,
+                coverage,
+                ...runtime
+            };
+        });
+    }
+
+    private statusOf(runtime: EngineRuntime, source: EngineDataSource, coverage: EngineCoverage | null): EngineStatus {
+        // An error counts until a later successful run
+        if (runtime.last_error && (runtime.last_run === null || runtime.last_error.at >= runtime.last_run)) return 'error';
+        if (source === 'mock' || source === 'none') return 'degraded';
+        if (coverage && coverage.expected > 0 && coverage.covered / coverage.expected < 0.5) return 'degraded';
+        if (runtime.runs === 0) return 'idle';
+        return 'ok';
+    }
+
+    private recordError(runtime: EngineRuntime, err: unknown): void {
+        runtime.error_count++;
+        runtime.last_error = { message: errorMessage(err), at: Date.now() };
+    }
+}
+
+export const engineRegistry = new EngineRegistry();
@@ -7,6 +7,11 @@
  * NOTE: Engines now live in experts/ folders - this file re-exports for compatibility.
  */
 
+// ============================================================================
+// ENGINE REGISTRY
+// ============================================================================
+export { engineRegistry, EngineRegistry } from './engineRegistry';
+
 // ============================================================================
 // HRV ANALYSIS
 // ============================================================================
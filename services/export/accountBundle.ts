@@ -0,0 +1,272 @@
+/**
+ * Account Bundle - Full-account backup and restore
+ *
+ * Writes GlobalState, history, personal records, action statuses, recorded
+ * training loads and the suggestion agent's learning log into one versioned
+ * JSON file. The SHA-256 checksum covers the `data` block, so a truncated or
+ * hand-edited file is rejected before anything is written.
+ *
+ * A bundle made for a coach goes through the redaction policies: hidden
+ * GlobalState paths are masked and lab results are left out unless the
+ * athlete shares them.
+ *
+ * Import modes:
+ * - replace: this device's data is swapped for the bundle's
+ * - merge: bundle records are added, overwriting same-key records; the
+ *   current profile and dashboard state are kept and only timeline sessions
+ *   are merged in
+ */
+
+import { GlobalState, Session } from '../../types';
+import {
+    ACCOUNT_BUNDLE_FORMAT,
+    ACCOUNT_BUNDLE_VERSION,
+    AccountBundle,
+    AccountBundleData,
+    AccountBundleDiff,
+    AccountBundleSection,
+    AccountImportMode,
+    AccountImportResult,
+    BundleSectionDiff
+} from '../../types/account-bundle';
+import { loadHistory, mergeHistory, replaceHistory } from '../history/historyStore';
+import { persistence } from '../persistence/repository';
+import { loadPersonalRecords, savePersonalRecords } from '../../experts/performance/prStore';
+import { loadRecordedLoads, saveRecordedLoads } from '../../experts/performance/loadHistoryStore';
+import { loadLearningState, saveLearningState } from '../../experts/orchestrator/suggestionEngine';
+import { DataRole } from '../../types/redaction';
+import { isCategoryVisible, redactState, summarizeRedaction } from '../privacy/redaction';
+
+// Runtime-only state that never goes into a bundle or a diff
+const TRANSIENT_STATE_KEYS: (keyof GlobalState)[] = ['notifications', 'orchestrator', 'active_tab'];
+
+const sha256Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const sameContent = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export function collectAccountData(state: GlobalState, role: DataRole = 'user'): AccountBundleData {
+    const { notifications, ...stateToSave } = state;
+    const consent = state.user_profile?.sharing_consent;
+    return {
+        global_state: JSON.parse(JSON.stringify(redactState({
+            ...stateToSave,
+            orchestrator: { ...stateToSave.orchestrator, is_thinking: false }
+        }, role, consent))),
+        history: loadHistory(),
+        personal_records: loadPersonalRecords(),
+        action_statuses: persistence.getAll('action_status'),
+        load_history: loadRecordedLoads(),
+        agent_learning: loadLearningState(),
+        biomarker_readings: isCategoryVisible('medical', role, consent) ? persistence.getAll('biomarker_readings') : []
+    };
+}
+
+export async function createAccountBundle(state: GlobalState, role: DataRole = 'user'): Promise<AccountBundle> {
+    const data = collectAccountData(state, role);
+    return {
+        format: ACCOUNT_BUNDLE_FORMAT,
+        version: ACCOUNT_BUNDLE_VERSION,
+        exported_at: new Date().toISOString(),
+        checksum: await sha256Hex(JSON.stringify(data)),
+        ...(role !== 'user' ? { redaction: summarizeRedaction(role, state.user_profile?.sharing_consent) } : {}),
+        data
+    };
+}
+
+/**
+ * Build the bundle and hand it to the browser as a download.
+ * Returns the file name used.
+ */
+export async function downloadAccountBundle(state: GlobalState, role: DataRole = 'user'): Promise<string> {
+    const bundle = await createAccountBundle(state, role);
+    const fileName = `sentient-${role === 'user' ? 'backup' : `${role}-share`}-${bundle.exported_at.slice(0, 10)}.json`;
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle)], { type: 'application/json' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return fileName;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Parse and verify a bundle file. Throws with a user-facing message when
+ * the file is not a bundle, is from a newer app version, fails the checksum,
+ * is a redacted share or is missing sections.
+ */
+export async function parseAccountBundle(text: string): Promise<AccountBundle> {
+    let bundle: AccountBundle;
+    try {
+        bundle = JSON.parse(text);
+    } catch {
+        throw new Error('Not a valid JSON file');
+    }
+
+    if (bundle?.format !== ACCOUNT_BUNDLE_FORMAT) {
+        throw new Error('This file is not a Sentient account backup');
+    }
+    if (typeof bundle.version !== 'number' || bundle.version > ACCOUNT_BUNDLE_VERSION) {
+        throw new Error(`Backup version ${bundle.version} was made by a newer version of the app`);
+    }
+    if (!bundle.data || typeof bundle.data !== 'object') {
+        throw new Error('Backup has no data');
+    }
+    if (bundle.checksum !== await sha256Hex(JSON.stringify(bundle.data))) {
+        throw new Error('Checksum mismatch - the backup is damaged or was edited');
+    }
+    if (bundle.redaction) {
+        // Restoring masked values would overwrite the real ones
+        throw new Error('This file is a redacted share for a coach and cannot be restored');
+    }
+
+    const { data } = bundle;
+    const problems = [
+        !data.global_state?.user_profile && 'profile',
+        !Array.isArray(data.history?.dataPoints) && 'history',
+        !Array.isArray(data.history?.outcomes) && 'action outcomes',
+        !Array.isArray(data.personal_records) && 'personal records',
+        !Array.isArray(data.action_statuses) && 'action statuses',
+        !Array.isArray(data.load_history) && 'training loads',
+        !Array.isArray(data.agent_learning?.suggestionHistory) && 'agent log'
+    ].filter(Boolean);
+    if (problems.length > 0) {
+        throw new Error(`Backup is missing: ${problems.join(', ')}`);
+    }
+
+    return bundle;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function diffRecords<T>(
+    section: AccountBundleSection,
+    label: string,
+    existing: T[],
+    incoming: T[],
+    keyOf: (record: T) => string
+): BundleSectionDiff {
+    const current = new Map(existing.map(r => [keyOf(r), r]));
+    const incomingKeys = new Set<string>();
+    const diff: BundleSectionDiff = {
+        section,
+        label,
+        existing: existing.length,
+        incoming: incoming.length,
+        added: 0,
+        changed: 0,
+        unchanged: 0,
+        removed: 0
+    };
+
+    for (const record of incoming) {
+        const key = keyOf(record);
+        incomingKeys.add(key);
+        const match = current.get(key);
+        if (!match) diff.added++;
+        else if (sameContent(match, record)) diff.unchanged++;
+        else diff.changed++;
+    }
+    diff.removed = [...current.keys()].filter(key => !incomingKeys.has(key)).length;
+    return diff;
+}
+
+export function diffAccountBundle(bundle: AccountBundle, state: GlobalState): AccountBundleDiff {
+    const current = collectAccountData(state);
+    const incoming = bundle.data;
+
+    const stateKeys = new Set([
+        ...Object.keys(current.global_state),
+        ...Object.keys(incoming.global_state)
+    ] as (keyof GlobalState)[]);
+    const currentSessionIds = new Set((state.timeline?.sessions ?? []).map(s => s.id));
+
+    return {
+        exported_at: bundle.exported_at,
+        sections: [
+            diffRecords('history_points', 'Daily snapshots', current.history.dataPoints, incoming.history.dataPoints, dp => String(dp.timestamp)),
+            diffRecords('history_outcomes', 'Action outcomes', current.history.outcomes, incoming.history.outcomes, o => o.command_id),
+            diffRecords('personal_records', 'Personal records', current.personal_records, incoming.personal_records, pr => pr.id),
+            diffRecords('action_statuses', 'Action statuses', current.action_statuses, incoming.action_statuses, a => a.id),
+            diffRecords('load_history', 'Training loads', current.load_history, incoming.load_history, l => l.source_id ?? l.date),
+            diffRecords('biomarker_readings', 'Lab results', current.biomarker_readings ?? [], incoming.biomarker_readings ?? [], r => `${r.biomarker_id}:${r.date}`),
+            diffRecords('suggestions', 'Agent log', current.agent_learning.suggestionHistory, incoming.agent_learning.suggestionHistory, s => s.id)
+        ],
+        state_keys_changed: [...stateKeys].filter(key =>
+            !TRANSIENT_STATE_KEYS.includes(key) &&
+            !sameContent(current.global_state[key], incoming.global_state[key])
+        ),
+        sessions_added: (incoming.global_state.timeline?.sessions ?? []).filter(s => !currentSessionIds.has(s.id)).length
+    };
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+const mergeById = <T>(existing: T[], incoming: T[], keyOf: (record: T) => string): T[] => {
+    const merged = new Map(existing.map(r => [keyOf(r), r]));
+    incoming.forEach(r => merged.set(keyOf(r), r));
+    return [...merged.values()];
+};
+
+function mergeState(state: GlobalState, incoming: Partial<GlobalState>): Partial<GlobalState> {
+    const { notifications, ...current } = state;
+    const sessions = mergeById<Session>(current.timeline.sessions, incoming.timeline?.sessions ?? [], s => s.id)
+        .sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+    return { ...current, timeline: { ...current.timeline, sessions } };
+}
+
+/**
+ * Write a verified bundle to storage. Returns the GlobalState to load; the
+ * caller should reload afterwards so engines re-read their stores.
+ */
+export async function applyAccountBundle(
+    bundle: AccountBundle,
+    state: GlobalState,
+    mode: AccountImportMode
+): Promise<AccountImportResult> {
+    const diff = diffAccountBundle(bundle, state);
+    const { data } = bundle;
+    let nextState: Partial<GlobalState>;
+
+    if (mode === 'replace') {
+        replaceHistory(data.history);
+        savePersonalRecords(data.personal_records);
+        persistence.replaceAll('action_status', data.action_statuses);
+        saveRecordedLoads(data.load_history);
+        persistence.replaceAll('biomarker_readings', data.biomarker_readings ?? []);
+        saveLearningState(data.agent_learning);
+        nextState = data.global_state;
+    } else {
+        mergeHistory(data.history);
+        savePersonalRecords(mergeById(loadPersonalRecords(), data.personal_records, pr => pr.id));
+        persistence.putMany('action_status', data.action_statuses);
+        persistence.putMany('load_history', data.load_history);
+        persistence.putMany('biomarker_readings', data.biomarker_readings ?? []);
+        const learning = loadLearningState();
+        saveLearningState({
+            ...learning,
+            suggestionHistory: mergeById(learning.suggestionHistory, data.agent_learning.suggestionHistory, s => s.id)
+                .sort((a, b) => a.suggestedAt - b.suggestedAt)
+        });
+        nextState = mergeState(state, data.global_state);
+    }
+
+    persistence.setValue('global_state', nextState);
+    await persistence.flush();
+    return { mode, state: nextState, diff };
+}
@@ -0,0 +1,250 @@
+/**
+ * CSV Export - Spreadsheet-ready time series for coaches
+ *
+ * Datasets:
+ * - history: HistoricalDataPoint snapshots and imported days
+ * - daily_load: recorded per-session loads (imported activities)
+ * - outcomes: ActionOutcome records
+ * - biomarkers: imported BiomarkerReadings (none while only sample data exists)
+ *
+ * Datasets covered by a redaction policy (biomarkers: medical) are refused
+ * for roles that may not see them.
+ *
+ * Columns carry their unit in the header. Body mass follows the profile's
+ * unit system; biomarkers stay in each marker's definition unit, since
+ * lab units are not a metric / imperial choice.
+ */
+
+import { HistoricalDataPoint, ActionOutcome } from '../history/types';
+import { DailyLoad } from '../../types/load-management';
+import { BiomarkerReading, BiomarkerStatus } from '../../types/biomarkers';
+import { CsvColumnInfo, CsvDataset, CsvExportOptions, CsvExportResult, UnitSystem } from '../../types/csv-export';
+import { loadHistory } from '../history/historyStore';
+import { loadRecordedLoads, toDateKey } from '../../experts/performance/loadHistoryStore';
+import { biomarkerEngine } from '../../experts/doctor/BiomarkerEngine';
+import { RedactionCategory } from '../../types/redaction';
+import { isCategoryVisible } from '../privacy/redaction';
+
+const KG_TO_LB = 2.20462;
+
+type CsvValue = string | number | boolean | undefined | null;
+
+interface CsvColumn<T> {
+    id: string;
+    label: string;
+    unit?: string | Record<UnitSystem, string>;
+    default_selected?: boolean;   // Defaults to true
+    value: (row: T, units: UnitSystem) => CsvValue;
+}
+
+type BiomarkerRow = BiomarkerReading & { status?: BiomarkerStatus };
+
+const round = (value: number | undefined, decimals: number): number | undefined =>
+    value === undefined ? undefined : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const localTime = (ms: number | undefined): string | undefined => {
+    if (ms === undefined) return undefined;
+    const d = new Date(ms);
+    return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+// Imported points have no readiness etc.; export those as blanks, not zeros
+const measured = (dp: HistoricalDataPoint, value: number) =>
+    dp.source === undefined || dp.source === 'snapshot' || value !== 0 ? value : undefined;
+
+// ============================================================================
+// COLUMNS
+// ============================================================================
+
+const HISTORY_COLUMNS: CsvColumn<HistoricalDataPoint>[] = [
+    { id: 'date', label: 'Date', value: dp => dp.date },
+    { id: 'time', label: 'Time', value: dp => localTime(dp.timestamp) },
+    { id: 'time_of_day', label: 'Time of day', default_selected: false, value: dp => dp.time_of_day },
+    { id: 'source', label: 'Source', value: dp => dp.source ?? 'snapshot' },
+    { id: 'readiness', label: 'Readiness', value: dp => measured(dp, dp.readiness) },
+    { id: 'recovery_score', label: 'Recovery score', value: dp => measured(dp, dp.recovery_score) },
+    { id: 'fuel_score', label: 'Fuel score', value: dp => measured(dp, dp.fuel_score) },
+    { id: 'stress', label: 'Stress', value: dp => measured(dp, dp.stress) },
+    { id: 'mood', label: 'Mood', default_selected: false, value: dp => measured(dp, dp.mood) },
+    { id: 'hrv', label: 'HRV', unit: 'ms', value: dp => measured(dp, dp.hrv) },
+    { id: 'hrv_rmssd', label: 'HRV RMSSD', unit: 'ms', value: dp => dp.hrv_rmssd },
+    { id: 'hrv_sdnn', label: 'HRV SDNN', unit: 'ms', default_selected: false, value: dp => dp.hrv_sdnn },
+    { id: 'resting_hr', label: 'Resting HR', unit: 'bpm', value: dp => dp.resting_hr },
+    { id: 'sleep_duration', label: 'Sleep', unit: 'h', value: dp => measured(dp, dp.sleep_duration) },
+    { id: 'sleep_efficiency', label: 'Sleep efficiency', unit: '%', value: dp => measured(dp, dp.sleep_efficiency) },
+    { id: 'sleep_debt', label: 'Sleep debt', unit: 'h', default_selected: false, value: dp => measured(dp, dp.sleep_debt) },
+    { id: 'acwr', label: 'ACWR', value: dp => measured(dp, round(dp.acwr, 2) ?? 0) },
+    { id: 'acute_load', label: 'Acute load', unit: 'AU', value: dp => measured(dp, dp.acute_load) },
+    { id: 'chronic_load', label: 'Chronic load', unit: 'AU', value: dp => measured(dp, dp.chronic_load) },
+    { id: 'sessions_completed', label: 'Sessions completed', default_selected: false, value: dp => dp.sessions_completed },
+    {
+        id: 'body_mass', label: 'Body mass', unit: { metric: 'kg', imperial: 'lb' },
+        value: (dp, units) => dp.body_mass_kg === undefined ? undefined
+            : round(units === 'imperial' ? dp.body_mass_kg * KG_TO_LB : dp.body_mass_kg, 1)
+    }
+];
+
+const LOAD_COLUMNS: CsvColumn<DailyLoad>[] = [
+    { id: 'date', label: 'Date', value: l => l.date },
+    { id: 'session_type', label: 'Session type', value: l => l.session_type },
+    { id: 'intensity_zone', label: 'Intensity zone', value: l => l.intensity_zone },
+    { id: 'duration_minutes', label: 'Duration', unit: 'min', value: l => l.duration_minutes },
+    { id: 'session_rpe', label: 'RPE', value: l => l.session_rpe },
+    { id: 'load_au', label: 'Load', unit: 'AU', value: l => l.load_au },
+    { id: 'load_method', label: 'Load method', value: l => l.load_method ?? 'session_rpe' },
+    { id: 'trimp', label: 'TRIMP', unit: 'AU', default_selected: false, value: l => l.trimp },
+    { id: 'source_id', label: 'Session ID', default_selected: false, value: l => l.source_id }
+];
+
+const OUTCOME_COLUMNS: CsvColumn<ActionOutcome>[] = [
+    { id: 'date', label: 'Date', value: o => toDateKey(new Date(o.started_at)) },
+    { id: 'started_at', label: 'Started', value: o => localTime(o.started_at) },
+    { id: 'completed_at', label: 'Completed', value: o => localTime(o.completed_at) },
+    { id: 'command_name', label: 'Action', value: o => o.command_name },
+    { id: 'command_id', label: 'Action ID', default_selected: false, value: o => o.command_id },
+    { id: 'engine', label: 'Engine', value: o => o.engine },
+    { id: 'skipped', label: 'Skipped', value: o => o.skipped ?? false },
+    { id: 'perceived_impact', label: 'Perceived impact', unit: '1-10', value: o => o.perceived_impact },
+    { id: 'readiness_delta', label: 'Readiness change', value: o => o.readiness_delta },
+    { id: 'fuel_delta', label: 'Fuel change', value: o => o.fuel_delta },
+    { id: 'stress_delta', label: 'Stress change', value: o => o.stress_delta },
+    { id: 'notes', label: 'Notes', value: o => o.notes }
+];
+
+const BIOMARKER_COLUMNS: CsvColumn<BiomarkerRow>[] = [
+    { id: 'date', label: 'Date', value: r => r.date },
+    { id: 'biomarker_id', label: 'Marker ID', default_selected: false, value: r => r.biomarker_id },
+    { id: 'name', label: 'Marker', value: r => biomarkerEngine.getBiomarker(r.biomarker_id)?.name ?? r.biomarker_id },
+    { id: 'value', label: 'Value', value: r => r.value },
+    { id: 'unit', label: 'Unit', value: r => biomarkerEngine.getBiomarker(r.biomarker_id)?.unit },
+    { id: 'status', label: 'Status', value: r => r.status },
+    { id: 'fasting', label: 'Fasting', value: r => r.fasting },
+    { id: 'post_exercise_hours', label: 'Hours post exercise', default_selected: false, value: r => r.post_exercise_hours },
+    { id: 'lab_name', label: 'Lab', value: r => r.lab_name },
+    { id: 'notes', label: 'Notes', default_selected: false, value: r => r.notes }
+];
+
+interface DatasetDefinition<T> {
+    label: string;
+    columns: CsvColumn<T>[];
+    rows: () => T[];
+    dateOf: (row: T) => string;
+    category?: RedactionCategory; // Redaction policy covering the whole dataset
+}
+
+const DATASETS: { [K in CsvDataset]: DatasetDefinition<any> } = {
+    history: {
+        label: 'history',
+        columns: HISTORY_COLUMNS,
+        rows: () => loadHistory().dataPoints,
+        dateOf: (dp: HistoricalDataPoint) => dp.date
+    },
+    daily_load: {
+        label: 'training-load',
+        columns: LOAD_COLUMNS,
+        rows: () => loadRecordedLoads(),
+        dateOf: (l: DailyLoad) => l.date
+    },
+    outcomes: {
+        label: 'action-outcomes',
+        columns: OUTCOME_COLUMNS,
+        rows: () => loadHistory().outcomes,
+        dateOf: (o: ActionOutcome) => toDateKey(new Date(o.started_at))
+    },
+    biomarkers: {
+        label: 'biomarkers',
+        columns: BIOMARKER_COLUMNS,
+        rows: () => biomarkerEngine.hasRecordedReadings() ? biomarkerEngine.getReadings() : [],
+        category: 'medical',
+        dateOf: (r: BiomarkerRow) => r.date.slice(0, 10)
+    }
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+const header = (column: CsvColumn<unknown>, units: UnitSystem): string => {
+    const unit = typeof column.unit === 'string' ? column.unit : column.unit?.[units];
+    return unit ? `${column.label} (${unit})` : column.label;
+};
+
+/**
+ * RFC 4180 quoting. Text starting with = + - @ is prefixed with ' so
+ * spreadsheets do not evaluate it as a formula.
+ */
+export const escapeCsvValue = (value: CsvValue): string => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+    if (typeof value === 'boolean') return value ? 'yes' : 'no';
+
+    let text = value;
+    if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export function getCsvColumns(dataset: CsvDataset): CsvColumnInfo[] {
+    return DATASETS[dataset].columns.map(c => ({
+        id: c.id,
+        label: c.label,
+        default_selected: c.default_selected ?? true
+    }));
+}
+
+export function isCsvDatasetAllowed(dataset: CsvDataset, options: Pick<CsvExportOptions, 'role' | 'consent'> = {}): boolean {
+    const category = DATASETS[dataset].category;
+    return !category || isCategoryVisible(category, options.role ?? 'user', options.consent);
+}
+
+export function countCsvRows(options: Pick<CsvExportOptions, 'dataset' | 'from' | 'to'>): number {
+    return selectRows(DATASETS[options.dataset], options).length;
+}
+
+function selectRows<T>(definition: DatasetDefinition<T>, { from, to }: Pick<CsvExportOptions, 'from' | 'to'>): T[] {
+    return definition.rows().filter(row => {
+        const date = definition.dateOf(row);
+        return (!from || date >= from) && (!to || date <= to);
+    });
+}
+
+export function buildCsv(options: CsvExportOptions): CsvExportResult {
+    const definition = DATASETS[options.dataset];
+    if (!isCsvDatasetAllowed(options.dataset, options)) {
+        throw new Error(`The athlete has not shared ${definition.label} data`);
+    }
+    const selected = options.columns ?? getCsvColumns(options.dataset).filter(c => c.default_selected).map(c => c.id);
+    const columns = selected
+        .map(id => definition.columns.find(c => c.id === id))
+        .filter((c): c is CsvColumn<unknown> => c !== undefined);
+    if (columns.length === 0) throw new Error('Select at least one column');
+
+    const rows = selectRows(definition, options);
+    const lines = [
+        columns.map(c => escapeCsvValue(header(c, options.units))).join(','),
+        ...rows.map(row => columns.map(c => escapeCsvValue(c.value(row, options.units))).join(','))
+    ];
+
+    const range = [options.from, options.to].filter(Boolean).join('_to_') || toDateKey(new Date());
+    return {
+        file_name: `sentient-${definition.label}-${range}.csv`,
+        csv: lines.join('\r\n') + '\r\n',
+        rows: rows.length
+    };
+}
+
+export function downloadCsv(options: CsvExportOptions): CsvExportResult {
+    const result = buildCsv(options);
+    // BOM so Excel opens the file as UTF-8
+    const url = URL.createObjectURL(new Blob(['\uFEFF', result.csv], { type: 'text/csv;charset=utf-8' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.file_name;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    return result;
+}
@@ -1,6 +1,9 @@
 import { GlobalState, SentientOutput } from '../types';
 import { SentientLocalOrchestrator } from '../experts/orchestrator/sentientLocalOrchestrator';
 import { generateCoachGuidance } from '../experts/orchestrator/ai';
+import { persistence } from './persistence/repository';
+import { redactState } from './privacy/redaction';
+import { stateSync } from './sync/stateSync';
 
 // =====================================================
 // TYPES & INTERFACES
@@ -12,7 +15,7 @@ export type SubscriptionId = string;
 export interface SubscribeOptions {
   immediate?: boolean;       // Trigger callback immediately with current value
   throttleMs?: number;       // Max frequency of callbacks
-  role?: SubscriberRole;     // Security role for data redaction
+  role?: SubscriberRole;     // Security role for data redaction (see services/privacy/redaction)
   id?: string;               // Debug label
 }
 
@@ -20,12 +23,13 @@ export interface SubscriberOptions {
   coalesceWindowMs?: number; // Window to group updates before running SLO (default 150ms)
   maxOrchestrationsPerSec?: number; // Cap on heavy logic (default 5)
   enableAuditLog?: boolean;  // Keep history in memory
-  persistenceKey?: string;   // Key for localStorage
+  persist?: boolean;         // Save state to the persistence repository
+  sync?: boolean;            // Share changes with other tabs and the remote (see services/sync)
 }
 
 export interface EventMeta {
   eventType: string;
-  source: string;            // 'UI', 'SyncLayer', 'SLO', 'System'
+  source: string;            // 'UI', 'SyncLayer', 'SLO', 'System', 'Sync'
   timestamp: number;
   triggerOrchestrator?: boolean; // Default true
   urgent?: boolean;          // Bypass debounce if true
@@ -44,6 +48,7 @@ interface SubscriberEntry {
   lastCalled: number;
   throttleMs: number;
   currentValue: any; // Cache for diffing
+  currentSafeValue: any; // Last value the callback saw (redacted for its role)
 }
 
 interface AuditEntry {
@@ -72,8 +77,8 @@ export class GlobalSubscriber {
   private pendingOrchestrations: boolean = false;
   private lastOrchestrationTime: number = 0;
 
-  // Persistence & Offline
-  private offlineQueue: { changes: Partial<GlobalState>; meta: EventMeta }[] = [];
+  // Cross-tab / remote sync (the offline queue lives in stateSync's outbox)
+  private detachSync: (() => void) | null = null;
 
   // Audit
   private auditLog: AuditEntry[] = [];
@@ -85,13 +90,22 @@ export class GlobalSubscriber {
       coalesceWindowMs: 150,
       maxOrchestrationsPerSec: 5,
       enableAuditLog: true,
-      persistenceKey: 'sentient_state_v5',
+      persist: true,
+      sync: true,
       ...options
     };
 
     // Hydrate from persistence if available
     this.loadFromPersistence();
 
+    if (this.options.sync) {
+      this.detachSync = stateSync.attach(() => this.state, patch => this.publish(patch, {
+        eventType: 'SYNC_MERGE',
+        source: 'Sync',
+        timestamp: Date.now()
+      }));
+    }
+
     // Setup offline listeners
     if (typeof window !== 'undefined') {
       window.addEventListener('online', this.handleOnline);
@@ -114,22 +128,25 @@ export class GlobalSubscriber {
   ): Unsubscribe {
     const id = opts.id || `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const initialValue = selector(this.state);
+    const role = opts.role || 'user';
+    const initialSafeValue = selector(redactState(this.state, role));
 
     const entry: SubscriberEntry = {
       id,
       selector,
       callback,
-      role: opts.role || 'user',
+      role,
       lastCalled: 0,
       throttleMs: opts.throttleMs || 0,
-      currentValue: initialValue
+      currentValue: initialValue,
+      currentSafeValue: initialSafeValue
     };
 
     this.subscribers.set(id, entry);
 
     // Immediate callback if requested
     if (opts.immediate) {
-      this.safeCallback(entry, initialValue, undefined, {
+      this.safeCallback(entry, initialSafeValue, undefined, {
         eventType: 'SUBSCRIPTION_INIT',
         source: 'System',
         timestamp: Date.now()
@@ -157,11 +174,11 @@ export class GlobalSubscriber {
       console.warn(`[GlobalSubscriber] Schema validation warning for event: ${meta.eventType}`);
     }
 
-    // 2. Offline Handling
-    if (typeof navigator !== 'undefined' && !navigator.onLine && meta.source !== 'SLO') {
-      console.log(`[GlobalSubscriber] Offline. Queuing event: ${meta.eventType}`);
-      this.offlineQueue.push({ changes, meta });
-      // We still apply changes locally so UI updates, but we queue sync behavior
+    // 2. Share with other tabs and devices. Merged changes are not sent
+    // back; SLO output is recomputed by every replica and stays local.
+    // Offline, stateSync queues the change until the network returns.
+    if (this.options.sync && meta.source !== 'Sync' && meta.source !== 'SLO') {
+      stateSync.recordLocal(changes);
     }
 
     // 3. Atomic Merge
@@ -210,6 +227,7 @@ export class GlobalSubscriber {
       clearTimeout(this.orchestratorDebounceTimer);
     }
     this.subscribers.clear();
+    this.detachSync?.();
     if (typeof window !== 'undefined') {
       window.removeEventListener('online', this.handleOnline);
       window.removeEventListener('offline', this.handleOffline);
@@ -224,6 +242,13 @@ export class GlobalSubscriber {
    * Broadcast changes to all subscribers efficiently.
    */
   private broadcast(oldState: GlobalState, newState: GlobalState, meta: EventMeta) {
+    // One redacted view per role and broadcast
+    const views = new Map<SubscriberRole, GlobalState>();
+    const viewFor = (role: SubscriberRole) => {
+      if (!views.has(role)) views.set(role, redactState(newState, role));
+      return views.get(role)!;
+    };
+
     this.subscribers.forEach((sub) => {
       try {
         const newValue = sub.selector(newState);
@@ -237,12 +262,13 @@ export class GlobalSubscriber {
             return;
           }
 
-          // Redaction (Role Security)
-          const safeValue = this.redact(newValue, sub.role);
-          const safeOld = this.redact(sub.currentValue, sub.role);
+          // Redaction (Role Security): the callback sees the role's view
+          const safeValue = sub.selector(viewFor(sub.role));
+          const safeOld = sub.currentSafeValue;
 
           // Update Cache
           sub.currentValue = newValue;
+          sub.currentSafeValue = safeValue;
           sub.lastCalled = now;
 
           // Invoke
@@ -374,7 +400,7 @@ export class GlobalSubscriber {
           orchestrator: {
             ...this.state.orchestrator,
             explanation: insight.human_explanation || this.state.orchestrator.explanation,
-            recommended_actions: insight.coach_override
+            recommended_actions: insight.coach_override && !this.state.orchestrator.recommended_actions.includes(insight.coach_override)
               ? [insight.coach_override, ...this.state.orchestrator.recommended_actions]
               : this.state.orchestrator.recommended_actions
           }
@@ -398,30 +424,25 @@ export class GlobalSubscriber {
   // =====================================================
 
   private persistState() {
-    if (typeof localStorage === 'undefined') return;
+    if (!this.options.persist) return;
     try {
-      localStorage.setItem(this.options.persistenceKey!, JSON.stringify(this.state));
+      persistence.setValue('global_state', JSON.parse(JSON.stringify(this.state)));
     } catch (e) {
-      console.warn("State persistence failed (quota?)", e);
+      console.warn("State persistence failed", e);
     }
   }
 
   private loadFromPersistence() {
-    if (typeof localStorage === 'undefined') return;
-    const raw = localStorage.getItem(this.options.persistenceKey!);
-    if (raw) {
-      try {
-        const loaded = JSON.parse(raw);
-        this.state = { ...this.state, ...loaded };
-      } catch (e) {
-        console.error("Failed to load persisted state", e);
-      }
+    if (!this.options.persist) return;
+    const loaded = persistence.getValue('global_state');
+    if (loaded) {
+      this.state = { ...this.state, ...loaded };
     }
   }
 
   private handleOnline = () => {
     console.log("[GlobalSubscriber] Network Online. Flushing queue...");
-    this.offlineQueue = [];
+    stateSync.flush();
   }
 
   private handleOffline = () => {
@@ -432,16 +453,6 @@ export class GlobalSubscriber {
   // SECURITY & VALIDATION
   // =====================================================
 
-  private redact(value: any, role: SubscriberRole): any {
-    if (role === 'admin' || role === 'system' || role === 'user') return value;
-    if (typeof value === 'object' && value !== null) {
-      if ('biomarkers' in value) {
-        return { ...value, biomarkers: '[REDACTED]' };
-      }
-    }
-    return value;
-  }
-
   private validateSchema(changes: Partial<GlobalState>): boolean {
     const keys = Object.keys(changes);
     for (const k of keys) {
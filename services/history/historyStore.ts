@@ -1,19 +1,18 @@
 /**
- * HISTORY STORE - LocalStorage-backed persistence for user history
+ * HISTORY STORE - Persistence for user history
  * 
  * Features:
  * - Auto-persist state snapshots
  * - Track action outcomes
- * - 90-day retention policy
+ * - Unlimited retention (IndexedDB via the persistence repository)
  * - Efficient retrieval by date range
  */
 
-import { HistoricalDataPoint, ActionOutcome, UserHistory } from './types';
+import { HistoricalDataPoint, ActionOutcome, UserHistory, DataPointSource } from './types';
 import { GlobalState } from '../../types';
-
-const STORAGE_KEY = 'sentient_history';
-const MAX_DAYS = 90;
-const MAX_OUTCOMES = 500;
+import { DailyHealthMetrics } from '../../types/health-import';
+import { SleepArchitecture } from '../../types/sleep-architecture';
+import { persistence } from '../persistence/repository';
 
 // Get time of day from hour
 function getTimeOfDay(hour: number): HistoricalDataPoint['time_of_day'] {
@@ -57,44 +56,33 @@ export function createDataPoint(state: GlobalState): HistoricalDataPoint {
     };
 }
 
-// Load history from LocalStorage
+// Load history from the persistence repository
 export function loadHistory(): UserHistory {
-    try {
-        const stored = localStorage.getItem(STORAGE_KEY);
-        if (stored) {
-            return JSON.parse(stored);
-        }
-    } catch (e) {
-        console.warn('[HistoryStore] Failed to load history:', e);
-    }
+    const dataPoints = persistence.getAll('history_points').sort((a, b) => a.timestamp - b.timestamp);
+    const outcomes = persistence.getAll('action_outcomes').sort((a, b) => a.started_at - b.started_at);
+    const meta = persistence.getValue('history_meta');
 
     return {
-        dataPoints: [],
-        outcomes: [],
-        firstSeen: Date.now(),
-        lastUpdated: Date.now(),
-        totalDays: 0
+        dataPoints,
+        outcomes,
+        firstSeen: meta?.firstSeen ?? Date.now(),
+        lastUpdated: meta?.lastUpdated ?? Date.now(),
+        totalDays: meta?.totalDays ?? new Set(dataPoints.map(dp => dp.date)).size
     };
 }
 
-// Save history to LocalStorage
-function saveHistory(history: UserHistory): void {
-    try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-    } catch (e) {
-        console.warn('[HistoryStore] Failed to save history:', e);
-    }
+// Persist history meta after points or outcomes changed
+function touchHistory(totalDays?: number): void {
+    const meta = persistence.getValue('history_meta');
+    persistence.setValue('history_meta', {
+        firstSeen: meta?.firstSeen ?? Date.now(),
+        lastUpdated: Date.now(),
+        totalDays: totalDays ?? meta?.totalDays ?? 0
+    });
 }
 
-// Clean old data beyond retention period
-function cleanOldData(history: UserHistory): UserHistory {
-    const cutoff = Date.now() - (MAX_DAYS * 24 * 60 * 60 * 1000);
-
-    return {
-        ...history,
-        dataPoints: history.dataPoints.filter(dp => dp.timestamp > cutoff),
-        outcomes: history.outcomes.slice(-MAX_OUTCOMES)
-    };
+function countDays(): number {
+    return new Set(persistence.getAll('history_points').map(dp => dp.date)).size;
 }
 
 // Save a data point snapshot
@@ -106,43 +94,89 @@ export function saveDataPoint(state: GlobalState): void {
     const lastPoint = history.dataPoints[history.dataPoints.length - 1];
     if (lastPoint) {
         const timeDiff = point.timestamp - lastPoint.timestamp;
-        if (timeDiff < 60 * 60 * 1000 && point.date === lastPoint.date) {
+        if (timeDiff < 60 * 60 * 1000 && point.date === lastPoint.date && isSnapshot(lastPoint)) {
             // Update existing point instead of adding new
-            history.dataPoints[history.dataPoints.length - 1] = point;
-            history.lastUpdated = Date.now();
-            saveHistory(history);
+            persistence.delete('history_points', String(lastPoint.timestamp));
+            persistence.put('history_points', point);
+            touchHistory();
             return;
         }
     }
 
-    history.dataPoints.push(point);
-    history.lastUpdated = Date.now();
+    persistence.put('history_points', point);
+    touchHistory(countDays());
+}
 
-    // Count unique days
-    const uniqueDays = new Set(history.dataPoints.map(dp => dp.date));
-    history.totalDays = uniqueDays.size;
+// Save an action outcome (replaces any outcome for the same command)
+export function saveOutcome(outcome: ActionOutcome): void {
+    persistence.put('action_outcomes', outcome);
+    touchHistory();
+}
 
-    // Clean and save
-    const cleanedHistory = cleanOldData(history);
-    saveHistory(cleanedHistory);
+// App snapshots carry readiness, fuel, stress etc.; imported points do not
+export function isSnapshot(dp: HistoricalDataPoint): boolean {
+    return dp.source === undefined || dp.source === 'snapshot';
 }
 
-// Save an action outcome
-export function saveOutcome(outcome: ActionOutcome): void {
+// Day-level fields an import may set on an existing point
+function importedFields(day: DailyHealthMetrics): Partial<HistoricalDataPoint> {
+    const fields: Partial<HistoricalDataPoint> = {};
+    if (day.resting_hr !== undefined) fields.resting_hr = day.resting_hr;
+    if (day.hrv_sdnn !== undefined) fields.hrv_sdnn = day.hrv_sdnn;
+    if (day.hrv_rmssd !== undefined) fields.hrv_rmssd = day.hrv_rmssd;
+    if (day.body_mass_kg !== undefined) fields.body_mass_kg = day.body_mass_kg;
+    if (day.sleep) fields.sleep_night = { ...day.sleep, stage_segments: [] };
+    return fields;
+}
+
+// Backfill imported per-day metrics by date. Days that already have
+// snapshots are enriched in place; other days get an imported point.
+export function backfillDataPoints(days: DailyHealthMetrics[], source: DataPointSource): void {
     const history = loadHistory();
+    const points: HistoricalDataPoint[] = [];
 
-    // Check if outcome for this command already exists
-    const existingIdx = history.outcomes.findIndex(o => o.command_id === outcome.command_id);
-    if (existingIdx >= 0) {
-        history.outcomes[existingIdx] = outcome;
-    } else {
-        history.outcomes.push(outcome);
+    for (const day of days) {
+        const fields = importedFields(day);
+        const existing = history.dataPoints.filter(dp => dp.date === day.date);
+
+        if (existing.length > 0) {
+            existing.forEach(dp => points.push({ ...dp, ...fields }));
+            continue;
+        }
+
+        const wake = day.sleep?.wake_time ?? '07:00';
+        points.push({
+            timestamp: new Date(`${day.date}T${wake}:00`).getTime(),
+            date: day.date,
+            time_of_day: 'morning',
+            readiness: 0,
+            fuel_score: 0,
+            hrv: day.hrv_rmssd ?? day.hrv_sdnn ?? 0,
+            stress: 0,
+            mood: 0,
+            sleep_duration: day.sleep ? Math.round((day.sleep.total_sleep_time / 60) * 10) / 10 : 0,
+            sleep_efficiency: day.sleep?.sleep_efficiency ?? 0,
+            sleep_debt: 0,
+            recovery_score: 0,
+            acwr: 0,
+            acute_load: 0,
+            chronic_load: 0,
+            source,
+            ...fields
+        });
     }
 
-    history.lastUpdated = Date.now();
+    persistence.putMany('history_points', points);
+    touchHistory(countDays());
+}
 
-    const cleanedHistory = cleanOldData(history);
-    saveHistory(cleanedHistory);
+// Imported nights, one per date, oldest first
+export function getSleepNights(): SleepArchitecture[] {
+    const byDate = new Map<string, SleepArchitecture>();
+    for (const dp of loadHistory().dataPoints) {
+        if (dp.sleep_night) byDate.set(dp.date, dp.sleep_night);
+    }
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
 }
 
 // Get history for last N days
@@ -171,37 +205,28 @@ export function getAverages(days: number = 7): Record<string, number> {
         return {};
     }
 
-    const sum = history.dataPoints.reduce((acc, dp) => ({
-        readiness: acc.readiness + dp.readiness,
-        fuel_score: acc.fuel_score + dp.fuel_score,
-        hrv: acc.hrv + dp.hrv,
-        stress: acc.stress + dp.stress,
-        sleep_duration: acc.sleep_duration + dp.sleep_duration,
-        recovery_score: acc.recovery_score + dp.recovery_score
-    }), {
-        readiness: 0,
-        fuel_score: 0,
-        hrv: 0,
-        stress: 0,
-        sleep_duration: 0,
-        recovery_score: 0
-    });
-
-    const count = history.dataPoints.length;
+    // Imported points only count towards the metrics they measured
+    const snapshots = history.dataPoints.filter(isSnapshot);
+    const measured = (metric: 'hrv' | 'sleep_duration') =>
+        history.dataPoints.filter(dp => isSnapshot(dp) || dp[metric] > 0);
+    const avg = (points: HistoricalDataPoint[], metric: keyof HistoricalDataPoint) =>
+        points.length > 0 ? points.reduce((acc, dp) => acc + (dp[metric] as number), 0) / points.length : 0;
 
     return {
-        readiness: Math.round(sum.readiness / count),
-        fuel_score: Math.round(sum.fuel_score / count),
-        hrv: Math.round(sum.hrv / count),
-        stress: Math.round((sum.stress / count) * 10) / 10,
-        sleep_duration: Math.round((sum.sleep_duration / count) * 10) / 10,
-        recovery_score: Math.round(sum.recovery_score / count)
+        readiness: Math.round(avg(snapshots, 'readiness')),
+        fuel_score: Math.round(avg(snapshots, 'fuel_score')),
+        hrv: Math.round(avg(measured('hrv'), 'hrv')),
+        stress: Math.round(avg(snapshots, 'stress') * 10) / 10,
+        sleep_duration: Math.round(avg(measured('sleep_duration'), 'sleep_duration') * 10) / 10,
+        recovery_score: Math.round(avg(snapshots, 'recovery_score'))
     };
 }
 
 // Clear all history
 export function clearHistory(): void {
-    localStorage.removeItem(STORAGE_KEY);
+    persistence.clear('history_points');
+    persistence.clear('action_outcomes');
+    persistence.deleteValue('history_meta');
 }
 
 // Export history as JSON
@@ -210,11 +235,33 @@ export function exportHistory(): string {
     return JSON.stringify(history, null, 2);
 }
 
+// Replace all history with the given history
+export function replaceHistory(history: UserHistory): void {
+    persistence.replaceAll('history_points', history.dataPoints ?? []);
+    persistence.replaceAll('action_outcomes', history.outcomes ?? []);
+    persistence.setValue('history_meta', {
+        firstSeen: history.firstSeen ?? Date.now(),
+        lastUpdated: Date.now(),
+        totalDays: countDays()
+    });
+}
+
+// Add another history's points and outcomes; same-key records are overwritten
+export function mergeHistory(history: UserHistory): void {
+    const meta = persistence.getValue('history_meta');
+    persistence.putMany('history_points', history.dataPoints ?? []);
+    persistence.putMany('action_outcomes', history.outcomes ?? []);
+    persistence.setValue('history_meta', {
+        firstSeen: Math.min(meta?.firstSeen ?? Date.now(), history.firstSeen ?? Date.now()),
+        lastUpdated: Date.now(),
+        totalDays: countDays()
+    });
+}
+
 // Import history from JSON
 export function importHistory(json: string): boolean {
     try {
-        const history = JSON.parse(json) as UserHistory;
-        saveHistory(history);
+        replaceHistory(JSON.parse(json) as UserHistory);
         return true;
     } catch (e) {
         console.error('[HistoryStore] Failed to import history:', e);
@@ -2,6 +2,12 @@
  * HISTORY TYPES - Data structures for tracking user history
  */
 
+import type { SleepArchitecture } from '../../types/sleep-architecture';
+
+// Where a data point came from. App snapshots carry every metric; imported
+// points only carry the day-level fields their source measures.
+export type DataPointSource = 'snapshot' | 'apple_health' | 'wearable' | 'rr_recording';
+
 // Snapshot of state at a moment in time
 export interface HistoricalDataPoint {
     timestamp: number;
@@ -29,6 +35,14 @@ export interface HistoricalDataPoint {
     active_command_id?: string;
     sessions_completed?: number;
     time_of_day: 'morning' | 'midday' | 'afternoon' | 'evening' | 'night';
+
+    // Imported day-level metrics (absent source = app snapshot)
+    source?: DataPointSource;
+    resting_hr?: number;
+    hrv_sdnn?: number;
+    hrv_rmssd?: number;
+    body_mass_kg?: number;
+    sleep_night?: SleepArchitecture; // Stage segments dropped for storage
 }
 
 // Result of following a command
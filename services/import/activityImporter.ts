@@ -0,0 +1,263 @@
+/**
+ * Activity Importer
+ *
+ * Turns recorded activity files (.fit, .gpx, .tcx) into completed timeline
+ * Sessions and per-session DailyLoad entries for the LoadManagementEngine.
+ *
+ * Load is the Banister TRIMP when the file carries heart rate, otherwise
+ * Foster sRPE (RPE × duration). Session RPE is estimated from average HR as
+ * %HRmax (Borg CR10 mapping), falling back to a moderate RPE without HR.
+ */
+
+import { Session, UserProfile } from '../../types';
+import { DailyLoad } from '../../types/load-management';
+import {
+    ParsedActivity,
+    ActivitySport,
+    ActivityStreams,
+    ActivityImportOptions,
+    ActivityImportResult,
+    ActivityImportBatch
+} from '../../types/activity-import';
+import { parseFitActivity } from './fitDecoder';
+import { parseGpxActivity, parseTcxActivity } from './xmlActivityParser';
+import { calculateBanisterTRIMP } from './activityMetrics';
+import { loadManagementEngine } from '../../experts/performance/LoadManagementEngine';
+import { engineRegistry } from '../engineRegistry';
+import { getLoadMethod, toDateKey } from '../../experts/performance/loadHistoryStore';
+
+// Seconds per stored stream sample
+export const STREAM_RESOLUTION_S = 5;
+
+const DEFAULT_RPE = 5;
+const DEFAULT_RESTING_HR = 60;
+
+export type ImportProfile = Partial<Pick<UserProfile, 'max_hr' | 'age' | 'gender' | 'baselines'>>;
+
+const SPORT_LABELS: Record<ActivitySport, string> = {
+    running: 'Run',
+    cycling: 'Ride',
+    swimming: 'Swim',
+    walking: 'Walk',
+    hiking: 'Hike',
+    rowing: 'Row',
+    strength: 'Strength Training',
+    training: 'Training',
+    team_sport: 'Team Sport',
+    generic: 'Activity'
+};
+
+// ============================================================================
+// DERIVED METRICS
+// ============================================================================
+
+/**
+ * Estimate session RPE (1-10) from average HR as a fraction of HRmax.
+ * 50% → 1, 70% → 4, 80% → 6, 90% → 8, ≥97% → 10
+ */
+export const estimateSessionRPE = (avgHr: number | undefined, maxHr: number): number => {
+    if (!avgHr || maxHr <= 0) return DEFAULT_RPE;
+    const fraction = avgHr / maxHr;
+    return Math.min(10, Math.max(1, Math.round((fraction - 0.5) * 20)));
+};
+
+const getMaxHr = (profile?: ImportProfile): number =>
+    profile?.max_hr || (profile?.age ? 220 - profile.age : 190);
+
+const getRestingHr = (profile?: ImportProfile): number =>
+    profile?.baselines?.resting_hr || DEFAULT_RESTING_HR;
+
+const mapSessionType = (sport: ActivitySport): Session['type'] => {
+    switch (sport) {
+        case 'strength': return 'strength';
+        case 'training': return 'gym';
+        case 'team_sport': return 'sport';
+        case 'walking': return 'recovery';
+        default: return 'conditioning';
+    }
+};
+
+const mapActivityType = (sport: ActivitySport): Session['activity_type'] => {
+    switch (sport) {
+        case 'strength': return 'strength';
+        case 'team_sport': return 'mixed';
+        case 'training': return 'hybrid';
+        default: return 'endurance';
+    }
+};
+
+const getSequenceBlock = (hour: number): Session['sequence_block'] => {
+    if (hour < 11) return 'morning';
+    if (hour < 14) return 'midday';
+    if (hour < 18) return 'afternoon';
+    return 'evening';
+};
+
+/**
+ * Downsample per-second samples into fixed-resolution parallel arrays.
+ * Each bucket keeps the mean of the samples that fall into it.
+ */
+export const buildStreams = (activity: ParsedActivity, resolution: number = STREAM_RESOLUTION_S): ActivityStreams => {
+    const buckets = new Map<number, { hr: number[]; power: number[]; speed: number[]; alt: number[] }>();
+
+    for (const sample of activity.samples) {
+        const key = Math.floor(sample.elapsed_s / resolution);
+        const bucket = buckets.get(key) || { hr: [], power: [], speed: [], alt: [] };
+        if (sample.heart_rate !== undefined) bucket.hr.push(sample.heart_rate);
+        if (sample.power_w !== undefined) bucket.power.push(sample.power_w);
+        if (sample.speed_mps !== undefined) bucket.speed.push(sample.speed_mps);
+        if (sample.altitude_m !== undefined) bucket.alt.push(sample.altitude_m);
+        buckets.set(key, bucket);
+    }
+
+    const keys = [...buckets.keys()].sort((a, b) => a - b);
+    const avg = (values: number[]) => values.length
+        ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10
+        : 0;
+    const column = (pick: (b: { hr: number[]; power: number[]; speed: number[]; alt: number[] }) => number[]) => {
+        const values = keys.map(k => pick(buckets.get(k)!));
+        return values.some(v => v.length > 0) ? values.map(avg) : undefined;
+    };
+
+    return {
+        resolution_s: resolution,
+        elapsed_s: keys.map(k => k * resolution),
+        heart_rate: column(b => b.hr),
+        power_w: column(b => b.power),
+        speed_mps: column(b => b.speed),
+        altitude_m: column(b => b.alt)
+    };
+};
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+export const activityToSession = (
+    activity: ParsedActivity,
+    fileName: string,
+    profile?: ImportProfile
+): Session => {
+    const start = new Date(activity.start_time);
+    const durationMinutes = Math.round(activity.duration_seconds / 60);
+    const maxHr = getMaxHr(profile);
+    const rpe = estimateSessionRPE(activity.avg_hr, maxHr);
+    const trimp = calculateBanisterTRIMP(activity.samples, getRestingHr(profile), maxHr, profile?.gender);
+    const label = SPORT_LABELS[activity.sport];
+    const distanceKm = activity.distance_meters ? activity.distance_meters / 1000 : 0;
+
+    const details = [
+        `${durationMinutes} min`,
+        distanceKm > 0 ? `${distanceKm.toFixed(1)} km` : null,
+        activity.elevation_gain_m ? `+${activity.elevation_gain_m} m` : null,
+        activity.avg_hr ? `avg HR ${activity.avg_hr}` : null,
+        activity.avg_power_w ? `avg ${activity.avg_power_w} W` : null
+    ].filter(Boolean).join(' · ');
+
+    return {
+        id: `${activity.format}-${start.getTime()}`,
+        date: start.toISOString(),
+        type: mapSessionType(activity.sport),
+        activity_type: mapActivityType(activity.sport),
+        time_of_day: `${String(start.getHours()).padStart(2, '0')}:${String(start.getMinutes()).padStart(2, '0')}`,
+        sequence_block: getSequenceBlock(start.getHours()),
+        title: distanceKm > 0 ? `${label} · ${distanceKm.toFixed(1)} km` : label,
+        description: details,
+        intensity: rpe >= 7 ? 'high' : rpe >= 4 ? 'medium' : 'low',
+        duration_minutes: durationMinutes,
+        distance_meters: activity.distance_meters !== undefined ? Math.round(activity.distance_meters) : undefined,
+        rpe_planned: rpe,
+        mandatory: false,
+        completed: true,
+        avg_hr: activity.avg_hr,
+        max_hr: activity.max_hr,
+        avg_power_w: activity.avg_power_w,
+        elevation_gain_m: activity.elevation_gain_m,
+        trimp,
+        streams: buildStreams(activity),
+        import_source: {
+            format: activity.format,
+            file_name: fileName,
+            imported_at: new Date().toISOString(),
+            device: activity.device,
+            sport: activity.sport
+        }
+    };
+};
+
+/**
+ * Per-session load entry. load_au uses the session's TRIMP when requested
+ * and available, otherwise sRPE; the method is recorded on the entry and the
+ * TRIMP is kept either way so the series can be recomputed in one method
+ * (see inLoadMethod).
+ */
+export const sessionToDailyLoad = (
+    session: Session,
+    method: ActivityImportOptions['load_method'] = getLoadMethod()
+): DailyLoad => {
+    const rpe = session.feedback?.rpe ?? session.rpe_planned ?? DEFAULT_RPE;
+    const useTrimp = method === 'trimp' && session.trimp !== undefined;
+    return {
+        date: toDateKey(new Date(session.date || Date.now())),
+        session_rpe: rpe,
+        duration_minutes: session.duration_minutes,
+        load_au: useTrimp ? Math.round(session.trimp!) : Math.round(rpe * session.duration_minutes),
+        load_method: useTrimp ? 'trimp' : 'session_rpe',
+        session_type: session.is_competition_simulation || session.activity_type === 'competition' ? 'competition'
+            : session.type === 'recovery' ? 'recovery' : 'training',
+        intensity_zone: rpe >= 9 ? 'very_high' : rpe >= 7 ? 'high' : rpe >= 5 ? 'moderate' : 'low',
+        trimp: session.trimp !== undefined ? Math.round(session.trimp) : undefined,
+        source_id: session.id
+    };
+};
+
+// ============================================================================
+// FILE IMPORT
+// ============================================================================
+
+export const parseActivityFile = async (file: File): Promise<ParsedActivity> => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    switch (extension) {
+        case 'fit':
+            return parseFitActivity(await file.arrayBuffer());
+        case 'gpx':
+            return parseGpxActivity(await file.text());
+        case 'tcx':
+            return parseTcxActivity(await file.text());
+        default:
+            throw new Error(`Unsupported activity file type: .${extension}`);
+    }
+};
+
+/**
+ * Parse activity files and record their loads. Sessions are returned for
+ * the caller to merge into the timeline (see the `activities_imported` event).
+ */
+export const importActivityFiles = async (
+    files: File[],
+    profile?: ImportProfile,
+    options: ActivityImportOptions = {}
+): Promise<ActivityImportBatch> => {
+    const batch: ActivityImportBatch = { imported: [], failed: [] };
+
+    for (const file of files) {
+        try {
+            const activity = await parseActivityFile(file);
+            const session = activityToSession(activity, file.name, profile);
+            const result: ActivityImportResult = {
+                file_name: file.name,
+                activity,
+                session,
+                daily_load: sessionToDailyLoad(session, options.load_method)
+            };
+            batch.imported.push(result);
+        } catch (e: any) {
+            console.warn(`[ActivityImporter] Failed to import ${file.name}:`, e);
+            batch.failed.push({ file_name: file.name, error: e?.message || String(e) });
+        }
+    }
+
+    loadManagementEngine.importSessionLoads(batch.imported.map(r => r.daily_load));
+    engineRegistry.hydrate('pattern_discovery');
+    return batch;
+};
@@ -0,0 +1,99 @@
+/**
+ * Activity Metrics - Derived values shared by all activity file parsers
+ *
+ * Implements:
+ * - Haversine distance between GPS fixes
+ * - Elevation gain with a noise threshold (GPS / barometric jitter)
+ * - Banister TRIMP (training impulse) from a heart rate stream
+ */
+
+import { ActivitySample } from '../../types/activity-import';
+
+const EARTH_RADIUS_M = 6371000;
+
+// Ignore climbs smaller than this between confirmed turning points
+const ELEVATION_NOISE_THRESHOLD_M = 3;
+
+// Gaps longer than this (pauses, signal loss) are not counted as exercise time
+const MAX_SAMPLE_GAP_S = 30;
+
+/**
+ * Great-circle distance between two coordinates in metres
+ */
+export const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const a = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Fill cumulative distance_m from GPS positions where the file has none
+ */
+export const fillDistanceFromPositions = (samples: ActivitySample[]): void => {
+    let total = 0;
+    let prev: ActivitySample | undefined;
+    for (const sample of samples) {
+        if (sample.lat === undefined || sample.lon === undefined) continue;
+        if (prev) total += haversineDistance(prev.lat!, prev.lon!, sample.lat, sample.lon);
+        if (sample.distance_m === undefined) sample.distance_m = total;
+        prev = sample;
+    }
+};
+
+/**
+ * Total ascent in metres. Altitude must move more than the noise threshold
+ * from the last turning point before a climb or descent is registered.
+ */
+export const computeElevationGain = (samples: ActivitySample[]): number | undefined => {
+    const altitudes = samples.map(s => s.altitude_m).filter((v): v is number => v !== undefined);
+    if (altitudes.length < 2) return undefined;
+
+    let gain = 0;
+    let reference = altitudes[0];
+    for (const altitude of altitudes.slice(1)) {
+        const delta = altitude - reference;
+        if (delta >= ELEVATION_NOISE_THRESHOLD_M) {
+            gain += delta;
+            reference = altitude;
+        } else if (delta <= -ELEVATION_NOISE_THRESHOLD_M) {
+            reference = altitude;
+        }
+    }
+    return Math.round(gain);
+};
+
+/**
+ * Banister TRIMP (1991), integrated sample by sample:
+ *   TRIMP = Σ Δt(min) × HRr × k1 × e^(k2 × HRr)
+ *   HRr = (HR − HRrest) / (HRmax − HRrest)
+ *   k1, k2 = 0.64, 1.92 (male) · 0.86, 1.67 (female)
+ *
+ * Returns undefined when the stream has no usable heart rate.
+ */
+export const calculateBanisterTRIMP = (
+    samples: ActivitySample[],
+    restingHr: number,
+    maxHr: number,
+    gender: 'male' | 'female' = 'male'
+): number | undefined => {
+    if (maxHr <= restingHr) return undefined;
+    const [k1, k2] = gender === 'female' ? [0.86, 1.67] : [0.64, 1.92];
+
+    const hrSamples = samples.filter(s => s.heart_rate !== undefined && s.heart_rate > 0);
+    if (hrSamples.length < 2) return undefined;
+
+    let trimp = 0;
+    for (let i = 1; i < hrSamples.length; i++) {
+        const dt = hrSamples[i].elapsed_s - hrSamples[i - 1].elapsed_s;
+        if (dt <= 0 || dt > MAX_SAMPLE_GAP_S) continue;
+
+        const hr = (hrSamples[i].heart_rate! + hrSamples[i - 1].heart_rate!) / 2;
+        const reserve = Math.min(1, Math.max(0, (hr - restingHr) / (maxHr - restingHr)));
+        trimp += (dt / 60) * reserve * k1 * Math.exp(k2 * reserve);
+    }
+
+    return Math.round(trimp * 10) / 10;
+};
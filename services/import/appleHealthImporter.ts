@@ -0,0 +1,368 @@
+/**
+ * Apple Health Importer - export.zip / export.xml → daily health metrics
+ *
+ * The export is streamed (it is routinely several GB uncompressed), and only
+ * <Record> elements of the types below are parsed:
+ * - HKCategoryTypeIdentifierSleepAnalysis   → nightly SleepArchitecture
+ * - HKQuantityTypeIdentifierHeartRateVariabilitySDNN → SDNN, plus RMSSD from
+ *   the beat-to-beat InstantaneousBeatsPerMinute metadata when present
+ * - HKQuantityTypeIdentifierRestingHeartRate
+ * - HKQuantityTypeIdentifierBodyMass (kg, lb, st, g)
+ *
+ * Results are backfilled into the history store by date and fed to the
+ * SleepArchitectureEngine; the caller applies the latest day to state via
+ * the `health_imported` sync event.
+ */
+
+import {
+    AppleHealthImportSummary,
+    AppleHealthRecordKind,
+    AppleHRVSample,
+    AppleSleepSegment,
+    AppleSleepValue,
+    DailyHealthMetrics
+} from '../../types/health-import';
+import { SleepArchitecture, SleepStageSegment } from '../../types/sleep-architecture';
+import { listZipEntries, openZipEntry } from './zipReader';
+import { buildSleepNight, toSegment } from './sleepStages';
+import { backfillDataPoints } from '../history/historyStore';
+import { engineRegistry } from '../engineRegistry';
+
+const RECORD_TYPES: Record<string, AppleHealthRecordKind> = {
+    HKCategoryTypeIdentifierSleepAnalysis: 'sleep',
+    HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'hrv_sdnn',
+    HKQuantityTypeIdentifierRestingHeartRate: 'resting_hr',
+    HKQuantityTypeIdentifierBodyMass: 'body_mass'
+};
+
+const SLEEP_VALUES: Record<string, AppleSleepValue> = {
+    HKCategoryValueSleepAnalysisInBed: 'in_bed',
+    HKCategoryValueSleepAnalysisAsleep: 'asleep',
+    HKCategoryValueSleepAnalysisAsleepUnspecified: 'asleep',
+    HKCategoryValueSleepAnalysisAsleepCore: 'core',
+    HKCategoryValueSleepAnalysisAsleepDeep: 'deep',
+    HKCategoryValueSleepAnalysisAsleepREM: 'rem',
+    HKCategoryValueSleepAnalysisAwake: 'awake'
+};
+
+const KG_PER_UNIT: Record<string, number> = {
+    kg: 1,
+    g: 0.001,
+    lb: 0.45359237,
+    st: 6.35029318
+};
+
+// A gap longer than this between sleep segments starts a new sleep period
+const SLEEP_PERIOD_GAP_MS = 2 * 60 * 60 * 1000;
+
+const RECORD_OPEN = '<Record ';
+const RECORD_CLOSE = '</Record>';
+
+export type AppleHealthProgress = (fraction: number) => void;
+
+// ============================================================================
+// STREAM SCANNING
+// ============================================================================
+
+/**
+ * "2024-03-02 06:41:10 +0100" → "2024-03-02T06:41:10+01:00".
+ * The wall-clock part is kept so dates and HH:MM stay local to the recording.
+ */
+export const parseAppleDate = (value: string | undefined): string | undefined => {
+    const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-])(\d{2})(\d{2})$/);
+    if (!match) return undefined;
+    return `${match[1]}T${match[2]}${match[3]}${match[4]}:${match[5]}`;
+};
+
+const parseAttributes = (tag: string): Record<string, string> => {
+    const attrs: Record<string, string> = {};
+    for (const match of tag.matchAll(/(\w+)="([^"]*)"/g)) attrs[match[1]] = match[2];
+    return attrs;
+};
+
+const readRecordType = (tag: string): string | undefined => {
+    const start = tag.indexOf('type="');
+    if (start < 0) return undefined;
+    return tag.slice(start + 6, tag.indexOf('"', start + 6));
+};
+
+/**
+ * Walk <Record> elements of interest in a streamed export.xml. Records with
+ * children (metadata, HRV beat lists) are passed with their inner XML.
+ */
+async function scanRecords(
+    stream: ReadableStream<string>,
+    onRecord: (kind: AppleHealthRecordKind, attrs: Record<string, string>, body?: string) => void
+): Promise<void> {
+    const reader = stream.getReader();
+    let buffer = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (value) buffer += value;
+
+        let pos = 0;
+        for (;;) {
+            const start = buffer.indexOf(RECORD_OPEN, pos);
+            if (start < 0) {
+                pos = Math.max(pos, buffer.length - RECORD_OPEN.length);
+                break;
+            }
+            const tagEnd = buffer.indexOf('>', start);
+            if (tagEnd < 0) { pos = start; break; }
+
+            const tag = buffer.slice(start, tagEnd);
+            let end = tagEnd + 1;
+            let body: string | undefined;
+            if (buffer[tagEnd - 1] !== '/') {
+                const close = buffer.indexOf(RECORD_CLOSE, tagEnd);
+                if (close < 0) { pos = start; break; }
+                body = buffer.slice(tagEnd + 1, close);
+                end = close + RECORD_CLOSE.length;
+            }
+
+            const kind = RECORD_TYPES[readRecordType(tag) ?? ''];
+            if (kind) onRecord(kind, parseAttributes(tag), body);
+            pos = end;
+        }
+
+        buffer = buffer.slice(pos);
+        if (done) break;
+    }
+}
+
+/**
+ * RMSSD from Apple's instantaneous BPM list (one entry per detected beat)
+ */
+export const rmssdFromBeatList = (body: string | undefined): number | undefined => {
+    if (!body) return undefined;
+    const rr = [...body.matchAll(/InstantaneousBeatsPerMinute\s+bpm="([\d.]+)"/g)]
+        .map(m => parseFloat(m[1]))
+        .filter(bpm => bpm > 0)
+        .map(bpm => 60000 / bpm);
+    if (rr.length < 3) return undefined;
+
+    let sumSquares = 0;
+    for (let i = 1; i < rr.length; i++) sumSquares += (rr[i] - rr[i - 1]) ** 2;
+    return Math.round(Math.sqrt(sumSquares / (rr.length - 1)) * 10) / 10;
+};
+
+// ============================================================================
+// SLEEP PERIODS → NIGHTS
+// ============================================================================
+
+const STAGE_OF: Record<Exclude<AppleSleepValue, 'in_bed'>, SleepStageSegment['stage']> = {
+    asleep: 'light',
+    core: 'light',
+    deep: 'deep',
+    rem: 'rem',
+    awake: 'awake'
+};
+
+const isStaged = (value: AppleSleepValue) => value === 'core' || value === 'deep' || value === 'rem';
+
+const segmentMinutes = (segment: AppleSleepSegment) =>
+    (Date.parse(segment.end) - Date.parse(segment.start)) / 60000;
+
+const mapSleepSource = (source: string | undefined): SleepArchitecture['source'] => {
+    if (!source) return 'apple_watch';
+    if (/oura/i.test(source)) return 'oura';
+    if (/whoop/i.test(source)) return 'whoop';
+    if (/garmin/i.test(source)) return 'garmin';
+    if (/eight ?sleep/i.test(source)) return 'eight_sleep';
+    return 'apple_watch';
+};
+
+// Sources with the most sleep of the preferred kind win; other sources
+// (e.g. the iPhone's unstaged estimate) overlap the same night
+const pickSource = (segments: AppleSleepSegment[], accept: (value: AppleSleepValue) => boolean) => {
+    const totals = new Map<string, number>();
+    for (const segment of segments) {
+        if (!accept(segment.value)) continue;
+        const key = segment.source ?? '';
+        totals.set(key, (totals.get(key) ?? 0) + segmentMinutes(segment));
+    }
+    return [...totals.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+const buildNight = (period: AppleSleepSegment[]): SleepArchitecture | null => {
+    const inBed = period.filter(s => s.value === 'in_bed');
+    const sleepSegments = period.filter(s => s.value !== 'in_bed');
+    const staged = sleepSegments.some(s => isStaged(s.value));
+
+    const source = staged
+        ? pickSource(sleepSegments, isStaged)
+        : pickSource(sleepSegments, value => value === 'asleep');
+    if (source === undefined) return null;
+
+    const chosen = sleepSegments.filter(s =>
+        (s.source ?? '') === source && (staged ? s.value !== 'asleep' : true)
+    );
+    if (chosen.length === 0) return null;
+
+    const segments = chosen.map(s => toSegment(STAGE_OF[s.value as Exclude<AppleSleepValue, 'in_bed'>], s.start, s.end));
+    const lastEnd = chosen.reduce((latest, s) => Date.parse(s.end) > Date.parse(latest) ? s.end : latest, chosen[0].end);
+    const window = inBed.length > 0
+        ? {
+            start: inBed.reduce((min, s) => Date.parse(s.start) < Date.parse(min) ? s.start : min, inBed[0].start),
+            end: inBed.reduce((max, s) => Date.parse(s.end) > Date.parse(max) ? s.end : max, inBed[0].end)
+        }
+        : undefined;
+
+    return buildSleepNight(lastEnd.slice(0, 10), segments, mapSleepSource(source), window);
+};
+
+/**
+ * Group sleep segments into sleep periods and keep the longest per wake date
+ * (naps on the same day are dropped).
+ */
+export function buildSleepNights(segments: AppleSleepSegment[]): SleepArchitecture[] {
+    const sorted = [...segments].sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+    const periods: AppleSleepSegment[][] = [];
+    let periodEnd = -Infinity;
+
+    for (const segment of sorted) {
+        if (Date.parse(segment.start) > periodEnd + SLEEP_PERIOD_GAP_MS) periods.push([]);
+        periods[periods.length - 1].push(segment);
+        periodEnd = Math.max(periodEnd, Date.parse(segment.end));
+    }
+
+    const byDate = new Map<string, SleepArchitecture>();
+    for (const period of periods) {
+        const night = buildNight(period);
+        if (!night) continue;
+        const existing = byDate.get(night.date);
+        if (!existing || night.total_sleep_time > existing.total_sleep_time) byDate.set(night.date, night);
+    }
+
+    return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================================================
+// PARSE
+// ============================================================================
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const openExportText = async (file: File, onProgress?: AppleHealthProgress): Promise<ReadableStream<string>> => {
+    let bytes: ReadableStream<Uint8Array>;
+    let total: number;
+
+    if (/\.zip$/i.test(file.name)) {
+        const entries = await listZipEntries(file);
+        const entry = entries.find(e => /(^|\/)export\.xml$/i.test(e.name));
+        if (!entry) throw new Error('No export.xml found in the archive');
+        bytes = await openZipEntry(file, entry);
+        total = entry.uncompressed_size;
+    } else {
+        bytes = file.stream();
+        total = file.size;
+    }
+
+    let read = 0;
+    const progress = new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            read += chunk.byteLength;
+            onProgress?.(total > 0 ? Math.min(1, read / total) : 0);
+            controller.enqueue(chunk);
+        }
+    });
+
+    return bytes.pipeThrough(progress).pipeThrough(new TextDecoderStream());
+};
+
+/**
+ * Parse an Apple Health export (export.zip or an extracted export.xml)
+ * into one DailyHealthMetrics per day. Does not persist anything.
+ */
+export async function parseAppleHealthExport(file: File, onProgress?: AppleHealthProgress): Promise<AppleHealthImportSummary> {
+    const counts: Record<AppleHealthRecordKind, number> = { sleep: 0, hrv_sdnn: 0, resting_hr: 0, body_mass: 0 };
+    const sleep: AppleSleepSegment[] = [];
+    const hrv: AppleHRVSample[] = [];
+    const restingHr = new Map<string, number[]>();
+    const bodyMass = new Map<string, { timestamp: string; kg: number }>();
+    let skipped = 0;
+
+    await scanRecords(await openExportText(file, onProgress), (kind, attrs, body) => {
+        const start = parseAppleDate(attrs.startDate);
+        const end = parseAppleDate(attrs.endDate);
+        const numeric = parseFloat(attrs.value);
+        if (!start || !end) { skipped++; return; }
+
+        switch (kind) {
+            case 'sleep': {
+                const value = SLEEP_VALUES[attrs.value];
+                if (!value || Date.parse(end) <= Date.parse(start)) { skipped++; return; }
+                sleep.push({ value, start, end, source: attrs.sourceName });
+                break;
+            }
+            case 'hrv_sdnn':
+                if (!(numeric > 0) || attrs.unit !== 'ms') { skipped++; return; }
+                hrv.push({ date: start.slice(0, 10), timestamp: start, sdnn_ms: numeric, rmssd_ms: rmssdFromBeatList(body) });
+                break;
+            case 'resting_hr':
+                if (!(numeric > 0)) { skipped++; return; }
+                restingHr.set(start.slice(0, 10), [...(restingHr.get(start.slice(0, 10)) ?? []), numeric]);
+                break;
+            case 'body_mass': {
+                const factor = KG_PER_UNIT[attrs.unit];
+                if (!(numeric > 0) || factor === undefined) { skipped++; return; }
+                const date = start.slice(0, 10);
+                const previous = bodyMass.get(date);
+                if (!previous || start > previous.timestamp) bodyMass.set(date, { timestamp: start, kg: numeric * factor });
+                break;
+            }
+        }
+        counts[kind]++;
+    });
+
+    const days = new Map<string, DailyHealthMetrics>();
+    const day = (date: string) => {
+        if (!days.has(date)) days.set(date, { date });
+        return days.get(date)!;
+    };
+
+    for (const night of buildSleepNights(sleep)) day(night.date).sleep = night;
+
+    const hrvByDate = new Map<string, AppleHRVSample[]>();
+    for (const sample of hrv) hrvByDate.set(sample.date, [...(hrvByDate.get(sample.date) ?? []), sample]);
+    for (const [date, samples] of hrvByDate) {
+        const rmssd = samples.map(s => s.rmssd_ms).filter((v): v is number => v !== undefined);
+        day(date).hrv_sdnn = round1(mean(samples.map(s => s.sdnn_ms)));
+        if (rmssd.length > 0) day(date).hrv_rmssd = round1(mean(rmssd));
+    }
+
+    for (const [date, values] of restingHr) day(date).resting_hr = Math.round(mean(values));
+    for (const [date, entry] of bodyMass) day(date).body_mass_kg = round1(entry.kg);
+
+    const sorted = [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+    return {
+        file_name: file.name,
+        days: sorted,
+        record_counts: counts,
+        skipped_records: skipped,
+        first_date: sorted[0]?.date,
+        last_date: sorted[sorted.length - 1]?.date
+    };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Parse, backfill history by date and re-feed the engines that keep their
+ * own history (sleep, patterns). Apply `summary.days` to state with the `health_imported`
+ * sync event.
+ */
+export async function importAppleHealthExport(file: File, onProgress?: AppleHealthProgress): Promise<AppleHealthImportSummary> {
+    const summary = await parseAppleHealthExport(file, onProgress);
+    if (summary.days.length === 0) {
+        throw new Error('No sleep, HRV, resting heart rate or body weight records found');
+    }
+
+    backfillDataPoints(summary.days, 'apple_health');
+    engineRegistry.hydrate(['sleep_architecture', 'pattern_discovery']);
+    return summary;
+}
@@ -0,0 +1,374 @@
+/**
+ * FIT Decoder - Garmin / Wahoo .FIT Activity Files
+ *
+ * Local binary decoder for the Flexible and Interoperable Data Transfer
+ * protocol. Implements:
+ * - File header + CRC-16 validation
+ * - Definition / data / compressed-timestamp record headers
+ * - Chained FIT files (multiple files in one buffer)
+ * - Mapping of file_id, session and record messages to a ParsedActivity
+ *
+ * Developer fields are skipped; only the profile fields we consume are named.
+ */
+
+import { ActivitySample, ActivitySport, ParsedActivity } from '../../types/activity-import';
+import { computeElevationGain } from './activityMetrics';
+
+// ============================================================================
+// PROTOCOL CONSTANTS
+// ============================================================================
+
+// Seconds between Unix epoch and FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET_S = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / Math.pow(2, 31);
+
+export const FIT_MESSAGE = {
+    FILE_ID: 0,
+    SESSION: 18,
+    LAP: 19,
+    RECORD: 20,
+    EVENT: 21,
+    ACTIVITY: 34
+} as const;
+
+const TIMESTAMP_FIELD = 253;
+
+const CRC_TABLE = [
+    0x0000, 0xCC01, 0xD801, 0x1400, 0xF001, 0x3C00, 0x2800, 0xE401,
+    0xA001, 0x6C00, 0x7800, 0xB401, 0x5000, 0x9C01, 0x8801, 0x4400
+];
+
+interface BaseType {
+    size: number;
+    invalid: number | null;
+    read: (view: DataView, offset: number, littleEndian: boolean) => number;
+}
+
+// Keyed by base type number (low 5 bits of the base type byte)
+const BASE_TYPES: Record<number, BaseType> = {
+    0x00: { size: 1, invalid: 0xFF, read: (v, o) => v.getUint8(o) },                   // enum
+    0x01: { size: 1, invalid: 0x7F, read: (v, o) => v.getInt8(o) },                    // sint8
+    0x02: { size: 1, invalid: 0xFF, read: (v, o) => v.getUint8(o) },                   // uint8
+    0x03: { size: 2, invalid: 0x7FFF, read: (v, o, le) => v.getInt16(o, le) },         // sint16
+    0x04: { size: 2, invalid: 0xFFFF, read: (v, o, le) => v.getUint16(o, le) },        // uint16
+    0x05: { size: 4, invalid: 0x7FFFFFFF, read: (v, o, le) => v.getInt32(o, le) },     // sint32
+    0x06: { size: 4, invalid: 0xFFFFFFFF, read: (v, o, le) => v.getUint32(o, le) },    // uint32
+    0x07: { size: 1, invalid: null, read: (v, o) => v.getUint8(o) },                   // string
+    0x08: { size: 4, invalid: null, read: (v, o, le) => v.getFloat32(o, le) },         // float32
+    0x09: { size: 8, invalid: null, read: (v, o, le) => v.getFloat64(o, le) },         // float64
+    0x0A: { size: 1, invalid: 0x00, read: (v, o) => v.getUint8(o) },                   // uint8z
+    0x0B: { size: 2, invalid: 0x0000, read: (v, o, le) => v.getUint16(o, le) },        // uint16z
+    0x0C: { size: 4, invalid: 0x00000000, read: (v, o, le) => v.getUint32(o, le) },    // uint32z
+    0x0D: { size: 1, invalid: null, read: (v, o) => v.getUint8(o) },                   // byte
+    0x0E: { size: 8, invalid: null, read: (v, o, le) => Number(v.getBigInt64(o, le)) },  // sint64
+    0x0F: { size: 8, invalid: null, read: (v, o, le) => Number(v.getBigUint64(o, le)) }, // uint64
+    0x10: { size: 8, invalid: 0, read: (v, o, le) => Number(v.getBigUint64(o, le)) }     // uint64z
+};
+
+// FIT profile `sport` enum → app sport
+const SPORT_MAP: Record<number, ActivitySport> = {
+    0: 'generic',
+    1: 'running',
+    2: 'cycling',
+    4: 'training',      // fitness_equipment
+    5: 'swimming',
+    6: 'team_sport',    // basketball
+    7: 'team_sport',    // soccer
+    8: 'team_sport',    // tennis
+    9: 'team_sport',    // american_football
+    10: 'training',
+    11: 'walking',
+    15: 'rowing',
+    17: 'hiking',
+    21: 'rowing',       // paddling
+    22: 'team_sport'    // hockey
+};
+
+// FIT profile `sub_sport` values that indicate strength work
+const STRENGTH_SUB_SPORTS = new Set([20, 26]); // strength_training, cardio_training
+
+// ============================================================================
+// RAW MESSAGE DECODING
+// ============================================================================
+
+export type FitValue = number | string | number[];
+
+export interface FitMessage {
+    global: number;
+    fields: Record<number, FitValue>;
+}
+
+interface FieldDefinition {
+    num: number;
+    size: number;
+    baseType: number;
+}
+
+interface MessageDefinition {
+    global: number;
+    littleEndian: boolean;
+    fields: FieldDefinition[];
+    developerDataSize: number;
+}
+
+const updateCrc = (crc: number, byte: number): number => {
+    let tmp = CRC_TABLE[crc & 0xF];
+    crc = (crc >> 4) & 0x0FFF;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xF];
+    tmp = CRC_TABLE[crc & 0xF];
+    crc = (crc >> 4) & 0x0FFF;
+    return crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xF];
+};
+
+const computeCrc = (bytes: Uint8Array, start: number, end: number): number => {
+    let crc = 0;
+    for (let i = start; i < end; i++) crc = updateCrc(crc, bytes[i]);
+    return crc;
+};
+
+const readField = (view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): FitValue | null => {
+    const type = BASE_TYPES[field.baseType & 0x1F];
+    if (!type) return null;
+
+    if ((field.baseType & 0x1F) === 0x07) {
+        const chars: number[] = [];
+        for (let i = 0; i < field.size; i++) {
+            const c = view.getUint8(offset + i);
+            if (c === 0) break;
+            chars.push(c);
+        }
+        return chars.length > 0 ? new TextDecoder().decode(new Uint8Array(chars)) : null;
+    }
+
+    const count = Math.floor(field.size / type.size);
+    if (count === 0) return null;
+
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const value = type.read(view, offset + i * type.size, littleEndian);
+        if (value !== type.invalid && !Number.isNaN(value)) values.push(value);
+    }
+
+    if (values.length === 0) return null;
+    return count === 1 ? values[0] : values;
+};
+
+/**
+ * Decode every message in a FIT buffer. Throws on a malformed header,
+ * truncated data or CRC mismatch.
+ */
+export function decodeFitMessages(buffer: ArrayBuffer): FitMessage[] {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const messages: FitMessage[] = [];
+
+    let fileStart = 0;
+    while (fileStart < bytes.length) {
+        if (bytes.length - fileStart < 12) break; // Trailing padding
+
+        const headerSize = bytes[fileStart];
+        if (headerSize !== 12 && headerSize !== 14) {
+            throw new Error(`Invalid FIT header size: ${headerSize}`);
+        }
+        const dataSize = view.getUint32(fileStart + 4, true);
+        const signature = String.fromCharCode(...bytes.slice(fileStart + 8, fileStart + 12));
+        if (signature !== '.FIT') {
+            throw new Error('Not a FIT file (missing .FIT signature)');
+        }
+
+        const dataStart = fileStart + headerSize;
+        const dataEnd = dataStart + dataSize;
+        if (dataEnd + 2 > bytes.length) {
+            throw new Error('FIT file is truncated');
+        }
+
+        const fileCrc = view.getUint16(dataEnd, true);
+        if (fileCrc !== 0 && computeCrc(bytes, fileStart, dataEnd) !== fileCrc) {
+            throw new Error('FIT file CRC mismatch');
+        }
+
+        const definitions = new Map<number, MessageDefinition>();
+        let lastTimestamp = 0;
+        let offset = dataStart;
+
+        while (offset < dataEnd) {
+            const header = bytes[offset++];
+
+            // Compressed timestamp header: 1 TT OOOOO
+            if (header & 0x80) {
+                const localType = (header >> 5) & 0x03;
+                const timeOffset = header & 0x1F;
+                const def = definitions.get(localType);
+                if (!def) throw new Error(`Undefined local message type ${localType}`);
+
+                let timestamp = (lastTimestamp & ~0x1F) + timeOffset;
+                if (timeOffset < (lastTimestamp & 0x1F)) timestamp += 0x20;
+                lastTimestamp = timestamp;
+
+                const message = readDataMessage(view, offset, def);
+                message.fields[TIMESTAMP_FIELD] = timestamp;
+                messages.push(message);
+                offset += messageSize(def);
+                continue;
+            }
+
+            const localType = header & 0x0F;
+
+            // Definition message: 0 1 D 0 LLLL
+            if (header & 0x40) {
+                const hasDeveloperData = (header & 0x20) !== 0;
+                const littleEndian = bytes[offset + 1] === 0;
+                const global = view.getUint16(offset + 2, littleEndian);
+                const fieldCount = bytes[offset + 4];
+                offset += 5;
+
+                const fields: FieldDefinition[] = [];
+                for (let i = 0; i < fieldCount; i++) {
+                    fields.push({ num: bytes[offset], size: bytes[offset + 1], baseType: bytes[offset + 2] });
+                    offset += 3;
+                }
+
+                let developerDataSize = 0;
+                if (hasDeveloperData) {
+                    const devCount = bytes[offset++];
+                    for (let i = 0; i < devCount; i++) {
+                        developerDataSize += bytes[offset + 1];
+                        offset += 3;
+                    }
+                }
+
+                definitions.set(localType, { global, littleEndian, fields, developerDataSize });
+                continue;
+            }
+
+            // Data message: 0 0 0 0 LLLL
+            const def = definitions.get(localType);
+            if (!def) throw new Error(`Undefined local message type ${localType}`);
+
+            const message = readDataMessage(view, offset, def);
+            const timestamp = message.fields[TIMESTAMP_FIELD];
+            if (typeof timestamp === 'number') lastTimestamp = timestamp;
+            messages.push(message);
+            offset += messageSize(def);
+        }
+
+        fileStart = dataEnd + 2;
+    }
+
+    return messages;
+}
+
+const messageSize = (def: MessageDefinition): number =>
+    def.fields.reduce((total, f) => total + f.size, 0) + def.developerDataSize;
+
+const readDataMessage = (view: DataView, offset: number, def: MessageDefinition): FitMessage => {
+    const fields: Record<number, FitValue> = {};
+    let cursor = offset;
+    for (const field of def.fields) {
+        const value = readField(view, cursor, field, def.littleEndian);
+        if (value !== null) fields[field.num] = value;
+        cursor += field.size;
+    }
+    return { global: def.global, fields };
+};
+
+// ============================================================================
+// ACTIVITY MAPPING
+// ============================================================================
+
+const num = (value: FitValue | undefined): number | undefined =>
+    typeof value === 'number' ? value : undefined;
+
+const scaled = (value: FitValue | undefined, scale: number, offset: number = 0): number | undefined => {
+    const n = num(value);
+    return n === undefined ? undefined : n / scale - offset;
+};
+
+const fitTimeToMs = (fitSeconds: number): number => (fitSeconds + FIT_EPOCH_OFFSET_S) * 1000;
+
+/**
+ * Decode a FIT activity file into a ParsedActivity.
+ * Session summary fields are preferred; anything missing is derived from records.
+ */
+export function parseFitActivity(buffer: ArrayBuffer): ParsedActivity {
+    const messages = decodeFitMessages(buffer);
+
+    const fileId = messages.find(m => m.global === FIT_MESSAGE.FILE_ID);
+    const session = messages.find(m => m.global === FIT_MESSAGE.SESSION);
+    const records = messages.filter(m => m.global === FIT_MESSAGE.RECORD && typeof m.fields[TIMESTAMP_FIELD] === 'number');
+
+    if (!session && records.length === 0) {
+        throw new Error('FIT file contains no activity data');
+    }
+
+    const firstRecordTs = num(records[0]?.fields[TIMESTAMP_FIELD]);
+    const startTs = num(session?.fields[2]) ?? firstRecordTs ?? num(fileId?.fields[4]) ?? 0;
+
+    const samples: ActivitySample[] = records.map(r => {
+        const f = r.fields;
+        const lat = num(f[0]);
+        const lon = num(f[1]);
+        return {
+            elapsed_s: (f[TIMESTAMP_FIELD] as number) - startTs,
+            heart_rate: num(f[3]),
+            power_w: num(f[7]),
+            speed_mps: scaled(f[73], 1000) ?? scaled(f[6], 1000),
+            cadence: num(f[4]),
+            altitude_m: scaled(f[78], 5, 500) ?? scaled(f[2], 5, 500),
+            distance_m: scaled(f[5], 100),
+            lat: lat !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+            lon: lon !== undefined ? lon * SEMICIRCLES_TO_DEGREES : undefined
+        };
+    });
+
+    const hrValues = samples.map(s => s.heart_rate).filter((v): v is number => v !== undefined);
+    const powerValues = samples.map(s => s.power_w).filter((v): v is number => v !== undefined);
+    const lastSample = samples[samples.length - 1];
+
+    const elapsed = scaled(session?.fields[7], 1000) ?? lastSample?.elapsed_s ?? 0;
+    const timer = scaled(session?.fields[8], 1000) ?? elapsed;
+
+    const sportCode = num(session?.fields[5]);
+    const subSport = num(session?.fields[6]);
+    let sport: ActivitySport = sportCode !== undefined ? (SPORT_MAP[sportCode] ?? 'generic') : 'generic';
+    if (subSport !== undefined && STRENGTH_SUB_SPORTS.has(subSport)) sport = 'strength';
+
+    const manufacturer = num(fileId?.fields[1]);
+    const product = num(fileId?.fields[2]);
+
+    return {
+        format: 'fit',
+        sport,
+        start_time: new Date(fitTimeToMs(startTs)).toISOString(),
+        duration_seconds: Math.round(timer),
+        elapsed_seconds: Math.round(elapsed),
+        distance_meters: scaled(session?.fields[9], 100) ?? lastSample?.distance_m,
+        elevation_gain_m: num(session?.fields[22]) ?? computeElevationGain(samples),
+        avg_hr: num(session?.fields[16]) ?? (hrValues.length ? Math.round(mean(hrValues)) : undefined),
+        max_hr: num(session?.fields[17]) ?? (hrValues.length ? hrValues.reduce((a, b) => Math.max(a, b)) : undefined),
+        avg_power_w: num(session?.fields[20]) ?? (powerValues.length ? Math.round(mean(powerValues)) : undefined),
+        max_power_w: num(session?.fields[21]) ?? (powerValues.length ? powerValues.reduce((a, b) => Math.max(a, b)) : undefined),
+        calories: num(session?.fields[11]),
+        device: manufacturer !== undefined ? describeDevice(manufacturer, product) : undefined,
+        samples
+    };
+}
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const MANUFACTURERS: Record<number, string> = {
+    1: 'Garmin',
+    23: 'Suunto',
+    32: 'Wahoo',
+    69: 'Stages',
+    89: 'Tacx',
+    260: 'Zwift',
+    265: 'Strava',
+    294: 'Coros',
+    255: 'Development'
+};
+
+const describeDevice = (manufacturer: number, product?: number): string => {
+    const name = MANUFACTURERS[manufacturer] || `Manufacturer ${manufacturer}`;
+    return product !== undefined ? `${name} (${product})` : name;
+};
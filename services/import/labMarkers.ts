@@ -0,0 +1,139 @@
+/**
+ * Lab Markers - Name synonyms and unit conversions for BIOMARKER_DEFINITIONS
+ *
+ * Labs name and report the same test differently ("25-OH Vitamin D" in
+ * nmol/L, "Vit D3" in ng/mL). Names are matched on normalised tokens; values
+ * are converted into the unit of the marker's definition.
+ */
+
+import { Biomarker, BIOMARKER_DEFINITIONS } from '../../types/biomarkers';
+
+// Normalised names (lowercase, punctuation → space) per biomarker id
+export const BIOMARKER_SYNONYMS: Record<string, string[]> = {
+    glucose_fasting: ['glucose', 'fasting glucose', 'glucose fasting', 'blood glucose', 'fasting blood glucose', 'fasting plasma glucose', 'glucose serum', 'glucose plasma', 'fbg', 'fpg'],
+    hba1c: ['hba1c', 'hb a1c', 'a1c', 'hemoglobin a1c', 'haemoglobin a1c', 'glycated hemoglobin', 'glycated haemoglobin', 'glycohemoglobin', 'glycosylated hemoglobin'],
+    fasting_insulin: ['insulin', 'fasting insulin', 'insulin fasting', 'insulin serum'],
+    apob: ['apob', 'apo b', 'apob100', 'apo b100', 'apo b 100', 'apolipoprotein b', 'apolipoprotein b100', 'apolipoprotein b 100'],
+    ldl: ['ldl', 'ldl c', 'ldl cholesterol', 'ldl chol', 'ldl calc', 'ldl calculated', 'ldl direct', 'ldl cholesterol calc', 'low density lipoprotein', 'ldl cholesterol direct'],
+    hdl: ['hdl', 'hdl c', 'hdl cholesterol', 'hdl chol', 'high density lipoprotein'],
+    triglycerides: ['triglycerides', 'triglyceride', 'trig', 'trigs', 'tg'],
+    hscrp: ['hscrp', 'hs crp', 'crp', 'crp hs', 'c reactive protein', 'crp high sensitivity', 'high sensitivity crp', 'high sensitivity c reactive protein', 'c reactive protein cardiac'],
+    homocysteine: ['homocysteine', 'total homocysteine', 'homocysteine total', 'hcy'],
+    testosterone_total: ['testosterone', 'total testosterone', 'testosterone total', 'testosterone serum'],
+    cortisol_am: ['cortisol', 'cortisol am', 'am cortisol', 'morning cortisol', 'cortisol morning', 'cortisol serum'],
+    creatine_kinase: ['ck', 'cpk', 'ck total', 'creatine kinase', 'creatine kinase total', 'creatine phosphokinase'],
+    ferritin: ['ferritin', 'serum ferritin', 'ferritin serum'],
+    vitamin_d: ['vitamin d', 'vitamin d3', 'vitamin d total', 'vit d', 'vit d3', '25 oh d', '25 oh vitamin d', '25 oh vit d', '25 hydroxy vitamin d', '25 hydroxyvitamin d', 'vitamin d 25 oh', 'vitamin d 25 hydroxy', 'calcidiol']
+};
+
+// Tokens that mark a different test sharing a marker's name
+// (non-HDL, free testosterone, urine glucose, 1,25-dihydroxy vitamin D, ...)
+const EXCLUDED_TOKENS = new Set([
+    'non', 'ratio', 'free', 'bioavailable', 'particle', 'particles', 'size', 'pattern',
+    'urine', 'urinary', 'saliva', 'salivary', 'csf', 'dihydroxy', 'growth', 'igf', 'pm', 'evening', 'antibodies'
+]);
+
+interface UnitConversion {
+    scale: number;
+    offset?: number;
+}
+
+// Normalised unit → conversion into the definition's unit
+const UNIT_CONVERSIONS: Record<string, Record<string, UnitConversion>> = {
+    glucose_fasting: { 'mg/dl': { scale: 1 }, 'mmol/l': { scale: 18.016 } },
+    hba1c: { '%': { scale: 1 }, 'mmol/mol': { scale: 0.09148, offset: 2.152 } },  // IFCC → NGSP
+    fasting_insulin: { 'uiu/ml': { scale: 1 }, 'uu/ml': { scale: 1 }, 'miu/l': { scale: 1 }, 'mu/l': { scale: 1 }, 'pmol/l': { scale: 1 / 6 } },
+    apob: { 'mg/dl': { scale: 1 }, 'g/l': { scale: 100 }, 'mg/l': { scale: 0.1 } },
+    ldl: { 'mg/dl': { scale: 1 }, 'mmol/l': { scale: 38.67 } },
+    hdl: { 'mg/dl': { scale: 1 }, 'mmol/l': { scale: 38.67 } },
+    triglycerides: { 'mg/dl': { scale: 1 }, 'mmol/l': { scale: 88.57 } },
+    hscrp: { 'mg/l': { scale: 1 }, 'ug/ml': { scale: 1 }, 'mg/dl': { scale: 10 }, 'nmol/l': { scale: 1 / 9.524 } },
+    homocysteine: { 'umol/l': { scale: 1 }, 'mg/l': { scale: 7.397 } },
+    testosterone_total: { 'ng/dl': { scale: 1 }, 'nmol/l': { scale: 28.84 }, 'ng/ml': { scale: 100 }, 'pg/ml': { scale: 0.1 } },
+    cortisol_am: { 'ug/dl': { scale: 1 }, 'nmol/l': { scale: 1 / 27.59 }, 'ng/ml': { scale: 0.1 } },
+    creatine_kinase: { 'u/l': { scale: 1 }, 'iu/l': { scale: 1 }, 'ukat/l': { scale: 60 } },
+    ferritin: { 'ng/ml': { scale: 1 }, 'ug/l': { scale: 1 }, 'pmol/l': { scale: 1 / 2.247 } },
+    vitamin_d: { 'ng/ml': { scale: 1 }, 'ug/l': { scale: 1 }, 'nmol/l': { scale: 1 / 2.496 } }
+};
+
+export const normalizeMarkerName = (name: string): string =>
+    name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Canonical spelling of a unit: micro signs → u, mcg → ug, no spaces.
+ */
+export const normalizeUnit = (unit: string): string =>
+    unit.trim().toLowerCase()
+        .replace(/[µμ]/g, 'u')
+        .replace(/^mc(?=[a-z])/, 'u')
+        .replace(/\/mc(?=[a-z])/, '/u')
+        .replace(/\s+/g, '')
+        .replace(/^(.*)\/l(?:iter|itre)?$/, '$1/l');
+
+const SYNONYM_INDEX = Object.entries(BIOMARKER_SYNONYMS)
+    .flatMap(([id, names]) => names.map(name => ({ id, name, tokens: name.split(' ') })))
+    .sort((a, b) => b.tokens.length - a.tokens.length || b.name.length - a.name.length);
+
+const containsSequence = (tokens: string[], sequence: string[]) => {
+    for (let i = 0; i + sequence.length <= tokens.length; i++) {
+        if (sequence.every((t, j) => tokens[i + j] === t)) return true;
+    }
+    return false;
+};
+
+/**
+ * Biomarker id for a lab test name, or undefined when nothing matches.
+ * Exact synonyms win; otherwise the longest synonym found as a whole-word
+ * run inside the name, unless the name marks a different test.
+ */
+export function matchBiomarker(name: string): string | undefined {
+    const normalized = normalizeMarkerName(name);
+    if (!normalized) return undefined;
+
+    const exact = SYNONYM_INDEX.find(s => s.name === normalized);
+    if (exact) return exact.id;
+
+    const tokens = normalized.split(' ');
+    if (tokens.some(t => EXCLUDED_TOKENS.has(t))) return undefined;
+    return SYNONYM_INDEX.find(s => containsSequence(tokens, s.tokens))?.id;
+}
+
+export const getBiomarkerDefinition = (id: string): Biomarker | undefined =>
+    BIOMARKER_DEFINITIONS.find(b => b.id === id);
+
+// Units a reading for this marker can be entered in, definition unit first
+export function getAcceptedUnits(biomarkerId: string): string[] {
+    const definition = getBiomarkerDefinition(biomarkerId);
+    const units = Object.keys(UNIT_CONVERSIONS[biomarkerId] ?? {});
+    if (!definition) return units;
+    const canonical = normalizeUnit(definition.unit);
+    return [definition.unit, ...units.filter(u => u !== canonical)];
+}
+
+/**
+ * Value in the definition's unit, or undefined when the unit is unknown
+ * for this marker.
+ */
+export function convertToDefinitionUnit(biomarkerId: string, value: number, unit: string): number | undefined {
+    const definition = getBiomarkerDefinition(biomarkerId);
+    if (!definition) return undefined;
+
+    const normalized = normalizeUnit(unit);
+    const conversion = normalized === normalizeUnit(definition.unit)
+        ? { scale: 1 }
+        : UNIT_CONVERSIONS[biomarkerId]?.[normalized];
+    if (!conversion) return undefined;
+
+    const converted = value * conversion.scale + (conversion.offset ?? 0);
+    return Math.round(converted * 100) / 100;
+}
+
+/**
+ * Whether a value in the definition's unit is within an order of magnitude
+ * of the reference range; anything else is most likely a unit mix-up.
+ */
+export function isPlausibleValue(biomarkerId: string, value: number): boolean {
+    const definition = getBiomarkerDefinition(biomarkerId);
+    if (!definition) return false;
+    return value >= definition.reference.low / 10 && value <= definition.reference.high * 10;
+}
@@ -0,0 +1,369 @@
+/**
+ * Lab Report Importer - CSV exports and pasted report text → BiomarkerReadings
+ *
+ * Two inputs are understood:
+ * - CSV/TSV with a header row (test, result, unit, date, reference range —
+ *   common aliases accepted) or, without one, name/value/unit columns
+ * - Text copied out of a PDF report, one result per line:
+ *   "Ferritin  85  ng/mL  30 - 400"
+ *
+ * Names go through the synonym table and values are converted into the
+ * biomarker definition's unit. Rows that cannot be mapped with confidence
+ * (unknown name, missing or foreign unit, implausible value) are never
+ * dropped: they are held in a persisted review queue until resolved or
+ * dismissed by hand.
+ */
+
+import { BiomarkerReading } from '../../types/biomarkers';
+import {
+    LabImportMatch,
+    LabImportOptions,
+    LabImportResult,
+    LabReportFormat,
+    LabReviewItem,
+    LabReviewReason,
+    LabRow
+} from '../../types/lab-import';
+import {
+    convertToDefinitionUnit,
+    getBiomarkerDefinition,
+    isPlausibleValue,
+    matchBiomarker,
+    normalizeMarkerName,
+    normalizeUnit
+} from './labMarkers';
+import { biomarkerEngine } from '../../experts/doctor/BiomarkerEngine';
+import { persistence } from '../persistence/repository';
+import { toDateKey } from '../../experts/performance/loadHistoryStore';
+
+const HEADER_ALIASES: Record<keyof Omit<LabRow, 'raw' | 'line' | 'value_text'>, string[]> = {
+    name: ['test', 'test name', 'marker', 'biomarker', 'analyte', 'name', 'parameter', 'component', 'description', 'investigation'],
+    value: ['result', 'value', 'result value', 'your result', 'measurement', 'level'],
+    unit: ['unit', 'units', 'uom', 'unit of measure'],
+    date: ['date', 'collection date', 'collected', 'date collected', 'sample date', 'specimen date', 'observation date', 'test date'],
+    reference_range: ['reference', 'reference range', 'range', 'ref range', 'normal range', 'reference interval', 'ref interval']
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "<name> <value> [flag] [unit] [reference range]"
+const RESULT_LINE = /^\s*([A-Za-z0-9][A-Za-z0-9 ,()'\-\/.]*?)(?:\s*:\s*|\s{1,})((?:[<>≤≥]=?\s*)?\d[\d.,]*)(?=\s|%|$)(?:\s+(?:HH|LL|H|L|A|\*)(?=\s|$))?(?:\s*([A-Za-zµμ%][A-Za-z0-9µμ%\/^.*]*(?:\s?\/\s?[A-Za-z]+)?))?\s*(.*)$/;
+const DATE_LABEL = /(?:collected|collection date|date collected|specimen collected|sample date|date of collection|drawn)\s*(?:on)?\s*[:\-]?\s*([0-9A-Za-z][0-9A-Za-z.,\/\- ]{5,20})/i;
+
+// ============================================================================
+// VALUE AND DATE PARSING
+// ============================================================================
+
+/**
+ * Numeric value of a result cell. "<0.5" reads as 0.5 with the qualifier
+ * kept; "5,4" is a decimal comma, "1,234" a thousands separator.
+ */
+export function parseLabValue(text: string): { value?: number; qualifier?: string } {
+    const match = text.trim().match(/^([<>≤≥]=?)?\s*(\d[\d.,]*)/);
+    if (!match) return {};
+
+    let digits = match[2].replace(/[.,]$/, '');
+    if (/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(digits)) digits = digits.replace(/,/g, '');
+    else digits = digits.replace(',', '.');
+
+    const value = Number(digits);
+    if (!Number.isFinite(value)) return {};
+    return { value, qualifier: match[1] };
+}
+
+/**
+ * YYYY-MM-DD from ISO, dd.mm.yyyy, mm/dd/yyyy (dd/mm/yyyy when the first
+ * part cannot be a month) and "12 Mar 2024" / "Mar 12, 2024" dates.
+ */
+export function parseLabDate(text: string): string | undefined {
+    const value = text.trim();
+    const valid = (y: number, m: number, d: number) =>
+        m >= 1 && m <= 12 && d >= 1 && d <= 31 && y >= 1900
+            ? `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`
+            : undefined;
+
+    let m = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (m) return valid(+m[1], +m[2], +m[3]);
+
+    m = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+    if (m) return valid(+m[3], +m[2], +m[1]);
+
+    m = value.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})/);
+    if (m) {
+        const [a, b] = [+m[1], +m[2]];
+        return a > 12 ? valid(+m[3], b, a) : valid(+m[3], a, b);
+    }
+
+    m = value.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*\.?[\s-,]+(\d{4})/);
+    if (m && MONTHS.includes(m[2].toLowerCase())) return valid(+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]);
+
+    m = value.match(/^([A-Za-z]{3})[A-Za-z]*\.?\s+(\d{1,2}),?\s+(\d{4})/);
+    if (m && MONTHS.includes(m[1].toLowerCase())) return valid(+m[3], MONTHS.indexOf(m[1].toLowerCase()) + 1, +m[2]);
+
+    return undefined;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const detectDelimiter = (line: string): string => {
+    const counts = ['\t', ';', ','].map(d => ({ d, n: line.split(d).length - 1 }));
+    return counts.find(c => c.n > 0 && c.n === Math.max(...counts.map(x => x.n)))?.d ?? ',';
+};
+
+// RFC 4180 fields: quoted fields may contain the delimiter and "" escapes
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') { current += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else current += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            fields.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    fields.push(current.trim());
+    return fields;
+};
+
+const headerIndex = (cells: string[]): Partial<Record<keyof typeof HEADER_ALIASES, number>> | undefined => {
+    const normalized = cells.map(normalizeMarkerName);
+    const index: Partial<Record<keyof typeof HEADER_ALIASES, number>> = {};
+    (Object.keys(HEADER_ALIASES) as (keyof typeof HEADER_ALIASES)[]).forEach(field => {
+        const i = normalized.findIndex(c => HEADER_ALIASES[field].includes(c));
+        if (i >= 0) index[field] = i;
+    });
+    return index.name !== undefined && index.value !== undefined ? index : undefined;
+};
+
+function parseCsvRows(text: string): LabRow[] {
+    const lines = text.split(/\r?\n/);
+    const first = lines.findIndex(l => l.trim());
+    if (first < 0) return [];
+
+    const delimiter = detectDelimiter(lines[first]);
+    const header = headerIndex(splitCsvLine(lines[first], delimiter));
+    // Without a header: name, value, unit, reference range
+    const columns = header ?? { name: 0, value: 1, unit: 2, reference_range: 3 };
+
+    const rows: LabRow[] = [];
+    lines.forEach((raw, i) => {
+        if (!raw.trim() || (header && i === first)) return;
+        const cells = splitCsvLine(raw, delimiter);
+        const cell = (field: keyof typeof HEADER_ALIASES) => {
+            const index = columns[field];
+            return index === undefined ? undefined : cells[index] || undefined;
+        };
+
+        const name = cell('name');
+        if (!name) return;
+        let valueText = cell('value');
+        let unit = cell('unit');
+        // "85 ng/mL" in a single result cell
+        const inline = valueText?.match(/^((?:[<>≤≥]=?\s*)?\d[\d.,]*)\s+(\S.*)$/);
+        if (inline && !unit) {
+            valueText = inline[1];
+            unit = inline[2];
+        }
+
+        const dateText = cell('date');
+        rows.push({
+            raw,
+            line: i + 1,
+            name,
+            ...parsedValue(valueText),
+            unit,
+            date: dateText ? parseLabDate(dateText) : undefined,
+            reference_range: cell('reference_range')
+        });
+    });
+    return rows;
+}
+
+const parsedValue = (valueText: string | undefined): Pick<LabRow, 'value' | 'value_text'> => {
+    if (!valueText) return {};
+    const { value } = parseLabValue(valueText);
+    return { value, value_text: valueText.trim() };
+};
+
+// ============================================================================
+// REPORT TEXT
+// ============================================================================
+
+const looksLikeUnit = (unit: string | undefined) =>
+    !!unit && (/[\/%]/.test(unit) || /^(u|iu|mu|ukat)\/?/i.test(normalizeUnit(unit)));
+
+/**
+ * Result lines of report text. Headers, addresses and notes are skipped:
+ * a line counts only when its name matches a marker or it carries a
+ * unit-like token after the value.
+ */
+function parseTextRows(text: string): { rows: LabRow[]; ignored: number } {
+    const rows: LabRow[] = [];
+    let ignored = 0;
+
+    text.split(/\r?\n/).forEach((raw, i) => {
+        if (!raw.trim()) return;
+        const match = raw.match(RESULT_LINE);
+        const name = match?.[1].replace(/[\s.:]+$/, '');
+        if (!match || !name || (!matchBiomarker(name) && !looksLikeUnit(match[3]))) {
+            ignored++;
+            return;
+        }
+        rows.push({
+            raw: raw.trim(),
+            line: i + 1,
+            name,
+            ...parsedValue(match[2]),
+            unit: match[3],
+            reference_range: match[4]?.replace(/^[(\[]|[)\]]$/g, '').trim() || undefined
+        });
+    });
+    return { rows, ignored };
+}
+
+const findReportDate = (text: string): string | undefined => {
+    const labelled = text.match(DATE_LABEL);
+    return labelled ? parseLabDate(labelled[1]) : undefined;
+};
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+type RowOutcome =
+    | { reading: BiomarkerReading; converted_from?: string }
+    | { reason: LabReviewReason; biomarker_id?: string };
+
+/**
+ * Reading for a row in the definition's unit, or the reason it needs review.
+ */
+export function mapLabRow(row: LabRow, biomarkerId: string | undefined, date: string, options: LabImportOptions = {}): RowOutcome {
+    if (!biomarkerId || !getBiomarkerDefinition(biomarkerId)) return { reason: 'unknown_marker' };
+    if (row.value === undefined) return { reason: 'no_value', biomarker_id: biomarkerId };
+    if (!row.unit) return { reason: 'unknown_unit', biomarker_id: biomarkerId };
+
+    const value = convertToDefinitionUnit(biomarkerId, row.value, row.unit);
+    if (value === undefined) return { reason: 'unknown_unit', biomarker_id: biomarkerId };
+    if (!isPlausibleValue(biomarkerId, value)) return { reason: 'implausible_value', biomarker_id: biomarkerId };
+
+    const definitionUnit = getBiomarkerDefinition(biomarkerId)!.unit;
+    const converted = normalizeUnit(row.unit) !== normalizeUnit(definitionUnit);
+    const qualifier = row.value_text?.match(/^[<>≤≥]=?/)?.[0];
+    const notes = [
+        qualifier ? `Reported as ${row.value_text}` : undefined,
+        converted ? `Converted from ${row.value} ${row.unit}` : undefined
+    ].filter(Boolean).join('; ');
+
+    return {
+        reading: {
+            biomarker_id: biomarkerId,
+            value,
+            date: row.date ?? date,
+            fasting: options.fasting ?? true,
+            lab_name: options.lab_name,
+            notes: notes || undefined
+        },
+        converted_from: converted ? row.unit : undefined
+    };
+}
+
+/**
+ * Parse a lab report without recording anything. The format is taken from
+ * a .csv/.tsv file name, otherwise from whether the first line is a
+ * recognised header.
+ */
+export function parseLabReport(text: string, options: LabImportOptions = {}): LabImportResult {
+    const firstLine = text.split(/\r?\n/).find(l => l.trim()) ?? '';
+    const format: LabReportFormat = /\.(csv|tsv)$/i.test(options.source_file ?? '')
+        || headerIndex(splitCsvLine(firstLine, detectDelimiter(firstLine)))
+        ? 'csv'
+        : 'text';
+
+    const { rows, ignored } = format === 'csv'
+        ? { rows: parseCsvRows(text), ignored: 0 }
+        : parseTextRows(text);
+    const date = options.date ?? findReportDate(text) ?? rows.find(r => r.date)?.date ?? toDateKey(new Date());
+    const queuedAt = new Date().toISOString();
+
+    const matches: LabImportMatch[] = [];
+    const review: LabReviewItem[] = [];
+    rows.forEach((row, i) => {
+        const outcome = mapLabRow(row, matchBiomarker(row.name), date, options);
+        if ('reading' in outcome) {
+            matches.push({ row, reading: outcome.reading, converted_from: outcome.converted_from });
+        } else {
+            review.push({
+                id: `lab_${Date.now()}_${i}`,
+                row,
+                reason: outcome.reason,
+                biomarker_id: outcome.biomarker_id,
+                date: row.date ?? date,
+                lab_name: options.lab_name,
+                source_file: options.source_file,
+                queued_at: queuedAt
+            });
+        }
+    });
+
+    return { format, date, matches, review, ignored_lines: ignored };
+}
+
+// ============================================================================
+// RECORDING AND REVIEW QUEUE
+// ============================================================================
+
+export const getLabReviewQueue = (): LabReviewItem[] =>
+    persistence.getValue('lab_review_queue') ?? [];
+
+const saveLabReviewQueue = (queue: LabReviewItem[]) =>
+    persistence.setValue('lab_review_queue', queue);
+
+/**
+ * Record the matched readings of a parsed report and queue the rest.
+ */
+export function commitLabImport(result: LabImportResult): void {
+    biomarkerEngine.importReadings(result.matches.map(m => m.reading));
+    if (result.review.length > 0) {
+        saveLabReviewQueue([...getLabReviewQueue(), ...result.review]);
+    }
+}
+
+/**
+ * Record a queued row with the marker and unit picked by hand. Throws when
+ * the unit is not convertible or the value is still implausible.
+ */
+export function resolveLabReviewItem(id: string, biomarkerId: string, unit: string, value?: number): BiomarkerReading {
+    const queue = getLabReviewQueue();
+    const item = queue.find(q => q.id === id);
+    if (!item) throw new Error(`Review item ${id} not found`);
+
+    const row: LabRow = { ...item.row, unit, value: value ?? item.row.value };
+    const outcome = mapLabRow(row, biomarkerId, item.date, { lab_name: item.lab_name });
+    if (!('reading' in outcome)) {
+        const definition = getBiomarkerDefinition(biomarkerId);
+        throw new Error(outcome.reason === 'implausible_value'
+            ? `${row.value} ${unit} is outside any plausible range for ${definition?.name ?? biomarkerId}`
+            : outcome.reason === 'no_value'
+                ? 'Enter a numeric value'
+                : `${unit} cannot be converted to ${definition?.unit ?? 'the marker unit'}`);
+    }
+
+    biomarkerEngine.importReadings([outcome.reading]);
+    saveLabReviewQueue(queue.filter(q => q.id !== id));
+    return outcome.reading;
+}
+
+export function dismissLabReviewItem(id: string): void {
+    saveLabReviewQueue(getLabReviewQueue().filter(q => q.id !== id));
+}
@@ -0,0 +1,152 @@
+/**
+ * RR-Interval Importer - Raw beat-to-beat exports → measured HRV
+ *
+ * Understands the plain-text exports of Polar (Flow/Beat), Kubios and
+ * Elite HRV: one interval per line in milliseconds or seconds, optionally
+ * after a header or with a leading time column. The series is artifact
+ * corrected and analysed by RRIntervalAnalysis.
+ *
+ * Morning and overnight recordings are the daily HRV measurement: they are
+ * written into the history store (hrv_rmssd / hrv_sdnn) and, when recent,
+ * applied to RecoveryState.autonomic via the `hrv_recording_imported` sync
+ * event. Recordings taken around training are kept but do not replace the
+ * daily value.
+ */
+
+import {
+    RRImportOptions,
+    RRParseResult,
+    RRRecording,
+    RRRecordingQuality
+} from '../../types/rr-import';
+import { computeHRVMetrics, correctArtifacts, MIN_DFA_BEATS, MIN_SPECTRAL_DURATION_S } from '../../experts/recovery/RRIntervalAnalysis';
+import { backfillDataPoints } from '../history/historyStore';
+import { persistence } from '../persistence/repository';
+import { toDateKey } from '../../experts/performance/loadHistoryStore';
+
+const MIN_BEATS = 30;
+const MIN_DURATION_S = 60;
+const MAX_STORED_RECORDINGS = 180;
+
+// Corrected-beat share that still gives trustworthy metrics
+const GOOD_ARTIFACT_PERCENT = 1;
+const ACCEPTABLE_ARTIFACT_PERCENT = 5;
+const MAX_ARTIFACT_PERCENT = 20;
+
+const NUMBER = /-?\d+(?:[.,]\d+)?/g;
+
+/**
+ * Intervals from an export. Lines with letters are headers; on lines with
+ * several numbers (time + RR columns) the last one is the interval. Values
+ * with a median under 3 are taken as seconds.
+ */
+export function parseRRIntervals(text: string): RRParseResult {
+    const values: number[] = [];
+    let skipped = 0;
+
+    for (const raw of text.split(/\r?\n/)) {
+        const line = raw.trim();
+        if (!line) continue;
+        const numbers = line.match(NUMBER);
+        if (!numbers || /[a-z]/i.test(line)) {
+            skipped++;
+            continue;
+        }
+        values.push(Number(numbers[numbers.length - 1].replace(',', '.')));
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const seconds = sorted.length > 0 && sorted[Math.floor(sorted.length / 2)] < 3;
+    return {
+        intervals_ms: seconds ? values.map(v => v * 1000) : values,
+        detected_unit: seconds ? 'seconds' : 'ms',
+        skipped_lines: skipped
+    };
+}
+
+const qualityFor = (correctedPercent: number): RRRecordingQuality =>
+    correctedPercent <= GOOD_ARTIFACT_PERCENT ? 'good' :
+        correctedPercent <= ACCEPTABLE_ARTIFACT_PERCENT ? 'acceptable' : 'poor';
+
+/**
+ * Parse, correct and analyse an export. Throws when the file holds too few
+ * beats or too many artifacts to analyse.
+ */
+export function parseRRRecording(text: string, options: RRImportOptions = {}): RRRecording {
+    const { intervals_ms } = parseRRIntervals(text);
+    if (intervals_ms.length < MIN_BEATS) {
+        throw new Error(`Found ${intervals_ms.length} RR intervals; at least ${MIN_BEATS} are needed`);
+    }
+
+    const { corrected, report } = correctArtifacts(intervals_ms);
+    if (report.corrected_percent > MAX_ARTIFACT_PERCENT) {
+        throw new Error(`${report.corrected_percent.toFixed(0)}% of beats are artifacts; check the strap contact and record again`);
+    }
+
+    const metrics = computeHRVMetrics(corrected);
+    if (metrics.duration_s < MIN_DURATION_S) {
+        throw new Error(`Recording is ${Math.round(metrics.duration_s)}s long; at least ${MIN_DURATION_S}s are needed`);
+    }
+
+    const quality = qualityFor(report.corrected_percent);
+    const warnings: string[] = [];
+    if (quality === 'poor') warnings.push(`${report.corrected_percent.toFixed(1)}% of beats were corrected; treat the result with caution`);
+    if (metrics.duration_s < MIN_SPECTRAL_DURATION_S) warnings.push('Under 2 minutes: LF/HF power not computed');
+    else if (metrics.duration_s < 300) warnings.push('Under 5 minutes: LF power is less reliable');
+    if (metrics.beats < MIN_DFA_BEATS) warnings.push(`Under ${MIN_DFA_BEATS} beats: DFA-α1 not computed`);
+
+    const now = new Date();
+    const date = options.date ?? toDateKey(now);
+    const time = options.time ?? now.toTimeString().slice(0, 5);
+    const { corrected_indices, ...artifacts } = report;
+
+    return {
+        id: `rr_${date}_${time.replace(':', '')}_${Date.now()}`,
+        date,
+        recorded_at: new Date(`${date}T${time}:00`).toISOString(),
+        context: options.context ?? 'morning',
+        metrics,
+        artifacts,
+        quality,
+        warnings,
+        source_file: options.source_file
+    };
+}
+
+// ============================================================================
+// STORED RECORDINGS
+// ============================================================================
+
+// Oldest first
+export const getRRRecordings = (): RRRecording[] =>
+    persistence.getValue('rr_recordings') ?? [];
+
+// Daily measurement for a date: the latest morning/night recording
+export function getDailyRRRecording(date: string): RRRecording | undefined {
+    return getRRRecordings()
+        .filter(r => r.date === date && isDailyMeasurement(r))
+        .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+        .pop();
+}
+
+export const isDailyMeasurement = (recording: RRRecording): boolean =>
+    recording.context === 'morning' || recording.context === 'night';
+
+/**
+ * Store a recording; a daily measurement also lands in the HRV history.
+ * Apply it to state with the `hrv_recording_imported` sync event.
+ */
+export function commitRRRecording(recording: RRRecording): void {
+    const recordings = [...getRRRecordings().filter(r => r.id !== recording.id), recording]
+        .sort((a, b) => a.recorded_at.localeCompare(b.recorded_at))
+        .slice(-MAX_STORED_RECORDINGS);
+    persistence.setValue('rr_recordings', recordings);
+
+    if (isDailyMeasurement(recording)) {
+        backfillDataPoints([{
+            date: recording.date,
+            hrv_rmssd: Math.round(recording.metrics.rmssd * 10) / 10,
+            hrv_sdnn: Math.round(recording.metrics.sdnn * 10) / 10
+        }], 'rr_recording');
+    }
+}
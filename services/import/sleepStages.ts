@@ -0,0 +1,115 @@
+/**
+ * Sleep Stages - Stage segments → nightly SleepArchitecture
+ *
+ * Shared by wearable importers that deliver a hypnogram (stage segments)
+ * rather than pre-computed nightly summaries. Scores use the same targets
+ * as the SleepArchitectureEngine (SLEEP_STAGE_TARGETS).
+ */
+
+import {
+    SleepArchitecture,
+    SleepStage,
+    SleepStageSegment,
+    SLEEP_STAGE_TARGETS
+} from '../../types/sleep-architecture';
+
+const MS_PER_MIN = 60000;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// HH:MM as recorded, i.e. in the wearer's local time (offset-aware ISO input)
+export const toClockTime = (iso: string): string => iso.slice(11, 16);
+
+export const toSegment = (stage: SleepStage, start: string, end: string): SleepStageSegment => ({
+    stage,
+    start_time: start,
+    end_time: end,
+    duration_minutes: round1((Date.parse(end) - Date.parse(start)) / MS_PER_MIN)
+});
+
+/**
+ * Build a night from its stage segments.
+ * @param date      Night key (wake date, YYYY-MM-DD)
+ * @param segments  Sleep and awake segments, any order
+ * @param inBed     Optional in-bed window; widens time in bed and sets latency
+ */
+export function buildSleepNight(
+    date: string,
+    segments: SleepStageSegment[],
+    source: SleepArchitecture['source'],
+    inBed?: { start: string; end: string }
+): SleepArchitecture | null {
+    const sorted = [...segments]
+        .filter(s => s.duration_minutes > 0)
+        .sort((a, b) => Date.parse(a.start_time) - Date.parse(b.start_time));
+    const asleep = sorted.filter(s => s.stage !== 'awake');
+    if (asleep.length === 0) return null;
+
+    const onsetMs = Date.parse(asleep[0].start_time);
+    const finalMs = Date.parse(asleep[asleep.length - 1].end_time);
+    const bedIso = inBed && Date.parse(inBed.start) < Date.parse(sorted[0].start_time)
+        ? inBed.start : sorted[0].start_time;
+    const lastEnd = sorted.reduce((latest, s) => Date.parse(s.end_time) > Date.parse(latest) ? s.end_time : latest, sorted[0].end_time);
+    const outIso = inBed && Date.parse(inBed.end) > Date.parse(lastEnd) ? inBed.end : lastEnd;
+    const bedMs = Date.parse(bedIso);
+    const outMs = Date.parse(outIso);
+
+    const minutes: Record<SleepStage, number> = { awake: 0, light: 0, deep: 0, rem: 0 };
+    for (const segment of sorted) minutes[segment.stage] += segment.duration_minutes;
+
+    const totalSleep = minutes.light + minutes.deep + minutes.rem;
+    const timeInBed = (outMs - bedMs) / MS_PER_MIN;
+    const staged = totalSleep + minutes.awake;
+    const pct = (value: number) => staged > 0 ? round1((value / staged) * 100) : 0;
+
+    // Wake after sleep onset: awake segments between first and last sleep
+    const wakeSegments = sorted.filter(s =>
+        s.stage === 'awake' && Date.parse(s.start_time) >= onsetMs && Date.parse(s.end_time) <= finalMs
+    );
+
+    // Share of deep sleep in the first half of the sleep period
+    const midpointMs = onsetMs + (finalMs - onsetMs) / 2;
+    const firstHalfDeep = sorted
+        .filter(s => s.stage === 'deep')
+        .reduce((acc, s) => {
+            const start = Date.parse(s.start_time);
+            const end = Math.min(Date.parse(s.end_time), midpointMs);
+            return acc + Math.max(0, end - start) / MS_PER_MIN;
+        }, 0);
+
+    const deepPct = pct(minutes.deep);
+    const remPct = pct(minutes.rem);
+    const efficiency = timeInBed > 0 ? Math.min(100, (totalSleep / timeInBed) * 100) : 0;
+    const stage = (key: SleepStage) => ({
+        duration: round1(minutes[key]),
+        percentage: pct(minutes[key]),
+        target_percentage: SLEEP_STAGE_TARGETS[key].optimal_percentage
+    });
+
+    return {
+        date,
+        bedtime: toClockTime(bedIso),
+        wake_time: toClockTime(outIso),
+        time_in_bed: round1(timeInBed),
+        total_sleep_time: round1(totalSleep),
+        sleep_efficiency: round1(efficiency),
+        stages: {
+            awake: stage('awake'),
+            light: stage('light'),
+            deep: stage('deep'),
+            rem: stage('rem')
+        },
+        stage_segments: sorted,
+        sleep_latency: round1(Math.max(0, (onsetMs - bedMs) / MS_PER_MIN)),
+        waso: round1(wakeSegments.reduce((acc, s) => acc + s.duration_minutes, 0)),
+        wake_events: wakeSegments.length,
+        wake_event_times: wakeSegments.map(s => toClockTime(s.start_time)),
+        first_half_deep_percentage: minutes.deep > 0 ? round1((firstHalfDeep / minutes.deep) * 100) : 0,
+        physical_recovery_score: Math.min(100, (deepPct / SLEEP_STAGE_TARGETS.deep.optimal_percentage) * 80),
+        cognitive_recovery_score: Math.min(100, (remPct / SLEEP_STAGE_TARGETS.rem.optimal_percentage) * 80),
+        overall_quality_score: Math.min(100, efficiency * 0.3 +
+            (deepPct / SLEEP_STAGE_TARGETS.deep.optimal_percentage) * 35 +
+            (remPct / SLEEP_STAGE_TARGETS.rem.optimal_percentage) * 35),
+        source
+    };
+}
@@ -0,0 +1,186 @@
+/**
+ * GPX / TCX Parser - Strava, Garmin Connect & route exports
+ *
+ * Parses XML activity exports into a ParsedActivity:
+ * - GPX 1.1 track points with Garmin TrackPointExtension (hr, cad) and power
+ * - TCX laps + track points with ActivityExtension (speed, watts)
+ *
+ * Elements are matched by local name so any namespace prefix works.
+ */
+
+import { ActivitySample, ActivitySport, ParsedActivity } from '../../types/activity-import';
+import { computeElevationGain, fillDistanceFromPositions } from './activityMetrics';
+
+// ============================================================================
+// XML HELPERS
+// ============================================================================
+
+const parseXml = (text: string): Document => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('File is not valid XML');
+    }
+    return doc;
+};
+
+const children = (parent: Element | Document, localName: string): Element[] =>
+    Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const firstText = (parent: Element, localName: string): string | undefined =>
+    children(parent, localName)[0]?.textContent?.trim() || undefined;
+
+const firstNumber = (parent: Element, localName: string): number | undefined => {
+    const text = firstText(parent, localName);
+    if (text === undefined) return undefined;
+    const value = parseFloat(text);
+    return Number.isFinite(value) ? value : undefined;
+};
+
+const attrNumber = (el: Element, name: string): number | undefined => {
+    const value = parseFloat(el.getAttribute(name) ?? '');
+    return Number.isFinite(value) ? value : undefined;
+};
+
+const SPORT_KEYWORDS: [RegExp, ActivitySport][] = [
+    [/run/i, 'running'],
+    [/bik|cycl|ride/i, 'cycling'],
+    [/swim/i, 'swimming'],
+    [/walk/i, 'walking'],
+    [/hik/i, 'hiking'],
+    [/row|paddl|kayak/i, 'rowing'],
+    [/strength|weight/i, 'strength']
+];
+
+const detectSport = (label: string | null | undefined): ActivitySport => {
+    if (!label) return 'generic';
+    return SPORT_KEYWORDS.find(([pattern]) => pattern.test(label))?.[1] ?? 'generic';
+};
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+const summarise = (
+    format: ParsedActivity['format'],
+    sport: ActivitySport,
+    samples: ActivitySample[],
+    startMs: number,
+    overrides: Partial<ParsedActivity> = {}
+): ParsedActivity => {
+    if (samples.length === 0 && overrides.duration_seconds === undefined) {
+        throw new Error(`${format.toUpperCase()} file contains no track points`);
+    }
+
+    const hr = samples.map(s => s.heart_rate).filter((v): v is number => v !== undefined);
+    const power = samples.map(s => s.power_w).filter((v): v is number => v !== undefined);
+    const avg = (values: number[]) => values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : undefined;
+    const max = (values: number[]) => values.length ? values.reduce((a, b) => Math.max(a, b)) : undefined;
+    const elapsed = samples.length ? samples[samples.length - 1].elapsed_s : 0;
+    const distance = samples.length ? samples[samples.length - 1].distance_m : undefined;
+
+    return {
+        format,
+        sport,
+        start_time: new Date(startMs).toISOString(),
+        duration_seconds: Math.round(elapsed),
+        elapsed_seconds: Math.round(elapsed),
+        distance_meters: distance !== undefined ? Math.round(distance) : undefined,
+        elevation_gain_m: computeElevationGain(samples),
+        avg_hr: avg(hr),
+        max_hr: max(hr),
+        avg_power_w: avg(power),
+        max_power_w: max(power),
+        samples,
+        ...overrides
+    };
+};
+
+// ============================================================================
+// GPX
+// ============================================================================
+
+export function parseGpxActivity(text: string): ParsedActivity {
+    const doc = parseXml(text);
+    if (children(doc, 'gpx').length === 0) throw new Error('Not a GPX file');
+
+    const points = children(doc, 'trkpt');
+    const timed = points
+        .map(pt => ({ pt, ms: Date.parse(firstText(pt, 'time') ?? '') }))
+        .filter(p => Number.isFinite(p.ms));
+    if (timed.length === 0) throw new Error('GPX file has no timestamps (route, not a recorded activity)');
+
+    const startMs = timed[0].ms;
+    const samples: ActivitySample[] = timed.map(({ pt, ms }) => ({
+        elapsed_s: (ms - startMs) / 1000,
+        lat: attrNumber(pt, 'lat'),
+        lon: attrNumber(pt, 'lon'),
+        altitude_m: firstNumber(pt, 'ele'),
+        heart_rate: firstNumber(pt, 'hr'),
+        cadence: firstNumber(pt, 'cad'),
+        power_w: firstNumber(pt, 'power')
+    }));
+    fillDistanceFromPositions(samples);
+
+    const track = children(doc, 'trk')[0];
+    const typeLabel = track ? firstText(track, 'type') ?? firstText(track, 'name') : undefined;
+    const creator = children(doc, 'gpx')[0].getAttribute('creator') ?? undefined;
+
+    return summarise('gpx', detectSport(typeLabel), samples, startMs, { device: creator });
+}
+
+// ============================================================================
+// TCX
+// ============================================================================
+
+export function parseTcxActivity(text: string): ParsedActivity {
+    const doc = parseXml(text);
+    const activity = children(doc, 'Activity')[0];
+    if (!activity) throw new Error('Not a TCX activity file');
+
+    const points = children(activity, 'Trackpoint')
+        .map(pt => ({ pt, ms: Date.parse(firstText(pt, 'Time') ?? '') }))
+        .filter(p => Number.isFinite(p.ms));
+
+    const laps = children(activity, 'Lap');
+    const lapStart = Date.parse(laps[0]?.getAttribute('StartTime') ?? '');
+    const startMs = Number.isFinite(lapStart) ? lapStart : points[0]?.ms;
+    if (startMs === undefined || !Number.isFinite(startMs)) throw new Error('TCX file has no start time');
+
+    const samples: ActivitySample[] = points.map(({ pt, ms }) => {
+        const hrNode = children(pt, 'HeartRateBpm')[0];
+        return {
+            elapsed_s: (ms - startMs) / 1000,
+            lat: firstNumber(pt, 'LatitudeDegrees'),
+            lon: firstNumber(pt, 'LongitudeDegrees'),
+            altitude_m: firstNumber(pt, 'AltitudeMeters'),
+            distance_m: firstNumber(pt, 'DistanceMeters'),
+            heart_rate: hrNode ? firstNumber(hrNode, 'Value') : undefined,
+            cadence: firstNumber(pt, 'Cadence') ?? firstNumber(pt, 'RunCadence'),
+            speed_mps: firstNumber(pt, 'Speed'),
+            power_w: firstNumber(pt, 'Watts')
+        };
+    });
+    if (samples.every(s => s.distance_m === undefined)) fillDistanceFromPositions(samples);
+
+    // Lap totals are authoritative for moving time, distance and calories
+    const lapSum = (name: string) => {
+        const values = laps.map(l => {
+            const direct = Array.from(l.children).find(c => c.localName === name);
+            return direct ? parseFloat(direct.textContent ?? '') : NaN;
+        }).filter(Number.isFinite);
+        return values.length ? values.reduce((a, b) => a + b, 0) : undefined;
+    };
+    const totalTime = lapSum('TotalTimeSeconds');
+    const totalDistance = lapSum('DistanceMeters');
+    const calories = lapSum('Calories');
+
+    const creator = children(doc, 'Creator')[0];
+    const device = creator ? firstText(creator, 'Name') : undefined;
+
+    const overrides: Partial<ParsedActivity> = { device };
+    if (totalTime !== undefined) overrides.duration_seconds = Math.round(totalTime);
+    if (totalDistance !== undefined) overrides.distance_meters = Math.round(totalDistance);
+    if (calories !== undefined) overrides.calories = Math.round(calories);
+
+    return summarise('tcx', detectSport(activity.getAttribute('Sport')), samples, startMs, overrides);
+}
@@ -0,0 +1,139 @@
+/**
+ * Zip Reader - Minimal streaming reader for exported archives
+ *
+ * Reads the central directory (incl. Zip64 for multi-GB health exports)
+ * and streams a single entry through DecompressionStream, so the archive
+ * is never held in memory as a whole.
+ *
+ * Supports stored (0) and deflate (8) entries, which covers the archives
+ * produced by iOS and the common desktop zip tools.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const ZIP64_EXTRA_ID = 0x0001;
+const UINT32_MAX = 0xffffffff;
+
+export interface ZipEntry {
+    name: string;
+    method: number;
+    compressed_size: number;
+    uncompressed_size: number;
+    local_header_offset: number;
+}
+
+const readBytes = async (blob: Blob, start: number, end: number): Promise<DataView> =>
+    new DataView(await blob.slice(start, end).arrayBuffer());
+
+const readUint64 = (view: DataView, offset: number): number =>
+    view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+
+// ============================================================================
+// CENTRAL DIRECTORY
+// ============================================================================
+
+const locateCentralDirectory = async (blob: Blob): Promise<{ offset: number; size: number }> => {
+    const tailStart = Math.max(0, blob.size - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+    const tail = await readBytes(blob, tailStart, blob.size);
+
+    let eocd = -1;
+    for (let i = tail.byteLength - EOCD_MIN_SIZE; i >= 0; i--) {
+        if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd < 0) throw new Error('Not a zip archive');
+
+    const size = tail.getUint32(eocd + 12, true);
+    const offset = tail.getUint32(eocd + 16, true);
+    if (offset !== UINT32_MAX && size !== UINT32_MAX) return { offset, size };
+
+    // Zip64: the locator sits immediately before the classic EOCD record
+    const locator = eocd - 20;
+    if (locator < 0 || tail.getUint32(locator, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+        throw new Error('Zip64 archive is missing its end-of-directory locator');
+    }
+    const zip64Offset = readUint64(tail, locator + 8);
+    const record = await readBytes(blob, zip64Offset, zip64Offset + 56);
+    if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+        throw new Error('Zip64 end-of-directory record not found');
+    }
+    return { offset: readUint64(record, 48), size: readUint64(record, 40) };
+};
+
+/**
+ * List the entries of a zip archive from its central directory
+ */
+export async function listZipEntries(blob: Blob): Promise<ZipEntry[]> {
+    const { offset, size } = await locateCentralDirectory(blob);
+    const directory = await readBytes(blob, offset, offset + size);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+
+    let pos = 0;
+    while (pos + 46 <= directory.byteLength && directory.getUint32(pos, true) === CENTRAL_HEADER_SIGNATURE) {
+        const nameLength = directory.getUint16(pos + 28, true);
+        const extraLength = directory.getUint16(pos + 30, true);
+        const commentLength = directory.getUint16(pos + 32, true);
+
+        const entry: ZipEntry = {
+            name: decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + pos + 46, nameLength)),
+            method: directory.getUint16(pos + 10, true),
+            compressed_size: directory.getUint32(pos + 20, true),
+            uncompressed_size: directory.getUint32(pos + 24, true),
+            local_header_offset: directory.getUint32(pos + 42, true)
+        };
+
+        // Zip64 extra field carries the 64-bit values that overflowed, in order
+        let extra = pos + 46 + nameLength;
+        const extraEnd = extra + extraLength;
+        while (extra + 4 <= extraEnd) {
+            const id = directory.getUint16(extra, true);
+            const length = directory.getUint16(extra + 2, true);
+            if (id === ZIP64_EXTRA_ID) {
+                let field = extra + 4;
+                if (entry.uncompressed_size === UINT32_MAX) { entry.uncompressed_size = readUint64(directory, field); field += 8; }
+                if (entry.compressed_size === UINT32_MAX) { entry.compressed_size = readUint64(directory, field); field += 8; }
+                if (entry.local_header_offset === UINT32_MAX) { entry.local_header_offset = readUint64(directory, field); }
+            }
+            extra += 4 + length;
+        }
+
+        entries.push(entry);
+        pos = extraEnd + commentLength;
+    }
+
+    return entries;
+}
+
+// ============================================================================
+// ENTRY STREAMING
+// ============================================================================
+
+/**
+ * Stream an entry's uncompressed bytes
+ */
+export async function openZipEntry(blob: Blob, entry: ZipEntry): Promise<ReadableStream<Uint8Array>> {
+    const header = await readBytes(blob, entry.local_header_offset, entry.local_header_offset + 30);
+    if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt zip entry: ${entry.name}`);
+    }
+    const dataStart = entry.local_header_offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const raw = blob.slice(dataStart, dataStart + entry.compressed_size).stream();
+
+    switch (entry.method) {
+        case 0:
+            return raw;
+        case 8:
+            return raw.pipeThrough(new DecompressionStream('deflate-raw'));
+        default:
+            throw new Error(`Unsupported zip compression method ${entry.method} for ${entry.name}`);
+    }
+}
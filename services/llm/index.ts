@@ -0,0 +1,51 @@
+/**
+ * LLM - Provider registry, built-in providers and structured generation
+ */
+
+import { LLMConnectionResult, LLMProvider, LLMRequest } from '../../types/llm';
+import { llmRegistry } from './providerRegistry';
+import { GeminiProvider } from './providers/geminiProvider';
+import { OpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { getProviderConfig, loadLLMSettings } from './settingsStore';
+import { validateStructured } from './schema';
+
+llmRegistry.register(new GeminiProvider(() => getProviderConfig('gemini')));
+llmRegistry.register(new OpenAICompatibleProvider(() => getProviderConfig('openai_compatible')));
+
+export const getActiveProvider = (): LLMProvider | undefined =>
+    llmRegistry.get(loadLLMSettings().active_provider);
+
+/**
+ * Answer from the active provider, validated against the request schema.
+ * Null when no provider is configured or it cannot take the request's
+ * images; throws when the call fails or the answer does not validate.
+ */
+export async function generateStructured<T>(request: LLMRequest): Promise<T | null> {
+    const provider = getActiveProvider();
+    if (!provider?.isConfigured()) return null;
+    if (request.images?.length && !provider.supportsImages) return null;
+
+    const answer = await provider.generate(request);
+    return validateStructured<T>(answer, request.schema);
+}
+
+export async function testLLMConnection(providerId = loadLLMSettings().active_provider): Promise<LLMConnectionResult> {
+    const provider = llmRegistry.get(providerId);
+    if (!provider) return { success: false, message: `Unknown provider "${providerId}"` };
+    if (!provider.isConfigured()) return { success: false, message: 'Provider is not configured.' };
+    return provider.testConnection();
+}
+
+export { llmRegistry, LLMProviderRegistry } from './providerRegistry';
+export { GeminiProvider, toGeminiSchema } from './providers/geminiProvider';
+export { OpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+export { RecordedLLMProvider } from './providers/recordedProvider';
+export { parseJsonAnswer, validateStructured, toJsonSchema } from './schema';
+export {
+    DEFAULT_LLM_SETTINGS,
+    loadLLMSettings,
+    saveLLMSettings,
+    getProviderConfig,
+    saveProviderConfig,
+    setActiveProvider
+} from './settingsStore';
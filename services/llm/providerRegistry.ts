@@ -0,0 +1,34 @@
+/**
+ * LLM Provider Registry
+ *
+ * Providers register once at startup (see ./index.ts); the active one is
+ * picked by id from the LLM settings.
+ */
+
+import { LLMProvider } from '../../types/llm';
+
+export class LLMProviderRegistry {
+    private providers = new Map<string, LLMProvider>();
+
+    register(provider: LLMProvider): void {
+        if (this.providers.has(provider.id)) {
+            console.warn(`[LLMRegistry] Replacing provider "${provider.id}"`);
+        }
+        this.providers.set(provider.id, provider);
+    }
+
+    unregister(id: string): void {
+        this.providers.delete(id);
+    }
+
+    get(id: string): LLMProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    list(): LLMProvider[] {
+        return [...this.providers.values()];
+    }
+}
+
+// Singleton instance
+export const llmRegistry = new LLMProviderRegistry();
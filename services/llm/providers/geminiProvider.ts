@@ -0,0 +1,108 @@
+/**
+ * Gemini Provider - Google Gemini through @google/genai
+ *
+ * The key comes from the provider config, then the legacy
+ * SENTIENT_API_KEY localStorage entry, then the build-time GEMINI_API_KEY.
+ */
+
+import { GoogleGenAI, Schema, Type } from '@google/genai';
+import {
+    LLMConnectionResult,
+    LLMProvider,
+    LLMProviderConfig,
+    LLMRequest,
+    LLMSchema
+} from '../../../types/llm';
+import { parseJsonAnswer } from '../schema';
+
+const GEMINI_TYPES: Record<LLMSchema['type'], Type> = {
+    string: Type.STRING,
+    number: Type.NUMBER,
+    boolean: Type.BOOLEAN,
+    array: Type.ARRAY,
+    object: Type.OBJECT
+};
+
+export function toGeminiSchema(schema: LLMSchema): Schema {
+    const base: Schema = { type: GEMINI_TYPES[schema.type] };
+    if (schema.nullable) base.nullable = true;
+    if (schema.description) base.description = schema.description;
+
+    switch (schema.type) {
+        case 'string':
+            return schema.enum ? { ...base, enum: schema.enum } : base;
+        case 'array':
+            return { ...base, items: toGeminiSchema(schema.items) };
+        case 'object':
+            return {
+                ...base,
+                properties: Object.fromEntries(
+                    Object.entries(schema.properties).map(([key, s]) => [key, toGeminiSchema(s)])
+                ),
+                ...(schema.required ? { required: schema.required } : {})
+            };
+        default:
+            return base;
+    }
+}
+
+export class GeminiProvider implements LLMProvider {
+    readonly id = 'gemini';
+    readonly name = 'Google Gemini';
+    readonly description = 'Gemini API with your own key';
+    readonly supportsImages = true;
+
+    constructor(private getConfig: () => LLMProviderConfig) { }
+
+    private apiKey(): string | undefined {
+        const legacyKey = typeof window !== 'undefined' ? localStorage.getItem('SENTIENT_API_KEY') : null;
+        // SANITIZATION: Remove whitespace which causes 404/400 errors
+        return (this.getConfig().api_key || legacyKey || process.env.API_KEY)?.trim() || undefined;
+    }
+
+    private client(): GoogleGenAI {
+        const apiKey = this.apiKey();
+        if (!apiKey) throw new Error('No Gemini API key configured');
+        return new GoogleGenAI({ apiKey });
+    }
+
+    isConfigured(): boolean {
+        return !!this.apiKey() && !!this.getConfig().model;
+    }
+
+    async generate(request: LLMRequest): Promise<unknown> {
+        const images = request.images ?? [];
+        const response = await this.client().models.generateContent({
+            model: this.getConfig().model,
+            contents: images.length > 0
+                ? {
+                    parts: [
+                        ...images.map(image => ({ inlineData: { mimeType: image.mime_type, data: image.data } })),
+                        { text: request.prompt }
+                    ]
+                }
+                : request.prompt,
+            config: {
+                responseMimeType: 'application/json',
+                responseSchema: toGeminiSchema(request.schema)
+            }
+        });
+        return parseJsonAnswer(response.text ?? '');
+    }
+
+    async testConnection(): Promise<LLMConnectionResult> {
+        const model = this.getConfig().model;
+        try {
+            const response = await this.client().models.generateContent({
+                model,
+                contents: "Ping. Respond with 'Pong' only."
+            });
+            return response.text?.toLowerCase().includes('pong')
+                ? { success: true, message: `Connected (${model})` }
+                : { success: false, message: `Unexpected reply from ${model}` };
+        } catch (error: any) {
+            if (error?.status === 429) return { success: false, message: 'Quota Exceeded (429).' };
+            return { success: false, message: error?.message || 'Connection Failed.' };
+        }
+    }
+}
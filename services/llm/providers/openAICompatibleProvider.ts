@@ -0,0 +1,110 @@
+/**
+ * OpenAI-Compatible Provider - Any /chat/completions endpoint
+ *
+ * Works with OpenAI itself and self-hosted servers that speak the same API
+ * (llama.cpp server, Ollama, vLLM, LM Studio). The schema is sent both as
+ * response_format (for servers that constrain decoding) and in the system
+ * message (for servers that ignore it).
+ */
+
+import {
+    LLMConnectionResult,
+    LLMProvider,
+    LLMProviderConfig,
+    LLMRequest
+} from '../../../types/llm';
+import { parseJsonAnswer, toJsonSchema } from '../schema';
+
+const DEFAULT_TIMEOUT_MS = 60000;
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly id = 'openai_compatible';
+    readonly name = 'OpenAI-Compatible Endpoint';
+    readonly description = 'OpenAI or a self-hosted server such as llama.cpp';
+    // Vision depends on the model; the endpoint reports an error if unsupported
+    readonly supportsImages = true;
+
+    constructor(private getConfig: () => LLMProviderConfig) { }
+
+    isConfigured(): boolean {
+        const config = this.getConfig();
+        return !!config.base_url && !!config.model;
+    }
+
+    private async chat(body: Record<string, unknown>): Promise<string> {
+        const config = this.getConfig();
+        if (!config.base_url) throw new Error('No endpoint URL configured');
+
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), config.timeout_ms ?? DEFAULT_TIMEOUT_MS);
+        try {
+            const response = await fetch(`${config.base_url.replace(/\/+$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(config.api_key ? { Authorization: `Bearer ${config.api_key.trim()}` } : {})
+                },
+                body: JSON.stringify({ model: config.model, ...body }),
+                signal: controller.signal
+            });
+            if (!response.ok) {
+                throw new Error(`Endpoint returned ${response.status} ${response.statusText}`.trim());
+            }
+            const data = await response.json();
+            const content = data?.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') throw new Error('Endpoint reply has no message content');
+            return content;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    async generate(request: LLMRequest): Promise<unknown> {
+        const jsonSchema = toJsonSchema(request.schema);
+        const images = request.images ?? [];
+        const content = await this.chat({
+            temperature: 0.2,
+            messages: [
+                {
+                    role: 'system',
+                    content: `Reply with a single JSON value and nothing else. It must match this JSON Schema:\n${JSON.stringify(jsonSchema)}`
+                },
+                {
+                    role: 'user',
+                    content: images.length > 0
+                        ? [
+                            ...images.map(image => ({
+                                type: 'image_url',
+                                image_url: { url: `data:${image.mime_type};base64,${image.data}` }
+                            })),
+                            { type: 'text', text: request.prompt }
+                        ]
+                        : request.prompt
+                }
+            ],
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: request.task, schema: jsonSchema }
+            }
+        });
+        return parseJsonAnswer(content);
+    }
+
+    async testConnection(): Promise<LLMConnectionResult> {
+        const model = this.getConfig().model;
+        try {
+            const reply = await this.chat({
+                max_tokens: 5,
+                messages: [{ role: 'user', content: "Ping. Respond with 'Pong' only." }]
+            });
+            return reply.toLowerCase().includes('pong')
+                ? { success: true, message: `Connected (${model})` }
+                : { success: true, message: `Connected (${model}), unexpected reply` };
+        } catch (error: any) {
+            return {
+                success: false,
+                message: error?.name === 'AbortError' ? 'Endpoint timed out' : error?.message || 'Connection Failed.'
+            };
+        }
+    }
+}
@@ -0,0 +1,64 @@
+/**
+ * Recorded LLM Provider - Canned answers per task for tests and demos
+ *
+ * Answers are looked up by request.task; every request is kept in `calls`
+ * so a test can assert on the prompt that was sent. Answers go through the
+ * same schema validation as live providers.
+ */
+
+import { LLMConnectionResult, LLMProvider, LLMRequest } from '../../../types/llm';
+
+export class RecordedLLMProvider implements LLMProvider {
+    readonly id: string;
+    readonly name = 'Recorded Responses';
+    readonly description = 'Replays recorded answers without a network';
+    readonly supportsImages = true;
+
+    readonly calls: LLMRequest[] = [];
+    private responses = new Map<string, unknown[]>();
+    private failNext: Error | null = null;
+
+    constructor(id = 'recorded') {
+        this.id = id;
+    }
+
+    /** Queue an answer for a task; the last one repeats once the queue is drained */
+    record(task: string, response: unknown): this {
+        this.responses.set(task, [...(this.responses.get(task) ?? []), response]);
+        return this;
+    }
+
+    failNextRequest(error = new Error('Recorded provider failure')): void {
+        this.failNext = error;
+    }
+
+    reset(): void {
+        this.calls.length = 0;
+        this.responses.clear();
+        this.failNext = null;
+    }
+
+    isConfigured(): boolean {
+        return true;
+    }
+
+    async generate(request: LLMRequest): Promise<unknown> {
+        this.calls.push(request);
+        if (this.failNext) {
+            const error = this.failNext;
+            this.failNext = null;
+            throw error;
+        }
+
+        const queue = this.responses.get(request.task);
+        if (!queue || queue.length === 0) {
+            throw new Error(`No recorded response for task "${request.task}"`);
+        }
+        const response = queue.length > 1 ? queue.shift() : queue[0];
+        return JSON.parse(JSON.stringify(response));
+    }
+
+    async testConnection(): Promise<LLMConnectionResult> {
+        return { success: true, message: `Replaying ${this.responses.size} recorded tasks` };
+    }
+}
@@ -0,0 +1,112 @@
+/**
+ * LLM Schema - Shared parsing and validation of structured answers
+ *
+ * Every provider's answer goes through parseJsonAnswer() and
+ * validateStructured(), so a malformed answer fails the same way whether it
+ * came from Gemini, a local llama.cpp server or a recording.
+ */
+
+import { LLMSchema } from '../../types/llm';
+
+/**
+ * JSON from a model reply. Tolerates ```json fences and prose around a
+ * single JSON value, which local models often add.
+ */
+export function parseJsonAnswer(text: string): unknown {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+    const body = fenced ? fenced[1] : trimmed;
+    try {
+        return JSON.parse(body);
+    } catch {
+        const start = body.search(/[{[]/);
+        const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+        if (start >= 0 && end > start) {
+            return JSON.parse(body.slice(start, end + 1));
+        }
+        throw new Error('Model reply is not JSON');
+    }
+}
+
+const describe = (value: unknown) =>
+    value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+function collectIssues(value: unknown, schema: LLMSchema, path: string, issues: string[]): void {
+    if (value === null || value === undefined) {
+        if (!schema.nullable) issues.push(`${path}: expected ${schema.type}, got ${describe(value)}`);
+        return;
+    }
+
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') issues.push(`${path}: expected string, got ${describe(value)}`);
+            else if (schema.enum && !schema.enum.includes(value)) issues.push(`${path}: "${value}" is not one of ${schema.enum.join(', ')}`);
+            return;
+        case 'number':
+            if (typeof value !== 'number' || !Number.isFinite(value)) issues.push(`${path}: expected number, got ${describe(value)}`);
+            return;
+        case 'boolean':
+            if (typeof value !== 'boolean') issues.push(`${path}: expected boolean, got ${describe(value)}`);
+            return;
+        case 'array':
+            if (!Array.isArray(value)) {
+                issues.push(`${path}: expected array, got ${describe(value)}`);
+                return;
+            }
+            value.forEach((item, i) => collectIssues(item, schema.items, `${path}[${i}]`, issues));
+            return;
+        case 'object': {
+            if (typeof value !== 'object' || Array.isArray(value)) {
+                issues.push(`${path}: expected object, got ${describe(value)}`);
+                return;
+            }
+            const record = value as Record<string, unknown>;
+            (schema.required ?? []).forEach(key => {
+                if (!(key in record)) issues.push(`${path}.${key}: missing`);
+            });
+            Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+                if (key in record) collectIssues(record[key], propertySchema, `${path}.${key}`, issues);
+            });
+            return;
+        }
+    }
+}
+
+/**
+ * The answer typed as T, or an Error listing every mismatch.
+ */
+export function validateStructured<T>(value: unknown, schema: LLMSchema): T {
+    const issues: string[] = [];
+    collectIssues(value, schema, '$', issues);
+    if (issues.length > 0) {
+        throw new Error(`Model reply does not match schema: ${issues.slice(0, 5).join('; ')}`);
+    }
+    return value as T;
+}
+
+/**
+ * Standard JSON Schema for endpoints that accept one (OpenAI
+ * response_format, llama.cpp grammar generation).
+ */
+export function toJsonSchema(schema: LLMSchema): Record<string, unknown> {
+    const type = schema.nullable ? [schema.type, 'null'] : schema.type;
+    const base: Record<string, unknown> = { type };
+    if (schema.description) base.description = schema.description;
+
+    switch (schema.type) {
+        case 'string':
+            return schema.enum ? { ...base, enum: schema.enum } : base;
+        case 'array':
+            return { ...base, items: toJsonSchema(schema.items) };
+        case 'object':
+            return {
+                ...base,
+                properties: Object.fromEntries(
+                    Object.entries(schema.properties).map(([key, s]) => [key, toJsonSchema(s)])
+                ),
+                ...(schema.required ? { required: schema.required } : {})
+            };
+        default:
+            return base;
+    }
+}
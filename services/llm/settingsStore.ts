@@ -0,0 +1,38 @@
+/**
+ * LLM Settings Store - Active provider and per-provider config
+ */
+
+import { LLMProviderConfig, LLMSettings } from '../../types/llm';
+import { persistence } from '../persistence/repository';
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+    active_provider: 'gemini',
+    providers: {
+        gemini: { model: 'gemini-2.0-flash-lite-preview-02-05' },
+        openai_compatible: { model: 'local-model', base_url: 'http://localhost:8080/v1' }
+    }
+};
+
+export const loadLLMSettings = (): LLMSettings => {
+    const stored = persistence.getValue('llm_settings');
+    return {
+        active_provider: stored?.active_provider ?? DEFAULT_LLM_SETTINGS.active_provider,
+        providers: { ...DEFAULT_LLM_SETTINGS.providers, ...stored?.providers }
+    };
+};
+
+export const saveLLMSettings = (settings: LLMSettings): void => {
+    persistence.setValue('llm_settings', settings);
+};
+
+export const getProviderConfig = (providerId: string): LLMProviderConfig =>
+    loadLLMSettings().providers[providerId] ?? { model: '' };
+
+export const saveProviderConfig = (providerId: string, config: LLMProviderConfig): void => {
+    const settings = loadLLMSettings();
+    saveLLMSettings({ ...settings, providers: { ...settings.providers, [providerId]: config } });
+};
+
+export const setActiveProvider = (providerId: string): void => {
+    saveLLMSettings({ ...loadLLMSettings(), active_provider: providerId });
+};
@@ -0,0 +1,7 @@
+/**
+ * Notifications - Scheduled reminders from the day's plan
+ */
+
+export { notificationScheduler, NotificationScheduler, DEFAULT_SNOOZE_MINUTES } from './notificationScheduler';
+export { buildNotificationPlan, inQuietHours, DEFAULT_SUPPLEMENT_STACK } from './notificationPlan';
+export type { PlannedReminder } from './notificationPlan';
@@ -0,0 +1,163 @@
+/**
+ * Notification Plan - Reminders derived from the day's plan
+ *
+ * Today's and tomorrow's reminders are rebuilt from GlobalState whenever it
+ * changes:
+ * - fuel: FuelWindowEngine windows around the day's sessions
+ * - supplements: SupplementProtocolEngine windows for the saved stack
+ * - bedtime: wind-down before SleepArchitectureEngine's optimal bedtime
+ * - sessions: timeline sessions that are not completed yet
+ *
+ * Ids depend only on the day and the plan item, never on its time, so a
+ * moved session keeps its reminder id and the scheduler replaces it.
+ */
+
+import { GlobalState, Session } from '../../types';
+import { DEFAULT_USER_GOAL } from '../../types/goals';
+import { NotificationCategory, QuietHours, ScheduledNotification } from '../../types/notifications';
+import { FuelWindowEngine } from '../../experts/nutritionist/FuelWindowEngine';
+import { SupplementProtocolEngine } from '../../experts/nutritionist/SupplementProtocolEngine';
+import { sleepArchitectureEngine } from '../../experts/recovery/SleepArchitectureEngine';
+
+export type PlannedReminder = Pick<ScheduledNotification, 'id' | 'category' | 'title' | 'body' | 'planned_at'>;
+
+export const DEFAULT_SUPPLEMENT_STACK = ['vitamin_d', 'omega_3', 'magnesium'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SESSION_LEAD_MINUTES = 30;
+const BEDTIME_LEAD_MINUTES = 30;
+const DEFAULT_WAKE_TIME = '06:30';
+
+// Windows not worth an interruption: all-day rest-day fuelling, and fuelling during the session itself
+const SILENT_FUEL_WINDOWS = new Set(['recovery_day', 'during_session']);
+
+// "HH:mm" to minutes after midnight, null when not a clock time
+const parseClock = (time: string | null | undefined): number | null => {
+    const match = time?.match(/^(\d{1,2}):(\d{2})/);
+    if (!match) return null;
+    const minutes = Number(match[1]) * 60 + Number(match[2]);
+    return minutes < 24 * 60 ? minutes : null;
+};
+
+const dateKey = (d: Date): string =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const startOfDay = (ms: number): Date => {
+    const d = new Date(ms);
+    d.setHours(0, 0, 0, 0);
+    return d;
+};
+
+const atMinutes = (day: Date, minutes: number): number => {
+    const d = new Date(day);
+    d.setHours(0, minutes, 0, 0);
+    return d.getTime();
+};
+
+/**
+ * Whether a moment falls in quiet hours; an end before the start means
+ * the quiet period runs overnight
+ */
+export function inQuietHours(ms: number, quiet: QuietHours): boolean {
+    const start = parseClock(quiet.start);
+    const end = parseClock(quiet.end);
+    if (!quiet.enabled || start === null || end === null || start === end) return false;
+    const d = new Date(ms);
+    const minutes = d.getHours() * 60 + d.getMinutes();
+    return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// Dated sessions on that day; undated ones are taken to be today's
+function sessionsOn(state: GlobalState, day: Date, isToday: boolean): Session[] {
+    const key = dateKey(day);
+    return (state.timeline?.sessions ?? []).filter(s =>
+        !s.completed && (s.date ? s.date.slice(0, 10) === key : isToday));
+}
+
+function reminder(category: NotificationCategory, day: Date, key: string, title: string, body: string, planned_at: number): PlannedReminder {
+    return { id: `${category}:${dateKey(day)}:${key}`, category, title, body, planned_at };
+}
+
+function fuelReminders(sessions: Session[], day: Date): PlannedReminder[] {
+    if (sessions.length === 0) return [];
+    const engine = new FuelWindowEngine();
+    engine.setSessionsToday(sessions);
+    return engine.calculateFuelWindows()
+        .filter(w => !SILENT_FUEL_WINDOWS.has(w.type))
+        .flatMap(w => {
+            const start = parseClock(w.start_time);
+            if (start === null) return [];
+            const session = sessions.find(s => s.id === w.session_id);
+            const body = session ? `${w.purpose} (${session.title})` : w.purpose;
+            return [reminder('fuel', day, `${w.session_id ?? 'day'}:${w.type}`, w.name, body, atMinutes(day, start))];
+        });
+}
+
+function supplementReminders(state: GlobalState, sessions: Session[], day: Date, supplementIds: string[]): PlannedReminder[] {
+    if (supplementIds.length === 0) return [];
+    const engine = new SupplementProtocolEngine();
+    engine.configure({
+        supplement_ids: supplementIds,
+        goal: (state.user_profile?.user_goal ?? DEFAULT_USER_GOAL).primary
+    });
+    // The protocol engine places sessions by start_time
+    const timed = sessions.flatMap(s => {
+        const start = parseClock(s.time_of_day);
+        return start === null ? [] : [{
+            id: s.id,
+            type: s.type,
+            start_time: new Date(atMinutes(day, start)),
+            duration_minutes: s.duration_minutes
+        }];
+    });
+    return engine.generateDayProtocol(timed, new Date(atMinutes(day, 12 * 60))).all_windows.map(w =>
+        reminder('supplements', day, `${w.supplement.id}:${w.timing}`,
+            `${w.supplement.emoji} ${w.supplement.name}`, w.instructions, w.window_start.getTime()));
+}
+
+function bedtimeReminder(state: GlobalState, day: Date): PlannedReminder[] {
+    // 00:00 is the initial value before any night is recorded
+    const wake = parseClock(state.sleep?.wake_time) > 0 ? state.sleep.wake_time : DEFAULT_WAKE_TIME;
+    const bedtime = sleepArchitectureEngine.calculateOptimalBedtime(wake);
+    const minutes = parseClock(bedtime);
+    if (minutes === null) return [];
+    // A bedtime before noon is after midnight, still this day's night
+    const at = atMinutes(day, minutes) + (minutes < 12 * 60 ? DAY_MS : 0);
+    return [reminder('bedtime', day, 'wind_down', 'Wind down for sleep',
+        `Bedtime is ${bedtime}. Dim the lights and put screens away.`, at - BEDTIME_LEAD_MINUTES * 60 * 1000)];
+}
+
+function sessionReminders(sessions: Session[], day: Date): PlannedReminder[] {
+    return sessions.flatMap(s => {
+        const start = parseClock(s.time_of_day);
+        if (start === null) return [];
+        return [reminder('sessions', day, s.id, `${s.title} in ${SESSION_LEAD_MINUTES} min`,
+            `${s.duration_minutes} min, ${s.intensity} intensity`, atMinutes(day, start) - SESSION_LEAD_MINUTES * 60 * 1000)];
+    });
+}
+
+/**
+ * Reminders for today and tomorrow, ordered by time. Past ones are kept so
+ * a snoozed reminder can still be found.
+ */
+export function buildNotificationPlan(state: GlobalState, now: number, supplementIds: string[]): PlannedReminder[] {
+    const plan: PlannedReminder[] = [];
+    for (let offset = 0; offset < 2; offset++) {
+        const day = startOfDay(now + offset * DAY_MS);
+        const sessions = sessionsOn(state, day, offset === 0);
+        const parts: [string, () => PlannedReminder[]][] = [
+            ['fuel', () => fuelReminders(sessions, day)],
+            ['supplements', () => supplementReminders(state, sessions, day, supplementIds)],
+            ['bedtime', () => bedtimeReminder(state, day)],
+            ['sessions', () => sessionReminders(sessions, day)]
+        ];
+        for (const [category, build] of parts) {
+            try {
+                plan.push(...build());
+            } catch (e) {
+                console.warn(`[Notifications] Could not plan ${category} reminders:`, e);
+            }
+        }
+    }
+    return plan.sort((a, b) => a.planned_at - b.planned_at);
+}
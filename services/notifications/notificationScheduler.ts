@@ -0,0 +1,246 @@
+/**
+ * Notification Scheduler - Shows the plan's reminders as system notifications
+ *
+ * The owner of GlobalState calls update() when it changes; the plan is
+ * rebuilt (notificationPlan) and every reminder due in the next day gets a
+ * timer. Rebuilding replaces timers by reminder id, so a changed plan never
+ * leaves a stale reminder behind. Per category toggles, quiet hours and
+ * snoozes are applied on top.
+ *
+ * Notifications go through the service worker when one is active (so they
+ * carry a Snooze action) and the Notification API otherwise. Each one is
+ * tagged with its reminder id, so two open tabs showing the same reminder
+ * replace each other instead of stacking.
+ */
+
+import { GlobalState } from '../../types';
+import {
+    DEFAULT_NOTIFICATION_SETTINGS,
+    NotificationLog,
+    NotificationPermissionState,
+    NotificationSettings,
+    ScheduledNotification
+} from '../../types/notifications';
+import { persistence } from '../persistence/repository';
+import { clock } from '../clock';
+import { buildNotificationPlan, DEFAULT_SUPPLEMENT_STACK, inQuietHours } from './notificationPlan';
+
+const REFRESH_MS = 60 * 60 * 1000;          // Rebuild hourly so tomorrow's reminders roll in
+const HORIZON_MS = 24 * 60 * 60 * 1000;     // Timers are set this far ahead
+const LOG_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+// A reminder already shown is shown again only if the plan moves it further than this
+const MOVED_THRESHOLD_MS = 30 * 60 * 1000;
+export const DEFAULT_SNOOZE_MINUTES = 15;
+
+const isSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export class NotificationScheduler {
+    private state: GlobalState | null = null;
+    private schedule: ScheduledNotification[] = [];
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private refreshTimer: ReturnType<typeof setInterval> | null = null;
+    private listeners = new Set<(schedule: ScheduledNotification[]) => void>();
+
+    // ========================================================================
+    // SETTINGS
+    // ========================================================================
+
+    getSettings(): NotificationSettings {
+        const saved = persistence.getValue('notification_settings');
+        return {
+            ...DEFAULT_NOTIFICATION_SETTINGS,
+            ...saved,
+            categories: { ...DEFAULT_NOTIFICATION_SETTINGS.categories, ...saved?.categories },
+            quiet_hours: { ...DEFAULT_NOTIFICATION_SETTINGS.quiet_hours, ...saved?.quiet_hours }
+        };
+    }
+
+    updateSettings(patch: Partial<NotificationSettings>): void {
+        persistence.setValue('notification_settings', { ...this.getSettings(), ...patch });
+        this.reschedule();
+    }
+
+    getPermission(): NotificationPermissionState {
+        return isSupported() ? Notification.permission : 'unsupported';
+    }
+
+    /**
+     * Ask for permission (must run from a user gesture) and turn
+     * notifications on when granted
+     */
+    async enable(): Promise<NotificationPermissionState> {
+        if (!isSupported()) return 'unsupported';
+        const permission = Notification.permission === 'default'
+            ? await Notification.requestPermission()
+            : Notification.permission;
+        if (permission === 'granted') this.updateSettings({ enabled: true });
+        return permission;
+    }
+
+    disable(): void {
+        this.updateSettings({ enabled: false });
+    }
+
+    // Supplement ids whose windows are reminded (the Fuel tab's stack)
+    getSupplementStack(): string[] {
+        return persistence.getValue('supplement_stack') ?? DEFAULT_SUPPLEMENT_STACK;
+    }
+
+    setSupplementStack(ids: string[]): void {
+        persistence.setValue('supplement_stack', ids);
+        this.reschedule();
+    }
+
+    // ========================================================================
+    // SCHEDULE
+    // ========================================================================
+
+    /**
+     * Rebuild the schedule from a new state. Called by the state owner on
+     * every change, and hourly after the first call.
+     */
+    update(state: GlobalState): void {
+        this.state = state;
+        if (!this.refreshTimer && typeof window !== 'undefined') {
+            this.refreshTimer = setInterval(() => this.reschedule(), REFRESH_MS);
+        }
+        this.reschedule();
+    }
+
+    getSchedule(): ScheduledNotification[] {
+        return this.schedule;
+    }
+
+    onScheduleChange(listener: (schedule: ScheduledNotification[]) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Push a reminder back by some minutes from when it is due, or from now
+     * once shown; also used by the notification's Snooze action (via the
+     * service worker)
+     */
+    snooze(id: string, minutes: number = DEFAULT_SNOOZE_MINUTES): void {
+        const log = this.getLog();
+        const { [id]: _, ...delivered } = log.delivered;
+        const due = this.schedule.find(item => item.id === id)?.fire_at ?? 0;
+        this.saveLog({
+            delivered,
+            snoozed: { ...log.snoozed, [id]: Math.max(clock.nowMs(), due) + minutes * 60 * 1000 }
+        });
+        this.reschedule();
+    }
+
+    // Cancel everything until the next update()
+    stop(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        if (this.refreshTimer) clearInterval(this.refreshTimer);
+        this.refreshTimer = null;
+        this.state = null;
+        this.schedule = [];
+        this.listeners.forEach(listener => listener(this.schedule));
+    }
+
+    private reschedule(): void {
+        if (!this.state) return;
+        const now = clock.nowMs();
+        const settings = this.getSettings();
+        const log = this.pruneLog(now);
+
+        let plan: ScheduledNotification[] = [];
+        try {
+            plan = buildNotificationPlan(this.state, now, this.getSupplementStack())
+                .filter(r => settings.categories[r.category])
+                .map(r => {
+                    const snoozedUntil = log.snoozed[r.id];
+                    const fire_at = snoozedUntil && snoozedUntil > now ? Math.max(snoozedUntil, r.planned_at) : r.planned_at;
+                    return {
+                        ...r,
+                        fire_at,
+                        snoozed: fire_at !== r.planned_at,
+                        quiet: inQuietHours(fire_at, settings.quiet_hours)
+                    };
+                })
+                .filter(item => item.fire_at > now)
+                .sort((a, b) => a.fire_at - b.fire_at);
+        } catch (e) {
+            console.error('[Notifications] Building the schedule failed:', e);
+        }
+        this.schedule = plan;
+
+        const due = new Map<string, ScheduledNotification>();
+        if (settings.enabled && this.getPermission() === 'granted') {
+            for (const item of plan) {
+                if (item.quiet || item.fire_at - now > HORIZON_MS) continue;
+                const shownAt = log.delivered[item.id];
+                if (shownAt !== undefined && Math.abs(shownAt - item.fire_at) <= MOVED_THRESHOLD_MS) continue;
+                due.set(item.id, item);
+            }
+        }
+
+        // Replace every timer: ids that left the plan are cancelled, moved ones re-armed
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        due.forEach((item, id) => {
+            this.timers.set(id, setTimeout(() => this.deliver(item), Math.max(0, item.fire_at - now)));
+        });
+
+        this.listeners.forEach(listener => listener(this.schedule));
+    }
+
+    // ========================================================================
+    // DELIVERY
+    // ========================================================================
+
+    private async deliver(item: ScheduledNotification): Promise<void> {
+        this.timers.delete(item.id);
+        const log = this.getLog();
+        const { [item.id]: _, ...snoozed } = log.snoozed;
+        this.saveLog({ delivered: { ...log.delivered, [item.id]: item.fire_at }, snoozed });
+
+        try {
+            const registration = 'serviceWorker' in navigator
+                ? await navigator.serviceWorker.getRegistration()
+                : undefined;
+            if (registration?.active) {
+                await registration.showNotification(item.title, {
+                    body: item.body,
+                    tag: item.id,
+                    data: { id: item.id },
+                    actions: [{ action: 'snooze', title: `Snooze ${DEFAULT_SNOOZE_MINUTES} min` }]
+                } as NotificationOptions);
+            } else {
+                new Notification(item.title, { body: item.body, tag: item.id });
+            }
+        } catch (e) {
+            console.warn('[Notifications] Could not show notification:', e);
+        }
+        this.listeners.forEach(listener => listener(this.schedule));
+    }
+
+    private getLog(): NotificationLog {
+        return persistence.getValue('notification_log') ?? { delivered: {}, snoozed: {} };
+    }
+
+    private saveLog(log: NotificationLog): void {
+        persistence.setValue('notification_log', log);
+    }
+
+    private pruneLog(now: number): NotificationLog {
+        const log = this.getLog();
+        const keep = (entries: Record<string, number>) =>
+            Object.fromEntries(Object.entries(entries).filter(([, at]) => now - at < LOG_RETENTION_MS));
+        const pruned = { delivered: keep(log.delivered), snoozed: keep(log.snoozed) };
+        if (Object.keys(pruned.delivered).length !== Object.keys(log.delivered).length ||
+            Object.keys(pruned.snoozed).length !== Object.keys(log.snoozed).length) {
+            this.saveLog(pruned);
+        }
+        return pruned;
+    }
+}
+
+export const notificationScheduler = new NotificationScheduler();
@@ -0,0 +1,86 @@
+/**
+ * Legacy Import - One-time read of the pre-IndexedDB localStorage keys
+ *
+ * Runs as a schema migration, so it happens once per database. The keys are
+ * only removed after the migration transaction commits; if IndexedDB is
+ * unavailable they are left in place and read into memory on every start.
+ */
+
+import { AppStateEntry, AppStateKey, AppStateValues, LegacySnapshot, StoreRecordMap } from './types';
+import { UserHistory } from '../history/types';
+import { ActionStatus } from '../ActionSyncService';
+
+export const LEGACY_KEYS = {
+    history: 'sentient_history',
+    actionSync: 'sentient_action_sync',
+    personalRecords: 'sentient_personal_records',
+    loadHistory: 'sentient_load_history',
+    globalState: 'sentient_state_v5',
+    launched: 'sentient_launched',
+    wearableConnections: 'sentient_wearable_connections',
+    wearableLedger: 'sentient_wearable_ledger',
+    wearableConflictPolicy: 'sentient_wearable_conflict_policy',
+    suggestionLearning: 'sentient_suggestion_learning'
+} as const;
+
+const readJSON = <T>(key: string): T | undefined => {
+    try {
+        const stored = localStorage.getItem(key);
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.warn(`[LegacyImport] Skipping unreadable ${key}:`, e);
+    }
+    return undefined;
+};
+
+export function readLegacyStorage(): LegacySnapshot {
+    const snapshot: LegacySnapshot = { records: {}, keys: [] };
+    if (typeof localStorage === 'undefined') return snapshot;
+
+    const appState: AppStateEntry[] = [];
+    const setValue = <K extends AppStateKey>(key: K, value: AppStateValues[K] | undefined, legacyKey: string) => {
+        if (value === undefined) return;
+        appState.push({ key, value } as AppStateEntry);
+        snapshot.keys.push(legacyKey);
+    };
+    const setRecords = <K extends keyof StoreRecordMap>(store: K, records: StoreRecordMap[K][] | undefined, legacyKey: string) => {
+        if (!records) return;
+        snapshot.records[store] = [...(snapshot.records[store] ?? []), ...records] as LegacySnapshot['records'][K];
+        if (!snapshot.keys.includes(legacyKey)) snapshot.keys.push(legacyKey);
+    };
+
+    const history = readJSON<UserHistory>(LEGACY_KEYS.history);
+    if (history) {
+        setRecords('history_points', history.dataPoints ?? [], LEGACY_KEYS.history);
+        setRecords('action_outcomes', history.outcomes ?? [], LEGACY_KEYS.history);
+        appState.push({
+            key: 'history_meta',
+            value: { firstSeen: history.firstSeen, lastUpdated: history.lastUpdated, totalDays: history.totalDays }
+        });
+    }
+
+    const actions = readJSON<Record<string, ActionStatus>>(LEGACY_KEYS.actionSync);
+    setRecords('action_status', actions && Object.values(actions), LEGACY_KEYS.actionSync);
+    setRecords('personal_records', readJSON(LEGACY_KEYS.personalRecords), LEGACY_KEYS.personalRecords);
+    setRecords('load_history', readJSON(LEGACY_KEYS.loadHistory), LEGACY_KEYS.loadHistory);
+
+    setValue('global_state', readJSON(LEGACY_KEYS.globalState), LEGACY_KEYS.globalState);
+    setValue('launched', localStorage.getItem(LEGACY_KEYS.launched) ? true : undefined, LEGACY_KEYS.launched);
+    setValue('wearable_connections', readJSON(LEGACY_KEYS.wearableConnections), LEGACY_KEYS.wearableConnections);
+    setValue('wearable_ledger', readJSON(LEGACY_KEYS.wearableLedger), LEGACY_KEYS.wearableLedger);
+    setValue('wearable_conflict_policy', readJSON(LEGACY_KEYS.wearableConflictPolicy), LEGACY_KEYS.wearableConflictPolicy);
+    setValue('suggestion_learning', readJSON(LEGACY_KEYS.suggestionLearning), LEGACY_KEYS.suggestionLearning);
+
+    if (appState.length > 0) snapshot.records.app_state = appState;
+    return snapshot;
+}
+
+export function clearLegacyStorage(keys: string[]): void {
+    for (const key of keys) {
+        try {
+            localStorage.removeItem(key);
+        } catch (e) {
+            console.warn(`[LegacyImport] Failed to remove ${key}:`, e);
+        }
+    }
+}
@@ -0,0 +1,291 @@
+/**
+ * PERSISTENCE REPOSITORY - IndexedDB-backed stores with a synchronous cache
+ *
+ * The app's stores were written against synchronous localStorage, so the
+ * repository keeps the same shape: init() opens the database, runs pending
+ * migrations and loads every store into memory once at startup. Reads are
+ * served from memory; writes update memory immediately and are flushed to
+ * IndexedDB in one transaction per tick, in call order.
+ *
+ * When IndexedDB is unavailable (private browsing, old WebViews) the
+ * repository runs in memory only, seeded from the legacy localStorage keys.
+ *
+ * Each athlete in team mode has a database of their own; the primary
+ * database (DB_NAME) belongs to the original user and is the only one that
+ * imports legacy localStorage data.
+ */
+
+import { AppStateEntry, AppStateKey, AppStateValues, MigrationContext, StoreName, StoreRecordMap } from './types';
+import { DB_NAME, MIGRATIONS, SCHEMA_VERSION, STORE_KEYS, STORE_NAMES } from './schema';
+import { readLegacyStorage } from './legacyImport';
+
+type PendingOp =
+    | { type: 'put'; store: StoreName; key: string; value: unknown }
+    | { type: 'delete'; store: StoreName; key: string }
+    | { type: 'clear'; store: StoreName };
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Open a database by name, running pending migrations
+function openDatabase(name: string): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, SCHEMA_VERSION);
+        const afterCommit: (() => void)[] = [];
+
+        request.onupgradeneeded = event => {
+            const context: MigrationContext = {
+                db: request.result,
+                transaction: request.transaction!,
+                primary: name === DB_NAME,
+                afterCommit: callback => afterCommit.push(callback)
+            };
+            for (const migration of MIGRATIONS) {
+                if (migration.version <= event.oldVersion) continue;
+                console.log(`[Persistence] Migrating ${name} to v${migration.version}: ${migration.description}`);
+                migration.upgrade(context);
+            }
+        };
+        // success only fires once the versionchange transaction committed
+        request.onsuccess = () => {
+            afterCommit.forEach(callback => callback());
+            resolve(request.result);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => console.warn('[Persistence] Upgrade blocked by another open tab');
+    });
+}
+
+/**
+ * Read one app-state value from another database without loading it into a
+ * repository (e.g. a squad member's state). Undefined when unavailable.
+ */
+export async function readValueFrom<K extends AppStateKey>(dbName: string, key: K): Promise<AppStateValues[K] | undefined> {
+    if (typeof indexedDB === 'undefined') return undefined;
+    let db: IDBDatabase | null = null;
+    try {
+        db = await openDatabase(dbName);
+        const entry = await requestToPromise(db.transaction('app_state', 'readonly').objectStore('app_state').get(key));
+        return (entry as AppStateEntry<K> | undefined)?.value;
+    } catch (e) {
+        console.warn(`[Persistence] Failed to read ${key} from ${dbName}:`, e);
+        return undefined;
+    } finally {
+        db?.close();
+    }
+}
+
+// Remove a database entirely (an athlete leaving the roster)
+export function deleteDatabase(name: string): Promise<void> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve();
+    return new Promise(resolve => {
+        const request = indexedDB.deleteDatabase(name);
+        request.onsuccess = () => resolve();
+        request.onerror = () => {
+            console.warn(`[Persistence] Failed to delete ${name}:`, request.error);
+            resolve();
+        };
+        request.onblocked = () => console.warn(`[Persistence] Deleting ${name} is blocked by another open tab`);
+    });
+}
+
+export class PersistenceRepository {
+    private db: IDBDatabase | null = null;
+    private initPromise: Promise<void> | null = null;
+    private cache = new Map<StoreName, Map<string, unknown>>(STORE_NAMES.map(s => [s, new Map()]));
+    private pending: PendingOp[] = [];
+    private flushPromise: Promise<void> | null = null;
+
+    constructor(private dbName: string = DB_NAME) { }
+
+    get databaseName(): string {
+        return this.dbName;
+    }
+
+    /**
+     * Point the repository at another database. Only valid before init():
+     * stores and engines read the cache when their modules load.
+     */
+    selectDatabase(name: string): void {
+        if (this.initPromise) throw new Error('Cannot switch database after persistence has been initialized');
+        this.dbName = name;
+    }
+
+    /**
+     * Open the database and hydrate the cache. Safe to call repeatedly;
+     * never rejects - failures fall back to memory-only mode.
+     */
+    init(): Promise<void> {
+        if (!this.initPromise) this.initPromise = this.open();
+        return this.initPromise;
+    }
+
+    get isPersistent(): boolean {
+        return this.db !== null;
+    }
+
+    private async open(): Promise<void> {
+        if (typeof indexedDB === 'undefined') {
+            console.warn('[Persistence] IndexedDB unavailable, data will not persist');
+            this.hydrateFromLegacy();
+            return;
+        }
+
+        try {
+            this.db = await openDatabase(this.dbName);
+            const tx = this.db.transaction(STORE_NAMES, 'readonly');
+            await Promise.all(STORE_NAMES.map(async store => {
+                const objectStore = tx.objectStore(store);
+                const [keys, values] = await Promise.all([
+                    requestToPromise(objectStore.getAllKeys()),
+                    requestToPromise(objectStore.getAll())
+                ]);
+                const records = this.cache.get(store)!;
+                keys.forEach((key, i) => records.set(String(key), values[i]));
+            }));
+            this.db.onversionchange = () => {
+                this.db?.close();
+                this.db = null;
+                console.warn('[Persistence] Database upgraded in another tab, reload to continue saving');
+            };
+        } catch (e) {
+            console.warn('[Persistence] Failed to open IndexedDB, data will not persist:', e);
+            this.db = null;
+            this.hydrateFromLegacy();
+        }
+    }
+
+    private hydrateFromLegacy(): void {
+        if (this.dbName !== DB_NAME) return;
+        const legacy = readLegacyStorage();
+        for (const store of STORE_NAMES) {
+            const keyOf = STORE_KEYS[store] as (record: unknown) => string;
+            const records = this.cache.get(store)!;
+            for (const record of legacy.records[store] ?? []) records.set(keyOf(record), record);
+        }
+    }
+
+    // ========================================================================
+    // RECORD STORES
+    // ========================================================================
+
+    // Shallow copies, so callers can edit records without touching the cache
+    getAll<K extends StoreName>(store: K): StoreRecordMap[K][] {
+        return [...this.cache.get(store)!.values()].map(r => ({ ...(r as object) }) as StoreRecordMap[K]);
+    }
+
+    get<K extends StoreName>(store: K, key: string): StoreRecordMap[K] | undefined {
+        const record = this.cache.get(store)!.get(key);
+        return record ? ({ ...(record as object) } as StoreRecordMap[K]) : undefined;
+    }
+
+    put<K extends StoreName>(store: K, record: StoreRecordMap[K]): void {
+        this.putMany(store, [record]);
+    }
+
+    putMany<K extends StoreName>(store: K, records: StoreRecordMap[K][]): void {
+        const keyOf = STORE_KEYS[store] as (record: StoreRecordMap[K]) => string;
+        const cached = this.cache.get(store)!;
+        for (const record of records) {
+            const key = keyOf(record);
+            cached.set(key, record);
+            this.enqueue({ type: 'put', store, key, value: record });
+        }
+    }
+
+    delete(store: StoreName, key: string): void {
+        this.cache.get(store)!.delete(key);
+        this.enqueue({ type: 'delete', store, key });
+    }
+
+    clear(store: StoreName): void {
+        this.cache.get(store)!.clear();
+        this.enqueue({ type: 'clear', store });
+    }
+
+    replaceAll<K extends StoreName>(store: K, records: StoreRecordMap[K][]): void {
+        this.clear(store);
+        this.putMany(store, records);
+    }
+
+    // ========================================================================
+    // APP STATE VALUES
+    // ========================================================================
+
+    getValue<K extends AppStateKey>(key: K): AppStateValues[K] | undefined {
+        const entry = this.cache.get('app_state')!.get(key) as AppStateEntry<K> | undefined;
+        return entry?.value;
+    }
+
+    setValue<K extends AppStateKey>(key: K, value: AppStateValues[K]): void {
+        this.put('app_state', { key, value } as AppStateEntry);
+    }
+
+    deleteValue(key: AppStateKey): void {
+        this.delete('app_state', key);
+    }
+
+    // ========================================================================
+    // WRITE-BEHIND
+    // ========================================================================
+
+    private enqueue(op: PendingOp): void {
+        if (!this.db) return;
+        this.pending.push(op);
+        if (!this.flushPromise) {
+            this.flushPromise = Promise.resolve().then(() => this.writePending());
+        }
+    }
+
+    /**
+     * Resolves once every write made so far has been committed.
+     */
+    async flush(): Promise<void> {
+        while (this.flushPromise) await this.flushPromise;
+    }
+
+    private writePending(): Promise<void> {
+        const ops = this.pending;
+        this.pending = [];
+        const db = this.db;
+        if (!db || ops.length === 0) {
+            this.flushPromise = null;
+            return Promise.resolve();
+        }
+
+        return new Promise<void>(resolve => {
+            const finish = () => {
+                this.flushPromise = this.pending.length > 0
+                    ? Promise.resolve().then(() => this.writePending())
+                    : null;
+                resolve();
+            };
+
+            let tx: IDBTransaction | null = null;
+            try {
+                tx = db.transaction([...new Set(ops.map(op => op.store))], 'readwrite');
+                tx.oncomplete = finish;
+                tx.onabort = () => {
+                    console.warn('[Persistence] Write failed:', tx?.error);
+                    finish();
+                };
+                for (const op of ops) {
+                    const objectStore = tx.objectStore(op.store);
+                    if (op.type === 'put') objectStore.put(op.value, op.key);
+                    else if (op.type === 'delete') objectStore.delete(op.key);
+                    else objectStore.clear();
+                }
+            } catch (e) {
+                // e.g. DataCloneError - roll back the whole batch
+                console.warn('[Persistence] Write failed:', e);
+                if (tx) tx.abort(); else finish();
+            }
+        });
+    }
+}
+
+// Singleton instance
+export const persistence = new PersistenceRepository();
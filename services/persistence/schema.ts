@@ -0,0 +1,96 @@
+/**
+ * PERSISTENCE SCHEMA - Object stores and versioned migrations
+ *
+ * To change the schema, append a migration with the next version number.
+ * Never edit a migration that has shipped: databases already past its
+ * version will not run it again.
+ */
+
+import { SchemaMigration, StoreName, StoreRecordMap } from './types';
+import { readLegacyStorage, clearLegacyStorage, LEGACY_KEYS } from './legacyImport';
+
+export const DB_NAME = 'sentient';
+
+// Primary key of each store. Keys are kept out-of-line so records stay
+// plain domain objects.
+export const STORE_KEYS: { [K in StoreName]: (record: StoreRecordMap[K]) => string } = {
+    history_points: dp => String(dp.timestamp),
+    action_outcomes: o => o.command_id,
+    action_status: a => a.id,
+    personal_records: pr => pr.id,
+    load_history: l => l.source_id ?? l.date,
+    biomarker_readings: r => `${r.biomarker_id}:${r.date}`,
+    decision_log: d => String(d.timestamp),
+    app_state: entry => entry.key
+};
+
+export const STORE_NAMES = Object.keys(STORE_KEYS) as StoreName[];
+
+export const MIGRATIONS: SchemaMigration[] = [
+    {
+        version: 1,
+        description: 'Create object stores',
+        upgrade: ({ db }) => {
+            for (const store of ['history_points', 'action_outcomes', 'action_status', 'personal_records', 'load_history', 'app_state']) {
+                if (!db.objectStoreNames.contains(store)) db.createObjectStore(store);
+            }
+        }
+    },
+    {
+        version: 2,
+        description: 'Import localStorage data',
+        upgrade: ({ transaction, primary, afterCommit }) => {
+            // Athlete databases created later start empty
+            if (!primary) return;
+            const legacy = readLegacyStorage();
+            if (legacy.keys.length === 0) return;
+
+            for (const store of Object.keys(legacy.records) as StoreName[]) {
+                const keyOf = STORE_KEYS[store] as (record: unknown) => string;
+                const objectStore = transaction.objectStore(store);
+                for (const record of legacy.records[store] ?? []) {
+                    objectStore.put(record, keyOf(record));
+                }
+            }
+            transaction.objectStore('app_state').put(
+                { key: 'legacy_import', value: { imported_at: Date.now(), keys: legacy.keys } },
+                'legacy_import'
+            );
+            afterCommit(() => clearLegacyStorage(legacy.keys));
+        }
+    },
+    {
+        version: 3,
+        description: 'Add biomarker readings store',
+        upgrade: ({ db }) => {
+            if (!db.objectStoreNames.contains('biomarker_readings')) db.createObjectStore('biomarker_readings');
+        }
+    },
+    {
+        version: 4,
+        description: 'Add decision log store',
+        upgrade: ({ db }) => {
+            if (!db.objectStoreNames.contains('decision_log')) db.createObjectStore('decision_log');
+        }
+    },
+    {
+        version: 5,
+        description: 'Import suggestion learning state from localStorage',
+        upgrade: ({ transaction, primary, afterCommit }) => {
+            if (!primary) return;
+            const entry = readLegacyStorage().records.app_state?.find(e => e.key === 'suggestion_learning');
+            if (!entry) return;
+            transaction.objectStore('app_state').put(entry, entry.key);
+            afterCommit(() => clearLegacyStorage([LEGACY_KEYS.suggestionLearning]));
+        }
+    },
+    {
+        version: 6,
+        description: 'Clear decisions traced from the orchestrator instead of the commander',
+        upgrade: ({ transaction }) => {
+            transaction.objectStore('decision_log').clear();
+        }
+    }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
@@ -0,0 +1,106 @@
+/**
+ * PERSISTENCE TYPES - Object stores, app-state values and migrations
+ */
+
+import type { GlobalState } from '../../types';
+import type { HistoricalDataPoint, ActionOutcome } from '../history/types';
+import type { ActionStatus } from '../ActionSyncService';
+import type { WeeklyReminder } from '../WeeklyReminderService';
+import type { PersonalRecord } from '../../features/performance/types/prTypes';
+import type { AthleteLoadMethod, DailyLoad } from '../../types/load-management';
+import type { BiomarkerReading } from '../../types/biomarkers';
+import type { LabReviewItem } from '../../types/lab-import';
+import type { LLMSettings } from '../../types/llm';
+import type { RRRecording } from '../../types/rr-import';
+import type { DecisionRecord } from '../../types/decision-audit';
+import type { TeamRoster } from '../../types/team';
+import type { SliceStamp, SyncChange, SyncSettings, SyncSlice } from '../../types/state-sync';
+import type { NotificationLog, NotificationSettings } from '../../types/notifications';
+import type { UserCognitiveProfile } from '../../experts/mental/CognitiveTestDatabase';
+import type { AgentLearningState } from '../../features/performance/types/prTypes';
+import type {
+    WearableConflictPolicy,
+    WearableConnection,
+    WearableLedgerEntry
+} from '../../types/wearables';
+
+// Record type held by each object store
+export interface StoreRecordMap {
+    history_points: HistoricalDataPoint;
+    action_outcomes: ActionOutcome;
+    action_status: ActionStatus;
+    personal_records: PersonalRecord;
+    load_history: DailyLoad;
+    biomarker_readings: BiomarkerReading;
+    decision_log: DecisionRecord;
+    app_state: AppStateEntry;
+}
+
+export type StoreName = keyof StoreRecordMap;
+
+// Singleton values kept in the app_state store, one row per key
+export interface AppStateValues {
+    global_state: Partial<GlobalState>;
+    launched: boolean;
+    history_meta: HistoryMeta;
+    weekly_reminders: WeeklyReminder[];
+    wearable_connections: Record<string, WearableConnection>;
+    wearable_ledger: Record<string, WearableLedgerEntry>;
+    wearable_conflict_policy: WearableConflictPolicy;
+    lab_review_queue: LabReviewItem[];
+    rr_recordings: RRRecording[];
+    llm_settings: LLMSettings;
+    legacy_import: LegacyImportRecord;
+    suggestion_learning: AgentLearningState;
+    team_roster: TeamRoster;      // Team directory database only
+    sync_settings: SyncSettings;
+    sync_outbox: SyncChange[];    // Changes not yet pushed to the remote
+    sync_stamps: Partial<Record<SyncSlice, SliceStamp>>;
+    sync_cursor: string | null;
+    notification_settings: NotificationSettings;
+    notification_log: NotificationLog;
+    supplement_stack: string[];   // Supplement ids (SUPPLEMENT_DATABASE)
+    cognitive_profile: UserCognitiveProfile;
+    load_method: AthleteLoadMethod;
+}
+
+export type AppStateKey = keyof AppStateValues;
+
+export interface AppStateEntry<K extends AppStateKey = AppStateKey> {
+    key: K;
+    value: AppStateValues[K];
+}
+
+export interface HistoryMeta {
+    firstSeen: number;
+    lastUpdated: number;
+    totalDays: number;
+}
+
+export interface LegacyImportRecord {
+    imported_at: number;
+    keys: string[];               // localStorage keys that held data
+}
+
+// Everything read from the pre-IndexedDB localStorage keys
+export interface LegacySnapshot {
+    records: { [K in StoreName]?: StoreRecordMap[K][] };
+    keys: string[];
+}
+
+export interface MigrationContext {
+    db: IDBDatabase;
+    transaction: IDBTransaction;
+    primary: boolean;             // The original user's database (DB_NAME)
+    afterCommit: (callback: () => void) => void;
+}
+
+/**
+ * One schema step. Runs inside the versionchange transaction when the
+ * stored database is older than `version`; steps run in version order.
+ */
+export interface SchemaMigration {
+    version: number;
+    description: string;
+    upgrade: (context: MigrationContext) => void;
+}
@@ -0,0 +1,171 @@
+/**
+ * Redaction - Role-based views of sensitive athlete data
+ *
+ * Policies are declared per GlobalState path. Every place data leaves the
+ * athlete's own view applies the same policies:
+ * - GlobalSubscriber subscriptions with a non-user role
+ * - account bundles and CSV exports made for a coach
+ * - the squad dashboard, which reads other athletes' state as a coach
+ * - the app state itself while a coach has an athlete's database open
+ *
+ * A coach sees load, readiness and recovery, but not journal text, clinical
+ * sub-profiles, lab values or genetics unless the athlete consented to the
+ * category (user_profile.sharing_consent). Redacted strings are replaced by
+ * REDACTED, arrays are emptied and other values are removed. Only the
+ * branches that contain a redacted path are copied.
+ */
+
+import { GlobalState } from '../../types';
+import { DataRole, RedactionCategory, RedactionPolicy, RedactionSummary, SharingConsent } from '../../types/redaction';
+
+export const REDACTED = '[REDACTED]';
+
+export const REDACTION_POLICIES: RedactionPolicy[] = [
+    {
+        category: 'journal',
+        label: 'Journal entries',
+        description: 'Free-text journal and reflections',
+        paths: ['mindspace.journal_last_entry'],
+        hidden_from: ['coach'],
+        consentable: true
+    },
+    {
+        category: 'clinical',
+        label: 'Clinical profiles',
+        description: 'PCOS and T1D sub-profiles and diagnosed conditions',
+        paths: [
+            'user_profile.pcos_profile',
+            'user_profile.t1d_profile',
+            'user_profile.clinical.conditions',
+            'user_profile.clinical.insulin_sensitivity_factor',
+            'fuel.pcos_profile',
+            'fuel.t1d_profile'
+        ],
+        hidden_from: ['coach'],
+        consentable: true
+    },
+    {
+        category: 'medical',
+        label: 'Medical biomarkers',
+        description: 'Lab results, blood markers, CGM glucose, ketones and medical notes',
+        paths: [
+            'medical.biomarkers',
+            'medical.notes',
+            'medical.ferritin',
+            'medical.vitamin_D',
+            'medical.ck_level',
+            'medical.il6_level',
+            'medical.cortisol_waking',
+            'medical.cortisol_30min',
+            'medical.tsh_level',
+            'medical.systolic_bp',
+            'medical.glucose_mgdl',
+            'medical.glucose_trend',
+            'medical.ketones_mmol'
+        ],
+        hidden_from: ['coach'],
+        consentable: true
+    },
+    {
+        category: 'genetics',
+        label: 'Genetic profile',
+        description: 'Genotype-derived traits',
+        paths: ['user_profile.genetic_profile'],
+        hidden_from: ['coach'],
+        consentable: true
+    }
+];
+
+export function isCategoryVisible(category: RedactionCategory, role: DataRole, consent: SharingConsent = {}): boolean {
+    const policy = REDACTION_POLICIES.find(p => p.category === category);
+    if (!policy || !policy.hidden_from.includes(role)) return true;
+    return policy.consentable && consent[category] === true;
+}
+
+export function summarizeRedaction(role: DataRole, consent: SharingConsent = {}): RedactionSummary {
+    const restricted = REDACTION_POLICIES.filter(p => p.hidden_from.includes(role));
+    return {
+        role,
+        hidden: restricted.filter(p => !isCategoryVisible(p.category, role, consent)).map(p => p.category),
+        shared_by_consent: restricted.filter(p => isCategoryVisible(p.category, role, consent)).map(p => p.category)
+    };
+}
+
+const maskValue = (value: unknown): unknown => {
+    if (typeof value === 'string') return REDACTED;
+    if (Array.isArray(value)) return [];
+    return undefined;
+};
+
+// Copy-on-write removal of one path; untouched branches keep their identity
+const redactPath = (node: any, segments: string[]): any => {
+    if (node === null || typeof node !== 'object') return node;
+    const [key, ...rest] = segments;
+    if (!(key in node)) return node;
+
+    const copy = Array.isArray(node) ? [...node] : { ...node };
+    if (rest.length === 0) {
+        const masked = maskValue(node[key]);
+        if (masked === undefined) delete copy[key];
+        else copy[key] = masked;
+    } else {
+        copy[key] = redactPath(node[key], rest);
+    }
+    return copy;
+};
+
+/**
+ * The state as `role` may see it. Consent defaults to the athlete's own
+ * sharing settings in the state being redacted.
+ */
+export function redactState<T extends Partial<GlobalState>>(
+    state: T,
+    role: DataRole,
+    consent: SharingConsent = state.user_profile?.sharing_consent ?? {}
+): T {
+    const { hidden } = summarizeRedaction(role, consent);
+    if (hidden.length === 0) return state;
+
+    return REDACTION_POLICIES
+        .filter(p => hidden.includes(p.category))
+        .flatMap(p => p.paths)
+        .reduce((current, path) => redactPath(current, path.split('.')), state);
+}
+
+// Copy-on-write: `node` with one path set back to its value in `source`
+const restorePath = (node: any, source: any, segments: string[]): any => {
+    if (node === null || typeof node !== 'object') return node;
+    const [key, ...rest] = segments;
+    const original = source?.[key];
+    if (node[key] === original) return node;
+
+    const copy = Array.isArray(node) ? [...node] : { ...node };
+    if (rest.length > 0 && original !== null && typeof original === 'object') {
+        copy[key] = restorePath(node[key] ?? {}, original, rest);
+    } else if (original === undefined) {
+        delete copy[key];
+    } else {
+        copy[key] = original;
+    }
+    return copy;
+};
+
+/**
+ * `next` with every path hidden from `role` put back as it was in
+ * `previous`: a view that cannot see a value cannot change it either, so
+ * redacted placeholders written back from that view never reach the data.
+ */
+export function restoreRedacted<T extends Partial<GlobalState>>(
+    next: T,
+    previous: T,
+    role: DataRole,
+    consent: SharingConsent = previous.user_profile?.sharing_consent ?? {}
+): T {
+    const { hidden } = summarizeRedaction(role, consent);
+    if (hidden.length === 0 || next === previous) return next;
+
+    return REDACTION_POLICIES
+        .filter(p => hidden.includes(p.category))
+        .flatMap(p => p.paths)
+        .reduce((current, path) => restorePath(current, previous, path.split('.')), next);
+}
@@ -0,0 +1,76 @@
+/**
+ * Provenance - Is an insight backed by the athlete's own data?
+ *
+ * Engines describe what they ran on (real days used, the window they are
+ * designed for, whether generated data filled in) and assessProvenance()
+ * turns that into a level. Cards badge partial / insufficient insights and
+ * hide synthetic ones outside Demo Mode.
+ */
+
+import { GlobalState } from '../types';
+import { DataProvenance, ProvenanceLevel } from '../types/provenance';
+import { clock } from './clock';
+import { snapshotCoverage } from './engineRegistry';
+
+export const PROVENANCE_LABELS: Record<ProvenanceLevel, string> = {
+    real: 'Your data',
+    partial: 'Partial data',
+    synthetic: 'Sample data',
+    insufficient: 'Not enough data'
+};
+
+// Most to least trustworthy; combining keeps the weakest
+const LEVEL_ORDER: ProvenanceLevel[] = ['real', 'partial', 'insufficient', 'synthetic'];
+
+export function assessProvenance(input: {
+    real_days: number;
+    expected_days: number;
+    min_days?: number;
+    synthetic?: boolean;
+}): DataProvenance {
+    const { expected_days, min_days = 1, synthetic = false } = input;
+    const real_days = Math.max(0, Math.min(input.real_days, expected_days));
+    if (synthetic) return { level: 'synthetic', real_days: 0, expected_days };
+    if (real_days < min_days) return { level: 'insufficient', real_days, expected_days };
+    return { level: real_days < expected_days ? 'partial' : 'real', real_days, expected_days };
+}
+
+export function combineProvenance(...parts: DataProvenance[]): DataProvenance {
+    if (parts.length === 0) return { level: 'insufficient', real_days: 0, expected_days: 0 };
+    const level = parts
+        .map(p => p.level)
+        .reduce((worst, l) => LEVEL_ORDER.indexOf(l) > LEVEL_ORDER.indexOf(worst) ? l : worst);
+    return {
+        level,
+        real_days: Math.min(...parts.map(p => p.real_days)),
+        expected_days: Math.max(...parts.map(p => p.expected_days))
+    };
+}
+
+/**
+ * Days from the earliest date in `dates` to today, capped at the window:
+ * the span of the athlete's own history an engine's window can draw on.
+ */
+export function daysSpanned(dates: string[], windowDays: number): number {
+    if (dates.length === 0) return 0;
+    const first = dates.reduce((a, b) => (a < b ? a : b));
+    const days = Math.floor((clock.nowMs() - new Date(`${first.slice(0, 10)}T00:00:00`).getTime()) / 86400000) + 1;
+    return Math.max(0, Math.min(days, windowDays));
+}
+
+// Engines that read GlobalState: backed by the days of app snapshots
+export function snapshotProvenance(min_days = 3): DataProvenance {
+    const { covered, expected } = snapshotCoverage();
+    return assessProvenance({ real_days: covered, expected_days: expected, min_days });
+}
+
+// Demo Mode replaces the athlete's state with sample data
+export const forState = (provenance: DataProvenance, state: GlobalState): DataProvenance =>
+    state.ui_config?.demo_mode ? { ...provenance, level: 'synthetic', real_days: 0 } : provenance;
+
+export const isOwnData = (provenance?: DataProvenance): boolean =>
+    !provenance || provenance.level === 'real' || provenance.level === 'partial';
+
+// Synthetic insights are only shown in Demo Mode
+export const shouldSuppress = (provenance: DataProvenance | undefined, demoMode = false): boolean =>
+    !!provenance && provenance.level === 'synthetic' && !demoMode;
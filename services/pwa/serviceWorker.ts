@@ -0,0 +1,55 @@
+/**
+ * Service Worker - Registration and background sync of queued changes
+ *
+ * Production builds only (see vite.config.ts). While state-sync changes
+ * wait for the network, a background sync is requested; the service worker
+ * then asks an open tab to flush, or replays the outbox itself (sw.js).
+ * Snooze taps on reminder notifications are passed back to the scheduler.
+ */
+
+import { stateSync } from '../sync/stateSync';
+import { notificationScheduler } from '../notifications/notificationScheduler';
+
+export const SYNC_TAG = 'sentient-sync-outbox';
+
+async function requestBackgroundSync(): Promise<void> {
+    try {
+        const registration: ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } } =
+            await navigator.serviceWorker.ready;
+        // Background Sync is not available in every browser; the online
+        // listener in stateSync still flushes when the tab is open
+        await registration.sync?.register(SYNC_TAG);
+    } catch (e) {
+        console.warn('[ServiceWorker] Background sync request failed:', e);
+    }
+}
+
+// From the service worker: a Snooze tap, or a request to flush the outbox and answer on the port
+function handleMessage(event: MessageEvent): void {
+    if (event.data?.type === 'NOTIFICATION_SNOOZE') {
+        if (event.data.id) notificationScheduler.snooze(event.data.id);
+        return;
+    }
+    if (event.data?.type !== 'SYNC_OUTBOX') return;
+    const port = event.ports[0];
+    stateSync.flush().then(() => {
+        const status = stateSync.getStatus();
+        const ok = status.pending === 0 || status.remote === null;
+        port?.postMessage(ok ? { ok } : { ok, error: status.last_error ?? status.state });
+    });
+}
+
+export function registerServiceWorker(): void {
+    if (!process.env.SERVICE_WORKER || typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch(e => {
+        console.warn('[ServiceWorker] Registration failed:', e);
+    });
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+
+    stateSync.onStatusChange(status => {
+        if (status.pending > 0 && (status.state === 'offline' || status.state === 'error')) {
+            requestBackgroundSync();
+        }
+    });
+}
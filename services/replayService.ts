@@ -0,0 +1,125 @@
+/**
+ * Replay Service - "What would the app have recommended then?"
+ *
+ * Rebuilds the state of a past moment from the history store and re-runs
+ * the orchestration with the clock pinned to that moment:
+ * - SentientLocalOrchestrator.runAll()
+ * - SentientOrchestrator.determineActiveCommand()
+ * - ExpertCouncil.convene()
+ *
+ * The day's metrics come from the newest app snapshot at or before the
+ * moment, enriched with imported metrics for that date. Profile, goals and
+ * medical data are today's: history does not version them. Nothing is
+ * persisted and app state is not touched.
+ */
+
+import { GlobalState, Session } from '../types';
+import { ReplayOptions, ReplayResult } from '../types/replay';
+import { HistoricalDataPoint } from './history/types';
+import { isSnapshot, loadHistory } from './history/historyStore';
+import { clock } from './clock';
+import { SentientLocalOrchestrator } from '../experts/orchestrator/sentientLocalOrchestrator';
+import { SentientOrchestrator } from '../experts/orchestrator/SentientOrchestrator';
+import { expertCouncil } from '../experts/orchestrator/ExpertCouncil';
+import { toDateKey } from '../experts/performance/loadHistoryStore';
+
+const DEFAULT_MAX_SNAPSHOT_AGE_HOURS = 36;
+
+// Session start on its own date, from time_of_day when set
+const sessionStart = (session: Session): number | undefined => {
+    if (!session.date) return undefined;
+    const day = session.date.slice(0, 10);
+    const time = session.time_of_day && /^\d{1,2}:\d{2}/.test(session.time_of_day)
+        ? session.time_of_day.padStart(5, '0').slice(0, 5)
+        : '12:00';
+    return new Date(`${day}T${time}:00`).getTime();
+};
+
+/**
+ * The state the orchestrators would have seen at `at`. Throws when history
+ * holds no snapshot close enough before it.
+ */
+export function rebuildStateAt(
+    current: GlobalState,
+    at: Date,
+    options: ReplayOptions = {}
+): { state: GlobalState; snapshot: HistoricalDataPoint; notes: string[] } {
+    const atMs = at.getTime();
+    const maxAgeMs = (options.max_snapshot_age_hours ?? DEFAULT_MAX_SNAPSHOT_AGE_HOURS) * 60 * 60 * 1000;
+    const points = loadHistory().dataPoints.filter(dp => dp.timestamp <= atMs);
+
+    const snapshot = [...points].reverse().find(isSnapshot);
+    if (!snapshot || atMs - snapshot.timestamp > maxAgeMs) {
+        throw new Error(`No app snapshot in the ${Math.round(maxAgeMs / 3600000)}h before ${at.toLocaleString()}`);
+    }
+
+    const notes: string[] = ['Profile, goals and medical data are as they are today'];
+    const date = toDateKey(at);
+    const imported = points.filter(dp => dp.date === date && !isSnapshot(dp));
+    const lastImported = <K extends keyof HistoricalDataPoint>(key: K) =>
+        [...imported].reverse().find(dp => dp[key] !== undefined)?.[key];
+
+    const state: GlobalState = JSON.parse(JSON.stringify(current));
+    state.simulation = { ...state.simulation, active: false };
+
+    state.mindspace.readiness_score = snapshot.readiness;
+    state.mindspace.stress = snapshot.stress;
+    state.mindspace.mood = snapshot.mood;
+    state.fuel.fuel_score = snapshot.fuel_score;
+
+    state.sleep.hrv = snapshot.hrv;
+    state.sleep.duration = snapshot.sleep_duration;
+    state.sleep.duration_hours = snapshot.sleep_duration;
+    state.sleep.efficiency = snapshot.sleep_efficiency;
+    state.sleep.sleep_debt = snapshot.sleep_debt;
+    const restingHr = lastImported('resting_hr');
+    if (restingHr !== undefined) state.sleep.resting_hr = restingHr;
+
+    state.recovery.recovery_score = snapshot.recovery_score;
+    const rmssd = lastImported('hrv_rmssd');
+    state.recovery.autonomic = {
+        rmssd: rmssd ?? snapshot.hrv,
+        tonic_vagal_tone: state.recovery.autonomic.tonic_vagal_tone,
+        car_blunted: state.recovery.autonomic.car_blunted,
+        parasympathetic_score: state.recovery.autonomic.parasympathetic_score
+    };
+
+    state.physical_load.acwr = snapshot.acwr;
+    state.physical_load.acute_load = snapshot.acute_load;
+    state.physical_load.chronic_load = snapshot.chronic_load;
+
+    // The day's sessions as planned; anything after the moment is not done yet
+    state.timeline.sessions = current.timeline.sessions
+        .filter(s => s.date?.slice(0, 10) === date)
+        .map(s => {
+            const start = sessionStart(s);
+            return start !== undefined && start > atMs ? { ...s, completed: false, feedback: undefined } : s;
+        });
+    if (state.timeline.sessions.length === 0) notes.push(`No dated sessions found for ${date}`);
+
+    // Meals are only kept for the current day
+    if (date !== toDateKey(new Date())) {
+        state.fuel.entries = [];
+        notes.push('Meal log for that day is not stored; fuel score comes from the snapshot');
+    }
+
+    return { state, snapshot, notes };
+}
+
+/**
+ * Re-run the orchestration as it would have run at `at`.
+ */
+export function replayAt(current: GlobalState, at: Date, options: ReplayOptions = {}): ReplayResult {
+    const { state, snapshot, notes } = rebuildStateAt(current, at, options);
+
+    return clock.runAt(at, () => ({
+        at: at.toISOString(),
+        snapshot,
+        snapshot_age_minutes: Math.round((at.getTime() - snapshot.timestamp) / 60000),
+        state,
+        local: new SentientLocalOrchestrator(state).runAll(),
+        active_command: SentientOrchestrator.determineActiveCommand(state, state.user_profile),
+        council: expertCouncil.convene(state, state.user_profile),
+        notes
+    }));
+}
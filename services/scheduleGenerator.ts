@@ -1,15 +1,150 @@
 
-import { ScheduleArchetype, Session } from "../types";
+import { PlanEdit, PlannedDay, ScheduleArchetype, Session, TrainingPlan } from "../types";
+import { IntensityLevel, Macrocycle, PlannedSession } from "../types/periodization";
+import { toDateKey } from "../experts/performance/loadHistoryStore";
+
+const PLANNED_RPE: Record<IntensityLevel, number> = {
+    easy: 3,
+    moderate: 5,
+    tempo: 6,
+    threshold: 7,
+    hard: 8,
+    max: 9
+};
+
+// Timeline sessions without a planned RPE; sRPE load needs one
+const INTENSITY_RPE: Record<Session['intensity'], number> = { low: 3, medium: 5, high: 7 };
+
+const addDays = (date: Date, days: number): Date => {
+    const d = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    d.setDate(d.getDate() + days);
+    return d;
+};
 
 export class ScheduleGenerator {
-    static generate(type: ScheduleArchetype): Session[][] {
+    static generate(type: ScheduleArchetype, days: number = 10): Session[][] {
         const schedule: Session[][] = [];
-        for (let i = 0; i < 10; i++) {
+        for (let i = 0; i < days; i++) {
             schedule.push(this.generateDay(i, type));
         }
         return schedule;
     }
 
+    // An archetype laid out over real dates from `start`
+    static archetypePlan(type: ScheduleArchetype, start: Date, days: number): TrainingPlan {
+        return {
+            name: type.toUpperCase(),
+            source: type,
+            days: this.generate(type, days).map((sessions, i) => ({ date: toDateKey(addDays(start, i)), sessions }))
+        };
+    }
+
+    /**
+     * Upcoming timeline sessions over `days` from `start`. Undated sessions
+     * are today's; interstitial and already completed ones are left out.
+     */
+    static timelinePlan(sessions: Session[], start: Date, days: number): TrainingPlan {
+        const plan = this.emptyPlan(start, days);
+        const byDate = new Map(plan.map(d => [d.date, d]));
+        const today = toDateKey(start);
+        for (const s of sessions) {
+            if (s.is_interstitial || s.completed) continue;
+            const day = byDate.get(s.date ? toDateKey(new Date(s.date)) : today);
+            day?.sessions.push({ ...s, rpe_planned: s.rpe_planned ?? INTENSITY_RPE[s.intensity] });
+        }
+        return { name: 'Timeline', source: 'timeline', days: plan };
+    }
+
+    // The periodization calendar's planned sessions over `days` from `start`
+    static macrocyclePlan(macrocycle: Macrocycle, start: Date, days: number): TrainingPlan {
+        const plan = this.emptyPlan(start, days);
+        const byDate = new Map(plan.map(d => [d.date, d]));
+        for (const meso of macrocycle.mesocycles) {
+            for (const micro of meso.microcycles) {
+                const weekStart = new Date(micro.start_date);
+                for (const planned of micro.sessions) {
+                    const date = toDateKey(addDays(weekStart, planned.day));
+                    byDate.get(date)?.sessions.push(this.fromPlannedSession(planned, date));
+                }
+            }
+        }
+        return { name: macrocycle.name, source: 'periodization', days: plan };
+    }
+
+    /**
+     * The plan with a variant's edits applied in order. Edits naming a
+     * session or date outside the plan are skipped.
+     */
+    static applyEdits(plan: TrainingPlan, edits: PlanEdit[]): TrainingPlan {
+        const days: PlannedDay[] = plan.days.map(d => ({ date: d.date, sessions: d.sessions.map(s => ({ ...s })) }));
+        const byDate = new Map(days.map(d => [d.date, d]));
+        const find = (id: string) => {
+            const day = days.find(d => d.sessions.some(s => s.id === id));
+            return day ? { day, session: day.sessions.find(s => s.id === id)! } : null;
+        };
+
+        for (const edit of edits) {
+            if (edit.kind === 'deload') {
+                const start = new Date(`${edit.start_date}T00:00:00`);
+                for (let i = 0; i < edit.days; i++) {
+                    byDate.get(toDateKey(addDays(start, i)))?.sessions.forEach(s => {
+                        s.duration_minutes = Math.round(s.duration_minutes * edit.factor);
+                    });
+                }
+                continue;
+            }
+            const found = find(edit.session_id);
+            if (!found) continue;
+            if (edit.kind === 'remove_session') {
+                found.day.sessions = found.day.sessions.filter(s => s !== found.session);
+                continue;
+            }
+            const target = byDate.get(edit.to_date);
+            if (!target) continue;
+            if (edit.kind === 'move_session') {
+                found.day.sessions = found.day.sessions.filter(s => s !== found.session);
+                target.sessions.push({ ...found.session, date: this.onDate(found.session.date, edit.to_date) });
+            } else {
+                target.sessions.push({
+                    ...found.session,
+                    id: `${found.session.id}-copy-${edit.to_date}`,
+                    date: this.onDate(found.session.date, edit.to_date)
+                });
+            }
+        }
+        return { ...plan, days };
+    }
+
+    // Same time of day on another date
+    private static onDate(iso: string | undefined, date: string): string {
+        const time = iso && iso.includes('T') ? iso.slice(iso.indexOf('T')) : 'T09:00:00';
+        return `${date}${time}`;
+    }
+
+    private static emptyPlan(start: Date, days: number): PlannedDay[] {
+        return Array.from({ length: days }, (_, i) => ({ date: toDateKey(addDays(start, i)), sessions: [] }));
+    }
+
+    private static fromPlannedSession(planned: PlannedSession, date: string): Session {
+        const rpe = PLANNED_RPE[planned.intensity];
+        return {
+            id: `plan-${planned.id}-${date}`,
+            date: `${date}T09:00:00`,
+            type: planned.type === 'strength' ? 'strength'
+                : planned.type === 'sprint' ? 'sprint'
+                    : planned.type === 'recovery' ? 'recovery' : 'sport',
+            title: planned.name,
+            description: planned.description,
+            intensity: rpe >= 7 ? 'high' : rpe >= 4 ? 'medium' : 'low',
+            duration_minutes: planned.duration_min,
+            rpe_planned: rpe,
+            mandatory: planned.key_workout,
+            completed: false,
+            time_of_day: '09:00',
+            sequence_block: 'morning'
+        };
+    }
+
     private static generateDay(day: number, type: ScheduleArchetype): Session[] {
         const sessions: Session[] = [];
         const isRest = type === 'shock' ? day % 4 === 3 : day % 3 === 2;
@@ -25,7 +160,7 @@ export class ScheduleGenerator {
 
     private static createSession(day: number, type: any, title: string, desc: string, intensity: any, time: string): Session {
         return {
-            id: `sim-day-${day}-${Math.random()}`,
+            id: `sim-day-${day}-${time}`,
             type,
             title,
             description: desc,
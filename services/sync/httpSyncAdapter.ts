@@ -0,0 +1,51 @@
+/**
+ * HTTP Sync Adapter - Change log over plain HTTP
+ *
+ * Speaks the protocol of scripts/sync-server.mjs, the local stand-in for a
+ * cloud sync service. Each database has its own log:
+ *   POST {base}/db/{database}/changes          body { changes }   -> { cursor }
+ *   GET  {base}/db/{database}/changes?since=c                     -> { changes, cursor }
+ * The service worker's background sync (sw.js, flushDatabase) pushes to the
+ * same path; change both together.
+ */
+
+import { RemotePullResult, RemoteSyncAdapter, SyncChange } from '../../types/state-sync';
+
+export class HttpSyncAdapter implements RemoteSyncAdapter {
+    readonly id = 'http';
+    readonly name: string;
+
+    private readonly changesPath: string;
+
+    constructor(private baseUrl: string, database: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.changesPath = `/db/${encodeURIComponent(database)}/changes`;
+        this.name = `HTTP (${this.baseUrl})`;
+    }
+
+    async push(changes: SyncChange[]): Promise<void> {
+        if (changes.length === 0) return;
+        await this.request(this.changesPath, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ changes })
+        });
+    }
+
+    async pull(cursor: string | null): Promise<RemotePullResult> {
+        const query = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+        const body = await this.request(this.changesPath + query);
+        if (!Array.isArray(body?.changes) || typeof body.cursor !== 'string') {
+            throw new Error('Sync server returned an unexpected response');
+        }
+        return { changes: body.changes, cursor: body.cursor };
+    }
+
+    private async request(path: string, init?: RequestInit): Promise<any> {
+        const response = await fetch(this.baseUrl + path, init);
+        if (!response.ok) {
+            throw new Error(`Sync server responded ${response.status} ${response.statusText}`.trim());
+        }
+        return response.json();
+    }
+}
@@ -0,0 +1,7 @@
+/**
+ * Sync - GlobalState shared across tabs and devices
+ */
+
+export { stateSync, StateSyncService } from './stateSync';
+export { HttpSyncAdapter } from './httpSyncAdapter';
+export { SLICE_POLICIES, mergeChange, outcomesToApply, statusesToApply, isNewer, isShared } from './mergePolicies';
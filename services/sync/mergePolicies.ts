@@ -0,0 +1,121 @@
+/**
+ * Merge Policies - How each GlobalState slice converges across replicas
+ *
+ * Every shared slice carries a stamp (write time + replica). Last-writer-wins
+ * slices take the newer copy whole. Append-merge slices take the newer copy
+ * too, but their keyed lists are unioned so meals logged on two devices are
+ * both kept. Unioning means a deleted item comes back if another replica
+ * still has it, which is why only append-only lists are merged this way.
+ */
+
+import { GlobalState } from '../../types';
+import { ActionOutcome } from '../history/types';
+import { ActionStatus } from '../ActionSyncService';
+import { SlicePolicy, SliceStamp, SyncChange, SyncSlice } from '../../types/state-sync';
+
+const LWW: SlicePolicy = { strategy: 'last_writer_wins' };
+const LOCAL: SlicePolicy = { strategy: 'local_only' };
+
+export const SLICE_POLICIES: Record<SyncSlice, SlicePolicy> = {
+    user_profile: LWW,
+    sleep: LWW,
+    recovery: LWW,
+    fuel: { strategy: 'append_merge', lists: [{ field: 'entries', key: 'id' }] },
+    mindspace: LWW,
+    physical_load: LWW,
+    timeline: LWW,
+    environment: LWW,
+    medical: LWW,
+    performance: { strategy: 'append_merge', lists: [{ field: 'history', key: 'date' }] },
+    simulation: LWW,
+    learning: LWW,
+    communication: LWW,
+    // Recomputed by every replica's orchestrator
+    orchestrator: LOCAL,
+    last_sentient_output: LOCAL,
+    // View state, and Demo Mode must not leak sample data to other tabs
+    active_tab: LOCAL,
+    ui_config: LOCAL
+};
+
+export const isShared = (slice: string): slice is SyncSlice =>
+    slice in SLICE_POLICIES && SLICE_POLICIES[slice as SyncSlice].strategy !== 'local_only';
+
+// Total order on stamps; the replica id breaks ties so all replicas agree
+export const isNewer = (incoming: SliceStamp | undefined, local: SliceStamp | undefined): boolean => {
+    if (!incoming) return false;
+    if (!local) return true;
+    if (incoming.at !== local.at) return incoming.at > local.at;
+    return incoming.origin > local.origin;
+};
+
+function unionBy(base: any[] = [], other: any[] = [], key: string): any[] {
+    const seen = new Set(base.map(item => item?.[key]));
+    return [...base, ...other.filter(item => !seen.has(item?.[key]))];
+}
+
+function mergeSlice(policy: SlicePolicy, local: any, incoming: any, incomingWins: boolean): any {
+    const base = incomingWins ? incoming : local;
+    if (policy.strategy !== 'append_merge' || !local || !incoming) return base;
+
+    const other = incomingWins ? local : incoming;
+    const merged = { ...base };
+    for (const { field, key } of policy.lists ?? []) {
+        merged[field] = unionBy(base[field], other[field], key);
+    }
+    return merged;
+}
+
+export interface MergeResult {
+    patch: Partial<GlobalState>;
+    stamps: Partial<Record<SyncSlice, SliceStamp>>;
+}
+
+/**
+ * Merge a change from another replica into local state. The patch holds
+ * only slices that differ from local; stamps are the new local stamps.
+ */
+export function mergeChange(
+    local: GlobalState,
+    localStamps: Partial<Record<SyncSlice, SliceStamp>>,
+    change: SyncChange
+): MergeResult {
+    const patch: Partial<GlobalState> = {};
+    const stamps = { ...localStamps };
+
+    for (const slice of Object.keys(change.slices) as SyncSlice[]) {
+        if (!isShared(slice)) continue;
+        const policy = SLICE_POLICIES[slice];
+        const incomingWins = isNewer(change.stamps[slice], localStamps[slice]);
+        if (!incomingWins && policy.strategy === 'last_writer_wins') continue;
+
+        const merged = mergeSlice(policy, local[slice], change.slices[slice], incomingWins);
+        if (incomingWins) stamps[slice] = change.stamps[slice];
+        if (JSON.stringify(merged) !== JSON.stringify(local[slice])) {
+            (patch as any)[slice] = merged;
+        }
+    }
+
+    return { patch, stamps };
+}
+
+// Incoming outcomes to store: append-merged by command id, where a
+// completed copy replaces an open one
+export function outcomesToApply(local: ActionOutcome[], incoming: ActionOutcome[]): ActionOutcome[] {
+    const byId = new Map(local.map(o => [o.command_id, o]));
+    return incoming.filter(o => {
+        const existing = byId.get(o.command_id);
+        return !existing || (!existing.completed_at && !!o.completed_at);
+    });
+}
+
+const statusTime = (a: ActionStatus) => Math.max(a.completedAt ?? 0, a.skippedAt ?? 0);
+
+// Incoming action statuses to store: by id, the later completion or skip
+export function statusesToApply(local: ActionStatus[], incoming: ActionStatus[]): ActionStatus[] {
+    const byId = new Map(local.map(a => [a.id, a]));
+    return incoming.filter(a => {
+        const existing = byId.get(a.id);
+        return !existing || statusTime(a) > statusTime(existing);
+    });
+}
@@ -0,0 +1,333 @@
+/**
+ * State Sync - GlobalState shared across tabs and devices
+ *
+ * The host that owns GlobalState (SentientContext, or a GlobalSubscriber)
+ * attaches itself and reports the slices it changed. Each change is stamped
+ * per slice and:
+ * - posted to other open tabs of the same database over a BroadcastChannel,
+ *   so two tabs no longer overwrite each other's saved state;
+ * - queued in an outbox for the remote sync adapter, when one is set, and
+ *   pushed once online, to this database's own log on the remote. The
+ *   remote is polled for other devices' changes.
+ *
+ * Incoming changes are merged per slice (see mergePolicies) and handed to
+ * the host as a patch. Action outcomes and statuses (completions, skips)
+ * travel with changes and are append-merged into their stores.
+ */
+
+import { GlobalState } from '../../types';
+import {
+    RemoteSyncAdapter,
+    SliceStamp,
+    SyncChange,
+    SyncRecords,
+    SyncSettings,
+    SyncSlice,
+    SyncStatus
+} from '../../types/state-sync';
+import { persistence } from '../persistence/repository';
+import { isShared, mergeChange, outcomesToApply, statusesToApply } from './mergePolicies';
+import { HttpSyncAdapter } from './httpSyncAdapter';
+
+const PULL_INTERVAL_MS = 30_000;
+const MAX_OUTBOX = 500;
+
+type SyncListener = (patch: Partial<GlobalState>, change: SyncChange) => void;
+
+interface SyncHost {
+    getState: () => GlobalState;
+    apply: SyncListener;
+}
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+const errorMessage = (err: unknown): string =>
+    err instanceof Error ? err.message : String(err);
+
+export class StateSyncService {
+    // One replica per page load: two tabs are two replicas
+    readonly origin = `r_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+    private seq = 0;
+    private host: SyncHost | null = null;
+    private channel: BroadcastChannel | null = null;
+    private adapter: RemoteSyncAdapter | null = null;
+    private stamps: Partial<Record<SyncSlice, SliceStamp>>;
+    private outbox: SyncChange[];
+    private flushing: Promise<void> | null = null;
+    private pullTimer: ReturnType<typeof setInterval> | null = null;
+    private statusListeners = new Set<(status: SyncStatus) => void>();
+    private recordListeners = new Set<(records: SyncRecords) => void>();
+    private status: SyncStatus = {
+        state: 'idle',
+        remote: null,
+        pending: 0,
+        last_push: null,
+        last_pull: null,
+        last_error: null
+    };
+
+    constructor() {
+        this.stamps = { ...persistence.getValue('sync_stamps') };
+        this.outbox = [...(persistence.getValue('sync_outbox') ?? [])];
+        this.status.pending = this.outbox.length;
+
+        if (typeof BroadcastChannel !== 'undefined') {
+            // Per database: team-mode athletes never merge into each other
+            this.channel = new BroadcastChannel(`sentient_state:${persistence.databaseName}`);
+            this.channel.onmessage = event => this.receive(event.data as SyncChange);
+        }
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => this.flush());
+        }
+
+        const url = this.getSettings().remote_url;
+        if (url) this.setAdapter(new HttpSyncAdapter(url, persistence.databaseName));
+    }
+
+    // ========================================================================
+    // HOST
+    // ========================================================================
+
+    /**
+     * Attach the owner of GlobalState. Only one host per tab: a second
+     * attach replaces the first.
+     */
+    attach(getState: () => GlobalState, apply: SyncListener): () => void {
+        if (this.host) console.warn('[StateSync] Host attached again; replacing the previous host');
+        const host = { getState, apply };
+        this.host = host;
+        return () => {
+            if (this.host === host) this.host = null;
+        };
+    }
+
+    /**
+     * Share slices the host changed, and store records written locally.
+     * Local-only slices are dropped; nothing is sent when nothing remains.
+     */
+    recordLocal(changes: Partial<GlobalState>, records: SyncRecords = {}): SyncChange | null {
+        const slices: Partial<GlobalState> = {};
+        const stamps: Partial<Record<SyncSlice, SliceStamp>> = {};
+        const at = Date.now();
+        for (const [slice, value] of Object.entries(changes)) {
+            if (!isShared(slice) || value === undefined) continue;
+            (slices as any)[slice] = value;
+            stamps[slice] = { at, origin: this.origin };
+        }
+        const hasRecords = !!(records.outcomes?.length || records.action_statuses?.length);
+        if (Object.keys(slices).length === 0 && !hasRecords) return null;
+
+        this.stamps = { ...this.stamps, ...stamps };
+        persistence.setValue('sync_stamps', this.stamps);
+
+        const change: SyncChange = JSON.parse(JSON.stringify({
+            id: `${this.origin}:${++this.seq}`,
+            origin: this.origin,
+            created_at: at,
+            slices,
+            stamps,
+            ...(hasRecords ? { records } : {})
+        }));
+
+        try {
+            this.channel?.postMessage(change);
+        } catch (e) {
+            console.warn('[StateSync] Broadcast to other tabs failed:', e);
+        }
+        if (this.adapter) {
+            this.enqueue([change]);
+            this.flush();
+        }
+        return change;
+    }
+
+    /**
+     * Merge a change from another tab or device into the host's state.
+     * Returns whether anything changed locally.
+     */
+    receive(change: SyncChange): boolean {
+        if (!change || change.origin === this.origin) return false;
+
+        const applied = this.applyRecords(change.records ?? {});
+
+        if (!this.host) return applied;
+        const { patch, stamps } = mergeChange(this.host.getState(), this.stamps, change);
+        this.stamps = stamps;
+        persistence.setValue('sync_stamps', this.stamps);
+
+        const changed = Object.keys(patch).length > 0 || applied;
+        if (changed) {
+            try {
+                this.host.apply(patch, change);
+            } catch (e) {
+                console.error('[StateSync] Applying a synced change failed:', e);
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Listen for records merged from elsewhere, for stores that keep an
+     * in-memory copy (ActionSyncService)
+     */
+    onRecordsApplied(listener: (records: SyncRecords) => void): () => void {
+        this.recordListeners.add(listener);
+        return () => {
+            this.recordListeners.delete(listener);
+        };
+    }
+
+    private applyRecords(records: SyncRecords): boolean {
+        const applied: SyncRecords = {
+            outcomes: outcomesToApply(persistence.getAll('action_outcomes'), records.outcomes ?? []),
+            action_statuses: statusesToApply(persistence.getAll('action_status'), records.action_statuses ?? [])
+        };
+        if (applied.outcomes!.length > 0) persistence.putMany('action_outcomes', applied.outcomes!);
+        if (applied.action_statuses!.length > 0) persistence.putMany('action_status', applied.action_statuses!);
+
+        const any = applied.outcomes!.length > 0 || applied.action_statuses!.length > 0;
+        if (any) this.recordListeners.forEach(listener => listener(applied));
+        return any;
+    }
+
+    // ========================================================================
+    // REMOTE
+    // ========================================================================
+
+    getSettings(): SyncSettings {
+        return persistence.getValue('sync_settings') ?? { remote_url: null };
+    }
+
+    /**
+     * Connect the local HTTP sync server (or another instance of the same
+     * protocol) by URL; null disconnects and keeps only tab sync.
+     */
+    setRemoteUrl(url: string | null): void {
+        const remote_url = url?.trim().replace(/\/+$/, '') || null;
+        persistence.setValue('sync_settings', { ...this.getSettings(), remote_url });
+        persistence.setValue('sync_cursor', null);
+        this.setAdapter(remote_url ? new HttpSyncAdapter(remote_url, persistence.databaseName) : null);
+    }
+
+    /**
+     * Use a remote adapter. The current shared state is queued first so the
+     * remote starts from this replica's data; slices never written here are
+     * stamped 0 and lose to any real write.
+     */
+    setAdapter(adapter: RemoteSyncAdapter | null): void {
+        this.adapter = adapter;
+        if (this.pullTimer) clearInterval(this.pullTimer);
+        this.pullTimer = null;
+
+        if (!adapter) {
+            this.outbox = [];
+            persistence.setValue('sync_outbox', []);
+            this.updateStatus({ state: 'idle', remote: null, pending: 0, last_error: null });
+            return;
+        }
+
+        this.updateStatus({ remote: adapter.name, last_error: null });
+        const snapshot = this.snapshotChange();
+        if (snapshot) this.enqueue([snapshot]);
+        if (typeof window !== 'undefined') {
+            this.pullTimer = setInterval(() => this.flush(), PULL_INTERVAL_MS);
+        }
+        this.flush();
+    }
+
+    /**
+     * Push the outbox, then pull changes made elsewhere. Concurrent calls
+     * share one run; offline runs only update the status.
+     */
+    flush(): Promise<void> {
+        if (!this.adapter) return Promise.resolve();
+        if (!isOnline()) {
+            this.updateStatus({ state: 'offline' });
+            return Promise.resolve();
+        }
+        if (!this.flushing) {
+            this.flushing = this.runFlush(this.adapter).finally(() => {
+                this.flushing = null;
+            });
+        }
+        return this.flushing;
+    }
+
+    private async runFlush(adapter: RemoteSyncAdapter): Promise<void> {
+        this.updateStatus({ state: 'syncing' });
+        try {
+            const batch = [...this.outbox];
+            if (batch.length > 0) {
+                await adapter.push(batch);
+                const pushed = new Set(batch.map(c => c.id));
+                this.outbox = this.outbox.filter(c => !pushed.has(c.id));
+                persistence.setValue('sync_outbox', this.outbox);
+                this.updateStatus({ last_push: Date.now(), pending: this.outbox.length });
+            }
+
+            const { changes, cursor } = await adapter.pull(persistence.getValue('sync_cursor') ?? null);
+            changes.forEach(change => this.receive(change));
+            persistence.setValue('sync_cursor', cursor);
+            this.updateStatus({ state: 'idle', last_pull: Date.now(), last_error: null });
+        } catch (e) {
+            console.warn('[StateSync] Remote sync failed:', e);
+            this.updateStatus({ state: isOnline() ? 'error' : 'offline', last_error: errorMessage(e) });
+        }
+    }
+
+    private enqueue(changes: SyncChange[]): void {
+        this.outbox = [...this.outbox, ...changes];
+        if (this.outbox.length > MAX_OUTBOX) {
+            console.warn(`[StateSync] Outbox over ${MAX_OUTBOX} changes; dropping the oldest`);
+            this.outbox = this.outbox.slice(-MAX_OUTBOX);
+        }
+        persistence.setValue('sync_outbox', this.outbox);
+        this.updateStatus({ pending: this.outbox.length });
+    }
+
+    private snapshotChange(): SyncChange | null {
+        if (!this.host) return null;
+        const state = this.host.getState();
+        const slices: Partial<GlobalState> = {};
+        const stamps: Partial<Record<SyncSlice, SliceStamp>> = {};
+        for (const [slice, value] of Object.entries(state)) {
+            if (!isShared(slice) || value === undefined) continue;
+            (slices as any)[slice] = value;
+            stamps[slice] = this.stamps[slice] ?? { at: 0, origin: this.origin };
+        }
+        return JSON.parse(JSON.stringify({
+            id: `${this.origin}:${++this.seq}`,
+            origin: this.origin,
+            created_at: Date.now(),
+            slices,
+            stamps,
+            records: {
+                outcomes: persistence.getAll('action_outcomes'),
+                action_statuses: persistence.getAll('action_status')
+            }
+        }));
+    }
+
+    // ========================================================================
+    // STATUS
+    // ========================================================================
+
+    getStatus(): SyncStatus {
+        return this.status;
+    }
+
+    onStatusChange(listener: (status: SyncStatus) => void): () => void {
+        this.statusListeners.add(listener);
+        return () => {
+            this.statusListeners.delete(listener);
+        };
+    }
+
+    private updateStatus(patch: Partial<SyncStatus>): void {
+        this.status = { ...this.status, ...patch };
+        this.statusListeners.forEach(listener => listener(this.status));
+    }
+}
+
+export const stateSync = new StateSyncService();
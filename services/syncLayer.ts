@@ -13,7 +13,12 @@ import { RecoveryState, BodyZone } from '../features/recovery/types';
 import { MindspaceState } from '../features/mindspace/types';
 import { PhysicalLoadState } from '../features/physical_load/types';
 import { SentientLocalOrchestrator } from '../experts/orchestrator/sentientLocalOrchestrator';
-import { PerformanceLabsEngine } from '../features/performance/logic/performanceLabsEngine';
+import { PerformanceLabsEngine } from '../experts/performance/performanceLabsEngine';
+import { engineRegistry } from './engineRegistry';
+import { analyzeLoad } from '../experts/performance/LoadManagementEngine';
+import { DailyHealthMetrics } from '../types/health-import';
+import { RRRecording } from '../types/rr-import';
+import { clock } from './clock';
 
 export class SentientSyncLayer {
 
@@ -33,14 +38,14 @@ export class SentientSyncLayer {
     const sentientOutput = orchestrator.runAll();
 
     // 3. RUN META ENGINES
-    const performanceLabsOutput = PerformanceLabsEngine.evaluate(
+    const performanceLabsOutput = engineRegistry.run('performance_labs', () => PerformanceLabsEngine.evaluate(
       nextState.performance.history || [],
       nextState.user_profile,
       nextState.performance.target_event ? {
         countdown: nextState.performance.competition_countdown || 90,
         phase: nextState.performance.macro_phase
       } : undefined
-    );
+    ));
 
     sentientOutput.performanceLabs = performanceLabsOutput;
 
@@ -73,6 +78,24 @@ export class SentientSyncLayer {
         );
         break;
 
+      case 'activities_imported':
+        this.applyImportedSessions(draft, payload);
+        break;
+
+      case 'health_imported':
+        this.applyHealthDays(draft, payload);
+        break;
+
+      case 'wearable_synced':
+        // One event so sessions and health days land in the same state update
+        this.applyImportedSessions(draft, payload?.sessions);
+        this.applyHealthDays(draft, payload?.health_days);
+        break;
+
+      case 'hrv_recording_imported':
+        this.applyHRVRecording(draft, payload);
+        break;
+
       case 'stress_updated':
         draft.mindspace.stress = payload;
         break;
@@ -111,6 +134,104 @@ export class SentientSyncLayer {
     return draft;
   }
 
+  // Merge imported sessions into the timeline and refresh ACWR from the load history
+  private static applyImportedSessions(draft: GlobalState, sessions: Session[] | undefined): void {
+    if (Array.isArray(sessions) && sessions.length > 0) {
+      // Re-imported files keep their session id, so replace rather than duplicate
+      const importedIds = new Set(sessions.map(s => s.id));
+      draft.timeline.sessions = [
+        ...draft.timeline.sessions.filter(s => !importedIds.has(s.id)),
+        ...sessions
+      ].sort((a, b) => (a.date || '').localeCompare(b.date || ''));
+
+      const load = analyzeLoad();
+      draft.physical_load.acwr = load.acwr.acwr_rolling;
+      draft.physical_load.acute_load = load.acwr.acute_load_7d;
+      draft.physical_load.chronic_load = load.acwr.chronic_load_28d;
+      draft.physical_load.load_history = load.daily_loads_28d.map(d => d.load_au);
+    }
+  }
+
+  // A recent morning/night RR recording is this morning's measured autonomic state
+  private static applyHRVRecording(draft: GlobalState, recording: RRRecording | undefined): void {
+    if (!recording || (recording.context !== 'morning' && recording.context !== 'night')) return;
+    const ageDays = (clock.nowMs() - new Date(recording.recorded_at).getTime()) / 86400000;
+    if (ageDays > 2) return;
+
+    const m = recording.metrics;
+    draft.recovery.autonomic = {
+      ...draft.recovery.autonomic,
+      rmssd: Math.round(m.rmssd * 10) / 10,
+      sdnn: Math.round(m.sdnn * 10) / 10,
+      pnn50: Math.round(m.pnn50 * 10) / 10,
+      lf_power: m.lf_power,
+      hf_power: m.hf_power,
+      lf_hf_ratio: m.lf_hf_ratio,
+      sd1: m.sd1,
+      sd2: m.sd2,
+      dfa_alpha1: m.dfa_alpha1,
+      hr_mean: Math.round(m.hr_mean),
+      measured_at: recording.recorded_at
+    };
+    draft.sleep.hrv = draft.recovery.autonomic.rmssd;
+  }
+
+  // Apply imported daily health metrics: baselines, weight and last night
+  private static applyHealthDays(draft: GlobalState, days: DailyHealthMetrics[] | undefined): void {
+    if (Array.isArray(days) && days.length > 0) {
+      const recent = days.slice(-30);
+      const avg = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+      // Baselines always reflect the imported history
+      const rhr = recent.map(d => d.resting_hr).filter((v): v is number => v !== undefined);
+      const rmssd = recent.map(d => d.hrv_rmssd).filter((v): v is number => v !== undefined);
+      if (rhr.length > 0) draft.user_profile.baselines.resting_hr = Math.round(avg(rhr));
+      if (rmssd.length > 0) draft.user_profile.baselines.hrv_baseline = Math.round(avg(rmssd));
+
+      const weighIn = [...days].reverse().find(d => d.body_mass_kg !== undefined);
+      const composition = draft.user_profile.body_composition;
+      if (weighIn && (!composition?.last_weigh_in || composition.last_weigh_in.slice(0, 10) <= weighIn.date)) {
+        draft.user_profile.weight = weighIn.body_mass_kg!;
+        if (composition) {
+          composition.weight_kg = weighIn.body_mass_kg!;
+          composition.last_weigh_in = weighIn.date;
+          composition.last_updated = new Date().toISOString();
+        }
+      }
+
+      // Only recent days describe last night; older exports just backfill
+      const lastRecent = (has: (d: DailyHealthMetrics) => boolean) => {
+        const day = [...days].reverse().find(has);
+        if (!day) return undefined;
+        const ageDays = (clock.nowMs() - new Date(`${day.date}T12:00:00`).getTime()) / 86400000;
+        return ageDays <= 2 ? day : undefined;
+      };
+
+      const night = lastRecent(d => d.sleep !== undefined)?.sleep;
+      if (night) {
+        draft.sleep.duration = Math.round((night.total_sleep_time / 60) * 10) / 10;
+        draft.sleep.duration_hours = draft.sleep.duration;
+        draft.sleep.efficiency = Math.round(night.sleep_efficiency);
+        draft.sleep.disturbances = night.wake_events;
+        draft.sleep.bedtime = night.bedtime;
+        draft.sleep.wake_time = night.wake_time;
+        draft.sleep.sleep_quality_score = Math.round(night.overall_quality_score);
+        draft.recovery.sleep_architecture.n2_percent = night.stages.light.percentage;
+        draft.recovery.sleep_architecture.n3_percent = night.stages.deep.percentage;
+        draft.recovery.sleep_architecture.rem_percent = night.stages.rem.percentage;
+      }
+
+      const hrvDay = lastRecent(d => d.hrv_rmssd !== undefined || d.hrv_sdnn !== undefined);
+      if (hrvDay) {
+        if (hrvDay.hrv_rmssd !== undefined) draft.recovery.autonomic.rmssd = hrvDay.hrv_rmssd;
+        draft.sleep.hrv = hrvDay.hrv_rmssd ?? hrvDay.hrv_sdnn!;
+      }
+
+      const rhrDay = lastRecent(d => d.resting_hr !== undefined);
+      if (rhrDay) draft.sleep.resting_hr = rhrDay.resting_hr!;
+    }
+  }
+
   private static applySimulationOverrides(state: GlobalState): GlobalState {
     if (!state.simulation.active) return state;
     const sim = state.simulation.overrides;
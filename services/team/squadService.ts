@@ -0,0 +1,94 @@
+/**
+ * Squad Service - Readiness overview across the roster
+ *
+ * Reads each athlete's last saved state from their own database (the open
+ * athlete uses live state) and ranks the squad by who needs attention:
+ * Red Day first, then ACWR risk zone, then low readiness. Other athletes'
+ * state is read as the coach sees it, through the redaction policies.
+ */
+
+import { GlobalState } from '../../types';
+import { ACWRZone } from '../../types/load-management';
+import { SquadAthleteStatus, SquadSortKey, TeamAthlete } from '../../types/team';
+import { readValueFrom } from '../persistence/repository';
+import { redactState } from '../privacy/redaction';
+import { RedDayEngine } from '../../experts/performance/redDayEngine';
+import { loadManagementEngine } from '../../experts/performance/LoadManagementEngine';
+import { getActiveAthlete, getRoster } from './teamService';
+
+const ZONE_ATTENTION: Record<ACWRZone, number> = {
+    very_high_risk: 60,
+    high_risk: 40,
+    moderate_risk: 20,
+    undertrained: 10,
+    low_risk: 0,
+    optimal: 0
+};
+
+export function assessAthlete(athlete: TeamAthlete, state: Partial<GlobalState> | undefined): SquadAthleteStatus {
+    if (!state?.mindspace || !state.physical_load || !state.user_profile) {
+        return {
+            athlete,
+            has_data: false,
+            readiness: null,
+            acwr: null,
+            acwr_zone: null,
+            red_day: false,
+            red_day_signals: [],
+            last_sync: null,
+            attention_score: -1
+        };
+    }
+
+    const readiness = state.mindspace.readiness_score;
+    const acwr = state.physical_load.acwr;
+    const acwrZone = loadManagementEngine.classifyZone(acwr).zone;
+
+    let redDay = false;
+    let signals: string[] = [];
+    try {
+        const assessment = RedDayEngine.assess(state as GlobalState, state.user_profile);
+        redDay = assessment.isRedDay;
+        signals = assessment.signals.map(s => s.label);
+    } catch (e) {
+        console.warn(`[Squad] Red Day assessment failed for ${athlete.name}:`, e);
+    }
+
+    return {
+        athlete,
+        has_data: true,
+        readiness,
+        acwr,
+        acwr_zone: acwrZone,
+        red_day: redDay,
+        red_day_signals: signals,
+        last_sync: state.orchestrator?.last_sync ?? null,
+        attention_score: (redDay ? 100 : 0) + ZONE_ATTENTION[acwrZone] + Math.max(0, 100 - readiness) * 0.5
+    };
+}
+
+/**
+ * Status of every athlete on the roster. `current` is the live state of the
+ * athlete open right now.
+ */
+export async function loadSquadStatus(current: GlobalState): Promise<SquadAthleteStatus[]> {
+    const activeId = getActiveAthlete().id;
+    return Promise.all(getRoster().athletes.map(async athlete => {
+        if (athlete.id === activeId) return assessAthlete(athlete, current);
+        const state = await readValueFrom(athlete.database, 'global_state');
+        return assessAthlete(athlete, state && redactState(state, 'coach'));
+    }));
+}
+
+export function sortSquad(squad: SquadAthleteStatus[], key: SquadSortKey): SquadAthleteStatus[] {
+    const sorted = [...squad];
+    switch (key) {
+        case 'readiness':
+            // Lowest readiness first, athletes without data last
+            return sorted.sort((a, b) => (a.readiness ?? 101) - (b.readiness ?? 101));
+        case 'acwr':
+            return sorted.sort((a, b) => (b.acwr ?? -1) - (a.acwr ?? -1));
+        default:
+            return sorted.sort((a, b) => b.attention_score - a.attention_score);
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * Team Service - Coach roster and athlete switching
+ *
+ * Every athlete has a database of their own, so state, history, loads and
+ * settings never mix. The roster lives in a separate team directory
+ * database that is opened before the athlete's, which lets index.tsx pick
+ * the active athlete's database before any store loads.
+ *
+ * The original user's data stays in the primary database and is the first
+ * roster entry. Switching athletes reloads the app: stores and engines
+ * cache persisted data when their modules load.
+ */
+
+import { TeamAthlete, TeamRoster } from '../../types/team';
+import { DataRole } from '../../types/redaction';
+import { DB_NAME } from '../persistence/schema';
+import { PersistenceRepository, deleteDatabase, persistence } from '../persistence/repository';
+
+export const TEAM_DB_NAME = 'sentient_team';
+export const PRIMARY_ATHLETE_ID = 'primary';
+
+// Directory of athletes; only its app_state store is used
+export const teamDirectory = new PersistenceRepository(TEAM_DB_NAME);
+
+const primaryAthlete = (name = 'Me'): TeamAthlete => ({
+    id: PRIMARY_ATHLETE_ID,
+    name,
+    added_at: 0,
+    database: DB_NAME
+});
+
+export function getRoster(): TeamRoster {
+    return teamDirectory.getValue('team_roster') ?? {
+        enabled: false,
+        coach_name: 'Coach',
+        athletes: [primaryAthlete()],
+        active_athlete_id: PRIMARY_ATHLETE_ID
+    };
+}
+
+const saveRoster = (roster: TeamRoster): void => {
+    teamDirectory.setValue('team_roster', roster);
+};
+
+export const isTeamMode = (): boolean => getRoster().enabled;
+
+// The athlete whose database is (or will be) loaded
+export function getActiveAthlete(): TeamAthlete {
+    const roster = getRoster();
+    if (!roster.enabled) return primaryAthlete();
+    return roster.athletes.find(a => a.id === roster.active_athlete_id) ?? roster.athletes[0] ?? primaryAthlete();
+}
+
+/**
+ * Who is looking at the open data: the coach when another athlete's
+ * database is open, otherwise the athlete themselves.
+ */
+export const getViewerRole = (): DataRole =>
+    isTeamMode() && getActiveAthlete().id !== PRIMARY_ATHLETE_ID ? 'coach' : 'user';
+
+export function enableTeamMode(coachName: string, ownName: string): TeamRoster {
+    const roster = getRoster();
+    const athletes = roster.athletes.map(a => a.id === PRIMARY_ATHLETE_ID ? { ...a, name: ownName.trim() || a.name } : a);
+    const next: TeamRoster = { ...roster, enabled: true, coach_name: coachName.trim() || roster.coach_name, athletes };
+    saveRoster(next);
+    return next;
+}
+
+export function addAthlete(name: string, sport?: string): TeamAthlete {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Athlete name is required');
+    const roster = getRoster();
+    if (roster.athletes.some(a => a.name.toLowerCase() === trimmed.toLowerCase())) {
+        throw new Error(`${trimmed} is already on the roster`);
+    }
+
+    const id = `ath_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+    const athlete: TeamAthlete = {
+        id,
+        name: trimmed,
+        sport: sport?.trim() || undefined,
+        added_at: Date.now(),
+        database: `${DB_NAME}_athlete_${id}`
+    };
+    saveRoster({ ...roster, athletes: [...roster.athletes, athlete] });
+    return athlete;
+}
+
+/**
+ * Remove an athlete and delete their database. The primary athlete and the
+ * athlete currently open cannot be removed.
+ */
+export async function removeAthlete(id: string): Promise<void> {
+    const roster = getRoster();
+    const athlete = roster.athletes.find(a => a.id === id);
+    if (!athlete) return;
+    if (id === PRIMARY_ATHLETE_ID) throw new Error('The primary account cannot be removed');
+    if (id === getActiveAthlete().id) throw new Error('Switch to another athlete before removing this one');
+
+    saveRoster({ ...roster, athletes: roster.athletes.filter(a => a.id !== id) });
+    await teamDirectory.flush();
+    await deleteDatabase(athlete.database);
+}
+
+/**
+ * Open another athlete's data. Pending writes are committed first, then the
+ * app reloads on the new database.
+ */
+export async function switchAthlete(id: string): Promise<void> {
+    const roster = getRoster();
+    if (!roster.athletes.some(a => a.id === id)) throw new Error('Athlete is not on the roster');
+    if (id === getActiveAthlete().id) return;
+
+    await persistence.flush();
+    saveRoster({ ...roster, active_athlete_id: id });
+    await teamDirectory.flush();
+    window.location.reload();
+}
+
+// Back to single-athlete use on the primary database
+export async function disableTeamMode(): Promise<void> {
+    const roster = getRoster();
+    const wasAway = getActiveAthlete().id !== PRIMARY_ATHLETE_ID;
+    await persistence.flush();
+    saveRoster({ ...roster, enabled: false, active_athlete_id: PRIMARY_ATHLETE_ID });
+    await teamDirectory.flush();
+    if (wasAway) window.location.reload();
+}
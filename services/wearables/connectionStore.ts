@@ -0,0 +1,57 @@
+/**
+ * Wearable Connection Store - Sync state in the persistence repository
+ *
+ * - Connections: per-provider cursors and last sync status
+ * - Ledger: which provider/version owns each imported record key, shared by
+ *   all providers so duplicates and conflicts are detected across them
+ */
+
+import {
+    WearableConnection,
+    WearableConflictPolicy,
+    WearableLedgerEntry
+} from '../../types/wearables';
+import { persistence } from '../persistence/repository';
+
+// ============================================================================
+// CONNECTIONS
+// ============================================================================
+
+export const loadConnections = (): Record<string, WearableConnection> =>
+    persistence.getValue('wearable_connections') ?? {};
+
+export const getConnection = (providerId: string): WearableConnection | undefined =>
+    loadConnections()[providerId];
+
+export const saveConnection = (connection: WearableConnection): void => {
+    persistence.setValue('wearable_connections', { ...loadConnections(), [connection.provider_id]: connection });
+};
+
+// Cursors are dropped with the connection; the ledger is kept so a
+// reconnect does not re-import records as new
+export const removeConnection = (providerId: string): void => {
+    const { [providerId]: _removed, ...rest } = loadConnections();
+    persistence.setValue('wearable_connections', rest);
+};
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+export const loadLedger = (): Record<string, WearableLedgerEntry> =>
+    ({ ...persistence.getValue('wearable_ledger') });
+
+export const saveLedger = (ledger: Record<string, WearableLedgerEntry>): void => {
+    persistence.setValue('wearable_ledger', ledger);
+};
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const loadConflictPolicy = (): WearableConflictPolicy =>
+    persistence.getValue('wearable_conflict_policy') ?? 'keep_existing';
+
+export const saveConflictPolicy = (policy: WearableConflictPolicy): void => {
+    persistence.setValue('wearable_conflict_policy', policy);
+};
@@ -0,0 +1,24 @@
+/**
+ * Wearables - Provider registry, built-in providers and sync
+ */
+
+import { wearableRegistry } from './providerRegistry';
+import { fileDropProvider } from './providers/fileDropProvider';
+import { InMemoryWearableProvider } from './providers/inMemoryProvider';
+
+export const demoWearableProvider = new InMemoryWearableProvider({
+    id: 'demo_wearable',
+    name: 'Demo Wearable',
+    description: 'Two weeks of sample sleep, HRV and runs',
+    seed_days: 14
+});
+
+wearableRegistry.register(fileDropProvider);
+wearableRegistry.register(demoWearableProvider, { demo: true });
+
+export { wearableRegistry, WearableProviderRegistry } from './providerRegistry';
+export { FileDropProvider, fileDropProvider } from './providers/fileDropProvider';
+export { InMemoryWearableProvider } from './providers/inMemoryProvider';
+export { connectWearable, disconnectWearable, syncWearable } from './wearableSync';
+export type { WearableSyncContext } from './wearableSync';
+export { getConnection, loadConnections, loadConflictPolicy, saveConflictPolicy } from './connectionStore';
@@ -0,0 +1,41 @@
+/**
+ * Wearable Provider Registry
+ *
+ * Providers register once at startup (see ./index.ts). Demo providers are
+ * listed only when the UI asks for them, i.e. in demo mode.
+ */
+
+import { WearableProvider } from '../../types/wearables';
+
+interface RegisteredProvider {
+    provider: WearableProvider;
+    demo: boolean;
+}
+
+export class WearableProviderRegistry {
+    private providers = new Map<string, RegisteredProvider>();
+
+    register(provider: WearableProvider, options: { demo?: boolean } = {}): void {
+        if (this.providers.has(provider.id)) {
+            console.warn(`[WearableRegistry] Replacing provider "${provider.id}"`);
+        }
+        this.providers.set(provider.id, { provider, demo: options.demo ?? false });
+    }
+
+    unregister(id: string): void {
+        this.providers.delete(id);
+    }
+
+    get(id: string): WearableProvider | undefined {
+        return this.providers.get(id)?.provider;
+    }
+
+    list(options: { includeDemo?: boolean } = {}): WearableProvider[] {
+        return [...this.providers.values()]
+            .filter(entry => options.includeDemo || !entry.demo)
+            .map(entry => entry.provider);
+    }
+}
+
+// Singleton instance
+export const wearableRegistry = new WearableProviderRegistry();
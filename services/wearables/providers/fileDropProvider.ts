@@ -0,0 +1,226 @@
+/**
+ * File Drop Provider - Local files and folders as a wearable source
+ *
+ * Reads what device vendors let users export:
+ * - .fit / .gpx / .tcx activities (Garmin, Wahoo, Coros, Strava)
+ * - Apple Health export.zip / export.xml for sleep, HRV and resting HR
+ *
+ * Files come from drag-and-drop / file inputs, or from a folder picked with
+ * the File System Access API where the browser supports it. The folder is
+ * re-scanned on every sync; folder access does not survive a reload, so the
+ * folder has to be picked again per session.
+ *
+ * The cursor is the list of file signatures (name, size, mtime) already
+ * processed. External ids are derived from file contents, so the same
+ * activity dropped twice under another name is still deduplicated.
+ */
+
+import {
+    WearableActivity,
+    WearableCapability,
+    WearableHRV,
+    WearablePage,
+    WearableProvider,
+    WearableSleep
+} from '../../../types/wearables';
+import { AppleHealthImportSummary } from '../../../types/health-import';
+import { parseActivityFile } from '../../import/activityImporter';
+import { parseAppleHealthExport } from '../../import/appleHealthImporter';
+
+const ACTIVITY_EXTENSIONS = ['fit', 'gpx', 'tcx'];
+const HEALTH_EXTENSIONS = ['zip', 'xml'];
+const MAX_FOLDER_DEPTH = 3;
+
+// Subset of the File System Access API (not in the TS DOM lib yet)
+interface FileHandleLike {
+    kind: 'file';
+    name: string;
+    getFile(): Promise<File>;
+}
+
+interface DirectoryHandleLike {
+    kind: 'directory';
+    name: string;
+    values(): AsyncIterable<FileHandleLike | DirectoryHandleLike>;
+}
+
+type DirectoryPicker = (options?: { mode?: 'read' }) => Promise<DirectoryHandleLike>;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+const signature = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const parseCursor = (cursor?: string): Set<string> => {
+    if (!cursor) return new Set();
+    try {
+        return new Set(JSON.parse(cursor));
+    } catch {
+        return new Set();
+    }
+};
+
+export class FileDropProvider implements WearableProvider {
+    readonly id = 'file_drop';
+    readonly name = 'Files & Folder';
+    readonly description = 'FIT, GPX and TCX activities plus Apple Health exports from your device';
+    readonly capabilities: WearableCapability[] = ['activities', 'sleep', 'hrv'];
+
+    private dropped = new Map<string, File>();
+    private directory: DirectoryHandleLike | null = null;
+    private connected = false;
+    private healthExports = new Map<string, Promise<AppleHealthImportSummary>>();
+
+    static supportsFolders(): boolean {
+        return typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+    }
+
+    async connect(): Promise<void> {
+        this.connected = true;
+    }
+
+    async disconnect(): Promise<void> {
+        this.dropped.clear();
+        this.healthExports.clear();
+        this.directory = null;
+        this.connected = false;
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    /**
+     * Ask the user for a folder to watch. Rejects where unsupported.
+     */
+    async chooseFolder(): Promise<string> {
+        const picker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+        if (!picker) throw new Error('This browser cannot open folders - drop files instead');
+        this.directory = await picker({ mode: 'read' });
+        this.connected = true;
+        return this.directory.name;
+    }
+
+    get folderName(): string | undefined {
+        return this.directory?.name;
+    }
+
+    addFiles(files: File[]): void {
+        for (const file of files) this.dropped.set(signature(file), file);
+        this.connected = true;
+    }
+
+    // ========================================================================
+    // FILE DISCOVERY
+    // ========================================================================
+
+    private async scanFolder(handle: DirectoryHandleLike, depth: number, into: File[]): Promise<void> {
+        for await (const entry of handle.values()) {
+            if (entry.kind === 'file') {
+                into.push(await entry.getFile());
+            } else if (depth < MAX_FOLDER_DEPTH) {
+                await this.scanFolder(entry, depth + 1, into);
+            }
+        }
+    }
+
+    private async unprocessedFiles(extensions: string[], cursor?: string): Promise<{ files: File[]; processed: Set<string> }> {
+        const all = [...this.dropped.values()];
+        if (this.directory) await this.scanFolder(this.directory, 0, all);
+
+        const processed = parseCursor(cursor);
+        const seen = new Set<string>();
+        const files = all.filter(file => {
+            const sig = signature(file);
+            if (processed.has(sig) || seen.has(sig) || !extensions.includes(extensionOf(file.name))) return false;
+            seen.add(sig);
+            return true;
+        });
+        return { files, processed };
+    }
+
+    private page<T>(items: T[], processed: Set<string>, files: File[]): WearablePage<T> {
+        files.forEach(file => processed.add(signature(file)));
+        return { items, next_cursor: JSON.stringify([...processed]), has_more: false };
+    }
+
+    // Sleep and HRV read the same exports; parse each one once
+    private readHealthExport(file: File): Promise<AppleHealthImportSummary> {
+        const sig = signature(file);
+        if (!this.healthExports.has(sig)) {
+            // A failed parse is not cached, so the same file can be retried
+            this.healthExports.set(sig, parseAppleHealthExport(file).catch(e => {
+                this.healthExports.delete(sig);
+                throw e;
+            }));
+        }
+        return this.healthExports.get(sig)!;
+    }
+
+    private async newHealthExports(cursor?: string) {
+        const { files, processed } = await this.unprocessedFiles(HEALTH_EXTENSIONS, cursor);
+        const exports: { file: File; summary: AppleHealthImportSummary }[] = [];
+        for (const file of files) {
+            try {
+                exports.push({ file, summary: await this.readHealthExport(file) });
+            } catch (e) {
+                console.warn(`[FileDropProvider] Skipping ${file.name}:`, e);
+            }
+        }
+        return { files, processed, exports };
+    }
+
+    // ========================================================================
+    // PROVIDER API
+    // ========================================================================
+
+    async listActivities(cursor?: string): Promise<WearablePage<WearableActivity>> {
+        const { files, processed } = await this.unprocessedFiles(ACTIVITY_EXTENSIONS, cursor);
+        const items: WearableActivity[] = [];
+
+        for (const file of files) {
+            try {
+                const activity = await parseActivityFile(file);
+                items.push({
+                    external_id: `${activity.format}-${Date.parse(activity.start_time)}`,
+                    modified_at: new Date(file.lastModified).toISOString(),
+                    activity,
+                    file_name: file.name
+                });
+            } catch (e) {
+                console.warn(`[FileDropProvider] Skipping ${file.name}:`, e);
+            }
+        }
+
+        return this.page(items, processed, files);
+    }
+
+    async fetchSleep(cursor?: string): Promise<WearablePage<WearableSleep>> {
+        const { files, processed, exports } = await this.newHealthExports(cursor);
+        const items = exports.flatMap(({ file, summary }) => summary.days
+            .filter(d => d.sleep)
+            .map(d => ({
+                external_id: `apple_health:sleep:${d.date}`,
+                modified_at: new Date(file.lastModified).toISOString(),
+                night: d.sleep!
+            })));
+        return this.page(items, processed, files);
+    }
+
+    async fetchHRV(cursor?: string): Promise<WearablePage<WearableHRV>> {
+        const { files, processed, exports } = await this.newHealthExports(cursor);
+        const items = exports.flatMap(({ file, summary }) => summary.days
+            .filter(d => d.hrv_rmssd !== undefined || d.hrv_sdnn !== undefined || d.resting_hr !== undefined)
+            .map(d => ({
+                external_id: `apple_health:hrv:${d.date}`,
+                modified_at: new Date(file.lastModified).toISOString(),
+                date: d.date,
+                rmssd_ms: d.hrv_rmssd,
+                sdnn_ms: d.hrv_sdnn,
+                resting_hr: d.resting_hr
+            })));
+        return this.page(items, processed, files);
+    }
+}
+
+// Singleton instance
+export const fileDropProvider = new FileDropProvider();
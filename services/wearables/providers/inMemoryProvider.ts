@@ -0,0 +1,238 @@
+/**
+ * In-Memory Wearable Provider - Fake vendor for sync testing and demo mode
+ *
+ * Behaves like a paged vendor API: every upsert bumps a change sequence,
+ * the cursor is the last sequence seen, and pages are capped at page_size.
+ * Re-upserting a record with the same external id produces a newer version;
+ * failNextRequest() simulates an outage mid-sync.
+ */
+
+import {
+    WearableActivity,
+    WearableCapability,
+    WearableHRV,
+    WearablePage,
+    WearableProvider,
+    WearableSleep
+} from '../../../types/wearables';
+import { ActivitySample, ParsedActivity } from '../../../types/activity-import';
+import { SleepStageSegment } from '../../../types/sleep-architecture';
+import { buildSleepNight, toSegment } from '../../import/sleepStages';
+
+interface Versioned<T> {
+    sequence: number;
+    record: T;
+}
+
+export interface InMemoryProviderOptions {
+    id: string;
+    name: string;
+    description?: string;
+    page_size?: number;
+    seed_days?: number;           // Generate demo history on first connect
+}
+
+const MS_PER_MIN = 60000;
+
+// Deterministic PRNG so demo data is stable between reloads (mulberry32)
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// ISO timestamp in local wall-clock time with its offset, like device exports
+const toLocalIso = (date: Date): string => {
+    const pad = (n: number) => String(Math.floor(Math.abs(n))).padStart(2, '0');
+    const offset = -date.getTimezoneOffset();
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+        `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+        `${offset >= 0 ? '+' : '-'}${pad(offset / 60)}:${pad(offset % 60)}`;
+};
+
+export class InMemoryWearableProvider implements WearableProvider {
+    readonly id: string;
+    readonly name: string;
+    readonly description: string;
+    readonly capabilities: WearableCapability[] = ['activities', 'sleep', 'hrv'];
+
+    private connected = false;
+    private sequence = 0;
+    private pageSize: number;
+    private seedDays: number;
+    private pendingFailure: Error | null = null;
+    private activities = new Map<string, Versioned<WearableActivity>>();
+    private sleep = new Map<string, Versioned<WearableSleep>>();
+    private hrv = new Map<string, Versioned<WearableHRV>>();
+
+    constructor(options: InMemoryProviderOptions) {
+        this.id = options.id;
+        this.name = options.name;
+        this.description = options.description ?? 'In-memory test provider';
+        this.pageSize = options.page_size ?? 25;
+        this.seedDays = options.seed_days ?? 0;
+    }
+
+    async connect(): Promise<void> {
+        if (this.seedDays > 0 && this.sequence === 0) this.seedDemoData(this.seedDays);
+        this.connected = true;
+    }
+
+    async disconnect(): Promise<void> {
+        this.connected = false;
+    }
+
+    isConnected(): boolean {
+        return this.connected;
+    }
+
+    // ========================================================================
+    // TEST CONTROLS
+    // ========================================================================
+
+    upsertActivity(record: Omit<WearableActivity, 'modified_at'>, modifiedAt = new Date().toISOString()): void {
+        this.activities.set(record.external_id, { sequence: ++this.sequence, record: { ...record, modified_at: modifiedAt } });
+    }
+
+    upsertSleep(record: Omit<WearableSleep, 'modified_at'>, modifiedAt = new Date().toISOString()): void {
+        this.sleep.set(record.external_id, { sequence: ++this.sequence, record: { ...record, modified_at: modifiedAt } });
+    }
+
+    upsertHRV(record: Omit<WearableHRV, 'modified_at'>, modifiedAt = new Date().toISOString()): void {
+        this.hrv.set(record.external_id, { sequence: ++this.sequence, record: { ...record, modified_at: modifiedAt } });
+    }
+
+    failNextRequest(error: Error = new Error(`${this.name} is unavailable`)): void {
+        this.pendingFailure = error;
+    }
+
+    reset(): void {
+        this.activities.clear();
+        this.sleep.clear();
+        this.hrv.clear();
+        this.sequence = 0;
+        this.pendingFailure = null;
+    }
+
+    // ========================================================================
+    // PROVIDER API
+    // ========================================================================
+
+    private async page<T>(store: Map<string, Versioned<T>>, cursor?: string): Promise<WearablePage<T>> {
+        if (!this.connected) throw new Error(`${this.name} is not connected`);
+        if (this.pendingFailure) {
+            const error = this.pendingFailure;
+            this.pendingFailure = null;
+            throw error;
+        }
+
+        const after = cursor ? parseInt(cursor, 10) || 0 : 0;
+        const changed = [...store.values()]
+            .filter(v => v.sequence > after)
+            .sort((a, b) => a.sequence - b.sequence);
+        const page = changed.slice(0, this.pageSize);
+
+        return {
+            items: page.map(v => v.record),
+            next_cursor: String(page.length ? page[page.length - 1].sequence : after),
+            has_more: changed.length > page.length
+        };
+    }
+
+    listActivities(cursor?: string): Promise<WearablePage<WearableActivity>> {
+        return this.page(this.activities, cursor);
+    }
+
+    fetchSleep(cursor?: string): Promise<WearablePage<WearableSleep>> {
+        return this.page(this.sleep, cursor);
+    }
+
+    fetchHRV(cursor?: string): Promise<WearablePage<WearableHRV>> {
+        return this.page(this.hrv, cursor);
+    }
+
+    // ========================================================================
+    // DEMO DATA
+    // ========================================================================
+
+    /**
+     * Nightly sleep + HRV for the last `days` days and an easy run every
+     * other day, ending yesterday night / this morning.
+     */
+    seedDemoData(days: number, now: Date = new Date()): void {
+        const random = createRandom(days * 7919);
+
+        for (let i = days; i >= 1; i--) {
+            const wake = new Date(now);
+            wake.setDate(wake.getDate() - i + 1);
+            wake.setHours(6, 30 + Math.round(random() * 30), 0, 0);
+            const date = toLocalIso(wake).slice(0, 10);
+
+            // ~90 min cycles: deep front-loaded, REM back-loaded
+            const segments: SleepStageSegment[] = [];
+            let cursor = new Date(wake.getTime() - (7 + random()) * 60 * MS_PER_MIN);
+            const add = (stage: SleepStageSegment['stage'], minutes: number) => {
+                const end = new Date(cursor.getTime() + minutes * MS_PER_MIN);
+                if (end > wake) return;
+                segments.push(toSegment(stage, toLocalIso(cursor), toLocalIso(end)));
+                cursor = end;
+            };
+            for (let cycle = 0; cycle < 5; cycle++) {
+                add('light', 25 + random() * 15);
+                add('deep', Math.max(5, 45 - cycle * 10 + random() * 10));
+                add('light', 15 + random() * 10);
+                add('rem', 10 + cycle * 8 + random() * 8);
+                if (random() < 0.35) add('awake', 2 + random() * 6);
+            }
+
+            const night = buildSleepNight(date, segments, 'apple_watch');
+            if (night) this.upsertSleep({ external_id: `sleep-${date}`, night }, toLocalIso(wake));
+
+            const rmssd = Math.round((62 + 8 * Math.sin(i / 3) + (random() - 0.5) * 10) * 10) / 10;
+            this.upsertHRV({
+                external_id: `hrv-${date}`,
+                date,
+                rmssd_ms: rmssd,
+                sdnn_ms: Math.round(rmssd * 1.25 * 10) / 10,
+                resting_hr: Math.round(50 + (random() - 0.5) * 6)
+            }, toLocalIso(wake));
+
+            if (i % 2 === 0) {
+                const start = new Date(wake);
+                start.setHours(17, 30, 0, 0);
+                const activity = this.demoRun(start, 35 + Math.round(random() * 25), random);
+                this.upsertActivity({ external_id: `run-${date}`, activity }, toLocalIso(start));
+            }
+        }
+    }
+
+    private demoRun(start: Date, minutes: number, random: () => number): ParsedActivity {
+        const samples: ActivitySample[] = [];
+        let distance = 0;
+        for (let t = 0; t <= minutes * 60; t += 5) {
+            const speed = 3 + random() * 0.5;
+            distance += speed * 5;
+            samples.push({
+                elapsed_s: t,
+                heart_rate: Math.round(125 + Math.min(25, t / 60) + random() * 6),
+                speed_mps: Math.round(speed * 100) / 100,
+                distance_m: Math.round(distance)
+            });
+        }
+        const hr = samples.map(s => s.heart_rate!);
+
+        return {
+            format: 'fit',
+            sport: 'running',
+            start_time: start.toISOString(),
+            duration_seconds: minutes * 60,
+            elapsed_seconds: minutes * 60,
+            distance_meters: Math.round(distance),
+            avg_hr: Math.round(hr.reduce((a, b) => a + b, 0) / hr.length),
+            max_hr: Math.max(...hr),
+            device: this.name,
+            samples
+        };
+    }
+}
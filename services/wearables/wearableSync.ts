@@ -0,0 +1,286 @@
+/**
+ * Wearable Sync - Incremental, deduplicated sync from any WearableProvider
+ *
+ * For each capability the provider is paged from its stored cursor. Records
+ * are checked against the shared ledger:
+ * - same provider + external id at the same or an older version → unchanged
+ * - same provider + external id at a newer version → updated in place
+ * - another source already owns the night / activity → conflict, resolved by
+ *   the WearableConflictPolicy
+ *
+ * Accepted records go through the same pipelines as manual imports (load
+ * history, history backfill, sleep engine, PR store). Cursors and the ledger
+ * are only saved once the whole sync succeeded, so a failed sync is retried
+ * from the same point.
+ */
+
+import { Session } from '../../types';
+import { DailyHealthMetrics } from '../../types/health-import';
+import {
+    WearableCapability,
+    WearableConflict,
+    WearableConflictPolicy,
+    WearableConnection,
+    WearableLedgerEntry,
+    WearablePage,
+    WearableProvider,
+    WearableSyncCounts,
+    WearableSyncResult
+} from '../../types/wearables';
+import { wearableRegistry } from './providerRegistry';
+import {
+    getConnection,
+    loadConflictPolicy,
+    loadLedger,
+    removeConnection,
+    saveConnection,
+    saveLedger
+} from './connectionStore';
+import { activityToSession, sessionToDailyLoad, ImportProfile } from '../import/activityImporter';
+import { backfillDataPoints, loadHistory } from '../history/historyStore';
+import { loadManagementEngine } from '../../experts/performance/LoadManagementEngine';
+import { engineRegistry } from '../engineRegistry';
+import { addPersonalRecord, detectPRsFromWearables, loadPersonalRecords } from '../../experts/performance/prStore';
+
+// Activities starting this close together are the same workout
+const ACTIVITY_MATCH_WINDOW_MS = 2 * 60 * 1000;
+
+// Guard against providers that never clear has_more
+const MAX_PAGES_PER_SYNC = 50;
+
+// Owner reported for nights / HRV imported outside the provider layer
+const DIRECT_IMPORT_OWNER = 'direct_import';
+
+export interface WearableSyncContext {
+    sessions: Session[];
+    profile?: ImportProfile;
+    policy?: WearableConflictPolicy;
+}
+
+const requireProvider = (providerId: string): WearableProvider => {
+    const provider = wearableRegistry.get(providerId);
+    if (!provider) throw new Error(`Unknown wearable provider: ${providerId}`);
+    return provider;
+};
+
+const emptyCounts = (): WearableSyncCounts => ({ added: 0, updated: 0, unchanged: 0 });
+
+async function fetchAllPages<T>(
+    fetchPage: (cursor?: string) => Promise<WearablePage<T>>,
+    cursor: string | undefined
+): Promise<{ items: T[]; cursor: string | undefined }> {
+    const items: T[] = [];
+    for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+        const result = await fetchPage(cursor);
+        items.push(...result.items);
+        cursor = result.next_cursor ?? cursor;
+        if (!result.has_more) break;
+    }
+    return { items, cursor };
+}
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+export async function connectWearable(providerId: string): Promise<WearableConnection> {
+    const provider = requireProvider(providerId);
+    await provider.connect();
+
+    const connection: WearableConnection = getConnection(providerId) ?? {
+        provider_id: providerId,
+        connected_at: new Date().toISOString(),
+        cursors: {}
+    };
+    saveConnection({ ...connection, last_error: undefined });
+    return connection;
+}
+
+export async function disconnectWearable(providerId: string): Promise<void> {
+    await requireProvider(providerId).disconnect();
+    removeConnection(providerId);
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Pull everything new from a connected provider and record it. Apply the
+ * returned `sessions` and `health_days` to state with the `wearable_synced`
+ * sync event.
+ */
+export async function syncWearable(providerId: string, context: WearableSyncContext): Promise<WearableSyncResult> {
+    const provider = requireProvider(providerId);
+    const connection = getConnection(providerId);
+    if (!connection || !provider.isConnected()) {
+        throw new Error(`${provider.name} is not connected`);
+    }
+
+    const policy = context.policy ?? loadConflictPolicy();
+    const ledger = loadLedger();
+    const history = loadHistory().dataPoints;
+    const cursors = { ...connection.cursors };
+    const counts: Record<WearableCapability, WearableSyncCounts> = {
+        activities: emptyCounts(),
+        sleep: emptyCounts(),
+        hrv: emptyCounts()
+    };
+    const conflicts: WearableConflict[] = [];
+    const sessions = [...context.sessions];
+    const imported: Session[] = [];
+    const days = new Map<string, DailyHealthMetrics>();
+    const day = (date: string) => {
+        if (!days.has(date)) days.set(date, { date });
+        return days.get(date)!;
+    };
+    const entry = (externalId: string, modifiedAt: string, recordId?: string): WearableLedgerEntry => ({
+        provider_id: provider.id,
+        external_id: externalId,
+        modified_at: modifiedAt,
+        record_id: recordId
+    });
+
+    /**
+     * Shared version / ownership check for date-keyed streams.
+     * Returns whether the incoming record should be written.
+     */
+    const acceptDated = (
+        capability: WearableCapability,
+        date: string,
+        externalId: string,
+        modifiedAt: string,
+        existsOutsideLedger: boolean
+    ): boolean => {
+        const key = `${capability}:${date}`;
+        const prior = ledger[key];
+        const own = prior && prior.provider_id === provider.id && prior.external_id === externalId;
+
+        if (own && prior.modified_at >= modifiedAt) {
+            counts[capability].unchanged++;
+            return false;
+        }
+        if (!own && (prior || existsOutsideLedger)) {
+            const resolution = policy === 'prefer_incoming' ? 'replaced' : 'kept_existing';
+            conflicts.push({
+                capability,
+                key: date,
+                existing: prior
+                    ? { provider_id: prior.provider_id, external_id: prior.external_id }
+                    : { provider_id: DIRECT_IMPORT_OWNER, external_id: date },
+                incoming: { provider_id: provider.id, external_id: externalId },
+                resolution
+            });
+            if (resolution === 'kept_existing') return false;
+        }
+
+        counts[capability][own ? 'updated' : 'added']++;
+        ledger[key] = entry(externalId, modifiedAt);
+        return true;
+    };
+
+    try {
+        // ---- Activities ----
+        if (provider.capabilities.includes('activities')) {
+            const { items, cursor } = await fetchAllPages(c => provider.listActivities(c), cursors.activities);
+            for (const item of items) {
+                const key = `activities:${provider.id}:${item.external_id}`;
+                const prior = ledger[key];
+                if (prior && prior.modified_at >= item.modified_at) {
+                    counts.activities.unchanged++;
+                    continue;
+                }
+
+                const session = activityToSession(item.activity, item.file_name ?? item.external_id, context.profile);
+                session.import_source = { ...session.import_source!, provider_id: provider.id, external_id: item.external_id };
+                if (prior?.record_id) session.id = prior.record_id;
+
+                const startMs = Date.parse(session.date!);
+                const match = sessions.find(s =>
+                    s.import_source && s.id !== prior?.record_id &&
+                    !(s.import_source.provider_id === provider.id && s.import_source.external_id === item.external_id) &&
+                    Math.abs(Date.parse(s.date || '') - startMs) <= ACTIVITY_MATCH_WINDOW_MS
+                );
+                if (match) {
+                    const resolution = policy === 'prefer_incoming' ? 'replaced' : 'kept_existing';
+                    conflicts.push({
+                        capability: 'activities',
+                        key: session.date!,
+                        existing: {
+                            provider_id: match.import_source!.provider_id ?? DIRECT_IMPORT_OWNER,
+                            external_id: match.import_source!.external_id ?? match.id
+                        },
+                        incoming: { provider_id: provider.id, external_id: item.external_id },
+                        resolution
+                    });
+                    if (resolution === 'kept_existing') continue;
+                    session.id = match.id;
+                }
+
+                counts.activities[prior ? 'updated' : 'added']++;
+                ledger[key] = entry(item.external_id, item.modified_at, session.id);
+                const index = sessions.findIndex(s => s.id === session.id);
+                if (index >= 0) sessions[index] = session; else sessions.push(session);
+                const importedIndex = imported.findIndex(s => s.id === session.id);
+                if (importedIndex >= 0) imported[importedIndex] = session; else imported.push(session);
+            }
+            cursors.activities = cursor;
+        }
+
+        // ---- Sleep ----
+        if (provider.capabilities.includes('sleep')) {
+            const { items, cursor } = await fetchAllPages(c => provider.fetchSleep(c), cursors.sleep);
+            for (const item of items) {
+                const date = item.night.date;
+                const stored = history.some(dp => dp.date === date && dp.sleep_night);
+                if (acceptDated('sleep', date, item.external_id, item.modified_at, stored)) {
+                    day(date).sleep = item.night;
+                }
+            }
+            cursors.sleep = cursor;
+        }
+
+        // ---- HRV / resting HR ----
+        if (provider.capabilities.includes('hrv')) {
+            const { items, cursor } = await fetchAllPages(c => provider.fetchHRV(c), cursors.hrv);
+            for (const item of items) {
+                const stored = history.some(dp => dp.date === item.date && (dp.hrv_rmssd || dp.hrv_sdnn));
+                if (acceptDated('hrv', item.date, item.external_id, item.modified_at, stored)) {
+                    const target = day(item.date);
+                    if (item.rmssd_ms !== undefined) target.hrv_rmssd = item.rmssd_ms;
+                    if (item.sdnn_ms !== undefined) target.hrv_sdnn = item.sdnn_ms;
+                    if (item.resting_hr !== undefined) target.resting_hr = item.resting_hr;
+                }
+            }
+            cursors.hrv = cursor;
+        }
+    } catch (e: any) {
+        saveConnection({ ...connection, last_error: e?.message || String(e) });
+        throw e;
+    }
+
+    // ---- Record ----
+    const healthDays = [...days.values()].sort((a, b) => a.date.localeCompare(b.date));
+
+    loadManagementEngine.importSessionLoads(imported.map(s => sessionToDailyLoad(s)));
+    if (healthDays.length > 0) backfillDataPoints(healthDays, 'wearable');
+    engineRegistry.hydrate(['sleep_architecture', 'pattern_discovery']);
+
+    let records = loadPersonalRecords();
+    for (const pr of detectPRsFromWearables(imported, records)) {
+        records = addPersonalRecord(pr, records);
+    }
+
+    const syncedAt = new Date().toISOString();
+    saveLedger(ledger);
+    saveConnection({ ...connection, cursors, last_sync_at: syncedAt, last_error: undefined });
+
+    return {
+        provider_id: provider.id,
+        synced_at: syncedAt,
+        counts,
+        conflicts,
+        sessions: imported.sort((a, b) => (a.date || '').localeCompare(b.date || '')),
+        health_days: healthDays
+    };
+}
@@ -4,7 +4,7 @@
  */
 
 import { UserHistory, WeeklyReport } from './history/types';
-import { getHistory, getAverages } from './history/historyStore';
+import { getHistory, getAverages, isSnapshot } from './history/historyStore';
 
 /**
  * Generate a weekly report from history data
@@ -33,15 +33,15 @@ export function generateWeeklyReport(history: UserHistory): WeeklyReport | null
         : 0;
 
     const thisWeekAvg = {
-        readiness: avg(thisWeek.map(d => d.readiness)),
-        fuel: avg(thisWeek.map(d => d.fuel_score)),
+        readiness: avg(thisWeek.filter(isSnapshot).map(d => d.readiness)),
+        fuel: avg(thisWeek.filter(isSnapshot).map(d => d.fuel_score)),
         sleep: avg(thisWeek.map(d => d.sleep_duration)),
         hrv: avg(thisWeek.map(d => d.hrv))
     };
 
     const prevWeekAvg = {
-        readiness: avg(prevWeek.map(d => d.readiness)),
-        fuel: avg(prevWeek.map(d => d.fuel_score)),
+        readiness: avg(prevWeek.filter(isSnapshot).map(d => d.readiness)),
+        fuel: avg(prevWeek.filter(isSnapshot).map(d => d.fuel_score)),
         sleep: avg(prevWeek.map(d => d.sleep_duration)),
         hrv: avg(prevWeek.map(d => d.hrv))
     };
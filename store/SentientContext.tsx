@@ -1,11 +1,16 @@
 
-import React, { createContext, useContext, useReducer, useEffect, ReactNode, useState, useCallback } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, ReactNode, useState, useCallback, useRef, useMemo } from 'react';
 import { GlobalState, Session, Meal, RecoveryState, BodyZone, MindspaceState, FuelState, PhysicalLoadState, TimelineState, EnvironmentState, MedicalState, PerformanceState } from '../types';
 import { SentientSyncLayer } from '../services/syncLayer';
 // Note: Mock data removed - app should start with empty state until real data
 import { SentientNotification } from '../components/NotificationSystem';
 import { saveDataPoint, loadHistory, saveOutcome, getHistory, getAverages } from '../services/history/historyStore';
 import { UserHistory, ActionOutcome } from '../services/history/types';
+import { persistence } from '../services/persistence/repository';
+import { isTeamMode, getActiveAthlete, getViewerRole } from '../services/team/teamService';
+import { redactState, restoreRedacted } from '../services/privacy/redaction';
+import { stateSync } from '../services/sync/stateSync';
+import { notificationScheduler } from '../services/notifications/notificationScheduler';
 import { UserGoal, DEFAULT_USER_GOAL } from '../types/goals';
 
 // --- INITIAL STATE (V5 SCHEMATA) ---
@@ -249,7 +254,8 @@ type Action =
   | { type: 'UPDATE_USER_PROFILE'; payload: any }
   | { type: 'RECORD_OUTCOME'; payload: ActionOutcome }
   | { type: 'SET_USER_GOAL'; payload: UserGoal }
-  | { type: 'TOGGLE_DEMO_MODE' };
+  | { type: 'TOGGLE_DEMO_MODE' }
+  | { type: 'APPLY_SYNCED_CHANGES'; payload: Partial<GlobalState> };
 
 // --- REDUCER ---
 const reducer = (state: GlobalState & { notifications: SentientNotification[] }, action: Action): GlobalState & { notifications: SentientNotification[] } => {
@@ -342,12 +348,16 @@ const reducer = (state: GlobalState & { notifications: SentientNotification[] },
         }
       };
 
+    case 'APPLY_SYNCED_CHANGES':
+      // Slices merged from another tab or device (services/sync)
+      return { ...state, ...action.payload };
+
     case 'TOGGLE_DEMO_MODE':
       const newDemoMode = !(state as any).ui_config?.demo_mode;
 
       // Clear cached state so demo data takes full effect
-      localStorage.removeItem('sentient_state_v5');
-      console.log('[DEMO MODE] Cleared localStorage cache');
+      persistence.deleteValue('global_state');
+      console.log('[DEMO MODE] Cleared cached state');
 
       if (newDemoMode) {
         // Load demo data with error protection
@@ -404,24 +414,49 @@ interface SentientContextValue {
 
 const SentientContext = createContext<SentientContextValue | undefined>(undefined);
 
+// Actions built from stored, synced or orchestrated data rather than from what a (possibly redacted) view shows
+const DATA_ACTIONS: Action['type'][] = ['LOAD_CACHE', 'ORCHESTRATOR_SUCCESS', 'APPLY_SYNCED_CHANGES'];
+
 export const SentientProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(reducer, { ...initialState, notifications: [] });
+  // Switching athletes reloads the app, so the viewer is fixed for the provider's lifetime
+  const viewerRole = useMemo(() => getViewerRole(), []);
+  const guardedReducer = useMemo(() => viewerRole === 'user' ? reducer
+    : (current: Parameters<typeof reducer>[0], action: Action) => {
+      const next = reducer(current, action);
+      return DATA_ACTIONS.includes(action.type) ? next : restoreRedacted(next, current, viewerRole);
+    }, [viewerRole]);
+  const [state, dispatch] = useReducer(guardedReducer, { ...initialState, notifications: [] });
+  // What the tabs see: a coach gets the athlete's state with hidden categories redacted
+  const visibleState = useMemo(() => redactState(state, viewerRole), [state, viewerRole]);
   const [history, setHistory] = useState<UserHistory>(loadHistory());
   const [isFirstLaunch, setIsFirstLaunch] = useState(false);
 
+  // Cross-tab / cross-device sync: the last saved state is the baseline for
+  // what changed locally, and merged slices are not shared back
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const sharedRef = useRef<{ slices: Record<string, string>; demo: boolean } | null>(null);
+  const mergedRef = useRef<Partial<GlobalState>>({});
+
+  useEffect(() => stateSync.attach(() => stateRef.current, patch => {
+    if (stateRef.current.ui_config?.demo_mode) return;
+    mergedRef.current = { ...mergedRef.current, ...patch };
+    dispatch({ type: 'APPLY_SYNCED_CHANGES', payload: patch });
+  }), []);
+
   // Load cached state and check for first launch
   useEffect(() => {
-    const cached = localStorage.getItem('sentient_state_v5');
-    const hasLaunched = localStorage.getItem('sentient_launched');
+    const cached = persistence.getValue('global_state');
+    const hasLaunched = persistence.getValue('launched');
 
     if (!hasLaunched) {
       setIsFirstLaunch(true);
-      localStorage.setItem('sentient_launched', 'true');
+      persistence.setValue('launched', true);
     }
 
     if (cached) {
       try {
-        const parsed = JSON.parse(cached);
+        const parsed: any = structuredClone(cached);
         if (!parsed.recovery.autonomic) parsed.recovery = { ...initialState.recovery, ...parsed.recovery };
         // Note: Don't use mock data as fallback - show empty state instead
         if (!parsed.performance.history) {
@@ -436,14 +471,41 @@ export const SentientProvider: React.FC<{ children: ReactNode }> = ({ children }
     } else {
       sync("init");
     }
+
+    // The squad view is not part of an athlete's data; open on their home tab
+    if (cached?.active_tab === 'squad') dispatch({ type: 'SET_TAB', payload: 'home' });
+
+    // Team mode: the profile belongs to the roster athlete whose database is open
+    if (isTeamMode()) {
+      const athlete = getActiveAthlete();
+      if (cached?.user_profile?.id !== athlete.id) {
+        dispatch({ type: 'UPDATE_USER_PROFILE', payload: cached ? { id: athlete.id } : { id: athlete.id, name: athlete.name } });
+      }
+    }
   }, []);
 
-  // Save state to LocalStorage and log history data point
+  // Save state to the persistence repository and log history data point
   useEffect(() => {
     const timer = setTimeout(() => {
       const { notifications, ...stateToSave } = state;
       const saveable = { ...stateToSave, orchestrator: { ...stateToSave.orchestrator, is_thinking: false } };
-      localStorage.setItem('sentient_state_v5', JSON.stringify(saveable));
+      persistence.setValue('global_state', JSON.parse(JSON.stringify(saveable)));
+
+      // Share what changed since the last save; Demo Mode data stays in this tab. Slices
+      // are compared by content: the sync layer and reducer rebuild objects that did not change
+      const previous = sharedRef.current;
+      const slices = Object.fromEntries(Object.entries(stateToSave).map(([slice, value]) => [slice, JSON.stringify(value)]));
+      const demo = !!stateToSave.ui_config?.demo_mode;
+      sharedRef.current = { slices, demo };
+      if (previous && !previous.demo && !demo) {
+        const merged = mergedRef.current;
+        const changed = Object.fromEntries(Object.entries(stateToSave).filter(([slice]) =>
+          slices[slice] !== previous.slices[slice] &&
+          !(slice in merged && JSON.stringify((merged as any)[slice]) === slices[slice])
+        ));
+        stateSync.recordLocal(changed);
+      }
+      mergedRef.current = {};
 
       // Log data point to history store
       saveDataPoint(stateToSave as GlobalState);
@@ -452,6 +514,12 @@ export const SentientProvider: React.FC<{ children: ReactNode }> = ({ children }
     return () => clearTimeout(timer);
   }, [state]);
 
+  // Reminders follow the plan; Demo Mode's sample sessions never notify
+  useEffect(() => {
+    if (state.ui_config?.demo_mode) notificationScheduler.stop();
+    else notificationScheduler.update(stateRef.current);
+  }, [state.timeline, state.sleep, state.user_profile, state.ui_config?.demo_mode]);
+
   // Apply theme to document
   useEffect(() => {
     const theme = state.user_profile.preferences?.theme || 'dark';
@@ -466,6 +534,7 @@ export const SentientProvider: React.FC<{ children: ReactNode }> = ({ children }
   // Record action outcome
   const recordOutcome = useCallback((outcome: ActionOutcome) => {
     saveOutcome(outcome);
+    stateSync.recordLocal({}, { outcomes: [outcome] });
     refreshHistory();
   }, [refreshHistory]);
 
@@ -485,7 +554,7 @@ export const SentientProvider: React.FC<{ children: ReactNode }> = ({ children }
   };
 
   const contextValue: SentientContextValue = {
-    state,
+    state: visibleState,
     dispatch,
     sync,
     history,
@@ -1,47 +1,216 @@
-// This is the "Offline page" service worker
+/**
+ * SentientOS service worker - Offline app shell and background sync
+ *
+ * The build (serviceWorkerPlugin in vite.config.ts) prepends
+ * `self.__PRECACHE = { version, urls }` listing every built file, including
+ * the static databases chunk (food, breathwork, recovery modalities).
+ *
+ * - Install: precache the build and the CDN scripts index.html loads
+ * - Navigations: network first, falling back to the cached shell
+ * - Same-origin files: cache first (built file names are content-hashed)
+ * - CDN scripts, styles and fonts: stale-while-revalidate
+ * - Background sync: replay the state-sync outbox (meals, completions,
+ *   journal entries logged offline) through an open tab, or straight from
+ *   IndexedDB when no tab is open
+ * - Notification clicks: Snooze is handed to an open tab (the scheduler
+ *   lives there); any other click focuses or opens the app
+ */
 
-importScripts('https://storage.googleapis.com/workbox-cdn/releases/5.1.2/workbox-sw.js');
+const PRECACHE = self.__PRECACHE || { version: 'dev', urls: ['/', '/index.html'] };
+const PRECACHE_NAME = `sentient-precache-${PRECACHE.version}`;
+const RUNTIME_CACHE = 'sentient-runtime';
+const SHELL_URL = '/index.html';
+const SYNC_TAG = 'sentient-sync-outbox';
+const CLIENT_SYNC_TIMEOUT_MS = 30000;
 
-const CACHE = "pwabuilder-page";
+// Hosts index.html loads scripts, styles and fonts from
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'cdnjs.cloudflare.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+const CDN_PRECACHE = [
+  'https://cdn.tailwindcss.com',
+  'https://cdnjs.cloudflare.com/ajax/libs/three.js/r128/three.min.js',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;800&family=JetBrains+Mono:wght@400;700&display=swap'
+];
 
-// TODO: replace the following with the correct offline fallback page i.e.: const offlineFallbackPage = "offline.html";
-const offlineFallbackPage = "ToDo-replace-this-name.html";
-
-self.addEventListener("message", (event) => {
-  if (event.data && event.data.type === "SKIP_WAITING") {
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
     self.skipWaiting();
   }
 });
 
-self.addEventListener('install', async (event) => {
-  event.waitUntil(
-    caches.open(CACHE)
-      .then((cache) => cache.add(offlineFallbackPage))
-  );
+// =====================================================
+// INSTALL / ACTIVATE
+// =====================================================
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(PRECACHE_NAME);
+    await cache.addAll(PRECACHE.urls);
+
+    // The page loads these without CORS, so only opaque copies can be kept.
+    // A CDN being unreachable must not fail the install.
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all(CDN_PRECACHE.map(async (url) => {
+      try {
+        await runtime.put(url, await fetch(new Request(url, { mode: 'no-cors' })));
+      } catch (e) {
+        console.warn('[SW] Could not precache', url, e);
+      }
+    }));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter((name) => name.startsWith('sentient-precache-') && name !== PRECACHE_NAME)
+      .map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
 });
 
-if (workbox.navigationPreload.isSupported()) {
-  workbox.navigationPreload.enable();
-}
+// =====================================================
+// FETCH
+// =====================================================
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && response.type === 'basic') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (request, event) => {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  if (cached) {
+    event.waitUntil(network);
+    return cached;
+  }
+  return network;
+};
+
+const networkFirstShell = async (request) => {
+  try {
+    return await fetch(request);
+  } catch (e) {
+    const shell = (await caches.match(SHELL_URL)) || (await caches.match('/'));
+    if (shell) return shell;
+    throw e;
+  }
+};
 
 self.addEventListener('fetch', (event) => {
-  if (event.request.mode === 'navigate') {
-    event.respondWith((async () => {
-      try {
-        const preloadResp = await event.preloadResponse;
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
 
-        if (preloadResp) {
-          return preloadResp;
-        }
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request, event));
+  }
+});
 
-        const networkResp = await fetch(event.request);
-        return networkResp;
-      } catch (error) {
+// =====================================================
+// BACKGROUND SYNC
+// =====================================================
 
-        const cache = await caches.open(CACHE);
-        const cachedResp = await cache.match(offlineFallbackPage);
-        return cachedResp;
-      }
-    })());
+// An open tab owns the outbox in memory; ask it to flush
+const flushThroughClient = (client) => new Promise((resolve, reject) => {
+  const channel = new MessageChannel();
+  const timer = setTimeout(() => reject(new Error('Tab did not answer the sync request')), CLIENT_SYNC_TIMEOUT_MS);
+  channel.port1.onmessage = (event) => {
+    clearTimeout(timer);
+    if (event.data && event.data.ok) resolve();
+    else reject(new Error((event.data && event.data.error) || 'Sync failed'));
+  };
+  client.postMessage({ type: 'SYNC_OUTBOX' }, [channel.port2]);
+});
+
+const requestToPromise = (request) => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Push one database's outbox to its log on the remote; the path must match services/sync/httpSyncAdapter.ts
+const flushDatabase = async (name) => {
+  const db = await requestToPromise(indexedDB.open(name));
+  try {
+    if (!db.objectStoreNames.contains('app_state')) return;
+    const read = db.transaction('app_state', 'readonly').objectStore('app_state');
+    const [outbox, settings] = await Promise.all([
+      requestToPromise(read.get('sync_outbox')),
+      requestToPromise(read.get('sync_settings'))
+    ]);
+    const changes = (outbox && outbox.value) || [];
+    const remoteUrl = settings && settings.value && settings.value.remote_url;
+    if (changes.length === 0 || !remoteUrl) return;
+
+    const response = await fetch(`${remoteUrl}/db/${encodeURIComponent(name)}/changes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changes })
+    });
+    if (!response.ok) throw new Error(`Sync server responded ${response.status}`);
+
+    // Keep anything queued while the request was in flight
+    const pushed = new Set(changes.map((change) => change.id));
+    const write = db.transaction('app_state', 'readwrite').objectStore('app_state');
+    const current = await requestToPromise(write.get('sync_outbox'));
+    const remaining = ((current && current.value) || []).filter((change) => !pushed.has(change.id));
+    await requestToPromise(write.put({ key: 'sync_outbox', value: remaining }, 'sync_outbox'));
+  } finally {
+    db.close();
   }
+};
+
+const flushFromDatabases = async () => {
+  const names = indexedDB.databases
+    ? (await indexedDB.databases()).map((db) => db.name).filter((name) => name && name.startsWith('sentient'))
+    : ['sentient'];
+  // Throwing makes the browser retry the sync later
+  const results = await Promise.allSettled(names.map(flushDatabase));
+  const failed = results.find((result) => result.status === 'rejected');
+  if (failed) throw failed.reason;
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window' });
+    if (windows.length > 0) return flushThroughClient(windows[0]);
+    return flushFromDatabases();
+  })());
+});
+
+// =====================================================
+// NOTIFICATIONS
+// =====================================================
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const id = event.notification.data && event.notification.data.id;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (event.action === 'snooze') {
+      // Without an open tab the reminder is not shown again until the app next opens
+      windows.forEach((client) => client.postMessage({ type: 'NOTIFICATION_SNOOZE', id }));
+      return;
+    }
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow('/');
+  })());
 });
@@ -270,6 +270,7 @@ export interface PerformanceLabsOutput {
   };
   ripple_outputs: RippleOutputs;
   communication: LabsCommunication;
+  provenance?: import('./types/provenance').DataProvenance;
 
   // Legacy support fields (optional) to prevent UI breaks during migration
   state_classification?: any;
@@ -364,6 +365,7 @@ export interface UserProfile {
   pcos_profile?: PCOSSubProfile;
   t1d_profile?: T1DSubProfile;
   genetic_profile?: GeneticProfile; // NEW: Gap 3
+  sharing_consent?: import('./types/redaction').SharingConsent; // What a coach may see despite redaction
 
   goals: string[];
   user_goal?: import('./types/goals').UserGoal;  // V2: Scientific goal-based system
@@ -409,6 +411,15 @@ export interface Session {
   expected_intensity?: string | null;
   is_competition_simulation?: boolean;
 
+  // Recorded data (imported activity files)
+  avg_hr?: number;
+  max_hr?: number;
+  avg_power_w?: number;
+  elevation_gain_m?: number;
+  trimp?: number;
+  streams?: import('./types/activity-import').ActivityStreams;
+  import_source?: import('./types/activity-import').ActivityImportSource;
+
   mutation_source?: 'recovery' | 'mind' | 'performance' | 'fuel';
   mutation_reason?: string;
   original_intensity?: "low" | "medium" | "high";
@@ -496,6 +507,86 @@ export interface SimulationReport {
   survived: boolean;
 }
 
+// A planned block, one entry per calendar day from its first date
+export interface PlannedDay {
+  date: string; // YYYY-MM-DD
+  sessions: Session[];
+}
+
+export type PlanSource = 'timeline' | 'periodization' | ScheduleArchetype;
+
+export interface TrainingPlan {
+  name: string;
+  source: PlanSource;
+  days: PlannedDay[];
+}
+
+// Daily values each Monte Carlo run resamples, one draw per simulated day
+export interface LifestyleDistributions {
+  sleep_hours: number[];
+  stress: number[];      // 1-10
+  compliance: number[];  // Share of a day's planned sessions completed
+  history_days: { sleep: number; stress: number; compliance: number }; // 0 = population default
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloDay {
+  day: number;
+  date: string;
+  planned_load: number;
+  readiness: PercentileBand;
+  acwr: PercentileBand;
+  injury_risk: PercentileBand;
+  failure_probability: number; // Share of runs failed on or before this day
+}
+
+export interface MonteCarloReport {
+  plan_name: string;
+  runs: number;
+  seed: number;
+  trajectory: MonteCarloDay[];
+  failure_probability: number;
+  median_failure_day: number | null; // Among the runs that failed
+  history_days: LifestyleDistributions['history_days'];
+  load_provenance: import('./types/provenance').DataProvenance; // Recorded load days seeding ACWR, of the 28-day window
+  recommendation: string;
+}
+
+// Changes a what-if variant makes to the base plan
+export type PlanEdit =
+  | { kind: 'move_session'; session_id: string; to_date: string }
+  | { kind: 'add_session'; session_id: string; to_date: string }   // A copy of the session, e.g. a double day
+  | { kind: 'remove_session'; session_id: string }
+  | { kind: 'deload'; start_date: string; days: number; factor: number }; // Session durations scaled by factor
+
+export interface PlanVariant {
+  id: string;
+  name: string;
+  edits: PlanEdit[];
+  sleep_target_hours?: number; // Shifts the sleep distribution so its median lands here
+}
+
+export interface VariantOutcome {
+  variant: PlanVariant;
+  report: MonteCarloReport;
+  target_readiness: PercentileBand;
+  mean_injury_risk: number; // Median risk averaged over the block
+  peak_acwr: number;        // Highest 90th-percentile ACWR
+}
+
+export interface VariantComparison {
+  target_date: string;
+  target_label: string;
+  outcomes: VariantOutcome[];
+  best_variant_id: string;
+  summary: string;
+}
+
 export interface SimulationState {
   active: boolean;
   report: SimulationReport | null;
@@ -609,6 +700,8 @@ export interface MentalStateVector {
   last_journal_sentiment: "Positive" | "Negative" | "Neutral";
   state_age_minutes: number;
   trend_direction: "improving" | "stable" | "declining";
+  pvt_z_score?: number | null;      // Today's PVT against the athlete's own history; null when none today
+  pvt_lapses?: number | null;
 }
 
 export interface CognitiveTrajectory {
@@ -0,0 +1,69 @@
+/**
+ * Account Bundle Types
+ * Portable JSON backup of everything the app stores for one athlete
+ */
+
+import { GlobalState } from '../types';
+import { UserHistory } from '../services/history/types';
+import { ActionStatus } from '../services/ActionSyncService';
+import { PersonalRecord, AgentLearningState } from '../features/performance/types/prTypes';
+import { DailyLoad } from './load-management';
+import { BiomarkerReading } from './biomarkers';
+import { RedactionSummary } from './redaction';
+
+export const ACCOUNT_BUNDLE_FORMAT = 'sentient-account-bundle';
+export const ACCOUNT_BUNDLE_VERSION = 1;
+
+export interface AccountBundleData {
+    global_state: Partial<GlobalState>;
+    history: UserHistory;
+    personal_records: PersonalRecord[];
+    action_statuses: ActionStatus[];
+    load_history: DailyLoad[];
+    agent_learning: AgentLearningState;
+    biomarker_readings?: BiomarkerReading[];  // Imported lab results; absent from older bundles
+}
+
+export interface AccountBundle {
+    format: typeof ACCOUNT_BUNDLE_FORMAT;
+    version: number;
+    exported_at: string;
+    checksum: string;             // SHA-256 (hex) of JSON.stringify(data)
+    redaction?: RedactionSummary; // Set when made for another role (shared with a coach)
+    data: AccountBundleData;
+}
+
+export type AccountBundleSection =
+    | 'history_points'
+    | 'history_outcomes'
+    | 'personal_records'
+    | 'action_statuses'
+    | 'load_history'
+    | 'biomarker_readings'
+    | 'suggestions';
+
+export interface BundleSectionDiff {
+    section: AccountBundleSection;
+    label: string;
+    existing: number;
+    incoming: number;
+    added: number;                // In bundle only
+    changed: number;              // In both, different content
+    unchanged: number;
+    removed: number;              // Only on this device (dropped by replace)
+}
+
+export interface AccountBundleDiff {
+    exported_at: string;
+    sections: BundleSectionDiff[];
+    state_keys_changed: (keyof GlobalState)[];
+    sessions_added: number;       // Timeline sessions a merge would add
+}
+
+export type AccountImportMode = 'merge' | 'replace';
+
+export interface AccountImportResult {
+    mode: AccountImportMode;
+    state: Partial<GlobalState>;
+    diff: AccountBundleDiff;
+}
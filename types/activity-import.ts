@@ -0,0 +1,106 @@
+/**
+ * Activity Import Types - Device Files → Timeline & Load History
+ *
+ * Activity files recorded on head units and watches (Garmin, Wahoo, Coros)
+ * and route exports (Strava GPX / TCX) are decoded locally into a
+ * format-neutral ParsedActivity, which is then mapped onto completed
+ * timeline Sessions and DailyLoad entries.
+ */
+
+import type { Session } from '../types';
+import type { DailyLoad } from './load-management';
+
+// ============================================================================
+// PARSED ACTIVITY (FORMAT-NEUTRAL)
+// ============================================================================
+
+export type ActivityFileFormat = 'fit' | 'gpx' | 'tcx';
+
+export type ActivitySport =
+    | 'running'
+    | 'cycling'
+    | 'swimming'
+    | 'walking'
+    | 'hiking'
+    | 'rowing'
+    | 'strength'
+    | 'training'
+    | 'team_sport'
+    | 'generic';
+
+export interface ActivitySample {
+    elapsed_s: number;            // Seconds since activity start
+    heart_rate?: number;          // bpm
+    power_w?: number;             // Watts
+    speed_mps?: number;           // m/s
+    cadence?: number;             // rpm / spm
+    altitude_m?: number;
+    distance_m?: number;          // Cumulative
+    lat?: number;                 // Degrees
+    lon?: number;                 // Degrees
+}
+
+export interface ParsedActivity {
+    format: ActivityFileFormat;
+    sport: ActivitySport;
+    start_time: string;           // ISO timestamp
+    duration_seconds: number;     // Moving / timer time
+    elapsed_seconds: number;      // Wall-clock time incl. pauses
+    distance_meters?: number;
+    elevation_gain_m?: number;
+    avg_hr?: number;
+    max_hr?: number;
+    avg_power_w?: number;
+    max_power_w?: number;
+    calories?: number;
+    device?: string;
+    samples: ActivitySample[];
+}
+
+// ============================================================================
+// SESSION STREAMS (DOWNSAMPLED FOR STORAGE)
+// ============================================================================
+
+/**
+ * Parallel arrays indexed by sample. Stored on the Session, so they are
+ * downsampled to keep the persisted state small.
+ */
+export interface ActivityStreams {
+    resolution_s: number;
+    elapsed_s: number[];
+    heart_rate?: number[];
+    power_w?: number[];
+    speed_mps?: number[];
+    altitude_m?: number[];
+}
+
+export interface ActivityImportSource {
+    format: ActivityFileFormat;
+    file_name: string;
+    imported_at: string;          // ISO timestamp
+    device?: string;
+    sport?: ActivitySport;
+    provider_id?: string;         // Set when synced through a WearableProvider
+    external_id?: string;
+}
+
+// ============================================================================
+// IMPORT OPTIONS & RESULTS
+// ============================================================================
+
+export interface ActivityImportOptions {
+    // Defaults to the athlete's load method; TRIMP falls back to session RPE when the file has no heart rate
+    load_method?: 'trimp' | 'session_rpe';
+}
+
+export interface ActivityImportResult {
+    file_name: string;
+    activity: ParsedActivity;
+    session: Session;
+    daily_load: DailyLoad;
+}
+
+export interface ActivityImportBatch {
+    imported: ActivityImportResult[];
+    failed: { file_name: string; error: string }[];
+}
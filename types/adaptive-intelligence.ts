@@ -11,6 +11,8 @@
  * 4. Actionable: Every insight leads to a clear action
  */
 
+import type { DecisionTrace } from './decision-audit';
+
 // ============================================================================
 // CONTEXT TYPES
 // ============================================================================
@@ -220,6 +222,9 @@ export interface AdaptiveIntelligenceOutput {
     // Learning insights
     patterns_detected: string[];
     personalization_notes: string[];
+
+    // How the commander action was ranked (for the decision log)
+    decision_trace: DecisionTrace;
 }
 
 /** System alerts */
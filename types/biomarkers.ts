@@ -7,6 +7,8 @@
  * - Overtraining syndrome research
  */
 
+import { DataProvenance } from './provenance';
+
 // ============================================================================
 // BIOMARKER CATEGORIES
 // ============================================================================
@@ -537,4 +539,5 @@ export interface BiomarkerDashboardOutput {
         recommendations: string[];
     }[];
     overall_score: number;
+    provenance: DataProvenance;  // Sample panel until lab results are imported
 }
@@ -8,6 +8,8 @@
  * - Huberman Lab protocols for light exposure and dopamine
  */
 
+import { DataProvenance } from './provenance';
+
 // ============================================================================
 // CHRONOTYPE
 // ============================================================================
@@ -255,6 +257,9 @@ export interface CircadianAnalysisOutput {
     recommended_last_meal_time: string;
     recommended_wind_down_time: string;
     recommended_sleep_time: string;
+
+    // Default wake/sleep times are synthetic
+    provenance: DataProvenance;
 }
 
 // ============================================================================
@@ -0,0 +1,68 @@
+/**
+ * Cognitive Battery Types
+ * Trials run by the shared trial runner behind every test in
+ * COGNITIVE_TESTS (experts/mental/CognitiveTestDatabase.ts).
+ */
+
+// Response time thresholds; null turns the check off for a test
+export interface TrialTiming {
+    anticipation_ms: number | null;  // Faster than this from onset is a guess, not a reaction
+    lapse_ms: number | null;         // Slower than this is an attention lapse
+}
+
+// One trial as a test lays it out
+export interface TrialSpec<S = unknown, R = unknown> {
+    stimulus: S;
+    expected: R | null;              // null: the correct response is to withhold
+    foreperiod_ms: number;           // Blank wait before the stimulus; responses here are anticipations
+    display_ms: number | null;       // Stimulus is masked after this; null keeps it up
+    window_ms: number | null;        // Trial ends without a response after this; null is self-paced
+}
+
+// What the test sees when laying out the next trial
+export interface TrialContext<S = unknown, R = unknown> {
+    index: number;                   // Within the practice or test block
+    level: number;
+    max_level: number;
+    practice: boolean;
+    previous: TrialRecord<S, R>[];   // Earlier trials of the same block
+}
+
+export interface TrialRecord<S = unknown, R = unknown> {
+    index: number;
+    practice: boolean;
+    level: number;
+    stimulus: S;
+    expected: R | null;
+    response: R | null;
+    onset_at: number | null;         // performance.now() time of the first frame showing the stimulus
+    rt_ms: number | null;            // Onset to response
+    correct: boolean;
+    grade: number;                   // 0-1; partial credit where a test gives it
+    anticipation: boolean;           // Responded before onset or under anticipation_ms
+    lapse: boolean;                  // Over lapse_ms, or no response when one was due
+}
+
+export interface TrialSummary {
+    trials: number;
+    correct: number;
+    accuracy: number;                // Mean grade, 0-100
+    mean_rt_ms: number | null;       // Correct responses, anticipations excluded
+    median_rt_ms: number | null;
+    rt_sd_ms: number | null;
+    anticipations: number;
+    lapses: number;
+    level_reached: number;
+    duration_ms: number;
+}
+
+// The day's Psychomotor Vigilance Task, as carried in mindspace state
+export interface PVTReading {
+    date: string;                    // YYYY-MM-DD (local) it was taken
+    taken_at: number;                // epoch ms
+    mean_reciprocal_rt: number;      // Mean of 1/RT over valid responses, per second
+    median_rt_ms: number | null;
+    lapses: number;                  // RT over 500 ms or no response
+    false_starts: number;
+    z_score: number | null;          // Against the athlete's own PVT history; negative is slower
+}
@@ -0,0 +1,32 @@
+/**
+ * CSV Export Types
+ * Spreadsheet exports of history, load, outcome and biomarker series
+ */
+
+import type { DataRole, SharingConsent } from './redaction';
+
+export type CsvDataset = 'history' | 'daily_load' | 'outcomes' | 'biomarkers';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface CsvColumnInfo {
+    id: string;
+    label: string;
+    default_selected: boolean;
+}
+
+export interface CsvExportOptions {
+    dataset: CsvDataset;
+    from?: string;                // YYYY-MM-DD, inclusive
+    to?: string;                  // YYYY-MM-DD, inclusive
+    columns?: string[];           // Column ids in output order; defaults to default_selected
+    units: UnitSystem;
+    role?: DataRole;              // Who receives the file; defaults to the athlete ('user')
+    consent?: SharingConsent;     // Athlete's sharing settings for non-user roles
+}
+
+export interface CsvExportResult {
+    file_name: string;
+    csv: string;
+    rows: number;
+}
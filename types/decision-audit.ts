@@ -0,0 +1,56 @@
+/**
+ * Decision Audit Types
+ * Why each commander action was chosen: the action every rule group
+ * proposed, how they ranked and the metrics the analysis saw at that moment
+ */
+
+import type { ActionCategory, ActionPriority, TemporalContext, TimeSensitivity } from './adaptive-intelligence';
+
+// Rule groups evaluated by AdaptiveIntelligenceEngine.analyze(), in evaluation order
+export type DecisionRule = 'safety' | 'circadian' | 'training' | 'recovery' | 'fuel' | 'default';
+
+// One proposed action, as it was ranked
+export interface DecisionCandidate {
+    id: string;
+    rule: DecisionRule;
+    title: string;
+    category: ActionCategory;
+    priority: ActionPriority;
+    time_sensitivity: TimeSensitivity;
+    source_engine: string;
+    confidence: number;           // 0-1
+    reason: string;               // rationale.primary_reason
+    supporting_signals: string[];
+    rank: number;                 // 1 = commander action
+}
+
+// Metrics the decision was made from (the engines' physiological state)
+export interface DecisionInputs {
+    readiness: number;
+    hrv: number;
+    hrv_zone: string;
+    recovery_score: number;
+    recovery_status: string;
+    sleep_quality: number;
+    sleep_debt: number;
+    acwr: number;
+    load_zone: string;
+    circadian_phase: string;
+    glycogen: string;
+    hydration: string;
+    next_session_hours: number | null;
+}
+
+// Ranking produced alongside the commander action
+export interface DecisionTrace {
+    candidates: DecisionCandidate[];      // Best first; the winner is candidates[0]
+    time_of_day: TemporalContext['time_of_day'];
+    hour: number;
+    inputs: DecisionInputs;
+}
+
+// One recorded decision, keyed by timestamp in the decision_log store
+export interface DecisionRecord extends DecisionTrace {
+    timestamp: number;
+    recorded_at: string;                  // ISO
+}
@@ -0,0 +1,67 @@
+/**
+ * Engine Registry Types
+ * One registered instance per engine, fed from the shared stores, with
+ * per-engine health for the diagnostics panel.
+ */
+
+import type { GlobalState } from '../types';
+
+export type EngineId =
+    | 'performance_labs'
+    | 'fuel'
+    | 'mind'
+    | 'recovery'
+    | 'load_management'
+    | 'sleep_architecture'
+    | 'circadian'
+    | 'hrv_analysis'
+    | 'biomarkers'
+    | 'pattern_discovery';
+
+export type EngineDomain = 'performance' | 'fuel' | 'mindspace' | 'recovery' | 'longevity' | 'medical' | 'insights';
+
+// Where an engine's numbers come from right now
+export type EngineDataSource =
+    | 'recorded'   // Imported / measured history from the shared stores
+    | 'live'       // The current GlobalState only
+    | 'mock'       // Sample data or demo mode
+    | 'none';      // Nothing to work with
+
+export interface EngineCoverage {
+    covered: number;
+    expected: number;
+    unit: 'days' | 'markers';
+}
+
+export interface EngineDefinition<T = unknown> {
+    id: EngineId;
+    label: string;
+    domain: EngineDomain;
+    instance: T;
+    // Re-read the engine's own history from the shared stores
+    hydrate?: (instance: T) => void;
+    dataSource: (instance: T, state: GlobalState) => EngineDataSource;
+    coverage: (instance: T, state: GlobalState) => EngineCoverage | null;
+}
+
+export type EngineStatus = 'ok' | 'degraded' | 'error' | 'idle';
+
+export interface EngineError {
+    message: string;
+    at: number;
+}
+
+export interface EngineHealth {
+    id: EngineId;
+    label: string;
+    domain: EngineDomain;
+    status: EngineStatus;
+    data_source: EngineDataSource;
+    coverage: EngineCoverage | null;
+    runs: number;
+    last_run: number | null;
+    last_duration_ms: number | null;
+    error_count: number;
+    last_error: EngineError | null;
+    last_hydrated: number | null;
+}
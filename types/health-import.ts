@@ -0,0 +1,58 @@
+/**
+ * Health Import Types - Apple Health export → History & Recovery Engines
+ *
+ * The Apple Health "Export All Health Data" archive (export.zip containing
+ * apple_health_export/export.xml) is streamed locally and reduced to one
+ * DailyHealthMetrics entry per calendar day.
+ */
+
+import type { SleepArchitecture } from './sleep-architecture';
+
+// ============================================================================
+// RAW RECORDS
+// ============================================================================
+
+export type AppleHealthRecordKind =
+    | 'sleep'
+    | 'hrv_sdnn'
+    | 'resting_hr'
+    | 'body_mass';
+
+// HKCategoryValueSleepAnalysis values, normalised to our stage names
+export type AppleSleepValue = 'in_bed' | 'asleep' | 'core' | 'deep' | 'rem' | 'awake';
+
+export interface AppleSleepSegment {
+    value: AppleSleepValue;
+    start: string;                // ISO timestamp with the recorded offset
+    end: string;
+    source?: string;              // sourceName, e.g. "Apple Watch"
+}
+
+export interface AppleHRVSample {
+    date: string;                 // YYYY-MM-DD (local to the recording)
+    timestamp: string;
+    sdnn_ms: number;
+    rmssd_ms?: number;            // Only when beat-to-beat metadata is present
+}
+
+// ============================================================================
+// DAILY SUMMARY
+// ============================================================================
+
+export interface DailyHealthMetrics {
+    date: string;                 // YYYY-MM-DD; sleep is keyed by wake date
+    sleep?: SleepArchitecture;
+    hrv_sdnn?: number;            // ms, daily mean
+    hrv_rmssd?: number;           // ms, daily mean
+    resting_hr?: number;          // bpm
+    body_mass_kg?: number;
+}
+
+export interface AppleHealthImportSummary {
+    file_name: string;
+    days: DailyHealthMetrics[];   // Sorted ascending by date
+    record_counts: Record<AppleHealthRecordKind, number>;
+    skipped_records: number;      // Matched type but unusable (bad unit/date)
+    first_date?: string;
+    last_date?: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * Lab Import Types
+ * Lab report rows (CSV or pasted report text) mapped to BiomarkerReadings
+ */
+
+import { BiomarkerReading } from './biomarkers';
+
+export type LabReportFormat = 'csv' | 'text';
+
+// One result line as it appeared in the report
+export interface LabRow {
+    raw: string;
+    line: number;
+    name: string;
+    value?: number;
+    value_text?: string;          // Value as printed, e.g. "<0.5"
+    unit?: string;
+    date?: string;                // YYYY-MM-DD when the row carries its own date
+    reference_range?: string;
+}
+
+export type LabReviewReason =
+    | 'unknown_marker'            // No synonym matched the name
+    | 'unknown_unit'              // Marker matched, unit missing or not convertible
+    | 'no_value'                  // No numeric result
+    | 'implausible_value';        // Converted value far outside any reference range
+
+export interface LabReviewItem {
+    id: string;
+    row: LabRow;
+    reason: LabReviewReason;
+    biomarker_id?: string;        // Best guess, if the name matched
+    date: string;
+    lab_name?: string;
+    source_file?: string;
+    queued_at: string;
+}
+
+export interface LabImportMatch {
+    row: LabRow;
+    reading: BiomarkerReading;
+    converted_from?: string;      // Original unit when a conversion was applied
+}
+
+export interface LabImportOptions {
+    date?: string;                // Collection date for rows without one; defaults to a date found in the report, then today
+    lab_name?: string;
+    fasting?: boolean;
+    source_file?: string;
+}
+
+export interface LabImportResult {
+    format: LabReportFormat;
+    date: string;
+    matches: LabImportMatch[];
+    review: LabReviewItem[];
+    ignored_lines: number;
+}
@@ -0,0 +1,98 @@
+/**
+ * LLM Provider Types - Model backends behind the AI coach
+ *
+ * Callers describe the JSON they expect with a provider-neutral LLMSchema.
+ * Each provider translates it into its own structured-output format; the
+ * parsed answer is then validated against the same schema whichever
+ * provider produced it.
+ */
+
+// ============================================================================
+// STRUCTURED OUTPUT SCHEMA
+// ============================================================================
+
+interface LLMSchemaBase {
+    nullable?: boolean;
+    description?: string;
+}
+
+export interface LLMStringSchema extends LLMSchemaBase {
+    type: 'string';
+    enum?: string[];
+}
+
+export interface LLMNumberSchema extends LLMSchemaBase {
+    type: 'number';
+}
+
+export interface LLMBooleanSchema extends LLMSchemaBase {
+    type: 'boolean';
+}
+
+export interface LLMArraySchema extends LLMSchemaBase {
+    type: 'array';
+    items: LLMSchema;
+}
+
+// Properties are optional unless listed in `required`
+export interface LLMObjectSchema extends LLMSchemaBase {
+    type: 'object';
+    properties: Record<string, LLMSchema>;
+    required?: string[];
+}
+
+export type LLMSchema =
+    | LLMStringSchema
+    | LLMNumberSchema
+    | LLMBooleanSchema
+    | LLMArraySchema
+    | LLMObjectSchema;
+
+// ============================================================================
+// PROVIDER CONTRACT
+// ============================================================================
+
+export interface LLMImage {
+    mime_type: string;
+    data: string;                 // Base64, no data: prefix
+}
+
+export interface LLMRequest {
+    task: string;                 // Stable task name, e.g. 'coach_chat'; keys recorded responses
+    prompt: string;
+    schema: LLMSchema;
+    images?: LLMImage[];
+}
+
+export interface LLMConnectionResult {
+    success: boolean;
+    message: string;
+}
+
+export interface LLMProvider {
+    readonly id: string;
+    readonly name: string;
+    readonly description: string;
+    readonly supportsImages: boolean;
+
+    isConfigured(): boolean;
+    /** Parsed JSON answer; validation against the schema happens in the caller */
+    generate(request: LLMRequest): Promise<unknown>;
+    testConnection(): Promise<LLMConnectionResult>;
+}
+
+// ============================================================================
+// PERSISTED SETTINGS
+// ============================================================================
+
+export interface LLMProviderConfig {
+    model: string;
+    api_key?: string;
+    base_url?: string;            // OpenAI-compatible endpoints, e.g. http://localhost:8080/v1
+    timeout_ms?: number;
+}
+
+export interface LLMSettings {
+    active_provider: string;
+    providers: Record<string, LLMProviderConfig>;
+}
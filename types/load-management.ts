@@ -7,17 +7,33 @@
  * - Danger Zone: >1.5 (2-4x injury risk)
  */
 
+import { DataProvenance } from './provenance';
+
 // ============================================================================
 // WORKLOAD TYPES
 // ============================================================================
 
+/**
+ * How load_au was computed:
+ * - session_rpe: Foster sRPE = RPE × duration (min)
+ * - trimp: Banister heart-rate training impulse
+ * - mixed: a day combining entries computed both ways
+ */
+export type LoadMethod = 'session_rpe' | 'trimp' | 'mixed';
+
+// The one method an athlete's load series is computed with
+export type AthleteLoadMethod = Exclude<LoadMethod, 'mixed'>;
+
 export interface DailyLoad {
     date: string;
     session_rpe: number;          // 1-10 scale
     duration_minutes: number;
-    load_au: number;              // Arbitrary Units = RPE × duration
+    load_au: number;              // Arbitrary Units, see load_method
     session_type: 'training' | 'competition' | 'recovery' | 'rest';
     intensity_zone: 'low' | 'moderate' | 'high' | 'very_high';
+    load_method?: LoadMethod;     // Defaults to session_rpe when absent
+    trimp?: number;               // Kept alongside load_au when the session had heart rate
+    source_id?: string;           // Session the entry was recorded from
 }
 
 export interface WeeklyLoad {
@@ -208,6 +224,9 @@ export interface LoadManagementOutput {
     // Injury risk summary
     injury_risk_level: 'low' | 'moderate' | 'elevated' | 'high' | 'critical';
     contributing_factors: string[];
+
+    // Data provenance
+    provenance: DataProvenance;
 }
 
 // ============================================================================
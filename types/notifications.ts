@@ -0,0 +1,45 @@
+/**
+ * Scheduled Notification Types
+ * Reminders built from the day's plan (fuel windows, supplement windows,
+ * bedtime, timeline sessions) and shown as system notifications.
+ */
+
+export type NotificationCategory = 'fuel' | 'supplements' | 'bedtime' | 'sessions';
+
+export interface QuietHours {
+    enabled: boolean;
+    start: string;             // "22:00"
+    end: string;               // "07:00"; may be earlier than start (overnight)
+}
+
+export interface NotificationSettings {
+    enabled: boolean;
+    categories: Record<NotificationCategory, boolean>;
+    quiet_hours: QuietHours;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+    enabled: false,
+    categories: { fuel: true, supplements: true, bedtime: true, sessions: true },
+    quiet_hours: { enabled: true, start: '22:00', end: '07:00' }
+};
+
+// One reminder in the schedule
+export interface ScheduledNotification {
+    id: string;                // `${category}:${date}:${key}`, stable while the plan item exists
+    category: NotificationCategory;
+    title: string;
+    body: string;
+    fire_at: number;           // Epoch ms, after any snooze
+    planned_at: number;        // Epoch ms from the plan
+    snoozed: boolean;
+    quiet: boolean;            // Falls in quiet hours; not shown
+}
+
+// What was already shown or snoozed, by notification id
+export interface NotificationLog {
+    delivered: Record<string, number>;   // fire_at it was shown for
+    snoozed: Record<string, number>;     // Snoozed until
+}
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
@@ -235,6 +235,55 @@ export const FITNESS_FATIGUE_CONSTANTS = {
     optimal_form_range: { min: 10, max: 30 } // TSB for peak performance
 };
 
+/**
+ * Personal Banister parameters, fitted to the athlete's load history and a
+ * performance proxy:
+ * performance(t) = p0 + k1·Σ w(s)·e^(-(t-s)/τ1) - k2·Σ w(s)·e^(-(t-s)/τ2)
+ */
+export type PerformanceProxy = 'hr_at_pace' | 'personal_records';
+
+export interface PerformanceObservation {
+    date: string;              // YYYY-MM-DD
+    value: number;             // Performance index; 100 = the series' reference
+    source: PerformanceProxy;
+}
+
+// Estimate with its 95% interval
+export interface ParameterEstimate {
+    value: number;
+    low: number;
+    high: number;
+}
+
+export interface BanisterFit {
+    source: 'personal' | 'default';
+    proxy: PerformanceProxy | null;
+    p0: ParameterEstimate;         // Performance index with no training
+    k1: ParameterEstimate;         // Fitness gain per load unit
+    k2: ParameterEstimate;         // Fatigue gain per load unit
+    tau1: ParameterEstimate;       // Fitness decay, days
+    tau2: ParameterEstimate;       // Fatigue decay, days
+    r_squared: number | null;
+    adjusted_r_squared: number | null;
+    rmse: number | null;           // Performance index points
+    n_observations: number;
+    history_days: number;
+    residual_df: number;
+    residual_variance: number | null;
+    covariance: number[][] | null; // Of (p0, k1, k2) at the fitted τ1/τ2
+    reason?: string;               // Why the defaults are in use
+}
+
+export interface FormPrediction {
+    date: string;
+    fitness: number;               // k1 term, performance index points
+    fatigue: number;               // k2 term
+    form: number;                  // fitness - fatigue
+    performance: number;           // p0 + form
+    low: number | null;            // 95% prediction interval; personal fits only
+    high: number | null;
+}
+
 // ============================================================================
 // ANNUAL PLAN
 // ============================================================================
@@ -0,0 +1,17 @@
+/**
+ * Data Provenance Types
+ * Whether an engine output or expert analysis is backed by the athlete's
+ * own data, and by how much of it.
+ */
+
+export type ProvenanceLevel =
+    | 'real'          // Enough of the athlete's own data for the full window
+    | 'partial'       // Own data, but fewer days than the window
+    | 'synthetic'     // Generated / sample data stands in for the athlete's
+    | 'insufficient'; // Own data, too little to rely on
+
+export interface DataProvenance {
+    level: ProvenanceLevel;
+    real_days: number;      // Days of the athlete's own data used
+    expected_days: number;  // Days the calculation is designed for
+}
@@ -0,0 +1,29 @@
+/**
+ * Redaction Types
+ * Which parts of GlobalState each viewer role may see, and what the athlete
+ * has agreed to share
+ */
+
+import type { SubscriberRole } from '../services/globalSubscriber';
+
+export type DataRole = SubscriberRole;
+
+export type RedactionCategory = 'journal' | 'clinical' | 'medical' | 'genetics';
+
+export interface RedactionPolicy {
+    category: RedactionCategory;
+    label: string;
+    description: string;
+    paths: string[];              // Dot paths into GlobalState
+    hidden_from: DataRole[];
+    consentable: boolean;         // Athlete may share it with these roles anyway
+}
+
+// Categories the athlete shares despite the policy (true = shared)
+export type SharingConsent = Partial<Record<RedactionCategory, boolean>>;
+
+export interface RedactionSummary {
+    role: DataRole;
+    hidden: RedactionCategory[];
+    shared_by_consent: RedactionCategory[];
+}
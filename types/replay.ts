@@ -0,0 +1,26 @@
+/**
+ * Replay Types
+ * A past moment rebuilt from history and run through the orchestrators
+ * with the clock pinned to it
+ */
+
+import type { GlobalState, SentientOutput } from '../types';
+import type { HistoricalDataPoint } from '../services/history/types';
+import type { ActionCandidate } from '../experts/orchestrator/orchestratorV7';
+import type { UnifiedTimeline } from '../experts/orchestrator/ExpertCouncil';
+
+export interface ReplayOptions {
+    // Newest snapshot accepted before the replayed moment
+    max_snapshot_age_hours?: number;
+}
+
+export interface ReplayResult {
+    at: string;                           // ISO timestamp the clock was pinned to
+    snapshot: HistoricalDataPoint;        // History point the state was rebuilt from
+    snapshot_age_minutes: number;
+    state: GlobalState;                   // Rebuilt input state
+    local: SentientOutput;                // SentientLocalOrchestrator.runAll()
+    active_command: ActionCandidate | null; // SentientOrchestrator.determineActiveCommand()
+    council: UnifiedTimeline;             // ExpertCouncil.convene()
+    notes: string[];                      // What could not be reconstructed
+}
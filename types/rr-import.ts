@@ -0,0 +1,65 @@
+/**
+ * RR-Interval Import Types
+ * Raw beat-to-beat exports (Polar, Kubios, Elite HRV text) and the HRV
+ * metrics computed from the artifact-corrected series
+ */
+
+import { HRVReading } from './hrv';
+
+export type RRIntervalUnit = 'ms' | 'seconds';
+
+export interface RRParseResult {
+    intervals_ms: number[];
+    detected_unit: RRIntervalUnit;
+    skipped_lines: number;        // Headers, comments and non-numeric lines
+}
+
+export interface RRArtifactReport {
+    total_beats: number;
+    corrected_beats: number;
+    corrected_percent: number;
+    corrected_indices: number[];
+}
+
+export interface RRHRVMetrics {
+    beats: number;
+    duration_s: number;
+    mean_rr: number;              // ms
+    hr_mean: number;              // bpm
+
+    // Time domain
+    rmssd: number;                // ms
+    sdnn: number;                 // ms
+    pnn50: number;                // % of successive differences > 50 ms
+
+    // Frequency domain (Welch PSD of the 4 Hz resampled series); needs >= 2 min
+    lf_power?: number;            // ms², 0.04-0.15 Hz
+    hf_power?: number;            // ms², 0.15-0.40 Hz
+    lf_hf_ratio?: number;
+
+    // Nonlinear
+    sd1: number;                  // ms, Poincaré short-term
+    sd2: number;                  // ms, Poincaré long-term
+    dfa_alpha1?: number;          // Short-term fractal scaling, 4-16 beats
+}
+
+export type RRRecordingQuality = 'good' | 'acceptable' | 'poor';
+
+export interface RRRecording {
+    id: string;
+    date: string;                 // YYYY-MM-DD
+    recorded_at: string;          // ISO timestamp
+    context: HRVReading['measurement_context'];
+    metrics: RRHRVMetrics;
+    artifacts: Omit<RRArtifactReport, 'corrected_indices'>;
+    quality: RRRecordingQuality;
+    warnings: string[];
+    source_file?: string;
+}
+
+export interface RRImportOptions {
+    date?: string;                // Defaults to today
+    time?: string;                // HH:mm, defaults to now
+    context?: HRVReading['measurement_context'];
+    source_file?: string;
+}
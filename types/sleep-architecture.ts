@@ -8,6 +8,8 @@
  * - REM target: 20-25% (1.5-2.0h for 8h night)
  */
 
+import { DataProvenance } from './provenance';
+
 // ============================================================================
 // SLEEP STAGE TYPES
 // ============================================================================
@@ -202,6 +204,7 @@ export interface SleepAnalysisOutput {
     recommendations: SleepRecommendation[];
     bedtime_recommendation: string;
     wake_recommendation: string;
+    provenance: DataProvenance;
 }
 
 // ============================================================================
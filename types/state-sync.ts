@@ -0,0 +1,73 @@
+/**
+ * State Sync Types
+ * GlobalState changes shared between open tabs (BroadcastChannel) and
+ * between devices (a remote sync adapter), merged slice by slice.
+ */
+
+import type { GlobalState } from '../types';
+import type { ActionOutcome } from '../services/history/types';
+import type { ActionStatus } from '../services/ActionSyncService';
+
+export type SyncSlice = Exclude<keyof GlobalState, 'notifications'>;
+
+// How a slice from another tab or device is merged into the local one
+export type SliceMergeStrategy =
+    | 'last_writer_wins'   // The newer slice replaces the older one
+    | 'append_merge'       // Keyed lists are unioned; other fields last-writer-wins
+    | 'local_only';        // Never shared (view state, derived output)
+
+export interface SlicePolicy {
+    strategy: SliceMergeStrategy;
+    // append_merge: list fields of the slice and the key of their items
+    lists?: { field: string; key: string }[];
+}
+
+// When and by which replica (tab or device) a slice was last written
+export interface SliceStamp {
+    at: number;
+    origin: string;
+}
+
+// Records from append-only stores that travel with a change
+export interface SyncRecords {
+    outcomes?: ActionOutcome[];          // By command_id; a completed copy replaces an open one
+    action_statuses?: ActionStatus[];    // By id; the later completion / skip wins
+}
+
+// One set of local changes, as sent to other tabs and to the remote
+export interface SyncChange {
+    id: string;                // `${origin}:${seq}`
+    origin: string;
+    created_at: number;
+    slices: Partial<Pick<GlobalState, SyncSlice>>;
+    stamps: Partial<Record<SyncSlice, SliceStamp>>;
+    records?: SyncRecords;
+}
+
+export interface RemotePullResult {
+    changes: SyncChange[];
+    cursor: string;
+}
+
+// A remote log of changes; the local HTTP stand-in server is one
+export interface RemoteSyncAdapter {
+    readonly id: string;
+    readonly name: string;
+    push(changes: SyncChange[]): Promise<void>;
+    pull(cursor: string | null): Promise<RemotePullResult>;
+}
+
+export interface SyncSettings {
+    remote_url: string | null;
+}
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+    state: SyncState;
+    remote: string | null;     // Adapter name, null when only tabs sync
+    pending: number;           // Changes waiting for the remote
+    last_push: number | null;
+    last_pull: number | null;
+    last_error: string | null;
+}
@@ -0,0 +1,38 @@
+/**
+ * Team Types
+ * Coach roster for team mode: one isolated database per athlete, plus the
+ * squad overview the coach triages from
+ */
+
+import type { ACWRZone } from './load-management';
+
+export interface TeamAthlete {
+    id: string;
+    name: string;
+    sport?: string;
+    added_at: number;
+    database: string;             // IndexedDB database holding this athlete's data
+}
+
+// Kept in the team directory database, outside any athlete's data
+export interface TeamRoster {
+    enabled: boolean;
+    coach_name: string;
+    athletes: TeamAthlete[];
+    active_athlete_id: string;
+}
+
+export type SquadSortKey = 'attention' | 'readiness' | 'acwr';
+
+// One row of the squad dashboard
+export interface SquadAthleteStatus {
+    athlete: TeamAthlete;
+    has_data: boolean;
+    readiness: number | null;
+    acwr: number | null;
+    acwr_zone: ACWRZone | null;
+    red_day: boolean;
+    red_day_signals: string[];        // Signal labels from RedDayEngine
+    last_sync: number | null;
+    attention_score: number;          // Higher = look at this athlete first
+}
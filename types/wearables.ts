@@ -0,0 +1,121 @@
+/**
+ * Wearable Provider Types - Adapter layer between vendors and the engines
+ *
+ * Every source of device data (local files, vendor APIs, test fakes)
+ * implements WearableProvider and returns format-neutral records. The sync
+ * layer deduplicates them against what was already imported, resolves
+ * cross-provider conflicts and feeds the same pipelines as manual imports.
+ */
+
+import type { Session } from '../types';
+import type { ParsedActivity } from './activity-import';
+import type { SleepArchitecture } from './sleep-architecture';
+import type { DailyHealthMetrics } from './health-import';
+
+// ============================================================================
+// PROVIDER CONTRACT
+// ============================================================================
+
+export type WearableCapability = 'activities' | 'sleep' | 'hrv';
+
+/**
+ * One page of records changed since `cursor`. Pass `next_cursor` back on the
+ * following call; `has_more` asks the sync to fetch again straight away.
+ */
+export interface WearablePage<T> {
+    items: T[];
+    next_cursor?: string;
+    has_more: boolean;
+}
+
+interface WearableRecordBase {
+    external_id: string;          // Stable id within the provider
+    modified_at: string;          // ISO; newer versions of a record replace older
+}
+
+export interface WearableActivity extends WearableRecordBase {
+    activity: ParsedActivity;
+    file_name?: string;
+}
+
+export interface WearableSleep extends WearableRecordBase {
+    night: SleepArchitecture;
+}
+
+export interface WearableHRV extends WearableRecordBase {
+    date: string;                 // YYYY-MM-DD
+    rmssd_ms?: number;
+    sdnn_ms?: number;
+    resting_hr?: number;
+}
+
+export interface WearableProvider {
+    readonly id: string;
+    readonly name: string;
+    readonly description: string;
+    readonly capabilities: WearableCapability[];
+
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    isConnected(): boolean;
+
+    listActivities(cursor?: string): Promise<WearablePage<WearableActivity>>;
+    fetchSleep(cursor?: string): Promise<WearablePage<WearableSleep>>;
+    fetchHRV(cursor?: string): Promise<WearablePage<WearableHRV>>;
+}
+
+// ============================================================================
+// PERSISTED SYNC STATE
+// ============================================================================
+
+export type WearableCursors = Partial<Record<WearableCapability, string>>;
+
+export interface WearableConnection {
+    provider_id: string;
+    connected_at: string;
+    last_sync_at?: string;
+    last_error?: string;
+    cursors: WearableCursors;
+}
+
+/**
+ * What was imported for a record key, across all providers. Keys are
+ * `activities:<provider>:<external_id>`, `sleep:<date>` and `hrv:<date>`.
+ */
+export interface WearableLedgerEntry {
+    provider_id: string;
+    external_id: string;
+    modified_at: string;
+    record_id?: string;           // Session id for activities
+}
+
+// Which side wins when two providers report the same night / activity
+export type WearableConflictPolicy = 'keep_existing' | 'prefer_incoming';
+
+// ============================================================================
+// SYNC RESULTS
+// ============================================================================
+
+export interface WearableConflict {
+    capability: WearableCapability;
+    key: string;                  // Date or activity start time
+    existing: { provider_id: string; external_id: string };
+    incoming: { provider_id: string; external_id: string };
+    resolution: 'kept_existing' | 'replaced';
+}
+
+export interface WearableSyncCounts {
+    added: number;
+    updated: number;
+    unchanged: number;            // Already imported at this version
+}
+
+export interface WearableSyncResult {
+    provider_id: string;
+    synced_at: string;
+    counts: Record<WearableCapability, WearableSyncCounts>;
+    conflicts: WearableConflict[];
+    // Changes to apply to state via `activities_imported` / `health_imported`
+    sessions: Session[];
+    health_days: DailyHealthMetrics[];
+}
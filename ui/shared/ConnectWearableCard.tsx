@@ -3,15 +3,17 @@
  * 
  * Displayed when a feature requires wearable/biomarker data that isn't available.
  * Provides context-aware messaging and prompts users to connect their device.
+ * Without an onConnect handler, Connect opens the wearable providers sheet.
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import {
     Watch, Heart, Dna, Flame, Brain, Activity,
-    Link, ArrowRight
+    Link, ArrowRight, Sparkles
 } from 'lucide-react';
 import { GlassCard, Button, cn } from '../../components/ui';
+import { WearableProvidersSheet } from './WearableProvidersSheet';
 
 // Domain configurations with contextual messaging
 const DOMAIN_CONFIG = {
@@ -55,6 +57,14 @@ const DOMAIN_CONFIG = {
         gradient: 'from-emerald-500/10 to-transparent',
         borderColor: 'border-emerald-500/30'
     },
+    insights: {
+        icon: Sparkles,
+        title: 'Not Enough History',
+        message: 'Keep syncing your wearable and logging sessions to unlock insights.',
+        color: 'text-purple-400',
+        gradient: 'from-purple-500/10 to-transparent',
+        borderColor: 'border-purple-500/30'
+    },
     sleep: {
         icon: Watch,
         title: 'Sleep Data Needed',
@@ -84,9 +94,13 @@ export const ConnectWearableCard: React.FC<ConnectWearableCardProps> = ({
 }) => {
     const config = DOMAIN_CONFIG[domain];
     const Icon = config.icon;
+    const [showProviders, setShowProviders] = useState(false);
+    const handleConnect = onConnect ?? (() => setShowProviders(true));
+    const providersSheet = showProviders && <WearableProvidersSheet onClose={() => setShowProviders(false)} />;
 
     if (compact) {
         return (
+            <>
             <div className={cn(
                 "flex items-center gap-3 p-3 rounded-xl border border-dashed",
                 config.borderColor,
@@ -98,16 +112,19 @@ export const ConnectWearableCard: React.FC<ConnectWearableCardProps> = ({
                     {customMessage || 'Data unavailable'}
                 </span>
                 <button
-                    onClick={onConnect}
+                    onClick={handleConnect}
                     className={cn("ml-auto text-xs font-medium", config.color, "hover:underline")}
                 >
                     Connect
                 </button>
             </div>
+            {providersSheet}
+            </>
         );
     }
 
     return (
+        <>
         <GlassCard className={cn(
             "relative overflow-hidden border-dashed",
             config.borderColor,
@@ -145,7 +162,7 @@ export const ConnectWearableCard: React.FC<ConnectWearableCardProps> = ({
                     whileTap={{ scale: 0.98 }}
                 >
                     <Button
-                        onClick={onConnect}
+                        onClick={handleConnect}
                         className={cn(
                             "gap-2 bg-white/10 hover:bg-white/15 border",
                             config.borderColor
@@ -163,6 +180,8 @@ export const ConnectWearableCard: React.FC<ConnectWearableCardProps> = ({
                 </p>
             </div>
         </GlassCard>
+        {providersSheet}
+        </>
     );
 };
 
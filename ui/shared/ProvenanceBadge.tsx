@@ -0,0 +1,48 @@
+/**
+ * PROVENANCE BADGE
+ * Marks insights that are not fully backed by the athlete's own data.
+ * Renders nothing for real data.
+ */
+
+import React from 'react';
+import { Database, FlaskConical } from 'lucide-react';
+import { cn } from '../core/primitives';
+import { DataProvenance, ProvenanceLevel } from '../../types/provenance';
+import { PROVENANCE_LABELS } from '../../services/provenance';
+
+interface ProvenanceBadgeProps {
+    provenance?: DataProvenance;
+    className?: string;
+}
+
+const LEVEL_STYLES: Record<ProvenanceLevel, string> = {
+    real: 'bg-green-500/20 text-green-300',
+    partial: 'bg-sky-500/20 text-sky-300',
+    insufficient: 'bg-yellow-500/20 text-yellow-300',
+    synthetic: 'bg-fuchsia-500/20 text-fuchsia-300'
+};
+
+export const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ provenance, className }) => {
+    if (!provenance || provenance.level === 'real') return null;
+
+    const Icon = provenance.level === 'synthetic' ? FlaskConical : Database;
+    const days = provenance.level === 'synthetic'
+        ? null
+        : `${provenance.real_days}/${provenance.expected_days}d`;
+
+    return (
+        <span
+            className={cn(
+                'inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-medium whitespace-nowrap',
+                LEVEL_STYLES[provenance.level],
+                className
+            )}
+            title={`${PROVENANCE_LABELS[provenance.level]}: ${provenance.real_days} of ${provenance.expected_days} days from your own data`}
+        >
+            <Icon className="w-3 h-3" />
+            {PROVENANCE_LABELS[provenance.level]}{days && ` · ${days}`}
+        </span>
+    );
+};
+
+export default ProvenanceBadge;
@@ -0,0 +1,209 @@
+/**
+ * Wearable Providers Sheet
+ *
+ * Lists registered wearable providers with their connection state and lets
+ * the user connect, sync and disconnect. Opened from ConnectWearableCard.
+ */
+
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+    Watch, X, RefreshCw, Loader2, FolderOpen, Upload, Unlink, AlertTriangle, Check
+} from 'lucide-react';
+import { Button, cn } from '../../components/ui';
+import { useSentient } from '../../store/SentientContext';
+import {
+    wearableRegistry,
+    fileDropProvider,
+    FileDropProvider,
+    connectWearable,
+    disconnectWearable,
+    syncWearable,
+    loadConnections,
+    loadConflictPolicy,
+    saveConflictPolicy
+} from '../../services/wearables';
+import { WearableConflictPolicy, WearableSyncResult } from '../../types/wearables';
+
+interface WearableProvidersSheetProps {
+    onClose: () => void;
+}
+
+const summarise = (result: WearableSyncResult): string => {
+    const { activities, sleep, hrv } = result.counts;
+    const parts = [
+        activities.added + activities.updated > 0 ? `${activities.added + activities.updated} activities` : null,
+        sleep.added + sleep.updated > 0 ? `${sleep.added + sleep.updated} nights` : null,
+        hrv.added + hrv.updated > 0 ? `${hrv.added + hrv.updated} HRV days` : null
+    ].filter(Boolean);
+    return parts.length > 0 ? `Imported ${parts.join(', ')}` : 'Already up to date';
+};
+
+export const WearableProvidersSheet: React.FC<WearableProvidersSheetProps> = ({ onClose }) => {
+    const { state, sync } = useSentient();
+    const [connections, setConnections] = useState(() => loadConnections());
+    const [policy, setPolicy] = useState<WearableConflictPolicy>(() => loadConflictPolicy());
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [results, setResults] = useState<Record<string, WearableSyncResult>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const providers = wearableRegistry.list({ includeDemo: state.ui_config?.demo_mode });
+
+    const run = async (providerId: string, action: () => Promise<void>) => {
+        setBusyId(providerId);
+        setErrors(prev => ({ ...prev, [providerId]: '' }));
+        try {
+            await action();
+        } catch (e: any) {
+            console.error(`[WearableProviders] ${providerId} failed:`, e);
+            setErrors(prev => ({ ...prev, [providerId]: e?.message || 'Sync failed' }));
+        } finally {
+            setConnections(loadConnections());
+            setBusyId(null);
+        }
+    };
+
+    const syncProvider = (providerId: string) => run(providerId, async () => {
+        if (!wearableRegistry.get(providerId)?.isConnected()) await connectWearable(providerId);
+        const result = await syncWearable(providerId, {
+            sessions: state.timeline.sessions,
+            profile: state.user_profile,
+            policy
+        });
+        if (result.sessions.length > 0 || result.health_days.length > 0) {
+            sync('wearable_synced', { sessions: result.sessions, health_days: result.health_days });
+        }
+        setResults(prev => ({ ...prev, [providerId]: result }));
+    });
+
+    const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+        fileDropProvider.addFiles(files);
+        syncProvider(fileDropProvider.id);
+    };
+
+    const chooseFolder = () => run(fileDropProvider.id, async () => {
+        await fileDropProvider.chooseFolder();
+        await connectWearable(fileDropProvider.id);
+    }).then(() => syncProvider(fileDropProvider.id));
+
+    const changePolicy = (next: WearableConflictPolicy) => {
+        setPolicy(next);
+        saveConflictPolicy(next);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-md">
+            <input type="file" ref={fileInputRef} className="hidden" multiple accept=".fit,.gpx,.tcx,.zip,.xml" onChange={handleFiles} />
+
+            <motion.div initial={{ scale: 0.9, opacity: 0 }} animate={{ scale: 1, opacity: 1 }}
+                className="w-full max-w-lg bg-background border border-white/10 rounded-2xl overflow-hidden">
+                <div className="p-6 border-b border-white/10 flex justify-between items-center">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 rounded-lg bg-indigo-500/20"><Watch className="w-5 h-5 text-indigo-400" /></div>
+                        <div>
+                            <h3 className="font-bold text-lg text-white">Connect Devices</h3>
+                            <p className="text-[10px] text-white/40 uppercase tracking-widest">Activities · Sleep · HRV</p>
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-white/40 hover:text-white"><X className="w-5 h-5" /></button>
+                </div>
+
+                <div className="p-6 space-y-3 max-h-[60vh] overflow-y-auto">
+                    {providers.map(provider => {
+                        const connection = connections[provider.id];
+                        const result = results[provider.id];
+                        const error = errors[provider.id] || connection?.last_error;
+                        const busy = busyId === provider.id;
+
+                        return (
+                            <div key={provider.id} className="p-4 bg-white/5 rounded-xl border border-white/10">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div>
+                                        <div className="font-bold text-white text-sm flex items-center gap-2">
+                                            {provider.name}
+                                            {connection && <span className="text-[9px] font-bold uppercase tracking-wider text-emerald-400 px-1.5 py-0.5 bg-emerald-500/20 rounded-full">Connected</span>}
+                                        </div>
+                                        <div className="text-[10px] text-white/50">{provider.description}</div>
+                                        {connection?.last_sync_at && (
+                                            <div className="text-[10px] text-white/30 mt-1">Last sync {new Date(connection.last_sync_at).toLocaleString()}</div>
+                                        )}
+                                    </div>
+                                    {connection && (
+                                        <button onClick={() => run(provider.id, () => disconnectWearable(provider.id))}
+                                            className="text-white/30 hover:text-white/70" title="Disconnect">
+                                            <Unlink className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                </div>
+
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    {provider.id === fileDropProvider.id ? (
+                                        <>
+                                            <Button size="sm" variant="outline" disabled={busy} onClick={() => fileInputRef.current?.click()}>
+                                                <Upload className="w-3 h-3" /> Add Files
+                                            </Button>
+                                            {FileDropProvider.supportsFolders() && (
+                                                <Button size="sm" variant="outline" disabled={busy} onClick={chooseFolder}>
+                                                    <FolderOpen className="w-3 h-3" /> {fileDropProvider.folderName || 'Choose Folder'}
+                                                </Button>
+                                            )}
+                                            {fileDropProvider.folderName && (
+                                                <Button size="sm" variant="outline" disabled={busy} onClick={() => syncProvider(provider.id)}>
+                                                    <RefreshCw className="w-3 h-3" /> Rescan
+                                                </Button>
+                                            )}
+                                        </>
+                                    ) : (
+                                        <Button size="sm" variant="outline" disabled={busy} onClick={() => syncProvider(provider.id)}>
+                                            <RefreshCw className="w-3 h-3" /> {connection ? 'Sync Now' : 'Connect & Sync'}
+                                        </Button>
+                                    )}
+                                    {busy && <Loader2 className="w-4 h-4 text-white/50 animate-spin self-center" />}
+                                </div>
+
+                                {result && (
+                                    <div className="mt-3 text-xs text-emerald-300 flex items-start gap-2">
+                                        <Check className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                        <span>
+                                            {summarise(result)}
+                                            {result.conflicts.length > 0 && (
+                                                <span className="text-yellow-300"> · {result.conflicts.length} overlapping with another source ({result.conflicts.filter(c => c.resolution === 'replaced').length} replaced)</span>
+                                            )}
+                                        </span>
+                                    </div>
+                                )}
+                                {error && (
+                                    <div className="mt-3 text-xs text-red-300 flex items-start gap-2">
+                                        <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                        {error}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-4 border-t border-white/10 flex items-center justify-between gap-3">
+                    <span className="text-[10px] uppercase tracking-widest text-white/40">When two sources overlap</span>
+                    <div className="flex gap-1">
+                        {(['keep_existing', 'prefer_incoming'] as const).map(option => (
+                            <button key={option} onClick={() => changePolicy(option)}
+                                className={cn(
+                                    "px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider border",
+                                    policy === option ? "bg-indigo-500/20 border-indigo-500/40 text-indigo-300" : "border-white/10 text-white/40"
+                                )}>
+                                {option === 'keep_existing' ? 'Keep existing' : 'Use newest sync'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </motion.div>
+        </div>
+    );
+};
+
+export default WearableProvidersSheet;
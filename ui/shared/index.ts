@@ -7,3 +7,4 @@ export { TrendSparkline } from './TrendSparkline';
 export { QuickStatsRow } from './QuickStatsRow';
 export { ThresholdGauge } from './ThresholdGauge';
 export { ExpertInsightCard } from './ExpertInsightCard';
+export { ProvenanceBadge } from './ProvenanceBadge';
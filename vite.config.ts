@@ -1,18 +1,50 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Static databases, bundled into one chunk the service worker precaches
+const DATABASE_MODULES = ['foodDatabase', 'BreathworkDatabase', 'RecoveryModalityDatabase'];
+
+// Emits sw.js with the list of built files to precache (see sw.js)
+const serviceWorkerPlugin = (): Plugin => ({
+  name: 'sentient-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(file => !file.endsWith('.map'));
+    const urls = ['/', ...new Set(['index.html', ...files])].map(file => file.startsWith('/') ? file : `/${file}`);
+    const version = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `self.__PRECACHE = ${JSON.stringify({ version, urls })};\n${source}`
+    });
+  }
+});
+
+export default defineConfig(({ mode, command }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerPlugin()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // The service worker caches built files; in dev it would serve stale modules
+        'process.env.SERVICE_WORKER': JSON.stringify(command === 'build')
+      },
+      build: {
+        rollupOptions: {
+          output: {
+            manualChunks: id => DATABASE_MODULES.some(name => id.includes(`/${name}.`)) ? 'databases' : undefined
+          }
+        }
       },
       resolve: {
         alias: {